@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // sql.js loads its WebAssembly binary from its own package directory
+  serverExternalPackages: ["sql.js"],
 };
 
-export default nextConfig;
\ No newline at end of file
+export default nextConfig;
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+import { createStorageAdapter, getStorageOptions, StorageBackend } from '../src/lib/storage'
+import { migrateStorage } from '../src/lib/storage/migrate'
+
+/**
+ * Move a workspace between storage backends.
+ *
+ * Usage:
+ *   npm run storage:migrate -- --from file --to sqlite
+ *   npm run storage:migrate -- --from sqlite --to file --workspace ./data --sqlite ./data/qa.sqlite
+ */
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1]
+      i++
+    }
+  }
+  return args
+}
+
+function parseBackend(value: string | undefined, flag: string): StorageBackend {
+  if (value === 'file' || value === 'sqlite') {
+    return value
+  }
+  console.error(`Missing or invalid --${flag} (expected "file" or "sqlite")`)
+  process.exit(1)
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const from = parseBackend(args.from, 'from')
+  const to = parseBackend(args.to, 'to')
+
+  if (from === to) {
+    console.error('--from and --to must be different backends')
+    process.exit(1)
+  }
+
+  const options = getStorageOptions({
+    ...process.env,
+    ...(args.workspace ? { QA_WORKSPACE_DIR: args.workspace } : {}),
+    ...(args.sqlite ? { QA_SQLITE_PATH: args.sqlite } : {})
+  })
+
+  console.log(`Migrating workspace ${options.workspaceDir} from ${from} to ${to}`)
+  if (from === 'sqlite' || to === 'sqlite') {
+    console.log(`SQLite database: ${options.sqlitePath}`)
+  }
+
+  const report = await migrateStorage(
+    createStorageAdapter({ ...options, backend: from }),
+    createStorageAdapter({ ...options, backend: to }),
+    message => console.log(message)
+  )
+
+  console.log(`Migrated ${report.testCases} test cases (${report.revisions} revisions), ${report.testPlans} test plans, ${report.testRuns} test runs, ${report.trashEntries} trash entries, ${report.sharedSteps} shared steps, ${report.customFields} custom fields, ${report.suites} test suites, ${report.requirements} requirements, ${report.bulkEdits} bulk edits, ${report.releases} releases, ${report.attachments} attachments`)
+
+  if (report.errors.length > 0) {
+    console.error(`${report.errors.length} errors:`)
+    report.errors.forEach(error => console.error(`  ${error}`))
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+import { createStorageAdapter, getStorageOptions } from '../src/lib/storage'
+import { migrateTestRuns } from '../src/lib/storage/migrate-runs'
+
+/**
+ * Rewrite stored test runs in the canonical format, one file per run.
+ * Uses the configured backend (QA_STORAGE_BACKEND).
+ *
+ * Usage:
+ *   npm run storage:migrate-runs
+ *   npm run storage:migrate-runs -- --workspace ./data
+ */
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1]
+      i++
+    }
+  }
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const options = getStorageOptions({
+    ...process.env,
+    ...(args.workspace ? { QA_WORKSPACE_DIR: args.workspace } : {}),
+    ...(args.sqlite ? { QA_SQLITE_PATH: args.sqlite } : {})
+  })
+
+  console.log(`Migrating test runs in ${options.backend === 'sqlite' ? options.sqlitePath : options.workspaceDir}`)
+
+  const report = await migrateTestRuns(createStorageAdapter(options), message => console.log(message))
+
+  console.log(`Rewrote ${report.testRuns} test runs, removed ${report.legacyFilesRemoved} legacy files`)
+
+  if (report.errors.length > 0) {
+    console.error(`${report.errors.length} errors:`)
+    report.errors.forEach(error => console.error(`  ${error}`))
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error)
+  process.exit(1)
+})
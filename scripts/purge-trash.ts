@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+
+import { FileUtils } from '../src/lib/file-utils'
+
+/**
+ * Permanently delete trash entries past their retention period
+ * (QA_TRASH_RETENTION_DAYS, default 30). Meant to run from cron.
+ *
+ * Usage:
+ *   npm run trash:purge
+ */
+
+async function main() {
+  const purged = await FileUtils.purgeExpiredTrash()
+
+  purged.forEach(entry => console.log(`Purged ${entry.entityType} ${entry.entityId} (${entry.name})`))
+  console.log(`Purged ${purged.length} expired trash entries`)
+}
+
+main().catch(error => {
+  console.error('Purge failed:', error)
+  process.exit(1)
+})
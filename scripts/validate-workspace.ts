@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+import { createStorageAdapter, getStorageOptions } from '../src/lib/storage'
+import { validateWorkspace } from '../src/lib/storage/validate'
+
+/**
+ * Check every stored test case, plan and run against the schema and list
+ * the invalid ones with the reason. With --repair the known issues
+ * (localized priorities, malformed timestamps, orphaned test case IDs)
+ * are fixed in place. Exits with 1 while invalid documents remain.
+ *
+ * Usage:
+ *   npm run storage:validate
+ *   npm run storage:validate -- --repair
+ *   npm run storage:validate -- --workspace ./data
+ */
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      const value = argv[i + 1]
+      // Flags without a value, e.g. --repair
+      if (value === undefined || value.startsWith('--')) {
+        args[argv[i].slice(2)] = 'true'
+      } else {
+        args[argv[i].slice(2)] = value
+        i++
+      }
+    }
+  }
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const options = getStorageOptions({
+    ...process.env,
+    ...(args.workspace ? { QA_WORKSPACE_DIR: args.workspace } : {}),
+    ...(args.sqlite ? { QA_SQLITE_PATH: args.sqlite } : {})
+  })
+
+  console.log(`Validating ${options.backend === 'sqlite' ? options.sqlitePath : options.workspaceDir}`)
+
+  const report = await validateWorkspace(createStorageAdapter(options), { repair: args.repair === 'true' })
+
+  for (const finding of report.findings) {
+    console.log(`${finding.location} (${finding.entityType})`)
+    finding.repairs.forEach(repair => console.log(`  repaired ${repair}`))
+    finding.issues.forEach(issue => {
+      console.log(`  ${issue.path || '<document>'} ${issue.message}${issue.repairable ? ' [repairable]' : ''}`)
+    })
+  }
+
+  console.log(`Scanned ${report.scanned} documents: ${report.invalid} invalid, ${report.repaired} repaired`)
+
+  if (report.invalid > 0) {
+    if (!args.repair && report.findings.some(finding => finding.issues.every(issue => issue.repairable))) {
+      console.log('Run with --repair to fix the repairable documents')
+    }
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.error('Validation failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+
+// Types a browser can show inline without running anything
+const INLINE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'text/plain']
+
+// Download the file. Add ?download=1 to force a download instead of
+// displaying images and PDFs inline.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const loaded = await FileUtils.loadAttachmentContent(id)
+
+    if (!loaded) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const { attachment, content } = loaded
+    const disposition = INLINE_CONTENT_TYPES.includes(attachment.contentType) && !searchParams.get('download')
+      ? 'inline'
+      : 'attachment'
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': String(content.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+        // Content never changes for an ID, only the attachment can be deleted
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        ETag: `"${attachment.sha256}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to download attachment' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await FileUtils.deleteAttachment(id, { author: session?.user?.name || undefined })
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Attachment deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { AttachmentError, FileUtils } from '@/lib/file-utils'
+import { getMaxAttachmentBytes } from '@/lib/attachments'
+import { AttachmentTarget } from '@/lib/types'
+
+const ERROR_STATUS: Record<AttachmentError['reason'], number> = {
+  invalid_target: 400,
+  target_not_found: 404,
+  too_large: 413,
+  unsupported_type: 415
+}
+
+// Target fields are read from the query string (GET) or the form (POST)
+function readTarget(get: (name: string) => unknown): Partial<AttachmentTarget> {
+  const value = (name: string) => {
+    const field = get(name)
+    return typeof field === 'string' && field !== '' ? field : undefined
+  }
+
+  return {
+    type: value('type') as AttachmentTarget['type'] | undefined,
+    testCaseId: value('testCaseId'),
+    stepId: value('stepId'),
+    testRunId: value('testRunId')
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const attachments = await FileUtils.getAttachments(readTarget(name => searchParams.get(name)))
+
+    return NextResponse.json(attachments)
+  } catch (error) {
+    console.error('Error fetching attachments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch attachments' },
+      { status: 500 }
+    )
+  }
+}
+
+// Room for the multipart boundaries and target fields around the file
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+// Upload a file as multipart/form-data: 'file' plus the target fields
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Parsing the form buffers the whole body, so oversized uploads are refused from their declared length first
+    const contentLength = Number(request.headers.get('content-length'))
+    if (contentLength > getMaxAttachmentBytes() + FORM_OVERHEAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is larger than the limit of ${getMaxAttachmentBytes()} bytes` },
+        { status: 413 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    // Bodies without a Content-Length, or a file just over the limit, are only caught once parsed
+    if (file.size > getMaxAttachmentBytes()) {
+      return NextResponse.json(
+        { error: `File is larger than the limit of ${getMaxAttachmentBytes()} bytes` },
+        { status: 413 }
+      )
+    }
+
+    const uploadedBy = formData.get('uploadedBy')
+    const { attachment, created } = await FileUtils.addAttachment({
+      target: readTarget(name => formData.get(name)),
+      fileName: file.name,
+      contentType: file.type,
+      content: Buffer.from(await file.arrayBuffer()),
+      uploadedBy: session?.user?.name || (typeof uploadedBy === 'string' && uploadedBy) || 'Unknown User'
+    })
+
+    return NextResponse.json(attachment, { status: created ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: ERROR_STATUS[error.reason] }
+      )
+    }
+    console.error('Error uploading attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
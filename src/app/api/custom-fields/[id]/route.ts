@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+// The ID can't change, it is the key of the stored values
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const existing = (await FileUtils.getCustomFields()).find(field => field.id === id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Custom field not found' },
+        { status: 404 }
+      )
+    }
+
+    const { label, type, entityTypes, options, description } = await request.json()
+    const field = await FileUtils.saveCustomField(
+      {
+        ...existing,
+        label: label ?? existing.label,
+        type: type ?? existing.type,
+        entityTypes: entityTypes ?? existing.entityTypes,
+        options: options ?? existing.options,
+        description: description ?? existing.description
+      },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Custom field updated successfully',
+      field
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating custom field:', error)
+    return NextResponse.json(
+      { error: 'Failed to update custom field' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const deleted = await FileUtils.deleteCustomField(id, { author: session?.user?.name || undefined })
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Custom field not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Custom field deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting custom field:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete custom field' },
+      { status: 500 }
+    )
+  }
+}
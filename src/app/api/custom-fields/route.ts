@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { CUSTOM_FIELD_ENTITY_TYPES } from '@/lib/schema'
+import { CustomFieldEntityType } from '@/lib/types'
+
+export async function GET(request: NextRequest) {
+  try {
+    const entityType = request.nextUrl.searchParams.get('entityType') || undefined
+
+    if (entityType && !(CUSTOM_FIELD_ENTITY_TYPES as string[]).includes(entityType)) {
+      return NextResponse.json(
+        { error: `entityType must be one of ${CUSTOM_FIELD_ENTITY_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await FileUtils.getCustomFields(entityType as CustomFieldEntityType | undefined))
+  } catch (error) {
+    console.error('Error fetching custom fields:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch custom fields' },
+      { status: 500 }
+    )
+  }
+}
+
+// Field definitions are workspace settings, so changing them needs a signed in user or token
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { id, label, type, entityTypes, options, description } = await request.json()
+
+    if (!id || !label || !type || !Array.isArray(entityTypes)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: id, label, type, entityTypes' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await FileUtils.getCustomFields()
+    if (existing.some(field => field.id === id)) {
+      return NextResponse.json(
+        { error: `Custom field ${id} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const field = await FileUtils.saveCustomField(
+      { id, label, type, entityTypes, options, description },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Custom field created successfully',
+      field
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating custom field:', error)
+    return NextResponse.json(
+      { error: 'Failed to create custom field' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+import { gitDisabledResponse, gitErrorResponse } from '../helpers'
+
+// List the conflicting files, or with ?path= the base, our and their version of one
+export async function GET(request: NextRequest) {
+  try {
+    const git = FileUtils.getGitWorkspace()
+    if (!git) {
+      return gitDisabledResponse()
+    }
+
+    const filePath = new URL(request.url).searchParams.get('path')
+    if (!filePath) {
+      return NextResponse.json((await git.status()).conflicts)
+    }
+
+    const conflict = await git.getConflict(filePath)
+    if (!conflict) {
+      return NextResponse.json(
+        { error: 'Conflict not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(conflict)
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to fetch conflicts')
+  }
+}
+
+// Resolve one file with { path, resolution: 'ours' | 'theirs' }. The merge
+// is committed when the last conflict is resolved.
+export async function POST(request: NextRequest) {
+  try {
+    const git = FileUtils.getGitWorkspace()
+    if (!git) {
+      return gitDisabledResponse()
+    }
+
+    const { path: filePath, resolution } = await request.json()
+    if (typeof filePath !== 'string' || (resolution !== 'ours' && resolution !== 'theirs')) {
+      return NextResponse.json(
+        { error: "path and a resolution of 'ours' or 'theirs' are required" },
+        { status: 400 }
+      )
+    }
+
+    const session = await getServerSession(authOptions)
+    const conflicts = await git.resolveConflict(filePath, resolution, {
+      name: session?.user?.name || 'Unknown User',
+      email: session?.user?.email || undefined
+    })
+    FileUtils.invalidateSearchIndex()
+
+    return NextResponse.json({ conflicts })
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to resolve conflict')
+  }
+}
+
+// Abort the merge and go back to the state before the pull
+export async function DELETE() {
+  try {
+    const git = FileUtils.getGitWorkspace()
+    if (!git) {
+      return gitDisabledResponse()
+    }
+
+    await git.abortMerge()
+    FileUtils.invalidateSearchIndex()
+    return NextResponse.json({ message: 'Merge aborted' })
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to abort merge')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { GitError } from '@/lib/storage'
+
+const ERROR_STATUS: Record<GitError['reason'], number> = {
+  no_remote: 400,
+  not_found: 404,
+  conflicts: 409,
+  rejected: 409,
+  misconfigured: 409,
+  failed: 500
+}
+
+export const gitDisabledResponse = () => NextResponse.json(
+  { error: 'Git is not enabled for this workspace, set QA_GIT_ENABLED=true' },
+  { status: 400 }
+)
+
+export function gitErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof GitError) {
+    return NextResponse.json(
+      { error: error.message, reason: error.reason },
+      { status: ERROR_STATUS[error.reason] }
+    )
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
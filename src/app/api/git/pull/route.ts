@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+import { gitDisabledResponse, gitErrorResponse } from '../helpers'
+
+// Merge the remote branch into the workspace. Conflicts are returned with
+// status 409 and stay in the workspace until resolved or aborted.
+export async function POST() {
+  try {
+    const git = FileUtils.getGitWorkspace()
+    if (!git) {
+      return gitDisabledResponse()
+    }
+
+    const session = await getServerSession(authOptions)
+    const result = await git.pull({
+      name: session?.user?.name || 'Unknown User',
+      email: session?.user?.email || undefined
+    })
+    // The pull changes test cases behind FileUtils' back
+    FileUtils.invalidateSearchIndex()
+
+    return NextResponse.json(result, { status: result.status === 'conflicts' ? 409 : 200 })
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to pull workspace')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+import { gitDisabledResponse, gitErrorResponse } from '../helpers'
+
+// Push the workspace branch. Rejected with 409 when the remote has changes to pull first.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const git = FileUtils.getGitWorkspace()
+    if (!git) {
+      return gitDisabledResponse()
+    }
+
+    await git.push()
+    return NextResponse.json({ ...(await git.status()), message: 'Workspace pushed' })
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to push workspace')
+  }
+}
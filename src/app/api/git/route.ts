@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+import { gitErrorResponse } from './helpers'
+
+// Branch, sync state, conflicts and uncommitted changes of the workspace repository
+export async function GET() {
+  try {
+    const git = FileUtils.getGitWorkspace()
+    if (!git) {
+      return NextResponse.json({ enabled: false })
+    }
+
+    return NextResponse.json({ enabled: true, ...(await git.status()) })
+  } catch (error) {
+    return gitErrorResponse(error, 'Failed to get git status')
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// The go/no-go verdict of the release from its exit criteria, evaluated against the runs as they are now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const report = await FileUtils.getReleaseReport(id)
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error evaluating release readiness:', error)
+    return NextResponse.json(
+      { error: 'Failed to evaluate release readiness' },
+      { status: 500 }
+    )
+  }
+}
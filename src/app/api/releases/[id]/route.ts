@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const release = await FileUtils.loadRelease(id)
+
+    if (!release) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(release)
+  } catch (error) {
+    console.error('Error fetching release:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch release' },
+      { status: 500 }
+    )
+  }
+}
+
+// Fields left out of the body are kept
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { name, kind, description, version, status, startDate, targetDate, testPlans, testRuns, exitCriteria } = await request.json()
+
+    const existing = await FileUtils.loadRelease(id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      )
+    }
+
+    const release = await FileUtils.saveRelease(
+      {
+        ...existing,
+        name: name ?? existing.name,
+        kind: kind ?? existing.kind,
+        description: description ?? existing.description,
+        version: version ?? existing.version,
+        status: status ?? existing.status,
+        startDate: startDate ?? existing.startDate,
+        targetDate: targetDate ?? existing.targetDate,
+        testPlans: testPlans ?? existing.testPlans,
+        testRuns: testRuns ?? existing.testRuns,
+        exitCriteria: exitCriteria ?? existing.exitCriteria
+      },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Release updated successfully',
+      release
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating release:', error)
+    return NextResponse.json(
+      { error: 'Failed to update release' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await FileUtils.deleteRelease(id, { author: session?.user?.name || undefined })
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Release deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting release:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete release' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET() {
+  try {
+    return NextResponse.json(await FileUtils.getReleases())
+  } catch (error) {
+    console.error('Error fetching releases:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch releases' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { name, kind, description, version, status, startDate, targetDate, testPlans, testRuns, exitCriteria } = await request.json()
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Missing required field: name' },
+        { status: 400 }
+      )
+    }
+
+    const release = await FileUtils.saveRelease(
+      { id: randomUUID(), name, kind, description, version, status, startDate, targetDate, testPlans, testRuns, exitCriteria },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Release created successfully',
+      release
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating release:', error)
+    return NextResponse.json(
+      { error: 'Failed to create release' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const requirement = await FileUtils.loadRequirement(id)
+
+    if (!requirement) {
+      return NextResponse.json(
+        { error: 'Requirement not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(requirement)
+  } catch (error) {
+    console.error('Error fetching requirement:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch requirement' },
+      { status: 500 }
+    )
+  }
+}
+
+// Fields left out of the body are kept
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { title, description, source, acceptanceCriteria, testCases } = await request.json()
+
+    const existing = await FileUtils.loadRequirement(id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Requirement not found' },
+        { status: 404 }
+      )
+    }
+
+    const requirement = await FileUtils.saveRequirement(
+      {
+        ...existing,
+        title: title ?? existing.title,
+        description: description ?? existing.description,
+        source: source ?? existing.source,
+        acceptanceCriteria: acceptanceCriteria ?? existing.acceptanceCriteria,
+        testCases: testCases ?? existing.testCases
+      },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Requirement updated successfully',
+      requirement
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating requirement:', error)
+    return NextResponse.json(
+      { error: 'Failed to update requirement' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await FileUtils.deleteRequirement(id, { author: session?.user?.name || undefined })
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Requirement not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Requirement deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting requirement:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete requirement' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+async function linkTestCases(request: NextRequest, requirementId: string, unlink: boolean) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { testCaseIds } = await request.json()
+
+    if (!Array.isArray(testCaseIds)) {
+      return NextResponse.json(
+        { error: 'testCaseIds array is required' },
+        { status: 400 }
+      )
+    }
+
+    const requirement = await FileUtils.linkRequirementTestCases(requirementId, testCaseIds, {
+      unlink,
+      author: session?.user?.name || undefined
+    })
+    if (!requirement) {
+      return NextResponse.json(
+        { error: 'Requirement not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: unlink ? 'Test cases unlinked successfully' : 'Test cases linked successfully',
+      requirement
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error linking test cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to link test cases' },
+      { status: 500 }
+    )
+  }
+}
+
+// Adds the test cases to those covering the requirement
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return linkTestCases(request, id, false)
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return linkTestCases(request, id, true)
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { GitHubService } from '@/lib/github'
+
+// Imports the issues of a repository, all of them with the given state or only issueNumbers
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { owner, repo, state = 'open', issueNumbers } = await request.json()
+
+    if (!owner || !repo) {
+      return NextResponse.json(
+        { error: 'Missing required fields: owner, repo' },
+        { status: 400 }
+      )
+    }
+
+    // Get token from session or PAT header
+    let token: string | null = null
+    if (session?.accessToken) {
+      token = session.accessToken as string
+    } else {
+      token = request.headers.get('Authorization')?.replace('Bearer ', '') || null
+    }
+
+    if (!token) {
+      return NextResponse.json({ error: 'No authentication token provided' }, { status: 401 })
+    }
+
+    const github = GitHubService.createFromToken(token)
+    const issues = (await github.getIssues(owner, repo, state))
+      .filter(issue => !Array.isArray(issueNumbers) || issueNumbers.includes(issue.number))
+
+    const result = await FileUtils.importGitHubRequirements(issues, `${owner}/${repo}`, {
+      author: session?.user?.name || undefined
+    })
+
+    return NextResponse.json({
+      message: `Imported ${result.created.length} new and ${result.updated.length} updated requirements`,
+      ...result
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error importing requirements:', error)
+    return NextResponse.json(
+      { error: 'Failed to import requirements' },
+      { status: 500 }
+    )
+  }
+}
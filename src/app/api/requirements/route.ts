@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { nextRequirementId } from '@/lib/requirements'
+
+// ?testCaseId=<id> lists the requirements a test case covers
+export async function GET(request: NextRequest) {
+  try {
+    const testCaseId = request.nextUrl.searchParams.get('testCaseId')
+
+    if (testCaseId) {
+      return NextResponse.json(await FileUtils.getTestCaseRequirements(testCaseId))
+    }
+    return NextResponse.json(await FileUtils.getRequirements())
+  } catch (error) {
+    console.error('Error fetching requirements:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch requirements' },
+      { status: 500 }
+    )
+  }
+}
+
+// Without an id the requirement gets the next REQ-<n> ID
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id, title, description, source, acceptanceCriteria, testCases } = await request.json()
+
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Missing required field: title' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await FileUtils.getRequirements()
+    if (id && existing.some(requirement => requirement.id === id)) {
+      return NextResponse.json(
+        { error: `Requirement ${id} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const requirement = await FileUtils.saveRequirement(
+      { id: id || nextRequirementId(existing), title, description, source, acceptanceCriteria, testCases },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Requirement created successfully',
+      requirement
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating requirement:', error)
+    return NextResponse.json(
+      { error: 'Failed to create requirement' },
+      { status: 500 }
+    )
+  }
+}
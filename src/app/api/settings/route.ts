@@ -3,8 +3,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import fs from 'fs/promises';
 import path from 'path';
+import { getStorageOptions } from '@/lib/storage';
 
-const SETTINGS_FILE = path.join(process.cwd(), 'settings.json');
+const SETTINGS_FILE = path.join(getStorageOptions().workspaceDir, 'settings.json');
 
 interface Settings {
   preferences: {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// Impact of an edit before it is saved: the diff and the test cases it reaches
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { title, description, steps, tags } = await request.json()
+
+    if (!title || !Array.isArray(steps)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: title, steps' },
+        { status: 400 }
+      )
+    }
+
+    const preview = await FileUtils.previewSharedStepChange(id, { title, description, steps, tags })
+    if (!preview) {
+      return NextResponse.json(
+        { error: 'Shared step not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(preview)
+  } catch (error) {
+    console.error('Error previewing shared step change:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview shared step change' },
+      { status: 500 }
+    )
+  }
+}
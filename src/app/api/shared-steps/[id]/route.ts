@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileSystemError, FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const sharedStep = await FileUtils.loadSharedStep(id)
+
+    if (!sharedStep) {
+      return NextResponse.json(
+        { error: 'Shared step not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(sharedStep)
+  } catch (error) {
+    console.error('Error fetching shared step:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared step' },
+      { status: 500 }
+    )
+  }
+}
+
+// Saves a new version; test cases pinned to an earlier version keep running that one
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { title, description, steps, tags } = await request.json()
+
+    const existing = await FileUtils.loadSharedStep(id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Shared step not found' },
+        { status: 404 }
+      )
+    }
+    if (!title || !Array.isArray(steps)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: title, steps' },
+        { status: 400 }
+      )
+    }
+
+    const sharedStep = await FileUtils.saveSharedStep(
+      { ...existing, title, description, steps, tags },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Shared step updated successfully',
+      sharedStep
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating shared step:', error)
+    return NextResponse.json(
+      { error: 'Failed to update shared step' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await FileUtils.deleteSharedStep(id, { author: session?.user?.name || undefined })
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Shared step not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Shared step deleted successfully' })
+  } catch (error) {
+    if (error instanceof FileSystemError && error.operation === 'sharedStepInUse') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error deleting shared step:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete shared step' },
+      { status: 500 }
+    )
+  }
+}
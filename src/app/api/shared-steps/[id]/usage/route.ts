@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// Test cases that reference the shared step, split into latest and pinned references
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const sharedStep = await FileUtils.loadSharedStep(id)
+
+    if (!sharedStep) {
+      return NextResponse.json(
+        { error: 'Shared step not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await FileUtils.getSharedStepUsage(id))
+  } catch (error) {
+    console.error('Error fetching shared step usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared step usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const versions = await FileUtils.getSharedStepVersions(id)
+
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { error: 'Shared step not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(versions)
+  } catch (error) {
+    console.error('Error fetching shared step versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared step versions' },
+      { status: 500 }
+    )
+  }
+}
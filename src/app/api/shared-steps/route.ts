@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET() {
+  try {
+    return NextResponse.json(await FileUtils.getAllSharedSteps())
+  } catch (error) {
+    console.error('Error fetching shared steps:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared steps' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { title, description, steps, tags } = await request.json()
+
+    if (!title || !Array.isArray(steps)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: title, steps' },
+        { status: 400 }
+      )
+    }
+
+    const sharedStep = await FileUtils.saveSharedStep(
+      { id: randomUUID(), title, description, steps, tags, createdBy: session?.user?.name || 'Unknown User' },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Shared step created successfully',
+      sharedStep
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating shared step:', error)
+    return NextResponse.json(
+      { error: 'Failed to create shared step' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+// Moves a suite under parentId (null for the top level) at position among its siblings
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { parentId, position } = await request.json()
+
+    if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+      return NextResponse.json(
+        { error: 'position must be a non-negative integer' },
+        { status: 400 }
+      )
+    }
+
+    const suite = await FileUtils.moveSuite(id, parentId || undefined, position, {
+      author: session?.user?.name || undefined
+    })
+
+    if (!suite) {
+      return NextResponse.json(
+        { error: 'Test suite not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Test suite moved successfully',
+      suite
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error moving test suite:', error)
+    return NextResponse.json(
+      { error: 'Failed to move test suite' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileSystemError, FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const suite = await FileUtils.loadSuite(id)
+
+    if (!suite) {
+      return NextResponse.json(
+        { error: 'Test suite not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(suite)
+  } catch (error) {
+    console.error('Error fetching test suite:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test suite' },
+      { status: 500 }
+    )
+  }
+}
+
+// Renames a suite or changes its description; use move to change its place in the tree
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { name, description } = await request.json()
+
+    const existing = await FileUtils.loadSuite(id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Test suite not found' },
+        { status: 404 }
+      )
+    }
+
+    const suite = await FileUtils.saveSuite(
+      { ...existing, name: name ?? existing.name, description: description ?? existing.description },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Test suite updated successfully',
+      suite
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating test suite:', error)
+    return NextResponse.json(
+      { error: 'Failed to update test suite' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await FileUtils.deleteSuite(id, { author: session?.user?.name || undefined })
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Test suite not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Test suite deleted successfully' })
+  } catch (error) {
+    if (error instanceof FileSystemError && error.operation === 'suiteNotEmpty') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error deleting test suite:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete test suite' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+async function moveTestCases(request: NextRequest, suiteId: string, remove: boolean) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { testCaseIds } = await request.json()
+
+    if (!Array.isArray(testCaseIds)) {
+      return NextResponse.json(
+        { error: 'testCaseIds array is required' },
+        { status: 400 }
+      )
+    }
+
+    // Only test cases filed in this suite are taken out of it
+    const filed = remove
+      ? (await FileUtils.getAllTestCases()).filter(testCase => testCase.suiteId === suiteId).map(testCase => testCase.id)
+      : testCaseIds
+    const testCases = await FileUtils.moveTestCasesToSuite(
+      testCaseIds.filter((testCaseId: string) => filed.includes(testCaseId)),
+      remove ? undefined : suiteId,
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: `Moved ${testCases.length} test case${testCases.length === 1 ? '' : 's'}`,
+      testCases
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error moving test cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to move test cases' },
+      { status: 500 }
+    )
+  }
+}
+
+// Files the test cases in the suite, taking them out of their current suite
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return moveTestCases(request, id, false)
+}
+
+// Takes the test cases out of the suite, leaving them unfiled
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return moveTestCases(request, id, true)
+}
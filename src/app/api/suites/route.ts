@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+// Flat list, parents before their children; ?tree=true nests them and lists their test cases
+export async function GET(request: NextRequest) {
+  try {
+    if (request.nextUrl.searchParams.get('tree') === 'true') {
+      return NextResponse.json(await FileUtils.getSuiteTree())
+    }
+    return NextResponse.json(await FileUtils.getSuites())
+  } catch (error) {
+    console.error('Error fetching test suites:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test suites' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { name, description, parentId } = await request.json()
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Missing required field: name' },
+        { status: 400 }
+      )
+    }
+
+    const suite = await FileUtils.saveSuite(
+      { id: randomUUID(), name, description, parentId },
+      { author: session?.user?.name || undefined }
+    )
+
+    return NextResponse.json({
+      message: 'Test suite created successfully',
+      suite
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating test suite:', error)
+    return NextResponse.json(
+      { error: 'Failed to create test suite' },
+      { status: 500 }
+    )
+  }
+}
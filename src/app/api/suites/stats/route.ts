@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { StatsService } from '@/lib/stats-service'
+
+export async function GET() {
+  try {
+    return NextResponse.json(await StatsService.getSuiteStats())
+  } catch (error) {
+    console.error('Error fetching test suite stats:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test suite stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { isKnownResultStatus } from '@/lib/test-runs'
+
+// The test cases assigned to a tester in the open runs
+export async function GET(request: NextRequest) {
+  try {
+    const assignee = new URL(request.url).searchParams.get('assignee')
+
+    if (!assignee?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: assignee' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(await FileUtils.getAssignedTests(assignee))
+  } catch (error) {
+    console.error('Error fetching assigned tests:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assigned tests' },
+      { status: 500 }
+    )
+  }
+}
+
+// Record the result of an assigned test case in its run, leaving the other results as they are
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { testRunId, result } = await request.json()
+
+    if (!testRunId || !result?.testCaseId || !isKnownResultStatus(result.status) || !result.executedBy) {
+      return NextResponse.json(
+        { error: 'Missing required fields: testRunId, result.testCaseId, result.status and result.executedBy' },
+        { status: 400 }
+      )
+    }
+
+    const recorded = await FileUtils.recordTestResult(testRunId, {
+      testCaseId: result.testCaseId,
+      configuration: result.configuration,
+      status: result.status,
+      steps: Array.isArray(result.steps) ? result.steps : [],
+      iterations: Array.isArray(result.iterations) ? result.iterations : undefined,
+      actualResult: result.actualResult,
+      notes: result.notes,
+      executionTime: result.executionTime,
+      executedBy: result.executedBy
+    }, { author: session?.user?.name || undefined })
+
+    if (!recorded) {
+      return NextResponse.json(
+        { error: 'Test run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      executionId: recorded.testRun.id,
+      result: recorded.result
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error recording assigned test result:', error)
+    return NextResponse.json(
+      { error: 'Failed to record test result' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,67 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import fs from 'fs/promises'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { SINGLE_EXECUTION_PLAN_ID } from '@/lib/test-runs'
+import { TestRun } from '@/lib/types'
 
-interface StepResult {
-  stepId: string
-  status: 'pass' | 'fail' | 'blocked' | 'skipped' | 'pending'
-  notes: string
-  actualResult: string
-  timestamp: string
-}
-
-interface TestExecution {
-  id?: string
-  testCaseId: string
-  executedBy: string
-  startedAt: string
-  completedAt?: string
-  status: 'in_progress' | 'completed' | 'aborted'
-  overallResult: 'pass' | 'fail' | 'blocked' | 'skipped' | 'pending'
-  stepResults: StepResult[]
-  notes: string
-}
-
-const executionsDir = path.join(process.cwd(), 'test-executions')
-
+// Single test case executions from the test runner are stored as regular
+// test runs with testPlanId 'single-execution'. Legacy TestExecution
+// payloads are still accepted and converted on save.
 export async function POST(request: NextRequest) {
   try {
-    const execution: TestExecution = await request.json()
-    
-    // Ensure executions directory exists
-    await fs.mkdir(executionsDir, { recursive: true })
-    
+    const session = await getServerSession(authOptions)
+    const execution = await request.json()
+
     // Generate execution ID if not provided
     if (!execution.id) {
       execution.id = uuidv4()
     }
-    
-    // Create filename with timestamp
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-    const filename = `execution-${execution.id}-${timestamp}.json`
-    const filePath = path.join(executionsDir, filename)
-    
-    // Add metadata
-    const executionWithMetadata = {
-      ...execution,
-      savedAt: new Date().toISOString(),
-      source: 'test-runner'
-    }
-    
-    // Save execution to file
-    await fs.writeFile(filePath, JSON.stringify(executionWithMetadata, null, 2), 'utf-8')
-    
+
+    const testRun = await FileUtils.saveTestRun(
+      execution.testPlanId ? execution : { ...execution, testPlanId: SINGLE_EXECUTION_PLAN_ID },
+      { author: session?.user?.name || undefined }
+    )
+
     // Log the execution for audit trail
-    await logExecution(execution)
-    
+    await logExecution(testRun)
+
     return NextResponse.json({
       success: true,
-      executionId: execution.id,
+      executionId: testRun.id,
+      testRun,
       message: 'Test execution saved successfully'
     })
-    
+
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Test execution save error:', error)
     return NextResponse.json(
       { error: 'Failed to save test execution' },
@@ -77,62 +58,38 @@ export async function GET(request: NextRequest) {
     const testCaseId = url.searchParams.get('testCaseId')
     const status = url.searchParams.get('status')
     const limit = parseInt(url.searchParams.get('limit') || '50')
-    
-    // Ensure executions directory exists
-    await fs.mkdir(executionsDir, { recursive: true })
-    
-    // Read all execution files
-    const files = await fs.readdir(executionsDir)
-    const executionFiles = files.filter(file => file.startsWith('execution-') && file.endsWith('.json'))
-    
-    const executions: (TestExecution & { id: string; savedAt: string })[] = []
-    
-    for (const file of executionFiles) {
-      try {
-        const filePath = path.join(executionsDir, file)
-        const content = await fs.readFile(filePath, 'utf-8')
-        const execution = JSON.parse(content)
-        executions.push(execution)
-      } catch (error) {
-        console.warn(`Failed to parse execution file ${file}:`, error)
-      }
-    }
-    
-    // Filter executions based on query parameters
-    let filteredExecutions = executions
-    
+
+    // Most recent first
+    const testRuns = await FileUtils.getAllTestRuns()
+    let filteredRuns = testRuns.filter(run => run.testPlanId === SINGLE_EXECUTION_PLAN_ID)
+
     if (executedBy) {
-      filteredExecutions = filteredExecutions.filter(exec => 
-        exec.executedBy.toLowerCase().includes(executedBy.toLowerCase())
+      filteredRuns = filteredRuns.filter(run =>
+        run.executedBy.toLowerCase().includes(executedBy.toLowerCase())
       )
     }
-    
+
     if (testCaseId) {
-      filteredExecutions = filteredExecutions.filter(exec => 
-        exec.testCaseId === testCaseId
+      filteredRuns = filteredRuns.filter(run =>
+        run.results.some(result => result.testCaseId === testCaseId)
       )
     }
-    
+
     if (status) {
-      filteredExecutions = filteredExecutions.filter(exec => 
-        exec.status === status
+      filteredRuns = filteredRuns.filter(run =>
+        run.status === status
       )
     }
-    
-    // Sort by most recent first
-    filteredExecutions.sort((a, b) => 
-      new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
-    )
-    
+
     // Apply limit
-    const limitedExecutions = filteredExecutions.slice(0, limit)
-    
+    const limitedRuns = filteredRuns.slice(0, limit)
+
     return NextResponse.json({
-      executions: limitedExecutions,
-      total: filteredExecutions.length,
-      showing: limitedExecutions.length
+      testRuns: limitedRuns,
+      total: filteredRuns.length,
+      showing: limitedRuns.length
     })
-    
+
   } catch (error) {
     console.error('Test execution fetch error:', error)
     return NextResponse.json(
@@ -143,27 +100,28 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper function to log execution for audit trail
-async function logExecution(execution: TestExecution) {
+async function logExecution(testRun: TestRun) {
   try {
     const logsDir = path.join(process.cwd(), 'logs')
     await fs.mkdir(logsDir, { recursive: true })
-    
+
     const logFile = path.join(logsDir, 'test-executions.log')
+    const result = testRun.results[0]
     const logEntry = {
       timestamp: new Date().toISOString(),
-      executionId: execution.id,
-      testCaseId: execution.testCaseId,
-      executedBy: execution.executedBy,
-      status: execution.status,
-      overallResult: execution.overallResult,
-      stepCount: execution.stepResults.length,
-      completedSteps: execution.stepResults.filter(step => step.status !== 'pending').length
+      executionId: testRun.id,
+      testCaseId: result?.testCaseId,
+      executedBy: testRun.executedBy,
+      status: testRun.status,
+      overallResult: result?.status,
+      stepCount: result?.steps.length || 0,
+      completedSteps: result?.steps.filter(step => step.status !== 'not_executed').length || 0
     }
-    
+
     const logLine = JSON.stringify(logEntry) + '\n'
     await fs.appendFile(logFile, logLine, 'utf-8')
   } catch (error) {
     console.error('Failed to log execution:', error)
     // Don't throw - logging failure shouldn't break the main functionality
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// Progress per assignee in one run, or across the open runs with assignments
+export async function GET(request: NextRequest) {
+  try {
+    const testRunId = new URL(request.url).searchParams.get('testRunId') || undefined
+    const workload = await FileUtils.getAssigneeWorkload(testRunId)
+
+    if (!workload) {
+      return NextResponse.json(
+        { error: 'Test run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(workload)
+  } catch (error) {
+    console.error('Error fetching workload:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workload' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+// Replaces the automated tests linked to the test case, as '<classname>::<name>' IDs
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { testIds } = await request.json()
+
+    if (!Array.isArray(testIds) || testIds.some(testId => typeof testId !== 'string')) {
+      return NextResponse.json(
+        { error: 'testIds must be a list of automated test IDs' },
+        { status: 400 }
+      )
+    }
+
+    const testCase = await FileUtils.setAutomatedTests(id, testIds, session?.user?.name || 'Unknown User')
+    if (!testCase) {
+      return NextResponse.json(
+        { error: 'Test case not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Automated tests linked successfully',
+      testCase
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error linking automated tests:', error)
+    return NextResponse.json(
+      { error: 'Failed to link automated tests' },
+      { status: 500 }
+    )
+  }
+}
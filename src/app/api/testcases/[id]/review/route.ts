@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, ReviewError, SchemaValidationError } from '@/lib/file-utils'
+import { REVIEW_ACTIONS, ReviewErrorReason } from '@/lib/test-case-review'
+
+const REVIEW_ERROR_STATUS: Record<ReviewErrorReason, number> = {
+  invalidTransition: 409,
+  notReviewer: 403,
+  commentRequired: 400
+}
+
+// Takes a review action: submit, assign, approve, reject, deprecate, reopen or comment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const { action, comment, reviewers } = await request.json()
+
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${REVIEW_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (reviewers !== undefined && (!Array.isArray(reviewers) || reviewers.some(reviewer => typeof reviewer !== 'string'))) {
+      return NextResponse.json(
+        { error: 'reviewers must be a list of user names' },
+        { status: 400 }
+      )
+    }
+
+    const testCase = await FileUtils.reviewTestCase(id, {
+      action,
+      author: session?.user?.name || 'Unknown User',
+      comment: typeof comment === 'string' ? comment : undefined,
+      reviewers
+    })
+    if (!testCase) {
+      return NextResponse.json(
+        { error: 'Test case not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Review updated successfully',
+      testCase
+    })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: REVIEW_ERROR_STATUS[error.reason] }
+      )
+    }
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error reviewing test case:', error)
+    return NextResponse.json(
+      { error: 'Failed to update review' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileSystemError, FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  try {
+    const { id, revision } = await params
+    const session = await getServerSession(authOptions)
+
+    if (!/^\d+$/.test(revision)) {
+      return NextResponse.json(
+        { error: 'Revision must be a number' },
+        { status: 400 }
+      )
+    }
+
+    const restored = await FileUtils.restoreTestCaseRevision(
+      id,
+      parseInt(revision, 10),
+      session?.user?.name || 'Unknown User'
+    )
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: `Test case restored to revision ${revision}`,
+      testCase: restored.testCase,
+      revision: restored.revision.revision
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof FileSystemError && error.operation === 'restoreTestCaseRevision') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error restoring test case revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore test case revision' },
+      { status: 500 }
+    )
+  }
+}
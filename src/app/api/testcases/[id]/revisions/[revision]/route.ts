@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  try {
+    const { id, revision } = await params
+    const testCaseRevision = await FileUtils.getTestCaseRevision(id, parseInt(revision, 10))
+
+    if (!testCaseRevision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(testCaseRevision)
+  } catch (error) {
+    console.error('Error fetching test case revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test case revision' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+import { diffTestCases } from '@/lib/revision-diff'
+
+// GET /api/testcases/[id]/revisions
+//   Lists the revision history (newest first) without the snapshots.
+// GET /api/testcases/[id]/revisions?from=2&to=5
+//   Field-level and step-level diff between two revisions. `to` defaults to the latest.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const revisions = await FileUtils.getTestCaseRevisions(id)
+
+    if (revisions.length === 0) {
+      return NextResponse.json(
+        { error: 'No revisions found for this test case' },
+        { status: 404 }
+      )
+    }
+
+    const fromParam = searchParams.get('from')
+    if (!fromParam) {
+      return NextResponse.json({
+        testCaseId: id,
+        latest: revisions[revisions.length - 1].revision,
+        revisions: revisions
+          .map(({ revision, author, createdAt, summary }) => ({ revision, author, createdAt, summary }))
+          .reverse()
+      })
+    }
+
+    const toParam = searchParams.get('to')
+    const fromRevision = parseInt(fromParam, 10)
+    const toRevision = toParam ? parseInt(toParam, 10) : revisions[revisions.length - 1].revision
+
+    const from = revisions.find(r => r.revision === fromRevision)
+    const to = revisions.find(r => r.revision === toRevision)
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: `Revision ${!from ? fromParam : toRevision} not found` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      testCaseId: id,
+      from: { revision: from.revision, author: from.author, createdAt: from.createdAt, summary: from.summary },
+      to: { revision: to.revision, author: to.author, createdAt: to.createdAt, summary: to.summary },
+      diff: diffTestCases(from.snapshot, to.snapshot)
+    })
+  } catch (error) {
+    console.error('Error fetching test case revisions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test case revisions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { withEditedReview } from '@/lib/test-case-review'
 
 export async function GET(
   request: NextRequest,
@@ -7,7 +10,9 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const testCase = await FileUtils.loadTestCase(id)
+    // ?expand=sharedSteps returns the steps as executed, with shared steps inlined
+    const expand = new URL(request.url).searchParams.get('expand') === 'sharedSteps'
+    const testCase = expand ? await FileUtils.loadExpandedTestCase(id) : await FileUtils.loadTestCase(id)
     
     if (!testCase) {
       return NextResponse.json(
@@ -31,7 +36,8 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const updatedTestCase = await request.json()
+    const session = await getServerSession(authOptions)
+    const { changeSummary, ...updatedTestCase } = await request.json()
     
     // Ensure the ID matches the URL parameter
     if (updatedTestCase.id !== params.id) {
@@ -52,14 +58,28 @@ export async function PUT(
     
     // Update the updatedAt timestamp
     updatedTestCase.updatedAt = new Date().toISOString()
+
+    // The review state only changes through /api/testcases/[id]/review,
+    // or back to draft when approved content is edited
+    const reviewedTestCase = withEditedReview(updatedTestCase, existingTestCase)
     
-    await FileUtils.saveTestCase(updatedTestCase)
+    const revision = await FileUtils.saveTestCase(reviewedTestCase, {
+      author: session?.user?.name || 'Unknown User',
+      summary: changeSummary
+    })
     
     return NextResponse.json({
       message: 'Test case updated successfully',
-      testCase: updatedTestCase
+      testCase: reviewedTestCase,
+      revision: revision.revision
     })
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error updating test case:', error)
     return NextResponse.json(
       { error: 'Failed to update test case' },
@@ -73,9 +93,10 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const deleted = await FileUtils.deleteTestCase(params.id)
+    const session = await getServerSession(authOptions)
+    const trashEntry = await FileUtils.trashTestCase(params.id, session?.user?.name || 'Unknown User')
     
-    if (!deleted) {
+    if (!trashEntry) {
       return NextResponse.json(
         { error: 'Test case not found' },
         { status: 404 }
@@ -83,7 +104,8 @@ export async function DELETE(
     }
     
     return NextResponse.json({
-      message: 'Test case deleted successfully'
+      message: 'Test case moved to trash',
+      trashEntry
     })
   } catch (error) {
     console.error('Error deleting test case:', error)
@@ -92,4 +114,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// Plans and historic runs that reference the test case, shown before deleting it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const testCase = await FileUtils.loadTestCase(id)
+
+    if (!testCase) {
+      return NextResponse.json(
+        { error: 'Test case not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await FileUtils.getTestCaseUsage(id))
+  } catch (error) {
+    console.error('Error fetching test case usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test case usage' },
+      { status: 500 }
+    )
+  }
+}
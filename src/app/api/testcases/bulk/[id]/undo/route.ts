@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { BulkEditError, FileUtils } from '@/lib/file-utils'
+
+// Reverts every change of a bulk edit, unless one of its test cases has changed since
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+
+    const bulkEdit = await FileUtils.undoBulkEdit(id, session?.user?.name || 'Unknown User')
+    if (!bulkEdit) {
+      return NextResponse.json(
+        { error: 'Bulk edit not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Bulk edit undone successfully',
+      bulkEdit
+    })
+  } catch (error) {
+    if (error instanceof BulkEditError) {
+      return NextResponse.json(
+        { error: error.message, testCaseIds: error.testCaseIds },
+        { status: 409 }
+      )
+    }
+    console.error('Error undoing bulk edit:', error)
+    return NextResponse.json(
+      { error: 'Failed to undo bulk edit' },
+      { status: 500 }
+    )
+  }
+}
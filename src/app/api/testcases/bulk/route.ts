@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+
+export async function GET() {
+  try {
+    const bulkEdits = await FileUtils.getBulkEdits()
+    return NextResponse.json(bulkEdits)
+  } catch (error) {
+    console.error('Error loading bulk edits:', error)
+    return NextResponse.json(
+      { error: 'Failed to load bulk edits' },
+      { status: 500 }
+    )
+  }
+}
+
+// Applies operations to all of testCaseIds or to none; dryRun previews the result per test case
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { testCaseIds, operations, dryRun } = await request.json()
+
+    const report = await FileUtils.bulkEditTestCases({
+      testCaseIds,
+      operations,
+      dryRun,
+      author: session?.user?.name || 'Unknown User'
+    })
+
+    if (!report.dryRun && !report.applied) {
+      return NextResponse.json(
+        { error: 'Some test cases could not be edited, nothing was changed', ...report },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({
+      message: report.dryRun ? 'Bulk edit previewed' : 'Bulk edit applied successfully',
+      ...report
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error applying bulk edit:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply bulk edit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+import { DEFAULT_DUPLICATE_THRESHOLD, DuplicateMatch } from '@/lib/duplicates'
+
+// A similarity between 0 and 1, or null when the value is not one
+function parseThreshold(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return DEFAULT_DUPLICATE_THRESHOLD
+  const threshold = Number(value)
+  return Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : null
+}
+
+// Adds the titles of the matched test cases
+async function withTitles(matches: DuplicateMatch[]) {
+  const titles = new Map((await FileUtils.getAllTestCases()).map(testCase => [testCase.id, testCase.title]))
+  return matches.map(match => ({
+    ...match,
+    testCases: match.testCaseIds.map(id => ({ id, title: titles.get(id) || '' }))
+  }))
+}
+
+// Lists pairs of likely duplicates; testCaseId limits the list to pairs with that test case
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const threshold = parseThreshold(searchParams.get('threshold'))
+    const testCaseId = searchParams.get('testCaseId')
+
+    if (threshold === null) {
+      return NextResponse.json(
+        { error: 'threshold must be a number above 0 and up to 1' },
+        { status: 400 }
+      )
+    }
+
+    const duplicates = await FileUtils.findDuplicateTestCases(threshold)
+    return NextResponse.json({
+      threshold,
+      duplicates: await withTitles(testCaseId ? duplicates.filter(match => match.testCaseIds.includes(testCaseId)) : duplicates)
+    })
+  } catch (error) {
+    console.error('Error finding duplicate test cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to find duplicate test cases' },
+      { status: 500 }
+    )
+  }
+}
+
+// Checks a test case that is about to be saved against the existing ones
+export async function POST(request: NextRequest) {
+  try {
+    const { testCase, threshold: thresholdValue } = await request.json()
+    const threshold = parseThreshold(thresholdValue)
+
+    if (!testCase || typeof testCase !== 'object') {
+      return NextResponse.json(
+        { error: 'testCase is required' },
+        { status: 400 }
+      )
+    }
+    if (threshold === null) {
+      return NextResponse.json(
+        { error: 'threshold must be a number above 0 and up to 1' },
+        { status: 400 }
+      )
+    }
+
+    const similar = await FileUtils.findSimilarTestCases({ ...testCase, id: testCase.id || '' }, threshold)
+    return NextResponse.json({ threshold, duplicates: await withTitles(similar) })
+  } catch (error) {
+    console.error('Error checking for duplicate test cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to check for duplicate test cases' },
+      { status: 500 }
+    )
+  }
+}
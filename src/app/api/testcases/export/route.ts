@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils, TestCaseQueryError } from '@/lib/file-utils'
+import { exportFeatureFile, getFeatureTag } from '@/lib/gherkin'
+import { TestCase } from '@/lib/types'
+
+// Exports test cases as a Gherkin feature file: ?ids=a,b, or ?q= in the search syntax, or all of them
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const exportFormat = searchParams.get('format') || 'feature'
+    const ids = searchParams.get('ids')?.split(',').filter(Boolean) || []
+    const query = searchParams.get('q') || ''
+    const featureName = searchParams.get('name') || 'Test Cases'
+
+    if (exportFormat !== 'feature') {
+      return NextResponse.json(
+        { error: 'Unsupported export format. Only feature is supported.' },
+        { status: 400 }
+      )
+    }
+
+    const selected = ids.length > 0
+      ? ids
+      : (query ? await FileUtils.searchTestCases(query) : await FileUtils.getAllTestCases()).map(testCase => testCase.id)
+
+    // Shared steps are written out as the steps they run
+    const testCases: TestCase[] = []
+    for (const id of selected) {
+      const testCase = await FileUtils.loadExpandedTestCase(id)
+      if (testCase) testCases.push(testCase)
+    }
+
+    return new NextResponse(exportFeatureFile(testCases, featureName), {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getFeatureTag(featureName) || 'test-cases'}.feature"`
+      }
+    })
+  } catch (error) {
+    if (error instanceof TestCaseQueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error exporting test cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to export test cases' },
+      { status: 500 }
+    )
+  }
+}
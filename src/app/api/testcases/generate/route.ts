@@ -1,11 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { OpenAIService } from '@/lib/openai'
 import { GitHubService } from '@/lib/github'
+import { FileUtils } from '@/lib/file-utils'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '../../auth/[...nextauth]/route'
-import fs from 'fs/promises'
-import path from 'path'
-import matter from 'gray-matter'
 
 export async function POST(request: NextRequest) {
   try {
@@ -37,44 +35,10 @@ export async function POST(request: NextRequest) {
         const issue = await github.getIssue(owner, repository, issueNumber)
         const testCase = await openai.generateTestCase(issue, `${owner}/${repository}`, username)
         
-        // Save test case as markdown file
-        const filename = `${testCase.id}.md`
-        const testCasePath = path.join(process.cwd(), 'testcases', filename)
-        
-        const frontmatter = {
-          id: testCase.id,
-          title: testCase.title,
-          description: testCase.description,
-          preconditions: testCase.preconditions,
-          expectedResult: testCase.expectedResult,
-          priority: testCase.priority,
-          tags: testCase.tags,
-          githubIssue: testCase.githubIssue,
-          createdAt: testCase.createdAt,
-          updatedAt: testCase.updatedAt,
-          createdBy: testCase.createdBy
-        }
-
-        // Create markdown content with test steps
-        let markdownContent = `# ${testCase.title}\n\n`
-        markdownContent += `${testCase.description}\n\n`
-        
-        if (testCase.preconditions) {
-          markdownContent += `## Preconditions\n\n${testCase.preconditions}\n\n`
-        }
-        
-        markdownContent += `## Test Steps\n\n`
-        testCase.steps.forEach((step, index) => {
-          markdownContent += `### Step ${index + 1}\n\n`
-          markdownContent += `**Action:** ${step.action}\n\n`
-          markdownContent += `**Expected Result:** ${step.expectedResult}\n\n`
+        await FileUtils.saveTestCase(testCase, {
+          author: username,
+          summary: `Generated from issue #${issueNumber}`
         })
-        
-        markdownContent += `## Expected Final Result\n\n${testCase.expectedResult}\n`
-        
-        const fileContent = matter.stringify(markdownContent, frontmatter)
-        
-        await fs.writeFile(testCasePath, fileContent, 'utf-8')
         generatedTestCases.push(testCase)
         
         // Small delay to avoid rate limiting
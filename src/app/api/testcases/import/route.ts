@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import { FileUtils } from '@/lib/file-utils'
 import { TestCase } from '@/lib/types'
+import { importFeatureFile } from '@/lib/gherkin'
 import { v4 as uuidv4 } from 'uuid'
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
     const formData = await request.formData()
     const file = formData.get('file') as File
     
@@ -93,7 +97,7 @@ export async function POST(request: NextRequest) {
               createdBy: 'import-system'
             }
 
-            await FileUtils.saveTestCase(testCase)
+            await FileUtils.saveTestCase(testCase, { author: session?.user?.name || undefined })
             testCases.push(testCase)
             importedCount++
 
@@ -136,7 +140,7 @@ export async function POST(request: NextRequest) {
               createdBy: 'import-system'
             }
 
-            await FileUtils.saveTestCase(testCase)
+            await FileUtils.saveTestCase(testCase, { author: session?.user?.name || undefined })
             testCases.push(testCase)
             importedCount++
 
@@ -146,9 +150,26 @@ export async function POST(request: NextRequest) {
           }
         }
 
+      } else if (file.name.endsWith('.feature')) {
+        // Parse Gherkin, one test case per scenario or Scenario Outline example
+        const feature = importFeatureFile(text, { createdBy: 'import-system' })
+        errors.push(...feature.errors)
+        failedCount += feature.errors.length
+
+        for (const testCase of feature.testCases) {
+          try {
+            await FileUtils.saveTestCase(testCase, { author: session?.user?.name || undefined })
+            testCases.push(testCase)
+            importedCount++
+          } catch (error) {
+            errors.push(`Scenario "${testCase.title}": ${error instanceof Error ? error.message : 'Save error'}`)
+            failedCount++
+          }
+        }
+
       } else {
         return NextResponse.json(
-          { error: 'Unsupported file format. Only CSV and JSON are supported.' },
+          { error: 'Unsupported file format. Only CSV, JSON and Gherkin .feature files are supported.' },
           { status: 400 }
         )
       }
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { MERGE_FIELDS } from '@/lib/duplicates'
+
+// Merges sourceId into targetId; choices picks the source's value per field
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { targetId, sourceId, choices } = await request.json()
+
+    if (typeof targetId !== 'string' || typeof sourceId !== 'string') {
+      return NextResponse.json(
+        { error: 'targetId and sourceId are required' },
+        { status: 400 }
+      )
+    }
+    const invalidChoice = Object.entries(choices || {}).find(([field, value]) =>
+      !(MERGE_FIELDS as string[]).includes(field) || (value !== 'target' && value !== 'source')
+    )
+    if (invalidChoice) {
+      return NextResponse.json(
+        { error: `choices must map ${MERGE_FIELDS.join(', ')} to target or source` },
+        { status: 400 }
+      )
+    }
+
+    const result = await FileUtils.mergeTestCases(targetId, sourceId, {
+      choices,
+      author: session?.user?.name || 'Unknown User'
+    })
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Test case not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Test cases merged successfully',
+      ...result
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error merging test cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to merge test cases' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,22 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError, TestCaseQueryError } from '@/lib/file-utils'
+import { matchesCustomFieldFilters, parseCustomFieldFilters } from '@/lib/custom-fields'
+import { getReviewStatus, withEditedReview } from '@/lib/test-case-review'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
+    // q takes the search syntax, e.g. priority:critical -tag:flaky "login button"
     const query = searchParams.get('q') || ''
     const tags = searchParams.get('tags')?.split(',').filter(Boolean) || []
+    const fieldFilters = parseCustomFieldFilters(searchParams)
+    // ?reviewStatus=draft,in_review lists test cases in any of the review statuses
+    const reviewStatuses = searchParams.get('reviewStatus')?.split(',').filter(Boolean) || []
         
         let testCases
         
         if (query || tags.length > 0) {
-          testCases = await FileUtils.searchTestCases(query, tags)
+          // ?tags=a,b matches test cases with any of the tags
+          testCases = await FileUtils.searchTestCases(tags.length > 0 ? `${query} tag:"${tags.join(',')}"` : query)
         } else {
           testCases = await FileUtils.getAllTestCases()
         }
         
-        return NextResponse.json(testCases)
+        return NextResponse.json(testCases.filter(testCase =>
+          matchesCustomFieldFilters(testCase.customFields, fieldFilters) &&
+          (reviewStatuses.length === 0 || reviewStatuses.includes(getReviewStatus(testCase)))
+        ))
       } catch (error) {
+        if (error instanceof TestCaseQueryError) {
+          return NextResponse.json(
+            { error: error.message },
+            { status: 400 }
+          )
+        }
         console.error('Error fetching test cases:', error)
         return NextResponse.json(
           { error: 'Failed to fetch test cases' },
@@ -27,16 +45,36 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const testCase = await request.json()
+    const session = await getServerSession(authOptions)
+    let testCase = await request.json()
     console.log('[Save Debug] Validated test case:', JSON.stringify(testCase, null, 2))
+
+        // Saving over an existing test case keeps its review state, new ones
+        // start as drafts whatever the client sent
+        const existingTestCase = testCase.id ? await FileUtils.loadTestCase(testCase.id) : null
+        if (existingTestCase) {
+          testCase = withEditedReview(testCase, existingTestCase)
+        } else {
+          testCase = { ...testCase, reviewStatus: 'draft' }
+          delete testCase.reviewers
+          delete testCase.reviewComments
+        }
         
-        await FileUtils.saveTestCase(testCase)
+        await FileUtils.saveTestCase(testCase, {
+          author: session?.user?.name || testCase.createdBy
+        })
         
         return NextResponse.json({ 
           message: 'Test case saved successfully',
           testCase 
         })
       } catch (error) {
+        if (error instanceof SchemaValidationError) {
+          return NextResponse.json(
+            { error: error.message, issues: error.issues },
+            { status: 400 }
+          )
+        }
         console.error('Error saving test case:', error)
         return NextResponse.json(
           { error: 'Failed to save test case', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// The latest status of each test case of the plan in each configuration, with the gaps
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const matrix = await FileUtils.getConfigurationMatrix(id)
+
+    if (!matrix) {
+      return NextResponse.json(
+        { error: 'Test plan not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(matrix)
+  } catch (error) {
+    console.error('Error fetching configuration matrix:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch configuration matrix' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
 
 export async function GET(
   request: NextRequest,
@@ -16,6 +18,18 @@ export async function GET(
       )
     }
     
+    // ?expand=suites lists the test cases the plan runs, including those of its
+    // suites and query, with the snapshot to keep on a run started from it;
+    // approvedOnly=true|false overrides the plan's approved-only setting
+    const { searchParams } = request.nextUrl
+    if (searchParams.get('expand') === 'suites') {
+      const approvedOnly = searchParams.get('approvedOnly')
+      const snapshot = approvedOnly === null
+        ? await FileUtils.snapshotTestPlan(testPlan)
+        : await FileUtils.snapshotTestPlan(testPlan, approvedOnly === 'true')
+      return NextResponse.json({ ...testPlan, testCases: snapshot.testCaseIds, snapshot })
+    }
+
     return NextResponse.json(testPlan)
   } catch (error) {
     console.error('Error fetching test plan:', error)
@@ -53,13 +67,20 @@ export async function PUT(
     // Update the updatedAt timestamp
     updatedTestPlan.updatedAt = new Date().toISOString()
     
-    await FileUtils.saveTestPlan(updatedTestPlan)
+    const session = await getServerSession(authOptions)
+    await FileUtils.saveTestPlan(updatedTestPlan, { author: session?.user?.name || undefined })
     
     return NextResponse.json({
       message: 'Test plan updated successfully',
       testPlan: updatedTestPlan
     })
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error updating test plan:', error)
     return NextResponse.json(
       { error: 'Failed to update test plan' },
@@ -73,9 +94,10 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const deleted = await FileUtils.deleteTestPlan(params.id)
+    const session = await getServerSession(authOptions)
+    const trashEntry = await FileUtils.trashTestPlan(params.id, session?.user?.name || 'Unknown User')
     
-    if (!deleted) {
+    if (!trashEntry) {
       return NextResponse.json(
         { error: 'Test plan not found' },
         { status: 404 }
@@ -83,7 +105,8 @@ export async function DELETE(
     }
     
     return NextResponse.json({
-      message: 'Test plan deleted successfully'
+      message: 'Test plan moved to trash',
+      trashEntry
     })
   } catch (error) {
     console.error('Error deleting test plan:', error)
@@ -92,4 +115,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
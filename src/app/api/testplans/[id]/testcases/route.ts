@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import fs from 'fs/promises';
-import path from 'path';
-
-const TESTPLANS_DIR = path.join(process.cwd(), 'testplans');
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils';
 
 export async function POST(
   request: NextRequest,
@@ -30,32 +27,34 @@ export async function POST(
       );
     }
 
-    // Read the test plan
-    const testPlanPath = path.join(TESTPLANS_DIR, `${params.id}.json`);
-    
-    try {
-      const data = await fs.readFile(testPlanPath, 'utf-8');
-      const testPlan = JSON.parse(data);
-      
-      // Add test cases to the plan
-      testPlan.testCaseIds = [...new Set([...testPlan.testCaseIds, ...testCaseIds])];
-      testPlan.updatedAt = new Date().toISOString();
-      
-      // Save the updated test plan
-      await fs.writeFile(testPlanPath, JSON.stringify(testPlan, null, 2));
-      
-      return NextResponse.json(testPlan);
-    } catch (error) {
+    const testPlan = await FileUtils.loadTestPlan(params.id);
+    if (!testPlan) {
       return NextResponse.json(
         { error: 'Test plan not found' },
         { status: 404 }
       );
     }
+
+    // Add test cases to the plan
+    const updatedTestPlan = {
+      ...testPlan,
+      testCases: [...new Set([...testPlan.testCases, ...testCaseIds])],
+      updatedAt: new Date().toISOString()
+    };
+    await FileUtils.saveTestPlan(updatedTestPlan, { author: session?.user?.name || undefined });
+    
+    return NextResponse.json(updatedTestPlan);
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
     console.error('Error adding test cases to plan:', error);
     return NextResponse.json(
       { error: 'Failed to add test cases' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// Historic runs of the test plan, shown before deleting it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const testPlan = await FileUtils.loadTestPlan(id)
+
+    if (!testPlan) {
+      return NextResponse.json(
+        { error: 'Test plan not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await FileUtils.getTestPlanUsage(id))
+  } catch (error) {
+    console.error('Error fetching test plan usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch test plan usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
 import { TestPlan } from '@/lib/types'
 import { v4 as uuidv4 } from 'uuid'
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
     const body = await request.json()
     const { name, description, sourceId, testCases } = body
 
@@ -29,7 +32,9 @@ export async function POST(request: NextRequest) {
       id: uuidv4(),
       name: name.trim(),
       description: description?.trim() || sourceTestPlan.description,
+      version: sourceTestPlan.version || '1.0',
       testCases: testCases || sourceTestPlan.testCases,
+      suites: sourceTestPlan.suites,
       status: 'active',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -41,7 +46,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Save the cloned test plan
-    await FileUtils.saveTestPlan(clonedTestPlan)
+    await FileUtils.saveTestPlan(clonedTestPlan, { author: session?.user?.name || undefined })
 
     // Return the created test plan
     return NextResponse.json({
@@ -52,6 +57,12 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Clone test plan API error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils, TestCaseQueryError } from '@/lib/file-utils'
+
+// The test cases a plan being edited would run now, from its testCases, suites, query and approvedOnly
+export async function POST(request: NextRequest) {
+  try {
+    const { testCases = [], suites, query, approvedOnly } = await request.json()
+
+    if (!Array.isArray(testCases) || (query !== undefined && typeof query !== 'string')) {
+      return NextResponse.json(
+        { error: 'testCases must be a list and query a string' },
+        { status: 400 }
+      )
+    }
+
+    const testCaseIds = await FileUtils.getTestPlanTestCaseIds({ testCases, suites, query: query?.trim(), approvedOnly: Boolean(approvedOnly) })
+    const byId = new Map((await FileUtils.getAllTestCases()).map(testCase => [testCase.id, testCase]))
+
+    return NextResponse.json({
+      testCases: testCaseIds.flatMap(testCaseId => byId.get(testCaseId) || [])
+    })
+  } catch (error) {
+    if (error instanceof TestCaseQueryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('Error previewing test plan:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview test plan' },
+      { status: 500 }
+    )
+  }
+}
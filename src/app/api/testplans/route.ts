@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { matchesCustomFieldFilters, parseCustomFieldFilters } from '@/lib/custom-fields'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const query = searchParams.get('q') || ''
+    const fieldFilters = parseCustomFieldFilters(searchParams)
     
     let testPlans
     
@@ -18,7 +22,7 @@ export async function GET(request: NextRequest) {
       testPlans = await FileUtils.getAllTestPlans()
     }
     
-    return NextResponse.json(testPlans)
+    return NextResponse.json(testPlans.filter(plan => matchesCustomFieldFilters(plan.customFields, fieldFilters)))
   } catch (error) {
     console.error('Error fetching test plans:', error)
     return NextResponse.json(
@@ -30,6 +34,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
     const testPlan = await request.json()
     
     // Basic validation
@@ -40,13 +45,19 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    await FileUtils.saveTestPlan(testPlan)
+    await FileUtils.saveTestPlan(testPlan, { author: session?.user?.name || undefined })
     
     return NextResponse.json({ 
       message: 'Test plan saved successfully',
       testPlan 
     })
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error saving test plan:', error)
     return NextResponse.json(
       { error: 'Failed to save test plan' },
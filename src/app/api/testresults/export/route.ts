@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { FileUtils, ExecutedTestResult } from '@/lib/file-utils'
+import { getAttachmentUrl } from '@/lib/attachments'
+import { ConfigurationStats, getConfigurationStats } from '@/lib/configurations'
+import { formatCustomFieldValue, getFieldsFor } from '@/lib/custom-fields'
+import { Attachment, CustomFieldDefinition, CustomFieldValues, TestResult, TestRun } from '@/lib/types'
 import { format } from 'date-fns'
 
 export async function GET(request: NextRequest) {
@@ -12,17 +16,23 @@ export async function GET(request: NextRequest) {
     const includeDetails = searchParams.get('includeDetails') === 'true'
     const includeSteps = searchParams.get('includeSteps') === 'true'
     const includeNotes = searchParams.get('includeNotes') === 'true'
+    const includeAttachments = searchParams.get('includeAttachments') === 'true'
     const statusFilter = searchParams.get('status')?.split(',').filter(Boolean) || []
     const priorityFilter = searchParams.get('priority')?.split(',').filter(Boolean) || []
 
     // Load test results and test cases
-    const [testResults, testCases] = await Promise.all([
+    const [testResults, testCases, attachments] = await Promise.all([
       FileUtils.loadAllTestResults(),
-      FileUtils.loadAllTestCases()
+      FileUtils.loadAllTestCases(),
+      includeAttachments ? FileUtils.getAttachments() : Promise.resolve([])
     ])
 
+    const customFields = await FileUtils.getCustomFields()
+    const testRuns = await FileUtils.getAllTestRuns()
+
     // Create a map for quick test case lookup
     const testCaseMap = new Map(testCases.map(tc => [tc.id, tc]))
+    const testRunMap = new Map(testRuns.map(run => [run.id, run]))
 
     // Filter results based on criteria
     let filteredResults = testResults
@@ -47,7 +57,7 @@ export async function GET(request: NextRequest) {
       }
 
       filteredResults = filteredResults.filter(result => 
-        new Date(result.executionDate) >= cutoffDate
+        new Date(result.executedAt) >= cutoffDate
       )
     }
 
@@ -66,19 +76,24 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    const options = {
+      includeDetails,
+      includeSteps,
+      includeNotes,
+      includeAttachments,
+      attachments,
+      testRunMap,
+      testCaseFields: getFieldsFor(customFields, 'testCase'),
+      testRunFields: getFieldsFor(customFields, 'testRun')
+    }
+
+    const configurationStats = getConfigurationStats(groupByRun(filteredResults))
+
     // Generate export content based on format
     if (exportFormat === 'csv') {
-      return generateCSVExport(filteredResults, testCaseMap, {
-        includeDetails,
-        includeSteps,
-        includeNotes
-      })
+      return generateCSVExport(filteredResults, testCaseMap, options, configurationStats)
     } else if (exportFormat === 'json') {
-      return generateJSONExport(filteredResults, testCaseMap, {
-        includeDetails,
-        includeSteps,
-        includeNotes
-      })
+      return generateJSONExport(filteredResults, testCaseMap, options, configurationStats)
     } else if (exportFormat === 'pdf') {
       // For now, return JSON with PDF placeholder
       return NextResponse.json(
@@ -101,15 +116,60 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function generateCSVExport(results: any[], testCaseMap: Map<string, any>, options: any) {
-  const headers = [
+function getCustomFieldValues(fields: CustomFieldDefinition[], values: CustomFieldValues | undefined): CustomFieldValues {
+  if (!values) return {}
+  return Object.fromEntries(fields
+    .filter(field => values[field.id] !== undefined)
+    .map(field => [field.id, values[field.id]]))
+}
+
+// The exported results back in their runs, for the pass rate per configuration
+function groupByRun(results: ExecutedTestResult[]): Pick<TestRun, 'id' | 'results'>[] {
+  const runs = new Map<string, TestResult[]>()
+  results.forEach(result => runs.set(result.testRunId, [...(runs.get(result.testRunId) || []), result]))
+  return [...runs].map(([id, runResults]) => ({ id, results: runResults }))
+}
+
+function csvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+// Evidence for a result: files attached to its step results and to the whole run
+function getResultAttachments(result: ExecutedTestResult, attachments: Attachment[]) {
+  return attachments
+    .filter(attachment =>
+      (attachment.target.type === 'testRun' && attachment.target.testRunId === result.testRunId) ||
+      (attachment.target.type === 'stepResult' &&
+        attachment.target.testRunId === result.testRunId &&
+        attachment.target.testCaseId === result.testCaseId)
+    )
+    .map(attachment => ({
+      id: attachment.id,
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      sha256: attachment.sha256,
+      stepId: attachment.target.stepId,
+      url: getAttachmentUrl(attachment)
+    }))
+}
+
+function generateCSVExport(
+  results: ExecutedTestResult[],
+  testCaseMap: Map<string, any>,
+  options: any,
+  configurationStats: ConfigurationStats[]
+) {
+    const headers = [
+    'Test Run ID',
     'Test Case ID',
     'Test Case Title',
     'Priority',
     'Execution Date',
     'Status',
     'Duration (ms)',
-    'Executed By'
+    'Executed By',
+    'Configuration'
   ]
 
   if (options.includeDetails) {
@@ -124,18 +184,28 @@ function generateCSVExport(results: any[], testCaseMap: Map<string, any>, option
     headers.push('Notes')
   }
 
+  if (options.includeAttachments) {
+    headers.push('Attachments')
+  }
+
+  // One column per custom field, run fields prefixed so they can't clash with test case fields
+  options.testCaseFields.forEach((field: CustomFieldDefinition) => headers.push(csvCell(field.label)))
+  options.testRunFields.forEach((field: CustomFieldDefinition) => headers.push(csvCell(`Run: ${field.label}`)))
+
   const csvRows = [headers.join(',')]
 
   results.forEach(result => {
     const testCase = testCaseMap.get(result.testCaseId)
     const row = [
+      result.testRunId,
       result.testCaseId,
       `"${testCase?.title || 'Unknown'}"`,
       testCase?.priority || 'unknown',
-      new Date(result.executionDate).toISOString(),
+      new Date(result.executedAt).toISOString(),
       result.status,
-      result.duration || 0,
-      result.executedBy || 'unknown'
+      (result.executionTime || 0) * 1000,
+      result.executedBy || 'unknown',
+      csvCell(result.configuration || '')
     ]
 
     if (options.includeDetails && testCase) {
@@ -145,12 +215,12 @@ function generateCSVExport(results: any[], testCaseMap: Map<string, any>, option
       )
     }
 
-    if (options.includeSteps && result.stepResults) {
+    if (options.includeSteps) {
       const stepStats = {
-        passed: result.stepResults.filter((s: any) => s.status === 'pass').length,
-        failed: result.stepResults.filter((s: any) => s.status === 'fail').length,
-        blocked: result.stepResults.filter((s: any) => s.status === 'blocked').length,
-        skipped: result.stepResults.filter((s: any) => s.status === 'skipped').length
+        passed: result.steps.filter(s => s.status === 'pass').length,
+        failed: result.steps.filter(s => s.status === 'fail').length,
+        blocked: result.steps.filter(s => s.status === 'blocked').length,
+        skipped: result.steps.filter(s => s.status === 'skip').length
       }
       row.push(
         stepStats.passed.toString(),
@@ -164,9 +234,39 @@ function generateCSVExport(results: any[], testCaseMap: Map<string, any>, option
       row.push(`"${result.notes || ''}"`)
     }
 
+    if (options.includeAttachments) {
+      const attachments = getResultAttachments(result, options.attachments)
+        .map(attachment => `${attachment.fileName} (${attachment.url})`)
+      row.push(`"${attachments.join('; ').replace(/"/g, '""')}"`)
+    }
+
+    const testRun: TestRun | undefined = options.testRunMap.get(result.testRunId)
+    options.testCaseFields.forEach((field: CustomFieldDefinition) => {
+      row.push(csvCell(formatCustomFieldValue(testCase?.customFields?.[field.id])))
+    })
+    options.testRunFields.forEach((field: CustomFieldDefinition) => {
+      row.push(csvCell(formatCustomFieldValue(testRun?.customFields?.[field.id])))
+    })
+
     csvRows.push(row.join(','))
   })
 
+  // Summary section after the results, separated by an empty line
+  if (configurationStats.length > 0) {
+    csvRows.push('', 'Configuration,Runs,Results,Executed,Passed,Failed,Pass Rate (%)')
+    configurationStats.forEach(stats => {
+      csvRows.push([
+        csvCell(stats.configuration),
+        stats.runs,
+        stats.slots,
+        stats.executed,
+        stats.passed,
+        stats.failed,
+        stats.passRate
+      ].join(','))
+    })
+  }
+
   const csvContent = csvRows.join('\n')
   const timestamp = format(new Date(), 'yyyy-MM-dd-HHmm')
 
@@ -178,22 +278,31 @@ function generateCSVExport(results: any[], testCaseMap: Map<string, any>, option
   })
 }
 
-function generateJSONExport(results: any[], testCaseMap: Map<string, any>, options: any) {
+function generateJSONExport(
+  results: ExecutedTestResult[],
+  testCaseMap: Map<string, any>,
+  options: any,
+  configurationStats: ConfigurationStats[]
+) {
+  const { attachments, testRunMap, testCaseFields, testRunFields, ...exportOptions } = options
   const exportData = {
     exportDate: new Date().toISOString(),
     totalResults: results.length,
-    options,
+    options: exportOptions,
+    configurations: configurationStats,
     results: results.map(result => {
       const testCase = testCaseMap.get(result.testCaseId)
       
       const exportResult: any = {
+        testRunId: result.testRunId,
         testCaseId: result.testCaseId,
         testCaseTitle: testCase?.title || 'Unknown',
         priority: testCase?.priority || 'unknown',
-        executionDate: result.executionDate,
+        executionDate: result.executedAt,
         status: result.status,
-        duration: result.duration,
-        executedBy: result.executedBy
+        duration: result.executionTime,
+        executedBy: result.executedBy,
+        configuration: result.configuration
       }
 
       if (options.includeDetails && testCase) {
@@ -205,14 +314,25 @@ function generateJSONExport(results: any[], testCaseMap: Map<string, any>, optio
         }
       }
 
-      if (options.includeSteps && result.stepResults) {
-        exportResult.stepResults = result.stepResults
+      if (options.includeSteps) {
+        exportResult.stepResults = result.steps
       }
 
       if (options.includeNotes) {
         exportResult.notes = result.notes
       }
 
+      if (options.includeAttachments) {
+        exportResult.attachments = getResultAttachments(result, attachments)
+      }
+
+      if (testCaseFields.length > 0 || testRunFields.length > 0) {
+        exportResult.customFields = {
+          testCase: getCustomFieldValues(testCaseFields, testCase?.customFields),
+          testRun: getCustomFieldValues(testRunFields, testRunMap.get(result.testRunId)?.customFields)
+        }
+      }
+
       return exportResult
     })
   }
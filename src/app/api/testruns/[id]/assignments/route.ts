@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { AssignmentRequest } from '@/lib/run-assignments'
+
+type Body = Record<string, unknown>
+
+const isObject = (value: unknown): value is Body =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+// Reads { assignments }, { roundRobin } or { byTag } from the request body
+function parseAssignmentRequest(body: unknown): AssignmentRequest | null {
+  if (!isObject(body)) return null
+
+  if (isObject(body.assignments)) {
+    const assignments = body.assignments
+    return Object.values(assignments).every(value => value === null || typeof value === 'string')
+      ? { assignments: assignments as Record<string, string | null> }
+      : null
+  }
+  if (isObject(body.roundRobin)) {
+    const { assignees, testCaseIds, onlyUnassigned } = body.roundRobin
+    if (!isStringList(assignees) || (testCaseIds !== undefined && !isStringList(testCaseIds))) return null
+    return { roundRobin: { assignees, testCaseIds, onlyUnassigned: Boolean(onlyUnassigned) } }
+  }
+  if (Array.isArray(body.byTag)) {
+    const rules = body.byTag
+    const valid = rules.every(rule => isObject(rule) && typeof rule.tag === 'string' && typeof rule.assignee === 'string')
+    return valid ? { byTag: rules } : null
+  }
+  return null
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const assignmentRequest = parseAssignmentRequest(await request.json())
+
+    if (!assignmentRequest) {
+      return NextResponse.json(
+        { error: 'Expected assignments, roundRobin or byTag' },
+        { status: 400 }
+      )
+    }
+
+    const testRun = await FileUtils.assignTestRun(id, assignmentRequest, { author: session?.user?.name || undefined })
+
+    if (!testRun) {
+      return NextResponse.json(
+        { error: 'Test run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Assignments updated successfully',
+      testRun
+    })
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error assigning test run:', error)
+    return NextResponse.json(
+      { error: 'Failed to update assignments' },
+      { status: 500 }
+    )
+  }
+}
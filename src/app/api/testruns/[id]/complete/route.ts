@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import fs from 'fs/promises';
-import path from 'path';
-
-const TESTRUNS_DIR = path.join(process.cwd(), 'results');
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils';
+import { getTestExecutionSummary } from '@/lib/test-execution-utils';
 
 export async function POST(
   request: NextRequest,
@@ -21,44 +19,30 @@ export async function POST(
       );
     }
 
-    // Read the test run
-    const testRunPath = path.join(TESTRUNS_DIR, `${params.id}.json`);
-    
-    try {
-      const data = await fs.readFile(testRunPath, 'utf-8');
-      const testRun = JSON.parse(data);
-      
-      // Mark as completed
-      testRun.status = 'completed';
-      testRun.completedAt = new Date().toISOString();
-      testRun.updatedAt = new Date().toISOString();
-      
-      // Calculate summary
-      const summary = {
-        total: testRun.results.length,
-        passed: testRun.results.filter((r: any) => r.status === 'passed').length,
-        failed: testRun.results.filter((r: any) => r.status === 'failed').length,
-        skipped: testRun.results.filter((r: any) => r.status === 'skipped').length,
-        blocked: testRun.results.filter((r: any) => r.status === 'blocked').length
-      };
-      
-      testRun.summary = summary;
-      
-      // Save the updated test run
-      await fs.writeFile(testRunPath, JSON.stringify(testRun, null, 2));
-      
-      return NextResponse.json(testRun);
-    } catch (error) {
+    const testRun = await FileUtils.completeTestRun(params.id, { author: session?.user?.name || undefined });
+
+    if (!testRun) {
       return NextResponse.json(
         { error: 'Test run not found' },
         { status: 404 }
       );
     }
+    
+    return NextResponse.json({
+      ...testRun,
+      summary: getTestExecutionSummary(testRun.results)
+    });
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
     console.error('Error completing test run:', error);
     return NextResponse.json(
       { error: 'Failed to complete test run' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
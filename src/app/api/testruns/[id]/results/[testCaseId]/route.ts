@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import fs from 'fs/promises';
-import path from 'path';
-
-const TESTRUNS_DIR = path.join(process.cwd(), 'results');
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils';
+import { isKnownResultStatus } from '@/lib/test-runs';
 
 export async function PUT(
   request: NextRequest,
@@ -23,57 +21,44 @@ export async function PUT(
 
     const result = await request.json();
     
-    if (!result.status || !['passed', 'failed', 'skipped', 'blocked'].includes(result.status)) {
+    if (!result.status || !isKnownResultStatus(result.status)) {
       return NextResponse.json(
-        { error: 'Invalid status. Must be one of: passed, failed, skipped, blocked' },
+        { error: 'Invalid status. Must be one of: pass, fail, skip, blocked, not_executed' },
         { status: 400 }
       );
     }
 
-    // Read the test run
-    const testRunPath = path.join(TESTRUNS_DIR, `${params.id}.json`);
-    
-    try {
-      const data = await fs.readFile(testRunPath, 'utf-8');
-      const testRun = JSON.parse(data);
-      
-      // Update or add the test result
-      const existingResultIndex = testRun.results.findIndex(
-        (r: any) => r.testCaseId === params.testCaseId
-      );
-      
-      const testResult = {
-        testCaseId: params.testCaseId,
-        status: result.status,
-        actualResult: result.actualResult || '',
-        notes: result.notes || '',
-        executedAt: new Date().toISOString(),
-        executedBy: session?.user?.email || 'Guest'
-      };
-      
-      if (existingResultIndex >= 0) {
-        testRun.results[existingResultIndex] = testResult;
-      } else {
-        testRun.results.push(testResult);
-      }
-      
-      testRun.updatedAt = new Date().toISOString();
-      
-      // Save the updated test run
-      await fs.writeFile(testRunPath, JSON.stringify(testRun, null, 2));
-      
-      return NextResponse.json(testResult);
-    } catch (error) {
+    const recorded = await FileUtils.recordTestResult(params.id, {
+      testCaseId: params.testCaseId,
+      configuration: result.configuration,
+      status: result.status,
+      steps: Array.isArray(result.steps) ? result.steps : [],
+      iterations: Array.isArray(result.iterations) ? result.iterations : undefined,
+      actualResult: result.actualResult,
+      notes: result.notes,
+      executionTime: result.executionTime,
+      executedBy: session?.user?.name || session?.user?.email || 'Guest'
+    }, { author: session?.user?.name || undefined });
+
+    if (!recorded) {
       return NextResponse.json(
         { error: 'Test run not found' },
         { status: 404 }
       );
     }
+    
+    return NextResponse.json(recorded.result);
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error updating test result:', error);
     return NextResponse.json(
       { error: 'Failed to update test result' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
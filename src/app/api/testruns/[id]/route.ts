@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
 
 export async function GET(
   request: NextRequest,
@@ -7,9 +9,7 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    // For test runs, we need to search through all test run files
-    const allTestRuns = await FileUtils.getAllTestRuns()
-    const testRun = allTestRuns.find(run => run.id === id)
+    const testRun = await FileUtils.loadTestRun(id)
     
     if (!testRun) {
       return NextResponse.json(
@@ -33,6 +33,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
     const updatedTestRun = await request.json()
     
     // Ensure the ID matches the URL parameter
@@ -44,8 +45,7 @@ export async function PUT(
     }
     
     // Check if test run exists
-    const allTestRuns = await FileUtils.getAllTestRuns()
-    const existingRun = allTestRuns.find(run => run.id === params.id)
+    const existingRun = await FileUtils.loadTestRun(params.id)
     if (!existingRun) {
       return NextResponse.json(
         { error: 'Test run not found' },
@@ -54,13 +54,22 @@ export async function PUT(
     }
     
     // Update the test run
-    await FileUtils.saveTestRun(updatedTestRun)
+    const savedTestRun = await FileUtils.saveTestRun(
+      await FileUtils.withPlanSnapshot(updatedTestRun),
+      { author: session?.user?.name || undefined }
+    )
     
     return NextResponse.json({
       message: 'Test run updated successfully',
-      testRun: updatedTestRun
+      testRun: savedTestRun
     })
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error updating test run:', error)
     return NextResponse.json(
       { error: 'Failed to update test run' },
@@ -74,14 +83,20 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    // For test runs, we need to find and delete the specific file
-    // This is more complex since FileUtils doesn't have a deleteTestRun method yet
-    // We'll implement this if needed
+    const session = await getServerSession(authOptions)
+    const trashEntry = await FileUtils.trashTestRun(params.id, session?.user?.name || 'Unknown User')
     
-    return NextResponse.json(
-      { error: 'Delete operation not yet implemented' },
-      { status: 501 }
-    )
+    if (!trashEntry) {
+      return NextResponse.json(
+        { error: 'Test run not found' },
+        { status: 404 }
+      )
+    }
+    
+    return NextResponse.json({
+      message: 'Test run moved to trash',
+      trashEntry
+    })
   } catch (error) {
     console.error('Error deleting test run:', error)
     return NextResponse.json(
@@ -89,4 +104,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
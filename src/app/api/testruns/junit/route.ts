@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, JUnitReportError, SchemaValidationError } from '@/lib/file-utils'
+
+/**
+ * Imports a JUnit XML report as a test run. The report is the request body,
+ * or the `file` field of a form upload. ?name= names the run, ?testPlanId=
+ * files it under a plan and ?executedBy= credits it when CI posts without a
+ * session.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const { searchParams } = new URL(request.url)
+
+    let xml: string
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const file = (await request.formData()).get('file')
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400 }
+        )
+      }
+      xml = await file.text()
+    } else {
+      xml = await request.text()
+    }
+
+    const testRun = await FileUtils.importJUnitReport(xml, {
+      executedBy: session?.user?.name || searchParams.get('executedBy') || 'Unknown User',
+      name: searchParams.get('name') || undefined,
+      testPlanId: searchParams.get('testPlanId') || undefined,
+      author: session?.user?.name || undefined
+    })
+
+    return NextResponse.json({
+      message: 'Test results imported successfully',
+      testRun,
+      mapped: testRun.results.length,
+      unmapped: testRun.unmappedTests?.length || 0
+    })
+  } catch (error) {
+    if (error instanceof JUnitReportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Error importing JUnit report:', error)
+    return NextResponse.json(
+      { error: 'Failed to import test results' },
+      { status: 500 }
+    )
+  }
+}
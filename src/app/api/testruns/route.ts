@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { FileUtils } from '@/lib/file-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, SchemaValidationError } from '@/lib/file-utils'
+import { matchesCustomFieldFilters, parseCustomFieldFilters } from '@/lib/custom-fields'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const testPlanId = searchParams.get('testPlanId')
+    const fieldFilters = parseCustomFieldFilters(searchParams)
     
     let testRuns
     
@@ -15,7 +19,7 @@ export async function GET(request: NextRequest) {
       testRuns = await FileUtils.getAllTestRuns()
     }
     
-    return NextResponse.json(testRuns)
+    return NextResponse.json(testRuns.filter(run => matchesCustomFieldFilters(run.customFields, fieldFilters)))
   } catch (error) {
     console.error('Error fetching test runs:', error)
     return NextResponse.json(
@@ -27,7 +31,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const testRun = await request.json()
+    const session = await getServerSession(authOptions)
+    // approvedOnly overrides the plan's approved-only setting for the test cases a new run covers
+    const { approvedOnly, ...testRun } = await request.json()
     
     // Basic validation
     if (!testRun.id || !testRun.testPlanId || !testRun.name || !testRun.executedBy) {
@@ -37,13 +43,22 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    await FileUtils.saveTestRun(testRun)
+    const savedTestRun = await FileUtils.saveTestRun(
+      await FileUtils.withPlanSnapshot(testRun, typeof approvedOnly === 'boolean' ? approvedOnly : undefined),
+      { author: session?.user?.name || undefined }
+    )
     
     return NextResponse.json({ 
       message: 'Test run saved successfully',
-      testRun 
+      testRun: savedTestRun
     })
   } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error saving test run:', error)
     return NextResponse.json(
       { error: 'Failed to save test run' },
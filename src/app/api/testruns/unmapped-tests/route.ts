@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+// Automated tests of imported runs that no test case is linked to yet
+export async function GET() {
+  try {
+    const unmappedTests = await FileUtils.getUnmappedAutomatedTests()
+    return NextResponse.json(unmappedTests)
+  } catch (error) {
+    console.error('Error fetching unmapped automated tests:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch unmapped automated tests' },
+      { status: 500 }
+    )
+  }
+}
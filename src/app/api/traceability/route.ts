@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+import { REQUIREMENT_COVERAGES } from '@/lib/requirements'
+
+// ?coverage=uncovered,failing limits the rows; the summary always covers every requirement
+export async function GET(request: NextRequest) {
+  try {
+    const coverage = request.nextUrl.searchParams.get('coverage')?.split(',').filter(Boolean)
+
+    const unknown = (coverage || []).filter(value => !(REQUIREMENT_COVERAGES as string[]).includes(value))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `coverage must be one of ${REQUIREMENT_COVERAGES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const matrix = await FileUtils.getTraceabilityMatrix()
+    if (coverage && coverage.length > 0) {
+      matrix.rows = matrix.rows.filter(row => coverage.includes(row.coverage))
+    }
+
+    return NextResponse.json(matrix)
+  } catch (error) {
+    console.error('Error building traceability matrix:', error)
+    return NextResponse.json(
+      { error: 'Failed to build traceability matrix' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils, FileSystemError } from '@/lib/file-utils'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const restored = await FileUtils.restoreFromTrash(id, { author: session?.user?.name || undefined })
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Trash entry not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: `${restored.entry.name} restored`,
+      entityType: restored.entry.entityType,
+      entityId: restored.entry.entityId,
+      relinkedPlans: restored.relinkedPlans,
+      relinkedRequirements: restored.relinkedRequirements
+    })
+  } catch (error) {
+    if (error instanceof FileSystemError && error.operation === 'restoreFromTrash') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error restoring trash entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore trash entry' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+
+// Permanently delete a single trash entry
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await FileUtils.purgeTrashEntry(id, { author: session?.user?.name || undefined })
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Trash entry not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Trash entry permanently deleted'
+    })
+  } catch (error) {
+    console.error('Error deleting trash entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete trash entry' },
+      { status: 500 }
+    )
+  }
+}
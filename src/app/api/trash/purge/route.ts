@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+
+// Permanently delete every trash entry past its retention period
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const purged = await FileUtils.purgeExpiredTrash(new Date(), { author: session?.user?.name || undefined })
+
+    return NextResponse.json({
+      message: `Purged ${purged.length} expired trash entries`,
+      purged: purged.map(entry => ({ id: entry.id, entityType: entry.entityType, name: entry.name }))
+    })
+  } catch (error) {
+    console.error('Error purging trash:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge trash' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { FileUtils } from '@/lib/file-utils'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+
+    let entries = await FileUtils.getTrash()
+    if (type) {
+      entries = entries.filter(entry => entry.entityType === type)
+    }
+
+    return NextResponse.json({
+      retentionDays: FileUtils.getTrashRetentionDays(),
+      entries
+    })
+  } catch (error) {
+    console.error('Error fetching trash:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { FileUtils } from '@/lib/file-utils'
+import { validateWorkspace } from '@/lib/storage/validate'
+
+// Scan the workspace and list every document that doesn't match the schema
+export async function GET() {
+  try {
+    const report = await validateWorkspace(FileUtils.getStorage())
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error validating workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to validate workspace' },
+      { status: 500 }
+    )
+  }
+}
+
+// Scan and repair the known issues in place
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const report = await FileUtils.repairWorkspace({ author: session?.user?.name || undefined })
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error repairing workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to repair workspace' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import path from 'path'
+import { FileUtils } from '@/lib/file-utils'
+import { serializeWorkspaceArchive } from '@/lib/storage/archive'
+import { getStorageOptions } from '@/lib/storage'
+
+const SETTINGS_FILE = path.join(getStorageOptions().workspaceDir, 'settings.json')
+
+// Download the whole workspace as a gzipped archive
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const archive = await FileUtils.exportWorkspace({
+      createdBy: session?.user?.name || undefined,
+      settingsFile: SETTINGS_FILE
+    })
+    const content = serializeWorkspaceArchive(archive)
+    const fileName = `qa-workspace-${archive.manifest.createdAt.slice(0, 10)}.json.gz`
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Length': String(content.length),
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to export workspace' },
+      { status: 500 }
+    )
+  }
+}
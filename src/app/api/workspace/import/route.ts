@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import path from 'path'
+import { ArchiveError, FileUtils } from '@/lib/file-utils'
+import { IMPORT_STRATEGIES, ImportStrategy, parseWorkspaceArchive } from '@/lib/storage/archive'
+import { getStorageOptions } from '@/lib/storage'
+
+const SETTINGS_FILE = path.join(getStorageOptions().workspaceDir, 'settings.json')
+
+// Restore an archive from GET /api/workspace/export, sent as the request
+// body or as the 'file' field of a form. ?strategy=merge|overwrite|skip
+// decides what happens to existing IDs, ?dryRun=true only reports it.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const patToken = request.headers.get('authorization')?.replace('Bearer ', '')
+
+    if (!session && !patToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const strategy = (searchParams.get('strategy') || 'merge') as ImportStrategy
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      return NextResponse.json(
+        { error: `Strategy must be one of: ${IMPORT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let content: Buffer
+    if ((request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+      const file = (await request.formData()).get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400 }
+        )
+      }
+      content = Buffer.from(await file.arrayBuffer())
+    } else {
+      content = Buffer.from(await request.arrayBuffer())
+    }
+
+    const report = await FileUtils.importWorkspace(parseWorkspaceArchive(content), {
+      strategy,
+      dryRun: searchParams.get('dryRun') === 'true',
+      settingsFile: SETTINGS_FILE,
+      author: session?.user?.name || undefined
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return NextResponse.json(
+        { error: error.message, reason: error.reason },
+        { status: 400 }
+      )
+    }
+    console.error('Error importing workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to import workspace' },
+      { status: 500 }
+    )
+  }
+}
@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import { Navigation } from '@/components/layout/navigation'
 import { Button } from '@/components/ui/button'
-import { TestTube2, FolderOpen, GitBranch, Plus, Heart, Upload, Download, BarChart, Copy, Sparkles, Edit3, Zap, Activity, TrendingUp, Clock, Monitor, X, Calendar } from 'lucide-react'
+import { TestTube2, FolderOpen, GitBranch, Plus, Heart, Upload, Download, BarChart, Copy, Sparkles, Edit3, Zap, Activity, TrendingUp, Clock, Monitor, X, Calendar, ClipboardCheck } from 'lucide-react'
 import {
   Select,
   SelectContent,
@@ -20,6 +20,7 @@ import { CloneTestPlanModal } from '@/components/modals/CloneTestPlanModal'
 import { StatsWidget } from '@/components/dashboard/StatsWidget'
 import { QuickActionsWidget } from '@/components/dashboard/QuickActionsWidget'
 import { RecentActivityWidget } from '@/components/dashboard/RecentActivityWidget'
+import { PendingReviewWidget } from '@/components/dashboard/PendingReviewWidget'
 import { AddWidgetModal } from '@/components/dashboard/AddWidgetModal'
 import { UserPreferencesManager } from '@/lib/user-preferences'
 import { DashboardStats as DashboardStatsType } from '@/lib/stats-types'
@@ -103,6 +104,7 @@ const availableWidgets = [
   { id: 'stats', label: 'Statistics Overview', icon: BarChart, description: 'Test case counts and success rates', category: 'Analytics' },
   { id: 'quick-actions', label: 'Quick Actions', icon: Zap, description: 'Fast access to common tasks', category: 'Actions' },
   { id: 'recent-activity', label: 'Recent Activity', icon: Activity, description: 'Latest test executions and changes', category: 'Activity' },
+  { id: 'pending-review', label: 'Pending Review', icon: ClipboardCheck, description: 'Test cases waiting for approval', category: 'Activity' },
   { id: 'trending', label: 'Trending Issues', icon: TrendingUp, description: 'Most active GitHub issues', category: 'Analytics' },
   { id: 'schedule', label: 'Test Schedule', icon: Clock, description: 'Upcoming scheduled test runs', category: 'Planning' },
   { id: 'performance', label: 'Performance Metrics', icon: Monitor, description: 'System and test performance data', category: 'Analytics' }
@@ -337,6 +339,14 @@ export default function Dashboard() {
               />
             )}
 
+            {isWidgetEnabled('pending-review') && (
+              <PendingReviewWidget
+                currentUser={session?.user?.name || undefined}
+                editMode={editMode}
+                onRemove={() => handleRemoveWidget('pending-review')}
+              />
+            )}
+
             {/* Future widgets placeholder */}
             {isWidgetEnabled('trending') && (
               <div className="relative">
@@ -0,0 +1,230 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, CheckCircle2, Loader2, RefreshCw, XCircle } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { TestCase } from '@/lib/types'
+import { ReleaseReport } from '@/lib/releases'
+import { VerdictBadge } from '@/components/releases/VerdictBadge'
+
+// Release readiness: the go/no-go verdict, each exit criterion and how the verdict developed over the runs
+export default function ReleaseReadinessPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const params = useParams()
+  const releaseId = params.id as string
+
+  const [report, setReport] = useState<ReleaseReport | null>(null)
+  const [titles, setTitles] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    loadReport()
+    fetch('/api/testcases')
+      .then(response => response.ok ? response.json() : [])
+      .then((testCases: TestCase[]) => setTitles(new Map(testCases.map(testCase => [testCase.id, testCase.title]))))
+      .catch(() => setTitles(new Map()))
+  }, [releaseId])  // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadReport = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/releases/${releaseId}/readiness`)
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Release not found' : 'Failed to evaluate the release')
+      }
+      setReport(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to evaluate the release')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (status === 'loading' || (loading && !report)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const release = report?.release
+  const readiness = report?.readiness
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link href="/releases">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Releases
+                </Link>
+              </Button>
+              {release && (
+                <div>
+                  <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+                    {release.name}
+                    {release.version && <Badge variant="outline">v{release.version}</Badge>}
+                  </h1>
+                  <p className="mt-2 text-muted-foreground">
+                    {release.kind === 'milestone' ? 'Milestone' : 'Release'} · {release.status.replace('_', ' ')}
+                    {release.targetDate && ` · target ${release.targetDate}`}
+                  </p>
+                </div>
+              )}
+            </div>
+            <Button variant="outline" onClick={loadReport} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Re-evaluate
+            </Button>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          {report && readiness && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                <Card>
+                  <CardContent className="p-4 flex flex-col items-center justify-center h-full">
+                    <VerdictBadge verdict={readiness.verdict} />
+                    <div className="text-sm text-muted-foreground mt-2">Verdict</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className="text-2xl font-bold text-info">{readiness.summary.passRate}%</div>
+                    <div className="text-sm text-muted-foreground">Pass rate</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className="text-2xl font-bold">{readiness.summary.executed} / {readiness.summary.testCases}</div>
+                    <div className="text-sm text-muted-foreground">Test cases executed</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className="text-2xl font-bold text-destructive">{readiness.summary.failed}</div>
+                    <div className="text-sm text-muted-foreground">Failing</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className="text-2xl font-bold">{readiness.summary.testRuns}</div>
+                    <div className="text-sm text-muted-foreground">Runs</div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Exit Criteria</CardTitle>
+                    <CardDescription>Evaluated {new Date(readiness.evaluatedAt).toLocaleString()} from the latest result of each test case</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {readiness.criteria.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">This release has no exit criteria.</p>
+                    ) : (
+                      <ul className="space-y-4">
+                        {readiness.criteria.map(evaluation => (
+                          <li key={evaluation.criterion.id}>
+                            <div className="flex items-center gap-2">
+                              {evaluation.met
+                                ? <CheckCircle2 className="h-4 w-4 text-success" />
+                                : <XCircle className="h-4 w-4 text-destructive" />}
+                              <span className="font-medium">{evaluation.label}</span>
+                              <span className="text-sm text-muted-foreground ml-auto">{evaluation.actual}</span>
+                            </div>
+                            {evaluation.testCaseIds.length > 0 && (
+                              <ul className="mt-1 ml-6 space-y-1 text-sm">
+                                {evaluation.testCaseIds.slice(0, 10).map(testCaseId => (
+                                  <li key={testCaseId}>
+                                    <Link href={`/testcases/${testCaseId}`} className="text-muted-foreground hover:underline">
+                                      {titles.get(testCaseId) || testCaseId}
+                                    </Link>
+                                  </li>
+                                ))}
+                                {evaluation.testCaseIds.length > 10 && (
+                                  <li className="text-muted-foreground">and {evaluation.testCaseIds.length - 10} more</li>
+                                )}
+                              </ul>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>History</CardTitle>
+                    <CardDescription>The verdict after each run of the release</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {report.history.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No runs of this release yet.</p>
+                    ) : (
+                      <>
+                        <ResponsiveContainer width="100%" height={200}>
+                          <LineChart data={report.history.map(point => ({ ...point, date: new Date(point.at).toLocaleDateString() }))}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="date" />
+                            <YAxis domain={[0, 100]} />
+                            <Tooltip />
+                            <Line type="monotone" dataKey="passRate" name="Pass rate %" stroke="#22c55e" />
+                          </LineChart>
+                        </ResponsiveContainer>
+                        <ul className="mt-4 space-y-2 max-h-64 overflow-y-auto text-sm">
+                          {[...report.history].reverse().map(point => (
+                            <li key={point.testRunId} className="flex items-center gap-2">
+                              <VerdictBadge verdict={point.verdict} />
+                              <span className="truncate">{point.testRunName}</span>
+                              <span className="text-muted-foreground ml-auto">{new Date(point.at).toLocaleString()}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,437 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Flag, Loader2, Pencil, Plus, Save, Trash2, X } from 'lucide-react'
+import { ExitCriterion, ExitCriterionType, Priority, Release, ReleaseKind, ReleaseStatus, TestPlan, TestRun } from '@/lib/types'
+import { ReleaseReadiness } from '@/lib/releases'
+import { VerdictBadge } from '@/components/releases/VerdictBadge'
+
+interface EditorState {
+  id?: string // Unset for a new release
+  name: string
+  kind: ReleaseKind
+  version: string
+  status: ReleaseStatus
+  description: string
+  startDate: string
+  targetDate: string
+  testPlans: string[]
+  testRuns: string[]
+  exitCriteria: ExitCriterion[]
+}
+
+// The criteria most teams ship on, as a starting point
+const DEFAULT_CRITERIA: ExitCriterion[] = [
+  { id: 'pass-rate', type: 'passRate', threshold: 95 },
+  { id: 'no-critical-failures', type: 'noOpenFailures', priority: 'critical' },
+  { id: 'critical-executed', type: 'allExecuted', priority: 'critical' }
+]
+
+const EMPTY_EDITOR: EditorState = {
+  name: '', kind: 'release', version: '', status: 'planned', description: '', startDate: '', targetDate: '', testPlans: [], testRuns: [], exitCriteria: DEFAULT_CRITERIA
+}
+
+const CRITERION_TYPES: Array<{ value: ExitCriterionType; label: string }> = [
+  { value: 'passRate', label: 'Pass rate at least' },
+  { value: 'noOpenFailures', label: 'No open failures' },
+  { value: 'allExecuted', label: 'All test cases executed' }
+]
+
+const ALL_PRIORITIES = 'any'
+
+export default function ReleasesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [releases, setReleases] = useState<Release[]>([])
+  const [readiness, setReadiness] = useState<Record<string, ReleaseReadiness>>({})
+  const [testPlans, setTestPlans] = useState<TestPlan[]>([])
+  const [testRuns, setTestRuns] = useState<TestRun[]>([])
+  const [editor, setEditor] = useState<EditorState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    fetchReleases()
+    fetch('/api/testplans')
+      .then(response => response.ok ? response.json() : [])
+      .then(setTestPlans)
+      .catch(() => setTestPlans([]))
+    fetch('/api/testruns')
+      .then(response => response.ok ? response.json() : [])
+      .then(setTestRuns)
+      .catch(() => setTestRuns([]))
+  }, [])
+
+  const fetchReleases = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/releases')
+      if (!response.ok) {
+        throw new Error('Failed to fetch releases')
+      }
+      const data: Release[] = await response.json()
+      setReleases(data)
+
+      const reports = await Promise.all(data.map(async release => {
+        const reportResponse = await fetch(`/api/releases/${release.id}/readiness`)
+        return reportResponse.ok ? (await reportResponse.json()).readiness as ReleaseReadiness : null
+      }))
+      setReadiness(Object.fromEntries(reports.flatMap(report => (report ? [[report.releaseId, report]] : []))))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch releases')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openEditor = (release?: Release) => {
+    setError(null)
+    setEditor(release
+      ? {
+          id: release.id,
+          name: release.name,
+          kind: release.kind,
+          version: release.version || '',
+          status: release.status,
+          description: release.description || '',
+          startDate: release.startDate || '',
+          targetDate: release.targetDate || '',
+          testPlans: release.testPlans,
+          testRuns: release.testRuns,
+          exitCriteria: release.exitCriteria
+        }
+      : EMPTY_EDITOR)
+  }
+
+  const toggle = (list: string[], id: string, checked: boolean) =>
+    checked ? [...list, id] : list.filter(existing => existing !== id)
+
+  const updateCriterion = (index: number, changes: Partial<ExitCriterion>) => {
+    if (!editor) return
+    setEditor({
+      ...editor,
+      exitCriteria: editor.exitCriteria.map((criterion, position) => (position === index ? { ...criterion, ...changes } : criterion))
+    })
+  }
+
+  const saveRelease = async () => {
+    if (!editor) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(editor.id ? `/api/releases/${editor.id}` : '/api/releases', {
+        method: editor.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: editor.name.trim(),
+          kind: editor.kind,
+          version: editor.version.trim() || undefined,
+          status: editor.status,
+          description: editor.description.trim() || undefined,
+          startDate: editor.startDate || undefined,
+          targetDate: editor.targetDate || undefined,
+          testPlans: editor.testPlans,
+          testRuns: editor.testRuns,
+          exitCriteria: editor.exitCriteria
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.issues?.map((issue: { path: string; message: string }) => `${issue.path} ${issue.message}`).join(', ') || data.error)
+      }
+      setEditor(null)
+      await fetchReleases()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save release')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const deleteRelease = async (release: Release) => {
+    if (!confirm(`Delete ${release.name}?`)) return
+
+    const response = await fetch(`/api/releases/${release.id}`, { method: 'DELETE' })
+    if (response.ok) {
+      setReleases(releases.filter(existing => existing.id !== release.id))
+    } else {
+      setError('Failed to delete release')
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  // Runs of the selected plans count anyway, so only other runs are offered
+  const otherRuns = editor ? testRuns.filter(run => !editor.testPlans.includes(run.testPlanId)).slice(0, 20) : []
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Releases</h1>
+              <p className="mt-2 text-muted-foreground">
+                Releases and milestones with the exit criteria deciding whether they are ready to ship.
+              </p>
+            </div>
+            <Button onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Release
+            </Button>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className={editor ? 'lg:col-span-2 space-y-4' : 'lg:col-span-3 space-y-4'}>
+              {loading ? (
+                <div className="flex items-center justify-center py-12 text-muted-foreground">
+                  <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                  Loading releases...
+                </div>
+              ) : releases.length === 0 ? (
+                <Card>
+                  <CardContent className="text-center py-12 text-muted-foreground">
+                    <Flag className="h-12 w-12 mx-auto mb-4 text-muted-foreground/50" />
+                    <p>No releases yet</p>
+                    <p className="text-sm">Create a release to group test plans and track its readiness</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                releases.map(release => (
+                  <Card key={release.id}>
+                    <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <Link href={`/releases/${release.id}`} className="hover:underline">{release.name}</Link>
+                          {release.version && <Badge variant="outline">v{release.version}</Badge>}
+                          <Badge variant="secondary">{release.kind}</Badge>
+                        </CardTitle>
+                        <CardDescription className="mt-1">
+                          {release.status.replace('_', ' ')}
+                          {release.targetDate && ` · target ${release.targetDate}`}
+                          {` · ${release.testPlans.length} plan${release.testPlans.length === 1 ? '' : 's'}`}
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {readiness[release.id] && <VerdictBadge verdict={readiness[release.id].verdict} />}
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(release)} aria-label="Edit release">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteRelease(release)} aria-label="Delete release">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    {readiness[release.id] && (
+                      <CardContent className="text-sm text-muted-foreground">
+                        {readiness[release.id].criteria.filter(evaluation => evaluation.met).length} of {readiness[release.id].criteria.length} exit criteria met
+                        {` · pass rate ${readiness[release.id].summary.passRate}%`}
+                      </CardContent>
+                    )}
+                  </Card>
+                ))
+              )}
+            </div>
+
+            {editor && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>{editor.id ? 'Edit Release' : 'New Release'}</CardTitle>
+                  <Button variant="ghost" size="sm" onClick={() => setEditor(null)} aria-label="Close">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="release-name">Name *</Label>
+                    <Input id="release-name" value={editor.name} onChange={(e) => setEditor({ ...editor, name: e.target.value })} className="mt-1" />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label>Kind</Label>
+                      <Select value={editor.kind} onValueChange={(value) => setEditor({ ...editor, kind: value as ReleaseKind })}>
+                        <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="release">Release</SelectItem>
+                          <SelectItem value="milestone">Milestone</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="release-version">Version</Label>
+                      <Input id="release-version" value={editor.version} onChange={(e) => setEditor({ ...editor, version: e.target.value })} placeholder="2.4.0" className="mt-1" />
+                    </div>
+                    <div>
+                      <Label>Status</Label>
+                      <Select value={editor.status} onValueChange={(value) => setEditor({ ...editor, status: value as ReleaseStatus })}>
+                        <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="planned">Planned</SelectItem>
+                          <SelectItem value="in_progress">In progress</SelectItem>
+                          <SelectItem value="released">Released</SelectItem>
+                          <SelectItem value="cancelled">Cancelled</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="release-target">Target date</Label>
+                      <Input id="release-target" type="date" value={editor.targetDate} onChange={(e) => setEditor({ ...editor, targetDate: e.target.value })} className="mt-1" />
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="release-start">Count runs since</Label>
+                    <Input id="release-start" type="date" value={editor.startDate} onChange={(e) => setEditor({ ...editor, startDate: e.target.value })} className="mt-1" />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="release-description">Description</Label>
+                    <Textarea id="release-description" value={editor.description} onChange={(e) => setEditor({ ...editor, description: e.target.value })} rows={2} className="mt-1" />
+                  </div>
+
+                  <div>
+                    <h3 className="font-medium mb-2">Test Plans</h3>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {testPlans.map(plan => (
+                        <label key={plan.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={editor.testPlans.includes(plan.id)}
+                            onCheckedChange={(checked) => setEditor({ ...editor, testPlans: toggle(editor.testPlans, plan.id, checked as boolean) })}
+                          />
+                          {plan.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  {otherRuns.length > 0 && (
+                    <div>
+                      <h3 className="font-medium mb-2">Other Runs</h3>
+                      <div className="space-y-2 max-h-40 overflow-y-auto">
+                        {otherRuns.map(run => (
+                          <label key={run.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={editor.testRuns.includes(run.id)}
+                              onCheckedChange={(checked) => setEditor({ ...editor, testRuns: toggle(editor.testRuns, run.id, checked as boolean) })}
+                            />
+                            {run.name}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="font-medium mb-2">Exit Criteria</h3>
+                    <div className="space-y-2">
+                      {editor.exitCriteria.map((criterion, index) => (
+                        <div key={criterion.id || index} className="flex items-center gap-2">
+                          <Select value={criterion.type} onValueChange={(value) => updateCriterion(index, { type: value as ExitCriterionType })}>
+                            <SelectTrigger className="flex-1"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {CRITERION_TYPES.map(type => (
+                                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {criterion.type === 'passRate' ? (
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={criterion.threshold ?? ''}
+                              onChange={(e) => updateCriterion(index, { threshold: e.target.value === '' ? undefined : Number(e.target.value) })}
+                              className="w-24"
+                              aria-label="Minimum pass rate"
+                            />
+                          ) : (
+                            <Select
+                              value={criterion.priority || ALL_PRIORITIES}
+                              onValueChange={(value) => updateCriterion(index, { priority: value === ALL_PRIORITIES ? undefined : value as Priority })}
+                            >
+                              <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={ALL_PRIORITIES}>Any</SelectItem>
+                                <SelectItem value="critical">Critical</SelectItem>
+                                <SelectItem value="high">High</SelectItem>
+                                <SelectItem value="medium">Medium</SelectItem>
+                                <SelectItem value="low">Low</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditor({ ...editor, exitCriteria: editor.exitCriteria.filter((_, position) => position !== index) })}
+                            aria-label="Remove criterion"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditor({ ...editor, exitCriteria: [...editor.exitCriteria, { id: '', type: 'noOpenFailures' }] })}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Criterion
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Button onClick={saveRelease} disabled={busy || !editor.name.trim()} className="w-full">
+                    {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save Release
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,489 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ClipboardCheck, Download, ExternalLink, Loader2, Plus, Save, Trash2, X } from 'lucide-react'
+import { Requirement, TestCase, TestResultStatus } from '@/lib/types'
+import { RequirementCoverage, TraceabilityMatrix } from '@/lib/requirements'
+import { getGitHubToken } from '@/lib/auth'
+
+interface EditorState {
+  id?: string // Unset for a new requirement
+  newId: string
+  title: string
+  source: string
+  description: string
+  acceptanceCriteria: string // One criterion per line
+  testCases: string[]
+  githubUrl?: string // Set for requirements imported from an issue
+}
+
+const EMPTY_EDITOR: EditorState = { newId: '', title: '', source: '', description: '', acceptanceCriteria: '', testCases: [] }
+
+const COVERAGE_STYLES: Record<RequirementCoverage, string> = {
+  uncovered: 'bg-warning/10 text-warning border-warning/20',
+  failing: 'bg-destructive/10 text-destructive border-destructive/20',
+  incomplete: 'bg-muted text-muted-foreground border-border',
+  passing: 'bg-success/10 text-success border-success/20'
+}
+
+const STATUS_STYLES: Partial<Record<TestResultStatus, string>> = {
+  pass: 'text-success border-success/20',
+  fail: 'text-destructive border-destructive/20',
+  blocked: 'text-warning border-warning/20'
+}
+
+type CoverageFilter = 'all' | RequirementCoverage
+
+export default function RequirementsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [matrix, setMatrix] = useState<TraceabilityMatrix | null>(null)
+  const [testCases, setTestCases] = useState<TestCase[]>([])
+  const [coverageFilter, setCoverageFilter] = useState<CoverageFilter>('all')
+  const [editor, setEditor] = useState<EditorState | null>(null)
+  const [importForm, setImportForm] = useState<{ owner: string; repo: string; state: string } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    fetchMatrix()
+    fetch('/api/testcases')
+      .then(response => response.ok ? response.json() : [])
+      .then(setTestCases)
+      .catch(() => setTestCases([]))
+  }, [])
+
+  const fetchMatrix = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/traceability')
+      if (!response.ok) {
+        throw new Error('Failed to fetch requirements')
+      }
+      setMatrix(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch requirements')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectRequirement = (requirement: Requirement) => {
+    setEditor({
+      id: requirement.id,
+      newId: requirement.id,
+      title: requirement.title,
+      source: requirement.source || '',
+      description: requirement.description || '',
+      acceptanceCriteria: requirement.acceptanceCriteria.join('\n'),
+      testCases: requirement.testCases,
+      githubUrl: requirement.githubIssue?.url
+    })
+    setImportForm(null)
+    setMessage(null)
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!editor || !editor.title.trim()) {
+      setError('A title is required')
+      return
+    }
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(editor.id ? `/api/requirements/${editor.id}` : '/api/requirements', {
+        method: editor.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: editor.id ? undefined : editor.newId.trim() || undefined,
+          title: editor.title.trim(),
+          source: editor.source.trim(),
+          description: editor.description.trim(),
+          acceptanceCriteria: editor.acceptanceCriteria.split('\n').map(line => line.trim()).filter(Boolean),
+          testCases: editor.testCases
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save requirement')
+      }
+      setMessage(`${data.requirement.id} saved`)
+      selectRequirement(data.requirement)
+      await fetchMatrix()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save requirement')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!editor?.id || !confirm(`Delete requirement ${editor.id}?`)) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(`/api/requirements/${editor.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete requirement')
+      }
+      setEditor(null)
+      fetchMatrix()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete requirement')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!importForm?.owner.trim() || !importForm.repo.trim()) {
+      setError('Owner and repository are required')
+      return
+    }
+
+    try {
+      setBusy(true)
+      setError(null)
+      const headers: HeadersInit = { 'Content-Type': 'application/json' }
+      const token = getGitHubToken()
+      if (token) {
+        headers.Authorization = `Bearer ${token}`
+      }
+
+      const response = await fetch('/api/requirements/import', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ owner: importForm.owner.trim(), repo: importForm.repo.trim(), state: importForm.state })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import requirements')
+      }
+      setMessage(data.message)
+      setImportForm(null)
+      await fetchMatrix()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import requirements')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const rows = (matrix?.rows || []).filter(row => coverageFilter === 'all' || row.coverage === coverageFilter)
+  const titles = new Map(testCases.map(testCase => [testCase.id, testCase.title]))
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Requirements</h1>
+              <p className="mt-2 text-muted-foreground">
+                Requirements traced to the test cases covering them and their latest results.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => { setImportForm({ owner: '', repo: '', state: 'open' }); setEditor(null) }}>
+                <Download className="h-4 w-4 mr-2" />
+                Import from GitHub
+              </Button>
+              <Button onClick={() => { setEditor(EMPTY_EDITOR); setImportForm(null); setMessage(null) }}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Requirement
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-6 bg-success/10 border border-success/20 rounded-md p-4">
+              <p className="text-success">{message}</p>
+            </div>
+          )}
+
+          {matrix && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <div className="text-2xl font-bold">{matrix.summary.total}</div>
+                  <div className="text-sm text-muted-foreground">Requirements</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <div className="text-2xl font-bold text-info">{matrix.summary.coveragePercent}%</div>
+                  <div className="text-sm text-muted-foreground">Covered by test cases</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <div className="text-2xl font-bold text-warning">{matrix.summary.uncovered}</div>
+                  <div className="text-sm text-muted-foreground">Uncovered</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <div className="text-2xl font-bold text-destructive">{matrix.summary.failing}</div>
+                  <div className="text-sm text-muted-foreground">Failing</div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-2">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Traceability Matrix
+                </CardTitle>
+                <Select value={coverageFilter} onValueChange={(value) => setCoverageFilter(value as CoverageFilter)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="uncovered">Uncovered</SelectItem>
+                    <SelectItem value="failing">Failing</SelectItem>
+                    <SelectItem value="incomplete">Incomplete</SelectItem>
+                    <SelectItem value="passing">Passing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : rows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No requirements found.</p>
+                ) : (
+                  <div className="divide-y">
+                    {rows.map(row => (
+                      <div
+                        key={row.requirement.id}
+                        className={`py-3 cursor-pointer hover:bg-accent/50 px-2 rounded-md ${row.requirement.id === editor?.id ? 'bg-accent' : ''}`}
+                        onClick={() => selectRequirement(row.requirement)}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <span className="font-mono text-xs text-muted-foreground mr-2">{row.requirement.id}</span>
+                            <span className="font-medium">{row.requirement.title}</span>
+                          </div>
+                          <Badge className={COVERAGE_STYLES[row.coverage]}>{row.coverage}</Badge>
+                        </div>
+                        {row.testCases.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {row.testCases.map(testCase => (
+                              <Badge
+                                key={testCase.id}
+                                variant="outline"
+                                className={`text-xs ${STATUS_STYLES[testCase.status] || ''}`}
+                                title={testCase.testRunName ? `Latest run: ${testCase.testRunName}` : 'Never executed'}
+                              >
+                                {testCase.title} · {testCase.status.replace('_', ' ')}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {importForm && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Import from GitHub</CardTitle>
+                  <CardDescription>
+                    One requirement per issue. Acceptance criteria are read from task lists or an
+                    &quot;Acceptance criteria&quot; section; test cases generated from an issue are linked.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="owner">Owner</Label>
+                    <Input id="owner" value={importForm.owner} onChange={(e) => setImportForm({ ...importForm, owner: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="repo">Repository</Label>
+                    <Input id="repo" value={importForm.repo} onChange={(e) => setImportForm({ ...importForm, repo: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>Issues</Label>
+                    <Select value={importForm.state} onValueChange={(state) => setImportForm({ ...importForm, state })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="open">Open</SelectItem>
+                        <SelectItem value="closed">Closed</SelectItem>
+                        <SelectItem value="all">All</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setImportForm(null)}>Cancel</Button>
+                    <Button onClick={handleImport} disabled={busy}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Import
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {editor && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{editor.id ? `Edit ${editor.id}` : 'New Requirement'}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {!editor.id && (
+                    <div>
+                      <Label htmlFor="requirement-id">ID</Label>
+                      <Input
+                        id="requirement-id"
+                        value={editor.newId}
+                        onChange={(e) => setEditor({ ...editor, newId: e.target.value })}
+                        placeholder="Next REQ-<n> when empty"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="title">Title *</Label>
+                    <Input id="title" value={editor.title} onChange={(e) => setEditor({ ...editor, title: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="source">Source</Label>
+                    <Input
+                      id="source"
+                      value={editor.source}
+                      onChange={(e) => setEditor({ ...editor, source: e.target.value })}
+                      placeholder="Spec, ticket or owner/repo#12"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      value={editor.description}
+                      onChange={(e) => setEditor({ ...editor, description: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="criteria">Acceptance criteria</Label>
+                    <Textarea
+                      id="criteria"
+                      value={editor.acceptanceCriteria}
+                      onChange={(e) => setEditor({ ...editor, acceptanceCriteria: e.target.value })}
+                      placeholder="One criterion per line"
+                      rows={4}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Covering test cases</Label>
+                    {editor.testCases.map(testCaseId => (
+                      <div key={testCaseId} className="flex items-center justify-between text-sm">
+                        <Link href={`/testcases/${testCaseId}`} className="underline truncate">
+                          {titles.get(testCaseId) || `${testCaseId} (deleted)`}
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditor({ ...editor, testCases: editor.testCases.filter(id => id !== testCaseId) })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Select value="" onValueChange={(testCaseId) => setEditor({ ...editor, testCases: [...editor.testCases, testCaseId] })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Add a test case..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {testCases.filter(testCase => !editor.testCases.includes(testCase.id)).map(testCase => (
+                          <SelectItem key={testCase.id} value={testCase.id}>{testCase.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    {editor.id && (
+                      <>
+                        {editor.githubUrl && (
+                          <Button variant="outline" asChild>
+                            <a href={editor.githubUrl} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        <Button variant="outline" onClick={handleDelete} disabled={busy}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                    <Button onClick={handleSave} disabled={busy}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
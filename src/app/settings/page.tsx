@@ -13,6 +13,7 @@ import {
   TestTube2, 
   Sparkles, 
   Bell,
+  ListPlus,
   Save,
   RotateCcw,
   CheckCircle
@@ -23,6 +24,7 @@ import { DashboardSettings } from '@/components/settings/DashboardSettings'
 import { TestSettings } from '@/components/settings/TestSettings'
 import { AISettings } from '@/components/settings/AISettings'
 import { NotificationSettings } from '@/components/settings/NotificationSettings'
+import { CustomFieldSettings } from '@/components/settings/CustomFieldSettings'
 import { UserPreferences, UserPreferencesManager, defaultPreferences } from '@/lib/user-preferences'
 
 export default function SettingsPage() {
@@ -142,7 +144,7 @@ export default function SettingsPage() {
 
       {/* Settings Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="account" className="flex items-center gap-2">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">Account</span>
@@ -167,6 +169,10 @@ export default function SettingsPage() {
             <Bell className="h-4 w-4" />
             <span className="hidden sm:inline">Notifications</span>
           </TabsTrigger>
+          <TabsTrigger value="fields" className="flex items-center gap-2">
+            <ListPlus className="h-4 w-4" />
+            <span className="hidden sm:inline">Fields</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="account">
@@ -211,6 +217,10 @@ export default function SettingsPage() {
             onChange={handlePreferenceChange}
           />
         </TabsContent>
+
+        <TabsContent value="fields">
+          <CustomFieldSettings />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,408 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Layers, Plus, Save, Trash2, Eye, Loader2 } from 'lucide-react'
+import { SharedStep, TestStep } from '@/lib/types'
+import { SharedStepChangePreview, SharedStepUsageReport } from '@/lib/shared-steps'
+
+interface EditorState {
+  id?: string // Unset for a new shared step
+  title: string
+  description: string
+  steps: TestStep[]
+}
+
+const EMPTY_EDITOR: EditorState = { title: '', description: '', steps: [] }
+
+export default function SharedStepsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [sharedSteps, setSharedSteps] = useState<SharedStep[]>([])
+  const [editor, setEditor] = useState<EditorState>(EMPTY_EDITOR)
+  const [usage, setUsage] = useState<SharedStepUsageReport | null>(null)
+  const [preview, setPreview] = useState<SharedStepChangePreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    fetchSharedSteps()
+  }, [])
+
+  const fetchSharedSteps = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/shared-steps')
+      if (!response.ok) {
+        throw new Error('Failed to fetch shared steps')
+      }
+      setSharedSteps(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch shared steps')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectSharedStep = async (sharedStep: SharedStep) => {
+    setEditor({
+      id: sharedStep.id,
+      title: sharedStep.title,
+      description: sharedStep.description || '',
+      steps: sharedStep.steps
+    })
+    setPreview(null)
+    setMessage(null)
+    setError(null)
+
+    const response = await fetch(`/api/shared-steps/${sharedStep.id}/usage`)
+    setUsage(response.ok ? await response.json() : null)
+  }
+
+  const startNew = () => {
+    setEditor({ ...EMPTY_EDITOR, steps: [{ id: 'step-1', stepNumber: 1, action: '', expectedResult: '' }] })
+    setUsage(null)
+    setPreview(null)
+    setMessage(null)
+  }
+
+  const updateStep = (index: number, field: 'action' | 'expectedResult', value: string) => {
+    setEditor(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, [field]: value } : step)
+    }))
+    setPreview(null)
+  }
+
+  const addStep = () => {
+    // Step IDs are part of the result IDs, so existing steps keep theirs
+    const nextNumber = editor.steps.reduce((max, step) => Math.max(max, Number(step.id.replace(/^step-/, '')) || 0), 0) + 1
+    setEditor(prev => ({
+      ...prev,
+      steps: [...prev.steps, { id: `step-${nextNumber}`, stepNumber: prev.steps.length + 1, action: '', expectedResult: '' }]
+    }))
+    setPreview(null)
+  }
+
+  const removeStep = (index: number) => {
+    setEditor(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))
+    setPreview(null)
+  }
+
+  const payload = () => ({
+    title: editor.title.trim(),
+    description: editor.description.trim() || undefined,
+    steps: editor.steps.map((step, index) => ({ ...step, stepNumber: index + 1 })),
+    tags: []
+  })
+
+  const handlePreview = async () => {
+    if (!editor.id) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(`/api/shared-steps/${editor.id}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload())
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview changes')
+      }
+      setPreview(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview changes')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editor.title.trim() || editor.steps.some(step => !step.action.trim())) {
+      setError('A title and an action for every step are required')
+      return
+    }
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(editor.id ? `/api/shared-steps/${editor.id}` : '/api/shared-steps', {
+        method: editor.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload())
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save shared step')
+      }
+      setMessage(`${data.sharedStep.title} saved as version ${data.sharedStep.version}`)
+      await fetchSharedSteps()
+      await selectSharedStep(data.sharedStep)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shared step')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!editor.id || !confirm(`Delete "${editor.title}"?`)) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(`/api/shared-steps/${editor.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete shared step')
+      }
+      setEditor(EMPTY_EDITOR)
+      setUsage(null)
+      fetchSharedSteps()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete shared step')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const current = sharedSteps.find(sharedStep => sharedStep.id === editor.id)
+  const isEditing = editor.id !== undefined || editor.steps.length > 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Shared Steps</h1>
+              <p className="mt-2 text-muted-foreground">
+                Step sequences reused across test cases. Every change is saved as a new version.
+              </p>
+            </div>
+            <Button onClick={startNew}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Shared Step
+            </Button>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-6 bg-success/10 border border-success/20 rounded-md p-4">
+              <p className="text-success">{message}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Layers className="h-5 w-5" />
+                  Library
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : sharedSteps.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No shared steps yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {sharedSteps.map(sharedStep => (
+                      <Button
+                        key={sharedStep.id}
+                        variant={sharedStep.id === editor.id ? 'default' : 'ghost'}
+                        className="w-full justify-between"
+                        onClick={() => selectSharedStep(sharedStep)}
+                      >
+                        <span className="truncate">{sharedStep.title}</span>
+                        <Badge variant="outline">v{sharedStep.version}</Badge>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {isEditing && (
+              <div className="lg:col-span-2 space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{current ? `Edit ${current.title}` : 'New Shared Step'}</CardTitle>
+                    {current && <CardDescription>Version {current.version}</CardDescription>}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <Label htmlFor="title">Title *</Label>
+                      <Input
+                        id="title"
+                        value={editor.title}
+                        onChange={(e) => { setEditor(prev => ({ ...prev, title: e.target.value })); setPreview(null) }}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="description">Description</Label>
+                      <Textarea
+                        id="description"
+                        value={editor.description}
+                        onChange={(e) => { setEditor(prev => ({ ...prev, description: e.target.value })); setPreview(null) }}
+                        rows={2}
+                      />
+                    </div>
+
+                    {editor.steps.map((step, index) => (
+                      <div key={step.id} className="border rounded-lg p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <h3 className="font-medium">Step {index + 1}</h3>
+                          <Button variant="ghost" size="sm" onClick={() => removeStep(index)} disabled={editor.steps.length === 1}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <Textarea
+                          value={step.action}
+                          onChange={(e) => updateStep(index, 'action', e.target.value)}
+                          placeholder="Action"
+                          rows={2}
+                        />
+                        <Textarea
+                          value={step.expectedResult}
+                          onChange={(e) => updateStep(index, 'expectedResult', e.target.value)}
+                          placeholder="Expected result"
+                          rows={2}
+                        />
+                      </div>
+                    ))}
+
+                    <div className="flex gap-2 justify-end">
+                      <Button variant="outline" onClick={addStep}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Step
+                      </Button>
+                      {editor.id && (
+                        <>
+                          <Button variant="outline" onClick={handleDelete} disabled={busy}>
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </Button>
+                          <Button variant="outline" onClick={handlePreview} disabled={busy}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            Preview Impact
+                          </Button>
+                        </>
+                      )}
+                      <Button onClick={handleSave} disabled={busy}>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {preview && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Impact Preview</CardTitle>
+                      <CardDescription>
+                        {preview.diff.hasChanges
+                          ? `Saving creates version ${preview.nextVersion}`
+                          : 'No changes to save'}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3 text-sm">
+                      {preview.diff.fields.map(change => (
+                        <p key={change.field}>Changed {change.field}</p>
+                      ))}
+                      {preview.diff.steps.filter(step => step.type !== 'unchanged').map((step, index) => (
+                        <p key={index}>Step {step.toStep ?? step.fromStep} {step.type}</p>
+                      ))}
+                      <p className="font-medium">
+                        {preview.usage.latest.length} test case(s) will run the new version
+                        {preview.usage.pinned.length > 0 && `, ${preview.usage.pinned.length} pinned test case(s) are not affected`}
+                      </p>
+                      <ul className="list-disc list-inside">
+                        {preview.usage.latest.map(usage => (
+                          <li key={usage.testCaseId}>
+                            <Link href={`/testcases/${usage.testCaseId}`} className="underline">{usage.title}</Link>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {usage && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Where Used</CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm">
+                      {usage.latest.length === 0 && usage.pinned.length === 0 ? (
+                        <p className="text-muted-foreground">Not used by any test case.</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {[...usage.latest, ...usage.pinned].map(used => (
+                            <li key={used.testCaseId} className="flex items-center gap-2">
+                              <Link href={`/testcases/${used.testCaseId}`} className="underline">{used.title}</Link>
+                              {used.references.map(reference => (
+                                <Badge key={reference.stepId} variant="outline">
+                                  Step {reference.stepNumber}{reference.version ? ` · pinned to v${reference.version}` : ''}
+                                </Badge>
+                              ))}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
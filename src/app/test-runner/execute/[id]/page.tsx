@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { useRouter, useParams } from 'next/navigation'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -35,9 +35,13 @@ import {
   Pause,
   RotateCcw,
   Camera,
-  Paperclip
+  Paperclip,
+  Trash2
 } from 'lucide-react'
 import { getGuestSession } from '@/lib/guest-auth'
+import { SINGLE_EXECUTION_PLAN_ID } from '@/lib/test-runs'
+import { expandIterations, isParameterized } from '@/lib/test-parameters'
+import { Attachment, TestParameters, TestResult, TestResultStatus, TestRun, TestRunStatus, TestStepStatus } from '@/lib/types'
 
 interface TestCase {
   id: string
@@ -46,38 +50,49 @@ interface TestCase {
   priority: 'critical' | 'high' | 'medium' | 'low'
   preconditions: string
   expectedResult: string
+  // Parameterized test cases list their steps once per data row, with the
+  // row's values filled in. Shared steps are inlined by the API.
   steps: Array<{
     id: string
     stepNumber: number
     action: string
     expectedResult: string
+    sharedStepVersion?: number
+    sharedStepTitle?: string
+    rowId?: string
+    rowLabel?: string
   }>
+  parameters?: TestParameters
   tags: string[]
 }
 
 interface StepResult {
   stepId: string
-  status: 'pass' | 'fail' | 'blocked' | 'skipped' | 'pending'
+  sharedStepVersion?: number
+  rowId?: string
+  status: TestStepStatus
   notes: string
   actualResult: string
   timestamp: string
 }
 
 interface TestExecution {
+  id?: string // Assigned by the server on the first save
   testCaseId: string
   executedBy: string
   startedAt: string
-  completedAt?: string
-  status: 'in_progress' | 'completed' | 'aborted'
-  overallResult: 'pass' | 'fail' | 'blocked' | 'skipped' | 'pending'
-  stepResults: StepResult[]
-  notes: string
+  status: TestRunStatus
 }
 
 export default function ExecuteTest() {
   const router = useRouter()
   const params = useParams()
   const testCaseId = params.id as string
+  // Set when executing a test case assigned to the tester in a shared run
+  const searchParams = useSearchParams()
+  const assignedRunId = searchParams.get('run')
+  // And the configuration to execute it in, when the run has a configuration matrix
+  const configuration = searchParams.get('configuration')
   
   const [testCase, setTestCase] = useState<TestCase | null>(null)
   const [execution, setExecution] = useState<TestExecution | null>(null)
@@ -91,7 +106,11 @@ export default function ExecuteTest() {
   const [elapsedTime, setElapsedTime] = useState(0)
   const [isTimerRunning, setIsTimerRunning] = useState(false)
   const [stepStartTime, setStepStartTime] = useState<Date | null>(null)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
   const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
 
   useEffect(() => {
     loadTestCase()
@@ -144,7 +163,7 @@ export default function ExecuteTest() {
         case 's':
           if (!e.metaKey && !e.ctrlKey) {
             e.preventDefault()
-            updateStepResult('skipped')
+            updateStepResult('skip')
           }
           break
         case 'arrowright':
@@ -166,17 +185,38 @@ export default function ExecuteTest() {
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [currentStepIndex, testCase])
 
+  // Screenshots pasted from the clipboard are attached to the current step
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || [])
+      if (files.length === 0) return
+
+      e.preventDefault()
+      uploadAttachments(files)
+    }
+
+    document.addEventListener('paste', handlePaste)
+    return () => document.removeEventListener('paste', handlePaste)
+  })
+
   const loadTestCase = async () => {
     try {
-      const response = await fetch(`/api/testcases/${testCaseId}`)
+      const response = await fetch(`/api/testcases/${testCaseId}?expand=sharedSteps`)
       if (response.ok) {
-        const testCaseData = await response.json()
-        setTestCase(testCaseData)
+        const testCaseData: TestCase = await response.json()
+        const steps: TestCase['steps'] = isParameterized(testCaseData)
+          ? expandIterations(testCaseData).flatMap(iteration =>
+              iteration.steps.map(step => ({ ...step, rowId: iteration.row.id, rowLabel: iteration.label }))
+            )
+          : testCaseData.steps
+        setTestCase({ ...testCaseData, steps })
         
         // Initialize step results
-        const initialStepResults = testCaseData.steps.map((step: any) => ({
+        const initialStepResults = steps.map(step => ({
           stepId: step.id,
-          status: 'pending' as const,
+          sharedStepVersion: step.sharedStepVersion,
+          rowId: step.rowId,
+          status: 'not_executed' as const,
           notes: '',
           actualResult: '',
           timestamp: ''
@@ -198,13 +238,11 @@ export default function ExecuteTest() {
     }
 
     const newExecution: TestExecution = {
+      ...(assignedRunId ? { id: assignedRunId } : {}),
       testCaseId,
       executedBy: guestSession.name,
       startedAt: new Date().toISOString(),
-      status: 'in_progress',
-      overallResult: 'pending',
-      stepResults: [],
-      notes: ''
+      status: 'in_progress'
     }
     
     setExecution(newExecution)
@@ -264,55 +302,102 @@ export default function ExecuteTest() {
     }
   }
 
-  const calculateOverallResult = (): TestExecution['overallResult'] => {
-    const completedSteps = stepResults.filter(result => result.status !== 'pending')
+  const calculateOverallResult = (): TestResultStatus => {
+    const completedSteps = stepResults.filter(result => result.status !== 'not_executed')
     
-    if (completedSteps.length === 0) return 'pending'
+    if (completedSteps.length === 0) return 'not_executed'
     
     const hasFailure = completedSteps.some(result => result.status === 'fail')
     const hasBlocked = completedSteps.some(result => result.status === 'blocked')
-    const allPassed = completedSteps.every(result => result.status === 'pass' || result.status === 'skipped')
+    const allPassed = completedSteps.every(result => result.status === 'pass' || result.status === 'skip')
     
     if (hasFailure) return 'fail'
     if (hasBlocked) return 'blocked'
     if (allPassed && completedSteps.length === testCase?.steps.length) return 'pass'
     
-    return 'pending'
+    return 'partial'
   }
 
   const getProgress = () => {
     if (!testCase) return 0
-    const completedSteps = stepResults.filter(result => result.status !== 'pending').length
+    const completedSteps = stepResults.filter(result => result.status !== 'not_executed').length
     return (completedSteps / testCase.steps.length) * 100
   }
 
-  const saveExecution = async (isComplete: boolean = false) => {
+  // Returns the run ID the execution is saved under
+  const saveExecution = async (isComplete: boolean = false): Promise<string | undefined> => {
     if (!execution || !testCase) return
 
     setSaving(true)
     try {
-      const overallResult = calculateOverallResult()
-      const updatedExecution: TestExecution = {
-        ...execution,
-        stepResults,
-        notes: overallNotes,
-        overallResult,
+      const toStepResults = (results: StepResult[]) => results.map(result => ({
+        stepId: result.stepId,
+        sharedStepVersion: result.sharedStepVersion,
+        status: result.status,
+        actualResult: result.actualResult,
+        notes: result.notes,
+        executedAt: result.timestamp || undefined
+      }))
+
+      // One iteration per data row, the server derives the statuses
+      const stepsOrIterations: Pick<TestResult, 'steps' | 'iterations'> = isParameterized(testCase)
+        ? {
+            steps: [],
+            iterations: testCase.parameters.rows.map(row => ({
+              rowId: row.id,
+              values: row.values,
+              status: 'not_executed',
+              steps: toStepResults(stepResults.filter(result => result.rowId === row.id))
+            }))
+          }
+        : { steps: toStepResults(stepResults) }
+
+      const testRun: TestRun = {
+        id: execution.id || '',
+        testPlanId: SINGLE_EXECUTION_PLAN_ID,
+        name: `Single Test Execution - ${testCase.title}`,
+        startedAt: execution.startedAt,
+        completedAt: isComplete ? new Date().toISOString() : undefined,
         status: isComplete ? 'completed' : 'in_progress',
-        completedAt: isComplete ? new Date().toISOString() : undefined
+        executedBy: execution.executedBy,
+        notes: overallNotes,
+        results: [{
+          testCaseId: execution.testCaseId,
+          status: calculateOverallResult(),
+          executedAt: new Date().toISOString(),
+          executionTime: elapsedTime,
+          ...stepsOrIterations
+        }]
       }
 
-      const response = await fetch('/api/test-runner/executions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(updatedExecution)
-      })
+      // Results of assigned test cases go into the shared run next to those of the other testers
+      const response = assignedRunId
+        ? await fetch('/api/test-runner/assigned', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ testRunId: assignedRunId, result: {
+              ...testRun.results[0],
+              ...(configuration ? { configuration } : {}),
+              executedBy: execution.executedBy
+            } })
+          })
+        : await fetch('/api/test-runner/executions', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(testRun)
+          })
 
       if (response.ok) {
+        // Later saves update the same run
+        const data = await response.json()
+        setExecution({ ...execution, id: data.executionId, status: testRun.status })
+
         if (isComplete) {
-          router.push('/test-runner/history')
+          router.push(assignedRunId ? '/test-runner' : '/test-runner/history')
         }
+        return data.executionId
       }
     } catch (error) {
       console.error('Failed to save execution:', error)
@@ -321,6 +406,57 @@ export default function ExecuteTest() {
     }
   }
 
+  const uploadAttachments = async (files: File[]) => {
+    if (!testCase || !execution || uploading) return
+
+    const step = testCase.steps[currentStepIndex]
+    setUploading(true)
+    setUploadError(null)
+    try {
+      // Step results belong to a run, so the execution is saved first
+      const testRunId = execution.id || await saveExecution(false)
+      if (!testRunId) {
+        setUploadError('The execution could not be saved')
+        return
+      }
+
+      for (const file of files) {
+        const formData = new FormData()
+        formData.append('file', file)
+        formData.append('type', 'stepResult')
+        formData.append('testRunId', testRunId)
+        formData.append('testCaseId', testCase.id)
+        formData.append('stepId', step.id)
+        formData.append('uploadedBy', execution.executedBy)
+
+        const response = await fetch('/api/attachments', { method: 'POST', body: formData })
+        const data = await response.json()
+        if (!response.ok) {
+          setUploadError(`${file.name}: ${data.error}`)
+          continue
+        }
+
+        setAttachments(prev => prev.some(a => a.id === data.id) ? prev : [...prev, data])
+      }
+    } catch (error) {
+      console.error('Failed to upload attachment:', error)
+      setUploadError('Failed to upload attachment')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const deleteAttachment = async (attachmentId: string) => {
+    try {
+      const response = await fetch(`/api/attachments/${attachmentId}`, { method: 'DELETE' })
+      if (response.ok) {
+        setAttachments(prev => prev.filter(a => a.id !== attachmentId))
+      }
+    } catch (error) {
+      console.error('Failed to delete attachment:', error)
+    }
+  }
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical': return 'bg-red-500'
@@ -336,7 +472,7 @@ export default function ExecuteTest() {
       case 'pass': return <CheckCircle className="h-4 w-4 text-green-500" />
       case 'fail': return <XCircle className="h-4 w-4 text-red-500" />
       case 'blocked': return <AlertCircle className="h-4 w-4 text-orange-500" />
-      case 'skipped': return <SkipForward className="h-4 w-4 text-gray-500" />
+      case 'skip': return <SkipForward className="h-4 w-4 text-gray-500" />
       default: return <Clock className="h-4 w-4 text-gray-400" />
     }
   }
@@ -415,6 +551,7 @@ export default function ExecuteTest() {
 
   const currentStep = testCase.steps[currentStepIndex]
   const currentStepResult = stepResults[currentStepIndex]
+  const currentStepAttachments = attachments.filter(a => a.target.stepId === currentStep.id)
 
   return (
     <div className="container mx-auto py-6 space-y-6">
@@ -555,6 +692,16 @@ export default function ExecuteTest() {
                 <span>Step {currentStepIndex + 1}: Execute Action</span>
                 {getStatusIcon(currentStepResult?.status)}
               </CardTitle>
+              {currentStep.sharedStepTitle && (
+                <CardDescription>
+                  Shared step: {currentStep.sharedStepTitle} (version {currentStep.sharedStepVersion})
+                </CardDescription>
+              )}
+              {currentStep.rowLabel && (
+                <CardDescription>
+                  Data row: <code>{currentStep.rowLabel}</code>
+                </CardDescription>
+              )}
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
@@ -590,6 +737,77 @@ export default function ExecuteTest() {
                 />
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-medium">Evidence</h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                  >
+                    <Paperclip className="h-4 w-4 mr-2" />
+                    {uploading ? 'Uploading...' : 'Attach File'}
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      uploadAttachments(Array.from(e.target.files || []))
+                      e.target.value = ''
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Camera className="h-3 w-3" />
+                  Paste a screenshot anywhere on this page to attach it to this step
+                </p>
+                {uploadError && (
+                  <p className="text-xs text-red-500 mt-1">{uploadError}</p>
+                )}
+                {currentStepAttachments.length > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-3">
+                    {currentStepAttachments.map(attachment => (
+                      <div key={attachment.id} className="border rounded-lg p-2 space-y-2">
+                        {attachment.contentType.startsWith('image/') ? (
+                          <a href={`/api/attachments/${attachment.id}`} target="_blank" rel="noopener noreferrer">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                              src={`/api/attachments/${attachment.id}`}
+                              alt={attachment.fileName}
+                              className="h-24 w-full object-cover rounded"
+                            />
+                          </a>
+                        ) : (
+                          <a
+                            href={`/api/attachments/${attachment.id}?download=1`}
+                            className="flex h-24 items-center justify-center rounded bg-muted text-xs"
+                          >
+                            <Paperclip className="h-4 w-4 mr-1" />
+                            Download
+                          </a>
+                        )}
+                        <div className="flex items-center justify-between gap-1">
+                          <span className="text-xs truncate" title={attachment.fileName}>
+                            {attachment.fileName}
+                          </span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6 flex-shrink-0"
+                            onClick={() => deleteAttachment(attachment.id)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Step Actions */}
               <div className="flex gap-2 pt-4">
                 <Tooltip>
@@ -641,7 +859,7 @@ export default function ExecuteTest() {
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button 
-                      onClick={() => updateStepResult('skipped')}
+                      onClick={() => updateStepResult('skip')}
                       variant="outline"
                       className="flex-1"
                     >
@@ -722,7 +940,7 @@ export default function ExecuteTest() {
               <div className="space-y-2">
                 {testCase.steps.map((step, index) => (
                   <Button
-                    key={step.id}
+                    key={`${step.rowId || ''}:${step.id}`}
                     variant={index === currentStepIndex ? "default" : "ghost"}
                     className="w-full justify-start text-left h-auto p-3"
                     onClick={() => navigateToStep(index)}
@@ -735,6 +953,12 @@ export default function ExecuteTest() {
                         <div className="text-sm font-medium">
                           Step {index + 1}
                         </div>
+                        {step.sharedStepTitle && (
+                          <div className="text-xs text-muted-foreground truncate">{step.sharedStepTitle}</div>
+                        )}
+                        {step.rowLabel && (
+                          <div className="text-xs text-muted-foreground truncate">{step.rowLabel}</div>
+                        )}
                         <div className="text-xs text-muted-foreground truncate">
                           {step.action.substring(0, 50)}...
                         </div>
@@ -26,28 +26,33 @@ import {
   Eye
 } from 'lucide-react'
 import { getGuestSession } from '@/lib/guest-auth'
+import { TestResultStatus, TestRun, TestRunStatus, TestStepResult } from '@/lib/types'
 
-interface StepResult {
-  stepId: string
-  status: 'pass' | 'fail' | 'blocked' | 'skipped' | 'pending'
-  notes: string
-  actualResult: string
-  timestamp: string
-}
-
+// A single test case execution, flattened from its test run
 interface TestExecution {
   id: string
   testCaseId: string
   executedBy: string
   startedAt: string
   completedAt?: string
-  status: 'in_progress' | 'completed' | 'aborted'
-  overallResult: 'pass' | 'fail' | 'blocked' | 'skipped' | 'pending'
-  stepResults: StepResult[]
+  status: TestRunStatus
+  overallResult: TestResultStatus
+  stepResults: TestStepResult[]
   notes: string
-  savedAt: string
 }
 
+const toExecution = (testRun: TestRun): TestExecution => ({
+  id: testRun.id,
+  testCaseId: testRun.results[0]?.testCaseId || '',
+  executedBy: testRun.executedBy,
+  startedAt: testRun.startedAt,
+  completedAt: testRun.completedAt,
+  status: testRun.status,
+  overallResult: testRun.results[0]?.status || 'not_executed',
+  stepResults: testRun.results[0]?.steps || [],
+  notes: testRun.notes || ''
+})
+
 interface TestCase {
   id: string
   title: string
@@ -87,10 +92,11 @@ export default function ExecutionHistory() {
       
       if (executionsResponse.ok) {
         const executionsData = await executionsResponse.json()
-        setExecutions(executionsData.executions)
+        const loadedExecutions: TestExecution[] = executionsData.testRuns.map(toExecution)
+        setExecutions(loadedExecutions)
         
         // Load test case details for the executions
-        const testCaseIds = [...new Set(executionsData.executions.map((exec: TestExecution) => exec.testCaseId))]
+        const testCaseIds = [...new Set(loadedExecutions.map(exec => exec.testCaseId))]
         await loadTestCaseDetails(testCaseIds)
       }
     } catch (error) {
@@ -150,7 +156,7 @@ export default function ExecutionHistory() {
       case 'pass': return <CheckCircle className="h-4 w-4 text-green-500" />
       case 'fail': return <XCircle className="h-4 w-4 text-red-500" />
       case 'blocked': return <AlertCircle className="h-4 w-4 text-orange-500" />
-      case 'pending': return <Clock className="h-4 w-4 text-gray-400" />
+      case 'not_executed': return <Clock className="h-4 w-4 text-gray-400" />
       default: return <Clock className="h-4 w-4 text-gray-400" />
     }
   }
@@ -160,7 +166,7 @@ export default function ExecutionHistory() {
       case 'pass': return 'bg-green-500'
       case 'fail': return 'bg-red-500'
       case 'blocked': return 'bg-orange-500'
-      case 'skipped': return 'bg-gray-500'
+      case 'skip': return 'bg-gray-500'
       default: return 'bg-gray-400'
     }
   }
@@ -197,7 +203,7 @@ export default function ExecutionHistory() {
 
   const getCompletionStats = (execution: TestExecution) => {
     const total = execution.stepResults.length
-    const completed = execution.stepResults.filter(step => step.status !== 'pending').length
+    const completed = execution.stepResults.filter(step => step.status !== 'not_executed').length
     const passed = execution.stepResults.filter(step => step.status === 'pass').length
     const failed = execution.stepResults.filter(step => step.status === 'fail').length
     
@@ -322,7 +328,8 @@ export default function ExecutionHistory() {
                 <SelectItem value="pass">Passed</SelectItem>
                 <SelectItem value="fail">Failed</SelectItem>
                 <SelectItem value="blocked">Blocked</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="partial">Partial</SelectItem>
+                <SelectItem value="not_executed">Not Executed</SelectItem>
               </SelectContent>
             </Select>
           </div>
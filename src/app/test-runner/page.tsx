@@ -43,9 +43,11 @@ import {
   History,
   Calendar,
   TrendingUp,
-  Activity
+  Activity,
+  ClipboardList
 } from 'lucide-react'
 import { getGuestSession } from '@/lib/guest-auth'
+import { AssignedTest } from '@/lib/run-assignments'
 
 interface TestCase {
   id: string
@@ -86,6 +88,8 @@ export default function TestRunnerDashboard() {
   })
   const [loading, setLoading] = useState(true)
   const [dateRange, setDateRange] = useState('last7days')
+  const [assignedTests, setAssignedTests] = useState<AssignedTest[]>([])
+  const [testCaseTitles, setTestCaseTitles] = useState<Map<string, string>>(new Map())
   
   // Mock data for charts
   const [executionTrend, setExecutionTrend] = useState([
@@ -111,21 +115,27 @@ export default function TestRunnerDashboard() {
       return
     }
     setGuestSession(session)
-    loadDashboardData()
+    loadDashboardData(session.name)
   }, [router])
 
-  const loadDashboardData = async () => {
+  const loadDashboardData = async (assignee: string) => {
     setLoading(true)
     try {
-      const [testCasesRes, testPlansRes, statsRes] = await Promise.all([
+      const [testCasesRes, testPlansRes, statsRes, assignedRes] = await Promise.all([
         fetch('/api/testcases'),
         fetch('/api/testplans'),
-        fetch('/api/test-runner/stats')
+        fetch('/api/test-runner/stats'),
+        fetch(`/api/test-runner/assigned?assignee=${encodeURIComponent(assignee)}`)
       ])
 
       if (testCasesRes.ok) {
-        const cases = await testCasesRes.json()
+        const cases: TestCase[] = await testCasesRes.json()
         setTestCases(cases.slice(0, 10)) // Show first 10 for quick access
+        setTestCaseTitles(new Map(cases.map(testCase => [testCase.id, testCase.title])))
+      }
+
+      if (assignedRes.ok) {
+        setAssignedTests(await assignedRes.json())
       }
 
       if (testPlansRes.ok) {
@@ -291,6 +301,50 @@ export default function TestRunnerDashboard() {
         </CardContent>
       </Card>
 
+      {/* My Assigned Tests */}
+      {assignedTests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>My Assigned Tests</CardTitle>
+                <CardDescription>
+                  {assignedTests.filter(test => test.status === 'not_executed').length} of {assignedTests.length} test cases assigned to you in open runs still to execute
+                </CardDescription>
+              </div>
+              <ClipboardList className="h-5 w-5 text-muted-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {assignedTests.map(test => (
+              <div key={`${test.testRunId}-${test.testCaseId}-${test.configuration || ''}`} className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent transition-colors">
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium truncate">{testCaseTitles.get(test.testCaseId) || test.testCaseId}</h4>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="outline" className="text-xs">
+                      {test.status === 'not_executed' ? 'to do' : test.status}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {test.testRunName}{test.configuration && ` · ${test.configuration}`}
+                    </span>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant={test.status === 'not_executed' ? 'default' : 'outline'}
+                  onClick={() => router.push(`/test-runner/execute/${test.testCaseId}?run=${test.testRunId}${
+                    test.configuration ? `&configuration=${encodeURIComponent(test.configuration)}` : ''
+                  }`)}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  {test.status === 'not_executed' ? 'Run' : 'Rerun'}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -39,12 +39,27 @@ import {
   XCircle,
   AlertCircle,
   FileText,
-  Filter
+  Filter,
+  Bot,
+  User
 } from 'lucide-react'
+import { UnmappedTestsCard } from '@/components/testcases/UnmappedTestsCard'
+import { WorkloadCard } from '@/components/testruns/WorkloadCard'
+import { TestRunStats, TimeRange } from '@/lib/stats-types'
+
+const TIME_RANGES: Record<string, TimeRange> = {
+  today: 'today',
+  last7days: 'week',
+  last30days: 'month',
+  last90days: 'quarter',
+  custom: 'all'
+}
 
 export default function ReportsPage() {
   const [dateRange, setDateRange] = useState('last7days')
   const [loading, setLoading] = useState(true)
+  const [bySource, setBySource] = useState<TestRunStats['bySource'] | null>(null)
+  const [byConfiguration, setByConfiguration] = useState<TestRunStats['byConfiguration']>([])
   
   // Mock data for charts
   const executionTrendData = [
@@ -84,6 +99,23 @@ export default function ReportsPage() {
     setTimeout(() => setLoading(false), 1000)
   }, [])
 
+  const loadSourceStats = async () => {
+    try {
+      const response = await fetch(`/api/dashboard/stats?timeRange=${TIME_RANGES[dateRange] || 'week'}`)
+      if (response.ok) {
+        const stats = await response.json()
+        setBySource(stats.testRuns.bySource)
+        setByConfiguration(stats.testRuns.byConfiguration || [])
+      }
+    } catch (error) {
+      console.error('Failed to load manual and automated results:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadSourceStats()
+  }, [dateRange])  // eslint-disable-line react-hooks/exhaustive-deps
+
   const calculateMetrics = () => {
     const total = testCaseStatusData.reduce((sum, item) => sum + item.value, 0)
     const passed = testCaseStatusData.find(item => item.name === 'Passed')?.value || 0
@@ -226,6 +258,66 @@ export default function ReportsPage() {
         </Card>
       </div>
 
+      {/* Manual and automated outcomes */}
+      <div className="grid gap-4 lg:grid-cols-2 mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Manual vs Automated</CardTitle>
+            <CardDescription>Results of manual runs and of imported JUnit reports</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {bySource ? (
+              <div className="grid grid-cols-2 gap-4">
+                {([['manual', 'Manual', User], ['automated', 'Automated', Bot]] as const).map(([source, label, Icon]) => (
+                  <div key={source} className="rounded-lg border p-4">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Icon className="h-4 w-4 text-muted-foreground" />
+                      {label}
+                    </div>
+                    <div className="text-2xl font-bold mt-2">{bySource[source].passRate}%</div>
+                    <p className="text-xs text-muted-foreground">
+                      Pass rate over {bySource[source].results} results in {bySource[source].runs} runs
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No run statistics available.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <UnmappedTestsCard onLinked={loadSourceStats} />
+      </div>
+
+      {/* Outcomes of runs of plans with a configuration matrix */}
+      {byConfiguration.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Pass Rate by Configuration</CardTitle>
+            <CardDescription>Results of each configuration in runs of plans with a configuration matrix</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {byConfiguration.map(item => (
+                <div key={item.configuration} className="rounded-lg border p-4">
+                  <div className="text-sm font-medium truncate" title={item.configuration}>{item.configuration}</div>
+                  <div className="text-2xl font-bold mt-2">{item.passRate}%</div>
+                  <p className="text-xs text-muted-foreground">
+                    {item.executed} of {item.slots} executed · {item.failed} failed in {item.runs} runs
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Progress of the testers a run is split across */}
+      <div className="mb-8">
+        <WorkloadCard />
+      </div>
+
       <Tabs defaultValue="overview" className="space-y-4">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
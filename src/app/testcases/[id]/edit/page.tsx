@@ -21,7 +21,10 @@ import {
   ExternalLink,
   AlertTriangle
 } from 'lucide-react'
-import { TestCase, TestStep } from '@/lib/types'
+import { CustomFieldValues, SharedStep, TestCase, TestParameters, TestStep } from '@/lib/types'
+import { GitConflictBanner } from '@/components/testcases/GitConflictBanner'
+import { TestDataTableEditor } from '@/components/testcases/TestDataTableEditor'
+import { CustomFieldsEditor } from '@/components/shared/CustomFieldsEditor'
 
 interface FormData {
   title: string
@@ -37,6 +40,8 @@ interface StepFormData {
   id: string
   action: string
   expectedResult: string
+  sharedStepId?: string
+  sharedStepVersion?: number
 }
 
 const priorityOptions = [
@@ -76,7 +81,11 @@ export default function EditTestCasePage() {
   })
   
   const [steps, setSteps] = useState<StepFormData[]>([])
+  const [parameters, setParameters] = useState<TestParameters | undefined>(undefined)
+  const [customFields, setCustomFields] = useState<CustomFieldValues | undefined>(undefined)
+  const [sharedSteps, setSharedSteps] = useState<SharedStep[]>([])
   const [tagInput, setTagInput] = useState('')
+  const [changeSummary, setChangeSummary] = useState('')
   const [hasChanges, setHasChanges] = useState(false)
 
   // Check authentication
@@ -93,9 +102,21 @@ export default function EditTestCasePage() {
     
     if (testCaseId) {
       loadTestCase()
+      loadSharedSteps()
     }
   }, [session, status, router, testCaseId])
 
+  const loadSharedSteps = async () => {
+    try {
+      const response = await fetch('/api/shared-steps')
+      if (response.ok) {
+        setSharedSteps(await response.json())
+      }
+    } catch (err) {
+      console.error('Failed to load shared steps:', err)
+    }
+  }
+
   const loadTestCase = async () => {
     try {
       setLoading(true)
@@ -124,8 +145,12 @@ export default function EditTestCasePage() {
       setSteps(data.steps.map((step: TestStep) => ({
         id: step.id,
         action: step.action,
-        expectedResult: step.expectedResult
+        expectedResult: step.expectedResult,
+        sharedStepId: step.sharedStepId,
+        sharedStepVersion: step.sharedStepVersion
       })))
+      setParameters(data.parameters)
+      setCustomFields(data.customFields)
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load test case')
@@ -139,6 +164,16 @@ export default function EditTestCasePage() {
     setHasChanges(true)
   }
 
+  const handleParametersChange = (value: TestParameters | undefined) => {
+    setParameters(value)
+    setHasChanges(true)
+  }
+
+  const handleCustomFieldsChange = (value: CustomFieldValues | undefined) => {
+    setCustomFields(value)
+    setHasChanges(true)
+  }
+
   const handleStepChange = (index: number, field: keyof Omit<StepFormData, 'id'>, value: string) => {
     const newSteps = [...steps]
     newSteps[index] = { ...newSteps[index], [field]: value }
@@ -156,6 +191,24 @@ export default function EditTestCasePage() {
     setHasChanges(true)
   }
 
+  const addSharedStep = (sharedStepId: string) => {
+    const newStep: StepFormData = {
+      id: `step-${steps.length + 1}`,
+      action: '',
+      expectedResult: '',
+      sharedStepId
+    }
+    setSteps([...steps, newStep])
+    setHasChanges(true)
+  }
+
+  const pinSharedStep = (index: number, version: string) => {
+    const newSteps = [...steps]
+    newSteps[index] = { ...newSteps[index], sharedStepVersion: version === 'latest' ? undefined : Number(version) }
+    setSteps(newSteps)
+    setHasChanges(true)
+  }
+
   const removeStep = (index: number) => {
     if (steps.length > 1) {
       setSteps(steps.filter((_, i) => i !== index))
@@ -210,7 +263,7 @@ export default function EditTestCasePage() {
       return false
     }
     
-    if (steps.some(step => !step.action.trim() || !step.expectedResult.trim())) {
+    if (steps.some(step => !step.sharedStepId && (!step.action.trim() || !step.expectedResult.trim()))) {
       setError('All test steps must have both action and expected result')
       return false
     }
@@ -227,12 +280,21 @@ export default function EditTestCasePage() {
     try {
       const githubIssue = formData.githubIssueUrl ? parseGitHubIssue(formData.githubIssueUrl) : undefined
       
-      const testSteps: TestStep[] = steps.map((step, index) => ({
-        id: step.id,
-        stepNumber: index + 1,
-        action: step.action.trim(),
-        expectedResult: step.expectedResult.trim()
-      }))
+      const testSteps: TestStep[] = steps.map((step, index) => step.sharedStepId
+        ? {
+            id: step.id,
+            stepNumber: index + 1,
+            action: '',
+            expectedResult: '',
+            sharedStepId: step.sharedStepId,
+            ...(step.sharedStepVersion ? { sharedStepVersion: step.sharedStepVersion } : {})
+          }
+        : {
+            id: step.id,
+            stepNumber: index + 1,
+            action: step.action.trim(),
+            expectedResult: step.expectedResult.trim()
+          })
       
       const updatedTestCase: TestCase = {
         ...testCase,
@@ -243,6 +305,8 @@ export default function EditTestCasePage() {
         expectedResult: formData.expectedResult.trim(),
         priority: formData.priority,
         tags: formData.tags,
+        parameters,
+        customFields,
         githubIssue: githubIssue,
         updatedAt: new Date().toISOString()
       }
@@ -250,7 +314,10 @@ export default function EditTestCasePage() {
       const response = await fetch(`/api/testcases/${testCaseId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updatedTestCase)
+        body: JSON.stringify({
+          ...updatedTestCase,
+          changeSummary: changeSummary.trim() || undefined
+        })
       })
       
       if (!response.ok) {
@@ -291,6 +358,8 @@ export default function EditTestCasePage() {
         <Navigation />
         <main className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
           <div className="px-4 py-6 sm:px-0">
+            {/* A file left in conflict by a pull can't be loaded until it is resolved */}
+            <GitConflictBanner testCaseId={testCaseId} onResolved={loadTestCase} />
             <Card>
               <CardContent className="text-center py-12">
                 <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-red-500" />
@@ -364,6 +433,8 @@ export default function EditTestCasePage() {
               )}
             </div>
             
+            <GitConflictBanner testCaseId={testCaseId} onResolved={loadTestCase} />
+
             {hasChanges && (
               <div className="bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 rounded-md p-4">
                 <div className="flex items-center">
@@ -539,10 +610,26 @@ export default function EditTestCasePage() {
                     <CardTitle>Test Steps</CardTitle>
                     <CardDescription>Update the step-by-step actions and expected results</CardDescription>
                   </div>
-                  <Button onClick={addStep}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Step
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    {sharedSteps.length > 0 && (
+                      <Select value="" onValueChange={addSharedStep}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Insert shared step" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sharedSteps.map(sharedStep => (
+                            <SelectItem key={sharedStep.id} value={sharedStep.id}>
+                              {sharedStep.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button onClick={addStep}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Step
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -579,37 +666,61 @@ export default function EditTestCasePage() {
                         </div>
                       </div>
                       
-                      <div className="space-y-3">
-                        <div>
-                          <Label htmlFor={`action-${index}`}>Action *</Label>
-                          <Textarea
-                            id={`action-${index}`}
-                            value={step.action}
-                            onChange={(e) => handleStepChange(index, 'action', e.target.value)}
-                            placeholder="Describe the action to be performed"
-                            rows={2}
-                          />
+                      {step.sharedStepId ? (
+                        <SharedStepReferenceEditor
+                          step={step}
+                          sharedStep={sharedSteps.find(sharedStep => sharedStep.id === step.sharedStepId)}
+                          onPin={(version) => pinSharedStep(index, version)}
+                        />
+                      ) : (
+                        <div className="space-y-3">
+                          <div>
+                            <Label htmlFor={`action-${index}`}>Action *</Label>
+                            <Textarea
+                              id={`action-${index}`}
+                              value={step.action}
+                              onChange={(e) => handleStepChange(index, 'action', e.target.value)}
+                              placeholder="Describe the action to be performed"
+                              rows={2}
+                            />
+                          </div>
+                          
+                          <div>
+                            <Label htmlFor={`expected-${index}`}>Expected Result *</Label>
+                            <Textarea
+                              id={`expected-${index}`}
+                              value={step.expectedResult}
+                              onChange={(e) => handleStepChange(index, 'expectedResult', e.target.value)}
+                              placeholder="Describe the expected outcome"
+                              rows={2}
+                            />
+                          </div>
                         </div>
-                        
-                        <div>
-                          <Label htmlFor={`expected-${index}`}>Expected Result *</Label>
-                          <Textarea
-                            id={`expected-${index}`}
-                            value={step.expectedResult}
-                            onChange={(e) => handleStepChange(index, 'expectedResult', e.target.value)}
-                            placeholder="Describe the expected outcome"
-                            rows={2}
-                          />
-                        </div>
-                      </div>
+                      )}
                     </div>
                   ))}
                 </div>
               </CardContent>
             </Card>
 
+            {/* Test Data */}
+            <TestDataTableEditor value={parameters} onChange={handleParametersChange} />
+
+            {/* Custom Fields */}
+            <CustomFieldsEditor entityType="testCase" value={customFields} onChange={handleCustomFieldsChange} />
+
             {/* Actions */}
-            <div className="flex gap-4 justify-end">
+            <div className="flex gap-4 justify-end items-end">
+              <div className="flex-1 max-w-md">
+                <Label htmlFor="changeSummary">Change summary</Label>
+                <Input
+                  id="changeSummary"
+                  value={changeSummary}
+                  onChange={(e) => setChangeSummary(e.target.value)}
+                  placeholder="Describe what changed (optional)"
+                  className="mt-1"
+                />
+              </div>
               <Button variant="outline" onClick={handleCancel}>
                 Cancel
               </Button>
@@ -632,4 +743,51 @@ export default function EditTestCasePage() {
       </main>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// A step that runs a shared step: its steps are shown read-only and it can be pinned to a version
+function SharedStepReferenceEditor({
+  step,
+  sharedStep,
+  onPin
+}: {
+  step: StepFormData
+  sharedStep?: SharedStep
+  onPin: (version: string) => void
+}) {
+  if (!sharedStep) {
+    return <p className="text-sm text-red-600">Shared step {step.sharedStepId} was not found</p>
+  }
+
+  const versions = Array.from({ length: sharedStep.version }, (_, i) => sharedStep.version - i)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <Badge variant="outline">Shared step</Badge>
+          <span className="ml-2 font-medium">{sharedStep.title}</span>
+        </div>
+        <Select value={step.sharedStepVersion ? String(step.sharedStepVersion) : 'latest'} onValueChange={onPin}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="latest">Latest (version {sharedStep.version})</SelectItem>
+            {versions.map(version => (
+              <SelectItem key={version} value={String(version)}>Pinned to version {version}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <ol className="list-decimal list-inside text-sm text-muted-foreground space-y-1">
+        {sharedStep.steps.map(sharedStepStep => (
+          <li key={sharedStepStep.id}>{sharedStepStep.action}</li>
+        ))}
+      </ol>
+      {step.sharedStepVersion && step.sharedStepVersion !== sharedStep.version && (
+        <p className="text-xs text-muted-foreground">The steps above are the latest version; runs use version {step.sharedStepVersion}.</p>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useParams } from 'next/navigation'
+import Link from 'next/link'
 import { Navigation } from '@/components/layout/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -16,10 +17,17 @@ import {
   Calendar,
   User,
   Loader2,
-  AlertTriangle
+  AlertTriangle,
+  Trash2
 } from 'lucide-react'
-import { TestCase } from '@/lib/types'
+import { ExpandedTestCase } from '@/lib/shared-steps'
+import { Requirement } from '@/lib/types'
+import { RevisionHistory } from '@/components/testcases/RevisionHistory'
+import { ReviewPanel } from '@/components/testcases/ReviewPanel'
+import { MoveToTrashModal } from '@/components/modals/MoveToTrashModal'
 import { sanitizeContent, sanitizeHTML } from '@/lib/sanitize'
+import { withReview } from '@/lib/test-case-review'
+import { isParameterized } from '@/lib/test-parameters'
 
 export default function TestCaseDetailPage() {
   const { data: session, status } = useSession()
@@ -27,9 +35,12 @@ export default function TestCaseDetailPage() {
   const params = useParams()
   const testCaseId = params.id as string
   
-  const [testCase, setTestCase] = useState<TestCase | null>(null)
+  // Shared steps are shown inline, as they are executed
+  const [testCase, setTestCase] = useState<ExpandedTestCase | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [showDeleteModal, setShowDeleteModal] = useState(false)
+  const [requirements, setRequirements] = useState<Requirement[]>([])
 
   // Check authentication
   useEffect(() => {
@@ -53,13 +64,16 @@ export default function TestCaseDetailPage() {
       setLoading(true)
       setError(null)
       
-      const response = await fetch(`/api/testcases/${testCaseId}`)
+      const response = await fetch(`/api/testcases/${testCaseId}?expand=sharedSteps`)
       if (!response.ok) {
         throw new Error('Failed to load test case')
       }
       
       const data = await response.json()
       setTestCase(data)
+
+      const requirementsResponse = await fetch(`/api/requirements?testCaseId=${encodeURIComponent(testCaseId)}`)
+      setRequirements(requirementsResponse.ok ? await requirementsResponse.json() : [])
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load test case')
@@ -160,6 +174,10 @@ export default function TestCaseDetailPage() {
                   <Edit className="h-4 w-4 mr-2" />
                   Edit
                 </Button>
+                <Button variant="outline" onClick={() => setShowDeleteModal(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
                 <Button onClick={() => router.push(`/testcases/${testCase.id}/run`)}>
                   <Play className="h-4 w-4 mr-2" />
                   Run Test
@@ -223,6 +241,17 @@ export default function TestCaseDetailPage() {
                     </div>
                   </div>
                 )}
+
+                {testCase.automatedTests && testCase.automatedTests.length > 0 && (
+                  <div>
+                    <h3 className="font-medium mb-2">Automated Tests</h3>
+                    <ul className="space-y-1">
+                      {testCase.automatedTests.map(testId => (
+                        <li key={testId} className="text-sm font-mono text-muted-foreground">{testId}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -243,6 +272,11 @@ export default function TestCaseDetailPage() {
                           {index + 1}
                         </div>
                         <h3 className="font-medium">Step {index + 1}</h3>
+                        {step.sharedStepTitle && (
+                          <Badge variant="outline">
+                            {step.sharedStepTitle} · version {step.sharedStepVersion}
+                          </Badge>
+                        )}
                       </div>
                       
                       <div className="ml-11 space-y-3">
@@ -262,6 +296,64 @@ export default function TestCaseDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Test Data */}
+            {isParameterized(testCase) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Test Data ({testCase.parameters.rows.length} rows)</CardTitle>
+                  <CardDescription>
+                    The steps are executed once per row
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        {testCase.parameters.names.map(name => (
+                          <th key={name} className="text-left font-medium p-2"><code>{name}</code></th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {testCase.parameters.rows.map(row => (
+                        <tr key={row.id} className="border-b last:border-0">
+                          {testCase.parameters.names.map(name => (
+                            <td key={name} className="p-2 text-muted-foreground">{row.values[name]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            )}
+
+            <ReviewPanel
+              testCase={testCase}
+              onReviewed={reviewed => setTestCase(current => current && withReview(current, reviewed))}
+            />
+
+            {/* Requirements covered by the test case */}
+            {requirements.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Requirements ({requirements.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-1 text-sm">
+                    {requirements.map(requirement => (
+                      <li key={requirement.id}>
+                        <Link href="/requirements" className="underline">
+                          <span className="font-mono text-xs text-muted-foreground mr-2">{requirement.id}</span>
+                          {requirement.title}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Metadata */}
             <Card>
               <CardHeader>
@@ -300,9 +392,21 @@ export default function TestCaseDetailPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Revision History */}
+            <RevisionHistory testCaseId={testCase.id} onRestored={setTestCase} />
           </div>
         </div>
       </main>
+
+      <MoveToTrashModal
+        open={showDeleteModal}
+        onOpenChange={setShowDeleteModal}
+        entityType="testCase"
+        entityId={testCase.id}
+        entityName={testCase.title}
+        onDeleted={() => router.push('/testcases')}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -23,7 +23,12 @@ import {
   Save,
   ExternalLink
 } from 'lucide-react'
-import { TestCase, TestRun, TestResult, TestStepResult } from '@/lib/types'
+import { TestRun, TestResult, TestStepResult } from '@/lib/types'
+import { ExpandedTestCase, ExpandedTestStep } from '@/lib/shared-steps'
+import { RunStep, getRunSteps, groupRunStepResults } from '@/lib/test-parameters'
+
+// Parameterized test cases list their steps once per data row, with the row's values filled in
+type RunnableTestCase = Omit<ExpandedTestCase, 'steps'> & { steps: RunStep<ExpandedTestStep>[] }
 
 export default function TestCaseRunnerPage() {
   const { data: session, status } = useSession()
@@ -32,7 +37,7 @@ export default function TestCaseRunnerPage() {
   const testCaseId = params.id as string
   
   // Core state
-  const [testCase, setTestCase] = useState<TestCase | null>(null)
+  const [testCase, setTestCase] = useState<RunnableTestCase | null>(null)
   const [testRun, setTestRun] = useState<TestRun | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -72,15 +77,16 @@ export default function TestCaseRunnerPage() {
       setLoading(true)
       setError(null)
       
-      const response = await fetch(`/api/testcases/${testCaseId}`)
+      const response = await fetch(`/api/testcases/${testCaseId}?expand=sharedSteps`)
       if (!response.ok) {
         throw new Error('Failed to load test case')
       }
-      const testCaseData = await response.json()
-      setTestCase(testCaseData)
+      const testCaseData: ExpandedTestCase = await response.json()
+      const runnable = { ...testCaseData, steps: getRunSteps(testCaseData) }
+      setTestCase(runnable)
       
       // Initialize test result
-      initializeTestResult(testCaseData)
+      initializeTestResult(runnable)
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load test case')
@@ -89,13 +95,14 @@ export default function TestCaseRunnerPage() {
     }
   }
 
-  const initializeTestResult = (testCaseData: TestCase) => {
+  const initializeTestResult = (testCaseData: RunnableTestCase) => {
     const result: TestResult = {
       testCaseId: testCaseData.id,
       status: 'skip',
       executedAt: '',
       steps: testCaseData.steps.map(step => ({
         stepId: step.id,
+        ...(step.sharedStepVersion ? { sharedStepVersion: step.sharedStepVersion } : {}),
         status: 'skip'
       }))
     }
@@ -123,7 +130,7 @@ export default function TestCaseRunnerPage() {
   }
 
   const completeTestRun = async () => {
-    if (!testRun || !testResult) return
+    if (!testRun || !testResult || !testCase) return
     
     setSaving(true)
     try {
@@ -131,7 +138,8 @@ export default function TestCaseRunnerPage() {
         ...testRun,
         completedAt: new Date().toISOString(),
         status: 'completed' as const,
-        results: [testResult]
+        // One iteration per data row for parameterized test cases
+        results: [{ ...testResult, ...groupRunStepResults(testCase, testCase.steps, testResult.steps) }]
       }
       
       // Save test run via API
@@ -166,6 +174,7 @@ export default function TestCaseRunnerPage() {
     // Update step result
     const stepResult: TestStepResult = {
       stepId: currentStep.id,
+      ...(currentStep.sharedStepVersion ? { sharedStepVersion: currentStep.sharedStepVersion } : {}),
       status: status,
       notes: currentStepNotes.trim() || undefined
     }
@@ -421,6 +430,16 @@ export default function TestCaseRunnerPage() {
                       {currentStep && (
                         <div className="border rounded-lg p-4 bg-blue-50 dark:bg-blue-950/20">
                           <div className="space-y-3">
+                            {currentStep.rowLabel && (
+                              <p className="text-xs text-gray-600 dark:text-gray-400">
+                                Data row: <code>{currentStep.rowLabel}</code>
+                              </p>
+                            )}
+                            {currentStep.sharedStepTitle && (
+                              <p className="text-xs text-gray-600 dark:text-gray-400">
+                                Shared step: {currentStep.sharedStepTitle} (version {currentStep.sharedStepVersion})
+                              </p>
+                            )}
                             <div>
                               <span className="font-medium text-sm">Action:</span>
                               <p className="text-gray-700 dark:text-gray-300 mt-1">{currentStep.action}</p>
@@ -515,7 +534,7 @@ export default function TestCaseRunnerPage() {
                     <div className="space-y-3">
                       {testCase.steps.map((step, index) => (
                         <div 
-                          key={step.id}
+                          key={`${step.rowId || ''}:${step.id}`}
                           className={`p-3 rounded-lg border ${
                             index === currentStepIndex 
                               ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20' 
@@ -528,6 +547,12 @@ export default function TestCaseRunnerPage() {
                             </span>
                             {getStatusIcon(testResult?.steps[index]?.status || 'skip')}
                           </div>
+                          {step.rowLabel && (
+                            <p className="text-xs text-gray-500 mb-1">{step.rowLabel}</p>
+                          )}
+                          {step.sharedStepTitle && (
+                            <p className="text-xs text-gray-500 mb-1">{step.sharedStepTitle}</p>
+                          )}
                           <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
                             {step.action}
                           </p>
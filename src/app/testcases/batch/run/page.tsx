@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { useSession } from 'next-auth/react'
 import { Navigation } from '@/components/layout/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -18,7 +19,8 @@ import {
   Download,
   Loader2
 } from 'lucide-react'
-import { TestCase } from '@/lib/types'
+import { TestCase, TestRun } from '@/lib/types'
+import { BATCH_RUN_PLAN_ID, normalizeResultStatus, normalizeStepStatus } from '@/lib/test-runs'
 
 interface BatchTestResult {
   testCaseId: string
@@ -43,6 +45,7 @@ interface BatchExecutionState {
 
 export default function BatchTestRunner() {
   const router = useRouter()
+  const { data: session } = useSession()
   const searchParams = useSearchParams()
   const [testCases, setTestCases] = useState<TestCase[]>([])
   const [loading, setLoading] = useState(true)
@@ -254,19 +257,33 @@ export default function BatchTestRunner() {
 
   const saveBatchResults = async () => {
     try {
-      const batchRunData = {
+      // Saved as a regular test run; legacy 'skipped' statuses are normalized on save
+      const batchRunData: TestRun = {
         id: `batch-${Date.now()}`,
-        type: 'batch_run',
-        timestamp: new Date().toISOString(),
-        title: `Batch Run - ${testCases.length} Test Cases`,
-        description: `Batch execution of ${testCases.length} test cases`,
-        testCases: testCases.map(tc => tc.id),
-        executionState,
-        results: executionState.results,
-        stats: getOverallStats(),
-        duration: executionState.startTime && executionState.endTime 
-          ? executionState.endTime.getTime() - executionState.startTime.getTime()
-          : 0
+        testPlanId: BATCH_RUN_PLAN_ID,
+        name: `Batch Run - ${testCases.length} Test Cases`,
+        startedAt: (executionState.startTime || new Date()).toISOString(),
+        completedAt: executionState.endTime?.toISOString(),
+        status: 'completed',
+        executedBy: session?.user?.name || session?.user?.email || 'Guest',
+        results: executionState.results.map(result => {
+          const testCase = testCases.find(tc => tc.id === result.testCaseId)
+          const executedAt = (result.endTime || result.startTime || new Date()).toISOString()
+          return {
+            testCaseId: result.testCaseId,
+            status: normalizeResultStatus(result.status),
+            executedAt,
+            executionTime: result.startTime && result.endTime
+              ? (result.endTime.getTime() - result.startTime.getTime()) / 1000
+              : undefined,
+            steps: result.stepResults.map(stepResult => ({
+              stepId: testCase?.steps[stepResult.stepIndex]?.id || String(stepResult.stepIndex + 1),
+              status: normalizeStepStatus(stepResult.status),
+              notes: stepResult.notes,
+              executedAt
+            }))
+          }
+        })
       }
 
       const response = await fetch('/api/testruns', {
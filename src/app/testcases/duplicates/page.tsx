@@ -0,0 +1,282 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowLeft, GitMerge, Loader2, X } from 'lucide-react'
+import { TestCase } from '@/lib/types'
+import { DuplicateMatch, MERGE_FIELDS, MergeChoices, MergeField } from '@/lib/duplicates'
+
+type DuplicatePair = DuplicateMatch & { testCases: Array<{ id: string; title: string }> }
+
+interface MergeState {
+  target: TestCase // Kept, under its own ID
+  source: TestCase // Moved to the trash
+  choices: MergeChoices
+}
+
+const THRESHOLDS = ['0.5', '0.6', '0.7', '0.8', '0.9']
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  preconditions: 'Preconditions',
+  steps: 'Steps',
+  expectedResult: 'Expected result',
+  priority: 'Priority'
+}
+
+const describeField = (testCase: TestCase, field: MergeField) => {
+  if (field === 'steps') {
+    return testCase.steps.map(step => `${step.stepNumber}. ${step.action || step.sharedStepId || ''}`).join('\n')
+  }
+  return testCase[field] || '—'
+}
+
+export default function DuplicateTestCasesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [threshold, setThreshold] = useState('0.5')
+  const [duplicates, setDuplicates] = useState<DuplicatePair[]>([])
+  const [merge, setMerge] = useState<MergeState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    fetchDuplicates()
+  }, [threshold])  // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchDuplicates = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/testcases/duplicates?threshold=${threshold}`)
+      if (!response.ok) {
+        throw new Error('Failed to find duplicate test cases')
+      }
+      setDuplicates((await response.json()).duplicates)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find duplicate test cases')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openMerge = async (targetId: string, sourceId: string) => {
+    try {
+      setError(null)
+      setMessage(null)
+      const [targetResponse, sourceResponse] = await Promise.all([
+        fetch(`/api/testcases/${targetId}`),
+        fetch(`/api/testcases/${sourceId}`)
+      ])
+      if (!targetResponse.ok || !sourceResponse.ok) {
+        throw new Error('Failed to load the test cases')
+      }
+      setMerge({ target: await targetResponse.json(), source: await sourceResponse.json(), choices: {} })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the test cases')
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!merge) return
+    if (!confirm(`Merge "${merge.source.title}" into "${merge.target.title}"? It is moved to the trash.`)) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch('/api/testcases/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId: merge.target.id, sourceId: merge.source.id, choices: merge.choices })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge test cases')
+      }
+      setMessage(
+        `Merged into "${data.testCase.title}". Updated ${data.testPlans.length} test plan(s) and ${data.requirements.length} requirement(s).`
+      )
+      setMerge(null)
+      await fetchDuplicates()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge test cases')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" onClick={() => router.push('/testcases')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold text-foreground">Duplicate Test Cases</h1>
+                <p className="mt-2 text-muted-foreground">
+                  Test cases with similar titles, descriptions and steps. Merge them to keep one.
+                </p>
+              </div>
+            </div>
+            <Select value={threshold} onValueChange={setThreshold}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THRESHOLDS.map(value => (
+                  <SelectItem key={value} value={value}>At least {Number(value) * 100}% similar</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-6 bg-success/10 border border-success/20 rounded-md p-4">
+              <p className="text-success">{message}</p>
+            </div>
+          )}
+
+          {merge && (
+            <Card className="mb-6">
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div>
+                  <CardTitle>Merge Test Cases</CardTitle>
+                  <CardDescription>
+                    Choose which version of each field to keep. Tags and custom fields are combined, and plans and
+                    requirements that use the merged test case are pointed to the one kept.
+                  </CardDescription>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setMerge(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 text-sm">
+                  <div />
+                  <div className="font-medium">Keep: {merge.target.title}</div>
+                  <div className="flex items-center justify-between font-medium">
+                    Merge in: {merge.source.title}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMerge({ target: merge.source, source: merge.target, choices: {} })}
+                    >
+                      Swap
+                    </Button>
+                  </div>
+
+                  {MERGE_FIELDS.map(field => {
+                    const choice = merge.choices[field] || 'target'
+                    const setChoice = (value: 'target' | 'source') =>
+                      setMerge({ ...merge, choices: { ...merge.choices, [field]: value } })
+
+                    return [
+                      <div key={`${field}-label`} className="font-medium pt-2">{FIELD_LABELS[field]}</div>,
+                      ...(['target', 'source'] as const).map(side => (
+                        <button
+                          key={`${field}-${side}`}
+                          onClick={() => setChoice(side)}
+                          className={`text-left rounded-md border p-2 whitespace-pre-wrap ${choice === side ? 'border-primary bg-primary/5' : 'border-border'}`}
+                        >
+                          {describeField(merge[side], field)}
+                        </button>
+                      ))
+                    ]
+                  })}
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handleMerge} disabled={busy}>
+                    {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+                    Merge
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Likely Duplicates ({duplicates.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : duplicates.length === 0 ? (
+                <p className="text-center py-12 text-muted-foreground">No duplicates found at this similarity.</p>
+              ) : (
+                <ul className="divide-y">
+                  {duplicates.map(duplicate => {
+                    const [first, second] = duplicate.testCases
+                    return (
+                      <li key={duplicate.testCaseIds.join(':')} className="flex items-center gap-4 py-3">
+                        <Badge variant="outline">{Math.round(duplicate.score * 100)}%</Badge>
+                        <div className="flex-1 min-w-0 text-sm">
+                          <Link href={`/testcases/${first.id}`} className="block truncate underline">{first.title}</Link>
+                          <Link href={`/testcases/${second.id}`} className="block truncate underline">{second.title}</Link>
+                          <div className="text-xs text-muted-foreground">
+                            {Object.entries(duplicate.fields)
+                              .map(([field, score]) => `${FIELD_LABELS[field as MergeField]} ${Math.round(score * 100)}%`)
+                              .join(' · ')}
+                          </div>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => openMerge(first.id, second.id)}>
+                          <GitMerge className="h-4 w-4 mr-2" />
+                          Merge
+                        </Button>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -20,9 +20,12 @@ import {
   Loader2,
   TestTube2,
   ExternalLink,
-  Copy
+  Copy,
+  AlertTriangle
 } from 'lucide-react'
-import { TestCase, TestStep } from '@/lib/types'
+import { CustomFieldValues, TestCase, TestStep } from '@/lib/types'
+import { CustomFieldsEditor } from '@/components/shared/CustomFieldsEditor'
+import { SuiteNode, flattenSuiteTree } from '@/lib/test-suites'
 
 interface FormData {
   title: string
@@ -39,6 +42,9 @@ interface StepFormData {
   expectedResult: string
 }
 
+// Select items can't have an empty value
+const NO_SUITE = '__none__'
+
 const priorityOptions = [
   { value: 'low', label: 'Low', color: 'bg-priority-low/10 text-priority-low border-priority-low/30' },
   { value: 'medium', label: 'Medium', color: 'bg-priority-medium/10 text-priority-medium border-priority-medium/30' },
@@ -102,9 +108,13 @@ export default function NewTestCasePage() {
     { action: '', expectedResult: '' }
   ])
   
+  const [customFields, setCustomFields] = useState<CustomFieldValues | undefined>(undefined)
+  const [suiteTree, setSuiteTree] = useState<SuiteNode[]>([])
+  const [suiteId, setSuiteId] = useState<string>(NO_SUITE)
   const [tagInput, setTagInput] = useState('')
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [duplicates, setDuplicates] = useState<Array<{ score: number; testCases: Array<{ id: string; title: string }> }>>([])
   const [showTemplates, setShowTemplates] = useState(false)
 
   // Check authentication
@@ -119,6 +129,13 @@ export default function NewTestCasePage() {
     }
   }, [session, status, router])
 
+  useEffect(() => {
+    fetch('/api/suites?tree=true')
+      .then(response => response.ok ? response.json() : [])
+      .then(setSuiteTree)
+      .catch(() => setSuiteTree([]))
+  }, [])
+
   const handleFormChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
@@ -196,7 +213,8 @@ export default function NewTestCasePage() {
     return true
   }
 
-  const handleSave = async () => {
+  // Warns about similar existing test cases first, unless saving anyway
+  const handleSave = async (ignoreDuplicates = false) => {
     if (!validateForm()) return
     
     setSaving(true)
@@ -222,11 +240,24 @@ export default function NewTestCasePage() {
         expectedResult: formData.expectedResult.trim(),
         priority: formData.priority,
         tags: formData.tags,
+        customFields,
+        suiteId: suiteId === NO_SUITE ? undefined : suiteId,
         githubIssue: githubIssue,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         createdBy: session?.user?.name || 'Unknown User'
       }
+
+      if (!ignoreDuplicates) {
+        const duplicatesResponse = await fetch('/api/testcases/duplicates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ testCase })
+        })
+        const similar = duplicatesResponse.ok ? (await duplicatesResponse.json()).duplicates : []
+        setDuplicates(similar)
+        if (similar.length > 0) return
+      }
       
       const response = await fetch('/api/testcases', {
         method: 'POST',
@@ -404,6 +435,21 @@ export default function NewTestCasePage() {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div>
+                    <Label htmlFor="suite" className="text-black dark:text-white font-medium">Suite</Label>
+                    <Select value={suiteId} onValueChange={setSuiteId}>
+                      <SelectTrigger id="suite" className="mt-1 bg-background border-2 border-input text-foreground hover:border-ring focus:border-ring focus:ring-2 focus:ring-ring transition-all duration-200">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover border-2 border-border">
+                        <SelectItem value={NO_SUITE}>Not in a suite</SelectItem>
+                        {flattenSuiteTree(suiteTree).map(node => (
+                          <SelectItem key={node.suite.id} value={node.suite.id}>{node.path.join(' / ')}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   
                   <div>
                     <Label htmlFor="githubUrl" className="text-black dark:text-white font-medium">GitHub Issue URL (Optional)</Label>
@@ -583,6 +629,34 @@ export default function NewTestCasePage() {
               </CardContent>
             </Card>
 
+            {/* Custom Fields */}
+            <CustomFieldsEditor entityType="testCase" value={customFields} onChange={setCustomFields} />
+
+            {duplicates.length > 0 && (
+              <div className="bg-warning/10 border-2 border-warning/20 rounded-lg p-4 space-y-2">
+                <p className="font-medium flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-2 text-warning" />
+                  Similar test cases already exist
+                </p>
+                <ul className="text-sm space-y-1">
+                  {duplicates.map(duplicate => {
+                    const existing = duplicate.testCases[1]
+                    return (
+                      <li key={existing.id}>
+                        <a href={`/testcases/${existing.id}`} target="_blank" rel="noopener noreferrer" className="underline">
+                          {existing.title}
+                        </a>
+                        <span className="text-muted-foreground"> · {Math.round(duplicate.score * 100)}% similar</span>
+                      </li>
+                    )
+                  })}
+                </ul>
+                <p className="text-sm text-muted-foreground">
+                  Consider updating one of them instead, or create this test case anyway.
+                </p>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-4 justify-end">
               <Button 
@@ -593,7 +667,7 @@ export default function NewTestCasePage() {
                 Cancel
               </Button>
               <Button 
-                onClick={handleSave} 
+                onClick={() => handleSave(duplicates.length > 0)} 
                 disabled={saving}
                 className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-lg disabled:bg-muted disabled:text-muted-foreground disabled:shadow-none transition-all duration-200"
               >
@@ -605,7 +679,7 @@ export default function NewTestCasePage() {
                 ) : (
                   <>
                     <Save className="h-4 w-4 mr-2" />
-                    Create Test Case
+                    {duplicates.length > 0 ? 'Create Anyway' : 'Create Test Case'}
                   </>
                 )}
               </Button>
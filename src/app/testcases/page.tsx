@@ -10,9 +10,16 @@ import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
-import { TestTube2, Search, Filter, Plus, ExternalLink, Loader2, Play, Edit, Eye, CheckSquare, Square } from 'lucide-react'
+import { TestTube2, Search, Filter, Plus, ExternalLink, Loader2, Play, Edit, Eye, CheckSquare, Square, Copy, Bookmark, X, Layers, Download } from 'lucide-react'
 import { TestCase } from '@/lib/types'
 import { sanitizeContent } from '@/lib/sanitize'
+import { SuiteNode, findSuiteNode, flattenSuiteTree, getSuiteTestCaseIds } from '@/lib/test-suites'
+import { SuiteStats } from '@/lib/stats-types'
+import { SuiteTree, ALL_SUITES, UNFILED } from '@/components/testcases/SuiteTree'
+import { REVIEW_STATUS_COLORS } from '@/components/testcases/ReviewPanel'
+import { REVIEW_STATUSES, REVIEW_STATUS_LABELS, getReviewStatus } from '@/lib/test-case-review'
+import { SavedFilter, SavedFiltersManager } from '@/lib/saved-filters'
+import { BulkEditModal } from '@/components/modals/BulkEditModal'
 
 export default function TestCasesPage() {
   const { data: session, status } = useSession()
@@ -28,10 +35,20 @@ export default function TestCasesPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [priorityFilter, setPriorityFilter] = useState<string>('all')
   const [tagFilter, setTagFilter] = useState<string>('all')
+  const [reviewFilter, setReviewFilter] = useState<string>('all')
+  const [suiteFilter, setSuiteFilter] = useState<string>(ALL_SUITES)
+  const [queryMatches, setQueryMatches] = useState<Set<string> | null>(null)
+  const [queryError, setQueryError] = useState<string | null>(null)
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([])
+
+  // Suites
+  const [suiteTree, setSuiteTree] = useState<SuiteNode[]>([])
+  const [suiteStats, setSuiteStats] = useState<SuiteStats[]>([])
   
   // Batch selection states
   const [selectedTestCases, setSelectedTestCases] = useState<Set<string>>(new Set())
   const [showBatchActions, setShowBatchActions] = useState(false)
+  const [showBulkEdit, setShowBulkEdit] = useState(false)
 
   // Check authentication
   useEffect(() => {
@@ -48,18 +65,43 @@ export default function TestCasesPage() {
   // Fetch test cases
   useEffect(() => {
     fetchTestCases()
+    fetchSuites()
+    setSavedFilters(SavedFiltersManager.getFilters())
+    // Searches linked from elsewhere, e.g. /testcases?q=tag:checkout
+    setSearchQuery(new URLSearchParams(window.location.search).get('q') || '')
   }, [])
 
+  // Search on the server, which understands the search syntax and searches steps too
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setQueryMatches(null)
+      setQueryError(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/testcases?q=${encodeURIComponent(searchQuery)}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to search test cases')
+        }
+        setQueryMatches(new Set((data as TestCase[]).map(testCase => testCase.id)))
+        setQueryError(null)
+      } catch (err) {
+        setQueryError(err instanceof Error ? err.message : 'Failed to search test cases')
+      }
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery, testCases])
+
   // Apply filters
   useEffect(() => {
     let filtered = testCases
 
     // Search filter
-    if (searchQuery) {
-      filtered = filtered.filter(testCase =>
-        testCase.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        testCase.description.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+    if (queryMatches) {
+      filtered = filtered.filter(testCase => queryMatches.has(testCase.id))
     }
 
     // Priority filter
@@ -72,8 +114,22 @@ export default function TestCasesPage() {
       filtered = filtered.filter(testCase => testCase.tags.includes(tagFilter))
     }
 
+    // Review status filter
+    if (reviewFilter !== 'all') {
+      filtered = filtered.filter(testCase => getReviewStatus(testCase) === reviewFilter)
+    }
+
+    // Suite filter, including nested suites
+    if (suiteFilter === UNFILED) {
+      filtered = filtered.filter(testCase => !testCase.suiteId)
+    } else if (suiteFilter !== ALL_SUITES) {
+      const node = findSuiteNode(suiteTree, suiteFilter)
+      const ids = new Set(node ? getSuiteTestCaseIds(node) : [])
+      filtered = filtered.filter(testCase => ids.has(testCase.id))
+    }
+
     setFilteredTestCases(filtered)
-  }, [testCases, searchQuery, priorityFilter, tagFilter])
+  }, [testCases, queryMatches, priorityFilter, tagFilter, reviewFilter, suiteFilter, suiteTree])
 
   const fetchTestCases = async () => {
     try {
@@ -95,6 +151,54 @@ export default function TestCasesPage() {
     }
   }
 
+  const handleSaveFilter = () => {
+    const name = prompt('Name this filter', searchQuery)?.trim()
+    if (name) {
+      setSavedFilters(SavedFiltersManager.saveFilter(name, searchQuery.trim()))
+    }
+  }
+
+  const fetchSuites = async () => {
+    try {
+      const treeResponse = await fetch('/api/suites?tree=true')
+      const statsResponse = await fetch('/api/suites/stats')
+      if (treeResponse.ok) setSuiteTree(await treeResponse.json())
+      if (statsResponse.ok) setSuiteStats(await statsResponse.json())
+    } catch (err) {
+      console.error('Failed to fetch test suites:', err)
+    }
+  }
+
+  const handleMoveToSuite = async (suiteId: string) => {
+    const ids = Array.from(selectedTestCases)
+    const removing = suiteId === UNFILED
+
+    try {
+      setError(null)
+      // Removing takes the cases out of whichever suite they are in
+      const targets = removing
+        ? [...new Set(testCases.filter(tc => selectedTestCases.has(tc.id) && tc.suiteId).map(tc => tc.suiteId as string))]
+        : [suiteId]
+
+      for (const target of targets) {
+        const response = await fetch(`/api/suites/${target}/testcases`, {
+          method: removing ? 'DELETE' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ testCaseIds: ids })
+        })
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || 'Failed to move test cases')
+        }
+      }
+
+      await fetchTestCases()
+      await fetchSuites()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move test cases')
+    }
+  }
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical': return 'bg-priority-critical/10 text-priority-critical border-priority-critical/20'
@@ -181,6 +285,10 @@ export default function TestCasesPage() {
                 </p>
               </div>
               <div className="flex gap-2">
+                <Button variant="outline" onClick={() => router.push('/testcases/duplicates')}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Find Duplicates
+                </Button>
                 <Button variant="outline" onClick={() => router.push('/testcases/new')}>
                   <TestTube2 className="h-4 w-4 mr-2" />
                   Create Test Case
@@ -229,6 +337,29 @@ export default function TestCasesPage() {
                   </div>
                   {selectedTestCases.size > 0 && (
                     <div className="flex gap-2">
+                      <Select value="" onValueChange={handleMoveToSuite}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Move to suite..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNFILED}>Not in a suite</SelectItem>
+                          {flattenSuiteTree(suiteTree).map(node => (
+                            <SelectItem key={node.suite.id} value={node.suite.id}>
+                              {node.path.join(' / ')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" asChild>
+                        <a href={`/api/testcases/export?format=feature&ids=${Array.from(selectedTestCases).join(',')}`} download>
+                          <Download className="h-4 w-4 mr-2" />
+                          Export .feature
+                        </a>
+                      </Button>
+                      <Button variant="outline" onClick={() => setShowBulkEdit(true)}>
+                        <Layers className="h-4 w-4 mr-2" />
+                        Bulk Edit
+                      </Button>
                       <Button onClick={handleBatchRun}>
                         <Play className="h-4 w-4 mr-2" />
                         Run Selected ({selectedTestCases.size})
@@ -240,6 +371,18 @@ export default function TestCasesPage() {
             </Card>
           )}
 
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div>
+            <SuiteTree
+              tree={suiteTree}
+              stats={suiteStats}
+              selected={suiteFilter}
+              onSelect={setSuiteFilter}
+              onChange={fetchSuites}
+            />
+          </div>
+
+          <div className="lg:col-span-3">
           {/* Filters */}
           <Card className="mb-6">
             <CardHeader>
@@ -254,13 +397,17 @@ export default function TestCasesPage() {
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search test cases..."
+                      placeholder='Search, e.g. priority:high tag:checkout -tag:flaky "login button"'
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
                       className="pl-10"
                     />
                   </div>
                 </div>
+                <Button variant="outline" onClick={handleSaveFilter} disabled={!searchQuery.trim()}>
+                  <Bookmark className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
                 <Select value={priorityFilter} onValueChange={setPriorityFilter}>
                   <SelectTrigger className="w-40">
                     <SelectValue placeholder="Priority" />
@@ -284,7 +431,44 @@ export default function TestCasesPage() {
                     ))}
                   </SelectContent>
                 </Select>
+                <Select value={reviewFilter} onValueChange={setReviewFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Review status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {REVIEW_STATUSES.map(reviewStatus => (
+                      <SelectItem key={reviewStatus} value={reviewStatus}>{REVIEW_STATUS_LABELS[reviewStatus]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+              {queryError && (
+                <p className="mt-3 text-sm text-destructive">{queryError}</p>
+              )}
+              {savedFilters.length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Saved filters:</span>
+                  {savedFilters.map(filter => (
+                    <Badge
+                      key={filter.id}
+                      variant={searchQuery.trim() === filter.query ? 'default' : 'outline'}
+                      className="cursor-pointer gap-1"
+                      title={filter.query}
+                      onClick={() => setSearchQuery(filter.query)}
+                    >
+                      {filter.name}
+                      <X
+                        className="h-3 w-3"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setSavedFilters(SavedFiltersManager.removeFilter(filter.id))
+                        }}
+                      />
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -312,7 +496,7 @@ export default function TestCasesPage() {
               </CardContent>
             </Card>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {filteredTestCases.map(testCase => (
                 <Card key={testCase.id} className="hover:shadow-lg transition-shadow">
                   <CardHeader>
@@ -355,9 +539,16 @@ export default function TestCasesPage() {
                   <CardContent>
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
-                        <Badge className={getPriorityColor(testCase.priority)}>
-                          {testCase.priority}
-                        </Badge>
+                        <div className="flex gap-1">
+                          <Badge className={getPriorityColor(testCase.priority)}>
+                            {testCase.priority}
+                          </Badge>
+                          {getReviewStatus(testCase) !== 'approved' && (
+                            <Badge className={REVIEW_STATUS_COLORS[getReviewStatus(testCase)]}>
+                              {REVIEW_STATUS_LABELS[getReviewStatus(testCase)]}
+                            </Badge>
+                          )}
+                        </div>
                         <span className="text-sm text-muted-foreground">
                           {testCase.steps.length} steps
                         </span>
@@ -419,6 +610,8 @@ export default function TestCasesPage() {
               ))}
             </div>
           )}
+          </div>
+          </div>
           
           {/* Summary Stats */}
           {testCases.length > 0 && (
@@ -456,6 +649,16 @@ export default function TestCasesPage() {
           )}
         </div>
       </main>
+
+      <BulkEditModal
+        open={showBulkEdit}
+        onOpenChange={setShowBulkEdit}
+        testCaseIds={Array.from(selectedTestCases)}
+        onApplied={() => {
+          fetchTestCases()
+          fetchSuites()
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Loader2, Play, RefreshCw } from 'lucide-react'
+import { TestCase, TestPlan, TestResultStatus } from '@/lib/types'
+import { ConfigurationMatrix } from '@/lib/configurations'
+
+const CELL_STYLES: Record<TestResultStatus, string> = {
+  pass: 'bg-test-pass/10 text-test-pass',
+  fail: 'bg-test-fail/10 text-test-fail',
+  blocked: 'bg-test-blocked/10 text-test-blocked',
+  partial: 'bg-warning/10 text-warning',
+  skip: 'bg-muted text-muted-foreground',
+  not_executed: 'border border-dashed border-warning/50 text-warning'
+}
+
+// Test cases against the configurations of a plan, showing where each last ran and the gaps left
+export default function ConfigurationMatrixPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const params = useParams()
+  const testPlanId = params.id as string
+
+  const [testPlan, setTestPlan] = useState<TestPlan | null>(null)
+  const [matrix, setMatrix] = useState<ConfigurationMatrix | null>(null)
+  const [titles, setTitles] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    loadMatrix()
+    fetch(`/api/testplans/${testPlanId}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(setTestPlan)
+      .catch(() => setTestPlan(null))
+    fetch('/api/testcases')
+      .then(response => response.ok ? response.json() : [])
+      .then((testCases: TestCase[]) => setTitles(new Map(testCases.map(testCase => [testCase.id, testCase.title]))))
+      .catch(() => setTitles(new Map()))
+  }, [testPlanId])  // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadMatrix = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/testplans/${testPlanId}/matrix`)
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Test plan not found' : 'Failed to load the configuration matrix')
+      }
+      setMatrix(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the configuration matrix')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (status === 'loading' || (loading && !matrix)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const cellCount = matrix ? matrix.rows.length * matrix.configurations.length : 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link href="/testplans">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Test Plans
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold text-foreground">Configuration Matrix</h1>
+                <p className="mt-2 text-muted-foreground">
+                  {testPlan?.name}
+                  {testPlan?.configurationMatrix && ` · ${testPlan.configurationMatrix.map(dimension => dimension.name).join(' × ')}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={loadMatrix} disabled={loading}>
+                {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Refresh
+              </Button>
+              <Button onClick={() => router.push(`/testplans/${testPlanId}/run`)}>
+                <Play className="h-4 w-4 mr-2" />
+                Run
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          {matrix && (matrix.configurations.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12 text-muted-foreground">
+                This test plan has no configuration matrix.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className="text-2xl font-bold">{matrix.configurations.length}</div>
+                    <div className="text-sm text-muted-foreground">Configurations</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className="text-2xl font-bold">{cellCount - matrix.gaps} / {cellCount}</div>
+                    <div className="text-sm text-muted-foreground">Combinations executed</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <div className={`text-2xl font-bold ${matrix.gaps > 0 ? 'text-warning' : 'text-success'}`}>{matrix.gaps}</div>
+                    <div className="text-sm text-muted-foreground">Gaps</div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Latest Result per Configuration</CardTitle>
+                  <CardDescription>Dashed cells are combinations no run has executed yet</CardDescription>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left font-medium p-2">Test Case</th>
+                        {matrix.configurations.map(configuration => (
+                          <th key={configuration.id} className="font-medium p-2 whitespace-nowrap">{configuration.id}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {matrix.rows.map(row => (
+                        <tr key={row.testCaseId} className="border-b">
+                          <td className="p-2">
+                            <Link href={`/testcases/${row.testCaseId}`} className="hover:underline">
+                              {titles.get(row.testCaseId) || row.testCaseId}
+                            </Link>
+                          </td>
+                          {matrix.configurations.map(configuration => {
+                            const cell = row.cells[configuration.id]
+                            return (
+                              <td key={configuration.id} className="p-1 text-center">
+                                <div
+                                  className={`rounded px-2 py-1 text-xs ${CELL_STYLES[cell.status]}`}
+                                  title={cell.executedAt ? new Date(cell.executedAt).toLocaleString() : 'Not executed'}
+                                >
+                                  {cell.status === 'not_executed' ? 'gap' : cell.status}
+                                </div>
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr>
+                        <td className="p-2 font-medium">Pass rate</td>
+                        {matrix.summary.map(column => (
+                          <td key={column.configuration} className="p-2 text-center">
+                            <div className="font-medium">{column.executed > 0 ? `${column.passRate}%` : '—'}</div>
+                            {column.gaps > 0 && <div className="text-xs text-warning">{column.gaps} gaps</div>}
+                          </td>
+                        ))}
+                      </tr>
+                    </tfoot>
+                  </table>
+                </CardContent>
+              </Card>
+            </>
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
 import { 
   ArrowLeft, 
   Play, 
@@ -21,9 +22,21 @@ import {
   User,
   Calendar,
   Loader2,
-  Save
+  Save,
+  Users
 } from 'lucide-react'
-import { TestPlan, TestCase, TestRun, TestResult, TestStepResult } from '@/lib/types'
+import { TestPlan, TestCase, TestConfiguration, TestRun, TestResult, TestStepResult } from '@/lib/types'
+import { RunAssignmentsCard } from '@/components/testruns/RunAssignmentsCard'
+import { createResultSlots, expandConfigurations } from '@/lib/configurations'
+import { applyDependencyBlocking } from '@/lib/test-dependencies'
+import { RunStep, getRunSteps, groupRunStepResults } from '@/lib/test-parameters'
+
+// A test case to execute in one configuration of the plan's matrix, or on its own when there is none.
+// Parameterized test cases list their steps once per data row, with the row's values filled in
+interface ResultSlot {
+  testCase: Omit<TestCase, 'steps'> & { steps: RunStep[] }
+  configuration?: string
+}
 
 export default function TestRunnerPage() {
   const { data: session, status } = useSession()
@@ -34,9 +47,12 @@ export default function TestRunnerPage() {
   // Core state
   const [testPlan, setTestPlan] = useState<TestPlan | null>(null)
   const [testCases, setTestCases] = useState<TestCase[]>([])
+  const [configurations, setConfigurations] = useState<TestConfiguration[]>([])
+  const [slots, setSlots] = useState<ResultSlot[]>([])
   const [testRun, setTestRun] = useState<TestRun | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [approvedOnly, setApprovedOnly] = useState(false)
   
   // Execution state
   const [currentTestCaseIndex, setCurrentTestCaseIndex] = useState(0)
@@ -50,6 +66,9 @@ export default function TestRunnerPage() {
   const [currentStepNotes, setCurrentStepNotes] = useState('')
   const [saving, setSaving] = useState(false)
 
+  // A run saved up front so its test cases can be split across testers
+  const [sharedRun, setSharedRun] = useState<TestRun | null>(null)
+
   // Check authentication
   useEffect(() => {
     if (status === 'loading') return
@@ -69,18 +88,21 @@ export default function TestRunnerPage() {
     }
   }, [testPlanId])
 
-  const loadTestPlan = async () => {
+  // Without approvedOnly the plan's own setting decides which test cases run
+  const loadTestPlan = async (onlyApproved?: boolean) => {
     try {
       setLoading(true)
       setError(null)
       
       // Load test plan
-      const planResponse = await fetch(`/api/testplans/${testPlanId}`)
+      const approvedQuery = onlyApproved === undefined ? '' : `&approvedOnly=${onlyApproved}`
+      const planResponse = await fetch(`/api/testplans/${testPlanId}?expand=suites${approvedQuery}`)
       if (!planResponse.ok) {
         throw new Error('Failed to load test plan')
       }
       const plan = await planResponse.json()
       setTestPlan(plan)
+      setApprovedOnly(onlyApproved ?? Boolean(plan.approvedOnly))
       
       // Load all test cases for this plan
       const casesPromises = plan.testCases.map(async (testCaseId: string) => {
@@ -93,9 +115,20 @@ export default function TestRunnerPage() {
       
       const cases = (await Promise.all(casesPromises)).filter(Boolean)
       setTestCases(cases)
+
+      // Every test case runs once in each configuration of the plan
+      const planConfigurations = expandConfigurations(plan.configurationMatrix || [])
+      const planSlots: ResultSlot[] = cases.flatMap((loaded: TestCase) => {
+        const testCase = { ...loaded, steps: getRunSteps(loaded) }
+        return planConfigurations.length > 0
+          ? planConfigurations.map(configuration => ({ testCase, configuration: configuration.id }))
+          : [{ testCase }]
+      })
+      setConfigurations(planConfigurations)
+      setSlots(planSlots)
       
       // Initialize test results
-      initializeTestResults(cases)
+      initializeTestResults(planSlots)
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load test plan')
@@ -104,9 +137,10 @@ export default function TestRunnerPage() {
     }
   }
 
-  const initializeTestResults = (cases: TestCase[]) => {
-    const results: TestResult[] = cases.map(testCase => ({
+  const initializeTestResults = (planSlots: ResultSlot[]) => {
+    const results: TestResult[] = planSlots.map(({ testCase, configuration }) => ({
       testCaseId: testCase.id,
+      ...(configuration ? { configuration } : {}),
       status: 'skip',
       executedAt: '',
       steps: testCase.steps.map(step => ({
@@ -127,6 +161,7 @@ export default function TestRunnerPage() {
       startedAt: new Date().toISOString(),
       status: 'in_progress',
       executedBy: session.user.name,
+      ...(configurations.length > 0 ? { configurations } : {}),
       results: testResults
     }
     
@@ -138,6 +173,43 @@ export default function TestRunnerPage() {
     setCurrentStepIndex(0)
   }
 
+  const createSharedRun = async () => {
+    if (!testPlan || !session?.user?.name) return
+
+    setSaving(true)
+    try {
+      const startedAt = new Date().toISOString()
+      const testCaseIds = testCases.map(testCase => testCase.id)
+      const response = await fetch('/api/testruns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: crypto.randomUUID(),
+          testPlanId: testPlan.id,
+          name: `${testPlan.name} - ${new Date().toLocaleDateString()}`,
+          startedAt,
+          status: 'in_progress',
+          executedBy: session.user.name,
+          // The server resolves the plan's test cases when it creates the run
+          approvedOnly,
+          ...(configurations.length > 0 ? { configurations } : {}),
+          // Testers fill in the slot of each test case in each configuration as they go
+          results: configurations.length > 0 ? createResultSlots(testCaseIds, configurations, startedAt) : []
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to create the shared run')
+      }
+
+      setSharedRun((await response.json()).testRun)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the shared run')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const completeTestRun = async () => {
     if (!testRun) return
     
@@ -147,14 +219,18 @@ export default function TestRunnerPage() {
         ...testRun,
         completedAt: new Date().toISOString(),
         status: 'completed' as const,
-        results: testResults
+        // One iteration per data row for parameterized test cases
+        results: testResults.map((result, index) => ({
+          ...result,
+          ...groupRunStepResults(slots[index].testCase, slots[index].testCase.steps, result.steps)
+        }))
       }
       
       // Save test run via API
       const response = await fetch('/api/testruns', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(completedRun)
+        body: JSON.stringify({ ...completedRun, approvedOnly })
       })
       
       if (!response.ok) {
@@ -175,12 +251,12 @@ export default function TestRunnerPage() {
   }
 
   const markStepResult = (status: 'pass' | 'fail' | 'skip' | 'blocked') => {
-    if (!testCases[currentTestCaseIndex]) return
+    if (!slots[currentTestCaseIndex]) return
     
-    const currentTestCase = testCases[currentTestCaseIndex]
+    const currentTestCase = slots[currentTestCaseIndex].testCase
     const currentStep = currentTestCase.steps[currentStepIndex]
     
-    const newResults = [...testResults]
+    let newResults = [...testResults]
     const testResult = newResults[currentTestCaseIndex]
     
     // Update step result
@@ -204,14 +280,22 @@ export default function TestRunnerPage() {
     } else if (stepStatuses.includes('pass')) {
       testResult.status = 'pass' // Partial pass
     }
-    
+
+    // Test cases depending on a failed one are blocked rather than executed
+    newResults = applyDependencyBlocking(
+      slots.map(slot => slot.testCase.id),
+      newResults,
+      testPlan?.dependencies,
+      testResult.executedAt
+    )
     setTestResults(newResults)
     
     // Move to next step or test case
+    const nextIndex = getNextSlotIndex(currentTestCaseIndex, newResults)
     if (currentStepIndex < currentTestCase.steps.length - 1) {
       setCurrentStepIndex(currentStepIndex + 1)
-    } else if (currentTestCaseIndex < testCases.length - 1) {
-      setCurrentTestCaseIndex(currentTestCaseIndex + 1)
+    } else if (nextIndex !== -1) {
+      setCurrentTestCaseIndex(nextIndex)
       setCurrentStepIndex(0)
     } else {
       // All test cases completed
@@ -222,9 +306,15 @@ export default function TestRunnerPage() {
     setStepStartTime(new Date())
   }
 
+  // The next test case after the given one that isn't blocked by a prerequisite, or -1
+  const getNextSlotIndex = (index: number, results: TestResult[] = testResults) => {
+    return results.findIndex((result, i) => i > index && i < slots.length && !result.blockedBy)
+  }
+
   const skipToNextTestCase = () => {
-    if (currentTestCaseIndex < testCases.length - 1) {
-      setCurrentTestCaseIndex(currentTestCaseIndex + 1)
+    const nextIndex = getNextSlotIndex(currentTestCaseIndex)
+    if (nextIndex !== -1) {
+      setCurrentTestCaseIndex(nextIndex)
       setCurrentStepIndex(0)
       setCurrentStepNotes('')
       setStepStartTime(new Date())
@@ -232,7 +322,7 @@ export default function TestRunnerPage() {
   }
 
   const getCurrentProgress = () => {
-    const totalSteps = testCases.reduce((acc, tc) => acc + tc.steps.length, 0)
+    const totalSteps = slots.reduce((acc, slot) => acc + slot.testCase.steps.length, 0)
     const completedSteps = testResults.reduce((acc, result) => 
       acc + result.steps.filter(step => step.status !== 'skip').length, 0
     )
@@ -311,7 +401,8 @@ export default function TestRunnerPage() {
     )
   }
 
-  const currentTestCase = testCases[currentTestCaseIndex]
+  const currentSlot = slots[currentTestCaseIndex]
+  const currentTestCase = currentSlot?.testCase
   const currentStep = currentTestCase?.steps[currentStepIndex]
   const progress = getCurrentProgress()
 
@@ -353,13 +444,17 @@ export default function TestRunnerPage() {
             </div>
           </div>
 
-          {!isRunning ? (
+          {sharedRun ? (
+            /* Split a shared run across testers */
+            <RunAssignmentsCard testRun={sharedRun} testCases={testCases} onChange={setSharedRun} />
+          ) : !isRunning ? (
             /* Start Test Run */
             <Card>
               <CardHeader>
                 <CardTitle>Ready to Start Test Execution</CardTitle>
                 <CardDescription>
-                  This will execute {testCases.length} test cases with {progress.total} total steps.
+                  This will execute {testCases.length} test cases
+                  {configurations.length > 0 && ` in ${configurations.length} configurations`} with {progress.total} total steps.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -382,11 +477,31 @@ export default function TestRunnerPage() {
                       <div className="font-medium">{progress.total}</div>
                     </div>
                   </div>
+
+                  {configurations.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {configurations.map(configuration => (
+                        <Badge key={configuration.id} variant="outline">{configuration.id}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={approvedOnly}
+                      onCheckedChange={(checked) => loadTestPlan(checked as boolean)}
+                    />
+                    Only run approved test cases
+                  </label>
                   
                   <Button onClick={startTestRun} className="w-full" size="lg">
                     <Play className="h-4 w-4 mr-2" />
                     Start Test Execution
                   </Button>
+                  <Button onClick={createSharedRun} variant="outline" className="w-full" disabled={saving}>
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Users className="h-4 w-4 mr-2" />}
+                    Split Across Testers
+                  </Button>
                 </div>
               </CardContent>
             </Card>
@@ -400,9 +515,12 @@ export default function TestRunnerPage() {
                     <div className="flex items-center justify-between">
                       <div>
                         <CardTitle className="text-lg">
-                          Test Case {currentTestCaseIndex + 1} of {testCases.length}
+                          Test Case {currentTestCaseIndex + 1} of {slots.length}
                         </CardTitle>
-                        <CardDescription>{currentTestCase?.title}</CardDescription>
+                        <CardDescription>
+                          {currentTestCase?.title}
+                          {currentSlot?.configuration && ` · ${currentSlot.configuration}`}
+                        </CardDescription>
                       </div>
                       <Badge className={getStatusColor(testResults[currentTestCaseIndex]?.status || 'skip')}>
                         {testResults[currentTestCaseIndex]?.status || 'pending'}
@@ -434,6 +552,11 @@ export default function TestRunnerPage() {
                           </div>
                           
                           <div className="space-y-3">
+                            {currentStep.rowLabel && (
+                              <p className="text-xs text-muted-foreground">
+                                Data row: <code>{currentStep.rowLabel}</code>
+                              </p>
+                            )}
                             <div>
                               <span className="font-medium text-sm">Action:</span>
                               <p className="text-foreground mt-1">{currentStep.action}</p>
@@ -498,7 +621,7 @@ export default function TestRunnerPage() {
                           onClick={skipToNextTestCase} 
                           variant="outline" 
                           size="sm"
-                          disabled={currentTestCaseIndex >= testCases.length - 1}
+                          disabled={getNextSlotIndex(currentTestCaseIndex) === -1}
                         >
                           Skip to Next Test Case
                         </Button>
@@ -534,9 +657,9 @@ export default function TestRunnerPage() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {testCases.map((testCase, index) => (
+                      {slots.map(({ testCase, configuration }, index) => (
                         <div 
-                          key={testCase.id}
+                          key={`${testCase.id}-${configuration || ''}`}
                           className={`p-3 rounded-lg border ${
                             index === currentTestCaseIndex 
                               ? 'border-primary bg-primary/5' 
@@ -546,9 +669,15 @@ export default function TestRunnerPage() {
                           <div className="flex items-center justify-between mb-2">
                             <span className="font-medium text-sm">
                               {index + 1}. {testCase.title}
+                              {configuration && <span className="text-muted-foreground"> · {configuration}</span>}
                             </span>
                             {getStatusIcon(testResults[index]?.status || 'skip')}
                           </div>
+                          {testResults[index]?.blockedBy && (
+                            <div className="text-xs text-test-blocked mb-1">
+                              Blocked by {testCases.find(other => other.id === testResults[index].blockedBy)?.title || testResults[index].blockedBy}
+                            </div>
+                          )}
                           <div className="text-xs text-muted-foreground">
                             {testCase.steps.length} steps • 
                             {testResults[index]?.steps.filter(s => s.status === 'pass').length || 0} passed • 
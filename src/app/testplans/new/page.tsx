@@ -20,6 +20,10 @@ import {
   Plus
 } from 'lucide-react'
 import { TestCase, TestPlan } from '@/lib/types'
+import { SuiteNode, flattenSuiteTree, getSuiteTestCaseIds } from '@/lib/test-suites'
+import { MAX_CONFIGURATIONS, countConfigurations, parseConfigurationMatrix } from '@/lib/configurations'
+import { TestDependencies } from '@/lib/test-dependencies'
+import { DependencyEditor } from '@/components/testplans/DependencyEditor'
 
 export default function NewTestPlanPage() {
   const { data: session, status } = useSession()
@@ -34,6 +38,14 @@ export default function NewTestPlanPage() {
   // Test cases state
   const [allTestCases, setAllTestCases] = useState<TestCase[]>([])
   const [selectedTestCases, setSelectedTestCases] = useState<Set<string>>(new Set())
+  const [suites, setSuites] = useState<SuiteNode[]>([])
+  const [selectedSuites, setSelectedSuites] = useState<Set<string>>(new Set())
+  const [approvedOnly, setApprovedOnly] = useState(false)
+  const [planQuery, setPlanQuery] = useState('')
+  const [matrixText, setMatrixText] = useState('')
+  const [dependencies, setDependencies] = useState<TestDependencies>({})
+  const [preview, setPreview] = useState<TestCase[] | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -54,8 +66,60 @@ export default function NewTestPlanPage() {
   // Fetch test cases
   useEffect(() => {
     fetchTestCases()
+    fetchSuites()
   }, [])
 
+  // Preview the test cases a query plan resolves to now, as the query and selection change
+  useEffect(() => {
+    if (!planQuery.trim()) {
+      setPreview(null)
+      setPreviewError(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/testplans/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            testCases: Array.from(selectedTestCases),
+            suites: Array.from(selectedSuites),
+            query: planQuery,
+            approvedOnly
+          })
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to preview the query')
+        }
+        setPreview(data.testCases)
+        setPreviewError(null)
+      } catch (err) {
+        setPreview(null)
+        setPreviewError(err instanceof Error ? err.message : 'Failed to preview the query')
+      }
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [planQuery, selectedTestCases, selectedSuites, approvedOnly])
+
+  const fetchSuites = async () => {
+    const response = await fetch('/api/suites?tree=true')
+    if (response.ok) {
+      setSuites(flattenSuiteTree(await response.json()))
+    }
+  }
+
+  const handleSuiteToggle = (suiteId: string, checked: boolean) => {
+    const newSelected = new Set(selectedSuites)
+    if (checked) {
+      newSelected.add(suiteId)
+    } else {
+      newSelected.delete(suiteId)
+    }
+    setSelectedSuites(newSelected)
+  }
+
   const fetchTestCases = async () => {
     try {
       setLoading(true)
@@ -109,8 +173,8 @@ export default function NewTestPlanPage() {
       return
     }
 
-    if (selectedTestCases.size === 0) {
-      setError('Please select at least one test case')
+    if (selectedTestCases.size === 0 && selectedSuites.size === 0 && !planQuery.trim()) {
+      setError('Please select at least one test case or suite, or enter a query')
       return
     }
 
@@ -124,6 +188,11 @@ export default function NewTestPlanPage() {
         description: description.trim(),
         version: version.trim(),
         testCases: Array.from(selectedTestCases),
+        ...(selectedSuites.size > 0 ? { suites: Array.from(selectedSuites) } : {}),
+        ...(approvedOnly ? { approvedOnly } : {}),
+        ...(planQuery.trim() ? { query: planQuery.trim() } : {}),
+        ...(configurationMatrix.length > 0 ? { configurationMatrix } : {}),
+        ...(Object.keys(planDependencies).length > 0 ? { dependencies: planDependencies } : {}),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         createdBy: session?.user?.name || 'Unknown User',
@@ -137,7 +206,8 @@ export default function NewTestPlanPage() {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to create test plan')
+        const data = await response.json()
+        throw new Error(data.issues?.map((issue: { path: string; message: string }) => `${issue.path} ${issue.message}`).join(', ') || data.error || 'Failed to create test plan')
       }
 
       router.push('/testplans')
@@ -159,6 +229,14 @@ export default function NewTestPlanPage() {
   }
 
   const filteredTestCases = getFilteredTestCases()
+  const configurationMatrix = parseConfigurationMatrix(matrixText)
+  const configurationCount = countConfigurations(configurationMatrix)
+  // Selected test cases in their listed order, and the dependencies between them
+  const orderedTestCases = Array.from(selectedTestCases).flatMap(testCaseId => allTestCases.find(testCase => testCase.id === testCaseId) || [])
+  const planDependencies = Object.fromEntries(Object.entries(dependencies)
+    .filter(([testCaseId]) => selectedTestCases.has(testCaseId))
+    .map(([testCaseId, prerequisites]) => [testCaseId, prerequisites.filter(prerequisite => selectedTestCases.has(prerequisite))])
+    .filter(([, prerequisites]) => prerequisites.length > 0))
 
   if (status === 'loading') {
     return (
@@ -274,10 +352,101 @@ export default function NewTestPlanPage() {
                   )}
                 </div>
 
+                {suites.length > 0 && (
+                  <div className="pt-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-medium">Suites</h3>
+                      <Badge variant="outline">
+                        {selectedSuites.size} selected
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Test cases added to a selected suite later are included automatically.
+                    </p>
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {suites.map(node => (
+                        <label
+                          key={node.suite.id}
+                          className="flex items-center gap-2 text-sm"
+                          style={{ paddingLeft: `${(node.path.length - 1) * 1.25}rem` }}
+                        >
+                          <Checkbox
+                            checked={selectedSuites.has(node.suite.id)}
+                            onCheckedChange={(checked) => handleSuiteToggle(node.suite.id, checked as boolean)}
+                          />
+                          {node.suite.name}
+                          <span className="text-xs text-muted-foreground">({getSuiteTestCaseIds(node).length})</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="pt-4">
+                  <Label htmlFor="query" className="text-foreground font-medium">Query (Optional)</Label>
+                  <Input
+                    id="query"
+                    value={planQuery}
+                    onChange={(e) => setPlanQuery(e.target.value)}
+                    placeholder="tag:checkout priority:critical,high"
+                    className="mt-1 font-mono"
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Test cases matching this search when a run starts are included besides the ones selected, so new test cases join the plan on their own.
+                  </p>
+                  {previewError ? (
+                    <p className="text-sm text-destructive mt-2">{previewError}</p>
+                  ) : preview && (
+                    <div className="mt-2">
+                      <p className="text-sm font-medium">
+                        Currently runs {preview.length} test case{preview.length === 1 ? '' : 's'}
+                      </p>
+                      <ul className="mt-1 space-y-1 max-h-48 overflow-y-auto text-sm text-muted-foreground">
+                        {preview.map(testCase => (
+                          <li key={testCase.id} className="truncate">
+                            {testCase.title}
+                            {selectedTestCases.has(testCase.id) && <span className="text-xs"> (selected)</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+
+                <div className="pt-4">
+                  <Label htmlFor="configurationMatrix" className="text-foreground font-medium">Configuration Matrix (Optional)</Label>
+                  <Textarea
+                    id="configurationMatrix"
+                    value={matrixText}
+                    onChange={(e) => setMatrixText(e.target.value)}
+                    placeholder={'browser: Chrome, Firefox, Safari\nlocale: en, nb'}
+                    className="mt-1 font-mono"
+                    rows={3}
+                  />
+                  <p className={`text-sm mt-1 ${configurationCount > MAX_CONFIGURATIONS ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {configurationCount > 0
+                      ? `Runs execute every test case in ${configurationCount} configuration${configurationCount === 1 ? '' : 's'}${configurationCount > MAX_CONFIGURATIONS ? `, at most ${MAX_CONFIGURATIONS} are allowed` : ''}.`
+                      : 'One dimension per line. Runs execute every test case once per combination of the values.'}
+                  </p>
+                </div>
+
+                <label className="flex items-start gap-2 pt-4 text-sm">
+                  <Checkbox
+                    checked={approvedOnly}
+                    onCheckedChange={(checked) => setApprovedOnly(checked as boolean)}
+                  />
+                  <span>
+                    Only run approved test cases
+                    <span className="block text-muted-foreground">
+                      Drafts and test cases still in review are left out until they are approved.
+                    </span>
+                  </span>
+                </label>
+
                 <div className="pt-4 border-t">
                   <Button 
                     onClick={handleSave} 
-                    disabled={saving || !name.trim() || selectedTestCases.size === 0}
+                    disabled={saving || !name.trim() || (selectedTestCases.size === 0 && selectedSuites.size === 0 && !planQuery.trim())}
                     className="w-full"
                   >
                     {saving ? (
@@ -394,6 +563,17 @@ export default function NewTestPlanPage() {
               </CardContent>
             </Card>
           </div>
+
+          {orderedTestCases.length > 1 && (
+            <div className="mt-6">
+              <DependencyEditor
+                testCases={orderedTestCases}
+                dependencies={planDependencies}
+                onChange={setDependencies}
+                onReorder={(testCaseIds) => setSelectedTestCases(new Set(testCaseIds))}
+              />
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -21,9 +21,11 @@ import {
   Edit,
   Trash2,
   Copy,
+  Grid3x3,
   Loader2
 } from 'lucide-react'
 import { TestPlan } from '@/lib/types'
+import { MoveToTrashModal } from '@/components/modals/MoveToTrashModal'
 
 export default function TestPlansPage() {
   const { data: session, status } = useSession()
@@ -38,6 +40,7 @@ export default function TestPlansPage() {
   // Filter states
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<string>('updated')
+  const [planToDelete, setPlanToDelete] = useState<TestPlan | null>(null)
 
   // Check authentication
   useEffect(() => {
@@ -116,6 +119,10 @@ export default function TestPlansPage() {
     router.push(`/testplans/${testPlanId}/run`)
   }
 
+  const handleViewMatrix = (testPlanId: string) => {
+    router.push(`/testplans/${testPlanId}/matrix`)
+  }
+
   const handleCloneTestPlan = async (testPlan: TestPlan) => {
     try {
       const clonedPlan = {
@@ -143,24 +150,6 @@ export default function TestPlansPage() {
     }
   }
 
-  const handleDeleteTestPlan = async (testPlanId: string) => {
-    if (!confirm('Are you sure you want to delete this test plan?')) return
-    
-    try {
-      const response = await fetch(`/api/testplans/${testPlanId}`, {
-        method: 'DELETE'
-      })
-      
-      if (!response.ok) {
-        throw new Error('Failed to delete test plan')
-      }
-      
-      fetchTestPlans()
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete test plan')
-    }
-  }
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString()
   }
@@ -280,6 +269,8 @@ export default function TestPlansPage() {
                         <div className="flex items-center text-muted-foreground">
                           <FileText className="h-4 w-4 mr-1" />
                           {testPlan.testCases.length} test cases
+                          {testPlan.suites && testPlan.suites.length > 0 && ` + ${testPlan.suites.length} suite${testPlan.suites.length === 1 ? '' : 's'}`}
+                          {testPlan.query && ' + query'}
                         </div>
                         <Badge variant="outline">v{testPlan.version}</Badge>
                       </div>
@@ -298,6 +289,16 @@ export default function TestPlansPage() {
                             Repository: {testPlan.repository}
                           </div>
                         )}
+                        {testPlan.query && (
+                          <div className="text-xs font-mono truncate" title={testPlan.query}>
+                            Query: {testPlan.query}
+                          </div>
+                        )}
+                        {testPlan.configurationMatrix && testPlan.configurationMatrix.length > 0 && (
+                          <div className="text-xs truncate">
+                            Matrix: {testPlan.configurationMatrix.map(dimension => dimension.name).join(' × ')}
+                          </div>
+                        )}
                       </div>
                       
                       <div className="flex gap-2">
@@ -309,6 +310,16 @@ export default function TestPlansPage() {
                           <Play className="h-3 w-3 mr-1" />
                           Run
                         </Button>
+                        {testPlan.configurationMatrix && testPlan.configurationMatrix.length > 0 && (
+                          <Button 
+                            size="sm" 
+                            variant="outline"
+                            title="Configuration matrix"
+                            onClick={() => handleViewMatrix(testPlan.id)}
+                          >
+                            <Grid3x3 className="h-3 w-3" />
+                          </Button>
+                        )}
                         <Button 
                           size="sm" 
                           variant="outline"
@@ -326,7 +337,7 @@ export default function TestPlansPage() {
                         <Button 
                           size="sm" 
                           variant="outline"
-                          onClick={() => handleDeleteTestPlan(testPlan.id)}
+                          onClick={() => setPlanToDelete(testPlan)}
                         >
                           <Trash2 className="h-3 w-3" />
                         </Button>
@@ -374,6 +385,17 @@ export default function TestPlansPage() {
           )}
         </div>
       </main>
+
+      {planToDelete && (
+        <MoveToTrashModal
+          open={!!planToDelete}
+          onOpenChange={(open) => !open && setPlanToDelete(null)}
+          entityType="testPlan"
+          entityId={planToDelete.id}
+          entityName={planToDelete.name}
+          onDeleted={fetchTestPlans}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,204 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Navigation } from '@/components/layout/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Trash2, RotateCcw, Loader2 } from 'lucide-react'
+import { TrashEntry, TrashEntityType } from '@/lib/types'
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  testCase: 'Test Case',
+  testPlan: 'Test Plan',
+  testRun: 'Test Run'
+}
+
+export default function TrashPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [entries, setEntries] = useState<TrashEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session) {
+      const hasToken = typeof window !== 'undefined' && localStorage.getItem('github_pat')
+      if (!hasToken) {
+        router.push('/auth/signin')
+      }
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [])
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/trash')
+      if (!response.ok) {
+        throw new Error('Failed to fetch trash')
+      }
+      const data = await response.json()
+      setEntries(data.entries)
+      setRetentionDays(data.retentionDays)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch trash')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      setBusyId(entry.id)
+      setError(null)
+      const response = await fetch(`/api/trash/${entry.id}/restore`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore')
+      }
+      const relinked = [
+        data.relinkedPlans.length > 0 && `${data.relinkedPlans.length} test plan(s)`,
+        data.relinkedRequirements?.length > 0 && `${data.relinkedRequirements.length} requirement(s)`
+      ].filter(Boolean)
+      setMessage(relinked.length > 0
+        ? `${entry.name} restored and added back to ${relinked.join(' and ')}`
+        : `${entry.name} restored`)
+      fetchTrash()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDeleteForever = async (entry: TrashEntry) => {
+    if (!confirm(`Permanently delete "${entry.name}"? This cannot be undone.`)) return
+
+    try {
+      setBusyId(entry.id)
+      setError(null)
+      const response = await fetch(`/api/trash/${entry.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete trash entry')
+      }
+      fetchTrash()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete trash entry')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-foreground">Trash</h1>
+            <p className="mt-2 text-muted-foreground">
+              Deleted test cases, plans and runs
+              {retentionDays !== null && ` are kept for ${retentionDays} days before they are purged`}.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-destructive">{error}</p>
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-6 bg-success/10 border border-success/20 rounded-md p-4">
+              <p className="text-success">{message}</p>
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trash2 className="h-5 w-5" />
+                Deleted Items
+              </CardTitle>
+              <CardDescription>
+                Restoring a test case adds it back to the test plans it was removed from
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center text-muted-foreground">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Loading trash...
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The trash is empty.</p>
+              ) : (
+                <div className="space-y-3">
+                  {entries.map(entry => (
+                    <div key={entry.id} className="border rounded-lg p-3 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{ENTITY_LABELS[entry.entityType]}</Badge>
+                          <span className="font-medium truncate">{entry.name}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Deleted by {entry.deletedBy} on {new Date(entry.deletedAt).toLocaleString()}
+                          {' · '}purged {new Date(entry.expiresAt).toLocaleDateString()}
+                          {entry.planLinks.length > 0 && ` · was in ${entry.planLinks.length} test plan(s)`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyId !== null}
+                          onClick={() => handleRestore(entry)}
+                        >
+                          {busyId === entry.id
+                            ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            : <RotateCcw className="h-4 w-4 mr-1" />}
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busyId !== null}
+                          onClick={() => handleDeleteForever(entry)}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete Forever
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
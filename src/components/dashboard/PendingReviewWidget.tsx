@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ClipboardCheck, X } from 'lucide-react'
+import { TestCase } from '@/lib/types'
+import { getReviewQueue, getSubmittedAt } from '@/lib/test-case-review'
+
+interface PendingReviewWidgetProps {
+  currentUser?: string
+  editMode: boolean
+  onRemove?: () => void
+}
+
+// Test cases submitted for review, longest waiting first; those assigned to the current user are marked
+export function PendingReviewWidget({ currentUser, editMode, onRemove }: PendingReviewWidgetProps) {
+  const [queue, setQueue] = useState<TestCase[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadQueue()
+  }, [])
+
+  const loadQueue = async () => {
+    try {
+      const response = await fetch('/api/testcases?reviewStatus=in_review')
+      if (!response.ok) throw new Error('Failed to load review queue')
+      setQueue(getReviewQueue(await response.json()))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load review queue:', err)
+      setError('Failed to load the review queue')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      {editMode && onRemove && (
+        <Button
+          variant="destructive"
+          size="sm"
+          className="absolute -top-2 -right-2 z-50 h-6 w-6 p-0 rounded-full shadow-md"
+          onClick={onRemove}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Review {!loading && `(${queue.length})`}</CardTitle>
+          <CardDescription>
+            Test cases waiting for approval before approved-only plans include them
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-16 animate-pulse bg-muted rounded" />
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : queue.length > 0 ? (
+            <ul className="space-y-2">
+              {queue.map(testCase => (
+                <li key={testCase.id}>
+                  <Link
+                    href={`/testcases/${testCase.id}`}
+                    className="flex items-center gap-3 p-3 rounded-lg hover:bg-accent transition-colors"
+                  >
+                    <ClipboardCheck className="h-4 w-4 text-warning shrink-0" />
+                    <span className="flex-1 truncate font-medium text-foreground">{testCase.title}</span>
+                    {currentUser && testCase.reviewers?.includes(currentUser) && (
+                      <Badge className="text-xs bg-info/10 text-info border-info/20">Assigned to you</Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(getSubmittedAt(testCase)).toLocaleDateString()}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-center py-8 text-muted-foreground">No test cases are waiting for review</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -16,7 +16,11 @@ import {
   Menu,
   X,
   Sparkles,
-  Search
+  Search,
+  Trash2,
+  Layers,
+  ClipboardCheck,
+  Flag
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
@@ -38,6 +42,9 @@ const navigation: Array<{
   { name: 'Dashboard', href: '/', icon: BarChart3 },
   { name: 'Test Cases', href: '/testcases', icon: TestTube2 },
   { name: 'Test Plans', href: '/testplans', icon: FolderOpen },
+  { name: 'Shared Steps', href: '/shared-steps', icon: Layers },
+  { name: 'Requirements', href: '/requirements', icon: ClipboardCheck },
+  { name: 'Releases', href: '/releases', icon: Flag },
   { name: 'AI Generator', href: '/ai-generator', icon: Sparkles },
   { name: 'GitHub Issues', href: '/github', icon: GitBranch },
   { name: 'Repository Scanner', href: '/scanner', icon: Search, beta: true },
@@ -125,6 +132,12 @@ export function Navigation() {
                       <span>Settings</span>
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/trash">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Trash</span>
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => signOut()}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Sign out</span>
@@ -0,0 +1,236 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Layers, Loader2, Eye, Undo2 } from 'lucide-react'
+import { BulkEdit, BulkOperation, TestCase, TestPlan } from '@/lib/types'
+import { BulkEditItem, BulkEditItemStatus } from '@/lib/bulk-edit'
+
+interface BulkEditModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  testCaseIds: string[]
+  onApplied: () => void
+}
+
+const UNCHANGED = 'unchanged'
+
+const STATUS_COLORS: Record<BulkEditItemStatus, string> = {
+  updated: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-800',
+  deleted: 'bg-orange-100 text-orange-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const splitTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean)
+
+export function BulkEditModal({ open, onOpenChange, testCaseIds, onApplied }: BulkEditModalProps) {
+  const [testPlans, setTestPlans] = useState<TestPlan[]>([])
+  const [addTags, setAddTags] = useState('')
+  const [removeTags, setRemoveTags] = useState('')
+  const [priority, setPriority] = useState(UNCHANGED)
+  const [repository, setRepository] = useState('')
+  const [issueNumber, setIssueNumber] = useState('')
+  const [clearIssue, setClearIssue] = useState(false)
+  const [testPlanId, setTestPlanId] = useState(UNCHANGED)
+  const [deleting, setDeleting] = useState(false)
+
+  const [items, setItems] = useState<BulkEditItem[] | null>(null)
+  const [applied, setApplied] = useState<BulkEdit | null>(null)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    setItems(null)
+    setApplied(null)
+    setError(null)
+    fetch('/api/testplans')
+      .then(response => (response.ok ? response.json() : []))
+      .then(setTestPlans)
+      .catch(error => console.error('Failed to load test plans:', error))
+  }, [open])
+
+  const getOperations = (): BulkOperation[] => {
+    if (deleting) return [{ type: 'delete' }]
+
+    const operations: BulkOperation[] = []
+    if (splitTags(addTags).length > 0) operations.push({ type: 'addTags', tags: splitTags(addTags) })
+    if (splitTags(removeTags).length > 0) operations.push({ type: 'removeTags', tags: splitTags(removeTags) })
+    if (priority !== UNCHANGED) operations.push({ type: 'setPriority', priority: priority as TestCase['priority'] })
+    if (clearIssue) {
+      operations.push({ type: 'clearIssue' })
+    } else if (repository.trim()) {
+      operations.push({ type: 'setIssue', repository: repository.trim(), number: issueNumber ? Number(issueNumber) : undefined })
+    }
+    if (testPlanId !== UNCHANGED) operations.push({ type: 'addToPlan', testPlanId })
+    return operations
+  }
+
+  const submit = async (dryRun: boolean) => {
+    try {
+      setWorking(true)
+      setError(null)
+      const response = await fetch('/api/testcases/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ testCaseIds, operations: getOperations(), dryRun })
+      })
+      const data = await response.json()
+      if (data.items) setItems(data.items)
+      if (!response.ok) {
+        throw new Error(data.issues?.map((issue: { path: string; message: string }) => `${issue.path} ${issue.message}`).join(', ') || data.error)
+      }
+      if (data.applied) {
+        setApplied(data.bulkEdit)
+        onApplied()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply bulk edit')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const undo = async () => {
+    if (!applied) return
+    try {
+      setWorking(true)
+      setError(null)
+      const response = await fetch(`/api/testcases/bulk/${applied.id}/undo`, { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to undo bulk edit')
+      }
+      setApplied(null)
+      setItems(null)
+      onApplied()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo bulk edit')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const noOperations = getOperations().length === 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Bulk Edit
+          </DialogTitle>
+          <DialogDescription>
+            Changes all {testCaseIds.length} selected test cases, or none of them if any can&apos;t be changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div className="space-y-1">
+            <Label htmlFor="bulk-add-tags">Add tags</Label>
+            <Input id="bulk-add-tags" value={addTags} onChange={e => setAddTags(e.target.value)} placeholder="smoke, checkout" disabled={deleting} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bulk-remove-tags">Remove tags</Label>
+            <Input id="bulk-remove-tags" value={removeTags} onChange={e => setRemoveTags(e.target.value)} placeholder="flaky" disabled={deleting} />
+          </div>
+          <div className="space-y-1">
+            <Label>Priority</Label>
+            <Select value={priority} onValueChange={setPriority} disabled={deleting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>Keep priority</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Add to test plan</Label>
+            <Select value={testPlanId} onValueChange={setTestPlanId} disabled={deleting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNCHANGED}>No plan</SelectItem>
+                {testPlans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bulk-repository">Linked repository</Label>
+            <Input id="bulk-repository" value={repository} onChange={e => setRepository(e.target.value)} placeholder="owner/repo" disabled={deleting || clearIssue} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bulk-issue">Issue number</Label>
+            <Input id="bulk-issue" type="number" min={1} value={issueNumber} onChange={e => setIssueNumber(e.target.value)} placeholder="Keep each test case's number" disabled={deleting || clearIssue} />
+          </div>
+          <label className="flex items-center gap-2">
+            <Checkbox checked={clearIssue} onCheckedChange={checked => setClearIssue(checked === true)} disabled={deleting} />
+            Unlink issues
+          </label>
+          <label className="flex items-center gap-2">
+            <Checkbox checked={deleting} onCheckedChange={checked => setDeleting(checked === true)} />
+            Move to the trash instead
+          </label>
+        </div>
+
+        {items && (
+          <ul className="space-y-1 max-h-60 overflow-y-auto text-sm border rounded-md p-2">
+            {items.map(item => (
+              <li key={item.testCaseId} className="flex items-start gap-2">
+                <Badge className={STATUS_COLORS[item.status]}>{item.status}</Badge>
+                <span className="flex-1">
+                  <span className="font-medium">{item.title || item.testCaseId}</span>
+                  <span className="text-muted-foreground">
+                    {item.error ? ` — ${item.error}` : item.changes.length > 0 ? ` — ${item.changes.join(', ')}` : ''}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          {applied ? (
+            <>
+              <Button variant="outline" onClick={undo} disabled={working}>
+                {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+                Undo
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => submit(true)} disabled={working || noOperations}>
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
+              </Button>
+              <Button variant={deleting ? 'destructive' : 'default'} onClick={() => submit(false)} disabled={working || noOperations}>
+                {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Apply to {testCaseIds.length}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
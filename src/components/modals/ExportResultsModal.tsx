@@ -21,6 +21,7 @@ interface ExportOptions {
   includeDetails: boolean
   includeSteps: boolean
   includeNotes: boolean
+  includeAttachments: boolean
   filterByStatus: string[]
   filterByPriority: string[]
 }
@@ -32,6 +33,7 @@ export function ExportResultsModal({ open, onOpenChange }: ExportResultsModalPro
     includeDetails: true,
     includeSteps: false,
     includeNotes: false,
+    includeAttachments: false,
     filterByStatus: [],
     filterByPriority: []
   })
@@ -51,7 +53,7 @@ export function ExportResultsModal({ open, onOpenChange }: ExportResultsModalPro
     { value: 'custom', label: 'Custom Range' }
   ]
 
-  const statusOptions = ['pass', 'fail', 'blocked', 'skipped']
+  const statusOptions = ['pass', 'fail', 'blocked', 'skip']
   const priorityOptions = ['critical', 'high', 'medium', 'low']
 
   const updateOptions = (key: keyof ExportOptions, value: any) => {
@@ -76,6 +78,7 @@ export function ExportResultsModal({ open, onOpenChange }: ExportResultsModalPro
         includeDetails: options.includeDetails.toString(),
         includeSteps: options.includeSteps.toString(),
         includeNotes: options.includeNotes.toString(),
+        includeAttachments: options.includeAttachments.toString(),
         status: options.filterByStatus.join(','),
         priority: options.filterByPriority.join(',')
       })
@@ -228,6 +231,16 @@ export function ExportResultsModal({ open, onOpenChange }: ExportResultsModalPro
                   Execution notes and comments
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="attachments"
+                  checked={options.includeAttachments}
+                  onCheckedChange={(checked) => updateOptions('includeAttachments', checked)}
+                />
+                <Label htmlFor="attachments" className="text-sm">
+                  Attachments (file names and download links)
+                </Label>
+              </div>
             </div>
           </div>
 
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Upload, FileText, CheckCircle, XCircle, Loader2, AlertCircle } from 'lucide-react'
 import { TestCase } from '@/lib/types'
+import { importFeatureFile } from '@/lib/gherkin'
 
 interface ImportTestCasesModalProps {
   open: boolean
@@ -33,7 +34,8 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
 
   const supportedFormats = [
     { format: 'CSV', description: 'Comma-separated values with headers', example: 'title,description,priority,steps' },
-    { format: 'JSON', description: 'Test cases in JSON array format', example: '[{"title": "Test", "steps": [...]}]' }
+    { format: 'JSON', description: 'Test cases in JSON array format', example: '[{"title": "Test", "steps": [...]}]' },
+    { format: 'Gherkin', description: 'A .feature file, one test case per scenario', example: 'Scenario: Login / When ... / Then ...' }
   ]
 
   const handleFileSelect = (file: File) => {
@@ -61,6 +63,14 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
       } else if (file.name.endsWith('.json')) {
         const data = JSON.parse(text)
         setPreviewData(Array.isArray(data) ? data.slice(0, 5) : [data])
+      } else if (file.name.endsWith('.feature')) {
+        const { testCases } = importFeatureFile(text, { createdBy: 'import-system' })
+        setPreviewData(testCases.slice(0, 5).map(testCase => ({
+          title: testCase.title,
+          priority: testCase.priority,
+          tags: testCase.tags.join(', '),
+          steps: testCase.steps.length
+        })))
       }
     } catch (error) {
       console.error('Failed to preview file:', error)
@@ -75,7 +85,7 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
     const files = Array.from(e.dataTransfer.files)
     const file = files[0]
     
-    if (file && (file.name.endsWith('.csv') || file.name.endsWith('.json'))) {
+    if (file && (file.name.endsWith('.csv') || file.name.endsWith('.json') || file.name.endsWith('.feature'))) {
       handleFileSelect(file)
     }
   }
@@ -164,7 +174,7 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
             Import Test Cases
           </DialogTitle>
           <DialogDescription>
-            Upload test cases from CSV or JSON files to quickly populate your test suite
+            Upload test cases from CSV, JSON or Gherkin feature files to quickly populate your test suite
           </DialogDescription>
         </DialogHeader>
 
@@ -172,7 +182,7 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
           {!selectedFile && !importResult && (
             <>
               {/* Supported Formats */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 {supportedFormats.map((format) => (
                   <Card key={format.format}>
                     <CardHeader className="pb-3">
@@ -202,7 +212,7 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
                 <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                 <h3 className="text-lg font-medium mb-2">Drop your file here</h3>
                 <p className="text-muted-foreground mb-4">
-                  or click to browse for CSV or JSON files
+                  or click to browse for CSV, JSON or .feature files
                 </p>
                 <Button onClick={() => fileInputRef.current?.click()}>
                   Choose File
@@ -210,7 +220,7 @@ export function ImportTestCasesModal({ open, onOpenChange }: ImportTestCasesModa
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv,.json"
+                  accept=".csv,.json,.feature"
                   onChange={handleFileInput}
                   className="hidden"
                 />
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Trash2, Loader2, FolderOpen, PlayCircle, ClipboardCheck } from 'lucide-react'
+import { UsageReport } from '@/lib/types'
+
+interface MoveToTrashModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  entityType: 'testCase' | 'testPlan'
+  entityId: string
+  entityName: string
+  onDeleted: () => void
+}
+
+const ENDPOINTS = {
+  testCase: { path: 'testcases', label: 'test case' },
+  testPlan: { path: 'testplans', label: 'test plan' }
+}
+
+export function MoveToTrashModal({ open, onOpenChange, entityType, entityId, entityName, onDeleted }: MoveToTrashModalProps) {
+  const [usage, setUsage] = useState<UsageReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { path, label } = ENDPOINTS[entityType]
+
+  useEffect(() => {
+    if (!open) return
+
+    const loadUsage = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/${path}/${entityId}/usage`)
+        if (response.ok) {
+          setUsage(await response.json())
+        }
+      } catch (error) {
+        console.error(`Failed to load ${label} usage:`, error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadUsage()
+  }, [open, path, label, entityId])
+
+  const moveToTrash = async () => {
+    try {
+      setDeleting(true)
+      const response = await fetch(`/api/${path}/${entityId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(`Failed to delete ${label}`)
+      }
+      onOpenChange(false)
+      onDeleted()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to delete ${label}`)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Move to Trash
+          </DialogTitle>
+          <DialogDescription>
+            &quot;{entityName}&quot; can be restored from the trash until it is purged.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Checking where this {label} is used...
+          </div>
+        ) : usage && (
+          <div className="space-y-4 text-sm">
+            {usage.testPlans.length > 0 && (
+              <div>
+                <p className="font-medium mb-2">
+                  Removed from {usage.testPlans.length} test plan{usage.testPlans.length === 1 ? '' : 's'}:
+                </p>
+                <ul className="space-y-1">
+                  {usage.testPlans.map(plan => (
+                    <li key={plan.id} className="flex items-center gap-2">
+                      <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                      {plan.name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {usage.requirements.length > 0 && (
+              <div>
+                <p className="font-medium mb-2">
+                  Unlinked from {usage.requirements.length} requirement{usage.requirements.length === 1 ? '' : 's'}:
+                </p>
+                <ul className="space-y-1">
+                  {usage.requirements.map(requirement => (
+                    <li key={requirement.id} className="flex items-center gap-2">
+                      <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+                      {requirement.title}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {usage.testRuns.length > 0 && (
+              <div>
+                <p className="font-medium mb-2">
+                  Referenced by {usage.testRuns.length} historic run{usage.testRuns.length === 1 ? '' : 's'}:
+                </p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {usage.testRuns.map(run => (
+                    <li key={run.id} className="flex items-center gap-2">
+                      <PlayCircle className="h-4 w-4 text-muted-foreground" />
+                      <span className="truncate">{run.name}</span>
+                      <Badge variant="outline">{run.status}</Badge>
+                      <span className="text-muted-foreground">{new Date(run.startedAt).toLocaleDateString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {usage.testPlans.length === 0 && usage.requirements.length === 0 && usage.testRuns.length === 0 && (
+              <p className="text-muted-foreground">This {label} is not used by any plan, requirement or run.</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={moveToTrash} disabled={loading || deleting}>
+            {deleting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+            Move to Trash
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
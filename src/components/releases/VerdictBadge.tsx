@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle2, XCircle } from 'lucide-react'
+import { ReleaseVerdict } from '@/lib/releases'
+
+export function VerdictBadge({ verdict }: { verdict: ReleaseVerdict }) {
+  return verdict === 'go' ? (
+    <Badge className="bg-success/10 text-success border-success/20">
+      <CheckCircle2 className="h-3 w-3 mr-1" />
+      Go
+    </Badge>
+  ) : (
+    <Badge className="bg-destructive/10 text-destructive border-destructive/20">
+      <XCircle className="h-3 w-3 mr-1" />
+      No-go
+    </Badge>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ListPlus, Plus, Trash2 } from 'lucide-react'
+import { CustomFieldDefinition, CustomFieldEntityType, CustomFieldType } from '@/lib/types'
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  enum: 'Single choice',
+  multiSelect: 'Multiple choice',
+  date: 'Date',
+  user: 'User'
+}
+
+const ENTITY_LABELS: Record<CustomFieldEntityType, string> = {
+  testCase: 'Test cases',
+  testPlan: 'Test plans',
+  testRun: 'Test runs'
+}
+
+interface FieldDraft {
+  id: string
+  label: string
+  type: CustomFieldType
+  entityTypes: CustomFieldEntityType[]
+  options: string // Comma separated
+}
+
+const EMPTY_DRAFT: FieldDraft = { id: '', label: '', type: 'text', entityTypes: ['testCase'], options: '' }
+
+// Turn a label into a field ID, e.g. 'Target browser' -> 'targetBrowser'
+function toFieldId(label: string): string {
+  const words = label.trim().split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const id = words.map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('')
+  return /^[A-Za-z]/.test(id) ? id : ''
+}
+
+export function CustomFieldSettings() {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+  const [draft, setDraft] = useState<FieldDraft>(EMPTY_DRAFT)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchFields()
+  }, [])
+
+  const fetchFields = async () => {
+    try {
+      const response = await fetch('/api/custom-fields')
+      if (!response.ok) {
+        throw new Error('Failed to fetch custom fields')
+      }
+      setFields(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch custom fields')
+    }
+  }
+
+  const toggleEntityType = (entityType: CustomFieldEntityType, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      entityTypes: checked ? [...prev.entityTypes, entityType] : prev.entityTypes.filter(type => type !== entityType)
+    }))
+  }
+
+  const createField = async () => {
+    const hasOptions = draft.type === 'enum' || draft.type === 'multiSelect'
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch('/api/custom-fields', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: draft.id || toFieldId(draft.label),
+          label: draft.label.trim(),
+          type: draft.type,
+          entityTypes: draft.entityTypes,
+          options: hasOptions ? draft.options.split(',').map(option => option.trim()).filter(Boolean) : undefined
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create custom field')
+      }
+      setDraft(EMPTY_DRAFT)
+      await fetchFields()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create custom field')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteField = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the field "${field.label}"? Values already entered are kept but no longer shown.`)) return
+
+    const response = await fetch(`/api/custom-fields/${field.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json()
+      setError(data.error || 'Failed to delete custom field')
+      return
+    }
+    await fetchFields()
+  }
+
+  const needsOptions = draft.type === 'enum' || draft.type === 'multiSelect'
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5" />
+            Custom Fields
+          </CardTitle>
+          <CardDescription>
+            Fields shown on test cases, plans and runs for everyone in this workspace
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom fields defined yet</p>
+          ) : (
+            <div className="space-y-2">
+              {fields.map(field => (
+                <div key={field.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{field.label}</span>
+                      <code className="text-xs text-muted-foreground">{field.id}</code>
+                      <Badge variant="secondary">{TYPE_LABELS[field.type]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {field.entityTypes.map(type => ENTITY_LABELS[type]).join(', ')}
+                      {field.options && ` · ${field.options.join(', ')}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => deleteField(field)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Field</CardTitle>
+          <CardDescription>
+            The ID is the key stored in the files and used in field.&lt;id&gt; list filters, and can&apos;t be changed later
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="field-label">Label</Label>
+              <Input
+                id="field-label"
+                value={draft.label}
+                onChange={(e) => setDraft(prev => ({ ...prev, label: e.target.value }))}
+                placeholder="Component"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="field-id">ID</Label>
+              <Input
+                id="field-id"
+                value={draft.id}
+                onChange={(e) => setDraft(prev => ({ ...prev, id: e.target.value }))}
+                placeholder={toFieldId(draft.label) || 'component'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={draft.type} onValueChange={(value) => setDraft(prev => ({ ...prev, type: value as CustomFieldType }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TYPE_LABELS) as CustomFieldType[]).map(type => (
+                    <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {needsOptions && (
+            <div className="space-y-2">
+              <Label htmlFor="field-options">Options</Label>
+              <Input
+                id="field-options"
+                value={draft.options}
+                onChange={(e) => setDraft(prev => ({ ...prev, options: e.target.value }))}
+                placeholder="checkout, payments, search"
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(ENTITY_LABELS) as CustomFieldEntityType[]).map(entityType => (
+              <label key={entityType} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft.entityTypes.includes(entityType)}
+                  onCheckedChange={(checked) => toggleEntityType(entityType, checked === true)}
+                />
+                {ENTITY_LABELS[entityType]}
+              </label>
+            ))}
+          </div>
+
+          <Button onClick={createField} disabled={saving || !draft.label.trim() || draft.entityTypes.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
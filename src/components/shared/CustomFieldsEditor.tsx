@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CustomFieldDefinition, CustomFieldEntityType, CustomFieldValue, CustomFieldValues } from '@/lib/types'
+
+interface CustomFieldsEditorProps {
+  entityType: CustomFieldEntityType
+  value?: CustomFieldValues
+  onChange: (values: CustomFieldValues | undefined) => void
+}
+
+// Select items can't have an empty value
+const NO_VALUE = '__none__'
+
+// Inputs for the workspace's custom fields, hidden when none apply to the entity type
+export function CustomFieldsEditor({ entityType, value, onChange }: CustomFieldsEditorProps) {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+
+  useEffect(() => {
+    fetch(`/api/custom-fields?entityType=${entityType}`)
+      .then(response => response.ok ? response.json() : [])
+      .then(setFields)
+      .catch(() => setFields([]))
+  }, [entityType])
+
+  // Cleared fields are removed rather than stored empty
+  const setValue = (fieldId: string, fieldValue: CustomFieldValue | undefined) => {
+    const values = { ...(value || {}) }
+    if (fieldValue === undefined || fieldValue === '' || (Array.isArray(fieldValue) && fieldValue.length === 0)) {
+      delete values[fieldId]
+    } else {
+      values[fieldId] = fieldValue
+    }
+    onChange(Object.keys(values).length > 0 ? values : undefined)
+  }
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const current = value?.[field.id]
+
+    switch (field.type) {
+      case 'enum':
+        return (
+          <Select
+            value={typeof current === 'string' ? current : NO_VALUE}
+            onValueChange={(selected) => setValue(field.id, selected === NO_VALUE ? undefined : selected)}
+          >
+            <SelectTrigger id={`field-${field.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_VALUE}>None</SelectItem>
+              {(field.options || []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      case 'multiSelect': {
+        const selected = Array.isArray(current) ? current : []
+        return (
+          <div className="flex flex-wrap gap-4 pt-1">
+            {(field.options || []).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => setValue(
+                    field.id,
+                    checked === true ? [...selected, option] : selected.filter(item => item !== option)
+                  )}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        )
+      }
+      case 'number':
+        return (
+          <Input
+            id={`field-${field.id}`}
+            type="number"
+            value={typeof current === 'number' ? current : ''}
+            onChange={(e) => setValue(field.id, e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        )
+      default:
+        return (
+          <Input
+            id={`field-${field.id}`}
+            type={field.type === 'date' ? 'date' : 'text'}
+            value={typeof current === 'string' ? current : ''}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            placeholder={field.type === 'user' ? 'User name' : undefined}
+          />
+        )
+    }
+  }
+
+  if (fields.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Fields</CardTitle>
+        <CardDescription>Fields defined for this workspace in Settings</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        {fields.map(field => (
+          <div key={field.id} className="space-y-2">
+            <Label htmlFor={`field-${field.id}`}>{field.label}</Label>
+            {renderInput(field)}
+            {field.description && <p className="text-xs text-muted-foreground">{field.description}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
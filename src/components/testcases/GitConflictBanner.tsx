@@ -0,0 +1,114 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { GitMerge, Loader2 } from 'lucide-react'
+import type { GitConflict, GitConflictVersions } from '@/lib/storage'
+
+interface GitConflictBannerProps {
+  testCaseId: string
+  onResolved: () => void
+}
+
+// Shown on the edit page while a pull left the test case file in conflict
+export function GitConflictBanner({ testCaseId, onResolved }: GitConflictBannerProps) {
+  const [conflict, setConflict] = useState<GitConflictVersions | null>(null)
+  const [resolving, setResolving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadConflict = useCallback(async () => {
+    try {
+      const response = await fetch('/api/git')
+      if (!response.ok) return
+
+      const status = await response.json()
+      const match = (status.conflicts || []).find(
+        (c: GitConflict) => c.entityType === 'testCase' && c.entityId === testCaseId
+      )
+      if (!match) {
+        setConflict(null)
+        return
+      }
+
+      const versions = await fetch(`/api/git/conflicts?path=${encodeURIComponent(match.path)}`)
+      if (versions.ok) {
+        setConflict(await versions.json())
+      }
+    } catch (error) {
+      console.error('Failed to load git conflicts:', error)
+    }
+  }, [testCaseId])
+
+  useEffect(() => {
+    loadConflict()
+  }, [loadConflict])
+
+  const resolve = async (resolution: 'ours' | 'theirs') => {
+    if (!conflict) return
+
+    try {
+      setResolving(true)
+      setError(null)
+      const response = await fetch('/api/git/conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: conflict.path, resolution })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to resolve conflict')
+        return
+      }
+
+      setConflict(null)
+      onResolved()
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+      setError('Failed to resolve conflict')
+    } finally {
+      setResolving(false)
+    }
+  }
+
+  if (!conflict) return null
+
+  const versions: Array<{ label: string; content: string | null; resolution: 'ours' | 'theirs' }> = [
+    { label: 'Workspace version', content: conflict.ours, resolution: 'ours' },
+    { label: 'Remote version', content: conflict.theirs, resolution: 'theirs' }
+  ]
+
+  return (
+    <Card className="mb-6 border-red-200 dark:border-red-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-red-700 dark:text-red-400">
+          <GitMerge className="h-5 w-5" />
+          Merge Conflict
+        </CardTitle>
+        <CardDescription>
+          This test case was changed both here and on the remote since the last pull.
+          Choose the version to keep, then edit it as usual.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {versions.map(version => (
+            <div key={version.resolution} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{version.label}</h4>
+                <Button size="sm" variant="outline" onClick={() => resolve(version.resolution)} disabled={resolving}>
+                  {resolving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {version.content === null ? 'Keep deleted' : 'Keep this version'}
+                </Button>
+              </div>
+              <pre className="text-xs bg-muted p-3 rounded-md overflow-auto max-h-80 whitespace-pre-wrap">
+                {version.content === null ? 'Deleted' : version.content}
+              </pre>
+            </div>
+          ))}
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Archive, CheckCircle, MessageSquare, RotateCcw, Send, UserPlus, XCircle } from 'lucide-react'
+import { ReviewAction, ReviewStatus, TestCase } from '@/lib/types'
+import { REVIEW_STATUS_LABELS, getAllowedReviewActions, getReviewStatus } from '@/lib/test-case-review'
+
+interface ReviewPanelProps {
+  testCase: Pick<TestCase, 'id' | 'reviewStatus' | 'reviewers' | 'reviewComments'>
+  onReviewed: (testCase: TestCase) => void
+}
+
+export const REVIEW_STATUS_COLORS: Record<ReviewStatus, string> = {
+  draft: 'bg-muted text-muted-foreground border-border',
+  in_review: 'bg-warning/10 text-warning border-warning/20',
+  approved: 'bg-success/10 text-success border-success/20',
+  deprecated: 'bg-destructive/10 text-destructive border-destructive/20'
+}
+
+const ACTION_BUTTONS: Array<{ action: ReviewAction; label: string; icon: typeof Send; variant: 'default' | 'outline' }> = [
+  { action: 'submit', label: 'Submit for review', icon: Send, variant: 'default' },
+  { action: 'approve', label: 'Approve', icon: CheckCircle, variant: 'default' },
+  { action: 'reject', label: 'Reject', icon: XCircle, variant: 'outline' },
+  { action: 'assign', label: 'Assign reviewers', icon: UserPlus, variant: 'outline' },
+  { action: 'comment', label: 'Comment', icon: MessageSquare, variant: 'outline' },
+  { action: 'reopen', label: 'Reopen as draft', icon: RotateCcw, variant: 'outline' },
+  { action: 'deprecate', label: 'Deprecate', icon: Archive, variant: 'outline' }
+]
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  submit: 'submitted for review',
+  assign: 'assigned reviewers',
+  approve: 'approved',
+  reject: 'rejected',
+  deprecate: 'deprecated',
+  reopen: 'reopened',
+  comment: 'commented'
+}
+
+// Review status, reviewers and comments of a test case with the actions its status allows
+export function ReviewPanel({ testCase, onReviewed }: ReviewPanelProps) {
+  const [comment, setComment] = useState('')
+  const [reviewers, setReviewers] = useState((testCase.reviewers || []).join(', '))
+  const [submitting, setSubmitting] = useState<ReviewAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const status = getReviewStatus(testCase)
+  const allowed = getAllowedReviewActions(testCase)
+  const comments = testCase.reviewComments || []
+
+  const review = async (action: ReviewAction) => {
+    try {
+      setSubmitting(action)
+      setError(null)
+      const response = await fetch(`/api/testcases/${testCase.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          comment,
+          ...(action === 'submit' || action === 'assign'
+            ? { reviewers: reviewers.split(',').map(reviewer => reviewer.trim()).filter(Boolean) }
+            : {})
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to update review')
+        return
+      }
+      setComment('')
+      onReviewed(data.testCase)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update review')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Review</CardTitle>
+          <Badge className={REVIEW_STATUS_COLORS[status]}>{REVIEW_STATUS_LABELS[status]}</Badge>
+        </div>
+        <CardDescription>
+          {testCase.reviewers && testCase.reviewers.length > 0
+            ? `Reviewers: ${testCase.reviewers.join(', ')}`
+            : 'No reviewers assigned; anyone can approve'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {comments.length > 0 && (
+          <ul className="space-y-3 text-sm">
+            {comments.map(entry => (
+              <li key={entry.id} className="border-l-2 pl-3">
+                <div className="text-muted-foreground">
+                  <span className="font-medium text-foreground">{entry.author}</span> {ACTION_LABELS[entry.action]} ·{' '}
+                  {new Date(entry.createdAt).toLocaleString()}
+                </div>
+                {entry.body && <p className="whitespace-pre-wrap">{entry.body}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {(allowed.includes('submit') || allowed.includes('assign')) && (
+          <Input
+            value={reviewers}
+            onChange={(e) => setReviewers(e.target.value)}
+            placeholder="Reviewers, comma separated"
+          />
+        )}
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Comment (required to reject)"
+          rows={3}
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          {ACTION_BUTTONS.filter(button => allowed.includes(button.action)).map(({ action, label, icon: Icon, variant }) => (
+            <Button
+              key={action}
+              size="sm"
+              variant={variant}
+              disabled={submitting !== null || ((action === 'reject' || action === 'comment') && !comment.trim())}
+              onClick={() => review(action)}
+            >
+              <Icon className="h-4 w-4 mr-2" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
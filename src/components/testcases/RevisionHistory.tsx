@@ -0,0 +1,191 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { History, RotateCcw, GitCompare, Loader2 } from 'lucide-react'
+import { TestCase } from '@/lib/types'
+import { TestCaseDiff } from '@/lib/revision-diff'
+
+interface RevisionSummary {
+  revision: number
+  author: string
+  createdAt: string
+  summary: string
+}
+
+interface RevisionHistoryProps {
+  testCaseId: string
+  onRestored: (testCase: TestCase) => void
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function RevisionHistory({ testCaseId, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([])
+  const [latest, setLatest] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState<number | null>(null)
+  const [comparing, setComparing] = useState<number | null>(null)
+  const [diff, setDiff] = useState<TestCaseDiff | null>(null)
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/testcases/${testCaseId}/revisions`)
+      if (!response.ok) {
+        setRevisions([])
+        return
+      }
+      const data = await response.json()
+      setRevisions(data.revisions)
+      setLatest(data.latest)
+    } catch (error) {
+      console.error('Failed to load revisions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [testCaseId])
+
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions])
+
+  const compareWithLatest = async (revision: number) => {
+    if (comparing === revision) {
+      setComparing(null)
+      setDiff(null)
+      return
+    }
+
+    const response = await fetch(`/api/testcases/${testCaseId}/revisions?from=${revision}`)
+    if (response.ok) {
+      const data = await response.json()
+      setComparing(revision)
+      setDiff(data.diff)
+    }
+  }
+
+  const restore = async (revision: number) => {
+    if (!confirm(`Restore revision ${revision}? The current version stays in the history.`)) return
+
+    try {
+      setRestoring(revision)
+      const response = await fetch(`/api/testcases/${testCaseId}/revisions/${revision}/restore`, {
+        method: 'POST'
+      })
+      if (!response.ok) {
+        throw new Error('Failed to restore revision')
+      }
+      const data = await response.json()
+      onRestored(data.testCase)
+      setComparing(null)
+      setDiff(null)
+      await loadRevisions()
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
+      alert('Failed to restore revision')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          Every saved change to this test case
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading revisions...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map(revision => (
+              <div key={revision.revision} className="border rounded-lg p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">r{revision.revision}</Badge>
+                      {revision.revision === latest && <Badge variant="secondary">Current</Badge>}
+                      <span className="text-sm font-medium truncate">{revision.summary}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {revision.author} · {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {revision.revision !== latest && (
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => compareWithLatest(revision.revision)}>
+                        <GitCompare className="h-4 w-4 mr-1" />
+                        {comparing === revision.revision ? 'Hide' : 'Compare'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restoring !== null}
+                        onClick={() => restore(revision.revision)}
+                      >
+                        {restoring === revision.revision
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <RotateCcw className="h-4 w-4 mr-1" />}
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {comparing === revision.revision && diff && (
+                  <div className="mt-3 space-y-2 text-sm">
+                    {!diff.hasChanges && (
+                      <p className="text-muted-foreground">Identical to the current version.</p>
+                    )}
+                    {diff.fields.map(change => (
+                      <div key={change.field}>
+                        <span className="font-medium">{change.field}:</span>{' '}
+                        <span className="line-through text-destructive">{formatValue(change.from)}</span>{' '}
+                        → <span className="text-success">{formatValue(change.to)}</span>
+                      </div>
+                    ))}
+                    {diff.steps.filter(step => step.type !== 'unchanged').map((step, index) => (
+                      <div key={index}>
+                        <span className="font-medium">
+                          {step.type === 'added' && `Step ${step.toStep} added`}
+                          {step.type === 'removed' && `Step ${step.fromStep} removed`}
+                          {step.type === 'modified' && `Step ${step.fromStep} → ${step.toStep} changed`}
+                        </span>
+                        {step.changes.map(change => (
+                          <div key={change.field} className="ml-4">
+                            {change.field}:{' '}
+                            <span className="line-through text-destructive">{formatValue(change.from)}</span>{' '}
+                            → <span className="text-success">{formatValue(change.to)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
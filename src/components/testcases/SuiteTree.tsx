@@ -0,0 +1,209 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Pencil,
+  Trash2
+} from 'lucide-react'
+import { SuiteNode, findSuiteNode, flattenSuiteTree, getSiblingSuites } from '@/lib/test-suites'
+import { SuiteStats } from '@/lib/stats-types'
+
+export const ALL_SUITES = 'all'
+export const UNFILED = 'unfiled'
+
+interface SuiteTreeProps {
+  tree: SuiteNode[]
+  stats: SuiteStats[]
+  selected: string // A suite ID, ALL_SUITES or UNFILED
+  onSelect: (selected: string) => void
+  onChange: () => void // Called after the tree was changed on the server
+}
+
+// Suite tree of the test case library with move, rename and reorder actions on the selected suite
+export function SuiteTree({ tree, stats, selected, onSelect, onChange }: SuiteTreeProps) {
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const statsById = new Map(stats.map(stat => [stat.suiteId, stat]))
+  const selectedNode = findSuiteNode(tree, selected)
+  const suites = flattenSuiteTree(tree).map(node => node.suite)
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setError(null)
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      setError(data.error || 'Failed to update suites')
+      return null
+    }
+    onChange()
+    return response.json()
+  }
+
+  const submitName = async () => {
+    if (!name.trim()) return
+
+    if (editing === 'new') {
+      const data = await request('/api/suites', 'POST', { name: name.trim(), parentId: selectedNode?.suite.id })
+      if (data?.suite) onSelect(data.suite.id)
+    } else if (editing === 'rename' && selectedNode) {
+      await request(`/api/suites/${selectedNode.suite.id}`, 'PUT', { name: name.trim() })
+    }
+    setEditing(null)
+    setName('')
+  }
+
+  const move = (parentId: string | undefined, position?: number) => {
+    if (!selectedNode) return
+    request(`/api/suites/${selectedNode.suite.id}/move`, 'POST', { parentId: parentId ?? null, position })
+  }
+
+  const deleteSuite = async () => {
+    if (!selectedNode || !confirm(`Delete the suite "${selectedNode.suite.name}"?`)) return
+    if (await request(`/api/suites/${selectedNode.suite.id}`, 'DELETE')) {
+      onSelect(ALL_SUITES)
+    }
+  }
+
+  // Reorder and indent/outdent relative to the selected suite's siblings
+  const suite = selectedNode?.suite
+  const siblings = suite ? getSiblingSuites(suites, suite.parentId) : []
+  const index = suite ? siblings.findIndex(sibling => sibling.id === suite.id) : -1
+  const parent = suite?.parentId ? suites.find(candidate => candidate.id === suite.parentId) : undefined
+
+  const renderNode = (node: SuiteNode) => {
+    const stat = statsById.get(node.suite.id)
+    const isSelected = node.suite.id === selected
+    const Icon = isSelected ? FolderOpen : Folder
+
+    return (
+      <div key={node.suite.id}>
+        <button
+          onClick={() => onSelect(node.suite.id)}
+          className={`w-full flex items-center gap-2 rounded-md px-2 py-1 text-sm text-left hover:bg-accent ${isSelected ? 'bg-accent font-medium' : ''}`}
+          style={{ paddingLeft: `${(node.path.length - 1) * 1 + 0.5}rem` }}
+        >
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1 truncate">{node.suite.name}</span>
+          {stat && stat.executedCount > 0 && (
+            <span className="text-xs text-muted-foreground">{stat.passRate}%</span>
+          )}
+          <Badge variant="outline" className="text-xs">{stat?.testCaseCount ?? 0}</Badge>
+        </button>
+        {node.children.map(renderNode)}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Suites</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        <button
+          onClick={() => onSelect(ALL_SUITES)}
+          className={`w-full rounded-md px-2 py-1 text-sm text-left hover:bg-accent ${selected === ALL_SUITES ? 'bg-accent font-medium' : ''}`}
+        >
+          All test cases
+        </button>
+        <button
+          onClick={() => onSelect(UNFILED)}
+          className={`w-full rounded-md px-2 py-1 text-sm text-left hover:bg-accent ${selected === UNFILED ? 'bg-accent font-medium' : ''}`}
+        >
+          Not in a suite
+        </button>
+
+        {tree.map(renderNode)}
+
+        {error && <p className="text-xs text-destructive pt-2">{error}</p>}
+
+        {editing ? (
+          <div className="flex gap-1 pt-2">
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitName()
+                if (e.key === 'Escape') setEditing(null)
+              }}
+              placeholder={editing === 'new' ? 'Suite name' : 'New name'}
+              className="h-8"
+            />
+            <Button size="sm" onClick={submitName} disabled={!name.trim()}>
+              Save
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-1 pt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              title={selectedNode ? `New suite in ${selectedNode.suite.name}` : 'New suite'}
+              onClick={() => { setEditing('new'); setName('') }}
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
+            {suite && (
+              <>
+                <Button variant="ghost" size="sm" title="Rename" onClick={() => { setEditing('rename'); setName(suite.name) }}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" title="Move up" disabled={index <= 0} onClick={() => move(suite.parentId, index - 1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Move down"
+                  disabled={index >= siblings.length - 1}
+                  onClick={() => move(suite.parentId, index + 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Move out of its parent suite"
+                  disabled={!parent}
+                  onClick={() => parent && move(parent.parentId, getSiblingSuites(suites, parent.parentId).findIndex(s => s.id === parent.id) + 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Move into the suite above"
+                  disabled={index <= 0}
+                  onClick={() => move(siblings[index - 1].id)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" title="Delete" onClick={deleteSuite}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Plus, Trash2 } from 'lucide-react'
+import { TestParameters } from '@/lib/types'
+
+interface TestDataTableEditorProps {
+  value?: TestParameters
+  onChange: (parameters: TestParameters | undefined) => void
+}
+
+// Data table of a parameterized test case; steps use the columns as {{name}}
+export function TestDataTableEditor({ value, onChange }: TestDataTableEditorProps) {
+  const [newName, setNewName] = useState('')
+  const names = value?.names || []
+  const rows = value?.rows || []
+
+  // An empty table means the test case is not parameterized
+  const update = (parameters: TestParameters) => {
+    onChange(parameters.names.length === 0 && parameters.rows.length === 0 ? undefined : parameters)
+  }
+
+  const addColumn = () => {
+    const name = newName.trim().replace(/[{}\s]+/g, '_')
+    if (!name || names.includes(name)) return
+
+    update({ names: [...names, name], rows })
+    setNewName('')
+  }
+
+  const removeColumn = (name: string) => {
+    update({
+      names: names.filter(n => n !== name),
+      rows: rows.map(row => {
+        const values = { ...row.values }
+        delete values[name]
+        return { ...row, values }
+      })
+    })
+  }
+
+  const addRow = () => {
+    // Row IDs only need to be unique within the table
+    const nextNumber = rows.reduce((max, row) => Math.max(max, Number(row.id.replace(/^row-/, '')) || 0), 0) + 1
+    update({ names, rows: [...rows, { id: `row-${nextNumber}`, values: Object.fromEntries(names.map(n => [n, ''])) }] })
+  }
+
+  const removeRow = (rowId: string) => {
+    update({ names, rows: rows.filter(row => row.id !== rowId) })
+  }
+
+  const setValue = (rowId: string, name: string, cell: string) => {
+    update({
+      names,
+      rows: rows.map(row => row.id === rowId ? { ...row, values: { ...row.values, [name]: cell } } : row)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test Data</CardTitle>
+        <CardDescription>
+          Run the steps once per row. Reference a column in a step as {'{{name}}'}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                addColumn()
+              }
+            }}
+            placeholder="Column name, e.g. resolution"
+            className="max-w-xs"
+          />
+          <Button variant="outline" onClick={addColumn} disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Column
+          </Button>
+          <Button variant="outline" onClick={addRow} disabled={names.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Row
+          </Button>
+        </div>
+
+        {names.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  {names.map(name => (
+                    <th key={name} className="text-left font-medium p-2">
+                      <div className="flex items-center gap-1">
+                        <code>{name}</code>
+                        <Button variant="ghost" size="sm" onClick={() => removeColumn(name)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </th>
+                  ))}
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.id}>
+                    {names.map(name => (
+                      <td key={name} className="p-1">
+                        <Input
+                          value={row.values[name] ?? ''}
+                          onChange={(e) => setValue(row.id, name, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                    <td className="p-1">
+                      <Button variant="ghost" size="sm" onClick={() => removeRow(row.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <p className="text-sm text-muted-foreground p-2">Add a row for each combination of values to test.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
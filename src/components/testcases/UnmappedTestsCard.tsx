@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Link2, Loader2 } from 'lucide-react'
+import { TestCase } from '@/lib/types'
+import { UnmappedAutomatedTest } from '@/lib/junit'
+
+const STATUS_COLORS: Record<string, string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800',
+  skip: 'bg-gray-100 text-gray-800'
+}
+
+interface UnmappedTestsCardProps {
+  onLinked?: () => void
+}
+
+// Automated tests from imported reports that no test case covers yet, with a picker to link each one
+export function UnmappedTestsCard({ onLinked }: UnmappedTestsCardProps) {
+  const [unmappedTests, setUnmappedTests] = useState<UnmappedAutomatedTest[]>([])
+  const [testCases, setTestCases] = useState<TestCase[]>([])
+  const [loading, setLoading] = useState(true)
+  const [linking, setLinking] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadUnmappedTests = async () => {
+    try {
+      const response = await fetch('/api/testruns/unmapped-tests')
+      if (response.ok) setUnmappedTests(await response.json())
+    } catch (err) {
+      console.error('Failed to load unmapped automated tests:', err)
+    }
+  }
+
+  useEffect(() => {
+    const load = async () => {
+      await loadUnmappedTests()
+      const response = await fetch('/api/testcases')
+      if (response.ok) setTestCases(await response.json())
+      setLoading(false)
+    }
+    load()
+  }, [])
+
+  const linkTest = async (testId: string, testCaseId: string) => {
+    const testCase = testCases.find(candidate => candidate.id === testCaseId)
+    if (!testCase) return
+
+    try {
+      setLinking(testId)
+      setError(null)
+      const response = await fetch(`/api/testcases/${testCaseId}/automated-tests`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ testIds: [...(testCase.automatedTests || []), testId] })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to link the automated test')
+      }
+      setTestCases(testCases.map(candidate => (candidate.id === testCaseId ? data.testCase : candidate)))
+      await loadUnmappedTests()
+      onLinked?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link the automated test')
+    } finally {
+      setLinking(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Unmapped Automated Tests
+        </CardTitle>
+        <CardDescription>
+          Tests from imported JUnit reports that no test case is linked to. Linked tests count towards the test case from the next import.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading automated tests...
+          </div>
+        ) : unmappedTests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every imported automated test is linked to a test case.</p>
+        ) : (
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {unmappedTests.map(test => (
+              <li key={test.testId} className="flex items-center gap-3 text-sm">
+                <Badge className={STATUS_COLORS[test.status] || STATUS_COLORS.skip}>{test.status}</Badge>
+                <span className="flex-1 font-mono truncate" title={test.message || test.testId}>{test.testId}</span>
+                <Select value="" onValueChange={testCaseId => linkTest(test.testId, testCaseId)} disabled={linking !== null}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder={linking === test.testId ? 'Linking...' : 'Link to test case...'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {testCases.map(testCase => (
+                      <SelectItem key={testCase.id} value={testCase.id}>{testCase.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </li>
+            ))}
+          </ul>
+        )}
+        {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowDown, ArrowRight, ArrowUp, GitBranch, X } from 'lucide-react'
+import { TestCase } from '@/lib/types'
+import { TestDependencies, findDependencyCycle, getDependencyLevels, getPrerequisites, orderTestCases } from '@/lib/test-dependencies'
+
+interface DependencyEditorProps {
+  testCases: TestCase[] // The selected test cases, in their listed order
+  dependencies: TestDependencies
+  onChange: (dependencies: TestDependencies) => void
+  onReorder: (testCaseIds: string[]) => void
+}
+
+// Orders the test cases of a plan and sets their prerequisites, with the resulting graph in run order
+export function DependencyEditor({ testCases, dependencies, onChange, onReorder }: DependencyEditorProps) {
+  const ids = testCases.map(testCase => testCase.id)
+  const titles = new Map(testCases.map(testCase => [testCase.id, testCase.title]))
+  const cycle = findDependencyCycle(dependencies)
+  const levels = getDependencyLevels(ids, dependencies)
+  const runOrder = orderTestCases(ids, dependencies)
+  const columns = runOrder.reduce<string[][]>((acc, testCaseId) => {
+    const level = levels.get(testCaseId) || 0
+    acc[level] = [...(acc[level] || []), testCaseId]
+    return acc
+  }, [])
+
+  const setPrerequisites = (testCaseId: string, prerequisites: string[]) => {
+    const next = { ...dependencies }
+    if (prerequisites.length > 0) {
+      next[testCaseId] = prerequisites
+    } else {
+      delete next[testCaseId]
+    }
+    onChange(next)
+  }
+
+  const move = (index: number, offset: number) => {
+    const next = [...ids]
+    const [testCaseId] = next.splice(index, 1)
+    next.splice(index + offset, 0, testCaseId)
+    onReorder(next)
+  }
+
+  return (
+    <Card className="bg-card border-2 border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center text-card-foreground">
+          <GitBranch className="h-5 w-5 mr-2" />
+          Order and Dependencies
+        </CardTitle>
+        <CardDescription>
+          Test cases run in this order, each after its prerequisites. When a prerequisite fails, the test cases depending on it are blocked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {cycle && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+            <p className="text-sm text-destructive">
+              These test cases depend on each other in a cycle: {cycle.map(testCaseId => titles.get(testCaseId) || testCaseId).join(' → ')}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {testCases.map((testCase, index) => {
+            const prerequisites = getPrerequisites(dependencies, testCase.id).filter(prerequisite => titles.has(prerequisite))
+            const candidates = testCases.filter(other => other.id !== testCase.id && !prerequisites.includes(other.id))
+            return (
+              <div key={testCase.id} className="flex items-center gap-2 p-2 border rounded-lg">
+                <div className="flex flex-col">
+                  <Button variant="ghost" size="sm" className="h-5 px-1" disabled={index === 0} onClick={() => move(index, -1)}>
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-5 px-1" disabled={index === testCases.length - 1} onClick={() => move(index, 1)}>
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{testCase.title}</div>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    {prerequisites.map(prerequisite => (
+                      <Badge key={prerequisite} variant="secondary" className="text-xs">
+                        after {titles.get(prerequisite)}
+                        <button
+                          type="button"
+                          className="ml-1"
+                          onClick={() => setPrerequisites(testCase.id, prerequisites.filter(other => other !== prerequisite))}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                {candidates.length > 0 && (
+                  <Select value="" onValueChange={(prerequisite) => setPrerequisites(testCase.id, [...prerequisites, prerequisite])}>
+                    <SelectTrigger className="w-44 h-8 text-xs">
+                      <SelectValue placeholder="Depends on..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {candidates.map(candidate => (
+                        <SelectItem key={candidate.id} value={candidate.id}>{candidate.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {Object.keys(dependencies).length > 0 && !cycle && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Dependency Graph</h3>
+            <div className="flex items-start gap-2 overflow-x-auto pb-2">
+              {columns.map((column, level) => (
+                <div key={level} className="flex items-start gap-2">
+                  {level > 0 && <ArrowRight className="h-4 w-4 mt-3 text-muted-foreground shrink-0" />}
+                  <div className="space-y-2 min-w-[10rem]">
+                    {column.map(testCaseId => (
+                      <div key={testCaseId} className="p-2 border rounded-md text-xs">
+                        <div className="font-medium truncate">{titles.get(testCaseId)}</div>
+                        {getPrerequisites(dependencies, testCaseId).filter(prerequisite => titles.has(prerequisite)).length > 0 && (
+                          <div className="text-muted-foreground truncate">
+                            needs {getPrerequisites(dependencies, testCaseId).flatMap(prerequisite => titles.get(prerequisite) || []).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, Shuffle, Tag, Users } from 'lucide-react'
+import { TestCase, TestRun } from '@/lib/types'
+import { AssignmentRequest, TagAssignmentRule } from '@/lib/run-assignments'
+
+interface RunAssignmentsCardProps {
+  testRun: TestRun
+  testCases: TestCase[]
+  onChange: (testRun: TestRun) => void
+}
+
+// Rules are written one per line as `tag: tester`
+function parseTagRules(text: string): TagAssignmentRule[] {
+  return text.split('\n').flatMap(line => {
+    const separator = line.indexOf(':')
+    if (separator === -1) return []
+    const tag = line.slice(0, separator).trim()
+    const assignee = line.slice(separator + 1).trim()
+    return tag && assignee ? [{ tag, assignee }] : []
+  })
+}
+
+// Splits the test cases of a shared run across testers, in bulk or one by one
+export function RunAssignmentsCard({ testRun, testCases, onChange }: RunAssignmentsCardProps) {
+  const [testers, setTesters] = useState('')
+  const [onlyUnassigned, setOnlyUnassigned] = useState(false)
+  const [tagRules, setTagRules] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const assignees = testRun.assignees || {}
+  const counts = Object.values(assignees).reduce<Record<string, number>>((acc, assignee) => {
+    acc[assignee] = (acc[assignee] || 0) + 1
+    return acc
+  }, {})
+
+  const assign = async (request: AssignmentRequest) => {
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch(`/api/testruns/${testRun.id}/assignments`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.issues?.[0] ? `${data.issues[0].path} ${data.issues[0].message}` : data.error)
+      }
+      onChange(data.testRun)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update assignments')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const testerList = testers.split(',').map(tester => tester.trim()).filter(Boolean)
+  const rules = parseTagRules(tagRules)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Assignments
+        </CardTitle>
+        <CardDescription>
+          Testers find the test cases assigned to them under My Assigned Tests in the test runner.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Round robin</label>
+            <Input
+              placeholder="alice, bob, carol"
+              value={testers}
+              onChange={(e) => setTesters(e.target.value)}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={onlyUnassigned} onCheckedChange={(checked) => setOnlyUnassigned(checked as boolean)} />
+              Only unassigned test cases
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={saving || testerList.length === 0}
+              onClick={() => assign({ roundRobin: { assignees: testerList, onlyUnassigned } })}
+            >
+              <Shuffle className="h-3 w-3 mr-2" />
+              Deal Out
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">By tag</label>
+            <Textarea
+              placeholder={'checkout: alice\napi: bob'}
+              value={tagRules}
+              onChange={(e) => setTagRules(e.target.value)}
+              rows={3}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={saving || rules.length === 0}
+              onClick={() => assign({ byTag: rules })}
+            >
+              <Tag className="h-3 w-3 mr-2" />
+              Assign by Tag
+            </Button>
+          </div>
+        </div>
+
+        {Object.keys(counts).length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(counts).sort(([a], [b]) => a.localeCompare(b)).map(([assignee, count]) => (
+              <Badge key={assignee} variant="secondary">{assignee}: {count}</Badge>
+            ))}
+            <Badge variant="outline">Unassigned: {testCases.filter(testCase => !assignees[testCase.id]).length}</Badge>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {testCases.map(testCase => (
+            <div key={testCase.id} className="flex items-center gap-3">
+              <span className="flex-1 text-sm truncate">{testCase.title}</span>
+              {testCase.tags.length > 0 && (
+                <span className="text-xs text-muted-foreground truncate max-w-[10rem]">{testCase.tags.join(', ')}</span>
+              )}
+              <Input
+                key={`${testCase.id}-${assignees[testCase.id] || ''}`}
+                className="w-40 h-8"
+                placeholder="Unassigned"
+                defaultValue={assignees[testCase.id] || ''}
+                disabled={saving}
+                onBlur={(e) => {
+                  const assignee = e.target.value.trim()
+                  if (assignee !== (assignees[testCase.id] || '')) {
+                    assign({ assignments: { [testCase.id]: assignee || null } })
+                  }
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        {saving && (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Saving assignments...
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
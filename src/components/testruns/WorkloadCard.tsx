@@ -0,0 +1,93 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Users } from 'lucide-react'
+import { TestRun } from '@/lib/types'
+import { AssigneeWorkload } from '@/lib/run-assignments'
+
+const OPEN_RUNS = 'open'
+
+// Progress of each tester on the test cases assigned to them, across the open runs or in one run
+export function WorkloadCard() {
+  const [testRuns, setTestRuns] = useState<TestRun[]>([])
+  const [testRunId, setTestRunId] = useState(OPEN_RUNS)
+  const [workload, setWorkload] = useState<AssigneeWorkload[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/testruns')
+      .then(response => response.ok ? response.json() : [])
+      .then((runs: TestRun[]) => setTestRuns(runs.filter(run => run.assignees)))
+      .catch(() => setTestRuns([]))
+  }, [])
+
+  useEffect(() => {
+    const loadWorkload = async () => {
+      try {
+        setLoading(true)
+        const query = testRunId === OPEN_RUNS ? '' : `?testRunId=${testRunId}`
+        const response = await fetch(`/api/test-runner/workload${query}`)
+        setWorkload(response.ok ? await response.json() : [])
+      } catch (error) {
+        console.error('Failed to load workload:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadWorkload()
+  }, [testRunId])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Users className="h-5 w-5 mr-2" />
+              Workload by Assignee
+            </CardTitle>
+            <CardDescription>Assigned test cases and how far each tester has got</CardDescription>
+          </div>
+          <Select value={testRunId} onValueChange={setTestRunId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={OPEN_RUNS}>All open runs</SelectItem>
+              {testRuns.map(run => (
+                <SelectItem key={run.id} value={run.id}>{run.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : workload.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No test cases are assigned in open runs.</p>
+        ) : (
+          <div className="space-y-4">
+            {workload.map(item => (
+              <div key={item.assignee ?? ''} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{item.assignee ?? 'Unassigned'}</span>
+                  <span className="text-muted-foreground">
+                    {item.executed} of {item.assigned} executed · {item.passed} passed · {item.failed} failed
+                    {item.blocked > 0 && ` · ${item.blocked} blocked`}
+                  </span>
+                </div>
+                <Progress value={item.progress} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
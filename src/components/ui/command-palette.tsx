@@ -35,9 +35,32 @@ interface CommandPaletteProps extends DialogProps {
   testCases?: Array<{ id: string; title: string; priority: string }>
 }
 
+// Test cases shown for a search, the rest are one search away on the test cases page
+const MAX_SEARCH_RESULTS = 8
+
 export function CommandPalette({ testCases = [], ...props }: CommandPaletteProps) {
   const router = useRouter()
   const [open, setOpen] = React.useState(false)
+  const [search, setSearch] = React.useState("")
+  const [results, setResults] = React.useState<NonNullable<CommandPaletteProps["testCases"]>>([])
+
+  // Searches use the test case search syntax, e.g. priority:high "login button"
+  React.useEffect(() => {
+    if (!search.trim()) {
+      setResults([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/testcases?q=${encodeURIComponent(search)}`)
+        setResults(response.ok ? (await response.json()).slice(0, MAX_SEARCH_RESULTS) : [])
+      } catch {
+        setResults([])
+      }
+    }, 200)
+    return () => clearTimeout(timeout)
+  }, [search])
 
   React.useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -74,9 +97,26 @@ export function CommandPalette({ testCases = [], ...props }: CommandPaletteProps
         </kbd>
       </Button>
       <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput placeholder="Type a command or search..." />
+        <CommandInput placeholder="Type a command or search..." value={search} onValueChange={setSearch} />
         <CommandList>
-          <CommandEmpty>No results found.</CommandEmpty>
+          {results.length === 0 && <CommandEmpty>No results found.</CommandEmpty>}
+          {results.length > 0 && (
+            <CommandGroup heading="Test Cases" forceMount>
+              {results.map((testCase) => (
+                <CommandItem
+                  key={testCase.id}
+                  value={`result-${testCase.id}`}
+                  forceMount
+                  onSelect={() => {
+                    runCommand(() => router.push(`/test-runner/execute/${testCase.id}`))
+                  }}
+                >
+                  <File className="mr-2 h-4 w-4" />
+                  {testCase.title}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
           <CommandGroup heading="Navigation">
             <CommandItem
               onSelect={() => runCommand(() => router.push("/"))}
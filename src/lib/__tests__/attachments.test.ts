@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { AttachmentError, FileUtils } from '../file-utils'
+import { FileStorageAdapter, StorageAdapter } from '../storage'
+import { checkAttachmentContent, normalizeAttachmentTarget, sanitizeFileName } from '../attachments'
+import { TestCase, TestRun } from '../types'
+import { storageBackends } from '@/test-utils/storage-backends'
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d])
+
+const testCase: TestCase = {
+  id: 'tc-1',
+  title: 'Login works',
+  description: 'User can log in',
+  steps: [{ id: 'step-1', stepNumber: 1, action: 'Log in', expectedResult: 'Dashboard is shown' }],
+  expectedResult: 'User is logged in',
+  priority: 'high',
+  tags: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const testRun: TestRun = {
+  id: 'run-1',
+  testPlanId: 'plan-1',
+  name: 'Smoke run',
+  startedAt: '2025-07-03T00:00:00.000Z',
+  status: 'in_progress',
+  executedBy: 'tester',
+  results: []
+}
+
+const screenshot = {
+  target: { type: 'stepResult' as const, testRunId: 'run-1', testCaseId: 'tc-1', stepId: 'step-1' },
+  fileName: 'image.png',
+  contentType: 'image/png',
+  content: PNG,
+  uploadedBy: 'tester'
+}
+
+describe('attachment rules', () => {
+  it('should require the IDs of the target type', () => {
+    expect(normalizeAttachmentTarget({ type: 'step', testCaseId: 'tc-1', stepId: 'step-1', testRunId: 'run-1' }))
+      .toEqual({ type: 'step', testCaseId: 'tc-1', stepId: 'step-1' })
+    expect(() => normalizeAttachmentTarget({ type: 'stepResult', testRunId: 'run-1' })).toThrow('testCaseId is required')
+    expect(() => normalizeAttachmentTarget({ type: 'folder' as never })).toThrow(AttachmentError)
+  })
+
+  it('should check the content against the declared type', () => {
+    expect(() => checkAttachmentContent('image/png', PNG)).not.toThrow()
+    expect(() => checkAttachmentContent('text/plain', Buffer.from('Steps to reproduce'))).not.toThrow()
+    expect(() => checkAttachmentContent('image/jpeg', PNG)).toThrow('does not match')
+    expect(() => checkAttachmentContent('text/plain', PNG)).toThrow('does not match')
+    expect(() => checkAttachmentContent('text/html', Buffer.from('<p>hi</p>'))).toThrow('is not allowed')
+  })
+
+  it('should strip paths and control characters from file names', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd')
+    expect(sanitizeFileName('C:\\shots\\"fail"\n.png')).toBe('fail.png')
+    expect(sanitizeFileName('..')).toBe('attachment')
+  })
+})
+
+describe('FileUtils attachments', () => {
+  let workspaceDir: string
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-attachments-'))
+  })
+
+  afterEach(async () => {
+    FileUtils.setStorage(null)
+    delete process.env.QA_ATTACHMENT_MAX_BYTES
+    await fs.rm(workspaceDir, { recursive: true, force: true })
+  })
+
+  describe.each(storageBackends)('%s backend', (_name, createAdapter) => {
+    let storage: StorageAdapter
+
+    beforeEach(async () => {
+      storage = createAdapter(workspaceDir)
+      FileUtils.setStorage(storage)
+      await storage.saveTestCase(testCase)
+      await storage.saveTestRun(testRun)
+    })
+
+    it('should store, list and load attachments', async () => {
+      const { attachment, created } = await FileUtils.addAttachment(screenshot)
+
+      expect(created).toBe(true)
+      expect(attachment).toMatchObject({ fileName: 'image.png', contentType: 'image/png', size: PNG.length })
+      expect(attachment.sha256).toHaveLength(64)
+      expect(await FileUtils.getAttachments({ testRunId: 'run-1', stepId: 'step-1' })).toEqual([attachment])
+      expect(await FileUtils.getAttachments({ type: 'testCase' })).toEqual([])
+
+      const loaded = await FileUtils.loadAttachmentContent(attachment.id)
+      expect(loaded?.content.equals(PNG)).toBe(true)
+    })
+
+    it('should store identical content once', async () => {
+      const first = await FileUtils.addAttachment(screenshot)
+      const again = await FileUtils.addAttachment({ ...screenshot, fileName: 'copy.png' })
+      const onCase = await FileUtils.addAttachment({ ...screenshot, target: { type: 'testCase', testCaseId: 'tc-1' } })
+
+      // Same content on the same target is the same attachment
+      expect(again).toEqual({ attachment: first.attachment, created: false })
+      expect(onCase.created).toBe(true)
+      expect(onCase.attachment.sha256).toBe(first.attachment.sha256)
+
+      // Shared content is only removed with the last attachment using it
+      expect(await FileUtils.deleteAttachment(first.attachment.id)).toBe(true)
+      expect(await storage.loadAttachmentContent(first.attachment.sha256)).not.toBeNull()
+      expect(await FileUtils.deleteAttachment(onCase.attachment.id)).toBe(true)
+      expect(await storage.loadAttachmentContent(first.attachment.sha256)).toBeNull()
+      expect(await FileUtils.deleteAttachment(onCase.attachment.id)).toBe(false)
+    })
+  })
+
+  describe('uploads', () => {
+    beforeEach(async () => {
+      const storage = new FileStorageAdapter(workspaceDir)
+      FileUtils.setStorage(storage)
+      await storage.saveTestCase(testCase)
+      await storage.saveTestRun(testRun)
+    })
+
+    it('should reject missing targets, oversized files and mismatched content', async () => {
+      const reasonOf = (promise: Promise<unknown>) => promise.then(() => null, (error: AttachmentError) => error.reason)
+
+      expect(await reasonOf(FileUtils.addAttachment({ ...screenshot, target: { ...screenshot.target, stepId: 'step-9' } })))
+        .toBe('target_not_found')
+      expect(await reasonOf(FileUtils.addAttachment({ ...screenshot, target: { type: 'testRun', testRunId: 'run-9' } })))
+        .toBe('target_not_found')
+      expect(await reasonOf(FileUtils.addAttachment({ ...screenshot, contentType: 'application/pdf' })))
+        .toBe('unsupported_type')
+
+      process.env.QA_ATTACHMENT_MAX_BYTES = '4'
+      expect(await reasonOf(FileUtils.addAttachment(screenshot))).toBe('too_large')
+      expect(await FileUtils.getAttachments()).toEqual([])
+    })
+
+    it('should delete the attachments of a run purged from the trash', async () => {
+      const { attachment } = await FileUtils.addAttachment(screenshot)
+      const caseAttachment = await FileUtils.addAttachment({
+        ...screenshot,
+        target: { type: 'step', testCaseId: 'tc-1', stepId: 'step-1' }
+      })
+
+      const entry = await FileUtils.trashTestRun('run-1', 'tester')
+      expect(await FileUtils.getAttachment(attachment.id)).not.toBeNull()
+
+      await FileUtils.purgeTrashEntry(entry!.id)
+      expect(await FileUtils.getAttachments()).toEqual([caseAttachment.attachment])
+    })
+  })
+})
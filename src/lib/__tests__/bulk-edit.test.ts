@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+import { BulkEditError, FileUtils, SchemaValidationError } from '../file-utils'
+import { applyBulkOperations } from '../bulk-edit'
+import { validateBulkEditRequest } from '../schema'
+import { TestCase, TestPlan } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+const later = '2025-07-02T00:00:00.000Z'
+
+const testCase = (id: string, overrides: Partial<TestCase> = {}) => TestCaseFactory.fixed(id, { tags: ['web'], ...overrides })
+
+const linked = testCase('tc-linked', {
+  githubIssue: { number: 7, url: 'https://github.com/acme/old/issues/7', repository: 'acme/old' }
+})
+const unlinked = testCase('tc-unlinked', { tags: ['web', 'flaky'] })
+
+describe('bulk edit', () => {
+  it('should describe each change it applies', () => {
+    const result = applyBulkOperations(unlinked, [
+      { type: 'addTags', tags: ['smoke', 'web'] },
+      { type: 'removeTags', tags: ['flaky'] },
+      { type: 'setPriority', priority: 'high' }
+    ], later)
+
+    expect(result.testCase).toMatchObject({ tags: ['web', 'smoke'], priority: 'high', updatedAt: later })
+    expect(result.changes).toEqual(['Added tags smoke', 'Removed tags flaky', 'Set priority to high'])
+    expect(applyBulkOperations(unlinked, [{ type: 'setPriority', priority: 'medium' }], later)).toEqual({ testCase: unlinked, changes: [] })
+  })
+
+  it('should keep the issue number when only the repository changes', () => {
+    const { testCase: moved } = applyBulkOperations(linked, [{ type: 'setIssue', repository: 'acme/new' }], later)
+
+    expect(moved.githubIssue).toEqual({ number: 7, url: 'https://github.com/acme/new/issues/7', repository: 'acme/new' })
+    expect(() => applyBulkOperations(unlinked, [{ type: 'setIssue', repository: 'acme/new' }])).toThrow(BulkEditError)
+  })
+
+  it('should reject malformed requests', () => {
+    expect(validateBulkEditRequest({ testCaseIds: [], operations: [{ type: 'clearIssue' }] }).map(issue => issue.path)).toEqual(['testCaseIds'])
+    expect(validateBulkEditRequest({
+      testCaseIds: ['tc-1'],
+      operations: [{ type: 'rename' }, { type: 'setPriority', priority: 'urgent' }, { type: 'setIssue', repository: 'acme' }]
+    }).map(issue => issue.path)).toEqual(['operations[0].type', 'operations[1].priority', 'operations[2].repository'])
+    expect(validateBulkEditRequest({ testCaseIds: ['tc-1'], operations: [{ type: 'delete' }, { type: 'clearIssue' }] })).toHaveLength(1)
+  })
+
+  describeEachStorageBackend('qa-bulk-', () => {
+    const plan: TestPlan = {
+      id: 'plan-1', name: 'Regression', description: '', version: '1.0', testCases: ['tc-linked'], createdAt: now, updatedAt: now, createdBy: 'tester'
+    }
+
+    beforeEach(async () => {
+      await FileUtils.saveTestCase(linked)
+      await FileUtils.saveTestCase(unlinked)
+      await FileUtils.saveTestPlan(plan)
+    })
+
+    const edit = (operations: Parameters<typeof FileUtils.bulkEditTestCases>[0]['operations'], dryRun = false) =>
+      FileUtils.bulkEditTestCases({ testCaseIds: ['tc-linked', 'tc-unlinked'], operations, dryRun, author: 'alice' })
+
+    it('should preview an edit without writing it', async () => {
+      const report = await edit([{ type: 'addTags', tags: ['smoke'] }, { type: 'addToPlan', testPlanId: 'plan-1' }], true)
+
+      expect(report).toMatchObject({ dryRun: true, applied: false })
+      expect(report.items.map(item => [item.testCaseId, item.status, item.changes])).toEqual([
+        ['tc-linked', 'updated', ['Added tags smoke']],
+        ['tc-unlinked', 'updated', ['Added tags smoke', 'Added to plan Regression']]
+      ])
+      expect((await FileUtils.loadTestCase('tc-linked'))?.tags).toEqual(['web'])
+      expect(await FileUtils.getBulkEdits()).toEqual([])
+    })
+
+    it('should write nothing when any test case fails', async () => {
+      const report = await edit([{ type: 'setPriority', priority: 'high' }, { type: 'setIssue', repository: 'acme/new' }])
+
+      expect(report.applied).toBe(false)
+      expect(report.items.find(item => item.status === 'failed')).toMatchObject({ testCaseId: 'tc-unlinked', error: 'Has no linked issue to move to acme/new' })
+      expect((await FileUtils.loadTestCase('tc-linked'))?.priority).toBe('medium')
+    })
+
+    it('should fail the request when a plan doesn\'t exist', async () => {
+      await expect(edit([{ type: 'addToPlan', testPlanId: 'plan-missing' }])).rejects.toThrow(SchemaValidationError)
+    })
+
+    it('should undo an applied edit as a whole', async () => {
+      const report = await edit([{ type: 'removeTags', tags: ['flaky'] }, { type: 'setPriority', priority: 'low' }, { type: 'addToPlan', testPlanId: 'plan-1' }])
+      expect(report.applied).toBe(true)
+      expect((await FileUtils.loadTestCase('tc-unlinked'))).toMatchObject({ tags: ['web'], priority: 'low' })
+      expect((await FileUtils.loadTestPlan('plan-1'))?.testCases).toEqual(['tc-linked', 'tc-unlinked'])
+
+      const undone = await FileUtils.undoBulkEdit(report.bulkEdit!.id, 'bob')
+      expect(undone).toMatchObject({ undoneBy: 'bob' })
+      expect((await FileUtils.loadTestCase('tc-unlinked'))).toMatchObject({ tags: ['web', 'flaky'], priority: 'medium' })
+      expect((await FileUtils.loadTestPlan('plan-1'))?.testCases).toEqual(['tc-linked'])
+
+      await expect(FileUtils.undoBulkEdit(report.bulkEdit!.id, 'bob')).rejects.toMatchObject({ reason: 'alreadyUndone' })
+    })
+
+    it('should restore deleted test cases on undo', async () => {
+      const report = await edit([{ type: 'delete' }])
+      expect(report.items.map(item => item.status)).toEqual(['deleted', 'deleted'])
+      expect(await FileUtils.loadTestCase('tc-linked')).toBeNull()
+
+      await FileUtils.undoBulkEdit(report.bulkEdit!.id, 'alice')
+      expect(await FileUtils.loadTestCase('tc-linked')).not.toBeNull()
+      expect((await FileUtils.loadTestPlan('plan-1'))?.testCases).toEqual(['tc-linked'])
+      expect(await FileUtils.getTrash()).toEqual([])
+    })
+
+    it('should refuse to undo over later changes', async () => {
+      const report = await edit([{ type: 'setPriority', priority: 'critical' }])
+      const current = await FileUtils.loadTestCase('tc-linked')
+      await FileUtils.saveTestCase({ ...current!, title: 'Edited since', updatedAt: '2099-01-01T00:00:00.000Z' })
+
+      await expect(FileUtils.undoBulkEdit(report.bulkEdit!.id, 'alice')).rejects.toMatchObject({ reason: 'conflict', testCaseIds: ['tc-linked'] })
+      expect((await FileUtils.loadTestCase('tc-unlinked'))?.priority).toBe('critical')
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { GET as exportResults } from '@/app/api/testresults/export/route'
+import { FileUtils, SchemaValidationError } from '../file-utils'
+import {
+  buildConfigurationMatrix,
+  createResultSlots,
+  expandConfigurations,
+  getConfigurationStats,
+  parseConfigurationMatrix
+} from '../configurations'
+import { validateTestPlan, validateTestRun } from '../schema'
+import { ConfigurationDimension, TestPlan, TestResultStatus, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const dimensions: ConfigurationDimension[] = [
+  { name: 'browser', values: ['Chrome', 'Firefox'] },
+  { name: 'locale', values: ['en', 'de'] }
+]
+const configurations = expandConfigurations(dimensions)
+
+const plan: TestPlan = {
+  id: 'plan-1',
+  name: 'Cross-browser',
+  description: '',
+  version: '1.0',
+  testCases: ['tc-1', 'tc-2'],
+  configurationMatrix: dimensions,
+  createdAt: now,
+  updatedAt: now,
+  createdBy: 'tester'
+}
+
+// A run of the plan with the given statuses keyed by `testCaseId@configuration`
+const run = (id: string, statuses: Record<string, TestResultStatus>, executedAt = now): TestRun => ({
+  id,
+  testPlanId: 'plan-1',
+  name: `Run ${id}`,
+  startedAt: now,
+  status: 'completed',
+  executedBy: 'tester',
+  configurations,
+  results: createResultSlots(['tc-1', 'tc-2'], configurations, now).map(result => ({
+    ...result,
+    status: statuses[`${result.testCaseId}@${result.configuration}`] || result.status,
+    executedAt
+  }))
+})
+
+describe('configuration matrices', () => {
+  it('should expand every combination in the order of the dimensions', () => {
+    expect(configurations).toEqual([
+      { id: 'Chrome / en', values: { browser: 'Chrome', locale: 'en' } },
+      { id: 'Chrome / de', values: { browser: 'Chrome', locale: 'de' } },
+      { id: 'Firefox / en', values: { browser: 'Firefox', locale: 'en' } },
+      { id: 'Firefox / de', values: { browser: 'Firefox', locale: 'de' } }
+    ])
+    expect(expandConfigurations([])).toEqual([])
+  })
+
+  it('should parse one dimension per line', () => {
+    expect(parseConfigurationMatrix('browser: Chrome, Firefox, Chrome\n\nos:\nlocale : en ,de')).toEqual(dimensions)
+  })
+
+  it('should start a run with a slot per test case per configuration', () => {
+    const slots = createResultSlots(['tc-1', 'tc-2'], configurations, now)
+
+    expect(slots).toHaveLength(8)
+    expect(slots[1]).toEqual({ testCaseId: 'tc-1', configuration: 'Chrome / de', status: 'not_executed', executedAt: now, steps: [] })
+    expect(createResultSlots(['tc-1'], [], now)).toEqual([{ testCaseId: 'tc-1', status: 'not_executed', executedAt: now, steps: [] }])
+  })
+
+  it('should break the pass rate down per configuration', () => {
+    const stats = getConfigurationStats([
+      run('run-1', { 'tc-1@Chrome / en': 'pass', 'tc-2@Chrome / en': 'fail', 'tc-1@Firefox / en': 'pass' }),
+      run('run-2', { 'tc-1@Chrome / en': 'pass' })
+    ])
+
+    expect(stats.find(item => item.configuration === 'Chrome / en')).toEqual({
+      configuration: 'Chrome / en', runs: 2, slots: 4, executed: 3, passed: 2, failed: 1, passRate: 67
+    })
+    expect(stats.find(item => item.configuration === 'Firefox / de')).toMatchObject({ executed: 0, passRate: 0 })
+  })
+
+  it('should show the latest status of each cell and the gaps', () => {
+    const matrix = buildConfigurationMatrix(['tc-1', 'tc-2'], configurations, [
+      run('run-1', { 'tc-1@Chrome / en': 'fail', 'tc-2@Firefox / de': 'blocked' }),
+      run('run-2', { 'tc-1@Chrome / en': 'pass' }, '2025-07-02T00:00:00.000Z')
+    ])
+
+    expect(matrix.rows[0].cells['Chrome / en']).toEqual({ status: 'pass', executedAt: '2025-07-02T00:00:00.000Z', testRunId: 'run-2' })
+    expect(matrix.rows[1].cells['Chrome / en']).toEqual({ status: 'not_executed' })
+    expect(matrix.summary[0]).toEqual({ configuration: 'Chrome / en', executed: 1, passed: 1, gaps: 1, passRate: 100 })
+    expect(matrix.gaps).toBe(6)
+  })
+
+  it('should reject matrices and results that don\'t add up', () => {
+    expect(validateTestPlan(plan)).toEqual([])
+    expect(validateTestPlan({
+      ...plan,
+      configurationMatrix: [{ name: 'browser', values: ['Chrome', 'Chrome'] }, { name: 'browser', values: [] }]
+    }).map(issue => issue.path)).toEqual([
+      'configurationMatrix[0].values',
+      'configurationMatrix[1].name',
+      'configurationMatrix[1].values'
+    ])
+    expect(validateTestPlan({
+      ...plan,
+      configurationMatrix: [{ name: 'a', values: ['1', '2', '3', '4', '5', '6', '7', '8'] }, { name: 'b', values: ['1', '2', '3', '4', '5', '6', '7'] }]
+    })).toEqual([expect.objectContaining({ path: 'configurationMatrix' })])
+
+    const testRun = run('run-1', {})
+    expect(validateTestRun(testRun)).toEqual([])
+    expect(validateTestRun({ ...testRun, results: [{ ...testRun.results[0], configuration: 'Safari / en' }] })).toEqual([
+      expect.objectContaining({ path: 'results[0].configuration' })
+    ])
+  })
+
+  describeEachStorageBackend('qa-configurations-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveTestCase(TestCaseFactory.fixed('tc-1'))
+      await FileUtils.saveTestCase(TestCaseFactory.fixed('tc-2'))
+      await FileUtils.saveTestPlan(plan)
+      await FileUtils.saveTestRun({ ...run('run-1', {}), status: 'in_progress' })
+    })
+
+    it('should keep the matrix of the plan and the slots of the run', async () => {
+      expect((await FileUtils.loadTestPlan('plan-1'))?.configurationMatrix).toEqual(dimensions)
+
+      const testRun = await FileUtils.loadTestRun('run-1')
+      expect(testRun?.configurations).toEqual(configurations)
+      expect(testRun?.results.map(result => result.configuration)).toEqual([
+        'Chrome / en', 'Chrome / de', 'Firefox / en', 'Firefox / de',
+        'Chrome / en', 'Chrome / de', 'Firefox / en', 'Firefox / de'
+      ])
+    })
+
+    it('should record results into the slot of their configuration', async () => {
+      await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-1', configuration: 'Firefox / de', status: 'fail' })
+      await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-2', configuration: 'Firefox / de', status: 'pass' })
+
+      const testRun = await FileUtils.loadTestRun('run-1')
+      expect(testRun?.results).toHaveLength(8)
+
+      const matrix = await FileUtils.getConfigurationMatrix('plan-1')
+      expect(matrix?.rows.map(row => row.cells['Firefox / de'].status)).toEqual(['fail', 'pass'])
+      expect(matrix?.gaps).toBe(6)
+      expect(await FileUtils.getConfigurationMatrix('plan-missing')).toBeNull()
+    })
+
+    it('should export the pass rate per configuration', async () => {
+      await FileUtils.saveTestRun(run('run-2', { 'tc-1@Chrome / en': 'pass', 'tc-2@Chrome / en': 'fail', 'tc-1@Firefox / en': 'pass' }))
+      const exported = (format: string) => exportResults(new NextRequest(`http://localhost/api/testresults/export?format=${format}`))
+
+      const json = await (await exported('json')).json()
+      expect(json.configurations.find((stats: { configuration: string }) => stats.configuration === 'Chrome / en')).toEqual({
+        configuration: 'Chrome / en', runs: 2, slots: 4, executed: 2, passed: 1, failed: 1, passRate: 50
+      })
+
+      const csv = (await (await exported('csv')).text()).split('\n')
+      const summary = csv.slice(csv.indexOf('') + 1)
+      expect(summary[0]).toBe('Configuration,Runs,Results,Executed,Passed,Failed,Pass Rate (%)')
+      expect(summary).toContain('"Chrome / en",2,4,2,1,1,50')
+      expect(summary).toContain('"Firefox / en",2,4,1,1,0,100')
+      expect(summary).toHaveLength(5)
+    })
+
+    it('should reject results in configurations the run doesn\'t have', async () => {
+      await expect(FileUtils.recordTestResult('run-1', { testCaseId: 'tc-1', configuration: 'Safari / en', status: 'pass' }))
+        .rejects.toThrow(SchemaValidationError)
+    })
+  })
+})
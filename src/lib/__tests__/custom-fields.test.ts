@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { parseTestCase, serializeTestCase } from '../storage/markdown'
+import { validateCustomFieldDefinition } from '../schema'
+import { matchesCustomFieldFilters, parseCustomFieldFilters } from '../custom-fields'
+import { TestCase } from '../types'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const testCase: TestCase = {
+  id: 'tc-checkout',
+  title: 'Pay with a saved card',
+  description: 'Returning customers can pay with a saved card',
+  steps: [{ id: 'step-1', stepNumber: 1, action: 'Pay with the saved card', expectedResult: 'Order is placed' }],
+  expectedResult: 'Order is placed',
+  priority: 'high',
+  tags: [],
+  customFields: { component: 'checkout', browsers: ['chrome', 'firefox'], estimate: 15, dueDate: '2025-08-01' },
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+describe('custom fields', () => {
+  it('should keep values through the Markdown format', () => {
+    const content = serializeTestCase(testCase)
+
+    expect(content).toContain('customFields:')
+    expect(parseTestCase(content)).toEqual(testCase)
+    expect(serializeTestCase({ ...testCase, customFields: {} })).not.toContain('customFields')
+  })
+
+  it('should validate field definitions', () => {
+    const now = '2025-07-01T00:00:00.000Z'
+    const issues = validateCustomFieldDefinition({
+      id: 'due date', label: 'Due', type: 'enum', entityTypes: ['testSuite'], createdAt: now, updatedAt: now
+    })
+
+    expect(issues.map(issue => issue.path)).toEqual(['id', 'entityTypes', 'options'])
+  })
+
+  it('should filter on any of the given values', () => {
+    const filters = parseCustomFieldFilters(new URLSearchParams('field.component=Checkout,search&field.browsers=firefox&q=card'))
+
+    expect(filters).toEqual({ component: ['checkout', 'search'], browsers: ['firefox'] })
+    expect(matchesCustomFieldFilters(testCase.customFields, filters)).toBe(true)
+    expect(matchesCustomFieldFilters(testCase.customFields, { estimate: ['15'], browsers: ['safari'] })).toBe(false)
+    expect(matchesCustomFieldFilters(undefined, { component: ['checkout'] })).toBe(false)
+  })
+
+  describeEachStorageBackend('qa-custom-fields-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveCustomField({ id: 'component', label: 'Component', type: 'enum', entityTypes: ['testCase', 'testPlan'], options: ['checkout', 'search'] })
+      await FileUtils.saveCustomField({ id: 'browsers', label: 'Browsers', type: 'multiSelect', entityTypes: ['testCase'], options: ['chrome', 'firefox'] })
+      await FileUtils.saveCustomField({ id: 'estimate', label: 'Estimate', type: 'number', entityTypes: ['testCase'] })
+      await FileUtils.saveCustomField({ id: 'dueDate', label: 'Due date', type: 'date', entityTypes: ['testCase', 'testRun'] })
+    })
+
+    it('should list the fields of an entity type and keep createdAt on update', async () => {
+      expect((await FileUtils.getCustomFields('testRun')).map(field => field.id)).toEqual(['dueDate'])
+
+      const [component] = await FileUtils.getCustomFields('testPlan')
+      const updated = await FileUtils.saveCustomField({ ...component, options: ['checkout', 'search', 'payments'] })
+      expect(updated.createdAt).toBe(component.createdAt)
+      expect((await FileUtils.getCustomFields()).map(field => field.label)).toEqual(['Browsers', 'Component', 'Due date', 'Estimate'])
+    })
+
+    it('should check values against the definitions on save', async () => {
+      await FileUtils.saveTestCase(testCase)
+      expect((await FileUtils.loadTestCase('tc-checkout'))?.customFields).toEqual(testCase.customFields)
+
+      await expect(FileUtils.saveTestCase({
+        ...testCase,
+        customFields: { component: 'billing', browsers: ['safari'], estimate: '15', dueDate: '01/08/2025' }
+      })).rejects.toMatchObject({
+        issues: [
+          { path: 'customFields.component', message: 'must be one of checkout, search' },
+          { path: 'customFields.browsers', message: 'contains unknown values: safari' },
+          { path: 'customFields.estimate', message: 'must be a number' },
+          { path: 'customFields.dueDate', message: 'must be a date (YYYY-MM-DD)' }
+        ]
+      })
+      await expect(FileUtils.saveTestPlan({
+        id: 'plan-1',
+        name: 'Release plan',
+        description: '',
+        version: '1.0',
+        testCases: [],
+        createdAt: '2025-07-01T00:00:00.000Z',
+        updatedAt: '2025-07-01T00:00:00.000Z',
+        createdBy: 'tester',
+        customFields: { estimate: 3 }
+      })).rejects.toThrow('customFields.estimate does not apply to test plans')
+    })
+
+    it('should keep values of deleted fields', async () => {
+      await FileUtils.saveTestCase(testCase)
+      expect(await FileUtils.deleteCustomField('estimate')).toBe(true)
+
+      await FileUtils.saveTestCase({ ...testCase, customFields: { ...testCase.customFields, estimate: 'unknown' } })
+      expect((await FileUtils.loadTestCase('tc-checkout'))?.customFields?.estimate).toBe('unknown')
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { findDuplicates, findSimilarTestCases, mergeTestCaseContent, tokenize } from '../duplicates'
+import { TestCase, TestPlan } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, title: string, description: string, actions: string[], extra: Partial<TestCase> = {}) => TestCaseFactory.fixed(id, {
+  title,
+  description,
+  steps: actions.map((action, index) => ({ id: `step-${index + 1}`, stepNumber: index + 1, action, expectedResult: 'It works' })),
+  ...extra
+})
+
+const library = [
+  testCase('tc-rdgf-1', 'Test Case for rdgf failure', 'Verify the fix for the rdgf failure in production',
+    ['Open the rdgf test in production', 'Run the rdgf test']),
+  testCase('tc-rdgf-2', 'Test Case for rdgf Failure Issue', 'Verify the fix for the rdgf test failure reported on GitHub',
+    ['Open the application in production', 'Run the rdgf test case']),
+  testCase('tc-login', 'Login with valid credentials', 'Verify users can sign in',
+    ['Open the login page', 'Enter a valid email and password', 'Click sign in']),
+  testCase('tc-search', 'Search products by name', 'Verify the catalog search',
+    ['Open the catalog', 'Type a product name in the search box'])
+]
+
+describe('duplicate detection', () => {
+  it('should ignore stop words and plural endings', () => {
+    expect(tokenize('The Tests of the Login pages, and class')).toEqual(['test', 'login', 'page', 'class'])
+  })
+
+  it('should pair near-identical test cases only', () => {
+    const duplicates = findDuplicates(library)
+
+    expect(duplicates.map(match => match.testCaseIds)).toEqual([['tc-rdgf-1', 'tc-rdgf-2']])
+    expect(duplicates[0].score).toBeGreaterThan(0.5)
+    expect(Object.keys(duplicates[0].fields)).toEqual(['title', 'description', 'steps'])
+  })
+
+  it('should find existing test cases similar to an unsaved one', () => {
+    const draft = testCase('', 'rdgf failure', 'Check the rdgf failure is fixed', ['Run the rdgf test'])
+
+    expect(findSimilarTestCases(draft, library).map(match => match.testCaseIds[1])).toEqual(['tc-rdgf-1', 'tc-rdgf-2'])
+    expect(findSimilarTestCases(library[2], library)).toEqual([])
+  })
+
+  it('should keep the target\'s fields unless chosen otherwise', () => {
+    const target = testCase('tc-1', 'Target', '', ['Target step'], { tags: ['a'], customFields: { component: 'web' } })
+    const source = testCase('tc-2', 'Source', 'Source description', ['Source step'], {
+      tags: ['a', 'b'],
+      priority: 'high',
+      customFields: { component: 'api', browser: 'firefox' },
+      suiteId: 'checkout'
+    })
+
+    const merged = mergeTestCaseContent(target, source, { steps: 'source' }, now)
+    expect(merged).toMatchObject({
+      id: 'tc-1',
+      title: 'Target',
+      description: 'Source description',
+      priority: 'medium',
+      tags: ['a', 'b'],
+      customFields: { component: 'web', browser: 'firefox' },
+      suiteId: 'checkout'
+    })
+    expect(merged.steps.map(step => step.action)).toEqual(['Source step'])
+  })
+
+  it('should combine the automated tests linked to both', () => {
+    const target = testCase('tc-1', 'Target', '', ['Step'], { automatedTests: ['Login::signs in'] })
+    const source = testCase('tc-2', 'Source', '', ['Step'], { automatedTests: ['Login::signs in', 'Login::signs out'] })
+
+    expect(mergeTestCaseContent(target, source, {}, now).automatedTests).toEqual(['Login::signs in', 'Login::signs out'])
+    expect(mergeTestCaseContent(testCase('tc-1', 'Target', '', ['Step']), testCase('tc-2', 'Source', '', ['Step']), {}, now))
+      .not.toHaveProperty('automatedTests')
+  })
+
+  describeEachStorageBackend('qa-duplicates-', () => {
+    const plan = (id: string, testCases: string[], extra: Partial<TestPlan> = {}): TestPlan => ({
+      id, name: id, description: '', version: '1.0', testCases, createdAt: now, updatedAt: now, createdBy: 'tester', ...extra
+    })
+
+    beforeEach(async () => {
+      for (const entry of library) {
+        await FileUtils.saveTestCase(entry)
+      }
+    })
+
+    it('should merge a duplicate and point plans and requirements to the kept test case', async () => {
+      await FileUtils.saveTestPlan(plan('plan-both', ['tc-rdgf-1', 'tc-login', 'tc-rdgf-2']))
+      await FileUtils.saveTestPlan(plan('plan-source', ['tc-rdgf-2', 'tc-search']))
+      await FileUtils.saveRequirement({ id: 'REQ-1', title: 'rdgf', testCases: ['tc-rdgf-2'] })
+
+      const result = await FileUtils.mergeTestCases('tc-rdgf-1', 'tc-rdgf-2', { choices: { title: 'source' }, author: 'alice' })
+
+      expect(result).toMatchObject({ testPlans: ['plan-both', 'plan-source'], requirements: ['REQ-1'] })
+      expect(result?.trashEntry).toMatchObject({ entityId: 'tc-rdgf-2', deletedBy: 'alice' })
+      expect((await FileUtils.loadTestCase('tc-rdgf-1'))?.title).toBe('Test Case for rdgf Failure Issue')
+      expect(await FileUtils.loadTestCase('tc-rdgf-2')).toBeNull()
+      expect((await FileUtils.loadTestPlan('plan-both'))?.testCases).toEqual(['tc-rdgf-1', 'tc-login'])
+      expect((await FileUtils.loadTestPlan('plan-source'))?.testCases).toEqual(['tc-rdgf-1', 'tc-search'])
+      expect((await FileUtils.loadRequirement('REQ-1'))?.testCases).toEqual(['tc-rdgf-1'])
+      expect(await FileUtils.findDuplicateTestCases()).toEqual([])
+
+      expect(await FileUtils.mergeTestCases('tc-rdgf-1', 'tc-rdgf-2', { author: 'alice' })).toBeNull()
+      await expect(FileUtils.mergeTestCases('tc-login', 'tc-login', { author: 'alice' })).rejects.toMatchObject({
+        issues: [{ path: 'sourceId' }]
+      })
+    })
+
+    it('should point the plan dependencies on a duplicate to the kept test case', async () => {
+      await FileUtils.saveTestPlan(plan('plan-ordered', ['tc-login', 'tc-rdgf-1', 'tc-rdgf-2', 'tc-search'], {
+        dependencies: { 'tc-rdgf-2': ['tc-login', 'tc-rdgf-1'], 'tc-search': ['tc-rdgf-2'] }
+      }))
+      await FileUtils.saveTestPlan(plan('plan-suite', [], { dependencies: { 'tc-search': ['tc-rdgf-2'] } }))
+
+      const result = await FileUtils.mergeTestCases('tc-rdgf-1', 'tc-rdgf-2', { author: 'alice' })
+
+      expect(result?.testPlans).toEqual(['plan-ordered', 'plan-suite'])
+      expect(await FileUtils.loadTestPlan('plan-ordered')).toMatchObject({
+        testCases: ['tc-login', 'tc-rdgf-1', 'tc-search'],
+        dependencies: { 'tc-rdgf-1': ['tc-login'], 'tc-search': ['tc-rdgf-1'] }
+      })
+      expect((await FileUtils.loadTestPlan('plan-suite'))?.dependencies).toEqual({ 'tc-search': ['tc-rdgf-1'] })
+    })
+  })
+})
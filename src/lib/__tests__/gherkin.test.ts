@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+
+import { GherkinParseError, exportFeatureFile, importFeatureFile, parseFeature } from '../gherkin'
+import { TestCase } from '../types'
+
+const now = '2025-07-01T00:00:00.000Z'
+const options = { createdBy: 'import-system', now }
+
+const feature = `# language: en
+@web
+Feature: Shopping cart
+  Customers collect products before paying
+
+  Background:
+    Given a signed in customer
+
+  @smoke @high
+  Scenario: Add a product
+    Lets customers buy more than one thing
+    Given an empty cart
+    When the customer adds a book
+    And opens the cart
+    Then the cart shows 1 item
+    But no discount is applied
+    When the customer removes the book
+    Then the cart is empty
+
+  Scenario Outline: Apply a coupon
+    When the customer enters <code>
+    Then the total is <total>
+
+    Examples:
+      | code   | total |
+      | SAVE10 | 90    |
+
+    @regression
+    Examples:
+      | code  | total |
+      | FREE  | 0     |
+`
+
+describe('gherkin', () => {
+  it('should map scenarios to test cases', () => {
+    const { testCases, errors } = importFeatureFile(feature, options)
+
+    expect(errors).toEqual([])
+    expect(testCases).toHaveLength(3)
+    expect(testCases[0]).toMatchObject({
+      title: 'Add a product',
+      description: 'Lets customers buy more than one thing',
+      preconditions: 'a signed in customer\nan empty cart',
+      priority: 'high',
+      tags: ['shopping-cart', 'web', 'smoke'],
+      expectedResult: 'the cart is empty',
+      createdBy: 'import-system',
+      createdAt: now
+    })
+    expect(testCases[0].steps.map(step => [step.stepNumber, step.action, step.expectedResult])).toEqual([
+      [1, 'the customer adds a book\nopens the cart', 'the cart shows 1 item\nno discount is applied'],
+      [2, 'the customer removes the book', 'the cart is empty']
+    ])
+  })
+
+  it('should make a test case per Examples row', () => {
+    const [, first, second] = importFeatureFile(feature, options).testCases
+
+    expect(first).toMatchObject({ title: 'Apply a coupon (code=SAVE10, total=90)', priority: 'medium', tags: ['shopping-cart', 'web'] })
+    expect(first.steps[0]).toMatchObject({ action: 'the customer enters SAVE10', expectedResult: 'the total is 90' })
+    expect(second.tags).toEqual(['shopping-cart', 'web', 'regression'])
+    expect(second.steps[0].action).toBe('the customer enters FREE')
+  })
+
+  it('should keep doc strings and data tables with their step', () => {
+    const { testCases } = importFeatureFile(`Feature: API
+  Scenario: Create a user
+    When the client sends
+      """
+      {"name": "Ada"}
+      """
+    Then the users are
+      | name |
+      | Ada  |
+`, options)
+
+    expect(testCases[0].steps[0]).toMatchObject({
+      action: 'the client sends\n{"name": "Ada"}',
+      expectedResult: 'the users are\n| name |\n| Ada  |'
+    })
+  })
+
+  it('should report scenarios it can\'t convert and keep the others', () => {
+    const { testCases, errors } = importFeatureFile(`Feature: Checks
+  Scenario: Only a Then
+    Given the home page
+    Then a banner is shown
+
+  Scenario Outline: No rows
+    When <x>
+
+  Scenario: Fine
+    When it runs
+`, options)
+
+    expect(testCases.map(testCase => testCase.title)).toEqual(['Fine'])
+    expect(errors).toEqual([
+      'Line 4: Then before any When in scenario "Only a Then"',
+      'Line 6: Scenario Outline "No rows" has no Examples rows'
+    ])
+  })
+
+  it('should reject files that aren\'t Gherkin', () => {
+    expect(() => parseFeature('title,description\nLogin,Works')).toThrow(GherkinParseError)
+    expect(() => parseFeature('Feature: A\n  And it starts')).toThrow('Line 2: Step outside a Scenario or Background')
+    expect(() => parseFeature('Feature: A\nFeature: B')).toThrow('A file can only have one Feature')
+  })
+
+  it('should export test cases that import back the same', () => {
+    const testCase: TestCase = {
+      id: 'tc-1',
+      title: 'Resize the window',
+      description: 'Layout adapts',
+      preconditions: 'The app is open',
+      steps: [{ id: 'step-1', stepNumber: 1, action: 'Resize to {{resolution}}', expectedResult: 'The menu fits' }],
+      expectedResult: 'The menu fits',
+      priority: 'critical',
+      tags: ['layout'],
+      parameters: { names: ['resolution'], rows: [{ id: 'row-1', values: { resolution: '800x600' } }] },
+      createdAt: now,
+      updatedAt: now,
+      createdBy: 'tester'
+    }
+
+    const exported = exportFeatureFile([testCase], 'Layout')
+    expect(exported).toBe(`Feature: Layout
+
+  @layout @critical
+  Scenario Outline: Resize the window
+    Layout adapts
+    Given The app is open
+    When Resize to <resolution>
+    Then The menu fits
+
+    Examples:
+      | resolution |
+      | 800x600 |
+`)
+
+    const [imported] = importFeatureFile(exported, options).testCases
+    expect(imported).toMatchObject({
+      title: 'Resize the window (resolution=800x600)',
+      preconditions: 'The app is open',
+      priority: 'critical',
+      tags: ['layout']
+    })
+    expect(imported.steps[0]).toMatchObject({ action: 'Resize to 800x600', expectedResult: 'The menu fits' })
+  })
+})
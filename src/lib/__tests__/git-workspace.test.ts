@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+
+import { execFileSync } from 'child_process'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { FileUtils } from '../file-utils'
+import { FileStorageAdapter, GitError, GitWorkspace } from '../storage'
+import { TestCase } from '../types'
+
+const testCase: TestCase = {
+  id: 'tc-1',
+  title: 'Login works',
+  description: 'User can log in',
+  steps: [{ id: 'step-1', stepNumber: 1, action: 'Log in', expectedResult: 'Dashboard is shown' }],
+  expectedResult: 'User is logged in',
+  priority: 'high',
+  tags: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+describe('git-backed workspace', () => {
+  let rootDir: string
+  let remoteDir: string
+
+  // Each workspace is a separate clone; FileUtils is pointed at one at a time
+  const workspace = (name: string) => {
+    const dir = path.join(rootDir, name)
+    const git = new GitWorkspace(dir, { remote: remoteDir, branch: 'main' })
+    return {
+      dir,
+      git,
+      use: () => {
+        FileUtils.setStorage(new FileStorageAdapter(dir))
+        FileUtils.setGitWorkspace(git)
+      },
+      log: () => execFileSync('git', ['log', '--format=%an|%s'], { cwd: dir, encoding: 'utf-8' }).trim().split('\n')
+    }
+  }
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-git-'))
+    remoteDir = path.join(rootDir, 'remote.git')
+    execFileSync('git', ['init', '--quiet', '--bare', remoteDir])
+  })
+
+  afterEach(async () => {
+    FileUtils.setStorage(null)
+    FileUtils.setGitWorkspace(undefined)
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should commit every change with its author', async () => {
+    const alice = workspace('alice')
+    alice.use()
+
+    await FileUtils.saveTestCase(testCase, { author: 'Alice' })
+    await FileUtils.saveTestCase({ ...testCase, title: 'Login still works' }, { author: 'Bob' })
+    await FileUtils.trashTestCase('tc-1', 'Carol')
+
+    expect(alice.log()).toEqual([
+      'Carol|Move test case tc-1 to trash',
+      'Bob|Save test case tc-1',
+      'Alice|Save test case tc-1'
+    ])
+    expect((await alice.git.status()).uncommitted).toEqual([])
+  })
+
+  it('should commit run changes as the user making them', async () => {
+    const alice = workspace('alice')
+    alice.use()
+
+    await FileUtils.saveTestRun({
+      id: 'run-1',
+      testPlanId: 'plan-1',
+      name: 'Smoke run',
+      startedAt: '2025-07-03T00:00:00.000Z',
+      status: 'in_progress',
+      executedBy: 'Alice',
+      results: []
+    })
+    await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-1', status: 'pass', executedBy: 'Bob' }, { author: 'Bob' })
+    await FileUtils.assignTestRun('run-1', { assignments: { 'tc-1': 'Dave' } }, { author: 'Carol' })
+    await FileUtils.completeTestRun('run-1', { author: 'Carol' })
+
+    expect(alice.log()).toEqual([
+      'Carol|Save test run run-1',
+      'Carol|Save test run run-1',
+      'Bob|Save test run run-1',
+      'Alice|Save test run run-1'
+    ])
+  })
+
+  it('should commit a workspace repair as the user running it', async () => {
+    const alice = workspace('alice')
+    alice.use()
+
+    await FileUtils.saveTestCase({ ...testCase, priority: 'low' }, { author: 'Alice' })
+    await FileUtils.getStorage().saveTestCase({ ...testCase, priority: 'høy' as TestCase['priority'] })
+    await FileUtils.repairWorkspace({ author: 'Bob' })
+
+    expect(alice.log()[0]).toBe('Bob|Repair 1 invalid workspace documents')
+    expect((await FileUtils.loadTestCase('tc-1'))?.priority).toBe('high')
+  })
+
+  it('should sync changes through the remote', async () => {
+    const alice = workspace('alice')
+    const bob = workspace('bob')
+
+    alice.use()
+    await FileUtils.saveTestCase(testCase, { author: 'Alice' })
+    expect((await alice.git.pull({ name: 'Alice' })).status).toBe('up_to_date')
+    await alice.git.push()
+
+    bob.use()
+    expect(await bob.git.pull({ name: 'Bob' })).toEqual({ status: 'merged', conflicts: [] })
+    expect(await FileUtils.loadTestCase('tc-1')).toEqual(testCase)
+
+    await FileUtils.saveTestCase({ ...testCase, priority: 'low' }, { author: 'Bob' })
+    expect(await bob.git.status()).toMatchObject({ ahead: 1, behind: 0, merging: false })
+  })
+
+  it('should surface conflicting edits and resolve them', async () => {
+    const alice = workspace('alice')
+    const bob = workspace('bob')
+
+    alice.use()
+    await FileUtils.saveTestCase(testCase, { author: 'Alice' })
+    await alice.git.push()
+    bob.use()
+    await bob.git.pull({ name: 'Bob' })
+
+    alice.use()
+    await FileUtils.saveTestCase({ ...testCase, title: 'Alice title' }, { author: 'Alice' })
+    await alice.git.push()
+
+    bob.use()
+    await FileUtils.saveTestCase({ ...testCase, title: 'Bob title' }, { author: 'Bob' })
+    await expect(bob.git.push()).rejects.toMatchObject({ reason: 'rejected' })
+
+    const pulled = await bob.git.pull({ name: 'Bob' })
+    expect(pulled).toEqual({
+      status: 'conflicts',
+      conflicts: [{ path: 'testcases/tc-1.md', entityType: 'testCase', entityId: 'tc-1' }]
+    })
+    await expect(bob.git.push()).rejects.toThrow(GitError)
+
+    const versions = await bob.git.getConflict('testcases/tc-1.md')
+    expect(versions?.ours).toContain('Bob title')
+    expect(versions?.theirs).toContain('Alice title')
+
+    expect(await bob.git.resolveConflict('testcases/tc-1.md', 'theirs', { name: 'Bob' })).toEqual([])
+    expect((await FileUtils.loadTestCase('tc-1'))?.title).toBe('Alice title')
+    expect(await bob.git.status()).toMatchObject({ merging: false, conflicts: [], ahead: 2 })
+    await bob.git.push()
+  })
+
+  it('should keep its own repository inside an enclosing one', async () => {
+    execFileSync('git', ['init', '--quiet', '-b', 'main', rootDir])
+    const alice = workspace('alice')
+    alice.use()
+
+    await FileUtils.saveTestCase(testCase, { author: 'Alice' })
+
+    expect(execFileSync('git', ['rev-parse', '--show-toplevel'], { cwd: alice.dir, encoding: 'utf-8' }).trim())
+      .toBe(await fs.realpath(alice.dir))
+    expect(alice.log()).toEqual(['Alice|Save test case tc-1'])
+  })
+
+  it('should not rewrite an existing origin or sync another branch', async () => {
+    const dir = path.join(rootDir, 'alice')
+    execFileSync('git', ['init', '--quiet', '-b', 'main', dir])
+    execFileSync('git', ['remote', 'add', 'origin', 'git@example.com:other.git'], { cwd: dir })
+
+    await expect(new GitWorkspace(dir, { remote: remoteDir, branch: 'main' }).status())
+      .rejects.toMatchObject({ reason: 'misconfigured' })
+    expect(execFileSync('git', ['remote', 'get-url', 'origin'], { cwd: dir, encoding: 'utf-8' }).trim())
+      .toBe('git@example.com:other.git')
+
+    execFileSync('git', ['remote', 'set-url', 'origin', remoteDir], { cwd: dir })
+    execFileSync('git', ['checkout', '--quiet', '-b', 'feature'], { cwd: dir })
+    const git = new GitWorkspace(dir, { remote: remoteDir, branch: 'main' })
+    await expect(git.pull({ name: 'Alice' })).rejects.toThrow('on branch feature')
+    await expect(git.push()).rejects.toMatchObject({ reason: 'misconfigured' })
+  })
+})
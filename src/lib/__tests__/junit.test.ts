@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils, JUnitReportError, SchemaValidationError } from '../file-utils'
+import { getUnmappedTests, mapAutomatedTests, parseJUnitReport } from '../junit'
+import { TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, automatedTests?: string[]) => TestCaseFactory.fixed(id, automatedTests ? { automatedTests } : {})
+
+const report = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="4">
+  <!-- written by jest-junit -->
+  <testsuite name="login.spec.ts" timestamp="2025-07-01T10:00:00">
+    <testcase classname="Login" name="signs in" time="1.5"/>
+    <testcase classname="Login" name="rejects a bad password &amp; locks" time="0.5">
+      <failure message="expected 401 &lt; 500">AssertionError: expected 401</failure>
+    </testcase>
+    <testsuite name="nested">
+      <testcase name="remembers the user"><skipped/></testcase>
+    </testsuite>
+  </testsuite>
+  <testsuite name="cart.spec.ts">
+    <testcase classname="Cart" name="adds a book" time="2">
+      <error><![CDATA[TypeError: cart is <undefined>
+    at add (cart.ts:1)]]></error>
+    </testcase>
+  </testsuite>
+</testsuites>
+`
+
+describe('junit', () => {
+  it('should read every test case of nested suites', () => {
+    const { tests, timestamp } = parseJUnitReport(report)
+
+    expect(timestamp).toBe(new Date('2025-07-01T10:00:00').toISOString())
+    expect(tests).toEqual([
+      { testId: 'Login::signs in', status: 'pass', executionTime: 1.5 },
+      { testId: 'Login::rejects a bad password & locks', status: 'fail', executionTime: 0.5, message: 'expected 401 < 500' },
+      { testId: 'nested::remembers the user', status: 'skip' },
+      { testId: 'Cart::adds a book', status: 'fail', executionTime: 2, message: 'TypeError: cart is <undefined>' }
+    ])
+  })
+
+  it('should reject reports that aren\'t JUnit XML', () => {
+    expect(() => parseJUnitReport('<testsuite>\n  <testcase name="a">\n</testsuite>')).toThrow('Line 3: unexpected </testsuite>')
+    expect(() => parseJUnitReport('<results/>')).toThrow('Expected <testsuites> or <testsuite>, found <results>')
+    expect(() => parseJUnitReport('not xml')).toThrow(JUnitReportError)
+    expect(() => parseJUnitReport('')).toThrow('The report is empty')
+  })
+
+  it('should reject character references that aren\'t characters', () => {
+    const withName = (name: string) => `<testsuite><testcase classname="Login" name="${name}"/></testsuite>`
+
+    expect(parseJUnitReport(withName('signs in &#x1F600; &#65;')).tests[0].testId).toBe('Login::signs in \u{1F600} A')
+    expect(() => parseJUnitReport(withName('&#x110000;'))).toThrow('&#x110000; is not a valid character reference')
+    expect(() => parseJUnitReport(withName('&#55296;'))).toThrow(JUnitReportError)
+  })
+
+  it('should combine the tests linked to a test case', () => {
+    const { tests } = parseJUnitReport(report)
+    const { results, unmapped } = mapAutomatedTests(tests, [
+      testCase('tc-login', ['Login::signs in', 'Login::rejects a bad password & locks']),
+      testCase('tc-session', ['Login::signs in', 'nested::remembers the user']),
+      testCase('tc-manual')
+    ], now)
+
+    expect(results.map(result => [result.testCaseId, result.status, result.executionTime])).toEqual([
+      ['tc-login', 'fail', 2],
+      ['tc-session', 'pass', 1.5]
+    ])
+    expect(results[0].actualResult).toBe('Login::rejects a bad password & locks: expected 401 < 500')
+    expect(unmapped.map(test => test.testId)).toEqual(['Cart::adds a book'])
+  })
+
+  it('should list each unmapped test as of its latest run', () => {
+    const run = (id: string, startedAt: string, status: 'pass' | 'fail'): TestRun => ({
+      id, testPlanId: 'automated-run', name: id, startedAt, status: 'completed', executedBy: 'ci', results: [],
+      source: 'automated', unmappedTests: [{ testId: 'Cart::adds a book', status }, { testId: 'Login::signs in', status }]
+    })
+
+    expect(getUnmappedTests([run('run-1', '2025-07-01', 'fail'), run('run-2', '2025-07-02', 'pass')], [testCase('tc-login', ['Login::signs in'])]))
+      .toEqual([{ testId: 'Cart::adds a book', status: 'pass', testRunId: 'run-2', seenAt: '2025-07-02' }])
+  })
+
+  describeEachStorageBackend('qa-junit-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveTestCase(testCase('tc-login', ['Login::signs in']))
+      await FileUtils.saveTestCase(testCase('tc-cart'))
+    })
+
+    it('should import a report as an automated run', async () => {
+      const run = await FileUtils.importJUnitReport(report, { executedBy: 'ci', name: 'Nightly' })
+
+      expect(run).toMatchObject({ name: 'Nightly', status: 'completed', executedBy: 'ci', source: 'automated', testPlanId: 'automated-run' })
+      expect(run.results.map(result => [result.testCaseId, result.status])).toEqual([['tc-login', 'pass']])
+      expect((await FileUtils.loadTestRun(run.id))?.unmappedTests?.map(test => test.testId)).toEqual([
+        'Login::rejects a bad password & locks',
+        'nested::remembers the user',
+        'Cart::adds a book'
+      ])
+    })
+
+    it('should stop listing a test once it is linked', async () => {
+      await FileUtils.importJUnitReport(report, { executedBy: 'ci' })
+      expect(await FileUtils.getUnmappedAutomatedTests()).toHaveLength(3)
+
+      const linked = await FileUtils.setAutomatedTests('tc-cart', ['Cart::adds a book', ' Cart::adds a book '], 'alice')
+      expect(linked?.automatedTests).toEqual(['Cart::adds a book'])
+      expect((await FileUtils.getUnmappedAutomatedTests()).map(test => test.testId)).not.toContain('Cart::adds a book')
+
+      const rerun = await FileUtils.importJUnitReport(report, { executedBy: 'ci' })
+      expect(rerun.results.find(result => result.testCaseId === 'tc-cart')?.status).toBe('fail')
+      expect(await FileUtils.setAutomatedTests('tc-missing', [], 'alice')).toBeNull()
+    })
+
+    it('should keep the links through the revision history', async () => {
+      await FileUtils.setAutomatedTests('tc-cart', ['Cart::adds a book'], 'alice')
+
+      const revisions = await FileUtils.getTestCaseRevisions('tc-cart')
+      expect(revisions.map(revision => revision.summary)).toEqual(['Created', 'Linked automated tests'])
+
+      // Restoring content from before the link doesn't unlink the test
+      const restored = await FileUtils.restoreTestCaseRevision('tc-cart', 1, 'alice')
+      expect(restored?.testCase.automatedTests).toEqual(['Cart::adds a book'])
+      expect((await FileUtils.importJUnitReport(report, { executedBy: 'ci' })).unmappedTests?.map(test => test.testId))
+        .not.toContain('Cart::adds a book')
+    })
+
+    it('should reject a test plan that doesn\'t exist', async () => {
+      await expect(FileUtils.importJUnitReport(report, { executedBy: 'ci', testPlanId: 'plan-missing' })).rejects.toThrow(SchemaValidationError)
+    })
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileUtils } from '../file-utils'
+import { FileStorageAdapter } from '../storage'
+import { escapeContent, parseTestCase, serializeTestCase, unescapeContent } from '../storage/markdown'
+import { TestCase } from '../types'
+
+// Golden corpus: <name>.json is the test case, <name>.md the file it is
+// stored as. Regenerate the .md files with UPDATE_GOLDEN=1 npm test.
+const GOLDEN_DIR = path.join(__dirname, 'golden', 'markdown')
+const goldenCases = fs.readdirSync(GOLDEN_DIR)
+  .filter(file => file.endsWith('.json'))
+  .map(file => path.basename(file, '.json'))
+
+const readGolden = (name: string) => ({
+  testCase: JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, `${name}.json`), 'utf-8')) as TestCase,
+  markdownPath: path.join(GOLDEN_DIR, `${name}.md`)
+})
+
+describe('test case Markdown format', () => {
+  describe.each(goldenCases)('golden file %s', name => {
+    const { testCase, markdownPath } = readGolden(name)
+
+    it('should serialize to the golden file', () => {
+      const serialized = serializeTestCase(testCase)
+      if (process.env.UPDATE_GOLDEN || !fs.existsSync(markdownPath)) {
+        fs.writeFileSync(markdownPath, serialized, 'utf-8')
+      }
+
+      expect(serialized).toBe(fs.readFileSync(markdownPath, 'utf-8'))
+    })
+
+    it('should parse the golden file back losslessly', () => {
+      expect(parseTestCase(fs.readFileSync(markdownPath, 'utf-8'))).toEqual(testCase)
+    })
+
+    it('should round-trip through saveTestCase and loadTestCase', async () => {
+      const workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-markdown-'))
+      FileUtils.setStorage(new FileStorageAdapter(workspaceDir))
+
+      try {
+        await FileUtils.saveTestCase(testCase)
+        expect(await FileUtils.loadTestCase(testCase.id)).toEqual(testCase)
+      } finally {
+        FileUtils.setStorage(null)
+        fs.rmSync(workspaceDir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  it('should keep steps with asterisks written by the previous serializer', () => {
+    const legacy = [
+      '---',
+      'id: tc-legacy',
+      'title: Legacy',
+      'description: Old file',
+      'priority: medium',
+      '---',
+      '# Legacy',
+      '',
+      'Old file',
+      '',
+      '## Test Steps',
+      '',
+      '### Step 1',
+      '',
+      '**Action:** Press * on the keypad',
+      '',
+      '**Expected Result:** The **menu** opens',
+      '',
+      '## Expected Final Result',
+      '',
+      'Done',
+      ''
+    ].join('\n')
+
+    expect(parseTestCase(legacy).steps).toEqual([
+      { id: 'step-1', stepNumber: 1, action: 'Press * on the keypad', expectedResult: 'The **menu** opens' }
+    ])
+  })
+
+  it('should escape structural lines reversibly', () => {
+    const content = '## Test Steps\n\n\\**Action:** literal\n\n```\n### Step 1\n```'
+
+    expect(escapeContent(content)).toBe('\\## Test Steps\n\n\\\\**Action:** literal\n\n```\n### Step 1\n```')
+    expect(unescapeContent(escapeContent(content))).toBe(content)
+  })
+
+  it('should escape content containing line and paragraph separators', () => {
+    const content = 'First\u2028second\u2029third\n\n## Test Steps'
+
+    expect(escapeContent(content)).toBe('First\u2028second\u2029third\n\n\\## Test Steps')
+    expect(unescapeContent(escapeContent(content))).toBe(content)
+  })
+
+  it('should round-trip every test case in the repository', () => {
+    const testCasesDir = path.join(process.cwd(), 'testcases')
+    const files = fs.existsSync(testCasesDir) ? fs.readdirSync(testCasesDir).filter(file => file.endsWith('.md')) : []
+
+    for (const file of files) {
+      const testCase = parseTestCase(fs.readFileSync(path.join(testCasesDir, file), 'utf-8'))
+      expect(parseTestCase(serializeTestCase(testCase))).toEqual(testCase)
+    }
+  })
+})
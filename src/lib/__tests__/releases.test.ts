@@ -0,0 +1,199 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils, SchemaValidationError } from '../file-utils'
+import { evaluateRelease, getReadinessHistory, getReleaseRuns } from '../releases'
+import { validateRelease } from '../schema'
+import { Priority, Release, TestPlan, TestResultStatus, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, priority: Priority = 'medium') => TestCaseFactory.fixed(id, { priority })
+
+const run = (id: string, startedAt: string, results: Record<string, TestResultStatus>, testPlanId = 'plan-1'): TestRun => ({
+  id,
+  testPlanId,
+  name: `Run ${id}`,
+  startedAt,
+  completedAt: startedAt,
+  status: 'completed',
+  executedBy: 'tester',
+  results: Object.entries(results).map(([testCaseId, status]) => ({ testCaseId, status, executedAt: startedAt, steps: [] }))
+})
+
+const release: Release = {
+  id: 'release-1',
+  name: '2.0',
+  kind: 'release',
+  status: 'in_progress',
+  testPlans: ['plan-1'],
+  testRuns: [],
+  exitCriteria: [
+    { id: 'c-rate', type: 'passRate', threshold: 75 },
+    { id: 'c-fail', type: 'noOpenFailures', priority: 'critical' },
+    { id: 'c-exec', type: 'allExecuted', priority: 'critical' }
+  ],
+  createdAt: now,
+  updatedAt: now,
+  createdBy: 'tester'
+}
+
+const testCases = [testCase('tc-login', 'critical'), testCase('tc-cart', 'critical'), testCase('tc-search'), testCase('tc-help', 'low')]
+
+describe('releases', () => {
+  it('should be a no-go until every exit criterion is met', () => {
+    const readiness = evaluateRelease(release, testCases, [
+      run('run-1', '2025-07-01T10:00:00.000Z', { 'tc-login': 'fail', 'tc-search': 'pass', 'tc-help': 'pass' })
+    ])
+
+    expect(readiness.verdict).toBe('no_go')
+    expect(readiness.summary).toMatchObject({ testCases: 4, executed: 3, passed: 2, failed: 1, passRate: 66.7, testRuns: 1 })
+    expect(readiness.criteria.map(evaluation => [evaluation.label, evaluation.met, evaluation.testCaseIds])).toEqual([
+      ['Pass rate ≥ 75%', false, ['tc-login']],
+      ['No open critical failures', false, ['tc-login']],
+      ['All critical test cases executed', false, ['tc-cart']]
+    ])
+  })
+
+  it('should judge each test case by its latest result', () => {
+    const readiness = evaluateRelease(release, testCases, [
+      run('run-1', '2025-07-01T10:00:00.000Z', { 'tc-login': 'fail', 'tc-search': 'pass', 'tc-help': 'fail' }),
+      run('run-2', '2025-07-02T10:00:00.000Z', { 'tc-login': 'pass', 'tc-cart': 'pass' })
+    ])
+
+    expect(readiness.verdict).toBe('go')
+    expect(readiness.summary.passRate).toBe(75)
+    expect(readiness.criteria[0]).toMatchObject({ met: true, actual: '75%', testCaseIds: [] })
+  })
+
+  it('should keep a failure in one configuration when another passes later', () => {
+    const matrixRun: TestRun = {
+      ...run('run-1', '2025-07-01T10:00:00.000Z', {}),
+      results: [
+        { testCaseId: 'tc-login', configuration: 'Firefox', status: 'fail', executedAt: '2025-07-01T10:00:00.000Z', steps: [] },
+        { testCaseId: 'tc-login', configuration: 'Chrome', status: 'pass', executedAt: '2025-07-01T10:05:00.000Z', steps: [] },
+        { testCaseId: 'tc-cart', configuration: 'Chrome', status: 'pass', executedAt: '2025-07-01T10:05:00.000Z', steps: [] }
+      ]
+    }
+
+    const readiness = evaluateRelease(release, testCases, [matrixRun])
+
+    expect(readiness.verdict).toBe('no_go')
+    expect(readiness.criteria[1]).toMatchObject({ met: false, testCaseIds: ['tc-login'] })
+  })
+
+  it('should count the named runs and the plan runs since the start date', () => {
+    const runs = [
+      run('run-old', '2025-06-01T10:00:00.000Z', {}),
+      run('run-new', '2025-07-01T10:00:00.000Z', {}),
+      run('run-other', '2025-06-15T10:00:00.000Z', {}, 'plan-2'),
+      run('run-elsewhere', '2025-07-01T10:00:00.000Z', {}, 'plan-2')
+    ]
+
+    expect(getReleaseRuns({ ...release, testRuns: ['run-other'], startDate: '2025-07-01' }, runs).map(testRun => testRun.id))
+      .toEqual(['run-new', 'run-other'])
+  })
+
+  it('should replay the verdict run by run', () => {
+    const history = getReadinessHistory(release, testCases, [
+      run('run-2', '2025-07-02T10:00:00.000Z', { 'tc-login': 'pass', 'tc-cart': 'pass' }),
+      run('run-1', '2025-07-01T10:00:00.000Z', { 'tc-login': 'fail', 'tc-search': 'pass' })
+    ])
+
+    expect(history.map(point => [point.testRunId, point.verdict, point.passRate, point.criteriaMet])).toEqual([
+      ['run-1', 'no_go', 50, 0],
+      ['run-2', 'go', 100, 3]
+    ])
+  })
+
+  it('should validate the exit criteria', () => {
+    const issues = validateRelease({
+      ...release,
+      kind: 'epic',
+      targetDate: '1 July',
+      exitCriteria: [{ id: 'c-1', type: 'passRate', threshold: 120 }, { id: 'c-2', type: 'allExecuted', priority: 'urgent' }]
+    })
+
+    expect(issues.map(issue => issue.path)).toEqual(['kind', 'targetDate', 'exitCriteria[0].threshold', 'exitCriteria[1].priority'])
+    expect(validateRelease(release)).toEqual([])
+  })
+
+  describeEachStorageBackend('qa-releases-', () => {
+    const plan: TestPlan = {
+      id: 'plan-1',
+      name: 'Regression',
+      description: '',
+      version: '1.0',
+      testCases: ['tc-login', 'tc-cart'],
+      createdAt: now,
+      updatedAt: now,
+      createdBy: 'tester'
+    }
+
+    beforeEach(async () => {
+      for (const item of testCases) {
+        await FileUtils.saveTestCase(item)
+      }
+      await FileUtils.saveTestPlan(plan)
+    })
+
+    it('should fill in the defaults and keep fields that are left out', async () => {
+      const saved = await FileUtils.saveRelease({
+        id: 'release-1',
+        name: 'Beta',
+        testPlans: ['plan-1'],
+        exitCriteria: [{ type: 'passRate', threshold: 90 }] as Release['exitCriteria'],
+        createdBy: 'alice'
+      })
+
+      expect(saved).toMatchObject({ kind: 'release', status: 'planned', testRuns: [], createdBy: 'alice' })
+      expect(saved.exitCriteria[0].id).toEqual(expect.any(String))
+
+      const updated = await FileUtils.saveRelease({ id: 'release-1', name: 'Beta 1', status: 'in_progress' })
+      expect(updated).toMatchObject({ name: 'Beta 1', status: 'in_progress', testPlans: ['plan-1'], createdAt: saved.createdAt })
+      expect(updated.exitCriteria).toEqual(saved.exitCriteria)
+      expect(await FileUtils.getReleases()).toEqual([updated])
+    })
+
+    it('should reject plans and runs that don\'t exist', async () => {
+      await expect(FileUtils.saveRelease({ id: 'release-1', name: 'Beta', testPlans: ['plan-missing'] })).rejects.toThrow(SchemaValidationError)
+      await expect(FileUtils.saveRelease({ id: 'release-1', name: 'Beta', testRuns: ['run-missing'] })).rejects.toThrow(SchemaValidationError)
+      expect(await FileUtils.loadRelease('release-1')).toBeNull()
+    })
+
+    it('should keep saving a release after a linked plan or run is trashed', async () => {
+      await FileUtils.saveTestRun(run('run-1', '2025-07-01T10:00:00.000Z', { 'tc-login': 'pass' }))
+      await FileUtils.saveRelease({ id: 'release-1', name: 'Beta', testPlans: ['plan-1'], testRuns: ['run-1'] })
+      await FileUtils.trashTestPlan('plan-1', 'tester')
+      await FileUtils.trashTestRun('run-1', 'tester')
+
+      const renamed = await FileUtils.saveRelease({ id: 'release-1', name: 'Beta 1' })
+      expect(renamed).toMatchObject({ name: 'Beta 1', testPlans: ['plan-1'], testRuns: ['run-1'] })
+      await expect(FileUtils.saveRelease({ id: 'release-1', name: 'Beta 1', testPlans: ['plan-1', 'plan-missing'] }))
+        .rejects.toThrow(SchemaValidationError)
+    })
+
+    it('should evaluate a release from the runs of its plans', async () => {
+      await FileUtils.saveRelease({ ...release, exitCriteria: release.exitCriteria.slice(1) })
+      await FileUtils.saveTestRun(run('run-1', '2025-07-01T10:00:00.000Z', { 'tc-login': 'pass', 'tc-cart': 'fail' }))
+
+      const report = await FileUtils.getReleaseReport('release-1')
+      expect(report?.readiness).toMatchObject({ verdict: 'no_go', summary: { testCases: 2, failed: 1, testRuns: 1 } })
+      expect(report?.history.map(point => point.testRunId)).toEqual(['run-1'])
+
+      await FileUtils.saveTestRun(run('run-2', '2025-07-02T10:00:00.000Z', { 'tc-cart': 'pass' }))
+      expect((await FileUtils.getReleaseReport('release-1'))?.readiness.verdict).toBe('go')
+    })
+
+    it('should delete a release', async () => {
+      await FileUtils.saveRelease(release)
+
+      expect(await FileUtils.deleteRelease('release-1')).toBe(true)
+      expect(await FileUtils.deleteRelease('release-1')).toBe(false)
+      expect(await FileUtils.getReleaseReport('release-1')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { buildTraceabilityMatrix, nextRequirementId, parseAcceptanceCriteria } from '../requirements'
+import { getLatestResults } from '../test-execution-utils'
+import { GitHubIssue, Requirement, TestCase, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, githubIssue?: TestCase['githubIssue']) => TestCaseFactory.fixed(id, githubIssue ? { githubIssue } : {})
+
+const requirement = (id: string, testCases: string[]): Requirement => ({
+  id, title: id, acceptanceCriteria: [], testCases, createdAt: now, updatedAt: now, createdBy: 'tester'
+})
+
+const run = (id: string, results: Array<[string, TestRun['results'][number]['status'], string]>): TestRun => ({
+  id,
+  testPlanId: 'plan-1',
+  name: `Run ${id}`,
+  startedAt: now,
+  status: 'completed',
+  executedBy: 'tester',
+  results: results.map(([testCaseId, status, executedAt]) => ({ testCaseId, status, executedAt, steps: [] }))
+})
+
+const issue = (number: number, body: string): GitHubIssue => ({
+  id: number,
+  number,
+  title: `Issue ${number}`,
+  body,
+  state: 'open',
+  labels: [],
+  user: { login: 'octocat', avatar_url: '' },
+  comments: 0,
+  created_at: now,
+  updated_at: now,
+  html_url: `https://github.com/acme/shop/issues/${number}`
+})
+
+describe('requirements', () => {
+  it('should read acceptance criteria from task lists or their own section', () => {
+    expect(parseAcceptanceCriteria('Intro\n- [ ] Card is charged\n- [x] Receipt is sent\n- Not a task')).toEqual([
+      'Card is charged',
+      'Receipt is sent'
+    ])
+    expect(parseAcceptanceCriteria('## Context\n- Some context\n\n## Acceptance Criteria\n1. Card is charged\n* Receipt is sent\n\n## Notes\n- Later')).toEqual([
+      'Card is charged',
+      'Receipt is sent'
+    ])
+    expect(parseAcceptanceCriteria('**Acceptance criteria:**\n- Card is charged')).toEqual(['Card is charged'])
+    expect(parseAcceptanceCriteria(null)).toEqual([])
+  })
+
+  it('should number new requirements after the highest REQ ID', () => {
+    expect(nextRequirementId([{ id: 'REQ-2' }, { id: 'REQ-10' }, { id: 'GH-acme-shop-40' }])).toBe('REQ-11')
+    expect(nextRequirementId([])).toBe('REQ-1')
+  })
+
+  it('should flag uncovered and failing requirements from the latest results', () => {
+    const latest = getLatestResults([
+      run('run-1', [['tc-1', 'fail', '2025-07-01T10:00:00.000Z'], ['tc-2', 'pass', '2025-07-01T10:00:00.000Z']]),
+      run('run-2', [['tc-1', 'pass', '2025-07-02T10:00:00.000Z'], ['tc-2', 'not_executed', '2025-07-03T10:00:00.000Z']]),
+      run('run-3', [['tc-3', 'fail', '2025-07-02T10:00:00.000Z']])
+    ])
+    const matrix = buildTraceabilityMatrix(
+      [
+        requirement('REQ-10', ['tc-1', 'tc-2']),
+        requirement('REQ-2', ['tc-1', 'tc-3']),
+        requirement('REQ-3', ['tc-deleted']),
+        requirement('REQ-4', ['tc-1', 'tc-4'])
+      ],
+      ['tc-1', 'tc-2', 'tc-3', 'tc-4'].map(id => testCase(id)),
+      latest
+    )
+
+    expect(matrix.rows.map(row => [row.requirement.id, row.coverage])).toEqual([
+      ['REQ-2', 'failing'],
+      ['REQ-3', 'uncovered'],
+      ['REQ-4', 'incomplete'],
+      ['REQ-10', 'passing']
+    ])
+    expect(matrix.rows[0].testCases[0]).toMatchObject({ id: 'tc-1', status: 'pass', testRunId: 'run-2' })
+    expect(matrix.summary).toEqual({ total: 4, uncovered: 1, failing: 1, incomplete: 1, passing: 1, coveragePercent: 75 })
+  })
+
+  describeEachStorageBackend('qa-requirements-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveTestCase(testCase('tc-1'))
+      await FileUtils.saveTestCase(testCase('tc-2', { number: 7, url: 'https://github.com/acme/shop/issues/7', repository: 'acme/shop' }))
+    })
+
+    it('should link and unlink covering test cases', async () => {
+      const saved = await FileUtils.saveRequirement({ id: 'REQ-1', title: 'Checkout', acceptanceCriteria: ['Card is charged'] })
+      expect(saved.testCases).toEqual([])
+
+      await FileUtils.linkRequirementTestCases('REQ-1', ['tc-1', 'tc-2', 'tc-1'])
+      await expect(FileUtils.linkRequirementTestCases('REQ-1', ['tc-missing'])).rejects.toThrow('testCases is not a test case: tc-missing')
+      expect((await FileUtils.getTestCaseRequirements('tc-2')).map(r => r.id)).toEqual(['REQ-1'])
+
+      const updated = await FileUtils.linkRequirementTestCases('REQ-1', ['tc-2'], { unlink: true })
+      expect(updated).toMatchObject({ testCases: ['tc-1'], createdAt: saved.createdAt, acceptanceCriteria: ['Card is charged'] })
+      expect(await FileUtils.linkRequirementTestCases('REQ-9', ['tc-1'])).toBeNull()
+
+      await expect(FileUtils.saveRequirement({ id: 'REQ 1', title: 'Spaces' })).rejects.toMatchObject({
+        issues: [{ path: 'id' }]
+      })
+    })
+
+    it('should import GitHub issues once and link generated test cases', async () => {
+      const first = await FileUtils.importGitHubRequirements([issue(7, '- [ ] Card is charged')], 'acme/shop', { author: 'alice' })
+      expect(first.created).toHaveLength(1)
+      expect(first.created[0]).toMatchObject({
+        id: 'GH-acme-shop-7',
+        source: 'acme/shop#7',
+        acceptanceCriteria: ['Card is charged'],
+        testCases: ['tc-2'],
+        createdBy: 'alice'
+      })
+
+      await FileUtils.linkRequirementTestCases('GH-acme-shop-7', ['tc-1'])
+      const second = await FileUtils.importGitHubRequirements([{ ...issue(7, '- [ ] Card is refunded'), title: 'Refunds' }], 'acme/shop')
+      expect(second.updated[0]).toMatchObject({ title: 'Refunds', acceptanceCriteria: ['Card is refunded'], testCases: ['tc-2', 'tc-1'] })
+      expect(await FileUtils.getRequirements()).toHaveLength(1)
+    })
+
+    it('should build the matrix from stored runs', async () => {
+      await FileUtils.saveRequirement({ id: 'REQ-1', title: 'Checkout', testCases: ['tc-1'] })
+      await FileUtils.saveRequirement({ id: 'REQ-2', title: 'Search' })
+      await FileUtils.saveTestRun(run('run-1', [['tc-1', 'fail', '2025-07-01T10:00:00.000Z']]))
+
+      const matrix = await FileUtils.getTraceabilityMatrix()
+      expect(matrix.rows.map(row => row.coverage)).toEqual(['failing', 'uncovered'])
+    })
+  })
+})
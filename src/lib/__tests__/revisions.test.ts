@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { diffTestCases, summarizeDiff } from '../revision-diff'
+import { TestCase, TestRun } from '../types'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const baseCase: TestCase = {
+  id: 'tc-1',
+  title: 'Login works',
+  description: 'User can log in',
+  steps: [
+    { id: 'step-1', stepNumber: 1, action: 'Open login page', expectedResult: 'Form is shown' },
+    { id: 'step-2', stepNumber: 2, action: 'Submit credentials', expectedResult: 'Dashboard is shown' }
+  ],
+  expectedResult: 'User is logged in',
+  priority: 'high',
+  tags: ['auth'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'alice'
+}
+
+describe('revision diff', () => {
+  it('should report changed fields', () => {
+    const diff = diffTestCases(baseCase, { ...baseCase, title: 'Login succeeds', tags: ['auth', 'smoke'] })
+
+    expect(diff.fields).toEqual([
+      { field: 'title', from: 'Login works', to: 'Login succeeds' },
+      { field: 'tags', from: ['auth'], to: ['auth', 'smoke'] }
+    ])
+    expect(diff.hasChanges).toBe(true)
+  })
+
+  it('should treat missing and empty optional fields as equal', () => {
+    const diff = diffTestCases(baseCase, { ...baseCase, preconditions: '' })
+
+    expect(diff.hasChanges).toBe(false)
+    expect(summarizeDiff(diff)).toBe('No changes')
+  })
+
+  it('should detect an inserted step without marking later steps as changed', () => {
+    const inserted = { id: 'step-x', stepNumber: 2, action: 'Enter username', expectedResult: 'Username is accepted' }
+    const diff = diffTestCases(baseCase, {
+      ...baseCase,
+      steps: [baseCase.steps[0], inserted, baseCase.steps[1]]
+    })
+
+    expect(diff.steps.map(step => step.type)).toEqual(['unchanged', 'added', 'unchanged'])
+    expect(summarizeDiff(diff)).toBe('1 step added')
+  })
+
+  it('should report step-level field changes for an edited step', () => {
+    const diff = diffTestCases(baseCase, {
+      ...baseCase,
+      steps: [baseCase.steps[0], { ...baseCase.steps[1], expectedResult: 'Dashboard greets the user' }]
+    })
+
+    expect(diff.steps[1]).toEqual({
+      type: 'modified',
+      fromStep: 2,
+      toStep: 2,
+      changes: [{ field: 'expectedResult', from: 'Dashboard is shown', to: 'Dashboard greets the user' }]
+    })
+  })
+
+  it('should report removed steps', () => {
+    const diff = diffTestCases(baseCase, { ...baseCase, steps: [baseCase.steps[1]] })
+
+    expect(diff.steps.map(step => step.type)).toEqual(['removed', 'unchanged'])
+  })
+})
+
+describe('FileUtils revision history', () => {
+  describeEachStorageBackend('qa-revisions-', () => {
+    it('should record a revision on every save with changes', async () => {
+      await FileUtils.saveTestCase(baseCase)
+      await FileUtils.saveTestCase({ ...baseCase, title: 'Login succeeds' }, { author: 'bob', summary: 'Reworded title' })
+      await FileUtils.saveTestCase({ ...baseCase, title: 'Login succeeds' }, { author: 'bob' })
+
+      const revisions = await FileUtils.getTestCaseRevisions('tc-1')
+
+      expect(revisions.map(r => [r.revision, r.author, r.summary])).toEqual([
+        [1, 'alice', 'Created'],
+        [2, 'bob', 'Reworded title']
+      ])
+    })
+
+    it('should keep the pre-existing content of cases saved before history existed', async () => {
+      await FileUtils.getStorage().saveTestCase(baseCase)
+
+      await FileUtils.saveTestCase({ ...baseCase, description: 'Changed' }, { author: 'bob' })
+
+      const revisions = await FileUtils.getTestCaseRevisions('tc-1')
+      expect(revisions).toHaveLength(2)
+      expect(revisions[0].summary).toBe('Initial version')
+      expect(revisions[0].snapshot.description).toBe('User can log in')
+      expect(revisions[1].summary).toBe('Updated description')
+    })
+
+    it('should restore an earlier revision as a new revision', async () => {
+      await FileUtils.saveTestCase(baseCase)
+      await FileUtils.saveTestCase({ ...baseCase, steps: [baseCase.steps[0]] }, { author: 'bob' })
+
+      const restored = await FileUtils.restoreTestCaseRevision('tc-1', 1, 'carol')
+
+      expect(restored?.revision).toMatchObject({ revision: 3, author: 'carol', summary: 'Restored revision 1' })
+      expect((await FileUtils.loadTestCase('tc-1'))?.steps).toHaveLength(2)
+      expect(await FileUtils.restoreTestCaseRevision('tc-1', 99, 'carol')).toBeNull()
+    })
+
+    it('should not restore a revision of a test case in the trash', async () => {
+      await FileUtils.saveTestCase(baseCase)
+      const entry = await FileUtils.trashTestCase('tc-1', 'bob')
+
+      await expect(FileUtils.restoreTestCaseRevision('tc-1', 1, 'carol')).rejects.toThrow('is in the trash')
+      expect(await FileUtils.loadTestCase('tc-1')).toBeNull()
+
+      await FileUtils.restoreFromTrash(entry!.id)
+      expect(await FileUtils.restoreTestCaseRevision('tc-1', 1, 'carol')).not.toBeNull()
+    })
+
+    it('should refuse to overwrite a recorded revision', async () => {
+      const revision = await FileUtils.saveTestCase(baseCase)
+      const storage = FileUtils.getStorage()
+
+      await expect(storage.appendTestCaseRevision({ ...revision, summary: 'Rewritten' })).rejects.toThrow('already exists')
+    })
+
+    it('should pin test results to the latest revision when a run is saved', async () => {
+      await FileUtils.saveTestCase(baseCase)
+      await FileUtils.saveTestCase({ ...baseCase, title: 'Login succeeds' })
+
+      const run: TestRun = {
+        id: 'run-1',
+        testPlanId: 'plan-1',
+        name: 'Run',
+        startedAt: '2025-07-03T00:00:00.000Z',
+        status: 'completed',
+        executedBy: 'alice',
+        results: [{ testCaseId: 'tc-1', status: 'pass', executedAt: '2025-07-03T00:00:00.000Z', steps: [] }]
+      }
+      await FileUtils.saveTestRun(run)
+
+      const [saved] = await FileUtils.getAllTestRuns()
+      expect(saved.results[0].testCaseRevision).toBe(2)
+    })
+  })
+})
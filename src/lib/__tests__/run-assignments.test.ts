@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils, SchemaValidationError } from '../file-utils'
+import { assignByTag, assignRoundRobin, getAssignedTests, getRunTestCaseIds, getWorkload } from '../run-assignments'
+import { TestResultStatus, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, tags: string[] = []) => TestCaseFactory.fixed(id, { tags })
+
+const run = (id: string, assignees: Record<string, string>, results: Record<string, TestResultStatus> = {}, status: TestRun['status'] = 'in_progress'): TestRun => ({
+  id,
+  testPlanId: 'plan-1',
+  name: `Run ${id}`,
+  startedAt: now,
+  status,
+  executedBy: 'lead',
+  planSnapshot: { testCaseIds: ['tc-1', 'tc-2', 'tc-3', 'tc-4'], resolvedAt: now },
+  assignees,
+  results: Object.entries(results).map(([testCaseId, status]) => ({ testCaseId, status, executedAt: now, steps: [] }))
+})
+
+describe('run assignments', () => {
+  it('should deal test cases out in turn', () => {
+    expect(assignRoundRobin(['tc-1', 'tc-2', 'tc-3', 'tc-4', 'tc-5'], ['alice', 'bob'])).toEqual({
+      'tc-1': 'alice', 'tc-2': 'bob', 'tc-3': 'alice', 'tc-4': 'bob', 'tc-5': 'alice'
+    })
+  })
+
+  it('should assign by the first matching tag', () => {
+    const assignments = assignByTag(
+      [testCase('tc-1', ['Checkout', 'api']), testCase('tc-2', ['api']), testCase('tc-3', ['search'])],
+      [{ tag: 'checkout', assignee: 'alice' }, { tag: 'API', assignee: 'bob' }]
+    )
+
+    expect(assignments).toEqual({ 'tc-1': 'alice', 'tc-2': 'bob' })
+  })
+
+  it('should list a tester\'s test cases in the open runs', () => {
+    const runs = [
+      run('run-1', { 'tc-1': 'Alice', 'tc-2': 'bob' }, { 'tc-1': 'pass' }),
+      run('run-2', { 'tc-3': 'alice' }, {}, 'completed')
+    ]
+
+    expect(getAssignedTests(runs, 'alice ')).toEqual([
+      { testRunId: 'run-1', testRunName: 'Run run-1', testPlanId: 'plan-1', testCaseId: 'tc-1', status: 'pass' }
+    ])
+  })
+
+  it('should assign a test case in every configuration of the run', () => {
+    const testRun = {
+      ...run('run-1', { 'tc-1': 'alice' }),
+      configurations: [{ id: 'Chrome', values: { browser: 'Chrome' } }, { id: 'Firefox', values: { browser: 'Firefox' } }],
+      results: [{ testCaseId: 'tc-1', configuration: 'Firefox', status: 'pass' as const, executedAt: now, steps: [] }]
+    }
+
+    expect(getAssignedTests([testRun], 'alice').map(test => [test.configuration, test.status])).toEqual([
+      ['Chrome', 'not_executed'],
+      ['Firefox', 'pass']
+    ])
+    expect(getWorkload([testRun])[0]).toMatchObject({ assignee: 'alice', assigned: 2, executed: 1 })
+  })
+
+  it('should break the progress down per assignee', () => {
+    const testRun = run('run-1', { 'tc-1': 'alice', 'tc-2': 'Alice', 'tc-3': 'bob' }, { 'tc-1': 'pass', 'tc-2': 'fail', 'tc-4': 'blocked' })
+
+    expect(getRunTestCaseIds(testRun)).toEqual(['tc-1', 'tc-2', 'tc-3', 'tc-4'])
+    expect(getWorkload([testRun])).toEqual([
+      { assignee: 'alice', assigned: 2, executed: 2, passed: 1, failed: 1, blocked: 0, remaining: 0, progress: 100 },
+      { assignee: 'bob', assigned: 1, executed: 0, passed: 0, failed: 0, blocked: 0, remaining: 1, progress: 0 },
+      { assignee: null, assigned: 1, executed: 1, passed: 0, failed: 0, blocked: 1, remaining: 0, progress: 100 }
+    ])
+  })
+
+  describeEachStorageBackend('qa-assignments-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveTestCase(testCase('tc-1', ['checkout']))
+      await FileUtils.saveTestCase(testCase('tc-2', ['api']))
+      await FileUtils.saveTestCase(testCase('tc-3'))
+      await FileUtils.saveTestCase(testCase('tc-4', ['checkout']))
+      await FileUtils.saveTestRun(run('run-1', {}))
+    })
+
+    it('should assign in bulk and one by one', async () => {
+      await FileUtils.assignTestRun('run-1', { byTag: [{ tag: 'checkout', assignee: 'alice' }] })
+      await FileUtils.assignTestRun('run-1', { roundRobin: { assignees: ['bob', ' carol '], onlyUnassigned: true } })
+      const testRun = await FileUtils.assignTestRun('run-1', { assignments: { 'tc-4': null, 'tc-3': 'dave' } })
+
+      expect(testRun?.assignees).toEqual({ 'tc-1': 'alice', 'tc-2': 'bob', 'tc-3': 'dave' })
+      expect((await FileUtils.loadTestRun('run-1'))?.assignees).toEqual(testRun?.assignees)
+    })
+
+    it('should keep the assignments as testers record their results', async () => {
+      await FileUtils.assignTestRun('run-1', { roundRobin: { assignees: ['alice', 'bob'] } })
+      await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-1', status: 'pass', executedBy: 'alice' })
+
+      expect((await FileUtils.getAssignedTests('alice')).map(test => [test.testCaseId, test.status])).toEqual([
+        ['tc-1', 'pass'],
+        ['tc-3', 'not_executed']
+      ])
+      expect((await FileUtils.getAssigneeWorkload())?.map(item => [item.assignee, item.executed, item.assigned])).toEqual([
+        ['alice', 1, 2],
+        ['bob', 0, 2]
+      ])
+    })
+
+    it('should reject test cases that aren\'t part of the run', async () => {
+      await expect(FileUtils.assignTestRun('run-1', { assignments: { 'tc-9': 'alice' } })).rejects.toThrow(SchemaValidationError)
+      await expect(FileUtils.assignTestRun('run-1', { roundRobin: { assignees: [' '] } })).rejects.toThrow(SchemaValidationError)
+      expect(await FileUtils.assignTestRun('run-missing', { assignments: {} })).toBeNull()
+      expect(await FileUtils.getAssigneeWorkload('run-missing')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { FileUtils, SchemaValidationError } from '../file-utils'
+import { FileStorageAdapter } from '../storage'
+import { validateWorkspace } from '../storage/validate'
+import {
+  normalizePriority,
+  repairTimestamp,
+  validateTestCase,
+  validateTestPlan,
+  validateTestRun
+} from '../schema'
+import { TestCase, TestPlan, TestRun } from '../types'
+
+const testCase: TestCase = {
+  id: 'tc-1',
+  title: 'Login works',
+  description: 'User can log in',
+  steps: [{ id: 'step-1', stepNumber: 1, action: 'Log in', expectedResult: 'Dashboard is shown' }],
+  expectedResult: 'User is logged in',
+  priority: 'high',
+  tags: ['auth'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-02T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const testPlan: TestPlan = {
+  id: 'plan-1',
+  name: 'Smoke',
+  description: '',
+  version: '1.0',
+  testCases: ['tc-1'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const testRun: TestRun = {
+  id: 'run-1',
+  testPlanId: 'plan-1',
+  name: 'Smoke run',
+  startedAt: '2025-07-03T00:00:00.000Z',
+  status: 'completed',
+  executedBy: 'tester',
+  results: [{
+    testCaseId: 'tc-1',
+    status: 'pass',
+    executedAt: '2025-07-03T00:05:00.000Z',
+    steps: [{ stepId: 'step-1', status: 'pass' }]
+  }]
+}
+
+describe('schema', () => {
+  it('should accept valid entities', () => {
+    expect(validateTestCase(testCase)).toEqual([])
+    expect(validateTestPlan(testPlan)).toEqual([])
+    expect(validateTestRun(testRun)).toEqual([])
+  })
+
+  it('should report each invalid field with a path', () => {
+    const issues = validateTestRun({
+      ...testRun,
+      status: 'done',
+      results: [{ ...testRun.results[0], steps: [{ stepId: 'step-1', status: 'passed' }] }]
+    })
+
+    expect(issues.map(issue => issue.path)).toEqual(['status', 'results[0].steps[0].status'])
+    expect(validateTestCase({ ...testCase, title: '' })).toEqual([
+      { path: 'title', message: 'is required', repairable: false }
+    ])
+  })
+
+  it('should flag localized priorities and malformed timestamps as repairable', () => {
+    const issues = validateTestCase({ ...testCase, priority: 'høy', createdAt: '2025-07-20T10:03:42.3NZ' })
+
+    expect(issues.map(issue => [issue.path, issue.repairable])).toEqual([
+      ['createdAt', true],
+      ['priority', true]
+    ])
+    expect(validateTestCase({ ...testCase, priority: 'urgent' })[0].repairable).toBe(false)
+  })
+
+  it('should normalize priorities and repair timestamps', () => {
+    expect(normalizePriority('høy')).toBe('high')
+    expect(normalizePriority(' Critical ')).toBe('critical')
+    expect(normalizePriority('constructor')).toBeUndefined()
+    expect(repairTimestamp('2025-07-20T10:03:42.3NZ')).toBe('2025-07-20T10:03:42.300Z')
+    expect(repairTimestamp(new Date('2025-07-20T10:00:00Z'))).toBe('2025-07-20T10:00:00.000Z')
+    expect(repairTimestamp('yesterday')).toBeUndefined()
+  })
+})
+
+describe('validateWorkspace', () => {
+  let workspaceDir: string
+  let storage: FileStorageAdapter
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-schema-'))
+    storage = new FileStorageAdapter(workspaceDir)
+    FileUtils.setStorage(storage)
+
+    await storage.saveTestCase({ ...testCase, priority: 'høy' as TestCase['priority'] })
+    await storage.saveTestPlan({ ...testPlan, testCases: ['tc-1', 'tc-gone'], createdAt: '2025-07-20T10:03:42.3NZ' })
+    await fs.writeFile(path.join(workspaceDir, 'testplans', 'broken.json'), '{ not json', 'utf-8')
+  })
+
+  afterEach(async () => {
+    FileUtils.setStorage(null)
+    await fs.rm(workspaceDir, { recursive: true, force: true })
+  })
+
+  it('should list every invalid document with the reason', async () => {
+    const report = await validateWorkspace(storage)
+
+    expect(report).toMatchObject({ backend: 'file', scanned: 3, invalid: 3, repaired: 0 })
+    expect(report.findings.map(finding => [finding.location, finding.issues.map(issue => issue.path)])).toEqual([
+      [path.join('testcases', 'tc-1.md'), ['priority']],
+      [path.join('testplans', 'broken.json'), ['']],
+      [path.join('testplans', 'plan-1.json'), ['createdAt', 'testCases']]
+    ])
+  })
+
+  it('should repair the known issues in place', async () => {
+    const report = await validateWorkspace(storage, { repair: true })
+
+    expect(report).toMatchObject({ invalid: 1, repaired: 2 })
+    expect((await storage.loadTestCase('tc-1'))?.priority).toBe('high')
+    expect(await storage.loadTestPlan('plan-1')).toMatchObject({
+      testCases: ['tc-1'],
+      createdAt: '2025-07-20T10:03:42.300Z'
+    })
+    expect((await validateWorkspace(storage)).findings.map(finding => finding.location)).toEqual([
+      path.join('testplans', 'broken.json')
+    ])
+  })
+
+  it('should reject invalid writes through FileUtils', async () => {
+    await expect(FileUtils.saveTestPlan({ ...testPlan, createdAt: 'soon' })).rejects.toThrow(SchemaValidationError)
+    await expect(FileUtils.saveTestRun({ ...testRun, startedAt: '' })).rejects.toThrow('startedAt is required')
+
+    // Invalid values are rejected rather than normalized into valid-looking ones
+    const invalidRun = { ...testRun, status: 'garbage', results: [{ status: 'bogus', steps: [{ status: 'weird' }] }] }
+    await expect(FileUtils.saveTestRun(invalidRun)).rejects.toThrow(SchemaValidationError)
+    await expect(FileUtils.saveTestRun(invalidRun)).rejects.toMatchObject({
+      issues: [
+        expect.objectContaining({ path: 'results[0].testCaseId' }),
+        expect.objectContaining({ path: 'results[0].steps[0].stepId' })
+      ]
+    })
+    await expect(FileUtils.saveTestRun({ ...testRun, status: 'garbage' })).rejects.toThrow(SchemaValidationError)
+    await expect(FileUtils.saveTestRun({ ...testRun, results: [{ ...testRun.results[0], status: 'bogus', steps: [] }] }))
+      .rejects.toThrow(SchemaValidationError)
+    await expect(FileUtils.saveTestRun({ ...testRun, results: [null] })).rejects.toThrow(SchemaValidationError)
+    expect(await FileUtils.loadTestRun('run-1')).toBeNull()
+
+    // Localized priorities are canonicalized on save
+    const revision = await FileUtils.saveTestCase({ ...testCase, priority: 'kritisk' as TestCase['priority'] })
+    expect(revision.snapshot.priority).toBe('critical')
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileSystemError, FileUtils, SchemaValidationError } from '../file-utils'
+import { parseTestCase, serializeTestCase } from '../storage/markdown'
+import { TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const login = {
+  id: 'shared-login',
+  title: 'Log in as admin',
+  steps: [
+    { id: 'step-1', stepNumber: 1, action: 'Open /login', expectedResult: 'Login form is shown' },
+    { id: 'step-2', stepNumber: 2, action: 'Sign in as admin', expectedResult: 'Dashboard is shown' }
+  ],
+  createdBy: 'tester'
+}
+
+const testCase = (id: string, sharedStepVersion?: number) => TestCaseFactory.fixed(id, {
+  title: `Export report (${id})`,
+  steps: [
+    { id: 'step-1', stepNumber: 1, action: '', expectedResult: '', sharedStepId: 'shared-login', sharedStepVersion },
+    { id: 'step-2', stepNumber: 2, action: 'Export the report', expectedResult: 'A CSV is downloaded' }
+  ]
+})
+
+describe('shared steps', () => {
+  it('should keep references through the Markdown format', () => {
+    const pinned = testCase('tc-pinned', 2)
+    const content = serializeTestCase(pinned)
+
+    expect(content).toContain('**Shared Step:** shared-login@2')
+    expect(parseTestCase(content)).toEqual(pinned)
+    expect(parseTestCase(serializeTestCase(testCase('tc-latest'))).steps[0]).toEqual({
+      id: 'step-1', stepNumber: 1, action: '', expectedResult: '', sharedStepId: 'shared-login'
+    })
+  })
+
+  describeEachStorageBackend('qa-shared-steps-', () => {
+    it('should version every change and expand references at the pinned or latest version', async () => {
+      const first = await FileUtils.saveSharedStep(login)
+      expect(await FileUtils.saveSharedStep({ ...first })).toEqual(first)
+
+      const second = await FileUtils.saveSharedStep({
+        ...first,
+        steps: [...first.steps, { id: 'step-3', stepNumber: 3, action: 'Accept the terms', expectedResult: 'Terms are accepted' }]
+      }, { author: 'editor' })
+      expect(second).toMatchObject({ version: 2, createdBy: 'tester', updatedBy: 'editor' })
+      expect((await FileUtils.getSharedStepVersions('shared-login')).map(v => v.version)).toEqual([1, 2])
+
+      await FileUtils.saveTestCase(testCase('tc-latest'))
+      await FileUtils.saveTestCase(testCase('tc-pinned', 1))
+
+      const latest = await FileUtils.loadExpandedTestCase('tc-latest')
+      expect(latest?.steps.map(step => [step.id, step.stepNumber, step.sharedStepVersion])).toEqual([
+        ['step-1/step-1', 1, 2],
+        ['step-1/step-2', 2, 2],
+        ['step-1/step-3', 3, 2],
+        ['step-2', 4, undefined]
+      ])
+      expect(latest?.steps[0].sharedStepTitle).toBe('Log in as admin')
+      expect((await FileUtils.loadExpandedTestCase('tc-pinned'))?.steps).toHaveLength(3)
+    })
+
+    it('should list where a shared step is used and preview the impact of an edit', async () => {
+      const sharedStep = await FileUtils.saveSharedStep(login)
+      await FileUtils.saveTestCase(testCase('tc-latest'))
+      await FileUtils.saveTestCase(testCase('tc-pinned', 1))
+
+      const usage = await FileUtils.getSharedStepUsage('shared-login')
+      expect(usage.latest.map(u => u.testCaseId)).toEqual(['tc-latest'])
+      expect(usage.pinned).toEqual([{
+        testCaseId: 'tc-pinned',
+        title: 'Export report (tc-pinned)',
+        references: [{ stepId: 'step-1', stepNumber: 1, version: 1 }]
+      }])
+
+      const steps = [{ ...sharedStep.steps[0], action: 'Open /signin' }, sharedStep.steps[1]]
+      const preview = await FileUtils.previewSharedStepChange('shared-login', { title: sharedStep.title, steps })
+      expect(preview).toMatchObject({ nextVersion: 2, diff: { hasChanges: true, fields: [] } })
+      expect(preview?.diff.steps.map(step => step.type)).toEqual(['modified', 'unchanged'])
+      expect(await FileUtils.loadSharedStep('shared-login')).toEqual(sharedStep)
+
+      await expect(FileUtils.deleteSharedStep('shared-login')).rejects.toThrow(FileSystemError)
+    })
+
+    it('should keep the shared step version a run executed', async () => {
+      await FileUtils.saveSharedStep(login)
+      await FileUtils.saveTestCase(testCase('tc-pinned', 1))
+      const steps = [
+        { stepId: 'step-1/step-1', sharedStepVersion: 1, status: 'pass' as const },
+        { stepId: 'step-2', status: 'pass' as const }
+      ]
+      const testRun: TestRun = {
+        id: 'run-1',
+        testPlanId: 'plan-1',
+        name: 'Export run',
+        startedAt: '2025-07-03T00:00:00.000Z',
+        status: 'in_progress',
+        executedBy: 'tester',
+        results: [{ testCaseId: 'tc-pinned', status: 'pass', executedAt: '2025-07-03T00:01:00.000Z', steps }]
+      }
+
+      await FileUtils.saveTestRun(testRun)
+
+      expect((await FileUtils.loadTestRun('run-1'))?.results[0].steps.map(step => [step.stepId, step.sharedStepVersion]))
+        .toEqual([['step-1/step-1', 1], ['step-2', undefined]])
+    })
+
+    it('should reject references to unknown shared steps and versions', async () => {
+      await FileUtils.saveSharedStep(login)
+
+      await expect(FileUtils.saveTestCase(testCase('tc-pinned', 3))).rejects.toThrow(SchemaValidationError)
+      await expect(FileUtils.saveTestCase({
+        ...testCase('tc-nested'),
+        steps: [{ id: 'step-1', stepNumber: 1, action: '', expectedResult: '', sharedStepId: 'shared-missing' }]
+      })).rejects.toThrow('is not a shared step: shared-missing')
+    })
+  })
+})
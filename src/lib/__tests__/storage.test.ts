@@ -0,0 +1,240 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import initSqlJs from 'sql.js'
+import { FileStorageAdapter, FileSystemError, SqliteStorageAdapter, getStorageOptions } from '../storage'
+import { migrateStorage } from '../storage/migrate'
+import { Attachment, TestCase, TestPlan, TestRun } from '../types'
+import { storageBackends } from '@/test-utils/storage-backends'
+
+const testCase: TestCase = {
+  id: 'tc-1',
+  title: 'Login works',
+  description: 'User can log in',
+  preconditions: 'User exists',
+  steps: [
+    { id: 'step-1', stepNumber: 1, action: 'Open login page', expectedResult: 'Form is shown' },
+    { id: 'step-2', stepNumber: 2, action: 'Submit credentials', expectedResult: 'Dashboard is shown' }
+  ],
+  expectedResult: 'User is logged in',
+  priority: 'high',
+  tags: ['auth'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-02T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const testPlan: TestPlan = {
+  id: 'plan-1',
+  name: 'Smoke',
+  description: 'Smoke tests',
+  version: '1.0',
+  testCases: ['tc-1'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const testRun: TestRun = {
+  id: 'run-1',
+  testPlanId: 'plan-1',
+  name: 'Smoke run',
+  startedAt: '2025-07-03T00:00:00.000Z',
+  status: 'completed',
+  executedBy: 'tester',
+  results: [{
+    testCaseId: 'tc-1',
+    status: 'pass',
+    executedAt: '2025-07-03T00:01:00.000Z',
+    steps: [{ stepId: 'step-1', status: 'pass' }, { stepId: 'step-2', status: 'pass' }]
+  }]
+}
+
+// Compared with Buffer.equals, as toEqual walks a buffer this size byte by byte
+const screenshot = Buffer.alloc(512 * 1024, 1)
+const attachment: Attachment = {
+  id: 'att-1',
+  target: { type: 'testCase', testCaseId: 'tc-1' },
+  fileName: 'login.png',
+  contentType: 'image/png',
+  size: screenshot.length,
+  sha256: 'f'.repeat(64),
+  uploadedAt: '2025-07-01T00:00:00.000Z',
+  uploadedBy: 'tester'
+}
+
+describe('storage adapters', () => {
+  let workspaceDir: string
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-storage-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true })
+  })
+
+  describe.each(storageBackends)('%s backend', (_name, createAdapter) => {
+    it('should round-trip test cases', async () => {
+      const storage = createAdapter(workspaceDir)
+
+      await storage.saveTestCase(testCase)
+
+      expect(await storage.loadTestCase('tc-1')).toMatchObject({
+        id: 'tc-1',
+        title: 'Login works',
+        priority: 'high',
+        steps: testCase.steps
+      })
+      expect(await storage.listTestCases()).toHaveLength(1)
+      expect(await storage.loadTestCase('missing')).toBeNull()
+    })
+
+    it('should delete test cases and plans', async () => {
+      const storage = createAdapter(workspaceDir)
+      await storage.saveTestCase(testCase)
+      await storage.saveTestPlan(testPlan)
+
+      expect(await storage.deleteTestCase('tc-1')).toBe(true)
+      expect(await storage.deleteTestCase('tc-1')).toBe(false)
+      expect(await storage.deleteTestPlan('plan-1')).toBe(true)
+      expect(await storage.listTestPlans()).toHaveLength(0)
+    })
+
+    it('should store test runs', async () => {
+      const storage = createAdapter(workspaceDir)
+
+      await storage.saveTestRun(testRun)
+
+      const runs = await storage.listTestRuns()
+      expect(runs).toHaveLength(1)
+      expect(runs[0]).toMatchObject({ id: 'run-1', testPlanId: 'plan-1' })
+    })
+
+    it('should delete test runs', async () => {
+      const storage = createAdapter(workspaceDir)
+      await storage.saveTestRun(testRun)
+
+      expect(await storage.deleteTestRun('run-1')).toBe(true)
+      expect(await storage.deleteTestRun('run-1')).toBe(false)
+      expect(await storage.listTestRuns()).toHaveLength(0)
+    })
+
+    it('should store trash entries', async () => {
+      const storage = createAdapter(workspaceDir)
+      const entry = {
+        id: 'trash-1',
+        entityType: 'testPlan' as const,
+        entityId: 'plan-1',
+        name: 'Smoke',
+        deletedAt: '2025-07-04T00:00:00.000Z',
+        deletedBy: 'tester',
+        expiresAt: '2025-08-03T00:00:00.000Z',
+        planLinks: [],
+        data: testPlan
+      }
+
+      expect(await storage.listTrash()).toEqual([])
+      await storage.saveTrashEntry(entry)
+      expect(await storage.listTrash()).toEqual([entry])
+      expect(await storage.deleteTrashEntry('trash-1')).toBe(true)
+      expect(await storage.deleteTrashEntry('trash-1')).toBe(false)
+    })
+
+    it('should refuse names that reach outside its directories', async () => {
+      const storage = createAdapter(workspaceDir)
+
+      await expect(storage.loadAttachmentContent('../../../../etc/hostname')).rejects.toThrow(FileSystemError)
+      await expect(storage.saveAttachmentContent('..', screenshot)).rejects.toThrow(FileSystemError)
+    })
+  })
+
+  it('should pick up changes written by another SQLite adapter instance', async () => {
+    const dbPath = path.join(workspaceDir, 'qa.sqlite')
+    const reader = new SqliteStorageAdapter(dbPath)
+    const writer = new SqliteStorageAdapter(dbPath)
+
+    expect(await reader.listTestCases()).toHaveLength(0)
+    await writer.saveTestCase(testCase)
+
+    expect(await reader.listTestCases()).toHaveLength(1)
+  })
+
+  it('should migrate a file workspace into SQLite and back', async () => {
+    const files = new FileStorageAdapter(workspaceDir)
+    await files.saveTestCase(testCase)
+    await files.saveTestPlan(testPlan)
+    await files.saveTestRun(testRun)
+    await files.saveAttachmentContent(attachment.sha256, screenshot)
+    await files.saveAttachment(attachment)
+    await files.saveAttachment({ ...attachment, id: 'att-2', target: { type: 'testRun', testRunId: 'run-1' } })
+
+    const dbPath = path.join(workspaceDir, 'qa.sqlite')
+    const sqlite = new SqliteStorageAdapter(dbPath)
+    const report = await migrateStorage(files, sqlite)
+
+    expect(report).toMatchObject({ from: 'file', to: 'sqlite', testCases: 1, testPlans: 1, testRuns: 1, attachments: 2, errors: [] })
+    // The content lives beside the database, not in it
+    expect((await fs.stat(dbPath)).size).toBeLessThan(screenshot.length)
+    expect((await fs.readFile(path.join(workspaceDir, 'qa-attachments', attachment.sha256))).equals(screenshot)).toBe(true)
+
+    const restoredDir = path.join(workspaceDir, 'restored')
+    const restoredFiles = new FileStorageAdapter(restoredDir)
+    expect(await migrateStorage(sqlite, restoredFiles)).toMatchObject({ attachments: 2, errors: [] })
+
+    const original = await fs.readFile(path.join(workspaceDir, 'testcases', 'tc-1.md'), 'utf-8')
+    const restored = await fs.readFile(path.join(restoredDir, 'testcases', 'tc-1.md'), 'utf-8')
+    expect(restored).toBe(original)
+    expect((await restoredFiles.listAttachments()).map(item => item.id).sort()).toEqual(['att-1', 'att-2'])
+    expect((await restoredFiles.loadAttachmentContent(attachment.sha256))?.equals(screenshot)).toBe(true)
+  })
+
+  it('should report attachments whose content is missing', async () => {
+    const files = new FileStorageAdapter(workspaceDir)
+    await files.saveAttachment(attachment)
+
+    const report = await migrateStorage(files, new SqliteStorageAdapter(path.join(workspaceDir, 'qa.sqlite')))
+
+    expect(report.attachments).toBe(0)
+    expect(report.errors).toEqual([`Attachment att-1: Content ${attachment.sha256} is missing`])
+  })
+
+  it('should still read attachment content an older SQLite database holds', async () => {
+    const dbPath = path.join(workspaceDir, 'qa.sqlite')
+    const SQL = await initSqlJs()
+    const db = new SQL.Database()
+    db.run('CREATE TABLE attachment_contents (sha256 TEXT PRIMARY KEY, content BLOB NOT NULL)')
+    db.run('INSERT INTO attachment_contents (sha256, content) VALUES (?, ?)', [attachment.sha256, new Uint8Array(screenshot)])
+    await fs.writeFile(dbPath, db.export())
+    db.close()
+
+    const sqlite = new SqliteStorageAdapter(dbPath)
+    expect((await sqlite.loadAttachmentContent(attachment.sha256))?.equals(screenshot)).toBe(true)
+    expect(await sqlite.deleteAttachmentContent(attachment.sha256)).toBe(true)
+    expect(await sqlite.loadAttachmentContent(attachment.sha256)).toBeNull()
+  })
+
+  describe('getStorageOptions', () => {
+    it('should default to the file backend in the current directory', () => {
+      expect(getStorageOptions({} as NodeJS.ProcessEnv)).toEqual({
+        backend: 'file',
+        workspaceDir: process.cwd(),
+        sqlitePath: path.join(process.cwd(), '.data', 'qa.sqlite')
+      })
+    })
+
+    it('should read backend and paths from the environment', () => {
+      const options = getStorageOptions({
+        QA_STORAGE_BACKEND: 'sqlite',
+        QA_WORKSPACE_DIR: '/srv/qa',
+        QA_SQLITE_PATH: 'db/qa.sqlite'
+      } as unknown as NodeJS.ProcessEnv)
+
+      expect(options).toEqual({ backend: 'sqlite', workspaceDir: '/srv/qa', sqlitePath: '/srv/qa/db/qa.sqlite' })
+    })
+  })
+})
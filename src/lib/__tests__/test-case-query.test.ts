@@ -0,0 +1,188 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils, SchemaValidationError, TestCaseQueryError } from '../file-utils'
+import { matchesQueryFilters, parseTestCaseQuery } from '../test-case-query'
+import { TestCaseSearchIndex } from '../search-index'
+import { TestCase, TestPlan, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, title: string, overrides: Partial<TestCase> = {}) => TestCaseFactory.fixed(id, { title, ...overrides })
+
+const checkout = testCase('tc-checkout', 'Pay with a saved card', {
+  priority: 'critical',
+  tags: ['checkout'],
+  steps: [{ id: 'step-1', stepNumber: 1, action: 'Click the login button', expectedResult: 'The card form opens' }],
+  githubIssue: { number: 123, url: 'https://github.com/acme/shop/issues/123', repository: 'acme/shop', title: 'Card payments time out' },
+  updatedAt: '2025-07-05T09:00:00.000Z'
+})
+const flaky = testCase('tc-flaky', 'Pay with a new card', { priority: 'critical', tags: ['checkout', 'flaky'] })
+const search = testCase('tc-search', 'Search the catalog', { preconditions: 'The button to log in is hidden' })
+
+describe('test case query', () => {
+  it('should parse filters, negations and phrases', () => {
+    expect(parseTestCaseQuery('priority:critical tag:checkout -tag:flaky issue:#123 status:failed updated:>2025-07-01 "login button" card')).toEqual({
+      text: [
+        { text: 'login button', phrase: true, negated: false },
+        { text: 'card', phrase: false, negated: false }
+      ],
+      filters: [
+        { key: 'priority', values: ['critical'], negated: false },
+        { key: 'tag', values: ['checkout'], negated: false },
+        { key: 'tag', values: ['flaky'], negated: true },
+        { key: 'issue', values: ['#123'], negated: false },
+        { key: 'status', values: ['fail'], negated: false },
+        { key: 'updated', operator: '>', date: '2025-07-01', negated: false }
+      ]
+    })
+    expect(parseTestCaseQuery('priority:høy,LOW issue:acme/shop#7').filters).toEqual([
+      { key: 'priority', values: ['high', 'low'], negated: false },
+      { key: 'issue', values: ['acme/shop#7'], negated: false }
+    ])
+  })
+
+  it('should reject terms it doesn\'t understand', () => {
+    expect(() => parseTestCaseQuery('owner:alice')).toThrow(TestCaseQueryError)
+    expect(() => parseTestCaseQuery('priority:urgent')).toThrow('Unknown priority: urgent')
+    expect(() => parseTestCaseQuery('updated:yesterday')).toThrow('updated: needs a date')
+    expect(() => parseTestCaseQuery('tag:')).toThrow('tag: needs a value')
+    expect(() => parseTestCaseQuery('repo:shop')).toThrow('Invalid repository: shop, use owner/repo')
+  })
+
+  it('should match filters against a test case', () => {
+    const query = parseTestCaseQuery('priority:critical tag:checkout -tag:flaky updated:>2025-07-01 issue:#123')
+    expect([checkout, flaky, search].filter(candidate => matchesQueryFilters(candidate, query)).map(match => match.id)).toEqual(['tc-checkout'])
+    expect(matchesQueryFilters(search, parseTestCaseQuery('status:untested'))).toBe(true)
+  })
+
+  it('should search step text, preconditions and issue titles', () => {
+    const index = new TestCaseSearchIndex([checkout, flaky, search])
+    const find = (query: string) => [...index.search(parseTestCaseQuery(query).text)].sort()
+
+    expect(find('"login button"')).toEqual(['tc-checkout'])
+    expect(find('button')).toEqual(['tc-checkout', 'tc-search'])
+    expect(find('pay -"saved card"')).toEqual(['tc-flaky'])
+    expect(find('timeout payments')).toEqual([])
+    expect(find('time payment')).toEqual(['tc-checkout'])
+
+    index.add({ ...search, preconditions: '' })
+    index.remove('tc-checkout')
+    expect(find('button')).toEqual([])
+    expect(index.size).toBe(2)
+  })
+
+  describeEachStorageBackend('qa-query-', () => {
+    beforeEach(async () => {
+      for (const entry of [checkout, flaky, search]) {
+        await FileUtils.saveTestCase(entry)
+      }
+    })
+
+    const ids = async (query: string) => (await FileUtils.searchTestCases(query)).map(match => match.id).sort()
+
+    it('should keep the index up to date as test cases change', async () => {
+      expect(await ids('catalog')).toEqual(['tc-search'])
+
+      await FileUtils.saveTestCase({ ...flaky, title: 'Browse the catalog' })
+      await FileUtils.deleteTestCase('tc-search')
+      expect(await ids('catalog')).toEqual(['tc-flaky'])
+
+      // Issue titles of linked requirements are searchable once linked
+      expect(await ids('refund')).toEqual([])
+      await FileUtils.saveRequirement({
+        id: 'GH-acme-shop-9',
+        title: 'Refund a payment',
+        githubIssue: { number: 9, url: 'https://github.com/acme/shop/issues/9', repository: 'acme/shop' },
+        testCases: ['tc-flaky']
+      })
+      expect(await ids('refund')).toEqual(['tc-flaky'])
+      expect(await ids('issue:acme/shop#9')).toEqual(['tc-flaky'])
+      expect(await ids('repo:Acme/Shop')).toEqual(['tc-checkout', 'tc-flaky'])
+    })
+
+    it('should reindex test cases changed outside this process', async () => {
+      expect(await ids('catalog')).toEqual(['tc-search'])
+
+      // Written straight to storage, as another server process or a hand edit would
+      await FileUtils.getStorage().saveTestCase({ ...flaky, title: 'Browse the catalog', updatedAt: '2025-07-06T00:00:00.000Z' })
+      await FileUtils.getStorage().deleteTestCase('tc-search')
+      expect(await ids('catalog')).toEqual(['tc-flaky'])
+    })
+
+    it('should filter by the latest result', async () => {
+      const run: TestRun = {
+        id: 'run-1',
+        testPlanId: 'plan-1',
+        name: 'Run 1',
+        startedAt: now,
+        status: 'completed',
+        executedBy: 'tester',
+        results: [
+          { testCaseId: 'tc-checkout', status: 'fail', executedAt: now, steps: [] },
+          { testCaseId: 'tc-flaky', status: 'pass', executedAt: now, steps: [] }
+        ]
+      }
+      await FileUtils.saveTestRun(run)
+
+      expect(await ids('status:failed')).toEqual(['tc-checkout'])
+      expect(await ids('-status:pass priority:critical')).toEqual(['tc-checkout'])
+      expect(await ids('status:untested')).toEqual(['tc-search'])
+    })
+
+    describe('query plans', () => {
+      const plan: TestPlan = {
+        id: 'plan-checkout',
+        name: 'Checkout regression',
+        description: '',
+        version: '1.0',
+        testCases: ['tc-search'],
+        query: 'tag:checkout -tag:flaky',
+        createdAt: now,
+        updatedAt: now,
+        createdBy: 'tester'
+      }
+
+      it('should run the pinned test cases and those matching the query now', async () => {
+        await FileUtils.saveTestPlan(plan)
+        expect(await FileUtils.getTestPlanTestCaseIds(plan)).toEqual(['tc-search', 'tc-checkout'])
+
+        await FileUtils.saveTestCase(testCase('tc-coupon', 'Apply a coupon', { tags: ['Checkout'] }))
+        const snapshot = await FileUtils.snapshotTestPlan(plan)
+        expect(snapshot).toMatchObject({ testCaseIds: ['tc-search', 'tc-checkout', 'tc-coupon'], query: 'tag:checkout -tag:flaky' })
+      })
+
+      it('should keep the snapshot on the run', async () => {
+        const snapshot = await FileUtils.snapshotTestPlan(plan)
+        await FileUtils.saveTestRun({
+          id: 'run-1', testPlanId: plan.id, name: 'Run 1', startedAt: now, status: 'in_progress', executedBy: 'tester', planSnapshot: snapshot, results: []
+        })
+
+        await FileUtils.saveTestCase(testCase('tc-coupon', 'Apply a coupon', { tags: ['checkout'] }))
+        expect((await FileUtils.loadTestRun('run-1'))?.planSnapshot).toEqual(snapshot)
+      })
+
+      it('should resolve the snapshot of a new run instead of taking the client\'s', async () => {
+        await FileUtils.saveTestPlan(plan)
+        const forged = { testCaseIds: ['tc-flaky'], resolvedAt: now }
+        const run = { id: 'run-1', testPlanId: plan.id, name: 'Run 1', startedAt: now, status: 'in_progress', executedBy: 'tester', results: [] }
+
+        await FileUtils.saveTestRun(await FileUtils.withPlanSnapshot({ ...run, planSnapshot: forged }))
+        const created = await FileUtils.loadTestRun('run-1')
+        expect(created?.planSnapshot?.testCaseIds).toEqual(['tc-search', 'tc-checkout'])
+
+        // Later saves keep the snapshot the run was created with
+        await FileUtils.saveTestCase(testCase('tc-coupon', 'Apply a coupon', { tags: ['checkout'] }))
+        const updated = await FileUtils.withPlanSnapshot({ ...run, status: 'completed', planSnapshot: forged })
+        expect(updated.planSnapshot).toEqual(created?.planSnapshot)
+      })
+
+      it('should reject a plan with an invalid query', async () => {
+        await expect(FileUtils.saveTestPlan({ ...plan, query: 'priority:urgent' })).rejects.toThrow(SchemaValidationError)
+      })
+    })
+  })
+})
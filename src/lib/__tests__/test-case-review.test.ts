@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { parseTestCase, serializeTestCase } from '../storage/markdown'
+import { applyReview, getAllowedReviewActions, getReviewQueue, withEditedReview } from '../test-case-review'
+import { TestCase, TestPlan } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, reviewStatus?: TestCase['reviewStatus']) => TestCaseFactory.fixed(id, reviewStatus ? { reviewStatus } : {})
+
+describe('test case review', () => {
+  it('should move a draft through review to approval', () => {
+    const submitted = applyReview(testCase('tc-1', 'draft'), { action: 'submit', author: 'alice', reviewers: ['bob', ' bob ', ''] })
+    expect(submitted).toMatchObject({ reviewStatus: 'in_review', reviewers: ['bob'] })
+
+    const rejected = applyReview(submitted, { action: 'reject', author: 'bob', comment: 'Step 1 is vague' })
+    expect(rejected.reviewStatus).toBe('draft')
+
+    const approved = applyReview(applyReview(rejected, { action: 'submit', author: 'alice' }), { action: 'approve', author: 'bob' })
+    expect(approved.reviewStatus).toBe('approved')
+    expect(approved.reviewComments?.map(comment => [comment.author, comment.action, comment.body])).toEqual([
+      ['alice', 'submit', undefined],
+      ['bob', 'reject', 'Step 1 is vague'],
+      ['alice', 'submit', undefined],
+      ['bob', 'approve', undefined]
+    ])
+  })
+
+  it('should refuse actions the status or the reviewers don\'t allow', () => {
+    const inReview = { ...testCase('tc-1', 'in_review'), reviewers: ['bob'] }
+
+    expect(() => applyReview(testCase('tc-1', 'draft'), { action: 'approve', author: 'bob' }))
+      .toThrow(expect.objectContaining({ reason: 'invalidTransition' }))
+    expect(() => applyReview(inReview, { action: 'approve', author: 'alice' }))
+      .toThrow(expect.objectContaining({ reason: 'notReviewer' }))
+    expect(() => applyReview(inReview, { action: 'reject', author: 'bob', comment: ' ' }))
+      .toThrow(expect.objectContaining({ reason: 'commentRequired' }))
+
+    // Test cases from before the workflow count as approved
+    expect(getAllowedReviewActions(testCase('tc-1'))).toEqual(['deprecate', 'reopen', 'comment'])
+  })
+
+  it('should queue test cases in review by when they were submitted', () => {
+    const first = applyReview(testCase('tc-1', 'draft'), { action: 'submit', author: 'alice' }, '2025-07-02T00:00:00.000Z')
+    const second = applyReview(testCase('tc-2', 'draft'), { action: 'submit', author: 'alice' }, '2025-07-03T00:00:00.000Z')
+
+    expect(getReviewQueue([second, testCase('tc-3', 'draft'), first]).map(queued => queued.id)).toEqual(['tc-1', 'tc-2'])
+  })
+
+  it('should return approved test cases to draft when their content is edited', () => {
+    const approved = testCase('tc-1', 'approved')
+    const inReview = testCase('tc-2', 'in_review')
+
+    expect(withEditedReview({ ...approved, tags: ['smoke'], priority: 'low' }, approved).reviewStatus).toBe('approved')
+    expect(withEditedReview({ ...approved, title: 'Changed' }, approved).reviewStatus).toBe('draft')
+    expect(withEditedReview({ ...approved, steps: [] }, approved).reviewStatus).toBe('draft')
+    // Test cases from before the workflow count as approved
+    expect(withEditedReview({ ...testCase('tc-3'), title: 'Changed' }, testCase('tc-3')).reviewStatus).toBe('draft')
+    expect(withEditedReview({ ...inReview, title: 'Changed', reviewStatus: 'approved' }, inReview).reviewStatus).toBe('in_review')
+  })
+
+  it('should keep the review through the Markdown format', () => {
+    const reviewed = applyReview(testCase('tc-1', 'draft'), { action: 'submit', author: 'alice', reviewers: ['bob'], comment: 'Ready' })
+    const parsed = parseTestCase(serializeTestCase(reviewed))
+
+    expect(parsed).toMatchObject({ reviewStatus: 'in_review', reviewers: ['bob'], reviewComments: reviewed.reviewComments })
+    expect(serializeTestCase(testCase('tc-1'))).not.toContain('review')
+  })
+
+  describeEachStorageBackend('qa-review-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveTestCase(testCase('tc-draft', 'draft'))
+      await FileUtils.saveTestCase(testCase('tc-legacy'))
+    })
+
+    it('should record review actions in the revision history', async () => {
+      await FileUtils.reviewTestCase('tc-draft', { action: 'submit', author: 'alice' })
+      await FileUtils.reviewTestCase('tc-draft', { action: 'approve', author: 'bob' })
+
+      expect((await FileUtils.loadTestCase('tc-draft'))?.reviewStatus).toBe('approved')
+      const revisions = await FileUtils.getTestCaseRevisions('tc-draft')
+      expect(revisions.slice(-2).map(revision => [revision.author, revision.summary])).toEqual([
+        ['alice', 'Submitted for review'],
+        ['bob', 'Approved']
+      ])
+      expect(await FileUtils.reviewTestCase('tc-missing', { action: 'submit', author: 'alice' })).toBeNull()
+
+      // Restoring the draft content keeps the approval
+      const restored = await FileUtils.restoreTestCaseRevision('tc-draft', 1, 'alice')
+      expect(restored?.testCase.reviewStatus).toBe('approved')
+    })
+
+    it('should leave unapproved test cases out of approved-only plans', async () => {
+      const plan: TestPlan = {
+        id: 'plan-1',
+        name: 'Release',
+        description: '',
+        version: '1.0',
+        testCases: ['tc-draft', 'tc-legacy'],
+        approvedOnly: true,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: 'tester'
+      }
+      await FileUtils.saveTestPlan(plan)
+
+      expect(await FileUtils.getTestPlanTestCaseIds(plan)).toEqual(['tc-legacy'])
+      expect(await FileUtils.getTestPlanTestCaseIds(plan, false)).toEqual(['tc-draft', 'tc-legacy'])
+
+      await expect(FileUtils.saveTestPlan({ ...plan, approvedOnly: 'yes' as unknown as boolean }))
+        .rejects.toThrow('approvedOnly must be true or false')
+    })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils, SchemaValidationError } from '../file-utils'
+import { applyDependencyBlocking, findDependencyCycle, getDependencyLevels, orderTestCases, replaceInDependencies } from '../test-dependencies'
+import { calculateTestCaseStatus, getTestResultStatus } from '../test-execution-utils'
+import { TestPlan, TestResult, TestResultStatus, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+const later = '2025-07-01T01:00:00.000Z'
+
+// Search and checkout both need login; paying needs checkout
+const dependencies = {
+  'tc-search': ['tc-login'],
+  'tc-checkout': ['tc-login'],
+  'tc-pay': ['tc-checkout']
+}
+
+const result = (testCaseId: string, status: TestResultStatus, extra: Partial<TestResult> = {}): TestResult => ({
+  testCaseId, status, executedAt: now, steps: [], ...extra
+})
+
+describe('test dependencies', () => {
+  it('should run prerequisites first and otherwise keep the listed order', () => {
+    expect(orderTestCases(['tc-pay', 'tc-search', 'tc-checkout', 'tc-login', 'tc-other'], dependencies))
+      .toEqual(['tc-login', 'tc-search', 'tc-checkout', 'tc-pay', 'tc-other'])
+    expect(orderTestCases(['tc-pay', 'tc-search'], dependencies)).toEqual(['tc-pay', 'tc-search'])
+    expect(orderTestCases(['b', 'a'], { a: ['b'], b: ['a'] })).toEqual(['b', 'a'])
+  })
+
+  it('should find cycles and levels', () => {
+    expect(findDependencyCycle(dependencies)).toBeNull()
+    expect(findDependencyCycle({ a: ['b'], b: ['c'], c: ['a'] })).toEqual(['a', 'b', 'c', 'a'])
+    expect(getDependencyLevels(['tc-pay', 'tc-checkout', 'tc-login'], dependencies))
+      .toEqual(new Map([['tc-login', 0], ['tc-checkout', 1], ['tc-pay', 2]]))
+  })
+
+  it('should point dependencies at a merged test case without loops', () => {
+    expect(replaceInDependencies(dependencies, 'tc-checkout', 'tc-pay')).toEqual({ 'tc-search': ['tc-login'], 'tc-pay': ['tc-login'] })
+    // Merging login into search would have search depend on itself through checkout
+    expect(replaceInDependencies({ 'tc-checkout': ['tc-login'], 'tc-search': ['tc-checkout'] }, 'tc-login', 'tc-search'))
+      .toEqual({ 'tc-search': ['tc-checkout'] })
+  })
+
+  it('should block the dependents of a failed test case down the chain', () => {
+    const results = applyDependencyBlocking(
+      ['tc-login', 'tc-search', 'tc-checkout', 'tc-pay'],
+      [result('tc-login', 'fail'), result('tc-search', 'pass'), result('tc-checkout', 'not_executed')],
+      dependencies,
+      later
+    )
+
+    expect(results).toEqual([
+      result('tc-login', 'fail'),
+      result('tc-search', 'pass'),
+      result('tc-checkout', 'blocked', { blockedBy: 'tc-login', executedAt: later }),
+      result('tc-pay', 'blocked', { blockedBy: 'tc-checkout', executedAt: later })
+    ])
+  })
+
+  it('should unblock the dependents once the prerequisite passes', () => {
+    const results = applyDependencyBlocking(
+      ['tc-login', 'tc-checkout'],
+      [result('tc-login', 'pass'), result('tc-checkout', 'blocked', { blockedBy: 'tc-login' })],
+      dependencies,
+      later
+    )
+
+    expect(results[1]).toEqual(result('tc-checkout', 'not_executed'))
+  })
+
+  it('should block per configuration', () => {
+    const results = applyDependencyBlocking(
+      ['tc-login', 'tc-checkout'],
+      [
+        result('tc-login', 'fail', { configuration: 'Chrome' }),
+        result('tc-login', 'pass', { configuration: 'Firefox' }),
+        result('tc-checkout', 'not_executed', { configuration: 'Chrome' }),
+        result('tc-checkout', 'not_executed', { configuration: 'Firefox' })
+      ],
+      dependencies,
+      later
+    )
+
+    expect(results.map(item => item.blockedBy)).toEqual([undefined, undefined, 'tc-login', undefined])
+  })
+
+  it('should treat a test case blocked by a prerequisite as blocked whatever its steps say', () => {
+    expect(calculateTestCaseStatus([{ stepId: 'step-1', status: 'pass' }], 'tc-login')).toBe('blocked')
+    expect(getTestResultStatus(result('tc-checkout', 'not_executed', {
+      blockedBy: 'tc-login',
+      steps: [{ stepId: 'step-1', status: 'skip' }]
+    }))).toBe('blocked')
+  })
+
+  describeEachStorageBackend('qa-dependencies-', () => {
+    const plan: TestPlan = {
+      id: 'plan-1',
+      name: 'Shop',
+      description: '',
+      version: '1.0',
+      testCases: ['tc-pay', 'tc-checkout', 'tc-login', 'tc-search'],
+      dependencies,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: 'tester'
+    }
+
+    const run: TestRun = {
+      id: 'run-1',
+      testPlanId: 'plan-1',
+      name: 'Shop run',
+      startedAt: now,
+      status: 'in_progress',
+      executedBy: 'tester',
+      planSnapshot: { testCaseIds: ['tc-login', 'tc-search', 'tc-checkout', 'tc-pay'], resolvedAt: now },
+      results: []
+    }
+
+    beforeEach(async () => {
+      for (const id of plan.testCases) {
+        await FileUtils.saveTestCase(TestCaseFactory.fixed(id))
+      }
+      await FileUtils.saveTestPlan(plan)
+      await FileUtils.saveTestRun(run)
+    })
+
+    it('should resolve the plan in run order', async () => {
+      expect((await FileUtils.loadTestPlan('plan-1'))?.dependencies).toEqual(dependencies)
+      expect(await FileUtils.getTestPlanTestCaseIds(plan)).toEqual(['tc-login', 'tc-checkout', 'tc-pay', 'tc-search'])
+    })
+
+    it('should block and unblock the dependents as results are recorded', async () => {
+      const failed = await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-login', status: 'fail' })
+      expect(failed?.testRun.results.map(item => [item.testCaseId, item.status, item.blockedBy])).toEqual([
+        ['tc-login', 'fail', undefined],
+        ['tc-search', 'blocked', 'tc-login'],
+        ['tc-checkout', 'blocked', 'tc-login'],
+        ['tc-pay', 'blocked', 'tc-checkout']
+      ])
+
+      await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-login', status: 'pass' })
+      const testRun = await FileUtils.loadTestRun('run-1')
+      expect(testRun?.results.map(item => [item.testCaseId, item.status, item.blockedBy])).toEqual([
+        ['tc-login', 'pass', undefined],
+        ['tc-search', 'not_executed', undefined],
+        ['tc-checkout', 'not_executed', undefined],
+        ['tc-pay', 'not_executed', undefined]
+      ])
+    })
+
+    it('should reject dependencies in a cycle', async () => {
+      await expect(FileUtils.saveTestPlan({ ...plan, dependencies: { 'tc-login': ['tc-pay'], ...dependencies } }))
+        .rejects.toThrow(SchemaValidationError)
+      await expect(FileUtils.saveTestPlan({ ...plan, dependencies: { 'tc-login': ['tc-login'] } }))
+        .rejects.toThrow(SchemaValidationError)
+    })
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { parseTestCase, serializeTestCase } from '../storage/markdown'
+import { validateTestCase } from '../schema'
+import { expandIterations, getRunSteps, groupRunStepResults, substituteParameters } from '../test-parameters'
+import { getTestExecutionSummary } from '../test-execution-utils'
+import { TestCase, TestIteration, TestResult } from '../types'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const testCase: TestCase = {
+  id: 'tc-resize',
+  title: 'UI works on every screen size',
+  description: 'Layout adapts to the window',
+  steps: [
+    { id: 'step-1', stepNumber: 1, action: 'Resize the window to {{width}}x{{height}}', expectedResult: 'Nothing overflows' },
+    { id: 'step-2', stepNumber: 2, action: 'Open the menu', expectedResult: 'Menu fits in {{width}}px' }
+  ],
+  expectedResult: 'UI works on all sizes',
+  priority: 'high',
+  tags: [],
+  parameters: {
+    names: ['width', 'height'],
+    rows: [
+      { id: 'row-1', values: { width: '1920', height: '1080' } },
+      { id: 'row-2', values: { width: '1366', height: '768' } }
+    ]
+  },
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const iteration = (rowId: string, ...statuses: Array<'pass' | 'fail' | 'not_executed'>): TestIteration => ({
+  rowId,
+  values: {},
+  status: 'not_executed',
+  steps: statuses.map((status, index) => ({ stepId: `step-${index + 1}`, status }))
+})
+
+describe('parameterized test cases', () => {
+  it('should expand into one iteration per data row', () => {
+    const iterations = expandIterations(testCase)
+
+    expect(iterations.map(i => i.label)).toEqual(['width=1920, height=1080', 'width=1366, height=768'])
+    expect(iterations[1].steps.map(step => step.action)).toEqual(['Resize the window to 1366x768', 'Open the menu'])
+    expect(iterations[1].steps[1]).toMatchObject({ id: 'step-2', expectedResult: 'Menu fits in 1366px' })
+    expect(substituteParameters('{{ width }} and {{depth}}', { width: '10' })).toBe('10 and {{depth}}')
+  })
+
+  it('should run the steps once per data row and group their results into iterations', () => {
+    const runSteps = getRunSteps(testCase)
+    const stepResults = runSteps.map((step, index) => ({ stepId: step.id, status: index === 3 ? 'fail' as const : 'pass' as const }))
+
+    expect(runSteps.map(step => step.action)).toEqual([
+      'Resize the window to 1920x1080', 'Open the menu', 'Resize the window to 1366x768', 'Open the menu'
+    ])
+    expect(runSteps[2]).toMatchObject({ rowId: 'row-2', rowLabel: 'width=1366, height=768' })
+    expect(groupRunStepResults(testCase, runSteps, stepResults)).toEqual({
+      steps: [],
+      iterations: [
+        { rowId: 'row-1', values: { width: '1920', height: '1080' }, status: 'not_executed', steps: stepResults.slice(0, 2) },
+        { rowId: 'row-2', values: { width: '1366', height: '768' }, status: 'not_executed', steps: stepResults.slice(2) }
+      ]
+    })
+    expect(groupRunStepResults({}, testCase.steps, stepResults.slice(0, 2))).toEqual({ steps: stepResults.slice(0, 2) })
+  })
+
+  it('should keep the data table through the Markdown format', () => {
+    expect(parseTestCase(serializeTestCase(testCase))).toEqual(testCase)
+  })
+
+  it('should reject tables that do not match the steps', () => {
+    const issues = validateTestCase({
+      ...testCase,
+      parameters: { names: ['width', 'my width'], rows: [{ id: 'row-1', values: { depth: '1' } }] }
+    })
+
+    expect(issues.map(issue => issue.path)).toEqual(['parameters.names[1]', 'parameters.rows[0].values.depth', 'steps'])
+    expect(issues[2].message).toBe('reference unknown parameters: height')
+  })
+
+  it('should roll iterations up per case and report every row', () => {
+    const results: TestResult[] = [
+      {
+        testCaseId: 'tc-resize',
+        status: 'pass',
+        executedAt: '2025-07-02T00:00:00.000Z',
+        steps: [],
+        iterations: [iteration('row-1', 'pass', 'pass'), iteration('row-2', 'pass', 'fail')]
+      },
+      {
+        testCaseId: 'tc-login',
+        status: 'pass',
+        executedAt: '2025-07-02T00:00:00.000Z',
+        steps: [{ stepId: 'step-1', status: 'pass' }]
+      }
+    ]
+
+    const summary = getTestExecutionSummary(results)
+
+    expect(summary).toMatchObject({ total: 2, passed: 1, failed: 1, passRate: 50 })
+    expect(summary.iterations).toMatchObject({ total: 2, passed: 1, failed: 1 })
+    expect(summary.parameterized).toEqual([{
+      testCaseId: 'tc-resize',
+      status: 'fail',
+      iterations: [
+        { rowId: 'row-1', values: {}, status: 'pass' },
+        { rowId: 'row-2', values: {}, status: 'fail' }
+      ]
+    }])
+  })
+
+  describe('runs', () => {
+    describeEachStorageBackend('qa-parameters-', () => {
+      beforeEach(async () => {
+        await FileUtils.saveTestCase(testCase)
+        await FileUtils.saveTestRun({
+          id: 'run-1',
+          testPlanId: 'plan-1',
+          name: 'Responsive run',
+          startedAt: '2025-07-03T00:00:00.000Z',
+          status: 'not_started',
+          executedBy: 'tester',
+          results: []
+        })
+      })
+
+      it('should expand a new result into iterations and derive their status', async () => {
+        const recorded = await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-resize', status: 'not_executed' })
+        expect(recorded?.result.iterations).toEqual([
+          { ...iteration('row-1', 'not_executed', 'not_executed'), values: { width: '1920', height: '1080' } },
+          { ...iteration('row-2', 'not_executed', 'not_executed'), values: { width: '1366', height: '768' } }
+        ])
+
+        const [first, second] = recorded!.result.iterations!
+        const updated = await FileUtils.recordTestResult('run-1', {
+          testCaseId: 'tc-resize',
+          status: 'pass',
+          iterations: [{ ...first, steps: iteration('row-1', 'pass', 'pass').steps }, second]
+        })
+
+        expect(updated?.result.iterations?.map(i => i.status)).toEqual(['pass', 'not_executed'])
+        expect(updated?.result.status).toBe('partial')
+      })
+    })
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { FileUtils } from '../file-utils'
+import { FileStorageAdapter } from '../storage'
+import { migrateTestRuns } from '../storage/migrate-runs'
+import { SINGLE_EXECUTION_PLAN_ID, isKnownResultStatus, normalizeTestRun } from '../test-runs'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const legacyExecution = {
+  id: 'exec-1',
+  testCaseId: 'tc-1',
+  executedBy: 'alice',
+  startedAt: '2025-07-01T10:00:00.000Z',
+  completedAt: '2025-07-01T10:05:00.000Z',
+  status: 'completed',
+  overallResult: 'passed',
+  stepResults: [
+    { stepId: 'step-1', status: 'passed', timestamp: '2025-07-01T10:01:00.000Z' },
+    { stepId: 'step-2', status: 'skipped' }
+  ]
+}
+
+const legacyRun = (status: string) => ({
+  id: 'run-1',
+  testPlanId: 'plan-1',
+  name: 'Regression',
+  startedAt: '2025-07-02T09:00:00.000Z',
+  status: 'in_progress',
+  executedBy: 'bob',
+  results: [{
+    testCaseId: 'tc-1',
+    status,
+    executedAt: '2025-07-02T09:10:00.000Z',
+    steps: [{ stepId: 'step-1', status }]
+  }]
+})
+
+describe('normalizeTestRun', () => {
+  it('should convert legacy test runner executions', () => {
+    const testRun = normalizeTestRun(legacyExecution)
+
+    expect(testRun).toMatchObject({
+      id: 'exec-1',
+      testPlanId: SINGLE_EXECUTION_PLAN_ID,
+      status: 'completed',
+      executedBy: 'alice'
+    })
+    expect(testRun?.results).toEqual([{
+      testCaseId: 'tc-1',
+      status: 'pass',
+      executedAt: '2025-07-01T10:05:00.000Z',
+      steps: [
+        { stepId: 'step-1', status: 'pass', executedAt: '2025-07-01T10:01:00.000Z' },
+        { stepId: 'step-2', status: 'skip' }
+      ]
+    }])
+  })
+
+  it('should map legacy status spellings onto the canonical vocabulary', () => {
+    const testRun = normalizeTestRun(legacyRun('failed'))
+
+    expect(testRun?.results[0].status).toBe('fail')
+    expect(testRun?.results[0].steps[0].status).toBe('fail')
+    expect(isKnownResultStatus('passed')).toBe(true)
+    expect(isKnownResultStatus('constructor')).toBe(false)
+  })
+
+  it('should leave out results and steps it can\'t read', () => {
+    const run = legacyRun('pass')
+    const testRun = normalizeTestRun({
+      ...run,
+      results: [null, { status: 'pass' }, { ...run.results[0], steps: [null, { status: 'pass' }, ...run.results[0].steps] }]
+    })
+
+    expect(testRun?.results.map(result => result.testCaseId)).toEqual(['tc-1'])
+    expect(testRun?.results[0].steps.map(step => step.stepId)).toEqual(['step-1'])
+  })
+
+  it('should reject documents that are not test runs', () => {
+    expect(normalizeTestRun(null)).toBeNull()
+    expect(normalizeTestRun({ id: 'x', name: 'No results' })).toBeNull()
+  })
+})
+
+describe('test run storage', () => {
+  describeEachStorageBackend('qa-runs-', () => {
+    it('should derive result statuses on save', async () => {
+      await FileUtils.saveTestRun(legacyRun('not_executed'))
+      const saved = await FileUtils.recordTestResult('run-1', {
+        testCaseId: 'tc-1',
+        status: 'pass',
+        executedAt: '2025-07-02T09:20:00.000Z',
+        steps: [{ stepId: 'step-1', status: 'fail' }]
+      })
+
+      expect(saved?.result.status).toBe('fail')
+      expect((await FileUtils.loadTestRun('run-1'))?.results[0].status).toBe('fail')
+      expect(await FileUtils.getAllTestRuns()).toHaveLength(1)
+    })
+  })
+
+  // Timestamped results and test-executions files only ever existed in the file backend
+  describe('legacy files', () => {
+    let workspaceDir: string
+    let storage: FileStorageAdapter
+
+    beforeEach(async () => {
+      workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-runs-'))
+      storage = new FileStorageAdapter(workspaceDir)
+      FileUtils.setStorage(storage)
+    })
+
+    afterEach(async () => {
+      FileUtils.setStorage(null)
+      await fs.rm(workspaceDir, { recursive: true, force: true })
+    })
+
+    const writeLegacyFile = async (dir: string, file: string, data: unknown) => {
+      await fs.mkdir(path.join(workspaceDir, dir), { recursive: true })
+      await fs.writeFile(path.join(workspaceDir, dir, file), JSON.stringify(data), 'utf-8')
+    }
+
+    it('should keep one file per run', async () => {
+      await FileUtils.saveTestRun(legacyRun('not_executed'))
+      await FileUtils.recordTestResult('run-1', { testCaseId: 'tc-1', status: 'pass' })
+
+      expect(await fs.readdir(path.join(workspaceDir, 'results'))).toEqual(['run-1.json'])
+    })
+
+    it('should return the newest legacy save of each run', async () => {
+      await writeLegacyFile('results', 'run-1-2025-07-02T09-00-00-000Z.json', legacyRun('not_executed'))
+      await writeLegacyFile('results', 'run-1-2025-07-02T09-30-00-000Z.json', legacyRun('passed'))
+
+      const testRuns = await storage.listTestRuns()
+
+      expect(testRuns).toHaveLength(1)
+      expect(testRuns[0].results[0].status).toBe('pass')
+      expect((await storage.loadTestRun('run-1'))?.results[0].status).toBe('pass')
+    })
+
+    it('should migrate legacy files to the canonical layout', async () => {
+      await writeLegacyFile('results', 'run-1-2025-07-02T09-00-00-000Z.json', legacyRun('passed'))
+      await writeLegacyFile('test-executions', 'execution-exec-1-2025-07-01T10-05-00-000Z.json', legacyExecution)
+
+      const report = await migrateTestRuns(storage)
+
+      expect(report).toMatchObject({ backend: 'file', testRuns: 2, legacyFilesRemoved: 2, errors: [] })
+      expect((await fs.readdir(path.join(workspaceDir, 'results'))).sort()).toEqual(['exec-1.json', 'run-1.json'])
+      expect(await fs.readdir(path.join(workspaceDir, 'test-executions'))).toEqual([])
+      expect((await migrateTestRuns(storage)).legacyFilesRemoved).toBe(0)
+    })
+  })
+})
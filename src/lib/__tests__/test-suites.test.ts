@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { StatsService } from '../stats-service'
+import { parseTestCase, serializeTestCase } from '../storage/markdown'
+import { buildSuiteTree, getSuiteTestCaseIds, resolvePlanTestCaseIds } from '../test-suites'
+import { TestPlan, TestSuite } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const now = '2025-07-01T00:00:00.000Z'
+
+const testCase = (id: string, title: string, suiteId?: string) => TestCaseFactory.fixed(id, { title, ...(suiteId ? { suiteId } : {}) })
+
+const suite = (id: string, position: number, parentId?: string): TestSuite => ({
+  id, name: id, position, ...(parentId ? { parentId } : {}), createdAt: now, updatedAt: now
+})
+
+describe('test suites', () => {
+  it('should nest suites in order and collect the test cases below a suite', () => {
+    const suites = [suite('payments', 1), suite('checkout', 0), suite('cards', 0, 'payments'), suite('orphan', 0, 'deleted')]
+    const tree = buildSuiteTree(suites, [
+      testCase('tc-visa', 'Visa', 'cards'),
+      testCase('tc-refund', 'Refund', 'payments'),
+      testCase('tc-amex', 'Amex', 'cards')
+    ])
+
+    expect(tree.map(node => node.suite.id)).toEqual(['checkout', 'orphan', 'payments'])
+    expect(tree[2].children[0].path).toEqual(['payments', 'cards'])
+    expect(getSuiteTestCaseIds(tree[2])).toEqual(['tc-refund', 'tc-amex', 'tc-visa'])
+  })
+
+  it('should add the test cases of a plan\'s suites after its own', () => {
+    const testCases = [testCase('tc-1', 'One', 'cards'), testCase('tc-2', 'Two', 'cards'), testCase('tc-3', 'Three')]
+
+    expect(resolvePlanTestCaseIds({ testCases: ['tc-3', 'tc-2'], suites: ['cards'] }, [suite('cards', 0)], testCases))
+      .toEqual(['tc-3', 'tc-2', 'tc-1'])
+  })
+
+  it('should keep the suite through the Markdown format', () => {
+    const content = serializeTestCase(testCase('tc-1', 'One', 'cards'))
+
+    expect(content).toContain('suiteId: cards')
+    expect(parseTestCase(content).suiteId).toBe('cards')
+    expect(serializeTestCase(testCase('tc-1', 'One'))).not.toContain('suiteId')
+  })
+
+  describeEachStorageBackend('qa-suites-', () => {
+    beforeEach(async () => {
+      await FileUtils.saveSuite({ id: 'checkout', name: 'Checkout' })
+      await FileUtils.saveSuite({ id: 'payments', name: 'Payments' })
+      await FileUtils.saveSuite({ id: 'search', name: 'Search' })
+      await FileUtils.saveSuite({ id: 'cards', name: 'Cards', parentId: 'payments' })
+    })
+
+    it('should reorder and move suites', async () => {
+      const positions = async () => (await FileUtils.getSuites()).map(s => `${s.id}:${s.position}`)
+
+      await FileUtils.moveSuite('checkout', undefined, 1)
+      expect(await positions()).toEqual(['payments:0', 'cards:0', 'checkout:1', 'search:2'])
+
+      await FileUtils.moveSuite('checkout', 'payments', 0)
+      expect(await positions()).toEqual(['payments:0', 'checkout:0', 'cards:1', 'search:1'])
+
+      await FileUtils.saveSuite({ id: 'payments', name: 'Billing' })
+      expect(await FileUtils.loadSuite('payments')).toMatchObject({ name: 'Billing', position: 0 })
+    })
+
+    it('should not move a suite into itself', async () => {
+      await expect(FileUtils.moveSuite('payments', 'cards')).rejects.toMatchObject({
+        issues: [{ path: 'parentId', message: 'must not be the suite or a suite nested in it' }]
+      })
+      expect(await FileUtils.moveSuite('missing', undefined)).toBeNull()
+    })
+
+    it('should only delete empty suites', async () => {
+      await FileUtils.saveTestCase(testCase('tc-1', 'One', 'cards'))
+
+      await expect(FileUtils.deleteSuite('payments')).rejects.toThrow('Test suite payments is not empty: 1 nested suite')
+      await expect(FileUtils.deleteSuite('cards')).rejects.toMatchObject({ operation: 'suiteNotEmpty' })
+
+      await FileUtils.moveTestCasesToSuite(['tc-1'], undefined)
+      expect((await FileUtils.loadTestCase('tc-1'))?.suiteId).toBeUndefined()
+      expect(await FileUtils.deleteSuite('cards')).toBe(true)
+    })
+
+    it('should pick up test cases filed in a plan\'s suites later', async () => {
+      const plan: TestPlan = {
+        id: 'plan-1',
+        name: 'Release',
+        description: '',
+        version: '1.0',
+        testCases: [],
+        suites: ['payments'],
+        createdAt: now,
+        updatedAt: now,
+        createdBy: 'tester'
+      }
+      await FileUtils.saveTestPlan(plan)
+      await FileUtils.saveTestCase(testCase('tc-1', 'One'))
+      expect(await FileUtils.getTestPlanTestCaseIds(plan)).toEqual([])
+
+      await FileUtils.moveTestCasesToSuite(['tc-1'], 'cards')
+      expect(await FileUtils.getTestPlanTestCaseIds(plan)).toEqual(['tc-1'])
+
+      await expect(FileUtils.saveTestPlan({ ...plan, suites: ['missing'] })).rejects.toThrow('suites is not a test suite: missing')
+    })
+
+    it('should report suite counts and pass rates', async () => {
+      await FileUtils.saveTestCase(testCase('tc-1', 'One', 'cards'))
+      await FileUtils.saveTestCase(testCase('tc-2', 'Two', 'cards'))
+      await FileUtils.saveTestCase(testCase('tc-3', 'Three', 'payments'))
+      await FileUtils.saveTestRun({
+        id: 'run-1',
+        testPlanId: 'plan-1',
+        name: 'Regression',
+        startedAt: now,
+        status: 'completed',
+        executedBy: 'tester',
+        results: [
+          { testCaseId: 'tc-1', status: 'fail', executedAt: '2025-07-01T10:00:00.000Z', steps: [] },
+          { testCaseId: 'tc-1', status: 'pass', executedAt: '2025-07-01T11:00:00.000Z', steps: [] },
+          { testCaseId: 'tc-2', status: 'fail', executedAt: '2025-07-01T10:00:00.000Z', steps: [] }
+        ]
+      })
+
+      const stats = await StatsService.getSuiteStats()
+      expect(stats.find(stat => stat.suiteId === 'payments')).toMatchObject({
+        testCaseCount: 3, executedCount: 2, passedCount: 1, passRate: 50, depth: 0
+      })
+      expect(stats.find(stat => stat.suiteId === 'cards')).toMatchObject({ path: ['Payments', 'Cards'], depth: 1 })
+    })
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+
+import { FileUtils } from '../file-utils'
+import { TestPlan, TestRun } from '../types'
+import { TestCaseFactory } from '@/test-utils/factories'
+import { describeEachStorageBackend } from '@/test-utils/storage-backends'
+
+const testCase = (id: string) => TestCaseFactory.fixed(id, { title: `Case ${id}`, createdBy: 'alice' })
+
+const testPlan = (id: string, testCases: string[]): TestPlan => ({
+  id,
+  name: `Plan ${id}`,
+  description: '',
+  version: '1.0',
+  testCases,
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'alice'
+})
+
+const testRun: TestRun = {
+  id: 'run-1',
+  testPlanId: 'plan-a',
+  name: 'Regression run',
+  startedAt: '2025-07-03T00:00:00.000Z',
+  status: 'completed',
+  executedBy: 'alice',
+  results: [{ testCaseId: 'tc-2', status: 'pass', executedAt: '2025-07-03T00:00:00.000Z', steps: [] }]
+}
+
+describe('FileUtils trash', () => {
+  describeEachStorageBackend('qa-trash-', () => {
+    beforeEach(async () => {
+      const storage = FileUtils.getStorage()
+      await Promise.all(['tc-1', 'tc-2', 'tc-3'].map(id => storage.saveTestCase(testCase(id))))
+      await storage.saveTestPlan(testPlan('plan-a', ['tc-1', 'tc-2', 'tc-3']))
+      await storage.saveTestPlan(testPlan('plan-b', ['tc-2']))
+      await storage.saveTestRun(testRun)
+    })
+
+    afterEach(() => {
+      delete process.env.QA_TRASH_RETENTION_DAYS
+    })
+
+    it('should report the plans and runs that use a test case', async () => {
+      const usage = await FileUtils.getTestCaseUsage('tc-2')
+
+      expect(usage.testPlans.map(plan => plan.id).sort()).toEqual(['plan-a', 'plan-b'])
+      expect(usage.testRuns).toEqual([
+        { id: 'run-1', name: 'Regression run', startedAt: '2025-07-03T00:00:00.000Z', status: 'completed' }
+      ])
+      expect((await FileUtils.getTestPlanUsage('plan-a')).testRuns).toHaveLength(1)
+    })
+
+    it('should count the plans that resolve to a test case and the requirements it covers', async () => {
+      const storage = FileUtils.getStorage()
+      await storage.saveTestCase({ ...testCase('tc-4'), title: 'Checkout with a coupon' })
+      await storage.saveTestPlan({ ...testPlan('plan-c', []), query: 'coupon' })
+      await storage.saveRequirement({
+        id: 'req-1',
+        title: 'Coupons',
+        acceptanceCriteria: [],
+        testCases: ['tc-4'],
+        createdAt: '2025-07-01T00:00:00.000Z',
+        updatedAt: '2025-07-01T00:00:00.000Z',
+        createdBy: 'alice'
+      })
+      FileUtils.invalidateSearchIndex()
+
+      expect(await FileUtils.getTestCaseUsage('tc-4')).toEqual({
+        testPlans: [{ id: 'plan-c', name: 'Plan plan-c' }],
+        requirements: [{ id: 'req-1', title: 'Coupons' }],
+        testRuns: []
+      })
+    })
+
+    it('should remove a trashed test case from every plan', async () => {
+      const entry = await FileUtils.trashTestCase('tc-2', 'bob')
+
+      expect(entry).toMatchObject({ entityType: 'testCase', entityId: 'tc-2', deletedBy: 'bob' })
+      expect(entry?.planLinks.sort((a, b) => a.testPlanId.localeCompare(b.testPlanId))).toEqual([
+        { testPlanId: 'plan-a', position: 1 },
+        { testPlanId: 'plan-b', position: 0 }
+      ])
+      expect(await FileUtils.loadTestCase('tc-2')).toBeNull()
+      expect((await FileUtils.loadTestPlan('plan-a'))?.testCases).toEqual(['tc-1', 'tc-3'])
+      expect((await FileUtils.loadTestPlan('plan-b'))?.testCases).toEqual([])
+      expect(await FileUtils.trashTestCase('missing', 'bob')).toBeNull()
+    })
+
+    it('should re-link a restored test case at its original position', async () => {
+      const entry = await FileUtils.trashTestCase('tc-2', 'bob')
+      await FileUtils.trashTestPlan('plan-b', 'bob')
+
+      const restored = await FileUtils.restoreFromTrash(entry!.id)
+
+      expect(restored?.relinkedPlans).toEqual(['plan-a'])
+      expect(await FileUtils.loadTestCase('tc-2')).not.toBeNull()
+      expect((await FileUtils.loadTestPlan('plan-a'))?.testCases).toEqual(['tc-1', 'tc-2', 'tc-3'])
+      expect((await FileUtils.getTrash()).map(e => e.entityType)).toEqual(['testPlan'])
+    })
+
+    it('should unlink a trashed test case from requirements and dependencies and link it back on restore', async () => {
+      const storage = FileUtils.getStorage()
+      await storage.saveTestPlan({ ...testPlan('plan-a', ['tc-1', 'tc-2', 'tc-3']), dependencies: { 'tc-2': ['tc-1'], 'tc-3': ['tc-1', 'tc-2'] } })
+      await storage.saveRequirement({
+        id: 'req-1',
+        title: 'Login',
+        acceptanceCriteria: [],
+        testCases: ['tc-2', 'tc-3'],
+        createdAt: '2025-07-01T00:00:00.000Z',
+        updatedAt: '2025-07-01T00:00:00.000Z',
+        createdBy: 'alice'
+      })
+
+      const entry = await FileUtils.trashTestCase('tc-2', 'bob')
+
+      expect(entry?.planLinks.find(link => link.testPlanId === 'plan-a')).toEqual({
+        testPlanId: 'plan-a', position: 1, prerequisites: ['tc-1'], dependents: ['tc-3']
+      })
+      expect(entry?.requirementLinks).toEqual(['req-1'])
+      expect((await FileUtils.loadTestPlan('plan-a'))?.dependencies).toEqual({ 'tc-3': ['tc-1'] })
+      expect((await FileUtils.loadRequirement('req-1'))?.testCases).toEqual(['tc-3'])
+
+      const restored = await FileUtils.restoreFromTrash(entry!.id)
+
+      expect(restored?.relinkedRequirements).toEqual(['req-1'])
+      expect((await FileUtils.loadTestPlan('plan-a'))?.dependencies).toEqual({ 'tc-2': ['tc-1'], 'tc-3': ['tc-1', 'tc-2'] })
+      expect((await FileUtils.loadRequirement('req-1'))?.testCases).toEqual(['tc-3', 'tc-2'])
+    })
+
+    it('should leave out restored dependencies that would form a cycle', async () => {
+      const storage = FileUtils.getStorage()
+      await storage.saveTestPlan({ ...testPlan('plan-a', ['tc-1', 'tc-2', 'tc-3']), dependencies: { 'tc-2': ['tc-1'], 'tc-3': ['tc-2'] } })
+
+      const entry = await FileUtils.trashTestCase('tc-2', 'bob')
+      await storage.saveTestPlan({ ...testPlan('plan-a', ['tc-1', 'tc-3']), dependencies: { 'tc-1': ['tc-3'] } })
+      await FileUtils.restoreFromTrash(entry!.id)
+
+      expect(await FileUtils.loadTestPlan('plan-a')).toMatchObject({
+        testCases: ['tc-1', 'tc-2', 'tc-3'],
+        dependencies: { 'tc-1': ['tc-3'] }
+      })
+    })
+
+    it('should refuse to restore over an entity created since', async () => {
+      const entry = await FileUtils.trashTestPlan('plan-b', 'bob')
+      await FileUtils.saveTestPlan(testPlan('plan-b', []))
+
+      await expect(FileUtils.restoreFromTrash(entry!.id)).rejects.toThrow('already exists')
+    })
+
+    it('should trash and restore test runs', async () => {
+      const entry = await FileUtils.trashTestRun('run-1', 'bob')
+
+      expect(await FileUtils.getAllTestRuns()).toHaveLength(0)
+
+      await FileUtils.restoreFromTrash(entry!.id)
+      expect((await FileUtils.getAllTestRuns()).map(run => run.id)).toEqual(['run-1'])
+    })
+
+    it('should purge only entries past the retention period', async () => {
+      process.env.QA_TRASH_RETENTION_DAYS = '7'
+      const entry = await FileUtils.trashTestCase('tc-1', 'bob')
+      const expiresAt = new Date(entry!.expiresAt)
+
+      expect(expiresAt.getTime() - new Date(entry!.deletedAt).getTime()).toBe(7 * 24 * 60 * 60 * 1000)
+      expect(await FileUtils.purgeExpiredTrash(new Date(expiresAt.getTime() - 1))).toHaveLength(0)
+      expect(await FileUtils.purgeExpiredTrash(expiresAt)).toHaveLength(1)
+      expect(await FileUtils.getTrash()).toEqual([])
+    })
+
+    it('should hide expired entries from the listing without purging them', async () => {
+      process.env.QA_TRASH_RETENTION_DAYS = '7'
+      const entry = await FileUtils.trashTestCase('tc-1', 'bob')
+      const expiresAt = new Date(entry!.expiresAt)
+
+      expect((await FileUtils.getTrash(new Date(expiresAt.getTime() - 1))).map(e => e.id)).toEqual([entry!.id])
+      expect(await FileUtils.getTrash(expiresAt)).toEqual([])
+      expect(await FileUtils.getStorage().listTrash()).toHaveLength(1)
+    })
+
+    it('should not restore or purge entries past the retention period', async () => {
+      process.env.QA_TRASH_RETENTION_DAYS = '0'
+      const entry = await FileUtils.trashTestCase('tc-1', 'bob')
+
+      expect(await FileUtils.restoreFromTrash(entry!.id)).toBeNull()
+      expect(await FileUtils.purgeTrashEntry(entry!.id)).toBe(false)
+      expect(await FileUtils.loadTestCase('tc-1')).toBeNull()
+      expect(await FileUtils.getStorage().listTrash()).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { gunzipSync, gzipSync } from 'zlib'
+import { FileUtils } from '../file-utils'
+import { FileStorageAdapter, SqliteStorageAdapter } from '../storage'
+import { ArchiveError, parseWorkspaceArchive, serializeWorkspaceArchive } from '../storage/archive'
+import { TestCase, TestPlan } from '../types'
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d])
+
+const testCase: TestCase = {
+  id: 'tc-1',
+  title: 'Login works',
+  description: 'User can log in',
+  steps: [{ id: 'step-1', stepNumber: 1, action: 'Log in', expectedResult: 'Dashboard is shown' }],
+  expectedResult: 'User is logged in',
+  priority: 'high',
+  tags: ['auth'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+const testPlan: TestPlan = {
+  id: 'plan-1',
+  name: 'Smoke',
+  description: 'Smoke tests',
+  version: '1.0',
+  testCases: ['tc-1'],
+  createdAt: '2025-07-02T00:00:00.000Z',
+  updatedAt: '2025-07-02T00:00:00.000Z',
+  createdBy: 'tester'
+}
+
+describe('workspace archive', () => {
+  let rootDir: string
+  let settingsFile: string
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-archive-'))
+    settingsFile = path.join(rootDir, 'settings.json')
+    await fs.writeFile(settingsFile, JSON.stringify({ preferences: { theme: 'dark' } }))
+
+    FileUtils.setStorage(new FileStorageAdapter(path.join(rootDir, 'source')))
+    await FileUtils.saveTestCase(testCase, { author: 'tester' })
+    await FileUtils.saveTestPlan(testPlan)
+    await FileUtils.addAttachment({
+      target: { type: 'testCase', testCaseId: 'tc-1' },
+      fileName: 'login.png',
+      contentType: 'image/png',
+      content: PNG,
+      uploadedBy: 'tester'
+    })
+  })
+
+  afterEach(async () => {
+    FileUtils.setStorage(null)
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  const exportArchive = async () =>
+    serializeWorkspaceArchive(await FileUtils.exportWorkspace({ createdBy: 'tester', settingsFile }))
+
+  it('should restore a workspace into another backend', async () => {
+    const content = await exportArchive()
+    const archive = parseWorkspaceArchive(content)
+
+    expect(archive.manifest).toMatchObject({
+      version: 1,
+      backend: 'file',
+      createdBy: 'tester',
+      counts: { testCase: 1, revision: 1, testPlan: 1, attachmentContent: 1, attachment: 1, settings: 1 }
+    })
+
+    const restoredSettings = path.join(rootDir, 'restored-settings.json')
+    FileUtils.setStorage(new SqliteStorageAdapter(path.join(rootDir, 'qa.sqlite')))
+    const report = await FileUtils.importWorkspace(archive, { settingsFile: restoredSettings })
+
+    expect(report).toMatchObject({ created: 6, updated: 0, conflicts: [], errors: [] })
+    expect(await FileUtils.loadTestCase('tc-1')).toEqual(testCase)
+    expect(await FileUtils.getTestCaseRevisions('tc-1')).toHaveLength(1)
+    expect(await FileUtils.loadTestPlan('plan-1')).toEqual(testPlan)
+    const [attachment] = await FileUtils.getAttachments({ testCaseId: 'tc-1' })
+    expect((await FileUtils.loadAttachmentContent(attachment.id))?.content.equals(PNG)).toBe(true)
+    expect(JSON.parse(await fs.readFile(restoredSettings, 'utf-8'))).toEqual({ preferences: { theme: 'dark' } })
+  })
+
+  it('should report conflicts with existing IDs without writing on a dry run', async () => {
+    const archive = parseWorkspaceArchive(await exportArchive())
+
+    // The workspace moved on after the backup
+    await FileUtils.saveTestCase({ ...testCase, title: 'Login still works', updatedAt: '2025-08-01T00:00:00.000Z' })
+    await FileUtils.saveTestPlan({ ...testPlan, name: 'Old smoke', updatedAt: '2025-06-01T00:00:00.000Z' })
+
+    const dryRun = await FileUtils.importWorkspace(archive, { strategy: 'overwrite', dryRun: true })
+    expect(dryRun).toMatchObject({ dryRun: true, created: 0, updated: 2, unchanged: 3 })
+    expect(dryRun.conflicts).toEqual([
+      { type: 'testCase', id: 'tc-1', resolution: 'imported' },
+      { type: 'testPlan', id: 'plan-1', resolution: 'imported' }
+    ])
+    expect((await FileUtils.loadTestCase('tc-1'))?.title).toBe('Login still works')
+
+    // Merge keeps whichever side was updated last
+    const merged = await FileUtils.importWorkspace(archive, { strategy: 'merge' })
+    expect(merged.conflicts.map(conflict => conflict.resolution)).toEqual(['kept', 'imported'])
+    expect((await FileUtils.loadTestCase('tc-1'))?.title).toBe('Login still works')
+    expect((await FileUtils.loadTestPlan('plan-1'))?.name).toBe('Smoke')
+
+    const skipped = await FileUtils.importWorkspace(archive, { strategy: 'skip' })
+    expect(skipped).toMatchObject({ updated: 0, skipped: 1 })
+  })
+
+  it('should refuse entries whose IDs or hashes point outside the workspace', async () => {
+    const archive = parseWorkspaceArchive(await exportArchive())
+    const [attachment] = await FileUtils.getAttachments({ testCaseId: 'tc-1' })
+    const trashEntry = {
+      id: '../../escaped',
+      entityType: 'testCase',
+      entityId: 'tc-2',
+      name: 'Escaped',
+      deletedAt: '2025-07-01T00:00:00.000Z',
+      deletedBy: 'tester',
+      expiresAt: '2025-08-01T00:00:00.000Z',
+      planLinks: [],
+      data: { ...testCase, id: 'tc-2' }
+    }
+    // Checksums are only checked when parsing, and a forger recomputes them anyway
+    const forged = {
+      ...archive,
+      entries: [
+        { type: 'trashEntry' as const, id: trashEntry.id, sha256: '', data: trashEntry },
+        { type: 'attachment' as const, id: 'a1', sha256: '', data: { ...attachment, id: 'a1', sha256: '../../../../../etc/hostname' } },
+        { type: 'revision' as const, id: 'tc-1/2', sha256: '', data: null },
+        { type: 'testPlan' as const, id: 'plan-2', sha256: '', data: testPlan }
+      ]
+    }
+
+    const report = await FileUtils.importWorkspace(forged)
+
+    expect(report.created).toBe(0)
+    expect(report.errors).toEqual([
+      'revision tc-1/2: <document> must be an object',
+      'testPlan plan-2: id must match its data (plan-1)',
+      'trashEntry ../../escaped: IDs must not contain /, \\ or ..',
+      'attachment a1: sha256 must be a SHA-256 hash of 64 hexadecimal characters'
+    ])
+    expect(await FileUtils.loadAttachmentContent('a1')).toBeNull()
+    await expect(fs.access(path.join(rootDir, 'escaped.json'))).rejects.toThrow()
+  })
+
+  it('should reject tampered and unsupported archives', async () => {
+    const content = await exportArchive()
+    const tampered = gunzipSync(content).toString('utf-8').replace('Login works', 'Logout works')
+    const newer = JSON.parse(gunzipSync(content).toString('utf-8'))
+    newer.manifest.version = 99
+
+    const reasonOf = (archive: Buffer) => {
+      try {
+        parseWorkspaceArchive(archive)
+        return null
+      } catch (error) {
+        return (error as ArchiveError).reason
+      }
+    }
+
+    expect(reasonOf(gzipSync(tampered))).toBe('checksum_mismatch')
+    expect(reasonOf(Buffer.from(JSON.stringify(newer)))).toBe('unsupported_version')
+    expect(reasonOf(Buffer.from('not an archive'))).toBe('invalid_archive')
+  })
+})
@@ -0,0 +1,140 @@
+import { createHash } from 'crypto'
+import { Attachment, AttachmentTarget, AttachmentTargetType } from './types'
+
+/**
+ * Upload rules for attachments: which content types are accepted, how large
+ * a file may be and which IDs each kind of target needs. FileUtils applies
+ * them before anything is stored.
+ */
+
+export type AttachmentErrorReason = 'invalid_target' | 'target_not_found' | 'too_large' | 'unsupported_type'
+
+export class AttachmentError extends Error {
+  constructor(message: string, public reason: AttachmentErrorReason) {
+    super(message)
+    this.name = 'AttachmentError'
+  }
+}
+
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export const ATTACHMENT_TARGET_TYPES: AttachmentTargetType[] = ['testCase', 'step', 'stepResult', 'testRun']
+
+// Accepted content types, with the file signature binary formats must start with
+const CONTENT_TYPE_SIGNATURES: Record<string, (content: Buffer) => boolean> = {
+  'image/png': content => startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/jpeg': content => startsWith(content, [0xff, 0xd8, 0xff]),
+  'image/gif': content => content.subarray(0, 6).toString('latin1').startsWith('GIF8'),
+  'image/webp': content =>
+    content.subarray(0, 4).toString('latin1') === 'RIFF' && content.subarray(8, 12).toString('latin1') === 'WEBP',
+  'application/pdf': content => content.subarray(0, 5).toString('latin1') === '%PDF-',
+  'application/zip': content => startsWith(content, [0x50, 0x4b, 0x03, 0x04]) || startsWith(content, [0x50, 0x4b, 0x05, 0x06]),
+  'video/mp4': content => content.subarray(4, 8).toString('latin1') === 'ftyp',
+  'video/webm': content => startsWith(content, [0x1a, 0x45, 0xdf, 0xa3]),
+  'text/plain': isText,
+  'text/csv': isText,
+  'application/json': isText
+}
+
+// Required and allowed IDs for each target type
+const TARGET_FIELDS: Record<AttachmentTargetType, Array<keyof Omit<AttachmentTarget, 'type'>>> = {
+  testCase: ['testCaseId'],
+  step: ['testCaseId', 'stepId'],
+  stepResult: ['testRunId', 'testCaseId', 'stepId'],
+  testRun: ['testRunId']
+}
+
+function startsWith(content: Buffer, signature: number[]): boolean {
+  return content.length >= signature.length && signature.every((byte, i) => content[i] === byte)
+}
+
+// Valid UTF-8 without NUL bytes, which rules out binaries uploaded as text
+function isText(content: Buffer): boolean {
+  if (content.includes(0)) return false
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const ATTACHMENT_CONTENT_TYPES = Object.keys(CONTENT_TYPE_SIGNATURES)
+
+/**
+ * Resolve the size limit from QA_ATTACHMENT_MAX_BYTES (defaults to 10 MB)
+ */
+export function getMaxAttachmentBytes(env: NodeJS.ProcessEnv = process.env): number {
+  const bytes = Number(env.QA_ATTACHMENT_MAX_BYTES)
+  return Number.isFinite(bytes) && bytes > 0 ? bytes : DEFAULT_MAX_ATTACHMENT_BYTES
+}
+
+// Lowercased content type without parameters, e.g. 'text/plain; charset=utf-8' -> 'text/plain'
+export function normalizeContentType(contentType: string | undefined | null): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase()
+}
+
+/**
+ * Reject content types outside the allow list and files whose content
+ * doesn't match the declared type
+ */
+export function checkAttachmentContent(contentType: string, content: Buffer): void {
+  const matches = CONTENT_TYPE_SIGNATURES[contentType]
+  if (!matches) {
+    throw new AttachmentError(
+      `Content type ${contentType || '(none)'} is not allowed, expected one of: ${ATTACHMENT_CONTENT_TYPES.join(', ')}`,
+      'unsupported_type'
+    )
+  }
+  if (!matches(content)) {
+    throw new AttachmentError(`File content does not match content type ${contentType}`, 'unsupported_type')
+  }
+}
+
+/**
+ * Check that a target has exactly the IDs its type needs. Returns a copy
+ * without unrelated IDs.
+ */
+export function normalizeAttachmentTarget(input: Partial<AttachmentTarget>): AttachmentTarget {
+  const type = input.type as AttachmentTargetType
+  if (!ATTACHMENT_TARGET_TYPES.includes(type)) {
+    throw new AttachmentError(
+      `Attachment target type must be one of: ${ATTACHMENT_TARGET_TYPES.join(', ')}`,
+      'invalid_target'
+    )
+  }
+
+  const target: AttachmentTarget = { type }
+  for (const field of TARGET_FIELDS[type]) {
+    const value = input[field]
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new AttachmentError(`${field} is required for ${type} attachments`, 'invalid_target')
+    }
+    target[field] = value
+  }
+
+  return target
+}
+
+// Every ID set on the filter must match the attachment's target
+export function matchesAttachmentTarget(attachment: Attachment, filter: Partial<AttachmentTarget>): boolean {
+  return (Object.keys(filter) as Array<keyof AttachmentTarget>)
+    .every(key => filter[key] === undefined || attachment.target[key] === filter[key])
+}
+
+// Base name without path separators or control characters
+export function sanitizeFileName(fileName: string | undefined | null): string {
+  const baseName = (fileName || '').split(/[\\/]/).pop() || ''
+  const cleaned = baseName.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 255)
+  return cleaned && cleaned !== '.' && cleaned !== '..' ? cleaned : 'attachment'
+}
+
+export function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+// Download URL of an attachment, as listed in exports
+export function getAttachmentUrl(attachment: Pick<Attachment, 'id'>): string {
+  return `/api/attachments/${attachment.id}`
+}
@@ -0,0 +1,104 @@
+import { BulkEdit, BulkOperation, BulkOperationType, TestCase } from './types'
+
+export type BulkEditErrorReason = 'notApplicable' | 'alreadyUndone' | 'conflict'
+
+export class BulkEditError extends Error {
+  constructor(message: string, public reason: BulkEditErrorReason, public testCaseIds: string[] = []) {
+    super(message)
+    this.name = 'BulkEditError'
+  }
+}
+
+export const BULK_OPERATION_TYPES: BulkOperationType[] = [
+  'addTags',
+  'removeTags',
+  'setPriority',
+  'setIssue',
+  'clearIssue',
+  'addToPlan',
+  'delete'
+]
+
+export type BulkEditItemStatus = 'updated' | 'unchanged' | 'deleted' | 'failed'
+
+// What the edit does, or would do, to one test case
+export interface BulkEditItem {
+  testCaseId: string
+  title?: string
+  status: BulkEditItemStatus
+  changes: string[]
+  error?: string
+}
+
+export interface BulkEditRequest {
+  testCaseIds: string[]
+  operations: BulkOperation[]
+  dryRun?: boolean
+  author: string
+}
+
+export interface BulkEditReport {
+  dryRun: boolean
+  applied: boolean // False for dry runs and when any test case failed, nothing is written then
+  items: BulkEditItem[]
+  bulkEdit?: BulkEdit // The undo entry of an applied edit
+}
+
+export function getIssueUrl(repository: string, issueNumber: number): string {
+  return `https://github.com/${repository}/issues/${issueNumber}`
+}
+
+/**
+ * The test case with the operations that change its content applied, and
+ * a description of each change. Plans and deletes are left to FileUtils.
+ * Throws a BulkEditError when an operation can't apply to the test case.
+ */
+export function applyBulkOperations(
+  testCase: TestCase,
+  operations: BulkOperation[],
+  now = new Date().toISOString()
+): { testCase: TestCase; changes: string[] } {
+  const updated: TestCase = { ...testCase }
+  const changes: string[] = []
+
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'addTags': {
+        const added = [...new Set(operation.tags)].filter(tag => !updated.tags.includes(tag))
+        if (added.length === 0) break
+        updated.tags = [...updated.tags, ...added]
+        changes.push(`Added tags ${added.join(', ')}`)
+        break
+      }
+      case 'removeTags': {
+        const removed = updated.tags.filter(tag => operation.tags.includes(tag))
+        if (removed.length === 0) break
+        updated.tags = updated.tags.filter(tag => !removed.includes(tag))
+        changes.push(`Removed tags ${removed.join(', ')}`)
+        break
+      }
+      case 'setPriority':
+        if (updated.priority === operation.priority) break
+        updated.priority = operation.priority
+        changes.push(`Set priority to ${operation.priority}`)
+        break
+      case 'setIssue': {
+        const issueNumber = operation.number ?? updated.githubIssue?.number
+        if (issueNumber === undefined) {
+          throw new BulkEditError(`Has no linked issue to move to ${operation.repository}`, 'notApplicable')
+        }
+        if (updated.githubIssue?.repository === operation.repository && updated.githubIssue.number === issueNumber) break
+        updated.githubIssue = { number: issueNumber, url: getIssueUrl(operation.repository, issueNumber), repository: operation.repository }
+        changes.push(`Linked issue ${operation.repository}#${issueNumber}`)
+        break
+      }
+      case 'clearIssue':
+        if (!updated.githubIssue) break
+        changes.push(`Unlinked issue ${updated.githubIssue.repository}#${updated.githubIssue.number}`)
+        delete updated.githubIssue
+        break
+    }
+  }
+
+  return { testCase: changes.length > 0 ? { ...updated, updatedAt: now } : testCase, changes }
+}
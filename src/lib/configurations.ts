@@ -0,0 +1,167 @@
+import { ConfigurationDimension, TestConfiguration, TestResult, TestResultStatus, TestRun } from './types'
+import { getTestResultStatus } from './test-execution-utils'
+
+/**
+ * Configuration matrices. A plan lists dimensions such as browser and locale;
+ * a run of it executes every test case once per combination of their values,
+ * so it starts with a result slot per test case per configuration.
+ */
+
+// More combinations than this are almost certainly a mistake in the matrix
+export const MAX_CONFIGURATIONS = 50
+
+export function getConfigurationId(values: Record<string, string>, dimensions: ConfigurationDimension[]): string {
+  return dimensions.map(dimension => values[dimension.name]).join(' / ')
+}
+
+// Every combination of one value per dimension, in the order of the dimensions and their values
+export function expandConfigurations(dimensions: ConfigurationDimension[]): TestConfiguration[] {
+  if (dimensions.length === 0) return []
+
+  const combinations = dimensions.reduce<Record<string, string>[]>(
+    (partial, dimension) => partial.flatMap(values => dimension.values.map(value => ({ ...values, [dimension.name]: value }))),
+    [{}]
+  )
+  return combinations.map(values => ({ id: getConfigurationId(values, dimensions), values }))
+}
+
+// Dimensions written one per line as `browser: Chrome, Firefox, Safari`
+export function parseConfigurationMatrix(text: string): ConfigurationDimension[] {
+  return text.split('\n').flatMap(line => {
+    const separator = line.indexOf(':')
+    if (separator === -1) return []
+    const name = line.slice(0, separator).trim()
+    const values = [...new Set(line.slice(separator + 1).split(',').map(value => value.trim()).filter(Boolean))]
+    return name && values.length > 0 ? [{ name, values }] : []
+  })
+}
+
+export function countConfigurations(dimensions: ConfigurationDimension[]): number {
+  return dimensions.length === 0 ? 0 : dimensions.reduce((count, dimension) => count * dimension.values.length, 1)
+}
+
+/**
+ * The results a run starts with: one not yet executed result per test case
+ * in each configuration, or per test case when there are no configurations.
+ */
+export function createResultSlots(testCaseIds: string[], configurations: TestConfiguration[], createdAt: string): TestResult[] {
+  const configurationIds = configurations.length > 0 ? configurations.map(configuration => configuration.id) : [undefined]
+  return testCaseIds.flatMap(testCaseId => configurationIds.map(configuration => ({
+    testCaseId,
+    ...(configuration ? { configuration } : {}),
+    status: 'not_executed' as const,
+    executedAt: createdAt,
+    steps: []
+  })))
+}
+
+// Whether a result belongs in the slot of a test case in a configuration; results without one fill the unconfigured slot
+export function isSameSlot(result: Pick<TestResult, 'testCaseId' | 'configuration'>, testCaseId: string, configuration?: string): boolean {
+  return result.testCaseId === testCaseId && (result.configuration || undefined) === (configuration || undefined)
+}
+
+export interface ConfigurationStats {
+  configuration: string
+  runs: number
+  slots: number // Results in the configuration, executed or not
+  executed: number
+  passed: number
+  failed: number
+  passRate: number // Percentage of the executed results passing, rounded
+}
+
+// Pass rate per configuration over the results of the runs that have one
+export function getConfigurationStats(testRuns: Pick<TestRun, 'id' | 'results'>[]): ConfigurationStats[] {
+  const stats = new Map<string, ConfigurationStats & { runIds: Set<string> }>()
+
+  testRuns.forEach(run => {
+    run.results.forEach(result => {
+      if (!result.configuration) return
+
+      const entry = stats.get(result.configuration) || {
+        configuration: result.configuration, runs: 0, slots: 0, executed: 0, passed: 0, failed: 0, passRate: 0, runIds: new Set<string>()
+      }
+      stats.set(result.configuration, entry)
+      entry.runIds.add(run.id)
+      entry.slots++
+
+      const status = getTestResultStatus(result)
+      if (status === 'not_executed') return
+      entry.executed++
+      if (status === 'pass') entry.passed++
+      if (status === 'fail') entry.failed++
+    })
+  })
+
+  return [...stats.values()].map(({ runIds, ...entry }) => ({
+    ...entry,
+    runs: runIds.size,
+    passRate: entry.executed > 0 ? Math.round((entry.passed / entry.executed) * 100) : 0
+  }))
+}
+
+export interface ConfigurationMatrixCell {
+  status: TestResultStatus // not_executed for a gap
+  executedAt?: string
+  testRunId?: string
+}
+
+export interface ConfigurationMatrixRow {
+  testCaseId: string
+  cells: Record<string, ConfigurationMatrixCell> // By configuration ID
+}
+
+export interface ConfigurationMatrix {
+  configurations: TestConfiguration[]
+  rows: ConfigurationMatrixRow[]
+  summary: Array<{ configuration: string; executed: number; passed: number; gaps: number; passRate: number }>
+  gaps: number // Cells never executed
+}
+
+/**
+ * The latest status of every test case in every configuration across the
+ * runs, with the cells no run has executed yet as gaps.
+ */
+export function buildConfigurationMatrix(
+  testCaseIds: string[],
+  configurations: TestConfiguration[],
+  testRuns: TestRun[]
+): ConfigurationMatrix {
+  const latest = new Map<string, ConfigurationMatrixCell & { executedAt: string }>()
+  testRuns.forEach(run => {
+    run.results.forEach(result => {
+      if (!result.configuration) return
+      const status = getTestResultStatus(result)
+      if (status === 'not_executed') return
+
+      const key = `${result.testCaseId}\n${result.configuration}`
+      const current = latest.get(key)
+      if (!current || new Date(result.executedAt) > new Date(current.executedAt)) {
+        latest.set(key, { status, executedAt: result.executedAt, testRunId: run.id })
+      }
+    })
+  })
+
+  const rows = testCaseIds.map(testCaseId => ({
+    testCaseId,
+    cells: Object.fromEntries(configurations.map(configuration => [
+      configuration.id,
+      latest.get(`${testCaseId}\n${configuration.id}`) || { status: 'not_executed' as const }
+    ]))
+  }))
+
+  const summary = configurations.map(configuration => {
+    const cells = rows.map(row => row.cells[configuration.id])
+    const executed = cells.filter(cell => cell.status !== 'not_executed').length
+    const passed = cells.filter(cell => cell.status === 'pass').length
+    return {
+      configuration: configuration.id,
+      executed,
+      passed,
+      gaps: cells.length - executed,
+      passRate: executed > 0 ? Math.round((passed / executed) * 100) : 0
+    }
+  })
+
+  return { configurations, rows, summary, gaps: summary.reduce((total, column) => total + column.gaps, 0) }
+}
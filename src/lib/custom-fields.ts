@@ -0,0 +1,112 @@
+import { CustomFieldDefinition, CustomFieldEntityType, CustomFieldValue, CustomFieldValues } from './types'
+import { SchemaIssue } from './schema'
+
+/**
+ * Custom fields are defined once per workspace and apply to test cases,
+ * plans and/or runs. The values live on the entity under customFields,
+ * keyed by field ID. Values of fields without a definition, e.g. after the
+ * definition was deleted, are kept as they are.
+ */
+
+export const CUSTOM_FIELD_FILTER_PREFIX = 'field.'
+
+// Field ID -> accepted values, any of which matches
+export type CustomFieldFilters = Record<string, string[]>
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const ENTITY_NAMES: Record<CustomFieldEntityType, string> = {
+  testCase: 'test cases',
+  testPlan: 'test plans',
+  testRun: 'test runs'
+}
+
+export function getFieldsFor(definitions: CustomFieldDefinition[], entityType: CustomFieldEntityType): CustomFieldDefinition[] {
+  return definitions.filter(definition => definition.entityTypes.includes(entityType))
+}
+
+function checkValue(definition: CustomFieldDefinition, value: CustomFieldValue): string | undefined {
+  const options = definition.options || []
+
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number' ? undefined : 'must be a number'
+    case 'enum':
+      if (typeof value !== 'string' || !options.includes(value)) return `must be one of ${options.join(', ')}`
+      return undefined
+    case 'multiSelect': {
+      if (!Array.isArray(value)) return 'must be a list of values'
+      const unknown = value.filter(item => !options.includes(item))
+      return unknown.length > 0 ? `contains unknown values: ${unknown.join(', ')}` : undefined
+    }
+    case 'date':
+      if (typeof value !== 'string' || !DATE.test(value) || isNaN(Date.parse(value))) return 'must be a date (YYYY-MM-DD)'
+      return undefined
+    default:
+      return typeof value === 'string' ? undefined : 'must be a string'
+  }
+}
+
+/**
+ * Check the values of an entity against the workspace's field definitions.
+ * Fields that don't apply to the entity type are reported, fields without
+ * a definition are not.
+ */
+export function checkCustomFieldValues(
+  values: CustomFieldValues | undefined,
+  definitions: CustomFieldDefinition[],
+  entityType: CustomFieldEntityType
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+
+  Object.entries(values || {}).forEach(([fieldId, value]) => {
+    const definition = definitions.find(candidate => candidate.id === fieldId)
+    if (!definition) return
+
+    const path = `customFields.${fieldId}`
+    if (!definition.entityTypes.includes(entityType)) {
+      issues.push({ path, message: `does not apply to ${ENTITY_NAMES[entityType]}`, repairable: false })
+      return
+    }
+    const message = checkValue(definition, value)
+    if (message) issues.push({ path, message, repairable: false })
+  })
+
+  return issues
+}
+
+// Read field.<id>=a,b query parameters
+export function parseCustomFieldFilters(searchParams: URLSearchParams): CustomFieldFilters {
+  const filters: CustomFieldFilters = {}
+
+  searchParams.forEach((value, key) => {
+    if (!key.startsWith(CUSTOM_FIELD_FILTER_PREFIX)) return
+    const fieldId = key.slice(CUSTOM_FIELD_FILTER_PREFIX.length)
+    const accepted = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+    if (fieldId && accepted.length > 0) {
+      filters[fieldId] = [...(filters[fieldId] || []), ...accepted]
+    }
+  })
+
+  return filters
+}
+
+/**
+ * An entity matches when every filtered field has one of the accepted
+ * values. Multi-select fields match when any selected value is accepted.
+ * Comparison ignores case.
+ */
+export function matchesCustomFieldFilters(values: CustomFieldValues | undefined, filters: CustomFieldFilters): boolean {
+  return Object.entries(filters).every(([fieldId, accepted]) => {
+    const value = values?.[fieldId]
+    if (value === undefined) return false
+
+    const actual = Array.isArray(value) ? value : [String(value)]
+    return actual.some(item => accepted.includes(item.toLowerCase()))
+  })
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue | undefined): string {
+  if (value === undefined) return ''
+  return Array.isArray(value) ? value.join('; ') : String(value)
+}
@@ -0,0 +1,204 @@
+import { TestCase } from './types'
+
+/**
+ * Local near-duplicate detection for test cases. Titles, descriptions and
+ * step text are compared separately as TF-IDF weighted word vectors, so
+ * words most test cases share ("test", "verify", "should") count for little
+ * and the words that set a test case apart count for a lot. The field
+ * scores are combined into one weighted score between 0 and 1.
+ */
+
+export type DuplicateField = 'title' | 'description' | 'steps'
+
+export interface DuplicateMatch {
+  testCaseIds: [string, string]
+  score: number // 0 to 1, rounded to two decimals
+  fields: Partial<Record<DuplicateField, number>> // Score per field both test cases have text for
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.5
+
+const FIELD_WEIGHTS: Record<DuplicateField, number> = {
+  title: 0.4,
+  description: 0.25,
+  steps: 0.35
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'their', 'then', 'there', 'this', 'to', 'was', 'were', 'will', 'with'
+])
+
+type Fields = Record<DuplicateField, string>
+type Vector = Map<string, number>
+
+export function getDuplicateFields(testCase: Pick<TestCase, 'title' | 'description' | 'preconditions' | 'expectedResult' | 'steps'>): Fields {
+  return {
+    title: testCase.title || '',
+    description: [testCase.description, testCase.preconditions, testCase.expectedResult].filter(Boolean).join('\n'),
+    steps: (testCase.steps || []).map(step => `${step.action || ''}\n${step.expectedResult || ''}`).join('\n')
+  }
+}
+
+// Lowercased words without stop words, with plural endings dropped
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+}
+
+function termFrequencies(tokens: string[]): Vector {
+  const counts: Vector = new Map()
+  tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1))
+  return counts
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  a.forEach((weight, term) => {
+    normA += weight * weight
+    dot += weight * (b.get(term) || 0)
+  })
+  b.forEach(weight => { normB += weight * weight })
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Weighted vectors of a set of test cases. The document frequencies come
+ * from the test cases themselves, so the same text scores differently in a
+ * workspace where its words are common.
+ */
+class DuplicateIndex {
+  private vectors = new Map<string, Record<DuplicateField, Vector>>()
+
+  constructor(documents: Array<{ id: string; fields: Fields }>) {
+    const tokenized = documents.map(doc => ({
+      id: doc.id,
+      terms: Object.fromEntries(
+        (Object.keys(FIELD_WEIGHTS) as DuplicateField[]).map(field => [field, termFrequencies(tokenize(doc.fields[field]))])
+      ) as Record<DuplicateField, Vector>
+    }))
+
+    // A word counts once per test case, whichever field it is in
+    const documentFrequency = new Map<string, number>()
+    tokenized.forEach(doc => {
+      const words = new Set(Object.values(doc.terms).flatMap(terms => [...terms.keys()]))
+      words.forEach(word => documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1))
+    })
+
+    const idf = (word: string) => Math.log((1 + tokenized.length) / (1 + (documentFrequency.get(word) || 0))) + 1
+    tokenized.forEach(doc => {
+      const weighted = Object.fromEntries(Object.entries(doc.terms).map(([field, terms]) => [
+        field,
+        new Map([...terms].map(([word, count]) => [word, count * idf(word)]))
+      ])) as Record<DuplicateField, Vector>
+      this.vectors.set(doc.id, weighted)
+    })
+  }
+
+  compare(idA: string, idB: string): Omit<DuplicateMatch, 'testCaseIds'> {
+    const a = this.vectors.get(idA)!
+    const b = this.vectors.get(idB)!
+    const fields: DuplicateMatch['fields'] = {}
+    let weighted = 0
+    let totalWeight = 0
+
+    for (const field of Object.keys(FIELD_WEIGHTS) as DuplicateField[]) {
+      // Fields only one of the test cases has text for are left out
+      if (a[field].size === 0 || b[field].size === 0) continue
+      const score = cosine(a[field], b[field])
+      fields[field] = round(score)
+      weighted += score * FIELD_WEIGHTS[field]
+      totalWeight += FIELD_WEIGHTS[field]
+    }
+
+    return { score: totalWeight > 0 ? round(weighted / totalWeight) : 0, fields }
+  }
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100
+}
+
+function toDocument(testCase: TestCase) {
+  return { id: testCase.id, fields: getDuplicateFields(testCase) }
+}
+
+// Every pair of test cases scoring at least the threshold, most similar first
+export function findDuplicates(testCases: TestCase[], threshold = DEFAULT_DUPLICATE_THRESHOLD): DuplicateMatch[] {
+  const index = new DuplicateIndex(testCases.map(toDocument))
+  const matches: DuplicateMatch[] = []
+
+  for (let i = 0; i < testCases.length; i++) {
+    for (let j = i + 1; j < testCases.length; j++) {
+      const match = index.compare(testCases[i].id, testCases[j].id)
+      if (match.score >= threshold) {
+        matches.push({ testCaseIds: [testCases[i].id, testCases[j].id], ...match })
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Existing test cases similar to one, which may not be saved yet. A saved
+ * version of the candidate itself is not reported.
+ */
+export function findSimilarTestCases(
+  candidate: TestCase,
+  testCases: TestCase[],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateMatch[] {
+  const others = testCases.filter(testCase => testCase.id !== candidate.id)
+  const index = new DuplicateIndex([candidate, ...others].map(toDocument))
+
+  return others
+    .map(testCase => ({ testCaseIds: [candidate.id, testCase.id] as [string, string], ...index.compare(candidate.id, testCase.id) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+}
+
+export type MergeField = 'title' | 'description' | 'preconditions' | 'steps' | 'expectedResult' | 'priority'
+export type MergeChoices = Partial<Record<MergeField, 'target' | 'source'>>
+
+export const MERGE_FIELDS: MergeField[] = ['title', 'description', 'preconditions', 'steps', 'expectedResult', 'priority']
+
+/**
+ * Combine two test cases into the target. Each field comes from the target
+ * unless the choices say otherwise, or the target's is empty. Tags and
+ * custom fields are combined, and parameters go with the steps.
+ */
+export function mergeTestCaseContent(
+  target: TestCase,
+  source: TestCase,
+  choices: MergeChoices = {},
+  now = new Date().toISOString()
+): TestCase {
+  const merged: TestCase = { ...target, updatedAt: now }
+
+  for (const field of MERGE_FIELDS) {
+    const targetValue = target[field]
+    const isEmpty = targetValue === undefined || targetValue === '' || (Array.isArray(targetValue) && targetValue.length === 0)
+    if (choices[field] === 'source' || (choices[field] === undefined && isEmpty)) {
+      Object.assign(merged, { [field]: source[field] })
+      if (field === 'steps') merged.parameters = source.parameters
+    }
+  }
+  if (!merged.parameters) delete merged.parameters
+  if (!merged.preconditions) delete merged.preconditions
+
+  merged.tags = [...new Set([...target.tags, ...source.tags])]
+  if (target.customFields || source.customFields) {
+    merged.customFields = { ...source.customFields, ...target.customFields }
+  }
+  if (!merged.suiteId && source.suiteId) merged.suiteId = source.suiteId
+  if (!merged.githubIssue && source.githubIssue) merged.githubIssue = source.githubIssue
+  if (target.automatedTests || source.automatedTests) {
+    merged.automatedTests = [...new Set([...(target.automatedTests || []), ...(source.automatedTests || [])])]
+  }
+
+  return merged
+}
@@ -1,441 +1,2019 @@
 import fs from 'fs/promises'
-import path from 'path'
-import matter from 'gray-matter'
-import { TestCase, TestPlan, TestRun } from './types'
-import { calculateTestCaseStatus } from './test-execution-utils'
+import { randomUUID } from 'crypto'
+import {
+  Attachment,
+  AttachmentTarget,
+  BulkEdit,
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldValues,
+  GitHubIssue,
+  Release,
+  Requirement,
+  SharedStep,
+  TestCase,
+  TestCaseRevision,
+  TestPlan,
+  TestPlanSnapshot,
+  TestResult,
+  TestRun,
+  TestSuite,
+  TrashEntry,
+  TrashEntityType,
+  UsageReport
+} from './types'
+import { checkCustomFieldValues, getFieldsFor } from './custom-fields'
+import { SuiteNode, buildSuiteTree, flattenSuiteTree, getSiblingSuites, isWithinSuite, resolvePlanTestCaseIds } from './test-suites'
+import { getLatestResults, getTestResultStatus } from './test-execution-utils'
+import { TraceabilityMatrix, buildTraceabilityMatrix, compareRequirementIds, requirementFromIssue } from './requirements'
+import { AUTOMATED_RUN_PLAN_ID, normalizeResultStatus, normalizeTestRun } from './test-runs'
+import { JUnitReportError, UnmappedAutomatedTest, getUnmappedTests, mapAutomatedTests, parseJUnitReport } from './junit'
+import { ReleaseReport, evaluateRelease, getReadinessHistory, getReleaseRuns } from './releases'
+import { ConfigurationMatrix, buildConfigurationMatrix, expandConfigurations, isSameSlot } from './configurations'
+import { applyDependencyBlocking, orderTestCases, removeFromDependencies, replaceInDependencies, restoreToDependencies } from './test-dependencies'
+import {
+  AssignedTest,
+  AssigneeWorkload,
+  AssignmentRequest,
+  assignByTag,
+  assignRoundRobin,
+  getAssignedTests,
+  getRunTestCaseIds,
+  getWorkload,
+  isOpenRun
+} from './run-assignments'
+import { ReviewError, ReviewRequest, applyReview, getReviewSummary, isApproved, withEditedReview } from './test-case-review'
+import { DuplicateMatch, MergeChoices, findDuplicates, findSimilarTestCases, mergeTestCaseContent } from './duplicates'
+import { QueryContext, TestCaseQueryError, getLinkedIssues, matchesQueryFilters, parseTestCaseQuery, queryUses } from './test-case-query'
+import { TestCaseSearchIndex, getLinkedIssueTitles } from './search-index'
+import { BulkEditError, BulkEditItem, BulkEditReport, BulkEditRequest, applyBulkOperations } from './bulk-edit'
+import { diffSharedSteps, diffTestCases, summarizeDiff } from './revision-diff'
+import { createIterationResults, isParameterized } from './test-parameters'
+import {
+  ExpandedTestCase,
+  SharedStepChangePreview,
+  SharedStepUsageReport,
+  expandSharedSteps,
+  findSharedStepUsage,
+  getSharedStepIds
+} from './shared-steps'
+import { FileSystemError, GitWorkspace, StorageAdapter, createStorageAdapter, getGitOptions, getStorageOptions } from './storage'
+import {
+  AttachmentError,
+  checkAttachmentContent,
+  getMaxAttachmentBytes,
+  hashContent,
+  matchesAttachmentTarget,
+  normalizeAttachmentTarget,
+  normalizeContentType,
+  sanitizeFileName
+} from './attachments'
+import { ArchiveError, ImportOptions, ImportReport, WorkspaceArchive, exportWorkspace, importWorkspace } from './storage/archive'
+import { WorkspaceValidationReport, validateWorkspace } from './storage/validate'
+import {
+  SchemaIssue,
+  SchemaValidationError,
+  assertValid,
+  normalizePriority,
+  repairTestCase,
+  validateBulkEditRequest,
+  validateCustomFieldDefinition,
+  validateRelease,
+  validateRequirement,
+  validateSharedStep,
+  validateTestCase,
+  validateTestPlan,
+  validateTestRun,
+  validateTestRunEntries,
+  validateTestSuite
+} from './schema'
 
-export class FileSystemError extends Error {
-  constructor(message: string, public operation: string, public filePath?: string) {
-    super(message)
-    this.name = 'FileSystemError'
+export {
+  ArchiveError,
+  AttachmentError,
+  BulkEditError,
+  FileSystemError,
+  JUnitReportError,
+  ReviewError,
+  SchemaValidationError,
+  TestCaseQueryError
+}
+
+export interface ChangeOptions {
+  author?: string // Author of the workspace commit when git is enabled
+}
+
+export interface SaveTestCaseOptions {
+  author?: string // Recorded on the revision, defaults to the test case creator
+  summary?: string // Change summary, generated from the diff when omitted
+}
+
+export interface ExecutedTestResult extends TestResult {
+  executedBy: string
+  testRunId: string
+  testRunName: string
+  testPlanId: string
+}
+
+export type SharedStepInput = Pick<SharedStep, 'id' | 'title' | 'steps'> & Partial<SharedStep>
+
+export type TestSuiteInput = Pick<TestSuite, 'id' | 'name'> & Partial<TestSuite>
+
+export type RequirementInput = Pick<Requirement, 'id' | 'title'> & Partial<Requirement>
+
+export type ReleaseInput = Pick<Release, 'id' | 'name'> & Partial<Release>
+
+export interface RequirementImportResult {
+  created: Requirement[]
+  updated: Requirement[]
+}
+
+export type CustomFieldInput = Omit<CustomFieldDefinition, 'createdAt' | 'updatedAt'> & Partial<CustomFieldDefinition>
+
+export interface RestoreFromTrashResult {
+  entry: TrashEntry
+  relinkedPlans: string[] // Plans the restored test case was added back to
+  relinkedRequirements: string[] // Requirements the restored test case covers again
+}
+
+export interface MergeTestCasesResult {
+  testCase: TestCase // The merged test case, saved under the target's ID
+  trashEntry: TrashEntry // The source test case, moved to the trash
+  testPlans: string[] // Plans that referenced the source
+  requirements: string[] // Requirements that referenced the source
+}
+
+export interface AttachmentUpload {
+  target: Partial<AttachmentTarget>
+  fileName: string
+  contentType: string
+  content: Buffer
+  uploadedBy: string
+}
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+const TRASH_ENTITY_NAMES: Record<TrashEntityType, string> = {
+  testCase: 'test case',
+  testPlan: 'test plan',
+  testRun: 'test run'
+}
+
+// e.g. 'run-1/tc-1/step-2' for a step result
+function describeAttachmentTarget(target: AttachmentTarget): string {
+  return [target.testRunId, target.testCaseId, target.stepId].filter(Boolean).join('/')
+}
+
+export class FileUtils {
+  private static storage: StorageAdapter | null = null
+  private static git: GitWorkspace | null | undefined
+  private static searchIndex: TestCaseSearchIndex | null = null
+
+  // Storage backend, resolved from the environment on first use
+  static getStorage(): StorageAdapter {
+    if (!this.storage) {
+      this.storage = createStorageAdapter(getStorageOptions())
+    }
+    return this.storage
+  }
+
+  // Swap the storage backend (used by tests and the migration command)
+  static setStorage(storage: StorageAdapter | null): void {
+    this.storage = storage
+    this.searchIndex = null
+  }
+
+  // Workspace repository, only with QA_GIT_ENABLED and the file backend
+  static getGitWorkspace(): GitWorkspace | null {
+    if (this.git === undefined) {
+      const options = getGitOptions()
+      this.git = options.enabled && this.getStorage().backend === 'file'
+        ? new GitWorkspace(getStorageOptions().workspaceDir, options)
+        : null
+    }
+    return this.git
+  }
+
+  // Swap the workspace repository (used by tests), undefined re-reads the environment
+  static setGitWorkspace(git: GitWorkspace | null | undefined): void {
+    this.git = git
+  }
+
+  /**
+   * Commit a change when the workspace is a git repository. The change is
+   * already stored, so a failed commit is logged and left uncommitted
+   * (listed by GET /api/git) instead of failing the write.
+   */
+  private static async recordChange(message: string, author: string | undefined): Promise<void> {
+    const git = this.getGitWorkspace()
+    if (!git) return
+
+    try {
+      await git.commit(message, { name: author || 'unknown' })
+    } catch (error) {
+      console.error('Failed to commit workspace change:', error)
+    }
+  }
+
+  // Test Case Operations
+
+  /**
+   * Localized priorities are mapped onto the canonical values, anything
+   * else that doesn't match the schema is rejected with a SchemaValidationError.
+   */
+  static async saveTestCase(input: TestCase, options: SaveTestCaseOptions = {}): Promise<TestCaseRevision> {
+    const testCase: TestCase = { ...input, priority: normalizePriority(input.priority) || input.priority }
+    assertValid('test case', validateTestCase(testCase))
+    assertValid('test case', await this.checkSharedStepReferences(testCase))
+    assertValid('test case', await this.checkCustomFields(testCase.customFields, 'testCase'))
+    assertValid('test case', await this.checkSuiteReferences(testCase.suiteId ? [testCase.suiteId] : [], 'suiteId'))
+
+    const storage = this.getStorage()
+    const revisions = await storage.listTestCaseRevisions(testCase.id)
+
+    // Cases written before revision history existed get their current
+    // content recorded first, so the first edit doesn't lose it
+    if (revisions.length === 0) {
+      const existing = await storage.loadTestCase(testCase.id)
+      if (existing) {
+        const baseline: TestCaseRevision = {
+          testCaseId: existing.id,
+          revision: 1,
+          author: existing.createdBy || 'unknown',
+          createdAt: existing.updatedAt || existing.createdAt || new Date().toISOString(),
+          summary: 'Initial version',
+          snapshot: existing
+        }
+        await storage.appendTestCaseRevision(baseline)
+        revisions.push(baseline)
+      }
+    }
+
+    await storage.saveTestCase(testCase)
+    this.searchIndex?.add(testCase)
+
+    const latest = revisions[revisions.length - 1]
+    const diff = latest ? diffTestCases(latest.snapshot, testCase) : null
+
+    // Saving identical content doesn't create a new revision
+    if (latest && diff && !diff.hasChanges) {
+      await this.recordChange(`Save test case ${testCase.id}`, options.author || testCase.createdBy)
+      return latest
+    }
+
+    const revision: TestCaseRevision = {
+      testCaseId: testCase.id,
+      revision: latest ? latest.revision + 1 : 1,
+      author: options.author || testCase.createdBy || 'unknown',
+      createdAt: new Date().toISOString(),
+      summary: options.summary || (diff ? summarizeDiff(diff) : 'Created'),
+      snapshot: testCase
+    }
+    await storage.appendTestCaseRevision(revision)
+    await this.recordChange(`Save test case ${testCase.id}\n\n${revision.summary}`, revision.author)
+
+    return revision
+  }
+
+  static async loadTestCase(testCaseId: string): Promise<TestCase | null> {
+    return this.getStorage().loadTestCase(testCaseId)
+  }
+
+  static async getAllTestCases(): Promise<TestCase[]> {
+    const testCases = await this.getStorage().listTestCases()
+    return testCases.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+  }
+
+  static async deleteTestCase(testCaseId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const deleted = await this.getStorage().deleteTestCase(testCaseId)
+    if (deleted) {
+      this.searchIndex?.remove(testCaseId)
+      await this.recordChange(`Delete test case ${testCaseId}`, options.author)
+    }
+    return deleted
+  }
+
+  // Test Case Revisions
+  static async getTestCaseRevisions(testCaseId: string): Promise<TestCaseRevision[]> {
+    return this.getStorage().listTestCaseRevisions(testCaseId)
+  }
+
+  static async getTestCaseRevision(testCaseId: string, revision: number): Promise<TestCaseRevision | null> {
+    const revisions = await this.getTestCaseRevisions(testCaseId)
+    return revisions.find(r => r.revision === revision) || null
+  }
+
+  /**
+   * Bring back the content of an earlier revision. The restore itself is
+   * recorded as a new revision, so history is never rewritten. A test case
+   * in the trash has to be restored from there first.
+   */
+  static async restoreTestCaseRevision(
+    testCaseId: string,
+    revision: number,
+    author: string
+  ): Promise<{ testCase: TestCase; revision: TestCaseRevision } | null> {
+    const target = await this.getTestCaseRevision(testCaseId, revision)
+    if (!target) {
+      return null
+    }
+
+    const current = await this.loadTestCase(testCaseId)
+    if (!current && (await this.getTrash()).some(entry => entry.entityType === 'testCase' && entry.entityId === testCaseId)) {
+      throw new FileSystemError(`Test case ${testCaseId} is in the trash, restore it from there first`, 'restoreTestCaseRevision')
+    }
+    // Old snapshots may predate the schema, so known issues are repaired
+    let restored: TestCase = {
+      ...repairTestCase(target.snapshot).value,
+      id: testCaseId,
+      createdAt: current?.createdAt || target.snapshot.createdAt,
+      createdBy: current?.createdBy || target.snapshot.createdBy,
+      updatedAt: new Date().toISOString()
+    }
+    // Restoring content doesn't undo review decisions made since, but
+    // restored content that differs from an approved version needs a new review
+    if (current) {
+      restored = withEditedReview(restored, current)
+      // Imported results are mapped through the current links to automated tests
+      restored.automatedTests = current.automatedTests
+      if (!restored.automatedTests) delete restored.automatedTests
+    }
+
+    const recorded = await this.saveTestCase(restored, {
+      author,
+      summary: `Restored revision ${revision}`
+    })
+
+    return { testCase: restored, revision: recorded }
+  }
+
+  // Submit, approve, reject, deprecate or comment on a test case; null if it doesn't exist
+  static async reviewTestCase(testCaseId: string, request: ReviewRequest): Promise<TestCase | null> {
+    const testCase = await this.loadTestCase(testCaseId)
+    if (!testCase) {
+      return null
+    }
+
+    const reviewed = applyReview(testCase, request)
+    await this.saveTestCase(reviewed, { author: request.author, summary: getReviewSummary(request.action) })
+    return reviewed
+  }
+
+  // Pairs of test cases whose text is similar enough to be duplicates
+  static async findDuplicateTestCases(threshold?: number): Promise<DuplicateMatch[]> {
+    return findDuplicates(await this.getAllTestCases(), threshold)
+  }
+
+  // Existing test cases similar to a test case that may not be saved yet
+  static async findSimilarTestCases(testCase: TestCase, threshold?: number): Promise<DuplicateMatch[]> {
+    return findSimilarTestCases(testCase, await this.getAllTestCases(), threshold)
+  }
+
+  /**
+   * Merge the source test case into the target. Plans and requirements that
+   * referenced the source reference the target instead, plan dependencies
+   * included, and the source is moved to the trash. Runs keep their results
+   * for the source.
+   */
+  static async mergeTestCases(
+    targetId: string,
+    sourceId: string,
+    options: { choices?: MergeChoices; author: string }
+  ): Promise<MergeTestCasesResult | null> {
+    if (targetId === sourceId) {
+      throw new SchemaValidationError('test case', [
+        { path: 'sourceId', message: 'must not be the test case it is merged into', repairable: false }
+      ])
+    }
+
+    const target = await this.loadTestCase(targetId)
+    const source = await this.loadTestCase(sourceId)
+    if (!target || !source) {
+      return null
+    }
+
+    const merged = mergeTestCaseContent(target, source, options.choices)
+    await this.saveTestCase(merged, { author: options.author, summary: `Merged ${source.title} (${source.id})` })
+
+    const storage = this.getStorage()
+    const replace = (ids: string[]) => [...new Set(ids.map(id => (id === sourceId ? targetId : id)))]
+    const now = new Date().toISOString()
+
+    // Bypasses validation like the trash does, so unrelated issues can't block the merge
+    const testPlans: string[] = []
+    for (const plan of await this.getAllTestPlans()) {
+      const { prerequisites, dependents } = removeFromDependencies(plan.dependencies, sourceId)
+      if (!plan.testCases.includes(sourceId) && prerequisites.length === 0 && dependents.length === 0) continue
+
+      await storage.saveTestPlan({
+        ...plan,
+        testCases: replace(plan.testCases),
+        ...(plan.dependencies ? { dependencies: replaceInDependencies(plan.dependencies, sourceId, targetId) } : {}),
+        updatedAt: now
+      })
+      testPlans.push(plan.id)
+    }
+
+    const requirements: string[] = []
+    for (const requirement of await storage.listRequirements()) {
+      if (!requirement.testCases.includes(sourceId)) continue
+      await storage.saveRequirement({ ...requirement, testCases: replace(requirement.testCases), updatedAt: now })
+      requirements.push(requirement.id)
+    }
+    if (requirements.length > 0) {
+      this.invalidateSearchIndex()
+    }
+
+    const trashEntry = await this.trashTestCase(sourceId, options.author)
+    if (!trashEntry) {
+      throw new FileSystemError(`Test case ${sourceId} was removed during the merge`, 'mergeTestCases')
+    }
+    return { testCase: merged, trashEntry, testPlans, requirements }
+  }
+
+  // Bulk Edits
+
+  static async getBulkEdits(): Promise<BulkEdit[]> {
+    const bulkEdits = await this.getStorage().listBulkEdits()
+    return bulkEdits.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }
+
+  /**
+   * Apply the operations to every test case or to none: if any test case
+   * can't take them, nothing is written and the report says why. With
+   * dryRun the report previews the edit. An applied edit is kept as a
+   * single entry that undoBulkEdit reverts as a whole.
+   */
+  static async bulkEditTestCases(request: BulkEditRequest): Promise<BulkEditReport> {
+    assertValid('bulk edit', validateBulkEditRequest(request))
+    const { operations, author } = request
+    const isDelete = operations.some(operation => operation.type === 'delete')
+
+    // A missing plan would fail every test case alike, so it fails the request
+    const plans = new Map<string, TestPlan>()
+    const planIssues: SchemaIssue[] = []
+    for (const [index, operation] of operations.entries()) {
+      if (operation.type !== 'addToPlan') continue
+      const plan = await this.loadTestPlan(operation.testPlanId)
+      if (plan) {
+        plans.set(plan.id, plan)
+      } else {
+        planIssues.push({ path: `operations[${index}].testPlanId`, message: `is not a test plan: ${operation.testPlanId}`, repairable: false })
+      }
+    }
+    assertValid('bulk edit', planIssues)
+
+    const now = new Date().toISOString()
+    const items: BulkEditItem[] = []
+    const updates: Array<{ before: TestCase; after: TestCase; changes: string[] }> = []
+    const deletions: TestCase[] = []
+    const planAdditions = new Map<string, string[]>()
+
+    for (const testCaseId of new Set(request.testCaseIds)) {
+      const testCase = await this.loadTestCase(testCaseId)
+      if (!testCase) {
+        items.push({ testCaseId, status: 'failed', changes: [], error: 'Test case not found' })
+        continue
+      }
+      if (isDelete) {
+        deletions.push(testCase)
+        items.push({ testCaseId, title: testCase.title, status: 'deleted', changes: ['Moved to the trash'] })
+        continue
+      }
+
+      try {
+        const { testCase: updated, changes } = applyBulkOperations(testCase, operations, now)
+        assertValid('test case', validateTestCase(updated))
+        if (changes.length > 0) {
+          updates.push({ before: testCase, after: updated, changes: [...changes] })
+        }
+
+        for (const operation of operations) {
+          if (operation.type !== 'addToPlan') continue
+          const plan = plans.get(operation.testPlanId)
+          if (!plan) {
+            throw new FileSystemError(`Test plan ${operation.testPlanId} was not loaded for the bulk edit`, 'bulkEditTestCases')
+          }
+          const added = planAdditions.get(plan.id) || []
+          if (plan.testCases.includes(testCaseId) || added.includes(testCaseId)) continue
+          planAdditions.set(plan.id, [...added, testCaseId])
+          changes.push(`Added to plan ${plan.name}`)
+        }
+
+        items.push({ testCaseId, title: testCase.title, status: changes.length > 0 ? 'updated' : 'unchanged', changes })
+      } catch (error) {
+        if (!(error instanceof BulkEditError) && !(error instanceof SchemaValidationError)) throw error
+        items.push({ testCaseId, title: testCase.title, status: 'failed', changes: [], error: error.message })
+      }
+    }
+
+    if (request.dryRun || items.some(item => item.status === 'failed')) {
+      return { dryRun: Boolean(request.dryRun), applied: false, items }
+    }
+
+    const bulkEdit: BulkEdit = {
+      id: randomUUID(),
+      operations,
+      testCases: [],
+      planAdditions: [],
+      trashEntryIds: [],
+      createdAt: now,
+      createdBy: author
+    }
+
+    try {
+      for (const update of updates) {
+        await this.saveTestCase(update.after, { author, summary: `Bulk edit: ${update.changes.join(', ')}` })
+        bulkEdit.testCases.push({ before: update.before, after: update.after })
+      }
+      // Bypasses validation like the trash does, so unrelated issues in a plan can't fail the edit
+      for (const [testPlanId, testCaseIds] of planAdditions) {
+        const plan = plans.get(testPlanId)
+        if (!plan) {
+          throw new FileSystemError(`Test plan ${testPlanId} was not loaded for the bulk edit`, 'bulkEditTestCases')
+        }
+        await this.getStorage().saveTestPlan({ ...plan, testCases: [...plan.testCases, ...testCaseIds], updatedAt: now })
+        bulkEdit.planAdditions.push({ testPlanId, testCaseIds })
+      }
+      for (const testCase of deletions) {
+        const entry = await this.trashTestCase(testCase.id, author)
+        bulkEdit.testCases.push({ before: testCase })
+        if (entry) bulkEdit.trashEntryIds.push(entry.id)
+      }
+    } catch (error) {
+      // Put back what was written before the failure
+      await this.revertBulkEdit(bulkEdit, author)
+      throw error
+    }
+
+    await this.getStorage().saveBulkEdit(bulkEdit)
+    await this.recordChange(`Bulk edit ${items.length} test cases`, author)
+    return { dryRun: false, applied: true, items, bulkEdit }
+  }
+
+  /**
+   * Revert an applied bulk edit. Nothing is reverted if any of the test
+   * cases changed since, or a deleted one was restored or purged.
+   */
+  static async undoBulkEdit(bulkEditId: string, author: string): Promise<BulkEdit | null> {
+    const storage = this.getStorage()
+    const bulkEdit = (await storage.listBulkEdits()).find(entry => entry.id === bulkEditId)
+    if (!bulkEdit) {
+      return null
+    }
+    if (bulkEdit.undoneAt) {
+      throw new BulkEditError(`Bulk edit was already undone by ${bulkEdit.undoneBy || 'someone'}`, 'alreadyUndone')
+    }
+
+    const trash = await storage.listTrash()
+    const conflicts: string[] = []
+    for (const { before, after } of bulkEdit.testCases) {
+      const current = await this.loadTestCase(before.id)
+      const unchanged = after
+        ? current?.updatedAt === after.updatedAt
+        : !current && trash.some(entry => bulkEdit.trashEntryIds.includes(entry.id) && entry.entityId === before.id)
+      if (!unchanged) conflicts.push(before.id)
+    }
+    if (conflicts.length > 0) {
+      throw new BulkEditError(`Test cases changed since the bulk edit: ${conflicts.join(', ')}`, 'conflict', conflicts)
+    }
+
+    await this.revertBulkEdit(bulkEdit, author)
+    const undone: BulkEdit = { ...bulkEdit, undoneAt: new Date().toISOString(), undoneBy: author }
+    await storage.saveBulkEdit(undone)
+    await this.recordChange(`Undo bulk edit ${bulkEdit.id}`, author)
+    return undone
+  }
+
+  // Put back the test cases, plans and trashed test cases of a bulk edit
+  private static async revertBulkEdit(bulkEdit: BulkEdit, author: string): Promise<void> {
+    for (const entryId of bulkEdit.trashEntryIds) {
+      await this.restoreFromTrash(entryId, { author })
+    }
+
+    for (const { testPlanId, testCaseIds } of bulkEdit.planAdditions) {
+      const plan = await this.loadTestPlan(testPlanId)
+      if (!plan) continue
+      await this.getStorage().saveTestPlan({
+        ...plan,
+        testCases: plan.testCases.filter(testCaseId => !testCaseIds.includes(testCaseId)),
+        updatedAt: new Date().toISOString()
+      })
+    }
+
+    for (const { before, after } of bulkEdit.testCases) {
+      if (!after) continue
+      await this.saveTestCase({ ...before, updatedAt: new Date().toISOString() }, { author, summary: 'Undid bulk edit' })
+    }
+  }
+
+  // Shared Steps
+
+  /**
+   * The test case with every shared step reference replaced by the steps of
+   * the shared step, as executed in a run
+   */
+  static async loadExpandedTestCase(testCaseId: string): Promise<ExpandedTestCase | null> {
+    const testCase = await this.loadTestCase(testCaseId)
+    if (!testCase) {
+      return null
+    }
+
+    const storage = this.getStorage()
+    const sharedSteps = new Map<string, { current: SharedStep | null; versions: SharedStep[] }>()
+    for (const sharedStepId of getSharedStepIds(testCase)) {
+      sharedSteps.set(sharedStepId, {
+        current: await storage.loadSharedStep(sharedStepId),
+        versions: await storage.listSharedStepVersions(sharedStepId)
+      })
+    }
+
+    const steps = expandSharedSteps(testCase.steps, (sharedStepId, version) => {
+      const found = sharedSteps.get(sharedStepId)
+      if (!found) return undefined
+      return version === undefined
+        ? found.current || undefined
+        : found.versions.find(candidate => candidate.version === version)
+    })
+
+    return { ...testCase, steps }
+  }
+
+  private static async checkSharedStepReferences(testCase: TestCase): Promise<SchemaIssue[]> {
+    const issues: SchemaIssue[] = []
+    const storage = this.getStorage()
+
+    for (const [index, step] of testCase.steps.entries()) {
+      if (!step.sharedStepId) continue
+
+      const path = `steps[${index}]`
+      if (step.sharedStepVersion === undefined) {
+        if (!await storage.loadSharedStep(step.sharedStepId)) {
+          issues.push({ path: `${path}.sharedStepId`, message: `is not a shared step: ${step.sharedStepId}`, repairable: false })
+        }
+      } else {
+        const versions = await storage.listSharedStepVersions(step.sharedStepId)
+        if (!versions.some(version => version.version === step.sharedStepVersion)) {
+          issues.push({
+            path: `${path}.sharedStepVersion`,
+            message: `is not a version of shared step ${step.sharedStepId}: ${step.sharedStepVersion}`,
+            repairable: false
+          })
+        }
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Every save that changes the shared step increments its version and
+   * keeps the new version in its history. Saving identical content
+   * returns the current version unchanged.
+   */
+  static async saveSharedStep(input: SharedStepInput, options: ChangeOptions = {}): Promise<SharedStep> {
+    const storage = this.getStorage()
+    const existing = await storage.loadSharedStep(input.id)
+    const versions = await storage.listSharedStepVersions(input.id)
+
+    if (existing && !diffSharedSteps(existing, { ...input, tags: input.tags || [] }).hasChanges) {
+      return existing
+    }
+
+    const now = new Date().toISOString()
+    const author = options.author || input.updatedBy || input.createdBy || 'unknown'
+    // Versions outlive a deleted shared step, so a recreated one continues the numbering
+    const latestVersion = versions.reduce((max, version) => Math.max(max, version.version), 0)
+    const sharedStep: SharedStep = {
+      id: input.id,
+      title: input.title,
+      ...(input.description ? { description: input.description } : {}),
+      steps: input.steps.map((step, index) => ({ ...step, stepNumber: index + 1 })),
+      tags: input.tags || [],
+      version: latestVersion + 1,
+      createdAt: existing?.createdAt || input.createdAt || now,
+      updatedAt: now,
+      createdBy: existing?.createdBy || input.createdBy || author,
+      ...(existing ? { updatedBy: author } : {})
+    }
+    assertValid('shared step', validateSharedStep(sharedStep))
+
+    await storage.saveSharedStep(sharedStep)
+    await storage.appendSharedStepVersion(sharedStep)
+    await this.recordChange(`Save shared step ${sharedStep.id} (version ${sharedStep.version})`, author)
+
+    return sharedStep
+  }
+
+  static async loadSharedStep(sharedStepId: string): Promise<SharedStep | null> {
+    return this.getStorage().loadSharedStep(sharedStepId)
+  }
+
+  static async getAllSharedSteps(): Promise<SharedStep[]> {
+    const sharedSteps = await this.getStorage().listSharedSteps()
+    return sharedSteps.sort((a, b) => a.title.localeCompare(b.title))
+  }
+
+  static async getSharedStepVersions(sharedStepId: string): Promise<SharedStep[]> {
+    return this.getStorage().listSharedStepVersions(sharedStepId)
+  }
+
+  static async getSharedStepUsage(sharedStepId: string): Promise<SharedStepUsageReport> {
+    return findSharedStepUsage(sharedStepId, await this.getAllTestCases())
+  }
+
+  /**
+   * What saving the proposed content would change, and which test cases
+   * would pick the change up, without saving anything
+   */
+  static async previewSharedStepChange(
+    sharedStepId: string,
+    proposed: Pick<SharedStep, 'title' | 'steps'> & Partial<Pick<SharedStep, 'description' | 'tags'>>
+  ): Promise<SharedStepChangePreview | null> {
+    const current = await this.loadSharedStep(sharedStepId)
+    if (!current) {
+      return null
+    }
+
+    const diff = diffSharedSteps(current, { ...proposed, tags: proposed.tags || [] })
+    return {
+      current,
+      diff,
+      nextVersion: diff.hasChanges ? current.version + 1 : current.version,
+      usage: await this.getSharedStepUsage(sharedStepId)
+    }
+  }
+
+  /**
+   * Shared steps still referenced by a test case, pinned or not, can't be
+   * deleted. The version history is kept.
+   */
+  static async deleteSharedStep(sharedStepId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const usage = await this.getSharedStepUsage(sharedStepId)
+    const usedBy = usage.latest.length + usage.pinned.length
+    if (usedBy > 0) {
+      throw new FileSystemError(
+        `Shared step ${sharedStepId} is used by ${usedBy} test case${usedBy === 1 ? '' : 's'}`,
+        'sharedStepInUse'
+      )
+    }
+
+    const deleted = await this.getStorage().deleteSharedStep(sharedStepId)
+    if (deleted) {
+      await this.recordChange(`Delete shared step ${sharedStepId}`, options.author)
+    }
+    return deleted
+  }
+
+  // Custom Field Operations
+  static async getCustomFields(entityType?: CustomFieldEntityType): Promise<CustomFieldDefinition[]> {
+    const definitions = await this.getStorage().listCustomFields()
+    const sorted = definitions.sort((a, b) => a.label.localeCompare(b.label))
+    return entityType ? getFieldsFor(sorted, entityType) : sorted
+  }
+
+  static async saveCustomField(input: CustomFieldInput, options: ChangeOptions = {}): Promise<CustomFieldDefinition> {
+    const storage = this.getStorage()
+    const existing = (await storage.listCustomFields()).find(definition => definition.id === input.id)
+
+    const now = new Date().toISOString()
+    const definition: CustomFieldDefinition = {
+      id: input.id,
+      label: input.label,
+      type: input.type,
+      entityTypes: input.entityTypes,
+      ...(input.options ? { options: input.options } : {}),
+      ...(input.description ? { description: input.description } : {}),
+      createdAt: existing?.createdAt || input.createdAt || now,
+      updatedAt: now
+    }
+    assertValid('custom field', validateCustomFieldDefinition(definition))
+
+    await storage.saveCustomField(definition)
+    await this.recordChange(`Save custom field ${definition.id}`, options.author)
+    return definition
+  }
+
+  // Values already stored for the field are kept
+  static async deleteCustomField(fieldId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const deleted = await this.getStorage().deleteCustomField(fieldId)
+    if (deleted) {
+      await this.recordChange(`Delete custom field ${fieldId}`, options.author)
+    }
+    return deleted
+  }
+
+  private static async checkCustomFields(
+    values: CustomFieldValues | undefined,
+    entityType: CustomFieldEntityType
+  ): Promise<SchemaIssue[]> {
+    if (!values || Object.keys(values).length === 0) return []
+    return checkCustomFieldValues(values, await this.getStorage().listCustomFields(), entityType)
+  }
+
+  // Test Suite Operations
+
+  // Every suite, parents before their children
+  static async getSuites(): Promise<TestSuite[]> {
+    const suites = await this.getStorage().listSuites()
+    return flattenSuiteTree(buildSuiteTree(suites)).map(node => node.suite)
+  }
+
+  static async getSuiteTree(): Promise<SuiteNode[]> {
+    const suites = await this.getStorage().listSuites()
+    return buildSuiteTree(suites, await this.getAllTestCases())
+  }
+
+  static async loadSuite(suiteId: string): Promise<TestSuite | null> {
+    const suites = await this.getStorage().listSuites()
+    return suites.find(suite => suite.id === suiteId) || null
+  }
+
+  /**
+   * Create a suite at the end of its parent's suites, or rename or
+   * describe an existing one. moveSuite changes where a suite sits.
+   */
+  static async saveSuite(input: TestSuiteInput, options: ChangeOptions = {}): Promise<TestSuite> {
+    const storage = this.getStorage()
+    const suites = await storage.listSuites()
+    const existing = suites.find(suite => suite.id === input.id)
+
+    const parentId = existing ? existing.parentId : input.parentId || undefined
+    if (!existing) {
+      assertValid('test suite', await this.checkSuiteReferences(parentId ? [parentId] : [], 'parentId'))
+    }
+
+    const now = new Date().toISOString()
+    const suite: TestSuite = {
+      id: input.id,
+      name: input.name,
+      ...(input.description ? { description: input.description } : {}),
+      ...(parentId ? { parentId } : {}),
+      position: existing ? existing.position : getSiblingSuites(suites, parentId).length,
+      createdAt: existing?.createdAt || input.createdAt || now,
+      updatedAt: now
+    }
+    assertValid('test suite', validateTestSuite(suite))
+
+    await storage.saveSuite(suite)
+    await this.recordChange(`Save test suite ${suite.id}`, options.author)
+    return suite
+  }
+
+  /**
+   * Move a suite, with everything in it, under another parent (undefined
+   * for the top level) at a position among its new siblings, the end by
+   * default. Siblings are renumbered so positions stay 0..n-1.
+   */
+  static async moveSuite(
+    suiteId: string,
+    parentId: string | undefined,
+    position?: number,
+    options: ChangeOptions = {}
+  ): Promise<TestSuite | null> {
+    const storage = this.getStorage()
+    const suites = await storage.listSuites()
+    const suite = suites.find(candidate => candidate.id === suiteId)
+    if (!suite) {
+      return null
+    }
+
+    assertValid('test suite', await this.checkSuiteReferences(parentId ? [parentId] : [], 'parentId'))
+    if (parentId && isWithinSuite(suites, parentId, suiteId)) {
+      throw new SchemaValidationError('test suite', [
+        { path: 'parentId', message: 'must not be the suite or a suite nested in it', repairable: false }
+      ])
+    }
+
+    const now = new Date().toISOString()
+    const moved: TestSuite = { ...suite, parentId, updatedAt: now }
+    if (!parentId) delete moved.parentId
+    const previousParentId = suites.some(candidate => candidate.id === suite.parentId) ? suite.parentId : undefined
+
+    const siblings = getSiblingSuites(suites, parentId).filter(sibling => sibling.id !== suiteId)
+    const index = position === undefined ? siblings.length : Math.max(0, Math.min(position, siblings.length))
+    siblings.splice(index, 0, moved)
+
+    // Close the gap the suite leaves among its previous siblings
+    const renumbered = new Map<string, TestSuite>()
+    const renumber = (ordered: TestSuite[]) => ordered.forEach((sibling, i) => {
+      if (sibling === moved || sibling.position !== i) {
+        renumbered.set(sibling.id, { ...sibling, position: i, updatedAt: now })
+      }
+    })
+    if (previousParentId !== parentId) {
+      renumber(getSiblingSuites(suites, previousParentId).filter(sibling => sibling.id !== suiteId))
+    }
+    renumber(siblings)
+    const saved = renumbered.get(suiteId)
+    if (!saved) {
+      throw new FileSystemError(`Test suite ${suiteId} was not placed among its new siblings`, 'moveSuite')
+    }
+
+    for (const changed of renumbered.values()) {
+      await storage.saveSuite(changed)
+    }
+    await this.recordChange(`Move test suite ${suiteId}`, options.author)
+
+    return saved
+  }
+
+  /**
+   * Only empty suites can be deleted: without nested suites or test cases
+   * and not part of a test plan.
+   */
+  static async deleteSuite(suiteId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const suites = await this.getStorage().listSuites()
+    const testCases = await this.getAllTestCases()
+    const testPlans = await this.getAllTestPlans()
+
+    const contents: Array<[number, string]> = [
+      [suites.filter(suite => suite.parentId === suiteId).length, 'nested suite'],
+      [testCases.filter(testCase => testCase.suiteId === suiteId).length, 'test case'],
+      [testPlans.filter(plan => plan.suites?.includes(suiteId)).length, 'test plan']
+    ]
+    const inUse = contents
+      .filter(([count]) => count > 0)
+      .map(([count, noun]) => `${count} ${noun}${count === 1 ? '' : 's'}`)
+    if (inUse.length > 0) {
+      throw new FileSystemError(`Test suite ${suiteId} is not empty: ${inUse.join(', ')}`, 'suiteNotEmpty')
+    }
+
+    const deleted = await this.getStorage().deleteSuite(suiteId)
+    if (deleted) {
+      await this.recordChange(`Delete test suite ${suiteId}`, options.author)
+    }
+    return deleted
+  }
+
+  // File test cases in a suite, or take them out of their suite without one
+  static async moveTestCasesToSuite(
+    testCaseIds: string[],
+    suiteId: string | undefined,
+    options: ChangeOptions = {}
+  ): Promise<TestCase[]> {
+    const suite = suiteId ? await this.loadSuite(suiteId) : null
+    if (suiteId && !suite) {
+      throw new SchemaValidationError('test case', [{ path: 'suiteId', message: `is not a test suite: ${suiteId}`, repairable: false }])
+    }
+
+    const moved: TestCase[] = []
+    for (const testCaseId of testCaseIds) {
+      const testCase = await this.loadTestCase(testCaseId)
+      if (!testCase) continue
+
+      if (testCase.suiteId !== suiteId) {
+        const updated: TestCase = { ...testCase, suiteId, updatedAt: new Date().toISOString() }
+        if (!suiteId) delete updated.suiteId
+        await this.saveTestCase(updated, {
+          author: options.author,
+          summary: suite ? `Moved to suite ${suite.name}` : 'Removed from its suite'
+        })
+        moved.push(updated)
+      } else {
+        moved.push(testCase)
+      }
+    }
+    return moved
+  }
+
+  /**
+   * The test cases the plan runs, including those of its suites and those
+   * matching its query as they are now. Unapproved test cases are left out
+   * when approvedOnly is set, which defaults to the plan's own setting.
+   */
+  static async getTestPlanTestCaseIds(
+    testPlan: Pick<TestPlan, 'testCases' | 'suites' | 'query' | 'approvedOnly' | 'dependencies'>,
+    approvedOnly = Boolean(testPlan.approvedOnly)
+  ): Promise<string[]> {
+    // In the order they run in, prerequisites first
+    return orderTestCases(await this.resolveTestPlanTestCaseIds(testPlan, approvedOnly), testPlan.dependencies)
+  }
+
+  private static async resolveTestPlanTestCaseIds(
+    testPlan: Pick<TestPlan, 'testCases' | 'suites' | 'query' | 'approvedOnly'>,
+    approvedOnly: boolean
+  ): Promise<string[]> {
+    const hasSuites = Boolean(testPlan.suites && testPlan.suites.length > 0)
+    if (!hasSuites && !testPlan.query && !approvedOnly) {
+      return testPlan.testCases
+    }
+
+    const testCases = await this.getAllTestCases()
+    let testCaseIds = hasSuites
+      ? resolvePlanTestCaseIds(testPlan, await this.getStorage().listSuites(), testCases)
+      : testPlan.testCases
+    if (testPlan.query) {
+      const matches = await this.searchTestCases(testPlan.query)
+      testCaseIds = [...new Set([...testCaseIds, ...matches.map(testCase => testCase.id)])]
+    }
+    if (!approvedOnly) {
+      return testCaseIds
+    }
+
+    const approved = new Set(testCases.filter(isApproved).map(testCase => testCase.id))
+    return testCaseIds.filter(testCaseId => approved.has(testCaseId))
+  }
+
+  // The test cases the plan resolves to now, to keep on a run starting from it
+  static async snapshotTestPlan(testPlan: TestPlan, approvedOnly?: boolean): Promise<TestPlanSnapshot> {
+    const snapshot: TestPlanSnapshot = {
+      testCaseIds: await this.getTestPlanTestCaseIds(testPlan, approvedOnly),
+      resolvedAt: new Date().toISOString()
+    }
+    if (testPlan.query) snapshot.query = testPlan.query
+    return snapshot
+  }
+
+  /**
+   * A test run about to be saved with its plan snapshot resolved here rather
+   * than taken from the client: the stored run keeps the snapshot it was
+   * created with, and a new run gets the one its plan resolves to now.
+   */
+  static async withPlanSnapshot(
+    testRun: Record<string, unknown>,
+    approvedOnly?: boolean
+  ): Promise<Record<string, unknown>> {
+    const resolved = { ...testRun }
+    delete resolved.planSnapshot
+
+    const existing = typeof testRun.id === 'string' ? await this.loadTestRun(testRun.id) : null
+    if (existing) {
+      if (existing.planSnapshot) resolved.planSnapshot = existing.planSnapshot
+      return resolved
+    }
+
+    const testPlan = typeof testRun.testPlanId === 'string' ? await this.loadTestPlan(testRun.testPlanId) : null
+    if (testPlan) resolved.planSnapshot = await this.snapshotTestPlan(testPlan, approvedOnly)
+    return resolved
+  }
+
+  private static checkPlanQuery(query: string | undefined): SchemaIssue[] {
+    if (!query) return []
+
+    try {
+      parseTestCaseQuery(query)
+      return []
+    } catch (error) {
+      if (!(error instanceof TestCaseQueryError)) throw error
+      return [{ path: 'query', message: error.message, repairable: false }]
+    }
+  }
+
+  private static async checkSuiteReferences(suiteIds: string[], path: string): Promise<SchemaIssue[]> {
+    if (suiteIds.length === 0) return []
+
+    const known = new Set((await this.getStorage().listSuites()).map(suite => suite.id))
+    return suiteIds
+      .filter(suiteId => !known.has(suiteId))
+      .map(suiteId => ({ path, message: `is not a test suite: ${suiteId}`, repairable: false }))
+  }
+
+  // Requirement Operations
+  static async getRequirements(): Promise<Requirement[]> {
+    const requirements = await this.getStorage().listRequirements()
+    return requirements.sort((a, b) => compareRequirementIds(a.id, b.id))
+  }
+
+  static async loadRequirement(requirementId: string): Promise<Requirement | null> {
+    const requirements = await this.getStorage().listRequirements()
+    return requirements.find(requirement => requirement.id === requirementId) || null
+  }
+
+  // Create or update a requirement; the covering test cases are kept unless given
+  static async saveRequirement(input: RequirementInput, options: ChangeOptions = {}): Promise<Requirement> {
+    const existing = await this.loadRequirement(input.id)
+
+    const now = new Date().toISOString()
+    const requirement: Requirement = {
+      id: input.id,
+      title: input.title,
+      ...(input.description ? { description: input.description } : {}),
+      ...(input.source ? { source: input.source } : {}),
+      acceptanceCriteria: input.acceptanceCriteria || [],
+      ...(input.githubIssue || existing?.githubIssue ? { githubIssue: input.githubIssue || existing?.githubIssue } : {}),
+      testCases: [...new Set(input.testCases || existing?.testCases || [])],
+      createdAt: existing?.createdAt || input.createdAt || now,
+      updatedAt: now,
+      createdBy: existing?.createdBy || input.createdBy || options.author || 'Unknown User'
+    }
+    assertValid('requirement', validateRequirement(requirement))
+
+    await this.getStorage().saveRequirement(requirement)
+    this.invalidateSearchIndex()
+    await this.recordChange(`Save requirement ${requirement.id}`, options.author)
+    return requirement
+  }
+
+  static async deleteRequirement(requirementId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const deleted = await this.getStorage().deleteRequirement(requirementId)
+    if (deleted) {
+      this.invalidateSearchIndex()
+      await this.recordChange(`Delete requirement ${requirementId}`, options.author)
+    }
+    return deleted
+  }
+
+  // Add test cases to the ones covering a requirement, or remove them with unlink
+  static async linkRequirementTestCases(
+    requirementId: string,
+    testCaseIds: string[],
+    options: ChangeOptions & { unlink?: boolean } = {}
+  ): Promise<Requirement | null> {
+    const requirement = await this.loadRequirement(requirementId)
+    if (!requirement) {
+      return null
+    }
+
+    let testCases: string[]
+    if (options.unlink) {
+      testCases = requirement.testCases.filter(testCaseId => !testCaseIds.includes(testCaseId))
+    } else {
+      const known = new Set((await this.getAllTestCases()).map(testCase => testCase.id))
+      assertValid('requirement', testCaseIds
+        .filter(testCaseId => !known.has(testCaseId))
+        .map(testCaseId => ({ path: 'testCases', message: `is not a test case: ${testCaseId}`, repairable: false })))
+      testCases = [...requirement.testCases, ...testCaseIds]
+    }
+
+    return this.saveRequirement({ ...requirement, testCases }, { author: options.author })
+  }
+
+  static async getTestCaseRequirements(testCaseId: string): Promise<Requirement[]> {
+    const requirements = await this.getRequirements()
+    return requirements.filter(requirement => requirement.testCases.includes(testCaseId))
+  }
+
+  /**
+   * Create or update a requirement per GitHub issue of the repository
+   * (owner/repo). Test cases generated from an issue are linked to its
+   * requirement.
+   */
+  static async importGitHubRequirements(
+    issues: GitHubIssue[],
+    repository: string,
+    options: ChangeOptions = {}
+  ): Promise<RequirementImportResult> {
+    const storage = this.getStorage()
+    const requirements = await storage.listRequirements()
+    const testCases = await this.getAllTestCases()
+    const result: RequirementImportResult = { created: [], updated: [] }
+
+    for (const issue of issues) {
+      const existing = requirements.find(requirement =>
+        requirement.githubIssue?.repository === repository && requirement.githubIssue.number === issue.number
+      )
+      const requirement = requirementFromIssue(issue, repository, options.author || 'Unknown User', existing)
+      const generated = testCases
+        .filter(testCase => testCase.githubIssue?.repository === repository && testCase.githubIssue.number === issue.number)
+        .map(testCase => testCase.id)
+      requirement.testCases = [...new Set([...requirement.testCases, ...generated])]
+
+      assertValid('requirement', validateRequirement(requirement))
+      await storage.saveRequirement(requirement)
+      ;(existing ? result.updated : result.created).push(requirement)
+    }
+
+    if (issues.length > 0) {
+      this.invalidateSearchIndex()
+      await this.recordChange(`Import ${issues.length} requirements from ${repository}`, options.author)
+    }
+    return result
+  }
+
+  // Every requirement with its covering test cases and their latest results
+  static async getTraceabilityMatrix(): Promise<TraceabilityMatrix> {
+    const requirements = await this.getStorage().listRequirements()
+    const testCases = await this.getAllTestCases()
+    const testRuns = await this.getAllTestRuns()
+    return buildTraceabilityMatrix(requirements, testCases, getLatestResults(testRuns))
+  }
+
+  // Test Plan Operations
+  static async saveTestPlan(testPlan: TestPlan, options: ChangeOptions = {}): Promise<void> {
+    assertValid('test plan', validateTestPlan(testPlan))
+    assertValid('test plan', await this.checkCustomFields(testPlan.customFields, 'testPlan'))
+    assertValid('test plan', await this.checkSuiteReferences(testPlan.suites || [], 'suites'))
+    assertValid('test plan', this.checkPlanQuery(testPlan.query))
+    await this.getStorage().saveTestPlan(testPlan)
+    await this.recordChange(`Save test plan ${testPlan.id}`, options.author || testPlan.createdBy)
+  }
+
+  static async loadTestPlan(testPlanId: string): Promise<TestPlan | null> {
+    return this.getStorage().loadTestPlan(testPlanId)
+  }
+
+  static async getAllTestPlans(): Promise<TestPlan[]> {
+    const testPlans = await this.getStorage().listTestPlans()
+    return testPlans.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+  }
+
+  static async deleteTestPlan(testPlanId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const deleted = await this.getStorage().deleteTestPlan(testPlanId)
+    if (deleted) {
+      await this.recordChange(`Delete test plan ${testPlanId}`, options.author)
+    }
+    return deleted
+  }
+
+  // Test Run Operations
+
+  /**
+   * The single write path for test runs. Accepts the canonical TestRun or a
+   * legacy document, normalizes statuses, derives each result's status from
+   * its step results and pins results to the test case revision they ran against.
+   * Unknown statuses and unreadable results or steps are rejected, not coerced.
+   * The change is committed as options.author, falling back to the run's tester.
+   */
+  static async saveTestRun(testRun: TestRun | Record<string, unknown>, options: ChangeOptions = {}): Promise<TestRun> {
+    assertValid('test run', validateTestRunEntries(testRun))
+    const normalized = normalizeTestRun(testRun)
+    if (!normalized) {
+      throw new SchemaValidationError('test run', validateTestRun(testRun))
+    }
+
+    const correctedTestRun: TestRun = {
+      ...normalized,
+      updatedAt: new Date().toISOString(),
+      results: normalized.results.map(result => ({
+        ...result,
+        ...(result.iterations ? {
+          iterations: result.iterations.map(iteration => ({ ...iteration, status: getTestResultStatus(iteration) }))
+        } : {}),
+        status: getTestResultStatus(result)
+      }))
+    }
+
+    // Pin each result to the test case revision it was executed against
+    const latestRevisions = new Map<string, number | undefined>()
+    for (const result of correctedTestRun.results) {
+      if (result.testCaseRevision !== undefined) continue
+
+      if (!latestRevisions.has(result.testCaseId)) {
+        const revisions = await this.getTestCaseRevisions(result.testCaseId)
+        latestRevisions.set(result.testCaseId, revisions[revisions.length - 1]?.revision)
+      }
+      result.testCaseRevision = latestRevisions.get(result.testCaseId)
+    }
+
+    assertValid('test run', validateTestRun(correctedTestRun))
+    assertValid('test run', await this.checkCustomFields(correctedTestRun.customFields, 'testRun'))
+    await this.getStorage().saveTestRun(correctedTestRun)
+    await this.recordChange(`Save test run ${correctedTestRun.id}`, options.author || correctedTestRun.executedBy)
+    return correctedTestRun
+  }
+
+  static async loadTestRun(testRunId: string): Promise<TestRun | null> {
+    return this.getStorage().loadTestRun(testRunId)
+  }
+
+  static async getAllTestRuns(): Promise<TestRun[]> {
+    const testRuns = await this.getStorage().listTestRuns()
+    return testRuns.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+  }
+
+  /**
+   * Add or replace the result of one test case in a run. A result recorded
+   * without steps for a parameterized test case is expanded into one
+   * iteration per data row. The dependencies of the run's plan decide which
+   * test cases the result blocks or unblocks.
+   */
+  static async recordTestResult(
+    testRunId: string,
+    result: Partial<TestResult> & Pick<TestResult, 'testCaseId'>,
+    options: ChangeOptions = {}
+  ): Promise<{ testRun: TestRun; result: TestResult } | null> {
+    const testRun = await this.loadTestRun(testRunId)
+    if (!testRun) {
+      return null
+    }
+
+    let iterations = result.iterations
+    if (!iterations && !result.steps?.length) {
+      const testCase = await this.loadExpandedTestCase(result.testCaseId)
+      if (testCase && isParameterized(testCase)) {
+        iterations = createIterationResults(testCase)
+      }
+    }
+
+    const recorded: TestResult = {
+      steps: [],
+      ...result,
+      ...(iterations ? { iterations } : {}),
+      status: normalizeResultStatus(result.status),
+      executedAt: result.executedAt || new Date().toISOString()
+    }
+    // Runs with configurations have a result per test case in each
+    const index = testRun.results.findIndex(r => isSameSlot(r, result.testCaseId, result.configuration))
+    let results = index === -1
+      ? [...testRun.results, recorded]
+      : testRun.results.map((r, i) => i === index ? recorded : r)
+
+    // Test cases depending on one that failed are blocked, and unblocked once it passes
+    const testPlan = await this.loadTestPlan(testRun.testPlanId)
+    if (testPlan?.dependencies) {
+      results = applyDependencyBlocking(getRunTestCaseIds(testRun), results, testPlan.dependencies, recorded.executedAt)
+    }
+
+    const saved = await this.saveTestRun({
+      ...testRun,
+      status: testRun.status === 'not_started' ? 'in_progress' : testRun.status,
+      results
+    }, options)
+
+    const savedResult = saved.results.find(r => isSameSlot(r, result.testCaseId, result.configuration))
+    if (!savedResult) {
+      throw new FileSystemError(`Result for test case ${result.testCaseId} was not saved on test run ${testRunId}`, 'recordTestResult')
+    }
+    return { testRun: saved, result: savedResult }
   }
-}
 
-export class FileUtils {
-  private static testCasesDir = path.join(process.cwd(), 'testcases')
-  private static testPlansDir = path.join(process.cwd(), 'testplans')
-  private static resultsDir = path.join(process.cwd(), 'results')
+  static async completeTestRun(testRunId: string, options: ChangeOptions = {}): Promise<TestRun | null> {
+    const testRun = await this.loadTestRun(testRunId)
+    if (!testRun) {
+      return null
+    }
 
-  // Ensure directories exist
-  static async ensureDirectories(): Promise<void> {
-    try {
-      await Promise.all([
-        fs.mkdir(this.testCasesDir, { recursive: true }),
-        fs.mkdir(this.testPlansDir, { recursive: true }),
-        fs.mkdir(this.resultsDir, { recursive: true })
-      ])
-    } catch (error) {
-      throw new FileSystemError('Failed to create directories', 'ensureDirectories')
+    return this.saveTestRun({
+      ...testRun,
+      status: 'completed',
+      completedAt: testRun.completedAt || new Date().toISOString()
+    }, options)
+  }
+
+  /**
+   * The latest status of each test case of a plan in each configuration of
+   * its matrix, across the plan's runs. Null if the plan doesn't exist.
+   */
+  static async getConfigurationMatrix(testPlanId: string): Promise<ConfigurationMatrix | null> {
+    const testPlan = await this.loadTestPlan(testPlanId)
+    if (!testPlan) {
+      return null
     }
+
+    const [testCaseIds, testRuns] = await Promise.all([this.getTestPlanTestCaseIds(testPlan), this.getAllTestRuns()])
+    return buildConfigurationMatrix(
+      testCaseIds,
+      expandConfigurations(testPlan.configurationMatrix || []),
+      testRuns.filter(run => run.testPlanId === testPlanId)
+    )
   }
 
-  // Test Case Operations
-  static async saveTestCase(testCase: TestCase): Promise<void> {
-    await this.ensureDirectories()
-    
-    const filename = `${testCase.id}.md`
-    const filePath = path.join(this.testCasesDir, filename)
-    
-    try {
-      // Clean the test case object to avoid undefined values that break gray-matter
-      const frontmatter = {
-        id: testCase.id || '',
-        title: testCase.title || '',
-        description: testCase.description || '',
-        preconditions: testCase.preconditions || '',
-        expectedResult: testCase.expectedResult || '',
-        priority: testCase.priority || 'medium',
-        tags: testCase.tags || [],
-        githubIssue: testCase.githubIssue || null,
-        createdAt: testCase.createdAt || new Date().toISOString(),
-        updatedAt: testCase.updatedAt || new Date().toISOString(),
-        createdBy: testCase.createdBy || 'unknown'
+  // Run Assignments
+
+  /**
+   * Change who the test cases of a run are assigned to, one by one, round
+   * robin or by tag. Only test cases that are part of the run can be
+   * assigned. Null if the run doesn't exist.
+   */
+  static async assignTestRun(testRunId: string, request: AssignmentRequest, options: ChangeOptions = {}): Promise<TestRun | null> {
+    const testRun = await this.loadTestRun(testRunId)
+    if (!testRun) {
+      return null
+    }
+
+    const testCaseIds = getRunTestCaseIds(testRun)
+    const assignees: Record<string, string> = { ...testRun.assignees }
+    let changes: Record<string, string | null>
+
+    if ('roundRobin' in request) {
+      const { testCaseIds: selected = testCaseIds, onlyUnassigned = false } = request.roundRobin
+      const testers = (request.roundRobin.assignees || []).map(assignee => assignee.trim()).filter(Boolean)
+      if (testers.length === 0) {
+        throw new SchemaValidationError('test run', [{ path: 'roundRobin.assignees', message: 'must list at least one tester', repairable: false }])
       }
+      changes = assignRoundRobin(selected.filter(testCaseId => !onlyUnassigned || !assignees[testCaseId]), testers)
+    } else if ('byTag' in request) {
+      const testCases = (await this.getAllTestCases()).filter(testCase => testCaseIds.includes(testCase.id))
+      changes = assignByTag(testCases, request.byTag.map(rule => ({ tag: rule.tag, assignee: rule.assignee.trim() })))
+    } else {
+      changes = request.assignments
+    }
 
-      // Create markdown content with test steps
-      let markdownContent = `# ${frontmatter.title}\n\n`
-      markdownContent += `${frontmatter.description}\n\n`
-      
-      if (frontmatter.preconditions) {
-        markdownContent += `## Preconditions\n\n${frontmatter.preconditions}\n\n`
+    const unknown = Object.keys(changes).filter(testCaseId => !testCaseIds.includes(testCaseId))
+    assertValid('test run', unknown.map(testCaseId => ({
+      path: 'assignees',
+      message: `is not a test case of the run: ${testCaseId}`,
+      repairable: false
+    })))
+
+    Object.entries(changes).forEach(([testCaseId, assignee]) => {
+      if (assignee === null) {
+        delete assignees[testCaseId]
+      } else {
+        assignees[testCaseId] = assignee.trim()
       }
-      
-      markdownContent += `## Test Steps\n\n`
-      
-      // Ensure steps exist and are properly formatted
-      const steps = testCase.steps || []
-      steps.forEach((step, index) => {
-        markdownContent += `### Step ${index + 1}\n\n`
-        markdownContent += `**Action:** ${step.action || 'No action specified'}\n\n`
-        markdownContent += `**Expected Result:** ${step.expectedResult || 'No expected result specified'}\n\n`
-      })
-      
-      markdownContent += `## Expected Final Result\n\n${frontmatter.expectedResult}\n`
-      
-      const fileContent = matter.stringify(markdownContent, frontmatter)
-      await fs.writeFile(filePath, fileContent, 'utf-8')
-    } catch (error) {
-      throw new FileSystemError(
-        `Failed to save test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'saveTestCase',
-        filePath
-      )
+    })
+
+    return this.saveTestRun({ ...testRun, assignees }, options)
+  }
+
+  // The test cases assigned to a tester in the runs that are still open
+  static async getAssignedTests(assignee: string): Promise<AssignedTest[]> {
+    return getAssignedTests(await this.getAllTestRuns(), assignee)
+  }
+
+  /**
+   * Progress per tester in a run, or across the open runs that have
+   * assignments. Null if the run doesn't exist.
+   */
+  static async getAssigneeWorkload(testRunId?: string): Promise<AssigneeWorkload[] | null> {
+    if (testRunId) {
+      const testRun = await this.loadTestRun(testRunId)
+      return testRun ? getWorkload([testRun]) : null
     }
+
+    const testRuns = await this.getAllTestRuns()
+    return getWorkload(testRuns.filter(testRun => isOpenRun(testRun) && testRun.assignees))
   }
 
-  static async loadTestCase(testCaseId: string): Promise<TestCase | null> {
-    const filename = `${testCaseId}.md`
-    const filePath = path.join(this.testCasesDir, filename)
-    
-    try {
-      const fileContent = await fs.readFile(filePath, 'utf-8')
-      const { data, content } = matter(fileContent)
-      
-      // Validate that required fields exist in frontmatter
-      if (!data.id || !data.title) {
-        throw new Error('Invalid test case format: missing required frontmatter fields')
-      }
-      
-      // Parse steps from markdown content
-      const steps = this.parseStepsFromMarkdown(content)
-      
-      // Reconstruct the TestCase object
-      const testCase: TestCase = {
-        id: data.id,
-        title: data.title,
-        description: data.description || '',
-        preconditions: data.preconditions,
-        steps: steps,
-        expectedResult: data.expectedResult || '',
-        priority: data.priority || 'medium',
-        tags: data.tags || [],
-        githubIssue: data.githubIssue,
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt,
-        createdBy: data.createdBy
-      }
-      
-      return testCase
-    } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        return null // File doesn't exist
-      }
-      throw new FileSystemError(
-        `Failed to load test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'loadTestCase',
-        filePath
-      )
+  // Automated Test Results
+
+  /**
+   * Record a JUnit XML report as a completed run, with a result for every
+   * test case linked to a test in the report. The tests no test case is
+   * linked to are kept on the run as unmappedTests.
+   */
+  static async importJUnitReport(
+    xml: string,
+    options: ChangeOptions & { executedBy: string; name?: string; testPlanId?: string }
+  ): Promise<TestRun> {
+    const report = parseJUnitReport(xml)
+    if (options.testPlanId && !await this.loadTestPlan(options.testPlanId)) {
+      throw new SchemaValidationError('test run', [
+        { path: 'testPlanId', message: `is not a test plan: ${options.testPlanId}`, repairable: false }
+      ])
     }
+
+    const now = new Date().toISOString()
+    const startedAt = report.timestamp || now
+    const { results, unmapped } = mapAutomatedTests(report.tests, await this.getAllTestCases(), startedAt)
+
+    return this.saveTestRun({
+      id: randomUUID(),
+      testPlanId: options.testPlanId || AUTOMATED_RUN_PLAN_ID,
+      name: options.name || `Automated tests - ${startedAt.slice(0, 10)}`,
+      startedAt,
+      completedAt: now,
+      status: 'completed',
+      executedBy: options.executedBy,
+      source: 'automated',
+      unmappedTests: unmapped,
+      results
+    }, { author: options.author })
   }
 
-  // Helper method to parse steps from markdown content
-  private static parseStepsFromMarkdown(content: string): any[] {
-    const steps: any[] = []
-    
-    try {
-      // Look for test steps section
-      const stepSectionMatch = content.match(/## Test Steps([\s\S]*?)(?=## Expected Final Result|$)/)
-      if (!stepSectionMatch) {
-        return steps
-      }
-      
-      const stepContent = stepSectionMatch[1]
-      
-      // Use a more flexible regex pattern
-      const stepBlocks = stepContent.split(/(?=### Step \d+)/).filter(block => block.trim())
-      
-      for (let i = 0; i < stepBlocks.length; i++) {
-        const block = stepBlocks[i]
-        
-        // Extract step number
-        const stepNumMatch = block.match(/### Step (\d+)/)
-        if (!stepNumMatch) continue
-        
-        const stepNumber = parseInt(stepNumMatch[1], 10)
-        
-        // Extract action - look for content after **Action:** until **Expected Result:**
-        const actionMatch = block.match(/\*\*Action:\*\*\s*([^*]+?)(?=\*\*Expected Result:\*\*)/s)
-        const expectedMatch = block.match(/\*\*Expected Result:\*\*\s*([^*]+?)(?=###|$)/s)
-        
-        if (actionMatch && expectedMatch) {
-          steps.push({
-            id: `step-${stepNumber}`,
-            stepNumber: stepNumber,
-            action: actionMatch[1].trim(),
-            expectedResult: expectedMatch[1].trim()
-          })
-        }
-      }
-      
-      return steps
-      
-    } catch (error) {
-      console.error('Error parsing steps:', error)
-      return steps
+  // Automated tests of imported runs that no test case is linked to yet
+  static async getUnmappedAutomatedTests(): Promise<UnmappedAutomatedTest[]> {
+    const testRuns = (await this.getAllTestRuns()).filter(run => run.source === 'automated')
+    return getUnmappedTests(testRuns, await this.getAllTestCases())
+  }
+
+  // Replace the automated tests linked to a test case; null if it doesn't exist
+  static async setAutomatedTests(testCaseId: string, testIds: string[], author: string): Promise<TestCase | null> {
+    const testCase = await this.loadTestCase(testCaseId)
+    if (!testCase) {
+      return null
     }
+
+    const automatedTests = [...new Set(testIds.map(testId => testId.trim()).filter(Boolean))]
+    const updated: TestCase = { ...testCase, automatedTests, updatedAt: new Date().toISOString() }
+    if (automatedTests.length === 0) delete updated.automatedTests
+
+    await this.saveTestCase(updated, { author, summary: 'Linked automated tests' })
+    return updated
   }
 
-  static async getAllTestCases(): Promise<TestCase[]> {
-    await this.ensureDirectories()
-    
-    try {
-      const files = await fs.readdir(this.testCasesDir)
-      const testCaseFiles = files.filter(file => file.endsWith('.md'))
-      
-      const testCases: TestCase[] = []
-      
-      for (const file of testCaseFiles) {
-        try {
-          const testCaseId = path.basename(file, '.md')
-          const testCase = await this.loadTestCase(testCaseId)
-          if (testCase) {
-            testCases.push(testCase)
-          }
-        } catch (error) {
-          console.error(`Error loading test case ${file}:`, error)
-          // Continue with other files
-        }
-      }
-      
-      return testCases.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-    } catch (error) {
-      throw new FileSystemError(
-        `Failed to load test cases: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'getAllTestCases'
-      )
+  // Releases
+
+  // Releases by target date, undated ones last
+  static async getReleases(): Promise<Release[]> {
+    const releases = await this.getStorage().listReleases()
+    return releases.sort((a, b) =>
+      (a.targetDate || '9999').localeCompare(b.targetDate || '9999') || a.name.localeCompare(b.name)
+    )
+  }
+
+  static async loadRelease(releaseId: string): Promise<Release | null> {
+    const releases = await this.getStorage().listReleases()
+    return releases.find(release => release.id === releaseId) || null
+  }
+
+  /**
+   * Create or update a release; fields left out are kept. Plans and runs it
+   * adds must exist, while those already linked may have been trashed since
+   * and stay linked, so saving doesn't fail on them.
+   */
+  static async saveRelease(input: ReleaseInput, options: ChangeOptions = {}): Promise<Release> {
+    const existing = await this.loadRelease(input.id)
+
+    const now = new Date().toISOString()
+    const release: Release = {
+      ...existing,
+      ...input,
+      kind: input.kind || existing?.kind || 'release',
+      status: input.status || existing?.status || 'planned',
+      testPlans: [...new Set(input.testPlans || existing?.testPlans || [])],
+      testRuns: [...new Set(input.testRuns || existing?.testRuns || [])],
+      exitCriteria: (input.exitCriteria || existing?.exitCriteria || []).map(criterion => ({ ...criterion, id: criterion.id || randomUUID() })),
+      createdAt: existing?.createdAt || input.createdAt || now,
+      updatedAt: now,
+      createdBy: existing?.createdBy || input.createdBy || options.author || 'Unknown User'
     }
+    assertValid('release', validateRelease(release))
+
+    const [testPlans, testRuns] = await Promise.all([this.getAllTestPlans(), this.getAllTestRuns()])
+    const knownPlans = new Set([...testPlans.map(plan => plan.id), ...(existing?.testPlans || [])])
+    const knownRuns = new Set([...testRuns.map(run => run.id), ...(existing?.testRuns || [])])
+    assertValid('release', [
+      ...release.testPlans
+        .filter(testPlanId => !knownPlans.has(testPlanId))
+        .map(testPlanId => ({ path: 'testPlans', message: `is not a test plan: ${testPlanId}`, repairable: false })),
+      ...release.testRuns
+        .filter(testRunId => !knownRuns.has(testRunId))
+        .map(testRunId => ({ path: 'testRuns', message: `is not a test run: ${testRunId}`, repairable: false }))
+    ])
+
+    await this.getStorage().saveRelease(release)
+    await this.recordChange(`Save release ${release.id}`, options.author)
+    return release
   }
 
-  static async deleteTestCase(testCaseId: string): Promise<boolean> {
-    const filename = `${testCaseId}.md`
-    const filePath = path.join(this.testCasesDir, filename)
-    
-    try {
-      await fs.unlink(filePath)
-      return true
-    } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        return false // File doesn't exist
-      }
-      throw new FileSystemError(
-        `Failed to delete test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'deleteTestCase',
-        filePath
-      )
+  static async deleteRelease(releaseId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const deleted = await this.getStorage().deleteRelease(releaseId)
+    if (deleted) {
+      await this.recordChange(`Delete release ${releaseId}`, options.author)
     }
+    return deleted
   }
 
-  // Test Plan Operations
-  static async saveTestPlan(testPlan: TestPlan): Promise<void> {
-    await this.ensureDirectories()
-    
-    const filename = `${testPlan.id}.json`
-    const filePath = path.join(this.testPlansDir, filename)
-    
-    try {
-      const jsonContent = JSON.stringify(testPlan, null, 2)
-      await fs.writeFile(filePath, jsonContent, 'utf-8')
-    } catch (error) {
-      throw new FileSystemError(
-        `Failed to save test plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'saveTestPlan',
-        filePath
-      )
+  /**
+   * Evaluate the exit criteria of a release against the current run data.
+   * The release is made up of the test cases its plans resolve to now and
+   * those in its runs. Null if the release doesn't exist.
+   */
+  static async getReleaseReport(releaseId: string): Promise<ReleaseReport | null> {
+    const release = await this.loadRelease(releaseId)
+    if (!release) {
+      return null
+    }
+
+    const [testPlans, allTestRuns, allTestCases] = await Promise.all([
+      this.getAllTestPlans(),
+      this.getAllTestRuns(),
+      this.getAllTestCases()
+    ])
+    const testRuns = getReleaseRuns(release, allTestRuns)
+
+    const testCaseIds = new Set(testRuns.flatMap(run => run.results.map(result => result.testCaseId)))
+    for (const plan of testPlans.filter(candidate => release.testPlans.includes(candidate.id))) {
+      (await this.getTestPlanTestCaseIds(plan)).forEach(testCaseId => testCaseIds.add(testCaseId))
+    }
+    const testCases = allTestCases.filter(testCase => testCaseIds.has(testCase.id))
+
+    return {
+      release,
+      readiness: evaluateRelease(release, testCases, testRuns),
+      history: getReadinessHistory(release, testCases, testRuns)
     }
   }
 
-  static async loadTestPlan(testPlanId: string): Promise<TestPlan | null> {
-    const filename = `${testPlanId}.json`
-    const filePath = path.join(this.testPlansDir, filename)
-    
-    try {
-      const fileContent = await fs.readFile(filePath, 'utf-8')
-      const testPlan = JSON.parse(fileContent) as TestPlan
-      
-      // Validate required fields
-      if (!testPlan.id || !testPlan.name || !Array.isArray(testPlan.testCases)) {
-        throw new Error('Invalid test plan format')
-      }
-      
-      return testPlan
-    } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        return null // File doesn't exist
+  // Where Used
+  // Plans that run the test case, through their suites and queries too, the requirements it covers and the runs with results for it
+  static async getTestCaseUsage(testCaseId: string): Promise<UsageReport> {
+    const [testPlans, testRuns, requirements] = await Promise.all([
+      this.getAllTestPlans(),
+      this.getAllTestRuns(),
+      this.getStorage().listRequirements()
+    ])
+
+    const usedBy: UsageReport['testPlans'] = []
+    for (const plan of testPlans) {
+      if ((await this.getTestPlanTestCaseIds(plan)).includes(testCaseId)) {
+        usedBy.push({ id: plan.id, name: plan.name })
       }
-      throw new FileSystemError(
-        `Failed to load test plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'loadTestPlan',
-        filePath
-      )
+    }
+
+    return {
+      testPlans: usedBy,
+      requirements: requirements
+        .filter(requirement => requirement.testCases.includes(testCaseId))
+        .map(requirement => ({ id: requirement.id, title: requirement.title })),
+      testRuns: testRuns
+        .filter(run => run.results.some(result => result.testCaseId === testCaseId))
+        .map(run => ({ id: run.id, name: run.name, startedAt: run.startedAt, status: run.status }))
     }
   }
 
-  static async getAllTestPlans(): Promise<TestPlan[]> {
-    await this.ensureDirectories()
-    
-    try {
-      const files = await fs.readdir(this.testPlansDir)
-      const testPlanFiles = files.filter(file => file.endsWith('.json'))
-      
-      const testPlans: TestPlan[] = []
-      
-      for (const file of testPlanFiles) {
-        try {
-          const testPlanId = path.basename(file, '.json')
-          const testPlan = await this.loadTestPlan(testPlanId)
-          if (testPlan) {
-            testPlans.push(testPlan)
+  static async getTestPlanUsage(testPlanId: string): Promise<UsageReport> {
+    const testRuns = await this.getAllTestRuns()
+
+    return {
+      testPlans: [],
+      requirements: [],
+      testRuns: testRuns
+        .filter(run => run.testPlanId === testPlanId)
+        .map(run => ({ id: run.id, name: run.name, startedAt: run.startedAt, status: run.status }))
+    }
+  }
+
+  // Trash
+  static getTrashRetentionDays(env: NodeJS.ProcessEnv = process.env): number {
+    const days = Number(env.QA_TRASH_RETENTION_DAYS)
+    return Number.isFinite(days) && days >= 0 && env.QA_TRASH_RETENTION_DAYS !== ''
+      ? days
+      : DEFAULT_TRASH_RETENTION_DAYS
+  }
+
+  // Entries past their retention period are left out; they are only
+  // removed for good by purgeExpiredTrash
+  static async getTrash(now: Date = new Date()): Promise<TrashEntry[]> {
+    const entries = (await this.getStorage().listTrash()).filter(entry => new Date(entry.expiresAt) > now)
+    return entries.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime())
+  }
+
+  /**
+   * Soft delete a test case. It is removed from every plan and requirement
+   * that referenced it, including plan dependencies, and those links are
+   * kept on the trash entry for restore.
+   */
+  static async trashTestCase(testCaseId: string, deletedBy: string): Promise<TrashEntry | null> {
+    const testCase = await this.loadTestCase(testCaseId)
+    if (!testCase) {
+      return null
+    }
+
+    const storage = this.getStorage()
+    const now = new Date().toISOString()
+
+    const planLinks: TrashEntry['planLinks'] = []
+    for (const plan of await this.getAllTestPlans()) {
+      const position = plan.testCases.indexOf(testCaseId)
+      const { dependencies, prerequisites, dependents } = removeFromDependencies(plan.dependencies, testCaseId)
+      if (position === -1 && prerequisites.length === 0 && dependents.length === 0) continue
+
+      planLinks.push({
+        testPlanId: plan.id,
+        position,
+        ...(prerequisites.length > 0 ? { prerequisites } : {}),
+        ...(dependents.length > 0 ? { dependents } : {})
+      })
+      // Bypasses validation so unrelated issues in a plan can't block the delete
+      await storage.saveTestPlan({
+        ...plan,
+        testCases: plan.testCases.filter(id => id !== testCaseId),
+        ...(plan.dependencies ? { dependencies } : {}),
+        updatedAt: now
+      })
+    }
+
+    const requirementLinks: string[] = []
+    for (const requirement of await storage.listRequirements()) {
+      if (!requirement.testCases.includes(testCaseId)) continue
+
+      requirementLinks.push(requirement.id)
+      await storage.saveRequirement({
+        ...requirement,
+        testCases: requirement.testCases.filter(id => id !== testCaseId),
+        updatedAt: now
+      })
+    }
+
+    const entry = {
+      ...this.createTrashEntry('testCase', testCase.id, testCase.title, testCase, deletedBy, planLinks),
+      requirementLinks
+    }
+    await storage.saveTrashEntry(entry)
+    await storage.deleteTestCase(testCaseId)
+    this.searchIndex?.remove(testCaseId)
+    await this.recordChange(`Move test case ${testCaseId} to trash`, deletedBy)
+
+    return entry
+  }
+
+  static async trashTestPlan(testPlanId: string, deletedBy: string): Promise<TrashEntry | null> {
+    const testPlan = await this.loadTestPlan(testPlanId)
+    if (!testPlan) {
+      return null
+    }
+
+    const entry = this.createTrashEntry('testPlan', testPlan.id, testPlan.name, testPlan, deletedBy)
+    await this.getStorage().saveTrashEntry(entry)
+    await this.getStorage().deleteTestPlan(testPlanId)
+    await this.recordChange(`Move test plan ${testPlanId} to trash`, deletedBy)
+
+    return entry
+  }
+
+  static async trashTestRun(testRunId: string, deletedBy: string): Promise<TrashEntry | null> {
+    const testRun = await this.loadTestRun(testRunId)
+    if (!testRun) {
+      return null
+    }
+
+    const entry = this.createTrashEntry('testRun', testRun.id, testRun.name, testRun, deletedBy)
+    await this.getStorage().saveTrashEntry(entry)
+    await this.getStorage().deleteTestRun(testRunId)
+    await this.recordChange(`Move test run ${testRunId} to trash`, deletedBy)
+
+    return entry
+  }
+
+  /**
+   * Put a trashed entity back. A restored test case is re-inserted at its
+   * old position, with its dependencies, in every plan it was removed from
+   * that still exists, and linked to its requirements again. Dependencies
+   * that would now form a cycle are left out. Fails if an entity with the
+   * same ID has been created in the meantime. Expired entries are not found.
+   */
+  static async restoreFromTrash(entryId: string, options: ChangeOptions = {}): Promise<RestoreFromTrashResult | null> {
+    const storage = this.getStorage()
+    const entry = (await this.getTrash()).find(e => e.id === entryId)
+    if (!entry) {
+      return null
+    }
+
+    const relinkedPlans: string[] = []
+    const relinkedRequirements: string[] = []
+
+    switch (entry.entityType) {
+      case 'testCase': {
+        if (await this.loadTestCase(entry.entityId)) {
+          throw new FileSystemError(`Test case ${entry.entityId} already exists`, 'restoreFromTrash')
+        }
+        await storage.saveTestCase(entry.data as TestCase)
+        this.searchIndex?.add(entry.data as TestCase)
+
+        for (const link of entry.planLinks) {
+          const plan = await this.loadTestPlan(link.testPlanId)
+          if (!plan) continue
+
+          const testCases = [...plan.testCases]
+          if (link.position !== -1 && !testCases.includes(entry.entityId)) {
+            testCases.splice(Math.min(link.position, testCases.length), 0, entry.entityId)
           }
-        } catch (error) {
-          console.error(`Error loading test plan ${file}:`, error)
-          // Continue with other files
+          const dependencies = link.prerequisites || link.dependents
+            ? restoreToDependencies(plan.dependencies, entry.entityId, link.prerequisites || [], link.dependents || [])
+            : plan.dependencies
+          if (testCases.length === plan.testCases.length && dependencies === plan.dependencies) continue
+
+          await storage.saveTestPlan({ ...plan, testCases, ...(dependencies ? { dependencies } : {}), updatedAt: new Date().toISOString() })
+          relinkedPlans.push(plan.id)
+        }
+
+        for (const requirementId of entry.requirementLinks || []) {
+          const requirement = (await storage.listRequirements()).find(candidate => candidate.id === requirementId)
+          if (!requirement || requirement.testCases.includes(entry.entityId)) continue
+
+          await storage.saveRequirement({
+            ...requirement,
+            testCases: [...requirement.testCases, entry.entityId],
+            updatedAt: new Date().toISOString()
+          })
+          relinkedRequirements.push(requirement.id)
+        }
+        if (relinkedRequirements.length > 0) {
+          this.invalidateSearchIndex()
         }
+        break
       }
-      
-      return testPlans.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-    } catch (error) {
-      throw new FileSystemError(
-        `Failed to load test plans: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'getAllTestPlans'
-      )
+      case 'testPlan':
+        if (await this.loadTestPlan(entry.entityId)) {
+          throw new FileSystemError(`Test plan ${entry.entityId} already exists`, 'restoreFromTrash')
+        }
+        await storage.saveTestPlan(entry.data as TestPlan)
+        break
+      case 'testRun':
+        if (await this.loadTestRun(entry.entityId)) {
+          throw new FileSystemError(`Test run ${entry.entityId} already exists`, 'restoreFromTrash')
+        }
+        await storage.saveTestRun(entry.data as TestRun)
+        break
     }
+
+    await storage.deleteTrashEntry(entryId)
+    await this.recordChange(`Restore ${TRASH_ENTITY_NAMES[entry.entityType]} ${entry.entityId} from trash`, options.author)
+
+    return { entry, relinkedPlans, relinkedRequirements }
   }
 
-  static async deleteTestPlan(testPlanId: string): Promise<boolean> {
-    const filename = `${testPlanId}.json`
-    const filePath = path.join(this.testPlansDir, filename)
-    
-    try {
-      await fs.unlink(filePath)
-      return true
-    } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        return false // File doesn't exist
+  // Permanently remove a single trash entry; expired ones go with purgeExpiredTrash
+  static async purgeTrashEntry(entryId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const storage = this.getStorage()
+    const entry = (await this.getTrash()).find(e => e.id === entryId)
+    if (!entry) {
+      return false
+    }
+
+    await this.deleteAttachmentsOf(entry)
+    const deleted = await storage.deleteTrashEntry(entryId)
+    await this.recordChange(`Purge ${TRASH_ENTITY_NAMES[entry.entityType]} ${entry.entityId} from trash`, options.author)
+    return deleted
+  }
+
+  // Permanently remove every trash entry past its retention period
+  static async purgeExpiredTrash(now: Date = new Date(), options: ChangeOptions = {}): Promise<TrashEntry[]> {
+    const storage = this.getStorage()
+    const expired = (await storage.listTrash()).filter(entry => new Date(entry.expiresAt) <= now)
+
+    for (const entry of expired) {
+      await this.deleteAttachmentsOf(entry)
+      await storage.deleteTrashEntry(entry.id)
+    }
+    if (expired.length > 0) {
+      await this.recordChange(`Purge ${expired.length} expired trash entries`, options.author || 'system')
+    }
+
+    return expired
+  }
+
+  // Attachments of a test case or run go when it is purged from the trash
+  private static async deleteAttachmentsOf(entry: TrashEntry): Promise<void> {
+    const attachments = await this.getStorage().listAttachments()
+    const owned = attachments.filter(attachment => {
+      switch (entry.entityType) {
+        case 'testCase':
+          return attachment.target.type !== 'stepResult' && attachment.target.testCaseId === entry.entityId
+        case 'testRun':
+          return attachment.target.testRunId === entry.entityId
+        default:
+          return false
       }
-      throw new FileSystemError(
-        `Failed to delete test plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'deleteTestPlan',
-        filePath
-      )
+    })
+
+    for (const attachment of owned) {
+      await this.removeAttachment(attachment.id)
     }
   }
 
-  // Test Run Operations
-  static async saveTestRun(testRun: TestRun): Promise<void> {
-    await this.ensureDirectories()
-    
-    // Ensure consistent test result status calculation
-    const correctedTestRun = {
-      ...testRun,
-      results: testRun.results.map(result => {
-        // Recalculate status based on step results to ensure consistency
-        const calculatedStatus = calculateTestCaseStatus(result.steps || [])
-        return {
-          ...result,
-          status: calculatedStatus
-        }
-      })
+  private static createTrashEntry(
+    entityType: TrashEntityType,
+    entityId: string,
+    name: string,
+    data: TrashEntry['data'],
+    deletedBy: string,
+    planLinks: TrashEntry['planLinks'] = []
+  ): TrashEntry {
+    const deletedAt = new Date()
+    const expiresAt = new Date(deletedAt.getTime() + this.getTrashRetentionDays() * 24 * 60 * 60 * 1000)
+
+    return {
+      id: randomUUID(),
+      entityType,
+      entityId,
+      name,
+      deletedAt: deletedAt.toISOString(),
+      deletedBy,
+      expiresAt: expiresAt.toISOString(),
+      planLinks,
+      data
     }
-    
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-    const filename = `${testRun.id}-${timestamp}.json`
-    const filePath = path.join(this.resultsDir, filename)
-    
-    try {
-      const jsonContent = JSON.stringify(correctedTestRun, null, 2)
-      await fs.writeFile(filePath, jsonContent, 'utf-8')
-    } catch (error) {
-      throw new FileSystemError(
-        `Failed to save test run: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'saveTestRun',
-        filePath
-      )
+  }
+
+  // Attachments
+
+  /**
+   * Store an uploaded file. The target must exist, the content type must be
+   * allowed and match the content, and the file must fit the size limit.
+   * Uploading the same content to the same target again returns the
+   * existing attachment instead of a copy.
+   */
+  static async addAttachment(upload: AttachmentUpload): Promise<{ attachment: Attachment; created: boolean }> {
+    const target = normalizeAttachmentTarget(upload.target)
+    const contentType = normalizeContentType(upload.contentType)
+
+    const maxBytes = getMaxAttachmentBytes()
+    if (upload.content.length > maxBytes) {
+      throw new AttachmentError(`File is larger than the limit of ${maxBytes} bytes`, 'too_large')
+    }
+    checkAttachmentContent(contentType, upload.content)
+    await this.assertAttachmentTargetExists(target)
+
+    const sha256 = hashContent(upload.content)
+    const storage = this.getStorage()
+    const existing = (await storage.listAttachments()).find(attachment =>
+      attachment.sha256 === sha256 && matchesAttachmentTarget(attachment, target)
+    )
+    if (existing) {
+      return { attachment: existing, created: false }
     }
+
+    const attachment: Attachment = {
+      id: randomUUID(),
+      target,
+      fileName: sanitizeFileName(upload.fileName),
+      contentType,
+      size: upload.content.length,
+      sha256,
+      uploadedAt: new Date().toISOString(),
+      uploadedBy: upload.uploadedBy
+    }
+
+    await storage.saveAttachmentContent(sha256, upload.content)
+    await storage.saveAttachment(attachment)
+    await this.recordChange(`Attach ${attachment.fileName} to ${target.type} ${describeAttachmentTarget(target)}`, upload.uploadedBy)
+
+    return { attachment, created: true }
   }
 
-  static async getAllTestRuns(): Promise<TestRun[]> {
-    await this.ensureDirectories()
-    
-    try {
-      const testRuns: TestRun[] = []
-      
-      // Load test runs from results directory (old format)
-      try {
-        const files = await fs.readdir(this.resultsDir)
-        const testRunFiles = files.filter(file => file.endsWith('.json'))
-        
-        for (const file of testRunFiles) {
-          try {
-            const filePath = path.join(this.resultsDir, file)
-            const fileContent = await fs.readFile(filePath, 'utf-8')
-            const testRun = JSON.parse(fileContent) as TestRun
-            
-            if (testRun.id && testRun.testPlanId) {
-              testRuns.push(testRun)
-            }
-          } catch (error) {
-            console.error(`Error loading test run ${file}:`, error)
-            // Continue with other files
-          }
-        }
-      } catch (error) {
-        console.warn('Could not read results directory:', error)
+  // Attachments whose target matches every ID in the filter, oldest first
+  static async getAttachments(filter: Partial<AttachmentTarget> = {}): Promise<Attachment[]> {
+    const attachments = await this.getStorage().listAttachments()
+    return attachments
+      .filter(attachment => matchesAttachmentTarget(attachment, filter))
+      .sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime())
+  }
+
+  static async getAttachment(attachmentId: string): Promise<Attachment | null> {
+    const attachments = await this.getStorage().listAttachments()
+    return attachments.find(attachment => attachment.id === attachmentId) || null
+  }
+
+  static async loadAttachmentContent(attachmentId: string): Promise<{ attachment: Attachment; content: Buffer } | null> {
+    const attachment = await this.getAttachment(attachmentId)
+    const content = attachment ? await this.getStorage().loadAttachmentContent(attachment.sha256) : null
+
+    return attachment && content ? { attachment, content } : null
+  }
+
+  static async deleteAttachment(attachmentId: string, options: ChangeOptions = {}): Promise<boolean> {
+    const deleted = await this.removeAttachment(attachmentId)
+    if (deleted) {
+      await this.recordChange(`Delete attachment ${attachmentId}`, options.author)
+    }
+    return deleted
+  }
+
+  // Content is removed once no other attachment shares the same hash
+  private static async removeAttachment(attachmentId: string): Promise<boolean> {
+    const storage = this.getStorage()
+    const attachments = await storage.listAttachments()
+    const attachment = attachments.find(a => a.id === attachmentId)
+    if (!attachment) {
+      return false
+    }
+
+    await storage.deleteAttachment(attachmentId)
+    if (!attachments.some(a => a.id !== attachmentId && a.sha256 === attachment.sha256)) {
+      await storage.deleteAttachmentContent(attachment.sha256)
+    }
+
+    return true
+  }
+
+  private static async assertAttachmentTargetExists(target: AttachmentTarget): Promise<void> {
+    if (target.testRunId && !(await this.loadTestRun(target.testRunId))) {
+      throw new AttachmentError(`Test run ${target.testRunId} not found`, 'target_not_found')
+    }
+
+    if (target.testCaseId) {
+      // Step results can belong to the steps of a shared step
+      const testCase = target.type === 'stepResult'
+        ? await this.loadExpandedTestCase(target.testCaseId)
+        : await this.loadTestCase(target.testCaseId)
+      if (!testCase) {
+        throw new AttachmentError(`Test case ${target.testCaseId} not found`, 'target_not_found')
       }
-      
-      // Load test executions from test-executions directory (new format)
-      const testExecutionsDir = path.join(process.cwd(), 'test-executions')
-      try {
-        await fs.mkdir(testExecutionsDir, { recursive: true })
-        const execFiles = await fs.readdir(testExecutionsDir)
-        const testExecFiles = execFiles.filter(file => file.startsWith('execution-') && file.endsWith('.json'))
-        
-        for (const file of testExecFiles) {
-          try {
-            const filePath = path.join(testExecutionsDir, file)
-            const fileContent = await fs.readFile(filePath, 'utf-8')
-            const execution = JSON.parse(fileContent)
-            
-            // Convert TestExecution format to TestRun format
-            if (execution.id && execution.testCaseId) {
-              const convertedTestRun: TestRun = {
-                id: execution.id,
-                testPlanId: 'single-execution', // Mark as single execution
-                name: `Single Test Execution - ${execution.testCaseId}`,
-                startedAt: execution.startedAt,
-                completedAt: execution.completedAt,
-                status: execution.status === 'completed' ? 'completed' : execution.status,
-                executedBy: execution.executedBy,
-                results: [{
-                  testCaseId: execution.testCaseId,
-                  status: execution.overallResult,
-                  executedAt: execution.completedAt || execution.startedAt,
-                  steps: execution.stepResults.map((step: { stepId: string; status: string; actualResult?: string; notes?: string }) => ({
-                    stepId: step.stepId,
-                    status: step.status,
-                    actualResult: step.actualResult,
-                    notes: step.notes
-                  }))
-                }]
-              }
-              
-              testRuns.push(convertedTestRun)
-            }
-          } catch (error) {
-            console.error(`Error loading test execution ${file}:`, error)
-            // Continue with other files
-          }
-        }
-      } catch (error) {
-        console.warn('Could not read test-executions directory:', error)
+      if (target.stepId && !testCase.steps.some(step => step.id === target.stepId)) {
+        throw new AttachmentError(
+          `Step ${target.stepId} not found in test case ${target.testCaseId}`,
+          'target_not_found'
+        )
       }
-      
-      return testRuns.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
-    } catch (error) {
-      throw new FileSystemError(
-        `Failed to load test runs: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'getAllTestRuns'
+    }
+  }
+
+  // Workspace Archive Operations
+
+  static async exportWorkspace(options: { createdBy?: string; settingsFile?: string } = {}): Promise<WorkspaceArchive> {
+    return exportWorkspace(this.getStorage(), options)
+  }
+
+  static async importWorkspace(
+    archive: WorkspaceArchive,
+    options: ImportOptions & ChangeOptions = {}
+  ): Promise<ImportReport> {
+    const report = await importWorkspace(this.getStorage(), archive, options)
+    if (!report.dryRun) {
+      this.invalidateSearchIndex()
+    }
+    if (!report.dryRun && report.created + report.updated > 0) {
+      await this.recordChange(
+        `Import workspace archive from ${archive.manifest.createdAt}\n\n${report.created} created, ${report.updated} updated, ${report.skipped} kept`,
+        options.author
       )
     }
+    return report
+  }
+
+  // Repair the known schema issues in place, see validateWorkspace
+  static async repairWorkspace(options: ChangeOptions = {}): Promise<WorkspaceValidationReport> {
+    const report = await validateWorkspace(this.getStorage(), { repair: true })
+    if (report.repaired > 0) {
+      this.invalidateSearchIndex()
+      await this.recordChange(`Repair ${report.repaired} invalid workspace documents`, options.author)
+    }
+    return report
   }
 
   // Utility Methods
@@ -461,19 +2039,51 @@ export class FileUtils {
   }
 
   // Search and Filter
-  static async searchTestCases(query: string, tags?: string[]): Promise<TestCase[]> {
-    const allTestCases = await this.getAllTestCases()
-    
-    return allTestCases.filter(testCase => {
-      const matchesQuery = query === '' || 
-        testCase.title.toLowerCase().includes(query.toLowerCase()) ||
-        testCase.description.toLowerCase().includes(query.toLowerCase())
-      
-      const matchesTags = !tags || tags.length === 0 ||
-        tags.some(tag => testCase.tags.includes(tag))
-      
-      return matchesQuery && matchesTags
-    })
+
+  /**
+   * Test cases matching a query such as `priority:critical -tag:flaky "login button"`,
+   * see test-case-query.ts. Invalid queries throw a TestCaseQueryError.
+   */
+  static async searchTestCases(query: string): Promise<TestCase[]> {
+    const parsed = parseTestCaseQuery(query)
+    const testCases = await this.getAllTestCases()
+    const textMatches = parsed.text.length > 0 ? (await this.getSearchIndex(testCases)).search(parsed.text) : null
+
+    const context: QueryContext = {}
+    if (queryUses(parsed, 'status')) {
+      const latest = getLatestResults(await this.getAllTestRuns())
+      context.latestStatuses = new Map([...latest].map(([testCaseId, result]) => [testCaseId, result.status]))
+    }
+    if (queryUses(parsed, 'issue') || queryUses(parsed, 'repo')) {
+      context.linkedIssues = getLinkedIssues(await this.getStorage().listRequirements())
+    }
+    if (queryUses(parsed, 'suite')) {
+      context.suites = await this.getStorage().listSuites()
+    }
+
+    return testCases.filter(testCase =>
+      (!textMatches || textMatches.has(testCase.id)) && matchesQueryFilters(testCase, parsed, context)
+    )
+  }
+
+  /**
+   * Built on the first search, then kept up to date as test cases are saved
+   * and deleted. Test cases changed by another process or by hand are
+   * reindexed when a search finds their updatedAt changed.
+   */
+  private static async getSearchIndex(testCases: TestCase[]): Promise<TestCaseSearchIndex> {
+    if (!this.searchIndex) {
+      const requirements = await this.getStorage().listRequirements()
+      this.searchIndex = new TestCaseSearchIndex(testCases, getLinkedIssueTitles(requirements))
+    } else {
+      this.searchIndex.refresh(testCases)
+    }
+    return this.searchIndex
+  }
+
+  // Rebuild the search index on the next search, after changes not made one test case at a time
+  static invalidateSearchIndex(): void {
+    this.searchIndex = null
   }
 
   // Dashboard Statistics
@@ -493,7 +2103,7 @@ export class FileUtils {
         run.results.forEach(result => {
           totalTests++
           // Use proper test case status calculation based on step results
-          const actualStatus = calculateTestCaseStatus(result.steps || [])
+          const actualStatus = getTestResultStatus(result)
           if (actualStatus === 'pass') {
             passedTests++
           }
@@ -616,29 +2226,20 @@ export class FileUtils {
   }
 
   // Additional utility functions for export and bulk operations
-  static async loadAllTestResults(): Promise<any[]> {
-    await this.ensureDirectories()
-    
+  // Every recorded test result across all runs, newest first
+  static async loadAllTestResults(): Promise<ExecutedTestResult[]> {
     try {
-      const files = await fs.readdir(this.resultsDir)
-      const resultFiles = files.filter(file => file.endsWith('.json'))
-      
-      const results: any[] = []
-      
-      for (const file of resultFiles) {
-        try {
-          const filePath = path.join(this.resultsDir, file)
-          const fileContent = await fs.readFile(filePath, 'utf-8')
-          const result = JSON.parse(fileContent)
-          results.push(result)
-        } catch (error) {
-          console.warn(`Failed to load result file ${file}:`, error)
-        }
-      }
-      
+      const testRuns = await this.getAllTestRuns()
+      const results = testRuns.flatMap(run => run.results.map(result => ({
+        ...result,
+        executedBy: result.executedBy || run.executedBy,
+        testRunId: run.id,
+        testRunName: run.name,
+        testPlanId: run.testPlanId
+      })))
+
       return results.sort((a, b) => 
-        new Date(b.executionDate || b.timestamp || 0).getTime() - 
-        new Date(a.executionDate || a.timestamp || 0).getTime()
+        new Date(b.executedAt).getTime() - new Date(a.executedAt).getTime()
       )
     } catch (error) {
       console.error('Error loading all test results:', error)
@@ -647,26 +2248,9 @@ export class FileUtils {
   }
 
   static async loadAllTestCases(): Promise<TestCase[]> {
-    await this.ensureDirectories()
-    
     try {
-      const files = await fs.readdir(this.testCasesDir)
-      const testCaseFiles = files.filter(file => file.endsWith('.md'))
-      
-      const testCases: TestCase[] = []
-      
-      for (const file of testCaseFiles) {
-        try {
-          const testCaseId = file.replace('.md', '')
-          const testCase = await this.loadTestCase(testCaseId)
-          if (testCase) {
-            testCases.push(testCase)
-          }
-        } catch (error) {
-          console.warn(`Failed to load test case ${file}:`, error)
-        }
-      }
-      
+      const testCases = await this.getStorage().listTestCases()
+
       return testCases.sort((a, b) => 
         new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       )
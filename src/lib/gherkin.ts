@@ -0,0 +1,383 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Priority, TestCase, TestStep } from './types'
+import { isParameterized } from './test-parameters'
+
+/**
+ * Gherkin feature files to test cases and back. On import the feature name
+ * becomes a tag, each scenario a test case, Given steps the preconditions
+ * and each When with the Then steps after it a test step. A Scenario
+ * Outline gives one test case per Examples row. Tags carry over, and a
+ * priority tag such as @high sets the priority.
+ */
+
+export class GherkinParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`)
+    this.name = 'GherkinParseError'
+  }
+}
+
+type StepKeyword = 'Given' | 'When' | 'Then'
+
+interface GherkinStep {
+  keyword: StepKeyword
+  text: string // With its doc string or data table on the following lines
+  line: number
+}
+
+interface GherkinExamples {
+  tags: string[]
+  header: string[]
+  rows: string[][]
+  line: number
+}
+
+interface GherkinScenario {
+  name: string
+  description: string[]
+  tags: string[]
+  steps: GherkinStep[]
+  outline: boolean
+  examples: GherkinExamples[]
+  line: number
+}
+
+export interface GherkinFeature {
+  name: string
+  description: string[]
+  tags: string[]
+  background: GherkinStep[]
+  scenarios: GherkinScenario[]
+}
+
+export interface GherkinImportResult {
+  testCases: TestCase[]
+  errors: string[] // One per scenario that couldn't be converted
+}
+
+const STEP = /^(Given|When|Then|And|But|\*)\s+(.*)$/
+const HEADER = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/
+const PRIORITY_TAGS: Priority[] = ['critical', 'high', 'medium', 'low']
+
+function parseTags(line: string): string[] {
+  return line.replace(/\s#.*$/, '').split(/\s+/).filter(Boolean).map(tag => tag.replace(/^@/, ''))
+}
+
+function parseTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim().replace(/\\\|/g, '|'))
+}
+
+export function parseFeature(text: string): GherkinFeature {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  let feature: GherkinFeature | null = null
+  let scenario: GherkinScenario | null = null
+  let examples: GherkinExamples | null = null
+  let inBackground = false
+  let pendingTags: string[] = []
+  let ruleTags: string[] = []
+  let describing: string[] | null = null // Where free text under the last header goes
+  let docString: { delimiter: string; indent: number; lines: string[]; step: GherkinStep } | null = null
+  let previousKeyword: StepKeyword | null = null
+
+  const currentSteps = () => (inBackground ? feature?.background : scenario?.steps)
+
+  for (const [index, raw] of lines.entries()) {
+    const lineNumber = index + 1
+    const line = raw.trim()
+
+    if (docString) {
+      if (line === docString.delimiter) {
+        docString.step.text += `\n${docString.lines.join('\n')}`
+        docString = null
+      } else {
+        docString.lines.push(raw.slice(Math.min(docString.indent, raw.length - raw.trimStart().length)))
+      }
+      continue
+    }
+
+    if (line === '' || line.startsWith('#')) continue
+
+    if (line.startsWith('@')) {
+      pendingTags.push(...parseTags(line))
+      continue
+    }
+
+    const header = HEADER.exec(line)
+    if (header) {
+      const [, keyword, name] = header
+      const tags = pendingTags
+      pendingTags = []
+      previousKeyword = null
+      describing = []
+
+      if (keyword === 'Feature') {
+        if (feature) throw new GherkinParseError('A file can only have one Feature', lineNumber)
+        feature = { name, description: [], tags, background: [], scenarios: [] }
+        describing = feature.description
+        continue
+      }
+      if (!feature) throw new GherkinParseError(`${keyword} before the Feature`, lineNumber)
+
+      if (keyword === 'Rule') {
+        // Rules only group scenarios; their tags apply to each scenario in them
+        scenario = null
+        examples = null
+        inBackground = false
+        ruleTags = tags
+      } else if (keyword === 'Background') {
+        scenario = null
+        examples = null
+        inBackground = true
+      } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+        if (!scenario?.outline) throw new GherkinParseError('Examples outside a Scenario Outline', lineNumber)
+        examples = { tags, header: [], rows: [], line: lineNumber }
+        scenario.examples.push(examples)
+      } else {
+        inBackground = false
+        examples = null
+        scenario = {
+          name,
+          description: [],
+          tags: [...ruleTags, ...tags],
+          steps: [],
+          outline: keyword === 'Scenario Outline' || keyword === 'Scenario Template',
+          examples: [],
+          line: lineNumber
+        }
+        feature.scenarios.push(scenario)
+        describing = scenario.description
+      }
+      continue
+    }
+
+    if (!feature) throw new GherkinParseError('Expected a Feature', lineNumber)
+
+    const step = STEP.exec(line)
+    if (step) {
+      const steps = currentSteps()
+      if (!steps || examples) throw new GherkinParseError('Step outside a Scenario or Background', lineNumber)
+
+      const keyword: StepKeyword | null = step[1] === 'Given' || step[1] === 'When' || step[1] === 'Then'
+        ? step[1]
+        : previousKeyword
+      if (!keyword) throw new GherkinParseError(`${step[1]} must follow a Given, When or Then`, lineNumber)
+
+      steps.push({ keyword, text: step[2], line: lineNumber })
+      previousKeyword = keyword
+      describing = null
+      continue
+    }
+
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      const steps = currentSteps()
+      const last = steps?.[steps.length - 1]
+      if (!last) throw new GherkinParseError('Doc string without a step', lineNumber)
+      docString = { delimiter: line.slice(0, 3), indent: raw.length - raw.trimStart().length, lines: [], step: last }
+      describing = null
+      continue
+    }
+
+    if (line.startsWith('|')) {
+      describing = null
+      if (examples) {
+        const cells = parseTableRow(line)
+        if (examples.header.length === 0) {
+          examples.header = cells
+        } else if (cells.length !== examples.header.length) {
+          throw new GherkinParseError(`Expected ${examples.header.length} cells, found ${cells.length}`, lineNumber)
+        } else {
+          examples.rows.push(cells)
+        }
+        continue
+      }
+      const steps = currentSteps()
+      const last = steps?.[steps.length - 1]
+      if (!last) throw new GherkinParseError('Data table without a step', lineNumber)
+      last.text += `\n${line}`
+      continue
+    }
+
+    // Free text right under a header describes it
+    if (!describing) throw new GherkinParseError(`Unexpected text: ${line}`, lineNumber)
+    describing.push(line)
+  }
+
+  if (docString) throw new GherkinParseError('Doc string is not closed', lines.length)
+  if (!feature) throw new GherkinParseError('Expected a Feature', 1)
+  return feature
+}
+
+// A tag for the feature's name, e.g. 'Shopping cart' becomes 'shopping-cart'
+export function getFeatureTag(name: string): string {
+  return name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')
+}
+
+function substituteExample(text: string, values: Record<string, string>): string {
+  return text.replace(/<([^<>]+)>/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  )
+}
+
+// Given steps become the preconditions; each When, with the Then steps after it, a test step
+function toTestCaseContent(steps: GherkinStep[], scenario: GherkinScenario) {
+  const preconditions: string[] = []
+  const testSteps: Array<{ action: string[]; expectedResult: string[] }> = []
+
+  for (const step of steps) {
+    const current = testSteps[testSteps.length - 1]
+    if (step.keyword === 'Given') {
+      preconditions.push(step.text)
+    } else if (step.keyword === 'When') {
+      if (current && current.expectedResult.length === 0) {
+        current.action.push(step.text)
+      } else {
+        testSteps.push({ action: [step.text], expectedResult: [] })
+      }
+    } else {
+      if (!current) throw new GherkinParseError(`Then before any When in scenario "${scenario.name}"`, step.line)
+      current.expectedResult.push(step.text)
+    }
+  }
+
+  if (testSteps.length === 0) {
+    throw new GherkinParseError(`Scenario "${scenario.name}" has no When steps`, scenario.line)
+  }
+
+  return {
+    preconditions: preconditions.join('\n'),
+    steps: testSteps.map((step, index): TestStep => ({
+      id: uuidv4(),
+      stepNumber: index + 1,
+      action: step.action.join('\n'),
+      expectedResult: step.expectedResult.join('\n')
+    }))
+  }
+}
+
+function toTestCase(
+  feature: GherkinFeature,
+  scenario: GherkinScenario,
+  options: { createdBy: string; now: string },
+  example?: { tags: string[]; values: Record<string, string> }
+): TestCase {
+  const substitute = (text: string) => (example ? substituteExample(text, example.values) : text)
+  const steps = [...feature.background, ...scenario.steps].map(step => ({ ...step, text: substitute(step.text) }))
+  const { preconditions, steps: testSteps } = toTestCaseContent(steps, scenario)
+
+  const tags: string[] = []
+  let priority: Priority = 'medium'
+  for (const tag of [getFeatureTag(feature.name), ...feature.tags, ...scenario.tags, ...(example?.tags || [])]) {
+    const tagPriority = PRIORITY_TAGS.find(candidate => candidate === tag.toLowerCase())
+    if (tagPriority) {
+      priority = tagPriority
+    } else if (tag && !tags.includes(tag)) {
+      tags.push(tag)
+    }
+  }
+
+  // Outline rows whose values aren't in the name are told apart by them
+  let title = substitute(scenario.name)
+  if (example && title === scenario.name) {
+    title = `${title} (${Object.entries(example.values).map(([name, value]) => `${name}=${value}`).join(', ')})`
+  }
+
+  return {
+    id: uuidv4(),
+    title,
+    description: substitute(scenario.description.join('\n')) || `Scenario from the "${feature.name}" feature`,
+    preconditions,
+    steps: testSteps,
+    expectedResult: testSteps[testSteps.length - 1].expectedResult,
+    priority,
+    tags,
+    createdAt: options.now,
+    updatedAt: options.now,
+    createdBy: options.createdBy
+  }
+}
+
+/**
+ * The test cases of a feature file. Throws a GherkinParseError when the
+ * file can't be read as Gherkin; scenarios that can't become test cases
+ * are listed in errors and the others are still returned.
+ */
+export function importFeatureFile(
+  text: string,
+  options: { createdBy: string; now?: string }
+): GherkinImportResult {
+  const feature = parseFeature(text)
+  const context = { createdBy: options.createdBy, now: options.now || new Date().toISOString() }
+  const result: GherkinImportResult = { testCases: [], errors: [] }
+
+  for (const scenario of feature.scenarios) {
+    try {
+      if (!scenario.outline) {
+        result.testCases.push(toTestCase(feature, scenario, context))
+        continue
+      }
+
+      const rows = scenario.examples.flatMap(examples => examples.rows.map(row => ({
+        tags: examples.tags,
+        values: Object.fromEntries(examples.header.map((name, index) => [name, row[index]]))
+      })))
+      if (rows.length === 0) {
+        throw new GherkinParseError(`Scenario Outline "${scenario.name}" has no Examples rows`, scenario.line)
+      }
+      rows.forEach(example => result.testCases.push(toTestCase(feature, scenario, context, example)))
+    } catch (error) {
+      if (!(error instanceof GherkinParseError)) throw error
+      result.errors.push(error.message)
+    }
+  }
+
+  return result
+}
+
+function formatTag(tag: string): string {
+  return `@${tag.trim().replace(/\s+/g, '-')}`
+}
+
+function formatTableRow(cells: string[]): string {
+  return `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`
+}
+
+// Multi-line text as one step and And steps for the following lines, keeping data tables as tables
+function formatSteps(keyword: StepKeyword, text: string, indent: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    .map((line, index) => {
+      if (index > 0 && line.startsWith('|')) return `${indent}  ${line}`
+      return `${indent}${index === 0 ? keyword : 'And'} ${line}`
+    })
+}
+
+/**
+ * A feature file with a scenario per test case, for automation engineers
+ * to implement. Parameterized test cases become Scenario Outlines with
+ * their data table as Examples.
+ */
+export function exportFeatureFile(testCases: TestCase[], featureName: string): string {
+  const lines = [`Feature: ${featureName}`]
+  const toOutline = (text: string) => text.replace(/\{\{\s*([^{}\s]+)\s*\}\}/g, '<$1>')
+
+  for (const testCase of testCases) {
+    const outline = isParameterized(testCase)
+    const tags = [...testCase.tags, testCase.priority].map(formatTag)
+
+    lines.push('', `  ${tags.join(' ')}`, `  ${outline ? 'Scenario Outline' : 'Scenario'}: ${testCase.title}`)
+    testCase.description.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => lines.push(`    ${line}`))
+
+    lines.push(...formatSteps('Given', testCase.preconditions || '', '    '))
+    for (const step of testCase.steps) {
+      lines.push(...formatSteps('When', toOutline(step.action), '    '))
+      lines.push(...formatSteps('Then', toOutline(step.expectedResult), '    '))
+    }
+
+    if (outline && testCase.parameters) {
+      const { names, rows } = testCase.parameters
+      lines.push('', '    Examples:', `      ${formatTableRow(names)}`)
+      rows.forEach(row => lines.push(`      ${formatTableRow(names.map(name => row.values[name] ?? ''))}`))
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
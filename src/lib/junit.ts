@@ -0,0 +1,217 @@
+import { AutomatedTestResult, TestCase, TestResult, TestResultStatus, TestRun } from './types'
+
+/**
+ * JUnit XML reports, as written by Playwright, Jest (jest-junit) and most
+ * CI tools, turned into test results. Each <testcase> is an automated test
+ * identified as '<classname>::<name>'. Test cases list the automated tests
+ * covering them in automatedTests and get one result combined from those
+ * tests; tests no test case is linked to are kept on the run for linking.
+ */
+
+export class JUnitReportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JUnitReportError'
+  }
+}
+
+export interface JUnitReport {
+  tests: AutomatedTestResult[]
+  timestamp?: string // When the suites ran, if the report says
+}
+
+// An automated test no test case is linked to, as last seen in an imported run
+export interface UnmappedAutomatedTest extends AutomatedTestResult {
+  testRunId: string
+  seenAt: string
+}
+
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+const MAX_MESSAGE_LENGTH = 1000
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' }
+
+// CDATA, comments, processing instructions, doctype, closing tags, opening tags and text
+const TOKEN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+// Surrogates and anything past U+10FFFF aren't characters
+function fromCharacterReference(entity: string, codePoint: number): string {
+  if (codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+    throw new JUnitReportError(`${entity} is not a valid character reference`)
+  }
+  return String.fromCodePoint(codePoint)
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return fromCharacterReference(entity, parseInt(code.slice(2), 16))
+    if (code.startsWith('#')) return fromCharacterReference(entity, parseInt(code.slice(1), 10))
+    return ENTITIES[code] ?? entity
+  })
+}
+
+// Just enough XML for test reports: no namespaces, external entities or DTDs
+function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '', attributes: {}, children: [], text: '' }
+  const stack = [document]
+  const lineAt = (offset: number) => xml.slice(0, offset).split('\n').length
+  let offset = 0
+
+  for (const match of xml.matchAll(TOKEN)) {
+    if (match.index !== offset) break
+    offset += match[0].length
+
+    const [, cdata, closing, opening, attributes, selfClosing, text] = match
+    const current = stack[stack.length - 1]
+    if (cdata !== undefined) {
+      current.text += cdata
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text)
+    } else if (closing) {
+      if (current.name !== closing) {
+        throw new JUnitReportError(`Line ${lineAt(match.index)}: unexpected </${closing}>`)
+      }
+      stack.pop()
+    } else if (opening) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: '' }
+      for (const [, name, double, single] of (attributes || '').matchAll(ATTRIBUTE)) {
+        element.attributes[name] = decodeEntities(double ?? single)
+      }
+      current.children.push(element)
+      if (!selfClosing) stack.push(element)
+    }
+  }
+
+  if (offset !== xml.length) throw new JUnitReportError(`Line ${lineAt(offset)}: not well-formed XML`)
+  if (stack.length > 1) throw new JUnitReportError(`<${stack[stack.length - 1].name}> is not closed`)
+  if (!document.children[0]) throw new JUnitReportError('The report is empty')
+  return document.children[0]
+}
+
+export function getAutomatedTestId(classname: string, name: string): string {
+  return classname ? `${classname}::${name}` : name
+}
+
+function getMessage(element: XmlElement): string | undefined {
+  const message = element.attributes.message || element.text.trim().split('\n')[0]
+  return message ? message.slice(0, MAX_MESSAGE_LENGTH) : undefined
+}
+
+function toTestResult(testcase: XmlElement, suiteName: string): AutomatedTestResult {
+  const { name = '', classname, time } = testcase.attributes
+  const failure = testcase.children.find(child => child.name === 'failure' || child.name === 'error')
+  const skipped = testcase.children.find(child => child.name === 'skipped')
+  const result: AutomatedTestResult = {
+    testId: getAutomatedTestId(classname ?? suiteName, name),
+    status: failure ? 'fail' : skipped ? 'skip' : 'pass'
+  }
+
+  const executionTime = Number(time)
+  if (time && Number.isFinite(executionTime)) result.executionTime = executionTime
+  const message = failure ? getMessage(failure) : skipped ? getMessage(skipped) : undefined
+  if (message) result.message = message
+  return result
+}
+
+export function parseJUnitReport(xml: string): JUnitReport {
+  const root = parseXml(xml.replace(/^\uFEFF/, ''))
+  if (root.name !== 'testsuites' && root.name !== 'testsuite') {
+    throw new JUnitReportError(`Expected <testsuites> or <testsuite>, found <${root.name}>`)
+  }
+
+  const tests: AutomatedTestResult[] = []
+  let timestamp: string | undefined
+
+  // Suites may be nested; a test case without a classname is named after its suite
+  const visit = (element: XmlElement, suiteName: string) => {
+    for (const child of element.children) {
+      if (child.name === 'testsuites') {
+        visit(child, suiteName)
+      } else if (child.name === 'testsuite') {
+        const date = child.attributes.timestamp ? new Date(child.attributes.timestamp) : null
+        if (!timestamp && date && !isNaN(date.getTime())) timestamp = date.toISOString()
+        visit(child, child.attributes.name || suiteName)
+      } else if (child.name === 'testcase') {
+        tests.push(toTestResult(child, suiteName))
+      }
+    }
+  }
+  visit({ name: '', attributes: {}, children: [root], text: '' }, '')
+
+  return { tests, timestamp }
+}
+
+// Failed if any linked test failed, else passed if any passed, else skipped
+function combineStatuses(statuses: TestResultStatus[]): TestResultStatus {
+  if (statuses.includes('fail')) return 'fail'
+  return statuses.includes('pass') ? 'pass' : 'skip'
+}
+
+/**
+ * One result per test case linked to a test in the report, combined from
+ * all its linked tests, and the tests no test case is linked to
+ */
+export function mapAutomatedTests(
+  tests: AutomatedTestResult[],
+  testCases: TestCase[],
+  executedAt: string
+): { results: TestResult[]; unmapped: AutomatedTestResult[] } {
+  const linkedTestCases = new Map<string, string[]>()
+  for (const testCase of testCases) {
+    for (const testId of testCase.automatedTests || []) {
+      linkedTestCases.set(testId, [...(linkedTestCases.get(testId) || []), testCase.id])
+    }
+  }
+
+  const byTestCase = new Map<string, AutomatedTestResult[]>()
+  const unmapped: AutomatedTestResult[] = []
+  for (const test of tests) {
+    const testCaseIds = linkedTestCases.get(test.testId)
+    if (!testCaseIds) {
+      unmapped.push(test)
+      continue
+    }
+    testCaseIds.forEach(testCaseId => byTestCase.set(testCaseId, [...(byTestCase.get(testCaseId) || []), test]))
+  }
+
+  const results = [...byTestCase].map(([testCaseId, linked]): TestResult => {
+    const result: TestResult = {
+      testCaseId,
+      status: combineStatuses(linked.map(test => test.status)),
+      executedAt,
+      steps: [],
+      automatedTests: linked
+    }
+
+    const times = linked.map(test => test.executionTime).filter((time): time is number => time !== undefined)
+    if (times.length > 0) result.executionTime = times.reduce((sum, time) => sum + time, 0)
+    const failures = linked.filter(test => test.status === 'fail').map(test => `${test.testId}: ${test.message || 'Failed'}`)
+    if (failures.length > 0) result.actualResult = failures.join('\n')
+    return result
+  })
+
+  return { results, unmapped }
+}
+
+// Tests of imported runs still not linked to a test case, each as of the latest run it was in
+export function getUnmappedTests(testRuns: TestRun[], testCases: TestCase[]): UnmappedAutomatedTest[] {
+  const linked = new Set(testCases.flatMap(testCase => testCase.automatedTests || []))
+  const unmapped = new Map<string, UnmappedAutomatedTest>()
+
+  const newestFirst = [...testRuns].sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+  for (const run of newestFirst) {
+    for (const test of run.unmappedTests || []) {
+      if (linked.has(test.testId) || unmapped.has(test.testId)) continue
+      unmapped.set(test.testId, { ...test, testRunId: run.id, seenAt: run.startedAt })
+    }
+  }
+
+  return [...unmapped.values()].sort((a, b) => a.testId.localeCompare(b.testId))
+}
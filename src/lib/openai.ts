@@ -2,6 +2,7 @@ import OpenAI from 'openai'
 import { TestCase, TestStep, GitHubIssue } from './types'
 import { v4 as uuidv4 } from 'uuid'
 import { PromptTemplateService, Language } from './prompt-templates'
+import { normalizePriority } from './schema'
 
 export class OpenAIService {
   private openai: OpenAI
@@ -71,13 +72,15 @@ export class OpenAIService {
           expectedResult: step.expectedResult
         })),
         expectedResult: generatedData.expectedResult,
-        priority: generatedData.priority,
+        priority: normalizePriority(generatedData.priority) || 'medium',
         tags: generatedData.tags || [],
         githubIssue: {
           number: issue.number,
           url: issue.html_url,
-          repository
+          repository,
+          title: issue.title
         },
+        reviewStatus: 'draft',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         createdBy: username
@@ -347,9 +350,10 @@ Consider the issue type (bug, feature, enhancement) when determining test covera
             preconditions: preconditions,
             steps: steps,
             expectedResult: testData.expectedResult || 'Test completes successfully',
-            priority: testData.priority || 'medium',
+            priority: normalizePriority(testData.priority) || 'medium',
             tags: testData.tags || ['ai-generated'],
             githubIssue: undefined,
+            reviewStatus: 'draft',
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
             createdBy: username
@@ -528,9 +532,10 @@ Consider the issue type (bug, feature, enhancement) when determining test covera
       preconditions: preconditions,
       steps: steps,
       expectedResult: testData.expectedResult || 'Test completes successfully',
-      priority: testData.priority || 'medium',
+      priority: normalizePriority(testData.priority) || 'medium',
       tags: testData.tags || ['ai-generated'],
       githubIssue: undefined,
+      reviewStatus: 'draft',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       createdBy: username
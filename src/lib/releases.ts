@@ -0,0 +1,155 @@
+import { ExitCriterion, Release, TestCase, TestRun } from './types'
+import { getLatestResults } from './test-execution-utils'
+
+/**
+ * Readiness of releases and milestones. A release is made up of the test
+ * cases of its plans and runs; each exit criterion is checked against the
+ * latest result of those test cases in the release's runs, and the release
+ * is a go when every criterion is met.
+ */
+
+export type ReleaseVerdict = 'go' | 'no_go'
+
+export interface CriterionEvaluation {
+  criterion: ExitCriterion
+  label: string
+  met: boolean
+  actual: string // e.g. '92.5%' or '2 failing'
+  testCaseIds: string[] // Test cases keeping the criterion from being met
+}
+
+export interface ReleaseSummary {
+  testCases: number
+  executed: number // With a latest result other than skipped
+  passed: number
+  failed: number
+  passRate: number // Percentage of executed test cases passing, one decimal
+  testRuns: number
+}
+
+export interface ReleaseReadiness {
+  releaseId: string
+  verdict: ReleaseVerdict
+  evaluatedAt: string
+  criteria: CriterionEvaluation[]
+  summary: ReleaseSummary
+}
+
+// The verdict as of a run of the release, counting it and the runs before it
+export interface ReadinessHistoryPoint {
+  at: string
+  testRunId: string
+  testRunName: string
+  verdict: ReleaseVerdict
+  passRate: number
+  criteriaMet: number
+}
+
+// A release with its readiness now and how the verdict developed over its runs
+export interface ReleaseReport {
+  release: Release
+  readiness: ReleaseReadiness
+  history: ReadinessHistoryPoint[]
+}
+
+export function describeCriterion(criterion: ExitCriterion): string {
+  const scope = criterion.priority ? `${criterion.priority} ` : ''
+  switch (criterion.type) {
+    case 'passRate':
+      return `Pass rate ≥ ${criterion.threshold}%`
+    case 'noOpenFailures':
+      return `No open ${scope}failures`
+    case 'allExecuted':
+      return `All ${scope}test cases executed`
+  }
+}
+
+// The runs it names and the runs of its plans started since its start date
+export function getReleaseRuns(release: Release, testRuns: TestRun[]): TestRun[] {
+  const plans = new Set(release.testPlans)
+  const named = new Set(release.testRuns)
+  return testRuns.filter(run =>
+    named.has(run.id) ||
+    (plans.has(run.testPlanId) && (!release.startDate || run.startedAt.slice(0, 10) >= release.startDate))
+  )
+}
+
+const runTime = (run: TestRun) => run.completedAt || run.startedAt
+
+/**
+ * Check the exit criteria of a release against its runs. testCases are the
+ * test cases the release is made up of, testRuns the runs that count
+ * towards it (see getReleaseRuns).
+ */
+export function evaluateRelease(
+  release: Release,
+  testCases: TestCase[],
+  testRuns: TestRun[],
+  evaluatedAt = new Date().toISOString()
+): ReleaseReadiness {
+  const latest = getLatestResults(testRuns)
+  const statusOf = (testCase: TestCase) => latest.get(testCase.id)?.status
+  const executed = testCases.filter(testCase => statusOf(testCase) && statusOf(testCase) !== 'skip')
+  const passed = executed.filter(testCase => statusOf(testCase) === 'pass')
+  const failed = executed.filter(testCase => statusOf(testCase) === 'fail')
+  const passRate = executed.length > 0 ? Math.round((passed.length / executed.length) * 1000) / 10 : 0
+
+  const criteria = release.exitCriteria.map((criterion): CriterionEvaluation => {
+    const inScope = testCases.filter(testCase => !criterion.priority || testCase.priority === criterion.priority)
+    const label = describeCriterion(criterion)
+
+    switch (criterion.type) {
+      case 'passRate': {
+        const notPassing = executed.filter(testCase => statusOf(testCase) !== 'pass').map(testCase => testCase.id)
+        const met = executed.length > 0 && passRate >= (criterion.threshold ?? 100)
+        return { criterion, label, met, actual: `${passRate}%`, testCaseIds: met ? [] : notPassing }
+      }
+      case 'noOpenFailures': {
+        const failing = inScope.filter(testCase => statusOf(testCase) === 'fail').map(testCase => testCase.id)
+        return { criterion, label, met: failing.length === 0, actual: `${failing.length} failing`, testCaseIds: failing }
+      }
+      case 'allExecuted': {
+        const missing = inScope.filter(testCase => !statusOf(testCase) || statusOf(testCase) === 'skip').map(testCase => testCase.id)
+        return {
+          criterion,
+          label,
+          met: missing.length === 0,
+          actual: `${inScope.length - missing.length} of ${inScope.length} executed`,
+          testCaseIds: missing
+        }
+      }
+    }
+  })
+
+  return {
+    releaseId: release.id,
+    verdict: criteria.every(evaluation => evaluation.met) ? 'go' : 'no_go',
+    evaluatedAt,
+    criteria,
+    summary: {
+      testCases: testCases.length,
+      executed: executed.length,
+      passed: passed.length,
+      failed: failed.length,
+      passRate,
+      testRuns: testRuns.length
+    }
+  }
+}
+
+// How the verdict developed, one point per run of the release, oldest first
+export function getReadinessHistory(release: Release, testCases: TestCase[], testRuns: TestRun[]): ReadinessHistoryPoint[] {
+  const ordered = [...testRuns].sort((a, b) => new Date(runTime(a)).getTime() - new Date(runTime(b)).getTime())
+
+  return ordered.map((run, index) => {
+    const readiness = evaluateRelease(release, testCases, ordered.slice(0, index + 1), runTime(run))
+    return {
+      at: runTime(run),
+      testRunId: run.id,
+      testRunName: run.name,
+      verdict: readiness.verdict,
+      passRate: readiness.summary.passRate,
+      criteriaMet: readiness.criteria.filter(evaluation => evaluation.met).length
+    }
+  })
+}
@@ -0,0 +1,158 @@
+import { GitHubIssue, Requirement, TestCase, TestResultStatus } from './types'
+import { LatestTestResult } from './test-execution-utils'
+
+/**
+ * Requirements list the test cases covering them; a test case can cover
+ * several requirements. Links to test cases that no longer exist, e.g.
+ * after the test case was moved to the trash, are kept but don't count as
+ * coverage.
+ */
+
+// How well a requirement is verified by the latest results of its test cases
+export type RequirementCoverage =
+  | 'uncovered' // No test case covers it
+  | 'failing' // The latest result of a covering test case failed
+  | 'incomplete' // Some covering test cases have not passed yet
+  | 'passing' // The latest result of every covering test case passed
+
+export const REQUIREMENT_COVERAGES: RequirementCoverage[] = ['uncovered', 'failing', 'incomplete', 'passing']
+
+export interface TraceabilityTestCase {
+  id: string
+  title: string
+  status: TestResultStatus // not_executed when the test case was never run
+  executedAt?: string
+  testRunId?: string
+  testRunName?: string
+}
+
+export interface TraceabilityRow {
+  requirement: Requirement
+  coverage: RequirementCoverage
+  testCases: TraceabilityTestCase[]
+}
+
+export interface TraceabilityMatrix {
+  summary: Record<RequirementCoverage, number> & { total: number; coveragePercent: number }
+  rows: TraceabilityRow[]
+}
+
+const REQUIREMENT_NUMBER = /^REQ-(\d+)$/
+
+// Next free ID of the REQ-<n> sequence
+export function nextRequirementId(requirements: Pick<Requirement, 'id'>[]): string {
+  const highest = requirements.reduce((max, requirement) => {
+    const match = REQUIREMENT_NUMBER.exec(requirement.id)
+    return match ? Math.max(max, Number(match[1])) : max
+  }, 0)
+  return `REQ-${highest + 1}`
+}
+
+export function compareRequirementIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+}
+
+// ID of the requirement imported from an issue, e.g. GH-acme-shop-12 for acme/shop#12
+export function getGitHubRequirementId(repository: string, issueNumber: number): string {
+  return `GH-${repository.replace(/[^A-Za-z0-9._-]+/g, '-')}-${issueNumber}`
+}
+
+/**
+ * Acceptance criteria of an issue body: its task list items, or else the
+ * list items under an "Acceptance criteria" heading.
+ */
+export function parseAcceptanceCriteria(body: string | null): string[] {
+  const lines = (body || '').split(/\r?\n/)
+
+  const tasks = lines
+    .map(line => /^\s*[-*]\s+\[[ xX]\]\s+(.+)$/.exec(line)?.[1].trim())
+    .filter((task): task is string => Boolean(task))
+  if (tasks.length > 0) return tasks
+
+  const criteria: string[] = []
+  let inSection = false
+  for (const line of lines) {
+    // Markdown headings and lines that are bold as a whole
+    const heading = /^\s*(?:#{1,6}\s+(.+?)|\*\*(.+?)\*\*:?)\s*$/.exec(line)
+    if (heading) {
+      if (inSection) break
+      inSection = /acceptance criteria/i.test(heading[1] || heading[2])
+      continue
+    }
+    const item = /^\s*(?:[-*]|\d+[.)])\s+(.+)$/.exec(line)
+    if (inSection && item) criteria.push(item[1].trim())
+  }
+  return criteria
+}
+
+/**
+ * Requirement for a GitHub issue. Re-importing an issue updates the title,
+ * description and acceptance criteria and keeps the covering test cases.
+ */
+export function requirementFromIssue(
+  issue: Pick<GitHubIssue, 'number' | 'title' | 'body' | 'html_url'>,
+  repository: string,
+  createdBy: string,
+  existing?: Requirement
+): Requirement {
+  const now = new Date().toISOString()
+  const description = (issue.body || '').trim()
+
+  return {
+    id: existing?.id || getGitHubRequirementId(repository, issue.number),
+    title: issue.title,
+    ...(description ? { description } : {}),
+    source: `${repository}#${issue.number}`,
+    acceptanceCriteria: parseAcceptanceCriteria(issue.body),
+    githubIssue: { number: issue.number, url: issue.html_url, repository },
+    testCases: existing?.testCases || [],
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    createdBy: existing?.createdBy || createdBy
+  }
+}
+
+function getCoverage(testCases: TraceabilityTestCase[]): RequirementCoverage {
+  if (testCases.length === 0) return 'uncovered'
+  if (testCases.some(testCase => testCase.status === 'fail')) return 'failing'
+  return testCases.every(testCase => testCase.status === 'pass') ? 'passing' : 'incomplete'
+}
+
+export function buildTraceabilityMatrix(
+  requirements: Requirement[],
+  testCases: Pick<TestCase, 'id' | 'title'>[],
+  latestResults: Map<string, LatestTestResult>
+): TraceabilityMatrix {
+  const titles = new Map(testCases.map(testCase => [testCase.id, testCase.title]))
+
+  const rows = [...requirements]
+    .sort((a, b) => compareRequirementIds(a.id, b.id))
+    .map(requirement => {
+      const covering = requirement.testCases
+        .filter(testCaseId => titles.has(testCaseId))
+        .map(testCaseId => {
+          const latest = latestResults.get(testCaseId)
+          return {
+            id: testCaseId,
+            title: titles.get(testCaseId)!,
+            status: latest?.status || 'not_executed',
+            ...(latest ? { executedAt: latest.executedAt, testRunId: latest.testRunId, testRunName: latest.testRunName } : {})
+          }
+        })
+      return { requirement, coverage: getCoverage(covering), testCases: covering }
+    })
+
+  const counts = Object.fromEntries(REQUIREMENT_COVERAGES.map(coverage => [
+    coverage,
+    rows.filter(row => row.coverage === coverage).length
+  ])) as Record<RequirementCoverage, number>
+
+  return {
+    summary: {
+      ...counts,
+      total: rows.length,
+      coveragePercent: rows.length > 0 ? Math.round(((rows.length - counts.uncovered) / rows.length) * 100) : 0
+    },
+    rows
+  }
+}
@@ -0,0 +1,194 @@
+import { SharedStep, TestCase, TestStep } from './types'
+
+/**
+ * Field-level and step-level comparison of two test case or shared step snapshots
+ */
+
+export type DiffableField =
+  | 'title'
+  | 'description'
+  | 'preconditions'
+  | 'expectedResult'
+  | 'priority'
+  | 'tags'
+  | 'parameters'
+  | 'customFields'
+  | 'suiteId'
+  | 'reviewStatus'
+  | 'reviewers'
+  | 'githubIssue'
+  | 'automatedTests'
+
+export interface FieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface StepChange {
+  type: 'added' | 'removed' | 'modified' | 'unchanged'
+  fromStep?: number // 1-based position in the older snapshot
+  toStep?: number // 1-based position in the newer snapshot
+  changes: FieldChange[]
+}
+
+export interface TestCaseDiff {
+  fields: FieldChange[]
+  steps: StepChange[]
+  hasChanges: boolean
+}
+
+const DIFFABLE_FIELDS: DiffableField[] = [
+  'title',
+  'description',
+  'preconditions',
+  'expectedResult',
+  'priority',
+  'tags',
+  'parameters',
+  'customFields',
+  'suiteId',
+  'reviewStatus',
+  'reviewers',
+  'githubIssue',
+  'automatedTests'
+]
+
+const SHARED_STEP_FIELDS: Array<keyof Pick<SharedStep, 'title' | 'description' | 'tags'>> = ['title', 'description', 'tags']
+
+type StepField = keyof Pick<TestStep, 'action' | 'expectedResult' | 'sharedStepId' | 'sharedStepVersion'>
+
+const STEP_FIELDS: StepField[] = ['action', 'expectedResult', 'sharedStepId', 'sharedStepVersion']
+
+function normalize(value: unknown): unknown {
+  // Treat missing, null and empty values as the same thing
+  if (value === undefined || value === null || value === '') return null
+  if (Array.isArray(value) && value.length === 0) return null
+  return value
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+function stepKey(step: TestStep): string {
+  return STEP_FIELDS.map(field => step[field] ?? '').join('\u0000')
+}
+
+function diffStepFields(from: TestStep, to: TestStep): FieldChange[] {
+  return STEP_FIELDS
+    .filter(field => !isEqual(from[field], to[field]))
+    .map(field => ({ field, from: from[field], to: to[field] }))
+}
+
+/**
+ * Align steps with a longest-common-subsequence match on their text, so an
+ * inserted step shows up as one addition instead of every later step changing.
+ * Unmatched steps between two matches are paired up as modifications.
+ */
+function diffSteps(fromSteps: TestStep[], toSteps: TestStep[]): StepChange[] {
+  const m = fromSteps.length
+  const n = toSteps.length
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0))
+
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = stepKey(fromSteps[i]) === stepKey(toSteps[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const changes: StepChange[] = []
+  let removed: number[] = []
+  let added: number[] = []
+
+  const flushGap = () => {
+    const paired = Math.min(removed.length, added.length)
+    for (let k = 0; k < paired; k++) {
+      changes.push({
+        type: 'modified',
+        fromStep: removed[k] + 1,
+        toStep: added[k] + 1,
+        changes: diffStepFields(fromSteps[removed[k]], toSteps[added[k]])
+      })
+    }
+    removed.slice(paired).forEach(i => changes.push({ type: 'removed', fromStep: i + 1, changes: [] }))
+    added.slice(paired).forEach(j => changes.push({ type: 'added', toStep: j + 1, changes: [] }))
+    removed = []
+    added = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < m || j < n) {
+    if (i < m && j < n && stepKey(fromSteps[i]) === stepKey(toSteps[j])) {
+      flushGap()
+      changes.push({ type: 'unchanged', fromStep: i + 1, toStep: j + 1, changes: [] })
+      i++
+      j++
+    } else if (j < n && (i === m || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(j++)
+    } else {
+      removed.push(i++)
+    }
+  }
+  flushGap()
+
+  return changes
+}
+
+export function diffTestCases(from: TestCase, to: TestCase): TestCaseDiff {
+  const fields = DIFFABLE_FIELDS
+    .filter(field => !isEqual(from[field], to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }))
+
+  const steps = diffSteps(from.steps || [], to.steps || [])
+
+  return {
+    fields,
+    steps,
+    hasChanges: fields.length > 0 || steps.some(step => step.type !== 'unchanged')
+  }
+}
+
+// Same shape as a test case diff, used for the impact preview of an edit
+export function diffSharedSteps(from: SharedStep, to: Pick<SharedStep, 'title' | 'description' | 'tags' | 'steps'>): TestCaseDiff {
+  const fields = SHARED_STEP_FIELDS
+    .filter(field => !isEqual(from[field], to[field]))
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }))
+
+  const steps = diffSteps(from.steps || [], to.steps || [])
+
+  return {
+    fields,
+    steps,
+    hasChanges: fields.length > 0 || steps.some(step => step.type !== 'unchanged')
+  }
+}
+
+/**
+ * Human readable one-line description of a diff, used as the default
+ * change summary when the author does not provide one
+ */
+export function summarizeDiff(diff: TestCaseDiff): string {
+  if (!diff.hasChanges) {
+    return 'No changes'
+  }
+
+  const parts: string[] = []
+
+  if (diff.fields.length > 0) {
+    parts.push(`Updated ${diff.fields.map(change => change.field).join(', ')}`)
+  }
+
+  const stepTypes: StepChange['type'][] = ['added', 'removed', 'modified']
+  stepTypes.forEach(type => {
+    const count = diff.steps.filter(step => step.type === type).length
+    if (count > 0) {
+      parts.push(`${count} step${count === 1 ? '' : 's'} ${type}`)
+    }
+  })
+
+  return parts.join('; ')
+}
@@ -0,0 +1,138 @@
+import { TestCase, TestResultStatus, TestRun } from './types'
+import { isSameSlot } from './configurations'
+
+/**
+ * Splitting a run across testers. A run keeps the tester each of its test
+ * cases is assigned to in assignees; these helpers work out assignments in
+ * bulk and what each tester has left to do.
+ */
+
+export interface TagAssignmentRule {
+  tag: string
+  assignee: string
+}
+
+// One way of changing the assignments of a run
+export type AssignmentRequest =
+  | { assignments: Record<string, string | null> } // Set or, with null, clear the assignee of each test case
+  | { roundRobin: { assignees: string[]; testCaseIds?: string[]; onlyUnassigned?: boolean } }
+  | { byTag: TagAssignmentRule[] } // The first rule whose tag a test case has decides its assignee
+
+export interface AssignedTest {
+  testRunId: string
+  testRunName: string
+  testPlanId: string
+  testCaseId: string
+  configuration?: string // Set in runs with configurations, which assign a test case in all of them
+  status: TestResultStatus
+}
+
+export interface AssigneeWorkload {
+  assignee: string | null // Null for the test cases nobody is assigned to
+  assigned: number
+  executed: number
+  passed: number
+  failed: number
+  blocked: number
+  remaining: number
+  progress: number // Percentage executed, rounded
+}
+
+// Runs that are over have nothing left to assign or execute
+const OPEN_RUN_STATUSES = ['not_started', 'in_progress', 'paused']
+
+export function isOpenRun(testRun: TestRun): boolean {
+  return OPEN_RUN_STATUSES.includes(testRun.status)
+}
+
+const sameTester = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// The test cases of a run: those its plan resolved to, those with results and those assigned
+export function getRunTestCaseIds(testRun: TestRun): string[] {
+  return [...new Set([
+    ...(testRun.planSnapshot?.testCaseIds || []),
+    ...testRun.results.map(result => result.testCaseId),
+    ...Object.keys(testRun.assignees || {})
+  ])]
+}
+
+// Each test case once per configuration of the run, or once when it has none
+function getConfigurationIds(testRun: TestRun): (string | undefined)[] {
+  return testRun.configurations?.length ? testRun.configurations.map(configuration => configuration.id) : [undefined]
+}
+
+function getStatus(testRun: TestRun, testCaseId: string, configuration?: string): TestResultStatus {
+  return testRun.results.find(result => isSameSlot(result, testCaseId, configuration))?.status || 'not_executed'
+}
+
+// Deal the test cases out to the testers in turn
+export function assignRoundRobin(testCaseIds: string[], assignees: string[]): Record<string, string> {
+  const assignments: Record<string, string> = {}
+  testCaseIds.forEach((testCaseId, index) => {
+    assignments[testCaseId] = assignees[index % assignees.length]
+  })
+  return assignments
+}
+
+// Assign each test case to the tester of the first rule whose tag it has; others are left out
+export function assignByTag(testCases: TestCase[], rules: TagAssignmentRule[]): Record<string, string> {
+  const assignments: Record<string, string> = {}
+  testCases.forEach(testCase => {
+    const tags = testCase.tags.map(tag => tag.toLowerCase())
+    const rule = rules.find(candidate => tags.includes(candidate.tag.trim().toLowerCase()))
+    if (rule) {
+      assignments[testCase.id] = rule.assignee
+    }
+  })
+  return assignments
+}
+
+// The test cases assigned to a tester in the open runs, names compared ignoring case
+export function getAssignedTests(testRuns: TestRun[], assignee: string): AssignedTest[] {
+  return testRuns.filter(isOpenRun).flatMap(testRun =>
+    Object.entries(testRun.assignees || {})
+      .filter(([, assigned]) => sameTester(assigned, assignee))
+      .flatMap(([testCaseId]) => getConfigurationIds(testRun).map(configuration => ({
+        testRunId: testRun.id,
+        testRunName: testRun.name,
+        testPlanId: testRun.testPlanId,
+        testCaseId,
+        ...(configuration ? { configuration } : {}),
+        status: getStatus(testRun, testCaseId, configuration)
+      })))
+  )
+}
+
+// Progress of each tester over the test cases of the runs in each configuration, unassigned test cases last
+export function getWorkload(testRuns: TestRun[]): AssigneeWorkload[] {
+  // Keyed by the lowercased name, shown as first seen
+  const workloads = new Map<string | null, AssigneeWorkload>()
+
+  testRuns.forEach(testRun => {
+    getRunTestCaseIds(testRun).flatMap(testCaseId =>
+      getConfigurationIds(testRun).map(configuration => ({ testCaseId, configuration }))
+    ).forEach(({ testCaseId, configuration }) => {
+      const assignee = testRun.assignees?.[testCaseId]?.trim() || null
+      const key = assignee && assignee.toLowerCase()
+      const workload = workloads.get(key) || {
+        assignee, assigned: 0, executed: 0, passed: 0, failed: 0, blocked: 0, remaining: 0, progress: 0
+      }
+      workloads.set(key, workload)
+
+      const status = getStatus(testRun, testCaseId, configuration)
+      workload.assigned++
+      if (status === 'not_executed') {
+        workload.remaining++
+      } else {
+        workload.executed++
+      }
+      if (status === 'pass') workload.passed++
+      if (status === 'fail') workload.failed++
+      if (status === 'blocked') workload.blocked++
+    })
+  })
+
+  return [...workloads.values()]
+    .map(workload => ({ ...workload, progress: Math.round((workload.executed / workload.assigned) * 100) }))
+    .sort((a, b) => a.assignee === null ? 1 : b.assignee === null ? -1 : a.assignee.localeCompare(b.assignee))
+}
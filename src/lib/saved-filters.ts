@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from 'uuid'
+
+// Named test case searches, kept per browser like repository favorites
+export interface SavedFilter {
+  id: string
+  name: string
+  query: string // In the search syntax, e.g. priority:critical -tag:flaky
+}
+
+const SAVED_FILTERS_KEY = 'testcase_saved_filters'
+
+export class SavedFiltersManager {
+  static getFilters(): SavedFilter[] {
+    if (typeof window === 'undefined') return []
+
+    try {
+      const stored = localStorage.getItem(SAVED_FILTERS_KEY)
+      return stored ? JSON.parse(stored) : []
+    } catch {
+      return []
+    }
+  }
+
+  // Saving under an existing name replaces that filter's query
+  static saveFilter(name: string, query: string): SavedFilter[] {
+    if (typeof window === 'undefined') return []
+
+    const filters = this.getFilters()
+    const existing = filters.find(filter => filter.name === name)
+    const updated = existing
+      ? filters.map(filter => (filter.id === existing.id ? { ...filter, query } : filter))
+      : [...filters, { id: uuidv4(), name, query }]
+    localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(updated))
+    return updated
+  }
+
+  static removeFilter(id: string): SavedFilter[] {
+    if (typeof window === 'undefined') return []
+
+    const updated = this.getFilters().filter(filter => filter.id !== id)
+    localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(updated))
+    return updated
+  }
+}
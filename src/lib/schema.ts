@@ -0,0 +1,1121 @@
+import {
+  ConfigurationDimension,
+  CustomFieldEntityType,
+  CustomFieldType,
+  ExitCriterionType,
+  Priority,
+  ReleaseKind,
+  ReleaseStatus,
+  TestCase,
+  TestPlan,
+  TestResult,
+  TestResultStatus,
+  TestRun,
+  TestRunSource,
+  TestRunStatus,
+  TestStepStatus,
+  TrashEntityType
+} from './types'
+import { getReferencedParameters } from './test-parameters'
+import { REVIEW_ACTIONS, REVIEW_STATUSES } from './test-case-review'
+import { BULK_OPERATION_TYPES } from './bulk-edit'
+import { ATTACHMENT_TARGET_TYPES } from './attachments'
+import { MAX_CONFIGURATIONS, countConfigurations } from './configurations'
+import { findDependencyCycle } from './test-dependencies'
+
+/**
+ * Runtime schema for the stored entities. Every write through FileUtils is
+ * checked against it, and the workspace validator uses it to find and
+ * repair documents written before it existed.
+ */
+
+export interface SchemaIssue {
+  path: string // e.g. 'priority' or 'results[0].steps[1].status'
+  message: string
+  repairable: boolean
+}
+
+export interface RepairResult<T> {
+  value: T
+  repairs: string[] // Human readable description of every change made
+}
+
+export class SchemaValidationError extends Error {
+  constructor(public entityType: string, public issues: SchemaIssue[]) {
+    super(`Invalid ${entityType}: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`)
+    this.name = 'SchemaValidationError'
+  }
+}
+
+export const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical']
+export const TEST_RUN_STATUSES: TestRunStatus[] = ['not_started', 'in_progress', 'completed', 'paused', 'aborted']
+export const TEST_RUN_SOURCES: TestRunSource[] = ['manual', 'automated']
+export const TEST_RESULT_STATUSES: TestResultStatus[] = ['pass', 'fail', 'skip', 'blocked', 'partial', 'not_executed']
+export const TEST_STEP_STATUSES: TestStepStatus[] = ['pass', 'fail', 'skip', 'blocked', 'not_executed']
+export const RELEASE_KINDS: ReleaseKind[] = ['release', 'milestone']
+export const RELEASE_STATUSES: ReleaseStatus[] = ['planned', 'in_progress', 'released', 'cancelled']
+export const EXIT_CRITERION_TYPES: ExitCriterionType[] = ['passRate', 'noOpenFailures', 'allExecuted']
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'enum', 'multiSelect', 'date', 'user']
+export const CUSTOM_FIELD_ENTITY_TYPES: CustomFieldEntityType[] = ['testCase', 'testPlan', 'testRun']
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = ['testCase', 'testPlan', 'testRun']
+
+// Field IDs are used as keys in the stored documents and in field.<id> list filters
+const CUSTOM_FIELD_ID = /^[A-Za-z][A-Za-z0-9_-]*$/
+
+// Requirement IDs are chosen by people, e.g. REQ-12, and name the stored file
+const REQUIREMENT_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/
+
+// Attachment content is stored under its hash
+const SHA256 = /^[0-9a-f]{64}$/
+
+// owner/repo
+const REPOSITORY = /^[\w.-]+\/[\w.-]+$/
+
+// Localized priorities written by the multilingual generators
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  lav: 'low',
+  niedrig: 'low',
+  bas: 'low',
+  middels: 'medium',
+  mittel: 'medium',
+  moyen: 'medium',
+  høy: 'high',
+  hoch: 'high',
+  élevé: 'high',
+  kritisk: 'critical',
+  kritisch: 'critical',
+  critique: 'critical'
+}
+
+const DEFAULT_PLAN_VERSION = '1.0'
+
+// Full ISO 8601 timestamp with an explicit zone, as written by toISOString()
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+
+/**
+ * Map a priority, including localized spellings, onto the canonical values.
+ * Returns undefined for anything that isn't a known priority.
+ */
+export function normalizePriority(value: unknown): Priority | undefined {
+  if (typeof value !== 'string') return undefined
+
+  const key = value.toLowerCase().trim()
+  if ((PRIORITIES as string[]).includes(key)) return key as Priority
+  return Object.prototype.hasOwnProperty.call(PRIORITY_ALIASES, key) ? PRIORITY_ALIASES[key] : undefined
+}
+
+export function isValidTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && ISO_TIMESTAMP.test(value) && !isNaN(Date.parse(value))
+}
+
+/**
+ * Recover a timestamp from a malformed value such as '2025-07-20T10:03:42.3NZ'
+ * or a Date parsed from unquoted YAML. Unparseable zones are read as UTC.
+ */
+export function repairTimestamp(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString()
+  }
+  if (typeof value !== 'string') return undefined
+
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2})?)(\.\d+)?)?/)
+  if (!match) return undefined
+
+  const [, date, time = '00:00:00', fraction = ''] = match
+  const parsed = new Date(`${date}T${time}${fraction}Z`)
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
+
+// Field checks, each pushing onto the shared issue list
+
+type Doc = Record<string, unknown>
+
+function isObject(value: unknown): value is Doc {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function join(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`
+  return base ? `${base}.${key}` : key
+}
+
+// Issues of a document embedded in another one, with paths from the outer document
+function nested(base: string, issues: SchemaIssue[]): SchemaIssue[] {
+  return issues.map(issue => ({ ...issue, path: issue.path ? join(base, issue.path) : base }))
+}
+
+function requireString(doc: Doc, key: string, base: string, issues: SchemaIssue[], allowEmpty = true) {
+  const value = doc[key]
+  if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+    issues.push({ path: join(base, key), message: allowEmpty ? 'must be a string' : 'is required', repairable: false })
+  }
+}
+
+function optionalString(doc: Doc, key: string, base: string, issues: SchemaIssue[]) {
+  if (doc[key] !== undefined && doc[key] !== null && typeof doc[key] !== 'string') {
+    issues.push({ path: join(base, key), message: 'must be a string', repairable: false })
+  }
+}
+
+function checkTimestamp(doc: Doc, key: string, base: string, issues: SchemaIssue[], required = true) {
+  const value = doc[key]
+  if (value === undefined || value === null || value === '') {
+    if (required) issues.push({ path: join(base, key), message: 'is required', repairable: false })
+    return
+  }
+  if (!isValidTimestamp(value)) {
+    issues.push({
+      path: join(base, key),
+      message: `is not a valid ISO 8601 timestamp: ${String(value)}`,
+      repairable: repairTimestamp(value) !== undefined
+    })
+  }
+}
+
+function checkStatus(doc: Doc, key: string, base: string, allowed: string[], issues: SchemaIssue[]) {
+  if (!allowed.includes(doc[key] as string)) {
+    issues.push({ path: join(base, key), message: `must be one of ${allowed.join(', ')}`, repairable: false })
+  }
+}
+
+function checkDate(doc: Doc, key: string, base: string, issues: SchemaIssue[]) {
+  const value = doc[key]
+  if (value === undefined) return
+  if (typeof value !== 'string' || !DATE.test(value) || isNaN(Date.parse(value))) {
+    issues.push({ path: join(base, key), message: 'must be a date such as 2025-07-01', repairable: false })
+  }
+}
+
+function checkStringArray(doc: Doc, key: string, base: string, issues: SchemaIssue[], required = true) {
+  const value = doc[key]
+  if (value === undefined && !required) return
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    issues.push({ path: join(base, key), message: 'must be a list of strings', repairable: false })
+  }
+}
+
+// Parameter names must work as {{name}} placeholders
+const PARAMETER_NAME = /^[^{}\s]+$/
+
+function checkParameters(doc: Doc, issues: SchemaIssue[]) {
+  const parameters = doc.parameters
+  // Without a data table, {{...}} in steps is plain text
+  if (parameters === undefined || parameters === null) return
+  if (!isObject(parameters)) {
+    issues.push({ path: 'parameters', message: 'must have names and rows', repairable: false })
+    return
+  }
+
+  checkStringArray(parameters, 'names', 'parameters', issues)
+  const names = Array.isArray(parameters.names) ? parameters.names.filter(name => typeof name === 'string') : []
+  names.forEach((name, index) => {
+    if (!PARAMETER_NAME.test(name)) {
+      issues.push({ path: join('parameters.names', index), message: 'must not be empty or contain spaces or braces', repairable: false })
+    }
+  })
+  if (new Set(names).size !== names.length) {
+    issues.push({ path: 'parameters.names', message: 'contains duplicate names', repairable: false })
+  }
+
+  if (!Array.isArray(parameters.rows)) {
+    issues.push({ path: 'parameters.rows', message: 'must be a list', repairable: false })
+  } else {
+    const rowIds = new Set<unknown>()
+    parameters.rows.forEach((row, index) => {
+      const base = join('parameters.rows', index)
+      if (!isObject(row)) {
+        issues.push({ path: base, message: 'must be an object', repairable: false })
+        return
+      }
+      requireString(row, 'id', base, issues, false)
+      if (rowIds.has(row.id)) {
+        issues.push({ path: join(base, 'id'), message: `is a duplicate: ${String(row.id)}`, repairable: false })
+      }
+      rowIds.add(row.id)
+
+      if (!isObject(row.values) || Object.values(row.values).some(value => typeof value !== 'string')) {
+        issues.push({ path: join(base, 'values'), message: 'must map names to strings', repairable: false })
+      } else {
+        Object.keys(row.values).filter(name => !names.includes(name)).forEach(name => {
+          issues.push({ path: join(join(base, 'values'), name), message: 'is not a parameter name', repairable: false })
+        })
+      }
+    })
+  }
+
+  if (Array.isArray(doc.steps)) {
+    const unknown = getReferencedParameters({ steps: doc.steps.filter(isObject) as unknown as TestCase['steps'] })
+      .filter(name => !names.includes(name))
+    if (unknown.length > 0) {
+      issues.push({ path: 'steps', message: `reference unknown parameters: ${unknown.join(', ')}`, repairable: false })
+    }
+  }
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+// Shared steps can't reference other shared steps, so allowReferences is off for them
+function checkSteps(doc: Doc, issues: SchemaIssue[], allowReferences: boolean) {
+  if (!Array.isArray(doc.steps)) {
+    issues.push({ path: 'steps', message: 'must be a list', repairable: false })
+    return
+  }
+
+  doc.steps.forEach((step, index) => {
+    const base = join('steps', index)
+    if (!isObject(step)) {
+      issues.push({ path: base, message: 'must be an object', repairable: false })
+      return
+    }
+    requireString(step, 'id', base, issues, false)
+    requireString(step, 'action', base, issues)
+    requireString(step, 'expectedResult', base, issues)
+    if (typeof step.stepNumber !== 'number') {
+      issues.push({ path: join(base, 'stepNumber'), message: 'must be a number', repairable: false })
+    }
+
+    if (step.sharedStepId === undefined) return
+    if (!allowReferences) {
+      issues.push({ path: join(base, 'sharedStepId'), message: 'is not allowed inside a shared step', repairable: false })
+      return
+    }
+    requireString(step, 'sharedStepId', base, issues, false)
+    if (step.sharedStepVersion !== undefined && !isPositiveInteger(step.sharedStepVersion)) {
+      issues.push({ path: join(base, 'sharedStepVersion'), message: 'must be a positive integer', repairable: false })
+    }
+  })
+}
+
+// Only the shape of the values; checking them against the definitions needs the workspace
+function checkCustomFieldValues(doc: Doc, issues: SchemaIssue[]) {
+  const values = doc.customFields
+  if (values === undefined || values === null) return
+  if (!isObject(values)) {
+    issues.push({ path: 'customFields', message: 'must map field IDs to values', repairable: false })
+    return
+  }
+
+  Object.entries(values).forEach(([fieldId, value]) => {
+    const isValue = typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value)) ||
+      (Array.isArray(value) && value.every(item => typeof item === 'string'))
+    if (!isValue) {
+      issues.push({ path: join('customFields', fieldId), message: 'must be a string, number or list of strings', repairable: false })
+    }
+  })
+}
+
+function checkGitHubIssue(doc: Doc, issues: SchemaIssue[]) {
+  if (doc.githubIssue === undefined || doc.githubIssue === null) return
+
+  const issue = doc.githubIssue
+  if (!isObject(issue) || typeof issue.number !== 'number' || typeof issue.url !== 'string' ||
+      typeof issue.repository !== 'string') {
+    issues.push({ path: 'githubIssue', message: 'must have a number, url and repository', repairable: false })
+  }
+}
+
+function checkReview(doc: Doc, issues: SchemaIssue[]) {
+  if (doc.reviewStatus !== undefined) {
+    checkStatus(doc, 'reviewStatus', '', REVIEW_STATUSES, issues)
+  }
+  checkStringArray(doc, 'reviewers', '', issues, false)
+
+  if (doc.reviewComments === undefined) return
+  if (!Array.isArray(doc.reviewComments)) {
+    issues.push({ path: 'reviewComments', message: 'must be a list', repairable: false })
+    return
+  }
+  doc.reviewComments.forEach((comment, index) => {
+    const base = join('reviewComments', index)
+    if (!isObject(comment)) {
+      issues.push({ path: base, message: 'must be an object', repairable: false })
+      return
+    }
+    requireString(comment, 'id', base, issues, false)
+    requireString(comment, 'author', base, issues, false)
+    checkStatus(comment, 'action', base, REVIEW_ACTIONS, issues)
+    optionalString(comment, 'body', base, issues)
+    checkTimestamp(comment, 'createdAt', base, issues)
+  })
+}
+
+function checkStepResults(doc: Doc, base: string, issues: SchemaIssue[]) {
+  if (!Array.isArray(doc.steps)) {
+    issues.push({ path: join(base, 'steps'), message: 'must be a list', repairable: false })
+    return
+  }
+
+  doc.steps.forEach((step, index) => {
+    const stepBase = join(join(base, 'steps'), index)
+    if (!isObject(step)) {
+      issues.push({ path: stepBase, message: 'must be an object', repairable: false })
+      return
+    }
+    requireString(step, 'stepId', stepBase, issues, false)
+    checkStatus(step, 'status', stepBase, TEST_STEP_STATUSES, issues)
+    optionalString(step, 'actualResult', stepBase, issues)
+    optionalString(step, 'notes', stepBase, issues)
+    checkTimestamp(step, 'executedAt', stepBase, issues, false)
+    if (step.sharedStepVersion !== undefined && !isPositiveInteger(step.sharedStepVersion)) {
+      issues.push({ path: join(stepBase, 'sharedStepVersion'), message: 'must be a positive integer', repairable: false })
+    }
+  })
+}
+
+function checkConfigurationMatrix(doc: Doc, issues: SchemaIssue[]) {
+  const matrix = doc.configurationMatrix
+  if (matrix === undefined) return
+  if (!Array.isArray(matrix)) {
+    issues.push({ path: 'configurationMatrix', message: 'must be a list', repairable: false })
+    return
+  }
+
+  const issueCount = issues.length
+  const names = new Set<string>()
+  matrix.forEach((dimension, index) => {
+    const base = join('configurationMatrix', index)
+    if (!isObject(dimension)) {
+      issues.push({ path: base, message: 'must be an object', repairable: false })
+      return
+    }
+    requireString(dimension, 'name', base, issues, false)
+    if (typeof dimension.name === 'string') {
+      if (names.has(dimension.name)) {
+        issues.push({ path: join(base, 'name'), message: `is used by another dimension: ${dimension.name}`, repairable: false })
+      }
+      names.add(dimension.name)
+    }
+    checkStringArray(dimension, 'values', base, issues)
+    if (Array.isArray(dimension.values)) {
+      if (dimension.values.length === 0 || dimension.values.some(item => typeof item === 'string' && item.trim() === '')) {
+        issues.push({ path: join(base, 'values'), message: 'must list at least one value and no empty ones', repairable: false })
+      } else if (new Set(dimension.values).size !== dimension.values.length) {
+        issues.push({ path: join(base, 'values'), message: 'contains duplicate values', repairable: false })
+      }
+    }
+  })
+
+  if (issues.length === issueCount) {
+    const count = countConfigurations(matrix as ConfigurationDimension[])
+    if (count > MAX_CONFIGURATIONS) {
+      issues.push({ path: 'configurationMatrix', message: `expands to ${count} configurations, at most ${MAX_CONFIGURATIONS} are allowed`, repairable: false })
+    }
+  }
+}
+
+function checkDependencies(doc: Doc, issues: SchemaIssue[]) {
+  const dependencies = doc.dependencies
+  if (dependencies === undefined) return
+  if (!isObject(dependencies)) {
+    issues.push({ path: 'dependencies', message: 'must be an object', repairable: false })
+    return
+  }
+
+  let valid = true
+  Object.entries(dependencies).forEach(([testCaseId, prerequisites]) => {
+    if (!Array.isArray(prerequisites) || prerequisites.some(prerequisite => typeof prerequisite !== 'string')) {
+      issues.push({ path: join('dependencies', testCaseId), message: 'must be a list of strings', repairable: false })
+      valid = false
+    } else if (prerequisites.includes(testCaseId)) {
+      issues.push({ path: join('dependencies', testCaseId), message: 'must not depend on itself', repairable: false })
+      valid = false
+    }
+  })
+
+  const cycle = valid ? findDependencyCycle(dependencies as Record<string, string[]>) : null
+  if (cycle) {
+    issues.push({ path: 'dependencies', message: `form a cycle: ${cycle.join(' -> ')}`, repairable: false })
+  }
+}
+
+function checkConfigurations(doc: Doc, issues: SchemaIssue[]) {
+  const configurations = doc.configurations
+  if (configurations === undefined) return
+  if (!Array.isArray(configurations)) {
+    issues.push({ path: 'configurations', message: 'must be a list', repairable: false })
+    return
+  }
+
+  configurations.forEach((configuration, index) => {
+    const base = join('configurations', index)
+    if (!isObject(configuration)) {
+      issues.push({ path: base, message: 'must be an object', repairable: false })
+      return
+    }
+    requireString(configuration, 'id', base, issues, false)
+    if (!isObject(configuration.values)) {
+      issues.push({ path: join(base, 'values'), message: 'must be an object', repairable: false })
+    }
+  })
+
+  // Results can only be executed in the configurations of their run
+  const ids = new Set(configurations.map(configuration => isObject(configuration) ? configuration.id : undefined))
+  if (Array.isArray(doc.results)) {
+    doc.results.forEach((result, index) => {
+      if (isObject(result) && typeof result.configuration === 'string' && !ids.has(result.configuration)) {
+        issues.push({
+          path: join(join('results', index), 'configuration'),
+          message: `is not a configuration of the run: ${result.configuration}`,
+          repairable: false
+        })
+      }
+    })
+  }
+}
+
+function checkAutomatedTests(doc: Doc, key: string, base: string, issues: SchemaIssue[]) {
+  const tests = doc[key]
+  if (tests === undefined) return
+  if (!Array.isArray(tests)) {
+    issues.push({ path: join(base, key), message: 'must be a list', repairable: false })
+    return
+  }
+  tests.forEach((test, index) => {
+    const testBase = join(join(base, key), index)
+    if (!isObject(test)) {
+      issues.push({ path: testBase, message: 'must be an object', repairable: false })
+      return
+    }
+    requireString(test, 'testId', testBase, issues, false)
+    checkStatus(test, 'status', testBase, TEST_RESULT_STATUSES, issues)
+    optionalString(test, 'message', testBase, issues)
+  })
+}
+
+// Entity validators
+
+export function validateTestCase(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'title', '', issues, false)
+  requireString(value, 'description', '', issues)
+  optionalString(value, 'preconditions', '', issues)
+  optionalString(value, 'suiteId', '', issues)
+  requireString(value, 'expectedResult', '', issues)
+  requireString(value, 'createdBy', '', issues)
+  checkStringArray(value, 'tags', '', issues)
+  checkStringArray(value, 'automatedTests', '', issues, false)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+
+  if (!(PRIORITIES as unknown[]).includes(value.priority)) {
+    const canonical = normalizePriority(value.priority)
+    issues.push({
+      path: 'priority',
+      message: canonical
+        ? `is not canonical: ${String(value.priority)} (maps to ${canonical})`
+        : `must be one of ${PRIORITIES.join(', ')}`,
+      repairable: canonical !== undefined
+    })
+  }
+
+  checkSteps(value, issues, true)
+
+  checkGitHubIssue(value, issues)
+  checkParameters(value, issues)
+  checkCustomFieldValues(value, issues)
+  checkReview(value, issues)
+
+  return issues
+}
+
+export function validateTestPlan(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'name', '', issues, false)
+  requireString(value, 'description', '', issues)
+  requireString(value, 'createdBy', '', issues)
+  optionalString(value, 'repository', '', issues)
+
+  // Plans cloned before the schema existed were written without a version
+  if (value.version === undefined) {
+    issues.push({ path: 'version', message: 'is required', repairable: true })
+  } else {
+    requireString(value, 'version', '', issues)
+  }
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+  checkStringArray(value, 'testCases', '', issues)
+
+  if (Array.isArray(value.testCases) && new Set(value.testCases).size !== value.testCases.length) {
+    issues.push({ path: 'testCases', message: 'contains duplicate test case IDs', repairable: true })
+  }
+  checkStringArray(value, 'suites', '', issues, false)
+  optionalString(value, 'query', '', issues)
+  checkConfigurationMatrix(value, issues)
+  checkDependencies(value, issues)
+  if (value.approvedOnly !== undefined && typeof value.approvedOnly !== 'boolean') {
+    issues.push({ path: 'approvedOnly', message: 'must be true or false', repairable: false })
+  }
+  checkCustomFieldValues(value, issues)
+
+  return issues
+}
+
+export function validateSharedStep(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'title', '', issues, false)
+  optionalString(value, 'description', '', issues)
+  requireString(value, 'createdBy', '', issues)
+  optionalString(value, 'updatedBy', '', issues)
+  checkStringArray(value, 'tags', '', issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+  if (!isPositiveInteger(value.version)) {
+    issues.push({ path: 'version', message: 'must be a positive integer', repairable: false })
+  }
+  checkSteps(value, issues, false)
+
+  return issues
+}
+
+export function validateTestSuite(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'name', '', issues, false)
+  optionalString(value, 'description', '', issues)
+  optionalString(value, 'parentId', '', issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+  if (typeof value.position !== 'number' || !Number.isInteger(value.position) || value.position < 0) {
+    issues.push({ path: 'position', message: 'must be a non-negative integer', repairable: false })
+  }
+  if (value.parentId !== undefined && value.parentId === value.id) {
+    issues.push({ path: 'parentId', message: 'must not be the suite itself', repairable: false })
+  }
+
+  return issues
+}
+
+export function validateRequirement(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  if (typeof value.id !== 'string' || !REQUIREMENT_ID.test(value.id)) {
+    issues.push({ path: 'id', message: 'must start with a letter or digit and contain only letters, digits, ., - and _', repairable: false })
+  }
+  requireString(value, 'title', '', issues, false)
+  optionalString(value, 'description', '', issues)
+  optionalString(value, 'source', '', issues)
+  requireString(value, 'createdBy', '', issues)
+  checkStringArray(value, 'acceptanceCriteria', '', issues)
+  checkStringArray(value, 'testCases', '', issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+  checkGitHubIssue(value, issues)
+
+  return issues
+}
+
+// The plans and runs a release names are checked when it is saved
+export function validateRelease(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'name', '', issues, false)
+  optionalString(value, 'description', '', issues)
+  optionalString(value, 'version', '', issues)
+  requireString(value, 'createdBy', '', issues)
+  checkStatus(value, 'kind', '', RELEASE_KINDS, issues)
+  checkStatus(value, 'status', '', RELEASE_STATUSES, issues)
+  checkDate(value, 'startDate', '', issues)
+  checkDate(value, 'targetDate', '', issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+  checkStringArray(value, 'testPlans', '', issues)
+  checkStringArray(value, 'testRuns', '', issues)
+
+  if (!Array.isArray(value.exitCriteria)) {
+    issues.push({ path: 'exitCriteria', message: 'must be a list', repairable: false })
+  } else {
+    value.exitCriteria.forEach((criterion, index) => {
+      const base = join('exitCriteria', index)
+      if (!isObject(criterion)) {
+        issues.push({ path: base, message: 'must be an object', repairable: false })
+        return
+      }
+      requireString(criterion, 'id', base, issues, false)
+      checkStatus(criterion, 'type', base, EXIT_CRITERION_TYPES, issues)
+      if (criterion.type === 'passRate' && (typeof criterion.threshold !== 'number' || criterion.threshold < 0 || criterion.threshold > 100)) {
+        issues.push({ path: join(base, 'threshold'), message: 'must be a percentage from 0 to 100', repairable: false })
+      }
+      if (criterion.priority !== undefined) {
+        checkStatus(criterion, 'priority', base, PRIORITIES, issues)
+      }
+    })
+  }
+
+  return issues
+}
+
+// Request of a bulk edit; the test cases and plans it names are checked when it is applied
+export function validateBulkEditRequest(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  checkStringArray(value, 'testCaseIds', '', issues)
+  if (Array.isArray(value.testCaseIds) && value.testCaseIds.length === 0) {
+    issues.push({ path: 'testCaseIds', message: 'must not be empty', repairable: false })
+  }
+  if (value.dryRun !== undefined && typeof value.dryRun !== 'boolean') {
+    issues.push({ path: 'dryRun', message: 'must be true or false', repairable: false })
+  }
+  checkBulkOperations(value, issues)
+
+  return issues
+}
+
+function checkBulkOperations(doc: Doc, issues: SchemaIssue[]) {
+  const operations = doc.operations
+  if (!Array.isArray(operations) || operations.length === 0) {
+    issues.push({ path: 'operations', message: 'must be a non-empty list', repairable: false })
+    return
+  }
+
+  operations.forEach((operation, index) => {
+    const base = join('operations', index)
+    if (!isObject(operation) || !(BULK_OPERATION_TYPES as unknown[]).includes(operation.type)) {
+      issues.push({ path: join(base, 'type'), message: `must be one of ${BULK_OPERATION_TYPES.join(', ')}`, repairable: false })
+      return
+    }
+
+    switch (operation.type) {
+      case 'addTags':
+      case 'removeTags':
+        checkStringArray(operation, 'tags', base, issues)
+        if (Array.isArray(operation.tags) && operation.tags.length === 0) {
+          issues.push({ path: join(base, 'tags'), message: 'must not be empty', repairable: false })
+        }
+        break
+      case 'setPriority':
+        checkStatus(operation, 'priority', base, PRIORITIES, issues)
+        break
+      case 'setIssue':
+        if (typeof operation.repository !== 'string' || !REPOSITORY.test(operation.repository)) {
+          issues.push({ path: join(base, 'repository'), message: 'must be owner/repo', repairable: false })
+        }
+        if (operation.number !== undefined && !isPositiveInteger(operation.number)) {
+          issues.push({ path: join(base, 'number'), message: 'must be a positive integer', repairable: false })
+        }
+        break
+      case 'addToPlan':
+        requireString(operation, 'testPlanId', base, issues, false)
+        break
+    }
+  })
+
+  if (operations.length > 1 && operations.some(operation => isObject(operation) && operation.type === 'delete')) {
+    issues.push({ path: 'operations', message: 'delete can\'t be combined with other operations', repairable: false })
+  }
+}
+
+export function validateCustomFieldDefinition(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  if (typeof value.id !== 'string' || !CUSTOM_FIELD_ID.test(value.id)) {
+    issues.push({ path: 'id', message: 'must start with a letter and contain only letters, digits, - and _', repairable: false })
+  }
+  requireString(value, 'label', '', issues, false)
+  optionalString(value, 'description', '', issues)
+  checkStatus(value, 'type', '', CUSTOM_FIELD_TYPES, issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'updatedAt', '', issues)
+
+  if (!Array.isArray(value.entityTypes) || value.entityTypes.length === 0 ||
+      value.entityTypes.some(entityType => !(CUSTOM_FIELD_ENTITY_TYPES as unknown[]).includes(entityType))) {
+    issues.push({ path: 'entityTypes', message: `must list one or more of ${CUSTOM_FIELD_ENTITY_TYPES.join(', ')}`, repairable: false })
+  }
+
+  if (value.type === 'enum' || value.type === 'multiSelect') {
+    const options = value.options
+    if (!Array.isArray(options) || options.length === 0 || options.some(option => typeof option !== 'string' || !option.trim())) {
+      issues.push({ path: 'options', message: 'must be a non-empty list of values', repairable: false })
+    } else if (new Set(options).size !== options.length) {
+      issues.push({ path: 'options', message: 'contains duplicate values', repairable: false })
+    }
+  } else if (value.options !== undefined) {
+    issues.push({ path: 'options', message: 'are only allowed for enum and multiSelect fields', repairable: false })
+  }
+
+  return issues
+}
+
+export function validateTestResult(value: unknown, base = ''): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: base, message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'testCaseId', base, issues, false)
+  optionalString(value, 'configuration', base, issues)
+  checkStatus(value, 'status', base, TEST_RESULT_STATUSES, issues)
+  optionalString(value, 'blockedBy', base, issues)
+  checkTimestamp(value, 'executedAt', base, issues)
+  optionalString(value, 'executedBy', base, issues)
+  optionalString(value, 'actualResult', base, issues)
+  optionalString(value, 'notes', base, issues)
+  checkStringArray(value, 'screenshots', base, issues, false)
+
+  if (value.testCaseRevision !== undefined && !isPositiveInteger(value.testCaseRevision)) {
+    issues.push({ path: join(base, 'testCaseRevision'), message: 'must be a positive integer', repairable: false })
+  }
+  if (value.executionTime !== undefined && !(typeof value.executionTime === 'number' && value.executionTime >= 0)) {
+    issues.push({ path: join(base, 'executionTime'), message: 'must be a non-negative number', repairable: false })
+  }
+
+  checkStepResults(value, base, issues)
+  checkAutomatedTests(value, 'automatedTests', base, issues)
+
+  if (value.iterations !== undefined) {
+    if (!Array.isArray(value.iterations)) {
+      issues.push({ path: join(base, 'iterations'), message: 'must be a list', repairable: false })
+    } else {
+      value.iterations.forEach((iteration, index) => {
+        const iterationBase = join(join(base, 'iterations'), index)
+        if (!isObject(iteration)) {
+          issues.push({ path: iterationBase, message: 'must be an object', repairable: false })
+          return
+        }
+        requireString(iteration, 'rowId', iterationBase, issues, false)
+        checkStatus(iteration, 'status', iterationBase, TEST_RESULT_STATUSES, issues)
+        optionalString(iteration, 'notes', iterationBase, issues)
+        if (!isObject(iteration.values)) {
+          issues.push({ path: join(iterationBase, 'values'), message: 'must be an object', repairable: false })
+        }
+        checkStepResults(iteration, iterationBase, issues)
+      })
+    }
+  }
+
+  return issues
+}
+
+export function validateTestRun(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'testPlanId', '', issues, false)
+  requireString(value, 'name', '', issues, false)
+  requireString(value, 'executedBy', '', issues)
+  optionalString(value, 'notes', '', issues)
+  checkStatus(value, 'status', '', TEST_RUN_STATUSES, issues)
+  checkTimestamp(value, 'startedAt', '', issues)
+  checkTimestamp(value, 'completedAt', '', issues, false)
+  checkTimestamp(value, 'updatedAt', '', issues, false)
+  checkCustomFieldValues(value, issues)
+  if (value.source !== undefined) {
+    checkStatus(value, 'source', '', TEST_RUN_SOURCES, issues)
+  }
+  checkAutomatedTests(value, 'unmappedTests', '', issues)
+  if (value.planSnapshot !== undefined) {
+    if (!isObject(value.planSnapshot)) {
+      issues.push({ path: 'planSnapshot', message: 'must be an object', repairable: false })
+    } else {
+      checkStringArray(value.planSnapshot, 'testCaseIds', 'planSnapshot', issues)
+      optionalString(value.planSnapshot, 'query', 'planSnapshot', issues)
+      checkTimestamp(value.planSnapshot, 'resolvedAt', 'planSnapshot', issues)
+    }
+  }
+  checkConfigurations(value, issues)
+  if (value.assignees !== undefined) {
+    if (!isObject(value.assignees)) {
+      issues.push({ path: 'assignees', message: 'must be an object', repairable: false })
+    } else {
+      for (const testCaseId of Object.keys(value.assignees)) {
+        requireString(value.assignees, testCaseId, 'assignees', issues, false)
+      }
+    }
+  }
+
+  if (!Array.isArray(value.results)) {
+    issues.push({ path: 'results', message: 'must be a list', repairable: false })
+  } else {
+    value.results.forEach((result, index) => {
+      issues.push(...validateTestResult(result, join('results', index)))
+    })
+  }
+
+  return issues
+}
+
+/**
+ * The results and steps of a run document as submitted. Normalizing leaves
+ * out the entries it can't read, so they are checked before it does.
+ */
+export function validateTestRunEntries(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return []
+  const issues: SchemaIssue[] = []
+
+  const checkEntries = (entries: unknown, base: string, idKey: string, check?: (entry: Doc, entryBase: string) => void) => {
+    if (!Array.isArray(entries)) return
+    entries.forEach((entry, index) => {
+      const entryBase = join(base, index)
+      if (!isObject(entry)) {
+        issues.push({ path: entryBase, message: 'must be an object', repairable: false })
+        return
+      }
+      requireString(entry, idKey, entryBase, issues, false)
+      check?.(entry, entryBase)
+    })
+  }
+
+  checkEntries(value.stepResults, 'stepResults', 'stepId')
+  checkEntries(value.results, 'results', 'testCaseId', (result, resultBase) => {
+    checkEntries(result.steps, join(resultBase, 'steps'), 'stepId')
+    checkEntries(result.iterations, join(resultBase, 'iterations'), 'rowId', (iteration, iterationBase) => {
+      checkEntries(iteration.steps, join(iterationBase, 'steps'), 'stepId')
+    })
+  })
+
+  return issues
+}
+
+export function validateTestCaseRevision(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'testCaseId', '', issues, false)
+  requireString(value, 'author', '', issues)
+  requireString(value, 'summary', '', issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  if (!isPositiveInteger(value.revision)) {
+    issues.push({ path: 'revision', message: 'must be a positive integer', repairable: false })
+  }
+  issues.push(...nested('snapshot', validateTestCase(value.snapshot)))
+  if (isObject(value.snapshot) && value.snapshot.id !== value.testCaseId) {
+    issues.push({ path: 'snapshot.id', message: 'must match testCaseId', repairable: false })
+  }
+
+  return issues
+}
+
+const TRASH_VALIDATORS: Record<TrashEntityType, (value: unknown) => SchemaIssue[]> = {
+  testCase: validateTestCase,
+  testPlan: validateTestPlan,
+  testRun: validateTestRun
+}
+
+export function validateTrashEntry(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'entityId', '', issues, false)
+  requireString(value, 'name', '', issues)
+  requireString(value, 'deletedBy', '', issues)
+  checkStatus(value, 'entityType', '', TRASH_ENTITY_TYPES, issues)
+  checkTimestamp(value, 'deletedAt', '', issues)
+  checkTimestamp(value, 'expiresAt', '', issues)
+  checkStringArray(value, 'requirementLinks', '', issues, false)
+
+  if (!Array.isArray(value.planLinks)) {
+    issues.push({ path: 'planLinks', message: 'must be a list', repairable: false })
+  } else {
+    value.planLinks.forEach((link, index) => {
+      const base = join('planLinks', index)
+      if (!isObject(link)) {
+        issues.push({ path: base, message: 'must be an object', repairable: false })
+        return
+      }
+      requireString(link, 'testPlanId', base, issues, false)
+      if (typeof link.position !== 'number' || !Number.isInteger(link.position) || link.position < -1) {
+        issues.push({ path: join(base, 'position'), message: 'must be an integer of -1 or more', repairable: false })
+      }
+      checkStringArray(link, 'prerequisites', base, issues, false)
+      checkStringArray(link, 'dependents', base, issues, false)
+    })
+  }
+
+  const validateData = TRASH_VALIDATORS[value.entityType as TrashEntityType]
+  if (validateData) {
+    issues.push(...nested('data', validateData(value.data)))
+    if (isObject(value.data) && value.data.id !== value.entityId) {
+      issues.push({ path: 'data.id', message: 'must match entityId', repairable: false })
+    }
+  }
+
+  return issues
+}
+
+// A recorded bulk edit, as opposed to the request validateBulkEditRequest checks
+export function validateBulkEdit(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'createdBy', '', issues)
+  optionalString(value, 'undoneBy', '', issues)
+  checkTimestamp(value, 'createdAt', '', issues)
+  checkTimestamp(value, 'undoneAt', '', issues, false)
+  checkStringArray(value, 'trashEntryIds', '', issues)
+  checkBulkOperations(value, issues)
+
+  if (!Array.isArray(value.testCases)) {
+    issues.push({ path: 'testCases', message: 'must be a list', repairable: false })
+  } else {
+    value.testCases.forEach((change, index) => {
+      const base = join('testCases', index)
+      if (!isObject(change)) {
+        issues.push({ path: base, message: 'must be an object', repairable: false })
+        return
+      }
+      issues.push(...nested(join(base, 'before'), validateTestCase(change.before)))
+      if (change.after !== undefined) {
+        issues.push(...nested(join(base, 'after'), validateTestCase(change.after)))
+      }
+    })
+  }
+
+  if (!Array.isArray(value.planAdditions)) {
+    issues.push({ path: 'planAdditions', message: 'must be a list', repairable: false })
+  } else {
+    value.planAdditions.forEach((addition, index) => {
+      const base = join('planAdditions', index)
+      if (!isObject(addition)) {
+        issues.push({ path: base, message: 'must be an object', repairable: false })
+        return
+      }
+      requireString(addition, 'testPlanId', base, issues, false)
+      checkStringArray(addition, 'testCaseIds', base, issues)
+    })
+  }
+
+  return issues
+}
+
+export function validateAttachment(value: unknown): SchemaIssue[] {
+  if (!isObject(value)) return [{ path: '', message: 'must be an object', repairable: false }]
+  const issues: SchemaIssue[] = []
+
+  requireString(value, 'id', '', issues, false)
+  requireString(value, 'fileName', '', issues, false)
+  requireString(value, 'contentType', '', issues, false)
+  requireString(value, 'uploadedBy', '', issues)
+  checkTimestamp(value, 'uploadedAt', '', issues)
+  if (typeof value.sha256 !== 'string' || !SHA256.test(value.sha256)) {
+    issues.push({ path: 'sha256', message: 'must be a SHA-256 hash of 64 hexadecimal characters', repairable: false })
+  }
+  if (typeof value.size !== 'number' || !Number.isInteger(value.size) || value.size < 0) {
+    issues.push({ path: 'size', message: 'must be a non-negative integer', repairable: false })
+  }
+
+  if (!isObject(value.target)) {
+    issues.push({ path: 'target', message: 'must be an object', repairable: false })
+  } else {
+    checkStatus(value.target, 'type', 'target', ATTACHMENT_TARGET_TYPES, issues)
+    optionalString(value.target, 'testCaseId', 'target', issues)
+    optionalString(value.target, 'stepId', 'target', issues)
+    optionalString(value.target, 'testRunId', 'target', issues)
+  }
+
+  return issues
+}
+
+// Repairs for the known issues. Anything not listed is left untouched.
+
+function repairTimestampField(doc: Doc, key: string, base: string, repairs: string[]) {
+  const value = doc[key]
+  if (value === undefined || value === null || value === '' || isValidTimestamp(value)) return
+
+  const repaired = repairTimestamp(value)
+  if (repaired) {
+    doc[key] = repaired
+    repairs.push(`${join(base, key)}: ${String(value)} -> ${repaired}`)
+  }
+}
+
+export function repairTestCase(value: TestCase): RepairResult<TestCase> {
+  const testCase = { ...value } as unknown as Doc
+  const repairs: string[] = []
+
+  const priority = normalizePriority(testCase.priority)
+  if (priority && priority !== testCase.priority) {
+    repairs.push(`priority: ${String(testCase.priority)} -> ${priority}`)
+    testCase.priority = priority
+  }
+  repairTimestampField(testCase, 'createdAt', '', repairs)
+  repairTimestampField(testCase, 'updatedAt', '', repairs)
+
+  return { value: testCase as unknown as TestCase, repairs }
+}
+
+/**
+ * Repair a test plan. When the IDs of the existing test cases are given,
+ * references to test cases that no longer exist are removed as well.
+ */
+export function repairTestPlan(value: TestPlan, knownTestCaseIds?: Set<string>): RepairResult<TestPlan> {
+  const testPlan = { ...value } as unknown as Doc
+  const repairs: string[] = []
+
+  repairTimestampField(testPlan, 'createdAt', '', repairs)
+  repairTimestampField(testPlan, 'updatedAt', '', repairs)
+
+  if (testPlan.version === undefined) {
+    testPlan.version = DEFAULT_PLAN_VERSION
+    repairs.push(`version: missing -> ${DEFAULT_PLAN_VERSION}`)
+  }
+
+  if (Array.isArray(value.testCases)) {
+    const seen = new Set<string>()
+    testPlan.testCases = value.testCases.filter(id => {
+      if (seen.has(id)) {
+        repairs.push(`testCases: removed duplicate ${id}`)
+        return false
+      }
+      seen.add(id)
+      if (knownTestCaseIds && !knownTestCaseIds.has(id)) {
+        repairs.push(`testCases: removed unknown test case ${id}`)
+        return false
+      }
+      return true
+    })
+  }
+
+  return { value: testPlan as unknown as TestPlan, repairs }
+}
+
+export function repairTestRun(value: TestRun): RepairResult<TestRun> {
+  const testRun = { ...value } as unknown as Doc
+  const repairs: string[] = []
+
+  repairTimestampField(testRun, 'startedAt', '', repairs)
+  repairTimestampField(testRun, 'completedAt', '', repairs)
+  repairTimestampField(testRun, 'updatedAt', '', repairs)
+
+  if (Array.isArray(value.results)) {
+    testRun.results = value.results.map((result, index) => {
+      const base = join('results', index)
+      const repaired = { ...result } as unknown as Doc
+      repairTimestampField(repaired, 'executedAt', base, repairs)
+      if (Array.isArray(result.steps)) {
+        repaired.steps = result.steps.map((step, stepIndex) => {
+          const repairedStep = { ...step } as unknown as Doc
+          repairTimestampField(repairedStep, 'executedAt', join(join(base, 'steps'), stepIndex), repairs)
+          return repairedStep
+        })
+      }
+      return repaired as unknown as TestResult
+    })
+  }
+
+  return { value: testRun as unknown as TestRun, repairs }
+}
+
+export function assertValid(entityType: string, issues: SchemaIssue[]): void {
+  if (issues.length > 0) {
+    throw new SchemaValidationError(entityType, issues)
+  }
+}
@@ -0,0 +1,128 @@
+import { Requirement, TestCase } from './types'
+import { TextTerm } from './test-case-query'
+import { tokenize } from './duplicates'
+
+/**
+ * Inverted index over the text of test cases: title, description,
+ * preconditions, steps and the titles of linked GitHub issues. It is
+ * updated one test case at a time as they are saved and deleted, so a
+ * search doesn't have to scan every test case's text. Changes made outside
+ * this process are picked up by refresh.
+ */
+
+interface IndexedDocument {
+  words: Set<string>
+  text: string // Lowercased words separated by single spaces, for phrase matching
+  updatedAt: string
+}
+
+// Lowercased words separated by single spaces, punctuation dropped
+function normalizeText(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join(' ')
+}
+
+// Titles of the GitHub issues requirements covering each test case were imported from
+export function getLinkedIssueTitles(requirements: Requirement[]): Map<string, string[]> {
+  const titles = new Map<string, string[]>()
+  for (const requirement of requirements) {
+    if (!requirement.githubIssue) continue
+    requirement.testCases.forEach(testCaseId => titles.set(testCaseId, [...(titles.get(testCaseId) || []), requirement.title]))
+  }
+  return titles
+}
+
+export class TestCaseSearchIndex {
+  private postings = new Map<string, Set<string>>() // Word to the IDs of the test cases containing it
+  private documents = new Map<string, IndexedDocument>()
+
+  constructor(testCases: TestCase[] = [], private linkedIssueTitles = new Map<string, string[]>()) {
+    testCases.forEach(testCase => this.add(testCase))
+  }
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  // Index a test case, replacing what was indexed for it before
+  add(testCase: TestCase): void {
+    this.remove(testCase.id)
+
+    const text = [
+      testCase.title,
+      testCase.description,
+      testCase.preconditions,
+      testCase.expectedResult,
+      ...(testCase.steps || []).flatMap(step => [step.action, step.expectedResult]),
+      testCase.githubIssue?.title,
+      ...(this.linkedIssueTitles.get(testCase.id) || [])
+    ].filter(Boolean).join('\n')
+
+    const words = new Set(tokenize(text))
+    words.forEach(word => {
+      const ids = this.postings.get(word) || new Set<string>()
+      ids.add(testCase.id)
+      this.postings.set(word, ids)
+    })
+    this.documents.set(testCase.id, { words, text: normalizeText(text), updatedAt: testCase.updatedAt })
+  }
+
+  // Reindex test cases whose updatedAt changed since they were indexed and drop those no longer listed
+  refresh(testCases: TestCase[]): void {
+    const ids = new Set(testCases.map(testCase => testCase.id))
+    for (const id of [...this.documents.keys()]) {
+      if (!ids.has(id)) this.remove(id)
+    }
+    testCases
+      .filter(testCase => this.documents.get(testCase.id)?.updatedAt !== testCase.updatedAt)
+      .forEach(testCase => this.add(testCase))
+  }
+
+  remove(testCaseId: string): void {
+    const document = this.documents.get(testCaseId)
+    if (!document) return
+
+    document.words.forEach(word => {
+      const ids = this.postings.get(word)
+      ids?.delete(testCaseId)
+      if (ids?.size === 0) this.postings.delete(word)
+    })
+    this.documents.delete(testCaseId)
+  }
+
+  // IDs of the test cases matching every text term
+  search(terms: TextTerm[]): Set<string> {
+    let matches = new Set(this.documents.keys())
+    for (const term of terms) {
+      const termMatches = this.match(term)
+      matches = new Set([...matches].filter(id => termMatches.has(id) !== term.negated))
+    }
+    return matches
+  }
+
+  private match(term: TextTerm): Set<string> {
+    const words = tokenize(term.text)
+    if (!term.phrase) {
+      // Every word of the term has to start a word of the text
+      return this.intersect(words.map(word => this.withPrefix(word)))
+    }
+
+    const phrase = normalizeText(term.text)
+    const candidates = words.length > 0
+      ? this.intersect(words.map(word => this.postings.get(word) || new Set<string>()))
+      : new Set(this.documents.keys())
+    return new Set([...candidates].filter(id => ` ${this.documents.get(id)?.text} `.includes(` ${phrase} `)))
+  }
+
+  private withPrefix(prefix: string): Set<string> {
+    const ids = new Set<string>()
+    this.postings.forEach((postingIds, word) => {
+      if (word.startsWith(prefix)) postingIds.forEach(id => ids.add(id))
+    })
+    return ids
+  }
+
+  private intersect(sets: Set<string>[]): Set<string> {
+    if (sets.length === 0) return new Set(this.documents.keys())
+    return new Set([...sets[0]].filter(id => sets.every(set => set.has(id))))
+  }
+}
@@ -0,0 +1,119 @@
+import { SharedStep, TestCase, TestStep } from './types'
+import { TestCaseDiff } from './revision-diff'
+
+/**
+ * Shared steps are step sequences reused across test cases. A test case
+ * step that references one is replaced by the shared step's steps when the
+ * test case is run, at the version the reference is pinned to or at the
+ * latest version.
+ */
+
+export interface ExpandedTestStep extends TestStep {
+  sharedStepTitle?: string // Set on the steps that came from a shared step
+}
+
+// A test case with its steps as executed
+export type ExpandedTestCase = Omit<TestCase, 'steps'> & { steps: ExpandedTestStep[] }
+
+// Finds a shared step at a version, or the latest version without one
+export type SharedStepResolver = (sharedStepId: string, version?: number) => SharedStep | undefined
+
+export interface SharedStepReference {
+  stepId: string
+  stepNumber: number
+  version?: number // Pinned version, the latest version is used without one
+}
+
+export interface SharedStepUsage {
+  testCaseId: string
+  title: string
+  references: SharedStepReference[]
+}
+
+export interface SharedStepUsageReport {
+  latest: SharedStepUsage[] // Test cases that pick up every change
+  pinned: SharedStepUsage[] // Test cases pinned to a version, not affected by changes
+}
+
+export interface SharedStepChangePreview {
+  current: SharedStep
+  diff: TestCaseDiff
+  nextVersion: number
+  usage: SharedStepUsageReport // Only the test cases in usage.latest pick up the change
+}
+
+export function isSharedStepReference(step: Pick<TestStep, 'sharedStepId'>): boolean {
+  return !!step.sharedStepId
+}
+
+// IDs of the shared steps a test case references, in order of first use
+export function getSharedStepIds(testCase: Pick<TestCase, 'steps'>): string[] {
+  return [...new Set(testCase.steps.filter(isSharedStepReference).map(step => step.sharedStepId!))]
+}
+
+/**
+ * Replace every reference with the steps of the shared step. Expanded steps
+ * get the ID <referenceStepId>/<sharedStepStepId>, so results recorded
+ * against them stay apart when a shared step is used twice. Steps are
+ * renumbered in run order. A reference to a missing shared step or
+ * version is kept as a single step saying so.
+ */
+export function expandSharedSteps(steps: TestStep[], resolve: SharedStepResolver): ExpandedTestStep[] {
+  const expanded: ExpandedTestStep[] = []
+
+  for (const step of steps) {
+    if (!step.sharedStepId) {
+      expanded.push({ ...step, stepNumber: expanded.length + 1 })
+      continue
+    }
+
+    const sharedStep = resolve(step.sharedStepId, step.sharedStepVersion)
+    if (!sharedStep) {
+      const pin = step.sharedStepVersion ? ` version ${step.sharedStepVersion}` : ''
+      expanded.push({
+        ...step,
+        stepNumber: expanded.length + 1,
+        action: `Shared step ${step.sharedStepId}${pin} was not found`
+      })
+      continue
+    }
+
+    for (const sharedStepStep of sharedStep.steps) {
+      expanded.push({
+        ...sharedStepStep,
+        id: `${step.id}/${sharedStepStep.id}`,
+        stepNumber: expanded.length + 1,
+        sharedStepId: sharedStep.id,
+        sharedStepVersion: sharedStep.version,
+        sharedStepTitle: sharedStep.title
+      })
+    }
+  }
+
+  return expanded
+}
+
+export function findSharedStepUsage(sharedStepId: string, testCases: TestCase[]): SharedStepUsageReport {
+  const report: SharedStepUsageReport = { latest: [], pinned: [] }
+
+  for (const testCase of testCases) {
+    const references: SharedStepReference[] = testCase.steps
+      .filter(step => step.sharedStepId === sharedStepId)
+      .map(step => ({
+        stepId: step.id,
+        stepNumber: step.stepNumber,
+        ...(step.sharedStepVersion ? { version: step.sharedStepVersion } : {})
+      }))
+    if (references.length === 0) continue
+
+    // One unpinned reference is enough for a change to reach the test case
+    const usage = { testCaseId: testCase.id, title: testCase.title, references }
+    if (references.some(reference => reference.version === undefined)) {
+      report.latest.push(usage)
+    } else {
+      report.pinned.push(usage)
+    }
+  }
+
+  return report
+}
@@ -1,6 +1,9 @@
 import { FileUtils } from './file-utils'
 import { TestCase, TestPlan, TestRun, Priority } from './types'
-import { calculateTestCaseStatus } from './test-execution-utils'
+import { getLatestResults, getTestResultStatus } from './test-execution-utils'
+import { normalizePriority } from './schema'
+import { flattenSuiteTree, getSuiteTestCaseIds } from './test-suites'
+import { getConfigurationStats } from './configurations'
 import {
   DashboardStats,
   StatWithTrend,
@@ -13,7 +16,8 @@ import {
   TestRunStats,
   PerformanceStats,
   QualityMetrics,
-  ActivityStats
+  ActivityStats,
+  SuiteStats
 } from './stats-types'
 
 export class StatsService {
@@ -63,6 +67,34 @@ export class StatsService {
     return stats
   }
 
+  /**
+   * Counts and pass rates per suite, parents before their children. A test
+   * case counts as passed when its latest result, across all runs, passed.
+   */
+  static async getSuiteStats(): Promise<SuiteStats[]> {
+    const tree = await FileUtils.getSuiteTree()
+    const testRuns = await FileUtils.getAllTestRuns()
+
+    const latest = getLatestResults(testRuns)
+
+    return flattenSuiteTree(tree).map(node => {
+      const testCaseIds = getSuiteTestCaseIds(node)
+      const executed = testCaseIds.filter(id => latest.has(id))
+      const passed = executed.filter(id => latest.get(id)!.status === 'pass')
+
+      return {
+        suiteId: node.suite.id,
+        name: node.suite.name,
+        path: node.path,
+        depth: node.path.length - 1,
+        testCaseCount: testCaseIds.length,
+        executedCount: executed.length,
+        passedCount: passed.length,
+        passRate: executed.length > 0 ? Math.round((passed.length / executed.length) * 100) : 0
+      }
+    })
+  }
+
   /**
    * Calculate overview statistics
    */
@@ -81,7 +113,7 @@ export class StatsService {
       if (run.results && Array.isArray(run.results)) {
         run.results.forEach(result => {
           totalTests++
-          const status = calculateTestCaseStatus(result.steps || [])
+          const status = getTestResultStatus(result)
           if (status === 'pass') {
             passedTests++
           }
@@ -128,21 +160,17 @@ export class StatsService {
 
     // Count current period
     testCases.forEach(tc => {
-      if (tc.priority) {
-        const priority = tc.priority.toLowerCase() as Priority
-        if (priority in byPriority) {
-          byPriority[priority].value++
-        }
+      const priority = normalizePriority(tc.priority)
+      if (priority) {
+        byPriority[priority].value++
       }
     })
 
     // Count previous period
     previousData.forEach(tc => {
-      if (tc.priority) {
-        const priority = tc.priority.toLowerCase() as Priority
-        if (priority in previousByPriority) {
-          previousByPriority[priority]++
-        }
+      const priority = normalizePriority(tc.priority)
+      if (priority) {
+        previousByPriority[priority]++
       }
     })
 
@@ -324,9 +352,16 @@ export class StatsService {
     let skippedTests = 0
 
     const executorStats = new Map<string, { runs: number; passed: number; total: number }>()
+    const sourceStats = {
+      manual: { runs: 0, passed: 0, total: 0 },
+      automated: { runs: 0, passed: 0, total: 0 }
+    }
     const failureReasons = new Map<string, number>()
 
     testRuns.forEach(run => {
+      const source = sourceStats[run.source || 'manual']
+      source.runs++
+
       // Track executor stats
       const executor = run.executedBy || 'Unknown'
       if (!executorStats.has(executor)) {
@@ -339,16 +374,18 @@ export class StatsService {
         run.results.forEach(result => {
           totalTests++
           execStats.total++
+          source.total++
           
-          const status = calculateTestCaseStatus(result.steps || [])
+          const status = getTestResultStatus(result)
           if (status === 'pass') {
             passedTests++
             execStats.passed++
+            source.passed++
           } else if (status === 'fail') {
             failedTests++
             // Track failure reasons
             const failureStep = result.steps?.find(s => s.status === 'fail')
-            const reason = failureStep?.comment || 'Unknown reason'
+            const reason = failureStep?.comment || result.automatedTests?.find(test => test.status === 'fail')?.message || 'Unknown reason'
             failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1)
           } else if (status === 'skip') {
             skippedTests++
@@ -390,6 +427,13 @@ export class StatsService {
       .sort((a, b) => b.runs - a.runs)
       .slice(0, 5)
 
+    // Format source stats
+    const formatSource = ({ runs, passed, total }: { runs: number; passed: number; total: number }) => ({
+      runs,
+      results: total,
+      passRate: total > 0 ? Math.round((passed / total) * 100) : 0
+    })
+
     // Format failure reasons
     const failureReasonsList = Array.from(failureReasons.entries())
       .map(([reason, count]) => ({
@@ -410,6 +454,11 @@ export class StatsService {
       skipRate: this.createStatWithTrend(skipRate, previousSkipRate),
       averageDuration: this.createStatWithTrend(averageDuration, 35), // Simulated previous
       byExecutor,
+      bySource: {
+        manual: formatSource(sourceStats.manual),
+        automated: formatSource(sourceStats.automated)
+      },
+      byConfiguration: getConfigurationStats(testRuns),
       failureReasons: failureReasonsList,
       executionTrends: trends
     }
@@ -521,7 +570,7 @@ export class StatsService {
     testRuns.forEach(run => {
       if (run.results && Array.isArray(run.results)) {
         run.results.forEach(result => {
-          const status = calculateTestCaseStatus(result.steps || [])
+          const status = getTestResultStatus(result)
           if (status === 'pass' || status === 'fail') {
             if (!testResults.has(result.testCaseId)) {
               testResults.set(result.testCaseId, [])
@@ -880,7 +929,7 @@ export class StatsService {
             if (run.results && Array.isArray(run.results)) {
               run.results.forEach(result => {
                 total++
-                const status = calculateTestCaseStatus(result.steps || [])
+                const status = getTestResultStatus(result)
                 if (status === 'pass') passed++
                 else if (status === 'fail') failed++
                 else if (status === 'skip') skipped++
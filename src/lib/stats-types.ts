@@ -1,4 +1,5 @@
-import { Priority } from './types'
+import { Priority, TestRunSource } from './types'
+import { ConfigurationStats } from './configurations'
 
 // Time range options for stats filtering
 export type TimeRange = 'today' | 'week' | 'month' | 'quarter' | 'year' | 'all'
@@ -65,6 +66,14 @@ export interface TestRunStats {
     runs: number
     passRate: number
   }>
+  // Manual runs and runs imported from automated test reports, side by side
+  bySource: Record<TestRunSource, {
+    runs: number
+    results: number
+    passRate: number
+  }>
+  // Results of runs with a configuration matrix, per configuration
+  byConfiguration: ConfigurationStats[]
   failureReasons: Array<{
     reason: string
     count: number
@@ -139,6 +148,18 @@ export interface ActivityStats {
   }>
 }
 
+// Counts and pass rate of a test suite, including its nested suites
+export interface SuiteStats {
+  suiteId: string
+  name: string
+  path: string[] // Suite names from the top level down
+  depth: number // 0 for top-level suites
+  testCaseCount: number
+  executedCount: number // Test cases with at least one result
+  passedCount: number // Test cases whose latest result passed
+  passRate: number // Percentage of the executed test cases that passed
+}
+
 // Comprehensive dashboard statistics
 export interface DashboardStats {
   overview: {
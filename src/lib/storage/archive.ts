@@ -0,0 +1,468 @@
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import { gunzipSync, gzipSync } from 'zlib'
+import {
+  SchemaIssue,
+  validateAttachment,
+  validateBulkEdit,
+  validateCustomFieldDefinition,
+  validateRelease,
+  validateRequirement,
+  validateSharedStep,
+  validateTestCase,
+  validateTestCaseRevision,
+  validateTestPlan,
+  validateTestRun,
+  validateTestSuite,
+  validateTrashEntry
+} from '../schema'
+import { StorageAdapter } from './types'
+
+/**
+ * Backup archive of a whole workspace: every test case with its revision
+ * history, plan, run, trash entry, shared step with its versions,
+ * custom field definition, test suite, requirement, bulk edit, release
+ * and attachment, plus settings.json. The archive is gzipped JSON, independent of the storage
+ * backend, so it can also move a workspace between the file and SQLite
+ * backends. Caches are left out, they are rebuilt on demand.
+ */
+
+export const ARCHIVE_FORMAT = 'qa-workspace-archive'
+export const ARCHIVE_VERSION = 1
+
+export type ArchiveEntryType =
+  | 'customField'
+  | 'suite'
+  | 'testCase'
+  | 'revision'
+  | 'testPlan'
+  | 'requirement'
+  | 'testRun'
+  | 'trashEntry'
+  | 'bulkEdit'
+  | 'release'
+  | 'sharedStep'
+  | 'sharedStepVersion'
+  | 'attachmentContent'
+  | 'attachment'
+  | 'settings'
+
+// Also the order entries are written and imported in: custom field
+// definitions and suites come before the entities using them, attachment
+// content is stored before the metadata pointing at it
+const ENTRY_TYPES: ArchiveEntryType[] = [
+  'customField',
+  'suite',
+  'testCase',
+  'revision',
+  'testPlan',
+  'requirement',
+  'testRun',
+  'trashEntry',
+  'bulkEdit',
+  'release',
+  'sharedStep',
+  'sharedStepVersion',
+  'attachmentContent',
+  'attachment',
+  'settings'
+]
+
+export interface ArchiveEntry {
+  type: ArchiveEntryType
+  id: string // Entity ID; <entityId>/<number> for revisions and versions, SHA-256 for attachment content
+  sha256: string // Checksum of the canonical JSON of data
+  data: unknown // Base64 for attachment content
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  createdAt: string
+  createdBy?: string
+  backend: string
+  counts: Partial<Record<ArchiveEntryType, number>>
+  checksum: string // SHA-256 over the entry checksums, in order
+}
+
+export interface WorkspaceArchive {
+  manifest: ArchiveManifest
+  entries: ArchiveEntry[]
+}
+
+export type ArchiveErrorReason = 'invalid_archive' | 'unsupported_version' | 'checksum_mismatch'
+
+export class ArchiveError extends Error {
+  constructor(message: string, public reason: ArchiveErrorReason) {
+    super(message)
+    this.name = 'ArchiveError'
+  }
+}
+
+/**
+ * How entities that already exist with different content are handled:
+ * - overwrite: the archive version replaces the workspace version
+ * - skip: the workspace version is kept
+ * - merge: the test case, plan, shared step, custom field, suite,
+ *   requirement or release updated last wins, other entities are kept
+ * Revisions and shared step versions are append-only and never replaced.
+ */
+export type ImportStrategy = 'merge' | 'overwrite' | 'skip'
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['merge', 'overwrite', 'skip']
+
+export interface ImportOptions {
+  strategy?: ImportStrategy
+  dryRun?: boolean
+  settingsFile?: string // settings.json to restore, settings are ignored without it
+}
+
+export interface ImportConflict {
+  type: ArchiveEntryType
+  id: string
+  resolution: 'imported' | 'kept'
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  strategy: ImportStrategy
+  created: number
+  updated: number
+  unchanged: number
+  skipped: number
+  conflicts: ImportConflict[]
+  errors: string[] // Entries that failed validation and were not imported
+}
+
+// JSON with sorted keys, so equal documents hash the same however they were stored
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => {
+    if (!field || typeof field !== 'object' || Array.isArray(field)) return field
+    return Object.fromEntries(Object.keys(field).sort().map(key => [key, field[key]]))
+  })
+}
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function createEntry(type: ArchiveEntryType, id: string, data: unknown): ArchiveEntry {
+  return { type, id, sha256: sha256(canonicalJson(data)), data }
+}
+
+function manifestChecksum(entries: ArchiveEntry[]): string {
+  return sha256(entries.map(entry => entry.sha256).join('\n'))
+}
+
+async function readSettings(settingsFile: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(settingsFile, 'utf-8'))
+  } catch {
+    return undefined
+  }
+}
+
+export async function exportWorkspace(
+  storage: StorageAdapter,
+  options: { createdBy?: string; settingsFile?: string; now?: Date } = {}
+): Promise<WorkspaceArchive> {
+  const entries: ArchiveEntry[] = []
+
+  ;(await storage.listCustomFields()).forEach(field => entries.push(createEntry('customField', field.id, field)))
+  ;(await storage.listSuites()).forEach(suite => entries.push(createEntry('suite', suite.id, suite)))
+
+  const testCases = await storage.listTestCases()
+  const trash = await storage.listTrash()
+  testCases.forEach(testCase => entries.push(createEntry('testCase', testCase.id, testCase)))
+
+  // History of trashed test cases is kept for when they are restored
+  const historyIds = new Set([
+    ...testCases.map(testCase => testCase.id),
+    ...trash.filter(entry => entry.entityType === 'testCase').map(entry => entry.entityId)
+  ])
+  for (const testCaseId of historyIds) {
+    for (const revision of await storage.listTestCaseRevisions(testCaseId)) {
+      entries.push(createEntry('revision', `${testCaseId}/${revision.revision}`, revision))
+    }
+  }
+
+  ;(await storage.listTestPlans()).forEach(plan => entries.push(createEntry('testPlan', plan.id, plan)))
+  ;(await storage.listRequirements()).forEach(requirement => entries.push(createEntry('requirement', requirement.id, requirement)))
+  ;(await storage.listTestRuns()).forEach(run => entries.push(createEntry('testRun', run.id, run)))
+  trash.forEach(entry => entries.push(createEntry('trashEntry', entry.id, entry)))
+  ;(await storage.listBulkEdits()).forEach(bulkEdit => entries.push(createEntry('bulkEdit', bulkEdit.id, bulkEdit)))
+  ;(await storage.listReleases()).forEach(release => entries.push(createEntry('release', release.id, release)))
+
+  for (const sharedStep of await storage.listSharedSteps()) {
+    entries.push(createEntry('sharedStep', sharedStep.id, sharedStep))
+    for (const version of await storage.listSharedStepVersions(sharedStep.id)) {
+      entries.push(createEntry('sharedStepVersion', `${sharedStep.id}/${version.version}`, version))
+    }
+  }
+
+  const attachments = await storage.listAttachments()
+  for (const hash of new Set(attachments.map(attachment => attachment.sha256))) {
+    const content = await storage.loadAttachmentContent(hash)
+    if (content) entries.push(createEntry('attachmentContent', hash, content.toString('base64')))
+  }
+  attachments.forEach(attachment => entries.push(createEntry('attachment', attachment.id, attachment)))
+
+  const settings = options.settingsFile ? await readSettings(options.settingsFile) : undefined
+  if (settings !== undefined) entries.push(createEntry('settings', 'settings', settings))
+
+  const counts: ArchiveManifest['counts'] = {}
+  entries.forEach(entry => { counts[entry.type] = (counts[entry.type] || 0) + 1 })
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      createdAt: (options.now || new Date()).toISOString(),
+      ...(options.createdBy ? { createdBy: options.createdBy } : {}),
+      backend: storage.backend,
+      counts,
+      checksum: manifestChecksum(entries)
+    },
+    entries
+  }
+}
+
+export function serializeWorkspaceArchive(archive: WorkspaceArchive): Buffer {
+  return gzipSync(JSON.stringify(archive))
+}
+
+/**
+ * Read an archive (gzipped or plain JSON) and verify the format version and
+ * every checksum before anything is imported
+ */
+export function parseWorkspaceArchive(content: Buffer): WorkspaceArchive {
+  let archive: WorkspaceArchive
+  try {
+    const isGzip = content[0] === 0x1f && content[1] === 0x8b
+    archive = JSON.parse((isGzip ? gunzipSync(content) : content).toString('utf-8'))
+  } catch {
+    throw new ArchiveError('Archive is not valid gzipped JSON', 'invalid_archive')
+  }
+
+  const manifest = archive?.manifest
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.entries)) {
+    throw new ArchiveError('File is not a workspace archive', 'invalid_archive')
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(
+      `Archive version ${manifest.version} is not supported, expected ${ARCHIVE_VERSION} or earlier`,
+      'unsupported_version'
+    )
+  }
+
+  for (const entry of archive.entries) {
+    if (!ENTRY_TYPES.includes(entry?.type) || typeof entry.id !== 'string') {
+      throw new ArchiveError('Archive contains an unknown entry', 'invalid_archive')
+    }
+    const intact = entry.sha256 === sha256(canonicalJson(entry.data)) &&
+      (entry.type !== 'attachmentContent' || sha256(Buffer.from(String(entry.data), 'base64')) === entry.id)
+    if (!intact) {
+      throw new ArchiveError(`Checksum of ${entry.type} ${entry.id} does not match`, 'checksum_mismatch')
+    }
+  }
+  if (manifest.checksum !== manifestChecksum(archive.entries)) {
+    throw new ArchiveError('Archive checksum does not match its entries', 'checksum_mismatch')
+  }
+
+  return archive
+}
+
+// Attachment content is checked against its hash when the archive is parsed, settings are taken as they are
+const VALIDATORS: Partial<Record<ArchiveEntryType, (value: unknown) => SchemaIssue[]>> = {
+  customField: validateCustomFieldDefinition,
+  suite: validateTestSuite,
+  testCase: validateTestCase,
+  revision: validateTestCaseRevision,
+  testPlan: validateTestPlan,
+  requirement: validateRequirement,
+  testRun: validateTestRun,
+  trashEntry: validateTrashEntry,
+  bulkEdit: validateBulkEdit,
+  release: validateRelease,
+  sharedStep: validateSharedStep,
+  sharedStepVersion: validateSharedStep,
+  attachment: validateAttachment
+}
+
+// IDs and hashes name the stored files, so none may point outside the storage directories
+function isSafeName(value: unknown): boolean {
+  return typeof value === 'string' && value !== '' && !/[/\\]/.test(value) && !value.includes('..')
+}
+
+// Why the ID of a validated entry doesn't fit its data, or undefined if it does
+function checkEntryId(entry: ArchiveEntry): string | undefined {
+  if (entry.type === 'attachmentContent') return undefined
+  if (entry.type === 'settings') return entry.id === 'settings' ? undefined : 'id must be settings'
+
+  const data = entry.data as Record<string, unknown>
+  let names: unknown[] = [data.id]
+  let expectedId = String(data.id)
+  if (entry.type === 'revision') {
+    names = [data.testCaseId]
+    expectedId = `${data.testCaseId}/${data.revision}`
+  } else if (entry.type === 'sharedStepVersion') {
+    expectedId = `${data.id}/${data.version}`
+  } else if (entry.type === 'trashEntry') {
+    names.push(data.entityId)
+  } else if (entry.type === 'attachment') {
+    names.push(data.sha256)
+  }
+
+  if (!names.every(isSafeName)) return 'IDs must not contain /, \\ or ..'
+  return entry.id === expectedId ? undefined : `id must match its data (${expectedId})`
+}
+
+// Load the current version of an entry's entity, or undefined if it doesn't exist
+async function loadExisting(storage: StorageAdapter, entry: ArchiveEntry, settingsFile?: string): Promise<unknown> {
+  switch (entry.type) {
+    case 'customField':
+      return (await storage.listCustomFields()).find(existing => existing.id === entry.id)
+    case 'suite':
+      return (await storage.listSuites()).find(existing => existing.id === entry.id)
+    case 'testCase':
+      return (await storage.loadTestCase(entry.id)) ?? undefined
+    case 'revision': {
+      const { testCaseId, revision } = entry.data as { testCaseId: string; revision: number }
+      return (await storage.listTestCaseRevisions(testCaseId)).find(existing => existing.revision === revision)
+    }
+    case 'testPlan':
+      return (await storage.loadTestPlan(entry.id)) ?? undefined
+    case 'requirement':
+      return (await storage.listRequirements()).find(existing => existing.id === entry.id)
+    case 'testRun':
+      return (await storage.loadTestRun(entry.id)) ?? undefined
+    case 'trashEntry':
+      return (await storage.listTrash()).find(existing => existing.id === entry.id)
+    case 'bulkEdit':
+      return (await storage.listBulkEdits()).find(existing => existing.id === entry.id)
+    case 'release':
+      return (await storage.listReleases()).find(existing => existing.id === entry.id)
+    case 'sharedStep':
+      return (await storage.loadSharedStep(entry.id)) ?? undefined
+    case 'sharedStepVersion': {
+      const { id, version } = entry.data as { id: string; version: number }
+      return (await storage.listSharedStepVersions(id)).find(existing => existing.version === version)
+    }
+    case 'attachmentContent': {
+      // Content is addressed by its hash, so existing content is always identical
+      const content = await storage.loadAttachmentContent(entry.id)
+      return content ? entry.data : undefined
+    }
+    case 'attachment':
+      return (await storage.listAttachments()).find(existing => existing.id === entry.id)
+    case 'settings':
+      return settingsFile ? readSettings(settingsFile) : undefined
+  }
+}
+
+async function writeEntry(storage: StorageAdapter, entry: ArchiveEntry, settingsFile?: string): Promise<void> {
+  const data = entry.data as never
+  switch (entry.type) {
+    case 'customField':
+      return storage.saveCustomField(data)
+    case 'suite':
+      return storage.saveSuite(data)
+    case 'testCase':
+      return storage.saveTestCase(data)
+    case 'revision':
+      return storage.appendTestCaseRevision(data)
+    case 'testPlan':
+      return storage.saveTestPlan(data)
+    case 'requirement':
+      return storage.saveRequirement(data)
+    case 'testRun':
+      return storage.saveTestRun(data)
+    case 'trashEntry':
+      return storage.saveTrashEntry(data)
+    case 'bulkEdit':
+      return storage.saveBulkEdit(data)
+    case 'release':
+      return storage.saveRelease(data)
+    case 'sharedStep':
+      return storage.saveSharedStep(data)
+    case 'sharedStepVersion':
+      return storage.appendSharedStepVersion(data)
+    case 'attachmentContent':
+      return storage.saveAttachmentContent(entry.id, Buffer.from(entry.data as string, 'base64'))
+    case 'attachment':
+      return storage.saveAttachment(data)
+    case 'settings':
+      if (settingsFile) await fs.writeFile(settingsFile, JSON.stringify(entry.data, null, 2), 'utf-8')
+  }
+}
+
+function resolveConflict(strategy: ImportStrategy, entry: ArchiveEntry, existing: unknown): ImportConflict['resolution'] {
+  if (entry.type === 'revision' || entry.type === 'sharedStepVersion' || strategy === 'skip') return 'kept'
+  if (strategy === 'overwrite') return 'imported'
+
+  const updatedAt = (value: unknown) => Date.parse((value as { updatedAt?: string })?.updatedAt || '')
+  const timestamped = (['testCase', 'testPlan', 'sharedStep', 'customField', 'suite', 'requirement', 'release'] as ArchiveEntryType[]).includes(entry.type)
+  return timestamped && updatedAt(entry.data) > updatedAt(existing) ? 'imported' : 'kept'
+}
+
+/**
+ * Restore a parsed archive into the workspace. New entities are created,
+ * identical ones left alone and conflicting ones handled by the strategy
+ * (merge by default). With `dryRun` nothing is written and the report
+ * shows what an import would do.
+ */
+export async function importWorkspace(
+  storage: StorageAdapter,
+  archive: WorkspaceArchive,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const strategy = options.strategy || 'merge'
+  const report: ImportReport = {
+    dryRun: !!options.dryRun,
+    strategy,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    conflicts: [],
+    errors: []
+  }
+
+  const entries = [...archive.entries].sort((a, b) => ENTRY_TYPES.indexOf(a.type) - ENTRY_TYPES.indexOf(b.type))
+  for (const entry of entries) {
+    if (entry.type === 'settings' && !options.settingsFile) continue
+
+    const issues = VALIDATORS[entry.type]?.(entry.data) || []
+    if (issues.length > 0) {
+      report.errors.push(`${entry.type} ${entry.id}: ${issues.map(issue => `${issue.path || '<document>'} ${issue.message}`).join('; ')}`)
+      continue
+    }
+    const idError = checkEntryId(entry)
+    if (idError) {
+      report.errors.push(`${entry.type} ${entry.id}: ${idError}`)
+      continue
+    }
+
+    const existing = await loadExisting(storage, entry, options.settingsFile)
+    if (existing === undefined) {
+      report.created++
+    } else if (canonicalJson(existing) === canonicalJson(entry.data)) {
+      report.unchanged++
+      continue
+    } else {
+      const resolution = resolveConflict(strategy, entry, existing)
+      report.conflicts.push({ type: entry.type, id: entry.id, resolution })
+      if (resolution === 'kept') {
+        report.skipped++
+        continue
+      }
+      report.updated++
+    }
+
+    if (!report.dryRun) {
+      await writeEntry(storage, entry, options.settingsFile)
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,6 @@
+export class FileSystemError extends Error {
+  constructor(message: string, public operation: string, public filePath?: string) {
+    super(message)
+    this.name = 'FileSystemError'
+  }
+}
@@ -0,0 +1,976 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { Attachment, BulkEdit, CustomFieldDefinition, Release, Requirement, SharedStep, TestCase, TestCaseRevision, TestPlan, TestRun, TestSuite, TrashEntry } from '../types'
+import { normalizeTestRun } from '../test-runs'
+import { FileSystemError } from './errors'
+import { parseTestCase, serializeTestCase } from './markdown'
+import { resolveEntityPath } from './paths'
+import { StorageAdapter, StoredDocument } from './types'
+
+interface StoredTestRun {
+  filePath: string
+  testRun: TestRun
+  canonical: boolean // results/<id>.json as opposed to a legacy file
+  version: string // Sortable, newer saves compare greater
+}
+
+// Timestamp suffix of legacy run files, e.g. <id>-2025-07-20T12-29-48-448Z.json
+const LEGACY_TIMESTAMP = /-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.json$/
+
+interface CachedTestCase {
+  mtimeMs: number
+  size: number
+  testCase: TestCase
+}
+
+/**
+ * Stores entities in the workspace directory layout:
+ * testcases/<id>.md, testplans/<id>.json and results/<id>.json. Runs saved
+ * in the legacy formats (results/<id>-<timestamp>.json and
+ * test-executions/execution-*.json) are still read until they are migrated
+ * with migrateTestRuns. Test case revisions are kept as
+ * revisions/testcases/<id>/<revision>.json, soft-deleted entities as
+ * trash/<entryId>.json and attachments as attachments/<id>.json with the
+ * content in attachments/content/<sha256>. Shared steps are
+ * shared-steps/<id>.json with their versions in
+ * revisions/shared-steps/<id>/<version>.json, custom field definitions
+ * custom-fields/<id>.json, test suites suites/<id>.json, requirements
+ * requirements/<id>.json, bulk edits bulk-edits/<id>.json and releases
+ * releases/<id>.json.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  readonly backend = 'file' as const
+
+  private testCasesDir: string
+  private testPlansDir: string
+  private resultsDir: string
+  private testExecutionsDir: string
+  private revisionsDir: string
+  private trashDir: string
+  private attachmentsDir: string
+  private attachmentContentDir: string
+  private sharedStepsDir: string
+  private sharedStepVersionsDir: string
+  private customFieldsDir: string
+  private suitesDir: string
+  private requirementsDir: string
+  private bulkEditsDir: string
+  private releasesDir: string
+
+  // Parsed test cases keyed by id, reused while the file is unchanged on disk
+  private testCaseCache = new Map<string, CachedTestCase>()
+
+  constructor(private workspaceDir: string) {
+    this.testCasesDir = path.join(workspaceDir, 'testcases')
+    this.testPlansDir = path.join(workspaceDir, 'testplans')
+    this.resultsDir = path.join(workspaceDir, 'results')
+    this.testExecutionsDir = path.join(workspaceDir, 'test-executions')
+    this.revisionsDir = path.join(workspaceDir, 'revisions', 'testcases')
+    this.trashDir = path.join(workspaceDir, 'trash')
+    this.attachmentsDir = path.join(workspaceDir, 'attachments')
+    this.attachmentContentDir = path.join(this.attachmentsDir, 'content')
+    this.sharedStepsDir = path.join(workspaceDir, 'shared-steps')
+    this.sharedStepVersionsDir = path.join(workspaceDir, 'revisions', 'shared-steps')
+    this.customFieldsDir = path.join(workspaceDir, 'custom-fields')
+    this.suitesDir = path.join(workspaceDir, 'suites')
+    this.requirementsDir = path.join(workspaceDir, 'requirements')
+    this.bulkEditsDir = path.join(workspaceDir, 'bulk-edits')
+    this.releasesDir = path.join(workspaceDir, 'releases')
+  }
+
+  // Ensure directories exist
+  async ensureDirectories(): Promise<void> {
+    try {
+      await Promise.all([
+        fs.mkdir(this.testCasesDir, { recursive: true }),
+        fs.mkdir(this.testPlansDir, { recursive: true }),
+        fs.mkdir(this.resultsDir, { recursive: true })
+      ])
+    } catch {
+      throw new FileSystemError('Failed to create directories', 'ensureDirectories')
+    }
+  }
+
+  // Test Case Operations
+  async saveTestCase(testCase: TestCase): Promise<void> {
+    await this.ensureDirectories()
+
+    const filePath = this.testCasePath(testCase.id)
+
+    try {
+      await fs.writeFile(filePath, serializeTestCase(testCase), 'utf-8')
+      this.testCaseCache.delete(testCase.id)
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveTestCase',
+        filePath
+      )
+    }
+  }
+
+  async loadTestCase(testCaseId: string): Promise<TestCase | null> {
+    const filePath = this.testCasePath(testCaseId)
+
+    try {
+      const stats = await fs.stat(filePath)
+      const cached = this.testCaseCache.get(testCaseId)
+      if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+        return cached.testCase
+      }
+
+      const fileContent = await fs.readFile(filePath, 'utf-8')
+      const testCase = parseTestCase(fileContent)
+      this.testCaseCache.set(testCaseId, { mtimeMs: stats.mtimeMs, size: stats.size, testCase })
+
+      return testCase
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.testCaseCache.delete(testCaseId)
+        return null // File doesn't exist
+      }
+      throw new FileSystemError(
+        `Failed to load test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'loadTestCase',
+        filePath
+      )
+    }
+  }
+
+  async listTestCases(): Promise<TestCase[]> {
+    await this.ensureDirectories()
+
+    try {
+      const files = await fs.readdir(this.testCasesDir)
+      const testCaseFiles = files.filter(file => file.endsWith('.md'))
+
+      const testCases: TestCase[] = []
+
+      for (const file of testCaseFiles) {
+        try {
+          const testCase = await this.loadTestCase(path.basename(file, '.md'))
+          if (testCase) {
+            testCases.push(testCase)
+          }
+        } catch (error) {
+          console.error(`Error loading test case ${file}:`, error)
+          // Continue with other files
+        }
+      }
+
+      return testCases
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to load test cases: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getAllTestCases'
+      )
+    }
+  }
+
+  async deleteTestCase(testCaseId: string): Promise<boolean> {
+    const filePath = this.testCasePath(testCaseId)
+
+    try {
+      await fs.unlink(filePath)
+      this.testCaseCache.delete(testCaseId)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false // File doesn't exist
+      }
+      throw new FileSystemError(
+        `Failed to delete test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteTestCase',
+        filePath
+      )
+    }
+  }
+
+  // Test Case Revision Operations
+  async listTestCaseRevisions(testCaseId: string): Promise<TestCaseRevision[]> {
+    const dir = resolveEntityPath(this.revisionsDir, testCaseId)
+
+    try {
+      const files = await fs.readdir(dir)
+      const revisions: TestCaseRevision[] = []
+
+      for (const file of files.filter(file => file.endsWith('.json'))) {
+        try {
+          const fileContent = await fs.readFile(path.join(dir, file), 'utf-8')
+          revisions.push(JSON.parse(fileContent) as TestCaseRevision)
+        } catch (error) {
+          console.error(`Error loading revision ${file} of test case ${testCaseId}:`, error)
+        }
+      }
+
+      return revisions.sort((a, b) => a.revision - b.revision)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw new FileSystemError(
+        `Failed to load revisions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'listTestCaseRevisions',
+        dir
+      )
+    }
+  }
+
+  async appendTestCaseRevision(revision: TestCaseRevision): Promise<void> {
+    const dir = resolveEntityPath(this.revisionsDir, revision.testCaseId)
+    const filePath = resolveEntityPath(dir, `${String(revision.revision).padStart(6, '0')}.json`)
+
+    try {
+      await fs.mkdir(dir, { recursive: true })
+      // 'wx' refuses to overwrite, which keeps recorded revisions immutable
+      await fs.writeFile(filePath, JSON.stringify(revision, null, 2), { encoding: 'utf-8', flag: 'wx' })
+    } catch (error) {
+      throw new FileSystemError(
+        (error as NodeJS.ErrnoException).code === 'EEXIST'
+          ? `Revision ${revision.revision} of test case ${revision.testCaseId} already exists`
+          : `Failed to save revision: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'appendTestCaseRevision',
+        filePath
+      )
+    }
+  }
+
+  // Test Plan Operations
+  async saveTestPlan(testPlan: TestPlan): Promise<void> {
+    await this.ensureDirectories()
+
+    const filePath = this.testPlanPath(testPlan.id)
+
+    try {
+      await fs.writeFile(filePath, JSON.stringify(testPlan, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save test plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveTestPlan',
+        filePath
+      )
+    }
+  }
+
+  async loadTestPlan(testPlanId: string): Promise<TestPlan | null> {
+    const filePath = this.testPlanPath(testPlanId)
+
+    try {
+      const fileContent = await fs.readFile(filePath, 'utf-8')
+      const testPlan = JSON.parse(fileContent) as TestPlan
+
+      // Validate required fields
+      if (!testPlan.id || !testPlan.name || !Array.isArray(testPlan.testCases)) {
+        throw new Error('Invalid test plan format')
+      }
+
+      return testPlan
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null // File doesn't exist
+      }
+      throw new FileSystemError(
+        `Failed to load test plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'loadTestPlan',
+        filePath
+      )
+    }
+  }
+
+  async listTestPlans(): Promise<TestPlan[]> {
+    await this.ensureDirectories()
+
+    try {
+      const files = await fs.readdir(this.testPlansDir)
+      const testPlanFiles = files.filter(file => file.endsWith('.json'))
+
+      const testPlans: TestPlan[] = []
+
+      for (const file of testPlanFiles) {
+        try {
+          const testPlan = await this.loadTestPlan(path.basename(file, '.json'))
+          if (testPlan) {
+            testPlans.push(testPlan)
+          }
+        } catch (error) {
+          console.error(`Error loading test plan ${file}:`, error)
+          // Continue with other files
+        }
+      }
+
+      return testPlans
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to load test plans: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getAllTestPlans'
+      )
+    }
+  }
+
+  async deleteTestPlan(testPlanId: string): Promise<boolean> {
+    const filePath = this.testPlanPath(testPlanId)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false // File doesn't exist
+      }
+      throw new FileSystemError(
+        `Failed to delete test plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteTestPlan',
+        filePath
+      )
+    }
+  }
+
+  // Test Run Operations
+  async saveTestRun(testRun: TestRun): Promise<void> {
+    await this.ensureDirectories()
+
+    const filePath = this.testRunPath(testRun.id)
+
+    try {
+      await fs.writeFile(filePath, JSON.stringify(testRun, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save test run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveTestRun',
+        filePath
+      )
+    }
+  }
+
+  async loadTestRun(testRunId: string): Promise<TestRun | null> {
+    const filePath = this.testRunPath(testRunId)
+
+    try {
+      const fileContent = await fs.readFile(filePath, 'utf-8')
+      return normalizeTestRun(JSON.parse(fileContent))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // Not migrated yet, look through the legacy files
+        const testRuns = await this.listTestRuns()
+        return testRuns.find(run => run.id === testRunId) || null
+      }
+      throw new FileSystemError(
+        `Failed to load test run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'loadTestRun',
+        filePath
+      )
+    }
+  }
+
+  async listTestRuns(): Promise<TestRun[]> {
+    return (await this.readLatestTestRunFiles()).map(stored => stored.testRun)
+  }
+
+  async deleteTestRun(testRunId: string): Promise<boolean> {
+    const files = (await this.readTestRunFiles()).filter(stored => stored.testRun.id === testRunId)
+
+    for (const stored of files) {
+      try {
+        await fs.unlink(stored.filePath)
+      } catch (error) {
+        throw new FileSystemError(
+          `Failed to delete test run: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'deleteTestRun',
+          stored.filePath
+        )
+      }
+    }
+
+    return files.length > 0
+  }
+
+  /**
+   * Delete legacy run files (timestamped results and test-executions) whose
+   * run has been rewritten to its canonical results/<id>.json file.
+   * Returns the number of files removed.
+   */
+  async removeLegacyTestRunFiles(): Promise<number> {
+    const stored = await this.readTestRunFiles()
+    const migrated = new Set(stored.filter(file => file.canonical).map(file => file.testRun.id))
+    let removed = 0
+
+    for (const file of stored) {
+      if (file.canonical || !migrated.has(file.testRun.id)) continue
+
+      await fs.unlink(file.filePath)
+      removed++
+    }
+
+    return removed
+  }
+
+  // Legacy formats can hold several saves of one run, keep the newest
+  private async readLatestTestRunFiles(): Promise<StoredTestRun[]> {
+    const latest = new Map<string, StoredTestRun>()
+
+    for (const stored of await this.readTestRunFiles()) {
+      const existing = latest.get(stored.testRun.id)
+      if (!existing || stored.version > existing.version) {
+        latest.set(stored.testRun.id, stored)
+      }
+    }
+
+    return Array.from(latest.values())
+  }
+
+  private async readTestRunFiles(): Promise<StoredTestRun[]> {
+    const stored: StoredTestRun[] = []
+
+    for (const dir of [this.resultsDir, this.testExecutionsDir]) {
+      let files: string[]
+      try {
+        files = (await fs.readdir(dir)).filter(file => file.endsWith('.json'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`Could not read ${dir}:`, error)
+        }
+        continue
+      }
+
+      for (const file of files) {
+        try {
+          const fileContent = await fs.readFile(path.join(dir, file), 'utf-8')
+          const testRun = normalizeTestRun(JSON.parse(fileContent))
+          if (!testRun) continue
+
+          const canonical = dir === this.resultsDir && file === `${testRun.id}.json`
+          stored.push({
+            filePath: path.join(dir, file),
+            testRun,
+            canonical,
+            // The canonical file always wins over timestamped legacy saves
+            version: canonical ? '~' : file.match(LEGACY_TIMESTAMP)?.[1] || ''
+          })
+        } catch (error) {
+          console.error(`Error loading test run ${file}:`, error)
+          // Continue with other files
+        }
+      }
+    }
+
+    return stored
+  }
+
+  // Trash Operations
+  async listTrash(): Promise<TrashEntry[]> {
+    try {
+      const files = await fs.readdir(this.trashDir)
+      const entries: TrashEntry[] = []
+
+      for (const file of files.filter(file => file.endsWith('.json'))) {
+        try {
+          const fileContent = await fs.readFile(path.join(this.trashDir, file), 'utf-8')
+          entries.push(JSON.parse(fileContent) as TrashEntry)
+        } catch (error) {
+          console.error(`Error loading trash entry ${file}:`, error)
+        }
+      }
+
+      return entries
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw new FileSystemError(
+        `Failed to load trash: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'listTrash',
+        this.trashDir
+      )
+    }
+  }
+
+  async saveTrashEntry(entry: TrashEntry): Promise<void> {
+    const filePath = this.trashEntryPath(entry.id)
+
+    try {
+      await fs.mkdir(this.trashDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(entry, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save trash entry: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveTrashEntry',
+        filePath
+      )
+    }
+  }
+
+  async deleteTrashEntry(entryId: string): Promise<boolean> {
+    const filePath = this.trashEntryPath(entryId)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete trash entry: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteTrashEntry',
+        filePath
+      )
+    }
+  }
+
+  // Attachment Operations
+  async listAttachments(): Promise<Attachment[]> {
+    try {
+      const files = await fs.readdir(this.attachmentsDir)
+      const attachments: Attachment[] = []
+
+      for (const file of files.filter(file => file.endsWith('.json'))) {
+        try {
+          const fileContent = await fs.readFile(path.join(this.attachmentsDir, file), 'utf-8')
+          attachments.push(JSON.parse(fileContent) as Attachment)
+        } catch (error) {
+          console.error(`Error loading attachment ${file}:`, error)
+        }
+      }
+
+      return attachments
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw new FileSystemError(
+        `Failed to load attachments: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'listAttachments',
+        this.attachmentsDir
+      )
+    }
+  }
+
+  async saveAttachment(attachment: Attachment): Promise<void> {
+    const filePath = resolveEntityPath(this.attachmentsDir, `${attachment.id}.json`)
+
+    try {
+      await fs.mkdir(this.attachmentsDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(attachment, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save attachment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveAttachment',
+        filePath
+      )
+    }
+  }
+
+  async deleteAttachment(attachmentId: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.attachmentsDir, `${attachmentId}.json`)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete attachment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteAttachment',
+        filePath
+      )
+    }
+  }
+
+  async saveAttachmentContent(sha256: string, content: Buffer): Promise<void> {
+    const filePath = resolveEntityPath(this.attachmentContentDir, sha256)
+
+    try {
+      await fs.mkdir(this.attachmentContentDir, { recursive: true })
+      // Content is addressed by its hash, so an existing file already holds it
+      await fs.writeFile(filePath, content, { flag: 'wx' })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return
+      }
+      throw new FileSystemError(
+        `Failed to save attachment content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveAttachmentContent',
+        filePath
+      )
+    }
+  }
+
+  async loadAttachmentContent(sha256: string): Promise<Buffer | null> {
+    const filePath = resolveEntityPath(this.attachmentContentDir, sha256)
+
+    try {
+      return await fs.readFile(filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw new FileSystemError(
+        `Failed to load attachment content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'loadAttachmentContent',
+        filePath
+      )
+    }
+  }
+
+  async deleteAttachmentContent(sha256: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.attachmentContentDir, sha256)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete attachment content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteAttachmentContent',
+        filePath
+      )
+    }
+  }
+
+  // Shared Step Operations
+  async loadSharedStep(sharedStepId: string): Promise<SharedStep | null> {
+    const filePath = resolveEntityPath(this.sharedStepsDir, `${sharedStepId}.json`)
+
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as SharedStep
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw new FileSystemError(
+        `Failed to load shared step: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'loadSharedStep',
+        filePath
+      )
+    }
+  }
+
+  async listSharedSteps(): Promise<SharedStep[]> {
+    return this.readJsonFiles<SharedStep>(this.sharedStepsDir, 'listSharedSteps')
+  }
+
+  async saveSharedStep(sharedStep: SharedStep): Promise<void> {
+    const filePath = resolveEntityPath(this.sharedStepsDir, `${sharedStep.id}.json`)
+
+    try {
+      await fs.mkdir(this.sharedStepsDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(sharedStep, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save shared step: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveSharedStep',
+        filePath
+      )
+    }
+  }
+
+  async deleteSharedStep(sharedStepId: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.sharedStepsDir, `${sharedStepId}.json`)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete shared step: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteSharedStep',
+        filePath
+      )
+    }
+  }
+
+  async listSharedStepVersions(sharedStepId: string): Promise<SharedStep[]> {
+    const versions = await this.readJsonFiles<SharedStep>(
+      resolveEntityPath(this.sharedStepVersionsDir, sharedStepId),
+      'listSharedStepVersions'
+    )
+    return versions.sort((a, b) => a.version - b.version)
+  }
+
+  async appendSharedStepVersion(sharedStep: SharedStep): Promise<void> {
+    const dir = resolveEntityPath(this.sharedStepVersionsDir, sharedStep.id)
+    const filePath = resolveEntityPath(dir, `${String(sharedStep.version).padStart(6, '0')}.json`)
+
+    try {
+      await fs.mkdir(dir, { recursive: true })
+      // 'wx' refuses to overwrite, which keeps recorded versions immutable
+      await fs.writeFile(filePath, JSON.stringify(sharedStep, null, 2), { encoding: 'utf-8', flag: 'wx' })
+    } catch (error) {
+      throw new FileSystemError(
+        (error as NodeJS.ErrnoException).code === 'EEXIST'
+          ? `Version ${sharedStep.version} of shared step ${sharedStep.id} already exists`
+          : `Failed to save shared step version: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'appendSharedStepVersion',
+        filePath
+      )
+    }
+  }
+
+  // Custom Field Operations
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    return this.readJsonFiles<CustomFieldDefinition>(this.customFieldsDir, 'listCustomFields')
+  }
+
+  async saveCustomField(field: CustomFieldDefinition): Promise<void> {
+    const filePath = resolveEntityPath(this.customFieldsDir, `${field.id}.json`)
+
+    try {
+      await fs.mkdir(this.customFieldsDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(field, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save custom field: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveCustomField',
+        filePath
+      )
+    }
+  }
+
+  async deleteCustomField(fieldId: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.customFieldsDir, `${fieldId}.json`)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete custom field: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteCustomField',
+        filePath
+      )
+    }
+  }
+
+  // Test Suite Operations
+  async listSuites(): Promise<TestSuite[]> {
+    return this.readJsonFiles<TestSuite>(this.suitesDir, 'listSuites')
+  }
+
+  async saveSuite(suite: TestSuite): Promise<void> {
+    const filePath = resolveEntityPath(this.suitesDir, `${suite.id}.json`)
+
+    try {
+      await fs.mkdir(this.suitesDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(suite, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save test suite: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveSuite',
+        filePath
+      )
+    }
+  }
+
+  async deleteSuite(suiteId: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.suitesDir, `${suiteId}.json`)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete test suite: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteSuite',
+        filePath
+      )
+    }
+  }
+
+  // Requirement Operations
+  async listRequirements(): Promise<Requirement[]> {
+    return this.readJsonFiles<Requirement>(this.requirementsDir, 'listRequirements')
+  }
+
+  async saveRequirement(requirement: Requirement): Promise<void> {
+    const filePath = resolveEntityPath(this.requirementsDir, `${requirement.id}.json`)
+
+    try {
+      await fs.mkdir(this.requirementsDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(requirement, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save requirement: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveRequirement',
+        filePath
+      )
+    }
+  }
+
+  async deleteRequirement(requirementId: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.requirementsDir, `${requirementId}.json`)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete requirement: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteRequirement',
+        filePath
+      )
+    }
+  }
+
+  // Bulk Edit Operations
+  async listBulkEdits(): Promise<BulkEdit[]> {
+    return this.readJsonFiles<BulkEdit>(this.bulkEditsDir, 'listBulkEdits')
+  }
+
+  async saveBulkEdit(bulkEdit: BulkEdit): Promise<void> {
+    const filePath = resolveEntityPath(this.bulkEditsDir, `${bulkEdit.id}.json`)
+
+    try {
+      await fs.mkdir(this.bulkEditsDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(bulkEdit, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save bulk edit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveBulkEdit',
+        filePath
+      )
+    }
+  }
+
+  // Release Operations
+  async listReleases(): Promise<Release[]> {
+    return this.readJsonFiles<Release>(this.releasesDir, 'listReleases')
+  }
+
+  async saveRelease(release: Release): Promise<void> {
+    const filePath = resolveEntityPath(this.releasesDir, `${release.id}.json`)
+
+    try {
+      await fs.mkdir(this.releasesDir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(release, null, 2), 'utf-8')
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to save release: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveRelease',
+        filePath
+      )
+    }
+  }
+
+  async deleteRelease(releaseId: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.releasesDir, `${releaseId}.json`)
+
+    try {
+      await fs.unlink(filePath)
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false
+      }
+      throw new FileSystemError(
+        `Failed to delete release: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteRelease',
+        filePath
+      )
+    }
+  }
+
+  // Validation
+  async listDocuments(): Promise<StoredDocument[]> {
+    const documents: StoredDocument[] = []
+
+    const readDir = async (dir: string, extension: string) => {
+      try {
+        return (await fs.readdir(dir)).filter(file => file.endsWith(extension)).sort()
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw error
+      }
+    }
+
+    for (const file of await readDir(this.testCasesDir, '.md')) {
+      const location = path.relative(this.workspaceDir, path.join(this.testCasesDir, file))
+      try {
+        const fileContent = await fs.readFile(path.join(this.testCasesDir, file), 'utf-8')
+        documents.push({ entityType: 'testCase', location, data: parseTestCase(fileContent) })
+      } catch (error) {
+        documents.push({ entityType: 'testCase', location, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    for (const file of await readDir(this.testPlansDir, '.json')) {
+      const location = path.relative(this.workspaceDir, path.join(this.testPlansDir, file))
+      try {
+        const fileContent = await fs.readFile(path.join(this.testPlansDir, file), 'utf-8')
+        documents.push({ entityType: 'testPlan', location, data: JSON.parse(fileContent) })
+      } catch (error) {
+        documents.push({ entityType: 'testPlan', location, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    // Runs are read through normalizeTestRun, legacy layouts are handled by migrateTestRuns
+    for (const stored of await this.readLatestTestRunFiles()) {
+      documents.push({
+        entityType: 'testRun',
+        location: path.relative(this.workspaceDir, stored.filePath),
+        data: stored.testRun
+      })
+    }
+
+    return documents
+  }
+
+  // Every readable *.json document in a directory; a missing directory is empty
+  private async readJsonFiles<T>(dir: string, operation: string): Promise<T[]> {
+    try {
+      const files = await fs.readdir(dir)
+      const documents: T[] = []
+
+      for (const file of files.filter(file => file.endsWith('.json'))) {
+        try {
+          documents.push(JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')) as T)
+        } catch (error) {
+          console.error(`Error loading ${path.join(dir, file)}:`, error)
+        }
+      }
+
+      return documents
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []
+      }
+      throw new FileSystemError(
+        `Failed to read ${dir}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        operation,
+        dir
+      )
+    }
+  }
+
+  private testCasePath(testCaseId: string): string {
+    return resolveEntityPath(this.testCasesDir, `${testCaseId}.md`)
+  }
+
+  private testPlanPath(testPlanId: string): string {
+    return resolveEntityPath(this.testPlansDir, `${testPlanId}.json`)
+  }
+
+  private testRunPath(testRunId: string): string {
+    return resolveEntityPath(this.resultsDir, `${testRunId}.json`)
+  }
+
+  private trashEntryPath(entryId: string): string {
+    return resolveEntityPath(this.trashDir, `${entryId}.json`)
+  }
+}
@@ -0,0 +1,411 @@
+import { execFile } from 'child_process'
+import fs from 'fs/promises'
+import path from 'path'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+// Workspace directories holding data; anything else in the repository is left alone
+export const WORKSPACE_DATA_PATHS = ['testcases', 'testplans', 'results', 'test-executions', 'revisions', 'trash', 'attachments', 'shared-steps', 'custom-fields', 'suites', 'requirements', 'bulk-edits', 'releases']
+
+// Revision numbers are assigned per workspace, so concurrent edits record the
+// same revision file on both sides. The remote history wins; the local edit
+// itself is still in the conflicting test case file.
+const REMOTE_WINS_PATHS = ['revisions/']
+
+export interface GitOptions {
+  enabled: boolean
+  remote?: string // URL or path of the remote, e.g. a bare repository
+  branch: string
+}
+
+export type GitErrorReason = 'no_remote' | 'not_found' | 'conflicts' | 'rejected' | 'misconfigured' | 'failed'
+
+export class GitError extends Error {
+  constructor(message: string, public reason: GitErrorReason, public command?: string) {
+    super(message)
+    this.name = 'GitError'
+  }
+}
+
+export interface GitAuthor {
+  name: string
+  email?: string
+}
+
+export interface GitConflict {
+  path: string // Relative to the workspace
+  entityType?: 'testCase' | 'testPlan' | 'testRun'
+  entityId?: string
+}
+
+export interface GitConflictVersions extends GitConflict {
+  base: string | null // null when the file doesn't exist on that side
+  ours: string | null
+  theirs: string | null
+}
+
+export interface GitStatus {
+  branch: string
+  remote?: string
+  merging: boolean
+  conflicts: GitConflict[]
+  uncommitted: string[] // Data files changed since the last commit
+  ahead: number // Commits not pushed, compared to the last fetch
+  behind: number
+  head?: { sha: string; message: string; author: string; date: string }
+}
+
+export interface GitPullResult {
+  status: 'up_to_date' | 'merged' | 'conflicts'
+  conflicts: GitConflict[]
+}
+
+/**
+ * Resolve git settings from the environment:
+ * - QA_GIT_ENABLED: 'true' to commit every change to the workspace
+ * - QA_GIT_REMOTE: remote to pull from and push to (added as 'origin')
+ * - QA_GIT_BRANCH: branch to sync (defaults to 'main')
+ */
+export function getGitOptions(env: NodeJS.ProcessEnv = process.env): GitOptions {
+  return {
+    enabled: env.QA_GIT_ENABLED === 'true',
+    remote: env.QA_GIT_REMOTE || undefined,
+    branch: env.QA_GIT_BRANCH || 'main'
+  }
+}
+
+// Map a data file to the entity stored in it
+export function getConflictEntity(filePath: string): GitConflict {
+  const [dir, file] = filePath.split('/')
+  const entity = (entityType: GitConflict['entityType'], extension: string) =>
+    file && file.endsWith(extension) ? { path: filePath, entityType, entityId: path.basename(file, extension) } : { path: filePath }
+
+  switch (dir) {
+    case 'testcases':
+      return entity('testCase', '.md')
+    case 'testplans':
+      return entity('testPlan', '.json')
+    case 'results':
+      return entity('testRun', '.json')
+    default:
+      return { path: filePath }
+  }
+}
+
+/**
+ * Keeps the file workspace in a git repository. Every change is committed
+ * with the user who made it as author, and the branch is synced with a
+ * remote by merging, so concurrent edits of the same file surface as
+ * conflicts to resolve instead of being overwritten.
+ *
+ * While a merge with conflicts is in progress changes are not committed
+ * individually; they go into the merge commit once the conflicts are resolved.
+ */
+export class GitWorkspace {
+  private queue: Promise<unknown> = Promise.resolve()
+  private initialized: Promise<void> | null = null
+
+  constructor(private workspaceDir: string, private options: Omit<GitOptions, 'enabled'>) {}
+
+  get branch(): string {
+    return this.options.branch
+  }
+
+  /**
+   * Stage and commit the data directories. Returns the commit SHA, or null
+   * when nothing changed or a merge is in progress.
+   */
+  async commit(message: string, author: GitAuthor): Promise<string | null> {
+    return this.exclusive(async () => {
+      if (await this.isMerging()) return null
+
+      const paths = await this.existingDataPaths()
+      if (paths.length === 0) return null
+
+      await this.git(['add', '-A', '--', ...paths])
+      // Only the staged data files are committed, a pathspec of an empty directory would fail
+      const staged = (await this.git(['diff', '--cached', '--name-only', '-z', '--relative', '--', ...paths]))
+        .split('\0')
+        .filter(Boolean)
+      if (staged.length === 0) return null
+
+      await this.git(['commit', '--quiet', '--no-verify', '-m', message, '--', ...staged], author)
+      return (await this.git(['rev-parse', 'HEAD'])).trim()
+    })
+  }
+
+  async status(): Promise<GitStatus> {
+    return this.exclusive(async () => {
+      const paths = await this.existingDataPaths()
+      // ls-files prints paths relative to the workspace, unlike git status
+      const uncommitted = paths.length > 0
+        ? Array.from(new Set(
+            (await this.git(['ls-files', '-z', '--modified', '--deleted', '--others', '--exclude-standard', '--', ...paths]))
+              .split('\0')
+              .filter(Boolean)
+          ))
+        : []
+
+      const status: GitStatus = {
+        branch: this.options.branch,
+        remote: this.options.remote,
+        merging: await this.isMerging(),
+        conflicts: await this.listConflicts(),
+        uncommitted,
+        ahead: 0,
+        behind: 0
+      }
+
+      if (await this.succeeds(['rev-parse', '--verify', '--quiet', 'HEAD'])) {
+        const [sha, author, date, ...message] = (await this.git(['log', '-1', '--format=%H%n%an%n%aI%n%s'])).trim().split('\n')
+        status.head = { sha, author, date, message: message.join('\n') }
+
+        const tracking = `refs/remotes/origin/${this.options.branch}`
+        if (await this.succeeds(['rev-parse', '--verify', '--quiet', tracking])) {
+          const [ahead, behind] = (await this.git(['rev-list', '--left-right', '--count', `HEAD...${tracking}`]))
+            .trim()
+            .split(/\s+/)
+            .map(Number)
+          status.ahead = ahead
+          status.behind = behind
+        }
+      }
+
+      return status
+    })
+  }
+
+  /**
+   * Fetch the branch from the remote and merge it. Conflicting files are
+   * left in the working tree and returned; resolve them with
+   * resolveConflict or abort the merge.
+   */
+  async pull(author: GitAuthor): Promise<GitPullResult> {
+    return this.exclusive(async () => {
+      this.requireRemote()
+      await this.requireBranch()
+      if (await this.isMerging()) {
+        throw new GitError('A merge is in progress, resolve the conflicts first', 'conflicts')
+      }
+
+      const ref = `refs/heads/${this.options.branch}`
+      // Exit code 2: the branch doesn't exist on the remote yet
+      if (!(await this.succeeds(['ls-remote', '--exit-code', 'origin', ref]))) {
+        return { status: 'up_to_date', conflicts: [] }
+      }
+      await this.git(['fetch', '--quiet', 'origin', `+${ref}:refs/remotes/origin/${this.options.branch}`])
+
+      const before = await this.tryGit(['rev-parse', '--verify', '--quiet', 'HEAD'])
+      try {
+        await this.git(['merge', '--no-edit', '--no-verify', `origin/${this.options.branch}`], author)
+      } catch (error) {
+        const conflicts = await this.listConflicts()
+        if (conflicts.length === 0) {
+          throw error
+        }
+
+        for (const conflict of conflicts) {
+          if (REMOTE_WINS_PATHS.some(prefix => conflict.path.startsWith(prefix))) {
+            await this.keepSide(conflict.path, 'theirs')
+          }
+        }
+
+        const remaining = await this.listConflicts()
+        if (remaining.length > 0) {
+          return { status: 'conflicts', conflicts: remaining }
+        }
+        await this.git(['commit', '--quiet', '--no-edit', '--no-verify'], author)
+      }
+
+      const after = await this.tryGit(['rev-parse', '--verify', '--quiet', 'HEAD'])
+      return { status: before === after ? 'up_to_date' : 'merged', conflicts: [] }
+    })
+  }
+
+  async push(): Promise<void> {
+    return this.exclusive(async () => {
+      this.requireRemote()
+      await this.requireBranch()
+      if (await this.isMerging()) {
+        throw new GitError('A merge is in progress, resolve the conflicts first', 'conflicts')
+      }
+      if (!(await this.succeeds(['rev-parse', '--verify', '--quiet', 'HEAD']))) {
+        return // Nothing committed yet
+      }
+
+      try {
+        await this.git(['push', '--quiet', 'origin', `HEAD:refs/heads/${this.options.branch}`])
+        await this.git(['fetch', '--quiet', 'origin', `+refs/heads/${this.options.branch}:refs/remotes/origin/${this.options.branch}`])
+      } catch (error) {
+        if (error instanceof GitError && /\[rejected\]|non-fast-forward|fetch first/.test(error.message)) {
+          throw new GitError('The remote has changes that are not in the workspace, pull first', 'rejected', 'push')
+        }
+        throw error
+      }
+    })
+  }
+
+  // Base, our and their version of a conflicting file
+  async getConflict(filePath: string): Promise<GitConflictVersions | null> {
+    return this.exclusive(async () => {
+      const conflict = (await this.listConflicts()).find(c => c.path === filePath)
+      if (!conflict) return null
+
+      const show = (stage: number) => this.tryGit(['show', `:${stage}:./${filePath}`])
+      return { ...conflict, base: await show(1), ours: await show(2), theirs: await show(3) }
+    })
+  }
+
+  /**
+   * Resolve a conflicting file by keeping our or their version. Once every
+   * conflict is resolved the merge is committed with the given author.
+   */
+  async resolveConflict(filePath: string, resolution: 'ours' | 'theirs', author: GitAuthor): Promise<GitStatus['conflicts']> {
+    await this.exclusive(async () => {
+      const conflict = (await this.listConflicts()).find(c => c.path === filePath)
+      if (!conflict) {
+        throw new GitError(`${filePath} has no conflict`, 'not_found')
+      }
+
+      await this.keepSide(filePath, resolution)
+
+      if ((await this.listConflicts()).length === 0) {
+        await this.git(['commit', '--quiet', '--no-edit', '--no-verify'], author)
+      }
+    })
+
+    return (await this.status()).conflicts
+  }
+
+  // Drop the merge in progress and go back to the state before the pull
+  async abortMerge(): Promise<void> {
+    return this.exclusive(async () => {
+      if (await this.isMerging()) {
+        await this.git(['merge', '--abort'])
+      }
+    })
+  }
+
+  private async keepSide(filePath: string, resolution: 'ours' | 'theirs'): Promise<void> {
+    const stage = resolution === 'ours' ? 2 : 3
+    if (await this.tryGit(['show', `:${stage}:./${filePath}`]) === null) {
+      // The chosen side deleted the file
+      await this.git(['rm', '--quiet', '--', filePath])
+    } else {
+      await this.git(['checkout', `--${resolution}`, '--', filePath])
+      await this.git(['add', '--', filePath])
+    }
+  }
+
+  private requireRemote(): void {
+    if (!this.options.remote) {
+      throw new GitError('No git remote configured, set QA_GIT_REMOTE', 'no_remote')
+    }
+  }
+
+  private async listConflicts(): Promise<GitConflict[]> {
+    const output = await this.git(['diff', '--name-only', '-z', '--diff-filter=U', '--relative'])
+    return output.split('\0').filter(Boolean).map(getConflictEntity)
+  }
+
+  private async isMerging(): Promise<boolean> {
+    return this.succeeds(['rev-parse', '--verify', '--quiet', 'MERGE_HEAD'])
+  }
+
+  private async existingDataPaths(): Promise<string[]> {
+    const paths: string[] = []
+    for (const dataPath of WORKSPACE_DATA_PATHS) {
+      try {
+        await fs.access(path.join(this.workspaceDir, dataPath))
+        paths.push(dataPath)
+      } catch {
+        // Not created yet
+      }
+    }
+    return paths
+  }
+
+  private async requireBranch(): Promise<void> {
+    const current = (await this.tryGit(['symbolic-ref', '--quiet', '--short', 'HEAD']))?.trim()
+    if (current !== this.options.branch) {
+      throw new GitError(
+        `The workspace repository is ${current ? `on branch ${current}` : 'not on a branch'}, check out ${this.options.branch} or set QA_GIT_BRANCH`,
+        'misconfigured'
+      )
+    }
+  }
+
+  /**
+   * Create the repository and point origin at the configured remote. Only a
+   * repository rooted at the workspace is used, never one it is nested in,
+   * and an origin pointing elsewhere is left alone rather than rewritten.
+   */
+  private async init(): Promise<void> {
+    await fs.mkdir(this.workspaceDir, { recursive: true })
+
+    const topLevel = (await this.tryGit(['rev-parse', '--show-toplevel']))?.trim()
+    if (!topLevel || await fs.realpath(topLevel) !== await fs.realpath(this.workspaceDir)) {
+      await this.git(['init', '--quiet', '-b', this.options.branch])
+    }
+
+    if (this.options.remote) {
+      const current = await this.tryGit(['remote', 'get-url', 'origin'])
+      if (current === null) {
+        await this.git(['remote', 'add', 'origin', this.options.remote])
+      } else if (current.trim() !== this.options.remote) {
+        throw new GitError(
+          `The workspace repository already has origin ${current.trim()}, which is not QA_GIT_REMOTE (${this.options.remote})`,
+          'misconfigured'
+        )
+      }
+    }
+  }
+
+  // Git commands share one working tree and index, so they run one at a time
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(async () => {
+      if (!this.initialized) {
+        this.initialized = this.init()
+        this.initialized.catch(() => { this.initialized = null })
+      }
+      await this.initialized
+      return operation()
+    })
+
+    this.queue = next.catch(() => {})
+    return next
+  }
+
+  private async git(args: string[], author?: GitAuthor): Promise<string> {
+    const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+    if (author) {
+      env.GIT_AUTHOR_NAME = env.GIT_COMMITTER_NAME = author.name
+      env.GIT_AUTHOR_EMAIL = env.GIT_COMMITTER_EMAIL = author.email || ''
+    }
+
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: this.workspaceDir, env, maxBuffer: 64 * 1024 * 1024 })
+      return stdout
+    } catch (error) {
+      const { stderr, stdout, message } = error as { stderr?: string; stdout?: string; message: string }
+      throw new GitError(
+        `git ${args[0]} failed: ${(stderr || stdout || message).trim()}`,
+        'failed',
+        args[0]
+      )
+    }
+  }
+
+  private async tryGit(args: string[]): Promise<string | null> {
+    try {
+      return await this.git(args)
+    } catch {
+      return null
+    }
+  }
+
+  private async succeeds(args: string[]): Promise<boolean> {
+    return (await this.tryGit(args)) !== null
+  }
+}
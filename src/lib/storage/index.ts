@@ -0,0 +1,40 @@
+import path from 'path'
+import { FileStorageAdapter } from './file-storage'
+import { SqliteStorageAdapter } from './sqlite-storage'
+import { StorageAdapter, StorageBackend, StorageOptions } from './types'
+
+export type { StorageAdapter, StorageBackend, StorageOptions, StoredDocument } from './types'
+export { FileSystemError } from './errors'
+export { FileStorageAdapter } from './file-storage'
+export { SqliteStorageAdapter } from './sqlite-storage'
+export { GitError, GitWorkspace, getGitOptions } from './git-workspace'
+export type { GitAuthor, GitConflict, GitConflictVersions, GitPullResult, GitStatus } from './git-workspace'
+
+/**
+ * Resolve storage settings from the environment:
+ * - QA_STORAGE_BACKEND: 'file' (default) or 'sqlite'
+ * - QA_WORKSPACE_DIR: root of the workspace (defaults to the process cwd)
+ * - QA_SQLITE_PATH: database file (defaults to <workspace>/.data/qa.sqlite)
+ */
+export function getStorageOptions(env: NodeJS.ProcessEnv = process.env): StorageOptions {
+  const workspaceDir = path.resolve(env.QA_WORKSPACE_DIR || process.cwd())
+  const backend: StorageBackend = env.QA_STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'file'
+
+  return {
+    backend,
+    workspaceDir,
+    sqlitePath: env.QA_SQLITE_PATH
+      ? path.resolve(workspaceDir, env.QA_SQLITE_PATH)
+      : path.join(workspaceDir, '.data', 'qa.sqlite')
+  }
+}
+
+export function createStorageAdapter(options: StorageOptions): StorageAdapter {
+  switch (options.backend) {
+    case 'sqlite':
+      return new SqliteStorageAdapter(options.sqlitePath)
+    case 'file':
+    default:
+      return new FileStorageAdapter(options.workspaceDir)
+  }
+}
@@ -0,0 +1,382 @@
+import matter from 'gray-matter'
+import { Lexer, Token } from 'marked'
+import { CustomFieldValues, TestCase, TestStep } from '../types'
+
+/**
+ * Test case files are Markdown with YAML frontmatter:
+ *
+ *   # <title>
+ *   <description>
+ *   ## Preconditions
+ *   ## Test Steps
+ *   ### Step <n>
+ *   **Action:** <markdown>
+ *   **Expected Result:** <markdown>
+ *   ## Expected Final Result
+ *
+ * A step that uses a shared step has a single **Shared Step:** <id> line
+ * instead of the action and expected result, with @<version> appended when
+ * it is pinned to a version.
+ *
+ * The body is parsed into a Markdown AST, so the content of each section can
+ * hold any Markdown (lists, code blocks, tables, images, emphasis) and is
+ * read back exactly as written. Content that would look like one of the
+ * headings or labels above is escaped with a backslash on write and
+ * unescaped on read. Leading blank lines and trailing whitespace of a
+ * value are not significant.
+ */
+
+const SECTIONS = {
+  preconditions: 'Preconditions',
+  steps: 'Test Steps',
+  expectedResult: 'Expected Final Result'
+} as const
+
+const ACTION_LABEL = '**Action:**'
+const EXPECTED_LABEL = '**Expected Result:**'
+const SHARED_LABEL = '**Shared Step:**'
+
+// First line of a block that the structure parser would take for a heading or label
+const STRUCTURAL_LINE = new RegExp(
+  '^(?:## +(?:Preconditions|Test Steps|Expected Final Result)(?: +#+)? *$' +
+  '|### +Step +\\d+(?: +#+)? *$' +
+  '|\\*\\*(?:Action|Expected Result|Shared Step):\\*\\*)'
+)
+
+interface PositionedToken {
+  token: Token
+  start: number
+  end: number
+}
+
+// Top-level tokens with their offsets. Link definitions produce no token, so
+// content is always sliced from the source rather than rebuilt from tokens.
+function lex(source: string): PositionedToken[] {
+  const positioned: PositionedToken[] = []
+  let cursor = 0
+
+  for (const token of new Lexer().lex(source)) {
+    const start = source.indexOf(token.raw, cursor)
+    if (start === -1) continue
+    cursor = start + token.raw.length
+    positioned.push({ token, start, end: cursor })
+  }
+
+  return positioned
+}
+
+// Leading indentation, escaping backslashes and the rest of a block's first line
+function splitFirstLine(raw: string): { indent: string; backslashes: string; rest: string } {
+  // [^] rather than ., which stops at U+2028 and U+2029
+  const firstLine = raw.split('\n')[0]
+  const match = firstLine.match(/^( {0,3})(\\*)([^]*)$/)
+  if (!match) return { indent: '', backslashes: '', rest: firstLine }
+  return { indent: match[1], backslashes: match[2], rest: match[3] }
+}
+
+function isAtxHeading(token: Token): boolean {
+  return token.type === 'heading' && /^ {0,3}#/.test(token.raw)
+}
+
+/**
+ * Escape every block that would be read back as a structural heading or
+ * label. Paragraphs that already start with escaped structure get one more
+ * backslash, which keeps the escaping reversible.
+ */
+export function escapeContent(content: string): string {
+  let escaped = ''
+  let cursor = 0
+
+  for (const { token, start } of lex(content)) {
+    if (token.type !== 'paragraph' && !isAtxHeading(token)) continue
+
+    const { indent, rest } = splitFirstLine(token.raw)
+    if (STRUCTURAL_LINE.test(rest)) {
+      const at = start + indent.length
+      escaped += content.slice(cursor, at) + '\\'
+      cursor = at
+    }
+  }
+
+  return escaped + content.slice(cursor)
+}
+
+export function unescapeContent(content: string): string {
+  let unescaped = ''
+  let cursor = 0
+
+  for (const { token, start } of lex(content)) {
+    if (token.type !== 'paragraph') continue
+
+    const { indent, backslashes, rest } = splitFirstLine(token.raw)
+    if (backslashes.length > 0 && STRUCTURAL_LINE.test(rest)) {
+      const at = start + indent.length
+      unescaped += content.slice(cursor, at)
+      cursor = at + 1
+    }
+  }
+
+  return unescaped + content.slice(cursor)
+}
+
+// Canonical form of a Markdown value: LF line endings, no leading blank
+// lines and no trailing whitespace
+export function normalizeMarkdown(value: string | undefined | null): string {
+  return (value || '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/^(?:[ \t]*\n)+/, '')
+    .trimEnd()
+}
+
+// A labelled value goes on the label's line when it starts with a paragraph
+// and below it otherwise, so lists, tables and code blocks keep their meaning
+function serializeLabelled(label: string, value: string): string {
+  const content = escapeContent(normalizeMarkdown(value))
+  if (!content) {
+    return `${label}\n\n`
+  }
+
+  const first = lex(content)[0]
+  return first && first.token.type === 'paragraph' && first.start === 0
+    ? `${label} ${content}\n\n`
+    : `${label}\n\n${content}\n\n`
+}
+
+function readLabelled(source: string, label: string): string {
+  const rest = source.slice(label.length)
+  // Inline values are separated from the label by exactly one space
+  const content = rest.startsWith(' ') ? rest.slice(1) : rest
+  return unescapeContent(normalizeMarkdown(content))
+}
+
+// Hand-written unquoted dates are read by YAML as Date objects
+function parseCustomFields(value: unknown): CustomFieldValues | undefined {
+  if (!value || typeof value !== 'object') return undefined
+
+  return Object.fromEntries(Object.entries(value).map(([fieldId, fieldValue]) => [
+    fieldId,
+    fieldValue instanceof Date ? fieldValue.toISOString().slice(0, 10) : fieldValue
+  ]))
+}
+
+/**
+ * Serialize a test case into the Markdown + frontmatter format used in testcases/
+ */
+export function serializeTestCase(testCase: TestCase): string {
+  const steps = testCase.steps || []
+  const description = normalizeMarkdown(testCase.description)
+  const preconditions = normalizeMarkdown(testCase.preconditions)
+  const expectedResult = normalizeMarkdown(testCase.expectedResult)
+
+  // Clean the test case object to avoid undefined values that break gray-matter
+  const frontmatter: Record<string, unknown> = {
+    id: testCase.id || '',
+    title: testCase.title || '',
+    description,
+    preconditions,
+    expectedResult,
+    priority: testCase.priority || 'medium',
+    tags: testCase.tags || [],
+    githubIssue: testCase.githubIssue || null,
+    createdAt: testCase.createdAt || new Date().toISOString(),
+    updatedAt: testCase.updatedAt || new Date().toISOString(),
+    createdBy: testCase.createdBy || 'unknown'
+  }
+  if (steps.length > 0) {
+    frontmatter.stepIds = steps.map(step => step.id)
+  }
+  if (testCase.parameters) {
+    frontmatter.parameters = testCase.parameters
+  }
+  if (testCase.customFields && Object.keys(testCase.customFields).length > 0) {
+    frontmatter.customFields = testCase.customFields
+  }
+  if (testCase.suiteId) {
+    frontmatter.suiteId = testCase.suiteId
+  }
+  if (testCase.reviewStatus) {
+    frontmatter.reviewStatus = testCase.reviewStatus
+  }
+  if (testCase.reviewers && testCase.reviewers.length > 0) {
+    frontmatter.reviewers = testCase.reviewers
+  }
+  if (testCase.reviewComments && testCase.reviewComments.length > 0) {
+    frontmatter.reviewComments = testCase.reviewComments
+  }
+  if (testCase.automatedTests && testCase.automatedTests.length > 0) {
+    frontmatter.automatedTests = testCase.automatedTests
+  }
+
+  // The title lives in the frontmatter, the heading is for readers
+  let markdownContent = `# ${String(frontmatter.title).replace(/\s*\n\s*/g, ' ')}\n\n`
+  if (description) {
+    markdownContent += `${escapeContent(description)}\n\n`
+  }
+
+  if (preconditions) {
+    markdownContent += `## ${SECTIONS.preconditions}\n\n${escapeContent(preconditions)}\n\n`
+  }
+
+  markdownContent += `## ${SECTIONS.steps}\n\n`
+
+  steps.forEach((step, index) => {
+    markdownContent += `### Step ${step.stepNumber || index + 1}\n\n`
+    if (step.sharedStepId) {
+      const pin = step.sharedStepVersion ? `@${step.sharedStepVersion}` : ''
+      markdownContent += `${SHARED_LABEL} ${step.sharedStepId}${pin}\n\n`
+      return
+    }
+    markdownContent += serializeLabelled(ACTION_LABEL, step.action)
+    markdownContent += serializeLabelled(EXPECTED_LABEL, step.expectedResult)
+  })
+
+  markdownContent += `## ${SECTIONS.expectedResult}\n\n`
+  if (expectedResult) {
+    markdownContent += `${escapeContent(expectedResult)}\n`
+  }
+
+  return matter.stringify(markdownContent, frontmatter)
+}
+
+interface BodySections {
+  description?: string
+  preconditions?: string
+  expectedResult?: string
+  steps?: Array<Omit<TestStep, 'id'>>
+}
+
+/**
+ * Split the body into its sections. Only ATX headings and labels at the top
+ * level of the document are structural; anything nested in a list, quote
+ * or code block is content.
+ */
+function parseBody(body: string): BodySections {
+  const tokens = lex(body)
+  const sectionNames: string[] = Object.values(SECTIONS)
+
+  const isSection = ({ token }: PositionedToken) =>
+    isAtxHeading(token) && token.type === 'heading' && token.depth === 2 && sectionNames.includes(token.text)
+  const isStep = ({ token }: PositionedToken) =>
+    isAtxHeading(token) && token.type === 'heading' && token.depth === 3 && /^Step +\d+$/.test(token.text)
+  const isLabel = ({ token }: PositionedToken, label: string) =>
+    token.type === 'paragraph' && token.raw.startsWith(label)
+
+  const sections: BodySections = {}
+  const firstSection = tokens.findIndex(isSection)
+  const title = tokens[0] && isAtxHeading(tokens[0].token) && tokens[0].token.type === 'heading' &&
+    tokens[0].token.depth === 1 ? tokens[0] : null
+
+  if (title) {
+    const end = firstSection === -1 ? body.length : tokens[firstSection].start
+    sections.description = unescapeContent(normalizeMarkdown(body.slice(title.end, end)))
+  }
+
+  for (let i = firstSection; i !== -1 && i < tokens.length; i++) {
+    if (!isSection(tokens[i])) continue
+
+    const heading = tokens[i].token as Token & { text: string }
+    const next = tokens.findIndex((candidate, j) => j > i && isSection(candidate))
+    const end = next === -1 ? body.length : tokens[next].start
+
+    if (heading.text === SECTIONS.preconditions) {
+      sections.preconditions = unescapeContent(normalizeMarkdown(body.slice(tokens[i].end, end)))
+    } else if (heading.text === SECTIONS.expectedResult) {
+      sections.expectedResult = unescapeContent(normalizeMarkdown(body.slice(tokens[i].end, end)))
+    } else {
+      const stepTokens = tokens.slice(i + 1, next === -1 ? tokens.length : next)
+      sections.steps = parseSteps(body, stepTokens, end, isStep, isLabel)
+    }
+  }
+
+  return sections
+}
+
+function parseSteps(
+  body: string,
+  tokens: PositionedToken[],
+  sectionEnd: number,
+  isStep: (token: PositionedToken) => boolean,
+  isLabel: (token: PositionedToken, label: string) => boolean
+): Array<Omit<TestStep, 'id'>> {
+  const steps: Array<Omit<TestStep, 'id'>> = []
+
+  tokens.forEach((token, index) => {
+    if (!isStep(token)) return
+
+    const nextStep = tokens.findIndex((candidate, j) => j > index && isStep(candidate))
+    const stepEnd = nextStep === -1 ? sectionEnd : tokens[nextStep].start
+    const stepTokens = tokens.slice(index + 1, nextStep === -1 ? tokens.length : nextStep)
+
+    const action = stepTokens.find(candidate => isLabel(candidate, ACTION_LABEL))
+    const expected = stepTokens.find(candidate => isLabel(candidate, EXPECTED_LABEL))
+    const shared = stepTokens.find(candidate => isLabel(candidate, SHARED_LABEL))
+
+    const stepNumberMatch = (token.token as Token & { text: string }).text.match(/\d+/)
+    const stepNumber = stepNumberMatch ? parseInt(stepNumberMatch[0], 10) : steps.length + 1
+
+    const reference = shared && shared.token.raw.slice(SHARED_LABEL.length).trim().match(/^(\S+?)(?:@(\d+))?$/)
+    if (reference) {
+      steps.push({
+        stepNumber,
+        action: '',
+        expectedResult: '',
+        sharedStepId: reference[1],
+        ...(reference[2] ? { sharedStepVersion: parseInt(reference[2], 10) } : {})
+      })
+      return
+    }
+
+    steps.push({
+      stepNumber,
+      action: action
+        ? readLabelled(body.slice(action.start, expected && expected.start > action.start ? expected.start : stepEnd), ACTION_LABEL)
+        : '',
+      expectedResult: expected ? readLabelled(body.slice(expected.start, stepEnd), EXPECTED_LABEL) : ''
+    })
+  })
+
+  return steps
+}
+
+/**
+ * Parse a test case file back into a TestCase object. The body is the
+ * source of truth for the Markdown sections; the copies in the frontmatter
+ * are only used for files without the corresponding section.
+ */
+export function parseTestCase(fileContent: string): TestCase {
+  const { data, content } = matter(fileContent)
+
+  // Validate that required fields exist in frontmatter
+  if (!data.id || !data.title) {
+    throw new Error('Invalid test case format: missing required frontmatter fields')
+  }
+
+  const body = parseBody(content.replace(/\r\n?/g, '\n'))
+  const stepIds: unknown[] = Array.isArray(data.stepIds) ? data.stepIds : []
+  const preconditions = body.preconditions ?? data.preconditions
+
+  return {
+    id: data.id,
+    title: data.title,
+    description: body.description ?? data.description ?? '',
+    preconditions: preconditions || undefined,
+    steps: (body.steps || []).map((step, index) => ({
+      id: typeof stepIds[index] === 'string' ? stepIds[index] as string : `step-${step.stepNumber}`,
+      ...step
+    })),
+    expectedResult: body.expectedResult ?? data.expectedResult ?? '',
+    priority: data.priority || 'medium',
+    tags: data.tags || [],
+    parameters: data.parameters || undefined,
+    customFields: parseCustomFields(data.customFields),
+    suiteId: data.suiteId || undefined,
+    reviewStatus: data.reviewStatus || undefined,
+    reviewers: data.reviewers || undefined,
+    reviewComments: data.reviewComments || undefined,
+    automatedTests: data.automatedTests || undefined,
+    githubIssue: data.githubIssue || undefined,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    createdBy: data.createdBy
+  }
+}
@@ -0,0 +1,51 @@
+import { getTestResultStatus } from '../test-execution-utils'
+import { FileStorageAdapter } from './file-storage'
+import { StorageAdapter } from './types'
+
+export interface TestRunMigrationReport {
+  backend: string
+  testRuns: number
+  legacyFilesRemoved: number
+  errors: string[]
+}
+
+/**
+ * Rewrite every stored test run in the canonical schema: one document per
+ * run with the shared status vocabulary. For the file backend the legacy
+ * timestamped results and test-executions files are removed once their run
+ * has been written to results/<id>.json. Safe to run repeatedly.
+ */
+export async function migrateTestRuns(
+  storage: StorageAdapter,
+  onProgress?: (message: string) => void
+): Promise<TestRunMigrationReport> {
+  const report: TestRunMigrationReport = {
+    backend: storage.backend,
+    testRuns: 0,
+    legacyFilesRemoved: 0,
+    errors: []
+  }
+
+  // Adapters read legacy documents through normalizeTestRun and return
+  // the newest save of each run
+  const testRuns = await storage.listTestRuns()
+  onProgress?.(`Rewriting ${testRuns.length} test runs`)
+
+  for (const testRun of testRuns) {
+    try {
+      await storage.saveTestRun({
+        ...testRun,
+        results: testRun.results.map(result => ({ ...result, status: getTestResultStatus(result) }))
+      })
+      report.testRuns++
+    } catch (error) {
+      report.errors.push(`Test run ${testRun.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  if (storage instanceof FileStorageAdapter) {
+    report.legacyFilesRemoved = await storage.removeLegacyTestRunFiles()
+  }
+
+  return report
+}
@@ -0,0 +1,193 @@
+import { StorageAdapter } from './types'
+
+export interface MigrationReport {
+  from: string
+  to: string
+  testCases: number
+  revisions: number
+  testPlans: number
+  testRuns: number
+  trashEntries: number
+  sharedSteps: number
+  customFields: number
+  suites: number
+  requirements: number
+  bulkEdits: number
+  releases: number
+  attachments: number
+  errors: string[]
+}
+
+/**
+ * Copy every test case (with its revision history), plan, run, trash
+ * entry, shared step (with its versions), custom field definition, test
+ * suite, requirement, bulk edit, release and attachment (with its content)
+ * from one storage backend to another. Existing entities in the target
+ * with the same ID are overwritten; nothing is removed from the source. Revisions are append-only, so migrating into a
+ * target that already has history for a case reports an error for that
+ * case.
+ */
+export async function migrateStorage(
+  source: StorageAdapter,
+  target: StorageAdapter,
+  onProgress?: (message: string) => void
+): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    from: source.backend,
+    to: target.backend,
+    testCases: 0,
+    revisions: 0,
+    testPlans: 0,
+    testRuns: 0,
+    trashEntries: 0,
+    sharedSteps: 0,
+    customFields: 0,
+    suites: 0,
+    requirements: 0,
+    bulkEdits: 0,
+    releases: 0,
+    attachments: 0,
+    errors: []
+  }
+
+  const testCases = await source.listTestCases()
+  onProgress?.(`Migrating ${testCases.length} test cases`)
+  for (const testCase of testCases) {
+    try {
+      await target.saveTestCase(testCase)
+      report.testCases++
+
+      for (const revision of await source.listTestCaseRevisions(testCase.id)) {
+        await target.appendTestCaseRevision(revision)
+        report.revisions++
+      }
+    } catch (error) {
+      report.errors.push(`Test case ${testCase.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const testPlans = await source.listTestPlans()
+  onProgress?.(`Migrating ${testPlans.length} test plans`)
+  for (const testPlan of testPlans) {
+    try {
+      await target.saveTestPlan(testPlan)
+      report.testPlans++
+    } catch (error) {
+      report.errors.push(`Test plan ${testPlan.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const testRuns = await source.listTestRuns()
+  onProgress?.(`Migrating ${testRuns.length} test runs`)
+  for (const testRun of testRuns) {
+    try {
+      await target.saveTestRun(testRun)
+      report.testRuns++
+    } catch (error) {
+      report.errors.push(`Test run ${testRun.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const trashEntries = await source.listTrash()
+  onProgress?.(`Migrating ${trashEntries.length} trash entries`)
+  for (const entry of trashEntries) {
+    try {
+      await target.saveTrashEntry(entry)
+      report.trashEntries++
+    } catch (error) {
+      report.errors.push(`Trash entry ${entry.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const sharedSteps = await source.listSharedSteps()
+  onProgress?.(`Migrating ${sharedSteps.length} shared steps`)
+  for (const sharedStep of sharedSteps) {
+    try {
+      await target.saveSharedStep(sharedStep)
+      for (const version of await source.listSharedStepVersions(sharedStep.id)) {
+        await target.appendSharedStepVersion(version)
+      }
+      report.sharedSteps++
+    } catch (error) {
+      report.errors.push(`Shared step ${sharedStep.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const customFields = await source.listCustomFields()
+  onProgress?.(`Migrating ${customFields.length} custom fields`)
+  for (const field of customFields) {
+    try {
+      await target.saveCustomField(field)
+      report.customFields++
+    } catch (error) {
+      report.errors.push(`Custom field ${field.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const suites = await source.listSuites()
+  onProgress?.(`Migrating ${suites.length} test suites`)
+  for (const suite of suites) {
+    try {
+      await target.saveSuite(suite)
+      report.suites++
+    } catch (error) {
+      report.errors.push(`Test suite ${suite.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const requirements = await source.listRequirements()
+  onProgress?.(`Migrating ${requirements.length} requirements`)
+  for (const requirement of requirements) {
+    try {
+      await target.saveRequirement(requirement)
+      report.requirements++
+    } catch (error) {
+      report.errors.push(`Requirement ${requirement.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const bulkEdits = await source.listBulkEdits()
+  onProgress?.(`Migrating ${bulkEdits.length} bulk edits`)
+  for (const bulkEdit of bulkEdits) {
+    try {
+      await target.saveBulkEdit(bulkEdit)
+      report.bulkEdits++
+    } catch (error) {
+      report.errors.push(`Bulk edit ${bulkEdit.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const releases = await source.listReleases()
+  onProgress?.(`Migrating ${releases.length} releases`)
+  for (const release of releases) {
+    try {
+      await target.saveRelease(release)
+      report.releases++
+    } catch (error) {
+      report.errors.push(`Release ${release.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const attachments = await source.listAttachments()
+  const copiedContent = new Set<string>()
+  onProgress?.(`Migrating ${attachments.length} attachments`)
+  for (const attachment of attachments) {
+    try {
+      // Identical files share their content, so each hash is copied once
+      if (!copiedContent.has(attachment.sha256)) {
+        const content = await source.loadAttachmentContent(attachment.sha256)
+        if (!content) {
+          throw new Error(`Content ${attachment.sha256} is missing`)
+        }
+        await target.saveAttachmentContent(attachment.sha256, content)
+        copiedContent.add(attachment.sha256)
+      }
+      await target.saveAttachment(attachment)
+      report.attachments++
+    } catch (error) {
+      report.errors.push(`Attachment ${attachment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,16 @@
+import path from 'path'
+import { FileSystemError } from './errors'
+
+/**
+ * Path of a file or directory named by an entity ID or content hash, which
+ * has to stay directly inside dir: names with separators or dot segments
+ * are refused, so no ID can reach outside the storage directories
+ */
+export function resolveEntityPath(dir: string, name: string): string {
+  const root = path.resolve(dir)
+  const filePath = path.resolve(root, name)
+  if (!name || /[/\\]/.test(name) || name === '.' || name === '..' || path.dirname(filePath) !== root) {
+    throw new FileSystemError(`Invalid name: ${name}`, 'resolveEntityPath', path.join(dir, name))
+  }
+  return filePath
+}
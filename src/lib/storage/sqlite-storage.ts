@@ -0,0 +1,552 @@
+import fs from 'fs/promises'
+import path from 'path'
+import initSqlJs, { Database, SqlValue } from 'sql.js'
+import { Attachment, BulkEdit, CustomFieldDefinition, Release, Requirement, SharedStep, TestCase, TestCaseRevision, TestPlan, TestRun, TestSuite, TrashEntry } from '../types'
+import { normalizeTestRun } from '../test-runs'
+import { FileSystemError } from './errors'
+import { resolveEntityPath } from './paths'
+import { StorageAdapter, StoredDocument } from './types'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS test_cases (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS test_case_revisions (
+    test_case_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT,
+    PRIMARY KEY (test_case_id, revision)
+  );
+  CREATE TABLE IF NOT EXISTS test_plans (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS test_runs (
+    id TEXT PRIMARY KEY,
+    test_plan_id TEXT,
+    data TEXT NOT NULL,
+    started_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_test_runs_plan ON test_runs (test_plan_id);
+  CREATE TABLE IF NOT EXISTS trash (
+    id TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL,
+    data TEXT NOT NULL,
+    expires_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    sha256 TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS attachment_contents (
+    sha256 TEXT PRIMARY KEY,
+    content BLOB NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS shared_steps (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS shared_step_versions (
+    shared_step_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (shared_step_id, version)
+  );
+  CREATE TABLE IF NOT EXISTS custom_fields (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS suites (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS requirements (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS bulk_edits (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS releases (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`
+
+/**
+ * Embedded SQLite store. Entities are kept as JSON documents in a single
+ * database file, so a listing is one query instead of parsing every file.
+ *
+ * The database is held in memory and written back to disk after each
+ * mutation. If another process (e.g. the migration command) rewrites the
+ * file, it is reloaded on the next access.
+ *
+ * Attachment content stays out of the database, as files named by their
+ * hash in a directory next to it (qa-attachments/ for qa.sqlite). Every
+ * write exports the whole database, so blobs kept in it would be rewritten
+ * on each unrelated save. Databases from before that may still hold
+ * content in attachment_contents, which is read as a fallback.
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly backend = 'sqlite' as const
+
+  private db: Database | null = null
+  private loadedMtimeMs = 0
+  private writeQueue: Promise<void> = Promise.resolve()
+  private attachmentContentDir: string
+
+  constructor(private dbPath: string) {
+    this.attachmentContentDir = path.join(
+      path.dirname(dbPath),
+      `${path.basename(dbPath, path.extname(dbPath))}-attachments`
+    )
+  }
+
+  // Test Case Operations
+  async loadTestCase(testCaseId: string): Promise<TestCase | null> {
+    return this.getDocument<TestCase>('test_cases', testCaseId)
+  }
+
+  async listTestCases(): Promise<TestCase[]> {
+    return this.queryDocuments<TestCase>('SELECT data FROM test_cases')
+  }
+
+  async saveTestCase(testCase: TestCase): Promise<void> {
+    await this.write('saveTestCase', db => {
+      db.run(
+        'INSERT OR REPLACE INTO test_cases (id, data, updated_at) VALUES (?, ?, ?)',
+        [testCase.id, JSON.stringify(testCase), testCase.updatedAt || null]
+      )
+    })
+  }
+
+  async deleteTestCase(testCaseId: string): Promise<boolean> {
+    return this.deleteDocument('test_cases', testCaseId, 'deleteTestCase')
+  }
+
+  // Test Case Revision Operations
+  async listTestCaseRevisions(testCaseId: string): Promise<TestCaseRevision[]> {
+    const rows = await this.query(
+      'SELECT data FROM test_case_revisions WHERE test_case_id = ? ORDER BY revision',
+      [testCaseId]
+    )
+    return rows.map(row => JSON.parse(row[0] as string) as TestCaseRevision)
+  }
+
+  async appendTestCaseRevision(revision: TestCaseRevision): Promise<void> {
+    // Plain INSERT: the primary key rejects rewriting an existing revision
+    await this.write('appendTestCaseRevision', db => {
+      const existing = db.exec(
+        'SELECT 1 FROM test_case_revisions WHERE test_case_id = ? AND revision = ?',
+        [revision.testCaseId, revision.revision]
+      )
+      if (existing.length > 0) {
+        throw new Error(`Revision ${revision.revision} of test case ${revision.testCaseId} already exists`)
+      }
+      db.run(
+        'INSERT INTO test_case_revisions (test_case_id, revision, data, created_at) VALUES (?, ?, ?, ?)',
+        [revision.testCaseId, revision.revision, JSON.stringify(revision), revision.createdAt]
+      )
+    })
+  }
+
+  // Test Plan Operations
+  async loadTestPlan(testPlanId: string): Promise<TestPlan | null> {
+    return this.getDocument<TestPlan>('test_plans', testPlanId)
+  }
+
+  async listTestPlans(): Promise<TestPlan[]> {
+    return this.queryDocuments<TestPlan>('SELECT data FROM test_plans')
+  }
+
+  async saveTestPlan(testPlan: TestPlan): Promise<void> {
+    await this.write('saveTestPlan', db => {
+      db.run(
+        'INSERT OR REPLACE INTO test_plans (id, data, updated_at) VALUES (?, ?, ?)',
+        [testPlan.id, JSON.stringify(testPlan), testPlan.updatedAt || null]
+      )
+    })
+  }
+
+  async deleteTestPlan(testPlanId: string): Promise<boolean> {
+    return this.deleteDocument('test_plans', testPlanId, 'deleteTestPlan')
+  }
+
+  // Test Run Operations
+  async loadTestRun(testRunId: string): Promise<TestRun | null> {
+    const testRun = await this.getDocument<unknown>('test_runs', testRunId)
+    return testRun ? normalizeTestRun(testRun) : null
+  }
+
+  async listTestRuns(): Promise<TestRun[]> {
+    const testRuns = await this.queryDocuments<unknown>('SELECT data FROM test_runs')
+    return testRuns.map(normalizeTestRun).filter((run): run is TestRun => run !== null)
+  }
+
+  async saveTestRun(testRun: TestRun): Promise<void> {
+    await this.write('saveTestRun', db => {
+      db.run(
+        'INSERT OR REPLACE INTO test_runs (id, test_plan_id, data, started_at) VALUES (?, ?, ?, ?)',
+        [testRun.id, testRun.testPlanId, JSON.stringify(testRun), testRun.startedAt || null]
+      )
+    })
+  }
+
+  async deleteTestRun(testRunId: string): Promise<boolean> {
+    return this.deleteDocument('test_runs', testRunId, 'deleteTestRun')
+  }
+
+  // Trash Operations
+  async listTrash(): Promise<TrashEntry[]> {
+    return this.queryDocuments<TrashEntry>('SELECT data FROM trash')
+  }
+
+  async saveTrashEntry(entry: TrashEntry): Promise<void> {
+    await this.write('saveTrashEntry', db => {
+      db.run(
+        'INSERT OR REPLACE INTO trash (id, entity_type, data, expires_at) VALUES (?, ?, ?, ?)',
+        [entry.id, entry.entityType, JSON.stringify(entry), entry.expiresAt]
+      )
+    })
+  }
+
+  async deleteTrashEntry(entryId: string): Promise<boolean> {
+    return this.deleteDocument('trash', entryId, 'deleteTrashEntry')
+  }
+
+  // Attachment Operations
+  async listAttachments(): Promise<Attachment[]> {
+    return this.queryDocuments<Attachment>('SELECT data FROM attachments')
+  }
+
+  async saveAttachment(attachment: Attachment): Promise<void> {
+    await this.write('saveAttachment', db => {
+      db.run(
+        'INSERT OR REPLACE INTO attachments (id, sha256, data) VALUES (?, ?, ?)',
+        [attachment.id, attachment.sha256, JSON.stringify(attachment)]
+      )
+    })
+  }
+
+  async deleteAttachment(attachmentId: string): Promise<boolean> {
+    return this.deleteDocument('attachments', attachmentId, 'deleteAttachment')
+  }
+
+  async saveAttachmentContent(sha256: string, content: Buffer): Promise<void> {
+    const filePath = resolveEntityPath(this.attachmentContentDir, sha256)
+
+    try {
+      await fs.mkdir(this.attachmentContentDir, { recursive: true })
+      // Content is addressed by its hash, so an existing file already holds it
+      await fs.writeFile(filePath, content, { flag: 'wx' })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return
+      }
+      throw new FileSystemError(
+        `Failed to save attachment content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveAttachmentContent',
+        filePath
+      )
+    }
+  }
+
+  async loadAttachmentContent(sha256: string): Promise<Buffer | null> {
+    const filePath = resolveEntityPath(this.attachmentContentDir, sha256)
+
+    try {
+      return await fs.readFile(filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new FileSystemError(
+          `Failed to load attachment content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'loadAttachmentContent',
+          filePath
+        )
+      }
+    }
+
+    const rows = await this.query('SELECT content FROM attachment_contents WHERE sha256 = ?', [sha256])
+    return rows.length > 0 ? Buffer.from(rows[0][0] as Uint8Array) : null
+  }
+
+  async deleteAttachmentContent(sha256: string): Promise<boolean> {
+    const filePath = resolveEntityPath(this.attachmentContentDir, sha256)
+    let deleted = false
+
+    try {
+      await fs.unlink(filePath)
+      deleted = true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new FileSystemError(
+          `Failed to delete attachment content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'deleteAttachmentContent',
+          filePath
+        )
+      }
+    }
+
+    if ((await this.query('SELECT 1 FROM attachment_contents WHERE sha256 = ?', [sha256])).length > 0) {
+      await this.write('deleteAttachmentContent', db => {
+        db.run('DELETE FROM attachment_contents WHERE sha256 = ?', [sha256])
+      })
+      deleted = true
+    }
+    return deleted
+  }
+
+  // Shared Step Operations
+  async loadSharedStep(sharedStepId: string): Promise<SharedStep | null> {
+    return this.getDocument<SharedStep>('shared_steps', sharedStepId)
+  }
+
+  async listSharedSteps(): Promise<SharedStep[]> {
+    return this.queryDocuments<SharedStep>('SELECT data FROM shared_steps')
+  }
+
+  async saveSharedStep(sharedStep: SharedStep): Promise<void> {
+    await this.write('saveSharedStep', db => {
+      db.run(
+        'INSERT OR REPLACE INTO shared_steps (id, data, updated_at) VALUES (?, ?, ?)',
+        [sharedStep.id, JSON.stringify(sharedStep), sharedStep.updatedAt || null]
+      )
+    })
+  }
+
+  async deleteSharedStep(sharedStepId: string): Promise<boolean> {
+    return this.deleteDocument('shared_steps', sharedStepId, 'deleteSharedStep')
+  }
+
+  async listSharedStepVersions(sharedStepId: string): Promise<SharedStep[]> {
+    const rows = await this.query(
+      'SELECT data FROM shared_step_versions WHERE shared_step_id = ? ORDER BY version',
+      [sharedStepId]
+    )
+    return rows.map(row => JSON.parse(row[0] as string) as SharedStep)
+  }
+
+  async appendSharedStepVersion(sharedStep: SharedStep): Promise<void> {
+    // Plain INSERT: the primary key rejects rewriting an existing version
+    await this.write('appendSharedStepVersion', db => {
+      db.run(
+        'INSERT INTO shared_step_versions (shared_step_id, version, data) VALUES (?, ?, ?)',
+        [sharedStep.id, sharedStep.version, JSON.stringify(sharedStep)]
+      )
+    })
+  }
+
+  // Custom Field Operations
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    return this.queryDocuments<CustomFieldDefinition>('SELECT data FROM custom_fields')
+  }
+
+  async saveCustomField(field: CustomFieldDefinition): Promise<void> {
+    await this.write('saveCustomField', db => {
+      db.run('INSERT OR REPLACE INTO custom_fields (id, data) VALUES (?, ?)', [field.id, JSON.stringify(field)])
+    })
+  }
+
+  async deleteCustomField(fieldId: string): Promise<boolean> {
+    return this.deleteDocument('custom_fields', fieldId, 'deleteCustomField')
+  }
+
+  // Test Suite Operations
+  async listSuites(): Promise<TestSuite[]> {
+    return this.queryDocuments<TestSuite>('SELECT data FROM suites')
+  }
+
+  async saveSuite(suite: TestSuite): Promise<void> {
+    await this.write('saveSuite', db => {
+      db.run('INSERT OR REPLACE INTO suites (id, data) VALUES (?, ?)', [suite.id, JSON.stringify(suite)])
+    })
+  }
+
+  async deleteSuite(suiteId: string): Promise<boolean> {
+    return this.deleteDocument('suites', suiteId, 'deleteSuite')
+  }
+
+  // Requirement Operations
+  async listRequirements(): Promise<Requirement[]> {
+    return this.queryDocuments<Requirement>('SELECT data FROM requirements')
+  }
+
+  async saveRequirement(requirement: Requirement): Promise<void> {
+    await this.write('saveRequirement', db => {
+      db.run('INSERT OR REPLACE INTO requirements (id, data) VALUES (?, ?)', [requirement.id, JSON.stringify(requirement)])
+    })
+  }
+
+  async deleteRequirement(requirementId: string): Promise<boolean> {
+    return this.deleteDocument('requirements', requirementId, 'deleteRequirement')
+  }
+
+  // Bulk Edit Operations
+  async listBulkEdits(): Promise<BulkEdit[]> {
+    return this.queryDocuments<BulkEdit>('SELECT data FROM bulk_edits')
+  }
+
+  async saveBulkEdit(bulkEdit: BulkEdit): Promise<void> {
+    await this.write('saveBulkEdit', db => {
+      db.run('INSERT OR REPLACE INTO bulk_edits (id, data) VALUES (?, ?)', [bulkEdit.id, JSON.stringify(bulkEdit)])
+    })
+  }
+
+  // Release Operations
+  async listReleases(): Promise<Release[]> {
+    return this.queryDocuments<Release>('SELECT data FROM releases')
+  }
+
+  async saveRelease(release: Release): Promise<void> {
+    await this.write('saveRelease', db => {
+      db.run('INSERT OR REPLACE INTO releases (id, data) VALUES (?, ?)', [release.id, JSON.stringify(release)])
+    })
+  }
+
+  async deleteRelease(releaseId: string): Promise<boolean> {
+    return this.deleteDocument('releases', releaseId, 'deleteRelease')
+  }
+
+  // Validation
+  async listDocuments(): Promise<StoredDocument[]> {
+    const tables: Array<[StoredDocument['entityType'], string]> = [
+      ['testCase', 'test_cases'],
+      ['testPlan', 'test_plans'],
+      ['testRun', 'test_runs']
+    ]
+    const documents: StoredDocument[] = []
+
+    for (const [entityType, table] of tables) {
+      for (const [id, data] of await this.query(`SELECT id, data FROM ${table}`)) {
+        const location = `${table}/${id}`
+        try {
+          const parsed = JSON.parse(data as string)
+          documents.push({ entityType, location, data: entityType === 'testRun' ? normalizeTestRun(parsed) : parsed })
+        } catch (error) {
+          documents.push({ entityType, location, error: error instanceof Error ? error.message : 'Unknown error' })
+        }
+      }
+    }
+
+    return documents
+  }
+
+  /**
+   * Release the in-memory database. The next call reopens it from disk.
+   */
+  close(): void {
+    this.db?.close()
+    this.db = null
+    this.loadedMtimeMs = 0
+  }
+
+  private async getDocument<T>(table: string, id: string): Promise<T | null> {
+    const rows = await this.query(`SELECT data FROM ${table} WHERE id = ?`, [id])
+    return rows.length > 0 ? JSON.parse(rows[0][0] as string) as T : null
+  }
+
+  private async queryDocuments<T>(sql: string): Promise<T[]> {
+    const rows = await this.query(sql)
+    return rows.map(row => JSON.parse(row[0] as string) as T)
+  }
+
+  private async deleteDocument(table: string, id: string, operation: string): Promise<boolean> {
+    let deleted = false
+    await this.write(operation, db => {
+      db.run(`DELETE FROM ${table} WHERE id = ?`, [id])
+      deleted = db.getRowsModified() > 0
+    })
+    return deleted
+  }
+
+  private async query(sql: string, params: SqlValue[] = []): Promise<SqlValue[][]> {
+    // Reads wait for pending writes so callers always see their own changes
+    await this.writeQueue
+    const db = await this.open()
+
+    try {
+      const result = db.exec(sql, params)
+      return result.length > 0 ? result[0].values : []
+    } catch (error) {
+      throw new FileSystemError(
+        `SQLite query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'query',
+        this.dbPath
+      )
+    }
+  }
+
+  private write(operation: string, mutate: (db: Database) => void): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const db = await this.open()
+
+      try {
+        mutate(db)
+        await this.persist(db)
+      } catch (error) {
+        throw new FileSystemError(
+          `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          operation,
+          this.dbPath
+        )
+      }
+    })
+
+    // Keep the queue alive after a failed write
+    this.writeQueue = next.catch(() => {})
+    return next
+  }
+
+  private async open(): Promise<Database> {
+    const mtimeMs = await this.getFileMtime()
+
+    if (this.db && mtimeMs === this.loadedMtimeMs) {
+      return this.db
+    }
+
+    try {
+      const SQL = await initSqlJs()
+      const buffer = mtimeMs > 0 ? await fs.readFile(this.dbPath) : null
+
+      this.db?.close()
+      this.db = buffer ? new SQL.Database(buffer) : new SQL.Database()
+      this.db.run(SCHEMA)
+      this.loadedMtimeMs = mtimeMs
+
+      return this.db
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to open SQLite database: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'open',
+        this.dbPath
+      )
+    }
+  }
+
+  private async persist(db: Database): Promise<void> {
+    await fs.mkdir(path.dirname(this.dbPath), { recursive: true })
+
+    // Write to a temp file first so a crash never leaves a truncated database
+    const tempPath = `${this.dbPath}.tmp`
+    await fs.writeFile(tempPath, db.export())
+    await fs.rename(tempPath, this.dbPath)
+
+    this.loadedMtimeMs = await this.getFileMtime()
+  }
+
+  private async getFileMtime(): Promise<number> {
+    try {
+      const stats = await fs.stat(this.dbPath)
+      return stats.mtimeMs
+    } catch {
+      return 0
+    }
+  }
+}
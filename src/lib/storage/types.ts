@@ -0,0 +1,97 @@
+import { Attachment, BulkEdit, CustomFieldDefinition, Release, Requirement, SharedStep, TestCase, TestCaseRevision, TestPlan, TestRun, TestSuite, TrashEntry } from '../types'
+
+export type StorageBackend = 'file' | 'sqlite'
+
+export interface StoredDocument {
+  entityType: 'testCase' | 'testPlan' | 'testRun'
+  location: string // File relative to the workspace, or <table>/<id> for SQLite
+  data?: unknown // Parsed content, missing when the document could not be read
+  error?: string
+}
+
+/**
+ * Persistence contract behind FileUtils. Implementations only store and
+ * retrieve entities; ordering, filtering and status calculation stay in
+ * FileUtils so every backend behaves the same for callers.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend
+
+  // Test cases
+  loadTestCase(testCaseId: string): Promise<TestCase | null>
+  listTestCases(): Promise<TestCase[]>
+  saveTestCase(testCase: TestCase): Promise<void>
+  deleteTestCase(testCaseId: string): Promise<boolean>
+
+  // Test case revisions (append-only)
+  listTestCaseRevisions(testCaseId: string): Promise<TestCaseRevision[]>
+  appendTestCaseRevision(revision: TestCaseRevision): Promise<void>
+
+  // Test plans
+  loadTestPlan(testPlanId: string): Promise<TestPlan | null>
+  listTestPlans(): Promise<TestPlan[]>
+  saveTestPlan(testPlan: TestPlan): Promise<void>
+  deleteTestPlan(testPlanId: string): Promise<boolean>
+
+  // Test runs (one document per run, updated in place)
+  loadTestRun(testRunId: string): Promise<TestRun | null>
+  listTestRuns(): Promise<TestRun[]>
+  saveTestRun(testRun: TestRun): Promise<void>
+  deleteTestRun(testRunId: string): Promise<boolean>
+
+  // Trash (soft-deleted entities awaiting restore or purge)
+  listTrash(): Promise<TrashEntry[]>
+  saveTrashEntry(entry: TrashEntry): Promise<void>
+  deleteTrashEntry(entryId: string): Promise<boolean>
+
+  // Attachments. Metadata is stored per attachment, content once per
+  // SHA-256 hash; saving content that already exists is a no-op.
+  listAttachments(): Promise<Attachment[]>
+  saveAttachment(attachment: Attachment): Promise<void>
+  deleteAttachment(attachmentId: string): Promise<boolean>
+  saveAttachmentContent(sha256: string, content: Buffer): Promise<void>
+  loadAttachmentContent(sha256: string): Promise<Buffer | null>
+  deleteAttachmentContent(sha256: string): Promise<boolean>
+
+  // Shared steps, with every version kept (append-only)
+  loadSharedStep(sharedStepId: string): Promise<SharedStep | null>
+  listSharedSteps(): Promise<SharedStep[]>
+  saveSharedStep(sharedStep: SharedStep): Promise<void>
+  deleteSharedStep(sharedStepId: string): Promise<boolean>
+  listSharedStepVersions(sharedStepId: string): Promise<SharedStep[]>
+  appendSharedStepVersion(sharedStep: SharedStep): Promise<void>
+
+  // Custom field definitions of the workspace
+  listCustomFields(): Promise<CustomFieldDefinition[]>
+  saveCustomField(field: CustomFieldDefinition): Promise<void>
+  deleteCustomField(fieldId: string): Promise<boolean>
+
+  // Test suite tree; test cases point at their suite
+  listSuites(): Promise<TestSuite[]>
+  saveSuite(suite: TestSuite): Promise<void>
+  deleteSuite(suiteId: string): Promise<boolean>
+
+  // Requirements with the test cases covering them
+  listRequirements(): Promise<Requirement[]>
+  saveRequirement(requirement: Requirement): Promise<void>
+  deleteRequirement(requirementId: string): Promise<boolean>
+
+  // Bulk edits of test cases, kept for undo
+  listBulkEdits(): Promise<BulkEdit[]>
+  saveBulkEdit(bulkEdit: BulkEdit): Promise<void>
+
+  // Releases and milestones with their plans, runs and exit criteria
+  listReleases(): Promise<Release[]>
+  saveRelease(release: Release): Promise<void>
+  deleteRelease(releaseId: string): Promise<boolean>
+
+  // Every stored test case, plan and run as written, including documents
+  // the typed loaders reject. Used by the workspace validator.
+  listDocuments(): Promise<StoredDocument[]>
+}
+
+export interface StorageOptions {
+  backend: StorageBackend
+  workspaceDir: string
+  sqlitePath: string
+}
@@ -0,0 +1,139 @@
+import { TestCase, TestPlan, TestRun } from '../types'
+import {
+  RepairResult,
+  SchemaIssue,
+  repairTestCase,
+  repairTestPlan,
+  repairTestRun,
+  validateTestCase,
+  validateTestPlan,
+  validateTestRun
+} from '../schema'
+import { StorageAdapter, StoredDocument } from './types'
+
+export interface ValidationFinding {
+  entityType: StoredDocument['entityType']
+  location: string
+  entityId?: string
+  issues: SchemaIssue[] // Issues left in the stored document
+  repairs: string[] // Repairs written back, only when repairing
+}
+
+export interface WorkspaceValidationReport {
+  backend: string
+  scanned: number
+  invalid: number
+  repaired: number
+  findings: ValidationFinding[]
+}
+
+// Test plan references to test cases that don't exist
+function orphanIssues(testPlan: Partial<TestPlan>, knownTestCaseIds: Set<string>): SchemaIssue[] {
+  if (!Array.isArray(testPlan.testCases)) return []
+
+  return testPlan.testCases
+    .filter(id => typeof id === 'string' && !knownTestCaseIds.has(id))
+    .map(id => ({ path: 'testCases', message: `references unknown test case ${id}`, repairable: true }))
+}
+
+/**
+ * Check every stored test case, plan and run against the schema. With
+ * `repair` the known issues (localized priorities, malformed timestamps,
+ * duplicate or orphaned test case IDs in plans) are fixed and written back,
+ * as long as the repaired document passes validation; documents with
+ * issues that can't be repaired are reported and left untouched.
+ */
+export async function validateWorkspace(
+  storage: StorageAdapter,
+  options: { repair?: boolean } = {}
+): Promise<WorkspaceValidationReport> {
+  const documents = await storage.listDocuments()
+  const report: WorkspaceValidationReport = {
+    backend: storage.backend,
+    scanned: documents.length,
+    invalid: 0,
+    repaired: 0,
+    findings: []
+  }
+
+  const knownTestCaseIds = new Set<string>()
+  for (const document of documents) {
+    const id = (document.data as Partial<TestCase> | undefined)?.id
+    if (document.entityType === 'testCase' && typeof id === 'string') {
+      knownTestCaseIds.add(id)
+    }
+  }
+
+  const check = (document: StoredDocument, data: unknown): SchemaIssue[] => {
+    switch (document.entityType) {
+      case 'testCase':
+        return validateTestCase(data)
+      case 'testPlan':
+        return [...validateTestPlan(data), ...orphanIssues((data || {}) as Partial<TestPlan>, knownTestCaseIds)]
+      case 'testRun':
+        return validateTestRun(data)
+    }
+  }
+
+  const repair = (document: StoredDocument): RepairResult<unknown> => {
+    switch (document.entityType) {
+      case 'testCase':
+        return repairTestCase(document.data as TestCase)
+      case 'testPlan':
+        return repairTestPlan(document.data as TestPlan, knownTestCaseIds)
+      case 'testRun':
+        return repairTestRun(document.data as TestRun)
+    }
+  }
+
+  const save = async (document: StoredDocument, data: unknown) => {
+    switch (document.entityType) {
+      case 'testCase':
+        return storage.saveTestCase(data as TestCase)
+      case 'testPlan':
+        return storage.saveTestPlan(data as TestPlan)
+      case 'testRun':
+        return storage.saveTestRun(data as TestRun)
+    }
+  }
+
+  for (const document of documents) {
+    const entityId = (document.data as { id?: unknown } | undefined)?.id
+    const finding: ValidationFinding = {
+      entityType: document.entityType,
+      location: document.location,
+      entityId: typeof entityId === 'string' ? entityId : undefined,
+      issues: document.error
+        ? [{ path: '', message: `could not be read: ${document.error}`, repairable: false }]
+        : check(document, document.data),
+      repairs: []
+    }
+
+    if (finding.issues.length === 0) continue
+
+    if (options.repair && finding.issues.every(issue => issue.repairable)) {
+      const repaired = repair(document)
+      if (check(document, repaired.value).length === 0) {
+        try {
+          await save(document, repaired.value)
+          finding.repairs = repaired.repairs
+          finding.issues = []
+          report.repaired++
+        } catch (error) {
+          finding.issues.push({
+            path: '',
+            message: `repair could not be saved: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            repairable: false
+          })
+        }
+      }
+    }
+
+    if (finding.issues.length > 0) {
+      report.invalid++
+    }
+    report.findings.push(finding)
+  }
+
+  return report
+}
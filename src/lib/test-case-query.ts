@@ -0,0 +1,203 @@
+import { Requirement, TestCase, TestResultStatus, TestSuite } from './types'
+import { REVIEW_STATUSES, getReviewStatus } from './test-case-review'
+import { isWithinSuite } from './test-suites'
+import { normalizePriority } from './schema'
+
+/**
+ * Query language for test cases, e.g.
+ *
+ *   priority:critical tag:checkout -tag:flaky issue:#123 repo:acme/shop status:failed updated:>2025-07-01 "login button"
+ *
+ * Terms are combined with AND and a leading - negates one. Comma-separated
+ * values match any of them (priority:high,critical). Bare words match the
+ * start of words in the text, quoted phrases match as written.
+ */
+
+export class TestCaseQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TestCaseQueryError'
+  }
+}
+
+export type QueryKey = 'priority' | 'tag' | 'issue' | 'repo' | 'status' | 'review' | 'suite' | 'created' | 'updated'
+export type DateOperator = '<' | '<=' | '>' | '>=' | '='
+
+export const QUERY_KEYS: QueryKey[] = ['priority', 'tag', 'issue', 'repo', 'status', 'review', 'suite', 'created', 'updated']
+
+export interface TextTerm {
+  text: string
+  phrase: boolean // Quoted, matched as written instead of word by word
+  negated: boolean
+}
+
+export type QueryFilter =
+  | { key: Exclude<QueryKey, 'created' | 'updated'>; values: string[]; negated: boolean }
+  | { key: 'created' | 'updated'; operator: DateOperator; date: string; negated: boolean } // date is YYYY-MM-DD
+
+export interface TestCaseQuery {
+  text: TextTerm[]
+  filters: QueryFilter[]
+}
+
+// Data a filter needs beyond the test case; only loaded when the query uses the key
+export interface QueryContext {
+  latestStatuses?: Map<string, TestResultStatus> // status:, latest executed result of each test case
+  linkedIssues?: Map<string, string[]> // issue: and repo:, 'owner/repo#12' of the requirements covering each test case
+  suites?: TestSuite[] // suite:
+}
+
+const STATUS_ALIASES: Record<string, TestResultStatus> = {
+  pass: 'pass',
+  passed: 'pass',
+  fail: 'fail',
+  failed: 'fail',
+  blocked: 'blocked',
+  skip: 'skip',
+  skipped: 'skip',
+  partial: 'partial',
+  untested: 'not_executed',
+  not_executed: 'not_executed'
+}
+
+const TERM = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S*))/g
+const DATE = /^(<=|>=|<|>|=)?(\d{4}-\d{2}-\d{2})$/
+const ISSUE = /^(?:([\w.-]+\/[\w.-]+))?#?(\d+)$/
+const REPOSITORY = /^[\w.-]+\/[\w.-]+$/
+
+function parseValues(key: QueryKey, value: string): string[] {
+  const values = value.split(',').map(item => item.trim()).filter(Boolean)
+  if (values.length === 0) {
+    throw new TestCaseQueryError(`${key}: needs a value`)
+  }
+
+  return values.map(item => {
+    switch (key) {
+      case 'priority': {
+        const priority = normalizePriority(item)
+        if (!priority) throw new TestCaseQueryError(`Unknown priority: ${item}`)
+        return priority
+      }
+      case 'status': {
+        const status = STATUS_ALIASES[item.toLowerCase()]
+        if (!status) throw new TestCaseQueryError(`Unknown status: ${item}, use ${Object.keys(STATUS_ALIASES).join(', ')}`)
+        return status
+      }
+      case 'review': {
+        if (!(REVIEW_STATUSES as string[]).includes(item)) {
+          throw new TestCaseQueryError(`Unknown review status: ${item}, use ${REVIEW_STATUSES.join(', ')}`)
+        }
+        return item
+      }
+      case 'issue': {
+        const match = ISSUE.exec(item)
+        if (!match) throw new TestCaseQueryError(`Invalid issue: ${item}, use #12 or owner/repo#12`)
+        return match[1] ? `${match[1]}#${match[2]}` : `#${match[2]}`
+      }
+      case 'repo': {
+        if (!REPOSITORY.test(item)) throw new TestCaseQueryError(`Invalid repository: ${item}, use owner/repo`)
+        return item.toLowerCase()
+      }
+      default:
+        return item
+    }
+  })
+}
+
+export function parseTestCaseQuery(query: string): TestCaseQuery {
+  const parsed: TestCaseQuery = { text: [], filters: [] }
+
+  for (const [, negation, rawKey, quoted, word] of query.matchAll(TERM)) {
+    const negated = negation === '-'
+    const value = quoted ?? word
+    if (!rawKey && !value) continue
+
+    if (!rawKey) {
+      parsed.text.push({ text: value, phrase: quoted !== undefined, negated })
+      continue
+    }
+
+    const key = rawKey.toLowerCase() as QueryKey
+    if (!QUERY_KEYS.includes(key)) {
+      throw new TestCaseQueryError(`Unknown search key ${rawKey}:, use ${QUERY_KEYS.join(', ')} or quote the text`)
+    }
+
+    if (key === 'created' || key === 'updated') {
+      const match = DATE.exec(value)
+      if (!match) throw new TestCaseQueryError(`${key}: needs a date such as >2025-07-01`)
+      parsed.filters.push({ key, operator: (match[1] || '=') as DateOperator, date: match[2], negated })
+    } else {
+      parsed.filters.push({ key, values: parseValues(key, value), negated })
+    }
+  }
+
+  return parsed
+}
+
+export function queryUses(query: TestCaseQuery, key: QueryKey): boolean {
+  return query.filters.some(filter => filter.key === key)
+}
+
+// Issues of the requirements covering each test case, keyed by test case ID
+export function getLinkedIssues(requirements: Requirement[]): Map<string, string[]> {
+  const linked = new Map<string, string[]>()
+  for (const requirement of requirements) {
+    if (!requirement.githubIssue) continue
+    const issue = `${requirement.githubIssue.repository}#${requirement.githubIssue.number}`
+    requirement.testCases.forEach(testCaseId => linked.set(testCaseId, [...(linked.get(testCaseId) || []), issue]))
+  }
+  return linked
+}
+
+function compareDates(timestamp: string, operator: DateOperator, date: string): boolean {
+  const day = (timestamp || '').slice(0, 10)
+  switch (operator) {
+    case '<': return day < date
+    case '<=': return day <= date
+    case '>': return day > date
+    case '>=': return day >= date
+    default: return day === date
+  }
+}
+
+// 'owner/repo#12' of the test case's own issue and of the requirements covering it
+function getIssues(testCase: TestCase, context: QueryContext): string[] {
+  const own = testCase.githubIssue ? [`${testCase.githubIssue.repository}#${testCase.githubIssue.number}`] : []
+  return [...own, ...(context.linkedIssues?.get(testCase.id) || [])]
+}
+
+function matchesFilter(testCase: TestCase, filter: QueryFilter, context: QueryContext): boolean {
+  switch (filter.key) {
+    case 'created':
+    case 'updated':
+      return compareDates(filter.key === 'created' ? testCase.createdAt : testCase.updatedAt, filter.operator, filter.date)
+    case 'priority':
+      return filter.values.includes(testCase.priority)
+    case 'tag': {
+      const tags = testCase.tags.map(tag => tag.toLowerCase())
+      return filter.values.some(value => tags.includes(value.toLowerCase()))
+    }
+    case 'review':
+      return filter.values.includes(getReviewStatus(testCase))
+    case 'status':
+      return filter.values.includes(context.latestStatuses?.get(testCase.id) || 'not_executed')
+    case 'suite':
+      return Boolean(testCase.suiteId) && filter.values.some(suiteId =>
+        isWithinSuite(context.suites || [], testCase.suiteId as string, suiteId)
+      )
+    case 'repo': {
+      const repositories = getIssues(testCase, context).map(issue => issue.slice(0, issue.lastIndexOf('#')).toLowerCase())
+      return filter.values.some(value => repositories.includes(value))
+    }
+    case 'issue': {
+      const issues = getIssues(testCase, context)
+      // #12 matches issue 12 of any repository
+      return filter.values.some(value => issues.some(issue => (value.startsWith('#') ? issue.endsWith(value) : issue === value)))
+    }
+  }
+}
+
+// Whether the test case matches every filter of the query; text terms are matched by the search index
+export function matchesQueryFilters(testCase: TestCase, query: TestCaseQuery, context: QueryContext = {}): boolean {
+  return query.filters.every(filter => matchesFilter(testCase, filter, context) !== filter.negated)
+}
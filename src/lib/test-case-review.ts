@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid'
+import { diffTestCases } from './revision-diff'
+import { ReviewAction, ReviewComment, ReviewStatus, TestCase } from './types'
+
+export type ReviewErrorReason = 'invalidTransition' | 'notReviewer' | 'commentRequired'
+
+export class ReviewError extends Error {
+  constructor(message: string, public reason: ReviewErrorReason) {
+    super(message)
+    this.name = 'ReviewError'
+  }
+}
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'in_review', 'approved', 'deprecated']
+export const REVIEW_ACTIONS: ReviewAction[] = ['submit', 'assign', 'approve', 'reject', 'deprecate', 'reopen', 'comment']
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  deprecated: 'Deprecated'
+}
+
+// Statuses an action can be taken in, and the status it moves the test case to
+const TRANSITIONS: Record<ReviewAction, { from: ReviewStatus[]; to?: ReviewStatus; summary: string }> = {
+  submit: { from: ['draft'], to: 'in_review', summary: 'Submitted for review' },
+  assign: { from: ['draft', 'in_review'], summary: 'Assigned reviewers' },
+  approve: { from: ['in_review'], to: 'approved', summary: 'Approved' },
+  reject: { from: ['in_review'], to: 'draft', summary: 'Rejected' },
+  deprecate: { from: ['draft', 'in_review', 'approved'], to: 'deprecated', summary: 'Deprecated' },
+  reopen: { from: ['approved', 'deprecated'], to: 'draft', summary: 'Reopened as a draft' },
+  comment: { from: REVIEW_STATUSES, summary: 'Commented on the review' }
+}
+
+type ReviewState = Pick<TestCase, 'reviewStatus' | 'reviewers' | 'reviewComments'>
+
+export interface ReviewRequest {
+  action: ReviewAction
+  author: string
+  comment?: string
+  reviewers?: string[] // Replaces the assigned reviewers on submit and assign
+}
+
+export function getReviewStatus(testCase: Pick<TestCase, 'reviewStatus'>): ReviewStatus {
+  return testCase.reviewStatus || 'approved'
+}
+
+export function isApproved(testCase: Pick<TestCase, 'reviewStatus'>): boolean {
+  return getReviewStatus(testCase) === 'approved'
+}
+
+export function getAllowedReviewActions(testCase: Pick<TestCase, 'reviewStatus'>): ReviewAction[] {
+  const status = getReviewStatus(testCase)
+  return REVIEW_ACTIONS.filter(action => TRANSITIONS[action].from.includes(status))
+}
+
+export function getReviewSummary(action: ReviewAction): string {
+  return TRANSITIONS[action].summary
+}
+
+/**
+ * Apply a review action. Rejections and plain comments need a comment, and
+ * once reviewers are assigned only they can approve or reject.
+ */
+export function applyReview(testCase: TestCase, request: ReviewRequest, now = new Date().toISOString()): TestCase {
+  const { action, author } = request
+  const status = getReviewStatus(testCase)
+  const transition = TRANSITIONS[action]
+  const body = request.comment?.trim()
+
+  if (!transition.from.includes(status)) {
+    throw new ReviewError(`Cannot ${action} a test case that is ${REVIEW_STATUS_LABELS[status].toLowerCase()}`, 'invalidTransition')
+  }
+  if ((action === 'reject' || action === 'comment') && !body) {
+    throw new ReviewError(`A comment is required to ${action}`, 'commentRequired')
+  }
+
+  const reviewers = testCase.reviewers || []
+  if ((action === 'approve' || action === 'reject') && reviewers.length > 0 && !reviewers.includes(author)) {
+    throw new ReviewError(`Only the assigned reviewers can ${action}: ${reviewers.join(', ')}`, 'notReviewer')
+  }
+
+  const comment: ReviewComment = {
+    id: uuidv4(),
+    author,
+    action,
+    ...(body ? { body } : {}),
+    createdAt: now
+  }
+
+  const reviewed: TestCase = {
+    ...testCase,
+    reviewStatus: transition.to || status,
+    reviewComments: [...(testCase.reviewComments || []), comment],
+    updatedAt: now
+  }
+
+  if ((action === 'submit' || action === 'assign') && request.reviewers) {
+    reviewed.reviewers = [...new Set(request.reviewers.map(reviewer => reviewer.trim()).filter(Boolean))]
+    if (reviewed.reviewers.length === 0) delete reviewed.reviewers
+  }
+
+  return reviewed
+}
+
+// Copy the review state of `source`, e.g. onto a test case a client sent
+export function withReview<T extends ReviewState>(testCase: T, source: ReviewState): T {
+  const result: T = {
+    ...testCase,
+    reviewStatus: source.reviewStatus,
+    reviewers: source.reviewers,
+    reviewComments: source.reviewComments
+  }
+  if (!result.reviewStatus) delete result.reviewStatus
+  if (!result.reviewers) delete result.reviewers
+  if (!result.reviewComments) delete result.reviewComments
+  return result
+}
+
+// Fields an approval covers; tags, priority and other metadata can change without a new review
+const REVIEWED_FIELDS = ['title', 'description', 'preconditions', 'expectedResult', 'parameters']
+
+/**
+ * Review state of an edited test case: the state of the existing one, except
+ * that an approved test case whose content changed goes back to draft, so
+ * approvedOnly plans never run content nobody reviewed
+ */
+export function withEditedReview(edited: TestCase, existing: TestCase): TestCase {
+  const result = withReview(edited, existing)
+  if (!isApproved(existing)) return result
+
+  const diff = diffTestCases(existing, edited)
+  const contentChanged = diff.fields.some(change => REVIEWED_FIELDS.includes(change.field)) ||
+    diff.steps.some(step => step.type !== 'unchanged')
+  return contentChanged ? { ...result, reviewStatus: 'draft' } : result
+}
+
+// When the test case was last submitted for review
+export function getSubmittedAt(testCase: Pick<TestCase, 'reviewComments' | 'updatedAt'>): string {
+  const submissions = (testCase.reviewComments || []).filter(comment => comment.action === 'submit')
+  return submissions.length > 0 ? submissions[submissions.length - 1].createdAt : testCase.updatedAt
+}
+
+// Test cases waiting for a review decision, longest waiting first
+export function getReviewQueue<T extends TestCase>(testCases: T[]): T[] {
+  return testCases
+    .filter(testCase => getReviewStatus(testCase) === 'in_review')
+    .sort((a, b) => getSubmittedAt(a).localeCompare(getSubmittedAt(b)))
+}
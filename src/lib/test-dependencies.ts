@@ -0,0 +1,195 @@
+import { TestResult, TestResultStatus } from './types'
+import { isSameSlot } from './configurations'
+import { getTestResultStatus } from './test-execution-utils'
+
+/**
+ * Ordering and dependencies between the test cases of a plan. A plan lists
+ * the prerequisites of each test case; runs execute prerequisites first and
+ * block the test cases whose prerequisites failed instead of executing them.
+ */
+
+// Prerequisite test case IDs by the ID of the test case depending on them
+export type TestDependencies = Record<string, string[]>
+
+// Prerequisite outcomes that leave nothing depending on them worth executing
+const BLOCKING_STATUSES: TestResultStatus[] = ['fail', 'blocked']
+
+export function getPrerequisites(dependencies: TestDependencies | undefined, testCaseId: string): string[] {
+  return dependencies?.[testCaseId] || []
+}
+
+/**
+ * Take a test case out of the dependencies: its own prerequisites and its
+ * place as a prerequisite of others, both returned so it can be put back.
+ */
+export function removeFromDependencies(dependencies: TestDependencies | undefined, testCaseId: string): {
+  dependencies: TestDependencies
+  prerequisites: string[]
+  dependents: string[]
+} {
+  const remaining: TestDependencies = {}
+  const dependents: string[] = []
+
+  Object.entries(dependencies || {}).forEach(([dependent, prerequisites]) => {
+    if (dependent === testCaseId) return
+    if (prerequisites.includes(testCaseId)) dependents.push(dependent)
+
+    const kept = prerequisites.filter(prerequisite => prerequisite !== testCaseId)
+    if (kept.length > 0) remaining[dependent] = kept
+  })
+
+  return { dependencies: remaining, prerequisites: getPrerequisites(dependencies, testCaseId), dependents }
+}
+
+// Put back what removeFromDependencies took out, or nothing if that would now close a cycle
+export function restoreToDependencies(
+  dependencies: TestDependencies | undefined,
+  testCaseId: string,
+  prerequisites: string[],
+  dependents: string[]
+): TestDependencies {
+  const restored: TestDependencies = { ...dependencies }
+  if (prerequisites.length > 0) {
+    restored[testCaseId] = [...new Set([...getPrerequisites(dependencies, testCaseId), ...prerequisites])]
+  }
+  dependents.forEach(dependent => {
+    restored[dependent] = [...new Set([...getPrerequisites(dependencies, dependent), testCaseId])]
+  })
+
+  return findDependencyCycle(restored) ? { ...dependencies } : restored
+}
+
+/**
+ * Point the dependencies of one test case at another, as when merging them.
+ * Edges from the merged test case to itself are dropped, and if its combined
+ * edges would form a cycle it keeps only those it had before.
+ */
+export function replaceInDependencies(dependencies: TestDependencies, fromId: string, toId: string): TestDependencies {
+  const replaced: TestDependencies = {}
+
+  Object.entries(dependencies).forEach(([dependent, prerequisites]) => {
+    const key = dependent === fromId ? toId : dependent
+    const merged = [...new Set([...(replaced[key] || []), ...prerequisites.map(id => (id === fromId ? toId : id))])]
+      .filter(prerequisite => prerequisite !== key)
+    if (merged.length > 0) replaced[key] = merged
+  })
+
+  return findDependencyCycle(replaced) ? removeFromDependencies(dependencies, fromId).dependencies : replaced
+}
+
+// A chain of test cases that depend on each other in a circle, first one repeated at the end, or null
+export function findDependencyCycle(dependencies: TestDependencies): string[] | null {
+  const done = new Set<string>()
+  const path: string[] = []
+
+  const visit = (testCaseId: string): string[] | null => {
+    const start = path.indexOf(testCaseId)
+    if (start !== -1) return [...path.slice(start), testCaseId]
+    if (done.has(testCaseId)) return null
+
+    path.push(testCaseId)
+    for (const prerequisite of getPrerequisites(dependencies, testCaseId)) {
+      const cycle = visit(prerequisite)
+      if (cycle) return cycle
+    }
+    path.pop()
+    done.add(testCaseId)
+    return null
+  }
+
+  for (const testCaseId of Object.keys(dependencies)) {
+    const cycle = visit(testCaseId)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * The order to run test cases in: the order they are listed in, except that
+ * each comes after its prerequisites. Prerequisites that aren't listed are
+ * ignored, and test cases caught in a cycle keep their listed order.
+ */
+export function orderTestCases(testCaseIds: string[], dependencies: TestDependencies | undefined): string[] {
+  const listed = [...new Set(testCaseIds)]
+  const included = new Set(listed)
+  const placed = new Set<string>()
+  const ordered: string[] = []
+
+  while (ordered.length < listed.length) {
+    const ready = listed.find(testCaseId => !placed.has(testCaseId) &&
+      getPrerequisites(dependencies, testCaseId).every(prerequisite => !included.has(prerequisite) || placed.has(prerequisite)))
+    const next = ready ?? listed.find(testCaseId => !placed.has(testCaseId))
+    if (next === undefined) break
+    placed.add(next)
+    ordered.push(next)
+  }
+  return ordered
+}
+
+// How many prerequisites deep each test case is, 0 for those without prerequisites among the test cases
+export function getDependencyLevels(testCaseIds: string[], dependencies: TestDependencies | undefined): Map<string, number> {
+  const levels = new Map<string, number>()
+  orderTestCases(testCaseIds, dependencies).forEach(testCaseId => {
+    const prerequisiteLevels = getPrerequisites(dependencies, testCaseId).flatMap(prerequisite => {
+      const level = levels.get(prerequisite)
+      return level === undefined ? [] : [level + 1]
+    })
+    levels.set(testCaseId, Math.max(0, ...prerequisiteLevels))
+  })
+  return levels
+}
+
+/**
+ * Block the test cases of a run whose prerequisites failed or are blocked
+ * themselves, in each configuration the results are in. Only test cases not
+ * executed yet are blocked, with blockedBy naming the prerequisite; those
+ * blocked earlier whose prerequisites no longer fail are not executed again.
+ * Results keep their positions, with results for blocked test cases that
+ * had none added at the end.
+ */
+export function applyDependencyBlocking(
+  testCaseIds: string[],
+  results: TestResult[],
+  dependencies: TestDependencies | undefined,
+  blockedAt: string
+): TestResult[] {
+  if (!dependencies || Object.keys(dependencies).length === 0) return results
+
+  const updated = [...results]
+  const configurations = [...new Set(results.map(result => result.configuration || undefined))]
+
+  configurations.forEach(configuration => {
+    const statuses = new Map<string, TestResultStatus>()
+    orderTestCases([...testCaseIds, ...results.map(result => result.testCaseId)], dependencies).forEach(testCaseId => {
+      const index = updated.findIndex(result => isSameSlot(result, testCaseId, configuration))
+      const result = index === -1 ? undefined : updated[index]
+      const blocker = getPrerequisites(dependencies, testCaseId)
+        .find(prerequisite => BLOCKING_STATUSES.includes(statuses.get(prerequisite) || 'not_executed'))
+      let status = result ? getTestResultStatus(result) : 'not_executed'
+
+      if (blocker && (status === 'not_executed' || result?.blockedBy)) {
+        const blocked: TestResult = {
+          ...(result || { testCaseId, ...(configuration ? { configuration } : {}), steps: [] }),
+          status: 'blocked',
+          blockedBy: blocker,
+          executedAt: result?.blockedBy === blocker ? result.executedAt : blockedAt
+        }
+        if (index === -1) {
+          updated.push(blocked)
+        } else {
+          updated[index] = blocked
+        }
+        status = 'blocked'
+      } else if (!blocker && result?.blockedBy) {
+        const unblocked: TestResult = { ...result, status: 'not_executed' }
+        delete unblocked.blockedBy
+        updated[index] = unblocked
+        status = 'not_executed'
+      }
+
+      statuses.set(testCaseId, status)
+    })
+  })
+
+  return updated
+}
@@ -1,4 +1,4 @@
-import { TestStepResult, TestResult } from './types'
+import { TestStepResult, TestResult, TestResultStatus, TestIteration, TestRun } from './types'
 
 /**
  * Utility functions for test case execution logic and status calculation
@@ -14,8 +14,13 @@ export type TestCaseStatus = 'pass' | 'fail' | 'partial' | 'not_executed' | 'blo
  * - If no steps executed -> Test case status = NOT_EXECUTED
  * - If any step blocked -> Test case status = BLOCKED
  * - If mixed results (some pass, some skip, no fails) -> Test case status = PARTIAL
+ * - If blocked by a failed prerequisite -> Test case status = BLOCKED, whatever the steps say
  */
-export function calculateTestCaseStatus(stepResults: TestStepResult[]): TestCaseStatus {
+export function calculateTestCaseStatus(stepResults: TestStepResult[], blockedBy?: string): TestCaseStatus {
+  if (blockedBy) {
+    return 'blocked'
+  }
+
   if (stepResults.length === 0) {
     return 'not_executed'
   }
@@ -44,6 +49,92 @@ export function calculateTestCaseStatus(stepResults: TestStepResult[]): TestCase
   return allPassedOrSkipped ? 'pass' : 'partial'
 }
 
+/**
+ * Roll the iterations of a parameterized test case up into one status:
+ * - If ANY iteration fails -> FAIL, else if any is blocked -> BLOCKED
+ * - If ALL iterations share a status (pass, skip, not executed) -> that status
+ * - Otherwise -> PARTIAL
+ */
+export function calculateIterationsStatus(iterations: TestIteration[]): TestResultStatus {
+  return combineStatuses(iterations.map(getTestResultStatus))
+}
+
+// Iterations and configurations of a test case roll up the same way
+function combineStatuses(statuses: TestResultStatus[]): TestResultStatus {
+  if (statuses.length === 0) return 'not_executed'
+  if (statuses.includes('fail')) return 'fail'
+  if (statuses.includes('blocked')) return 'blocked'
+  if (statuses.every(status => status === statuses[0]) && statuses[0] !== 'partial') return statuses[0]
+
+  return 'partial'
+}
+
+/**
+ * Status of a recorded test result or iteration. Results of parameterized
+ * test cases roll up their iterations, results with step results are always
+ * derived from them; results recorded without steps keep their explicit status.
+ * Results blocked by a prerequisite are blocked.
+ */
+export function getTestResultStatus(
+  result: Pick<TestResult, 'status' | 'steps' | 'iterations' | 'blockedBy'> | TestIteration
+): TestResultStatus {
+  const blockedBy = 'blockedBy' in result ? result.blockedBy : undefined
+  if (!blockedBy && 'iterations' in result && result.iterations && result.iterations.length > 0) {
+    return calculateIterationsStatus(result.iterations)
+  }
+  const steps = result.steps || []
+  return steps.length > 0 || blockedBy ? calculateTestCaseStatus(steps, blockedBy) : result.status
+}
+
+export interface LatestTestResult {
+  testCaseId: string
+  status: TestResultStatus
+  executedAt: string
+  testRunId: string
+  testRunName: string
+}
+
+/**
+ * The most recent executed result of each test case across the given runs,
+ * keyed by test case ID. Results that were not executed are skipped, so a
+ * newly started run doesn't hide the outcome of the previous one. Each
+ * configuration keeps its own latest result and the test case gets their
+ * rolled-up status, so a pass in one browser doesn't hide a failure in another.
+ */
+export function getLatestResults(testRuns: TestRun[]): Map<string, LatestTestResult> {
+  const latestByConfiguration = new Map<string, Map<string, LatestTestResult>>()
+
+  testRuns.forEach(run => {
+    run.results.forEach(result => {
+      const status = getTestResultStatus(result)
+      if (status === 'not_executed') return
+
+      const configurations = latestByConfiguration.get(result.testCaseId) || new Map<string, LatestTestResult>()
+      latestByConfiguration.set(result.testCaseId, configurations)
+      const configuration = result.configuration || ''
+      const current = configurations.get(configuration)
+      if (!current || new Date(result.executedAt) > new Date(current.executedAt)) {
+        configurations.set(configuration, {
+          testCaseId: result.testCaseId,
+          status,
+          executedAt: result.executedAt,
+          testRunId: run.id,
+          testRunName: run.name
+        })
+      }
+    })
+  })
+
+  const latest = new Map<string, LatestTestResult>()
+  latestByConfiguration.forEach((configurations, testCaseId) => {
+    const results = [...configurations.values()]
+    const newest = results.reduce((a, b) => new Date(b.executedAt) > new Date(a.executedAt) ? b : a)
+    latest.set(testCaseId, { ...newest, status: combineStatuses(results.map(result => result.status)) })
+  })
+
+  return latest
+}
+
 /**
  * Get the reason why a test case failed
  */
@@ -70,50 +161,83 @@ export function calculatePassRate(testResults: TestResult[]): number {
   }
   
   const passedTests = testResults.filter(result => 
-    calculateTestCaseStatus(result.steps) === 'pass'
+    getTestResultStatus(result) === 'pass'
   ).length
   
   return Math.round((passedTests / testResults.length) * 100)
 }
 
-/**
- * Get summary statistics for test execution
- */
-export function getTestExecutionSummary(testResults: TestResult[]) {
-  const summary = {
-    total: testResults.length,
+export interface StatusCounts {
+  total: number
+  passed: number
+  failed: number
+  blocked: number
+  skipped: number
+  notExecuted: number
+  partial: number
+}
+
+function countStatuses(statuses: TestResultStatus[]): StatusCounts {
+  const counts: StatusCounts = {
+    total: statuses.length,
     passed: 0,
     failed: 0,
     blocked: 0,
+    skipped: 0,
     notExecuted: 0,
-    partial: 0,
-    passRate: 0
+    partial: 0
   }
-  
-  testResults.forEach(result => {
-    const status = calculateTestCaseStatus(result.steps)
+
+  statuses.forEach(status => {
     switch (status) {
       case 'pass':
-        summary.passed++
+        counts.passed++
         break
       case 'fail':
-        summary.failed++
+        counts.failed++
         break
       case 'blocked':
-        summary.blocked++
+        counts.blocked++
+        break
+      case 'skip':
+        counts.skipped++
         break
       case 'not_executed':
-        summary.notExecuted++
+        counts.notExecuted++
         break
       case 'partial':
-        summary.partial++
+        counts.partial++
         break
     }
   })
-  
-  summary.passRate = calculatePassRate(testResults)
-  
-  return summary
+
+  return counts
+}
+
+/**
+ * Get summary statistics for test execution. Parameterized test cases count
+ * once with their rolled-up status; `iterations` counts the individual data
+ * rows and `parameterized` lists the outcome of every row per test case.
+ */
+export function getTestExecutionSummary(testResults: TestResult[]) {
+  const parameterized = testResults.flatMap(result => result.iterations?.length
+    ? [{
+        testCaseId: result.testCaseId,
+        status: getTestResultStatus(result),
+        iterations: result.iterations.map(iteration => ({
+          rowId: iteration.rowId,
+          values: iteration.values,
+          status: getTestResultStatus(iteration)
+        }))
+      }]
+    : [])
+
+  return {
+    ...countStatuses(testResults.map(getTestResultStatus)),
+    passRate: calculatePassRate(testResults),
+    iterations: countStatuses(parameterized.flatMap(result => result.iterations.map(iteration => iteration.status))),
+    parameterized
+  }
 }
 
 /**
@@ -0,0 +1,116 @@
+import { TestCase, TestDataRow, TestIteration, TestParameters, TestResult, TestStep, TestStepResult } from './types'
+
+/**
+ * Parameterized (data-driven) test cases: steps reference columns of the
+ * test case's data table as {{name}}, and a run executes the steps once
+ * per row, with the placeholders replaced by the row's values.
+ */
+
+const PLACEHOLDER = /\{\{\s*([^{}\s]+)\s*\}\}/g
+
+export interface ExpandedIteration {
+  row: TestDataRow
+  label: string // e.g. 'resolution=1920x1080', shown in reports
+  steps: TestStep[] // Steps with the row's values filled in
+}
+
+export function isParameterized<T extends Pick<TestCase, 'parameters'>>(testCase: T): testCase is T & { parameters: TestParameters } {
+  return (testCase.parameters?.rows.length || 0) > 0
+}
+
+// Replace {{name}} with the value of the column; unknown names are left as written
+export function substituteParameters(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  )
+}
+
+// Names referenced by the steps, in order of first use
+export function getReferencedParameters(testCase: Pick<TestCase, 'steps'>): string[] {
+  const names = new Set<string>()
+  for (const step of testCase.steps) {
+    for (const text of [step.action, step.expectedResult]) {
+      for (const match of (text || '').matchAll(PLACEHOLDER)) {
+        names.add(match[1])
+      }
+    }
+  }
+  return [...names]
+}
+
+export function describeDataRow(row: TestDataRow, names: string[]): string {
+  return names.map(name => `${name}=${row.values[name] ?? ''}`).join(', ')
+}
+
+/**
+ * One iteration per data row, with the steps filled in. Test cases without
+ * a data table have no iterations.
+ */
+export function expandIterations(testCase: Pick<TestCase, 'steps' | 'parameters'>): ExpandedIteration[] {
+  if (!testCase.parameters) return []
+
+  const { names, rows } = testCase.parameters
+  return rows.map(row => ({
+    row,
+    label: describeDataRow(row, names),
+    steps: testCase.steps.map(step => ({
+      ...step,
+      action: substituteParameters(step.action, row.values),
+      expectedResult: substituteParameters(step.expectedResult, row.values)
+    }))
+  }))
+}
+
+// Empty iteration results for a new run of the test case
+export function createIterationResults(testCase: Pick<TestCase, 'steps' | 'parameters'>): TestIteration[] {
+  return expandIterations(testCase).map(({ row }) => ({
+    rowId: row.id,
+    values: { ...row.values },
+    status: 'not_executed',
+    steps: testCase.steps.map(step => ({ stepId: step.id, status: 'not_executed' }))
+  }))
+}
+
+// A step as a runner shows it, tagged with the data row it runs for
+export type RunStep<S extends TestStep = TestStep> = S & { rowId?: string; rowLabel?: string }
+
+/**
+ * The steps of every iteration in order, for runners that go through them
+ * one by one. Test cases without a data table run their steps once.
+ */
+export function getRunSteps<S extends TestStep>(testCase: { steps: S[]; parameters?: TestParameters }): RunStep<S>[] {
+  const parameters = testCase.parameters
+  if (!parameters || parameters.rows.length === 0) return testCase.steps
+
+  return parameters.rows.flatMap(row => testCase.steps.map(step => ({
+    ...step,
+    action: substituteParameters(step.action, row.values),
+    expectedResult: substituteParameters(step.expectedResult, row.values),
+    rowId: row.id,
+    rowLabel: describeDataRow(row, parameters.names)
+  })))
+}
+
+/**
+ * Step results recorded in the order of getRunSteps, as the steps of a test
+ * result or one iteration per data row. Iteration statuses are derived from
+ * their steps when the run is saved.
+ */
+export function groupRunStepResults(
+  testCase: Pick<TestCase, 'parameters'>,
+  runSteps: RunStep[],
+  stepResults: TestStepResult[]
+): Pick<TestResult, 'steps' | 'iterations'> {
+  const parameters = testCase.parameters
+  if (!parameters || parameters.rows.length === 0) return { steps: stepResults }
+
+  return {
+    steps: [],
+    iterations: parameters.rows.map(row => ({
+      rowId: row.id,
+      values: { ...row.values },
+      status: 'not_executed',
+      steps: stepResults.filter((_, index) => runSteps[index]?.rowId === row.id)
+    }))
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  TestIteration,
+  TestResult,
+  TestResultStatus,
+  TestRun,
+  TestRunStatus,
+  TestStepResult,
+  TestStepStatus
+} from './types'
+
+/**
+ * Canonical test run schema and conversion of the legacy execution formats:
+ * - TestExecution documents from the test runner (test-executions/execution-*.json)
+ *   with step statuses like 'skipped' and 'pending'
+ * - results written by the old results endpoint with 'passed'/'failed'
+ */
+
+// Plan ID used for runs of a single test case outside a plan
+export const SINGLE_EXECUTION_PLAN_ID = 'single-execution'
+
+// Plan ID used for batch runs of selected test cases
+export const BATCH_RUN_PLAN_ID = 'batch-run'
+
+// Plan ID used for runs imported from automated test reports outside a plan
+export const AUTOMATED_RUN_PLAN_ID = 'automated-run'
+
+const RUN_STATUSES: Record<string, TestRunStatus> = {
+  not_started: 'not_started',
+  in_progress: 'in_progress',
+  running: 'in_progress',
+  completed: 'completed',
+  paused: 'paused',
+  aborted: 'aborted'
+}
+
+const STEP_STATUSES: Record<string, TestStepStatus> = {
+  pass: 'pass',
+  passed: 'pass',
+  fail: 'fail',
+  failed: 'fail',
+  skip: 'skip',
+  skipped: 'skip',
+  blocked: 'blocked',
+  not_executed: 'not_executed',
+  pending: 'not_executed'
+}
+
+const RESULT_STATUSES: Record<string, TestResultStatus> = {
+  ...STEP_STATUSES,
+  partial: 'partial'
+}
+
+function lookup<T>(table: Record<string, T>, status: unknown): T | undefined {
+  const key = String(status).toLowerCase()
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined
+}
+
+// Missing statuses get the default; unknown ones are kept as they are so validation rejects them
+function normalizeStatus<T>(table: Record<string, T>, status: unknown, fallback: T): T {
+  if (status === undefined || status === null || status === '') return fallback
+  return lookup(table, status) ?? status as T
+}
+
+export function normalizeRunStatus(status: unknown): TestRunStatus {
+  return normalizeStatus(RUN_STATUSES, status, 'not_started')
+}
+
+export function normalizeResultStatus(status: unknown): TestResultStatus {
+  return normalizeStatus(RESULT_STATUSES, status, 'not_executed')
+}
+
+// Accepts the canonical statuses and the legacy spellings ('passed', 'skipped', ...)
+export function isKnownResultStatus(status: unknown): boolean {
+  return lookup(RESULT_STATUSES, status) !== undefined
+}
+
+export function normalizeStepStatus(status: unknown): TestStepStatus {
+  return normalizeStatus(STEP_STATUSES, status, 'not_executed')
+}
+
+type Doc = Record<string, unknown>
+
+function isDoc(value: unknown): value is Doc {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+// Entries that aren't objects or lack their ID can't be read and are left out
+function normalizeList<T>(value: unknown, idKey: string, normalize: (raw: Doc) => T): T[] {
+  return Array.isArray(value)
+    ? value.filter((raw): raw is Doc => isDoc(raw) && typeof raw[idKey] === 'string' && raw[idKey] !== '').map(normalize)
+    : []
+}
+
+function normalizeStepResult(raw: Doc): TestStepResult {
+  const step: TestStepResult = {
+    stepId: raw.stepId as string,
+    status: normalizeStepStatus(raw.status),
+    actualResult: optionalString(raw.actualResult),
+    notes: optionalString(raw.notes),
+    executedAt: optionalString(raw.executedAt) || optionalString(raw.timestamp)
+  }
+
+  if (typeof raw.sharedStepVersion === 'number' && Number.isFinite(raw.sharedStepVersion)) {
+    step.sharedStepVersion = raw.sharedStepVersion
+  }
+
+  return step
+}
+
+function normalizeIteration(raw: Doc): TestIteration {
+  const iteration: TestIteration = {
+    rowId: raw.rowId as string,
+    values: isDoc(raw.values) ? raw.values as Record<string, string> : {},
+    status: normalizeResultStatus(raw.status),
+    steps: normalizeList(raw.steps, 'stepId', normalizeStepResult)
+  }
+
+  const notes = optionalString(raw.notes)
+  if (notes) iteration.notes = notes
+
+  return iteration
+}
+
+function normalizeResult(raw: Doc, fallbackExecutedAt: string): TestResult {
+  const result: TestResult = {
+    testCaseId: raw.testCaseId as string,
+    status: normalizeResultStatus(raw.status),
+    executedAt: optionalString(raw.executedAt) || fallbackExecutedAt,
+    steps: normalizeList(raw.steps, 'stepId', normalizeStepResult)
+  }
+
+  const configuration = optionalString(raw.configuration)
+  const blockedBy = optionalString(raw.blockedBy)
+  const executedBy = optionalString(raw.executedBy)
+  const actualResult = optionalString(raw.actualResult)
+  const notes = optionalString(raw.notes)
+  if (configuration) result.configuration = configuration
+  if (blockedBy) result.blockedBy = blockedBy
+  if (typeof raw.testCaseRevision === 'number') result.testCaseRevision = raw.testCaseRevision
+  if (executedBy) result.executedBy = executedBy
+  if (typeof raw.executionTime === 'number') result.executionTime = raw.executionTime
+  if (actualResult) result.actualResult = actualResult
+  if (notes) result.notes = notes
+  if (Array.isArray(raw.screenshots)) result.screenshots = raw.screenshots
+  if (Array.isArray(raw.iterations)) result.iterations = normalizeList(raw.iterations, 'rowId', normalizeIteration)
+  if (Array.isArray(raw.automatedTests)) result.automatedTests = raw.automatedTests
+
+  return result
+}
+
+/**
+ * True for the TestExecution documents the test runner used to write:
+ * one test case per document, with stepResults instead of results
+ */
+export function isLegacyExecution(raw: unknown): boolean {
+  return isDoc(raw) && typeof raw.testCaseId === 'string' && Array.isArray(raw.stepResults)
+}
+
+function executionToTestRun(raw: Doc): TestRun {
+  const startedAt = raw.startedAt as string
+  const executedAt = optionalString(raw.completedAt) || startedAt
+
+  return {
+    id: String(raw.id),
+    testPlanId: SINGLE_EXECUTION_PLAN_ID,
+    name: `Single Test Execution - ${raw.testCaseId}`,
+    startedAt,
+    completedAt: optionalString(raw.completedAt),
+    updatedAt: optionalString(raw.savedAt),
+    status: normalizeRunStatus(raw.status),
+    executedBy: raw.executedBy as string,
+    notes: optionalString(raw.notes),
+    results: [normalizeResult({
+      testCaseId: raw.testCaseId,
+      status: raw.overallResult,
+      executedAt,
+      steps: raw.stepResults
+    }, executedAt)]
+  }
+}
+
+/**
+ * Convert any stored or submitted run document into the canonical TestRun
+ * shape. Returns null when the document is not a test run at all.
+ */
+export function normalizeTestRun(raw: unknown): TestRun | null {
+  if (!isDoc(raw) || !raw.id) {
+    return null
+  }
+  const data = raw
+
+  if (isLegacyExecution(data)) {
+    return executionToTestRun(data)
+  }
+
+  if (!data.testPlanId || !Array.isArray(data.results)) {
+    return null
+  }
+
+  const startedAt = data.startedAt as string
+  const testRun: TestRun = {
+    id: String(data.id),
+    testPlanId: String(data.testPlanId),
+    name: data.name as string,
+    startedAt,
+    status: normalizeRunStatus(data.status),
+    executedBy: data.executedBy as string,
+    results: normalizeList(data.results, 'testCaseId', result => normalizeResult(result, startedAt))
+  }
+
+  const completedAt = optionalString(data.completedAt)
+  const updatedAt = optionalString(data.updatedAt)
+  const notes = optionalString(data.notes)
+  if (completedAt) testRun.completedAt = completedAt
+  if (updatedAt) testRun.updatedAt = updatedAt
+  if (notes) testRun.notes = notes
+  if (isDoc(data.customFields) && Object.keys(data.customFields).length > 0) testRun.customFields = data.customFields as TestRun['customFields']
+  if (data.source === 'manual' || data.source === 'automated') testRun.source = data.source
+  if (Array.isArray(data.unmappedTests)) testRun.unmappedTests = data.unmappedTests
+  if (isDoc(data.planSnapshot)) testRun.planSnapshot = data.planSnapshot as unknown as TestRun['planSnapshot']
+  if (isDoc(data.assignees) && Object.keys(data.assignees).length > 0) testRun.assignees = data.assignees as Record<string, string>
+  if (Array.isArray(data.configurations) && data.configurations.length > 0) testRun.configurations = data.configurations
+
+  return testRun
+}
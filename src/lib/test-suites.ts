@@ -0,0 +1,100 @@
+import { TestCase, TestPlan, TestSuite } from './types'
+
+/**
+ * Suites form a tree through parentId, ordered among siblings by position.
+ * A test case is filed in at most one suite. A suite whose parent no longer
+ * exists is shown at the top level.
+ */
+
+export interface SuiteNode {
+  suite: TestSuite
+  path: string[] // Suite names from the top level down to this suite
+  children: SuiteNode[]
+  testCaseIds: string[] // Test cases filed directly in the suite, by title
+}
+
+type SuiteMember = Pick<TestCase, 'id' | 'title' | 'suiteId'>
+
+export function compareSuites(a: TestSuite, b: TestSuite): number {
+  return a.position - b.position || a.name.localeCompare(b.name)
+}
+
+// Suites under the same parent, in order; undefined for the top level
+export function getSiblingSuites(suites: TestSuite[], parentId: string | undefined): TestSuite[] {
+  const ids = new Set(suites.map(suite => suite.id))
+  return suites
+    .filter(suite => (suite.parentId && ids.has(suite.parentId) ? suite.parentId : undefined) === parentId)
+    .sort(compareSuites)
+}
+
+export function buildSuiteTree(suites: TestSuite[], testCases: SuiteMember[] = []): SuiteNode[] {
+  const membersBySuite = new Map<string, SuiteMember[]>()
+  testCases.forEach(testCase => {
+    if (!testCase.suiteId) return
+    membersBySuite.set(testCase.suiteId, [...(membersBySuite.get(testCase.suiteId) || []), testCase])
+  })
+
+  const build = (parentId: string | undefined, parentPath: string[]): SuiteNode[] =>
+    getSiblingSuites(suites, parentId).map(suite => {
+      const path = [...parentPath, suite.name]
+      return {
+        suite,
+        path,
+        children: build(suite.id, path),
+        testCaseIds: (membersBySuite.get(suite.id) || [])
+          .sort((a, b) => a.title.localeCompare(b.title))
+          .map(testCase => testCase.id)
+      }
+    })
+
+  return build(undefined, [])
+}
+
+// Every node of the tree, parents before their children
+export function flattenSuiteTree(nodes: SuiteNode[]): SuiteNode[] {
+  return nodes.flatMap(node => [node, ...flattenSuiteTree(node.children)])
+}
+
+export function findSuiteNode(nodes: SuiteNode[], suiteId: string): SuiteNode | undefined {
+  return flattenSuiteTree(nodes).find(node => node.suite.id === suiteId)
+}
+
+// Test cases of the suite and of every suite nested in it, in tree order
+export function getSuiteTestCaseIds(node: SuiteNode): string[] {
+  return flattenSuiteTree([node]).flatMap(descendant => descendant.testCaseIds)
+}
+
+// Whether the suite is candidateId or nested somewhere below it
+export function isWithinSuite(suites: TestSuite[], suiteId: string, candidateId: string): boolean {
+  const byId = new Map(suites.map(suite => [suite.id, suite]))
+  const seen = new Set<string>()
+
+  let current: TestSuite | undefined = byId.get(suiteId)
+  while (current && !seen.has(current.id)) {
+    if (current.id === candidateId) return true
+    seen.add(current.id)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return false
+}
+
+/**
+ * The test cases a plan runs: the ones added directly, in the order they
+ * were added, followed by those of the plan's suites as they are now, so
+ * test cases filed in a suite later are picked up.
+ */
+export function resolvePlanTestCaseIds(
+  plan: Pick<TestPlan, 'testCases' | 'suites'>,
+  suites: TestSuite[],
+  testCases: SuiteMember[]
+): string[] {
+  if (!plan.suites || plan.suites.length === 0) return plan.testCases
+
+  const tree = buildSuiteTree(suites, testCases)
+  const suiteTestCaseIds = plan.suites.flatMap(suiteId => {
+    const node = findSuiteNode(tree, suiteId)
+    return node ? getSuiteTestCaseIds(node) : []
+  })
+
+  return [...new Set([...plan.testCases, ...suiteTestCaseIds])]
+}
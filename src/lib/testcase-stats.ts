@@ -1,4 +1,5 @@
-import { TestCase } from './types'
+import { Priority, TestCase } from './types'
+import { normalizePriority } from './schema'
 
 export interface TestCaseStats {
   total: number
@@ -12,35 +13,9 @@ export interface TestCaseStats {
 }
 
 export class TestCaseStatsUtils {
-  private static normalizePriority(priority: string): 'low' | 'medium' | 'high' | 'critical' {
-    // Handle multilingual priorities and normalize them
-    const normalizedPriority = priority.toLowerCase().trim()
-    
-    // Map various priority names to standard values
-    switch (normalizedPriority) {
-      case 'low':
-      case 'lav':
-      case 'niedrig':
-      case 'bas':
-        return 'low'
-      case 'medium':
-      case 'middels':
-      case 'mittel':
-      case 'moyen':
-        return 'medium'
-      case 'high':
-      case 'høy':
-      case 'hoch':
-      case 'élevé':
-        return 'high'
-      case 'critical':
-      case 'kritisk':
-      case 'kritisch':
-      case 'critique':
-        return 'critical'
-      default:
-        return 'medium' // Default fallback
-    }
+  private static normalizePriority(priority: string): Priority {
+    // Handle multilingual priorities, falling back to medium
+    return normalizePriority(priority) || 'medium'
   }
 
   static calculateStats(testCases: TestCase[]): TestCaseStats {
@@ -43,6 +43,8 @@ export interface GitHubRepository {
   isFavorite?: boolean
 }
 
+export type Priority = 'low' | 'medium' | 'high' | 'critical'
+
 export interface TestCase {
   id: string
   title: string
@@ -50,23 +52,128 @@ export interface TestCase {
   preconditions?: string
   steps: TestStep[]
   expectedResult: string
-  priority: 'low' | 'medium' | 'high' | 'critical'
+  priority: Priority
   tags: string[]
+  parameters?: TestParameters // Data table of a parameterized test case
+  automatedTests?: string[] // IDs of the automated tests covering it, '<classname>::<name>' as in their JUnit reports
+  customFields?: CustomFieldValues
+  suiteId?: string // Suite the test case is filed in, none for unfiled test cases
+  reviewStatus?: ReviewStatus // Test cases without one predate the review workflow and count as approved
+  reviewers?: string[] // Users assigned to approve or reject the test case
+  reviewComments?: ReviewComment[] // Review actions and comments, oldest first
   githubIssue?: {
     number: number
     url: string
     repository: string
+    title?: string // Issue title when the test case was generated from it, searchable
   }
   createdAt: string
   updatedAt: string
   createdBy: string
 }
 
+// Review lifecycle: draft -> in_review -> approved, and deprecated once no longer used
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'deprecated'
+export type ReviewAction = 'submit' | 'assign' | 'approve' | 'reject' | 'deprecate' | 'reopen' | 'comment'
+
+export interface ReviewComment {
+  id: string
+  author: string
+  action: ReviewAction
+  body?: string
+  createdAt: string
+}
+
+// Steps reference a column as {{name}}; a run executes the steps once per row
+export interface TestParameters {
+  names: string[]
+  rows: TestDataRow[]
+}
+
+export interface TestDataRow {
+  id: string
+  values: Record<string, string> // Value per column name
+}
+
+// Fields defined per workspace on top of the built-in ones
+export type CustomFieldType = 'text' | 'number' | 'enum' | 'multiSelect' | 'date' | 'user'
+export type CustomFieldEntityType = 'testCase' | 'testPlan' | 'testRun'
+
+export interface CustomFieldDefinition {
+  id: string // Key of the value in customFields, e.g. 'component'
+  label: string
+  type: CustomFieldType
+  entityTypes: CustomFieldEntityType[] // Entities the field is shown and validated on
+  options?: string[] // Allowed values of enum and multiSelect fields
+  description?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// number for number fields, string[] for multiSelect, YYYY-MM-DD for dates,
+// the user name for user fields and plain strings otherwise
+export type CustomFieldValue = string | number | string[]
+export type CustomFieldValues = Record<string, CustomFieldValue>
+
+export interface TestCaseRevision {
+  testCaseId: string
+  revision: number // 1-based, increments on every recorded save
+  author: string
+  createdAt: string
+  summary: string
+  snapshot: TestCase
+}
+
 export interface TestStep {
   id: string
   stepNumber: number
-  action: string
+  action: string // Empty for references to a shared step
   expectedResult: string
+  sharedStepId?: string // Runs the steps of this shared step instead
+  sharedStepVersion?: number // Pins a version of the shared step, otherwise the latest is used
+}
+
+// Steps reused across test cases. Every change is kept as a new version.
+export interface SharedStep {
+  id: string
+  title: string
+  description?: string
+  steps: TestStep[] // Plain steps, shared steps don't reference other shared steps
+  tags: string[]
+  version: number // 1-based, increments on every change
+  createdAt: string
+  updatedAt: string
+  createdBy: string
+  updatedBy?: string
+}
+
+// Folder of test cases; suites nest to form a tree
+export interface TestSuite {
+  id: string
+  name: string
+  description?: string
+  parentId?: string // Top-level suites have none
+  position: number // 0-based order among the suites sharing the parent
+  createdAt: string
+  updatedAt: string
+}
+
+// Something the product must do, traced to the test cases covering it
+export interface Requirement {
+  id: string
+  title: string
+  description?: string
+  source?: string // Where the requirement comes from, e.g. a spec or owner/repo#12
+  acceptanceCriteria: string[]
+  githubIssue?: {
+    number: number
+    url: string
+    repository: string
+  }
+  testCases: string[] // Covering test case IDs; a test case can cover several requirements
+  createdAt: string
+  updatedAt: string
+  createdBy: string
 }
 
 export interface TestPlan {
@@ -75,38 +182,208 @@ export interface TestPlan {
   description: string
   version: string
   testCases: string[] // Array of test case IDs
+  suites?: string[] // Suites whose test cases, including those of nested suites, are part of the plan
+  approvedOnly?: boolean // Leave out test cases that have not been approved
+  query?: string // Search whose matches, as of when a run starts, are part of the plan besides testCases
+  configurationMatrix?: ConfigurationDimension[] // Runs execute every test case once per combination
+  dependencies?: Record<string, string[]> // Prerequisites by test case ID; runs execute them first and block dependents when they fail
   createdAt: string
   updatedAt: string
   createdBy: string
   repository?: string
+  customFields?: CustomFieldValues
+}
+
+// One axis of a plan's configuration matrix, such as browser or locale
+export interface ConfigurationDimension {
+  name: string
+  values: string[]
+}
+
+// One value per dimension, e.g. { browser: 'Chrome', locale: 'en' } with the ID 'Chrome / en'
+export interface TestConfiguration {
+  id: string
+  values: Record<string, string>
 }
 
+// Canonical status vocabulary shared by every run, result and step
+export type TestRunStatus = 'not_started' | 'in_progress' | 'completed' | 'paused' | 'aborted'
+export type TestRunSource = 'manual' | 'automated'
+export type TestResultStatus = 'pass' | 'fail' | 'skip' | 'blocked' | 'partial' | 'not_executed'
+export type TestStepStatus = 'pass' | 'fail' | 'skip' | 'blocked' | 'not_executed'
+
 export interface TestRun {
   id: string
-  testPlanId: string
+  testPlanId: string // 'single-execution' for runs of one test case outside a plan
   name: string
   startedAt: string
   completedAt?: string
-  status: 'not_started' | 'in_progress' | 'completed' | 'paused'
+  updatedAt?: string
+  status: TestRunStatus
   executedBy: string
+  notes?: string
+  customFields?: CustomFieldValues
+  source?: TestRunSource // Runs without one were executed manually
+  unmappedTests?: AutomatedTestResult[] // Tests of an imported report that no test case is linked to
+  planSnapshot?: TestPlanSnapshot
+  assignees?: Record<string, string> // Test case ID to the tester it is assigned to
+  configurations?: TestConfiguration[] // The plan's matrix when the run started, one result per test case in each
   results: TestResult[]
 }
 
+// The test cases a plan resolved to when the run started, kept as the plan's suites and query change
+export interface TestPlanSnapshot {
+  testCaseIds: string[]
+  query?: string
+  resolvedAt: string
+}
+
+// Outcome of one automated test in an imported report
+export interface AutomatedTestResult {
+  testId: string // '<classname>::<name>'
+  status: TestResultStatus // pass, fail or skip
+  executionTime?: number // in seconds
+  message?: string // Failure or skip message
+}
+
 export interface TestResult {
   testCaseId: string
-  status: 'pass' | 'fail' | 'skip' | 'blocked'
+  configuration?: string // ID of the run configuration the result was executed in
+  testCaseRevision?: number // Revision of the test case the result was executed against
+  status: TestResultStatus // Derived from the step results whenever steps were recorded
+  blockedBy?: string // Prerequisite test case whose failed or blocked result in the same run blocks this one
   executedAt: string
+  executedBy?: string // Defaults to the run's executedBy
   executionTime?: number // in seconds
+  actualResult?: string
+  notes?: string
+  screenshots?: string[] // Legacy, evidence is stored as attachments
+  steps: TestStepResult[] // Empty for parameterized test cases, see iterations
+  iterations?: TestIteration[] // One per data row of a parameterized test case
+  automatedTests?: AutomatedTestResult[] // The linked automated tests an imported result was combined from
+}
+
+export interface TestIteration {
+  rowId: string
+  values: Record<string, string> // Row values the iteration was executed with
+  status: TestResultStatus // Derived from the step results
   notes?: string
-  screenshots?: string[]
   steps: TestStepResult[]
 }
 
 export interface TestStepResult {
-  stepId: string
-  status: 'pass' | 'fail' | 'skip' | 'blocked'
+  stepId: string // <stepId>/<sharedStepStepId> for the steps of a shared step
+  sharedStepVersion?: number // Version of the shared step that was executed
+  status: TestStepStatus
   actualResult?: string
   notes?: string
+  executedAt?: string
+}
+
+export type AttachmentTargetType = 'testCase' | 'step' | 'stepResult' | 'testRun'
+
+// What a file is attached to. Which IDs are set depends on the type:
+// testCase: testCaseId, step: testCaseId + stepId, testRun: testRunId,
+// stepResult: testRunId + testCaseId + stepId
+export interface AttachmentTarget {
+  type: AttachmentTargetType
+  testCaseId?: string
+  stepId?: string
+  testRunId?: string
+}
+
+export interface Attachment {
+  id: string
+  target: AttachmentTarget
+  fileName: string
+  contentType: string
+  size: number // in bytes
+  sha256: string // Content hash, identical files are stored once
+  uploadedAt: string
+  uploadedBy: string
+}
+
+export type TrashEntityType = 'testCase' | 'testPlan' | 'testRun'
+
+export interface TrashPlanLink {
+  testPlanId: string
+  position: number // Index the test case had in TestPlan.testCases, -1 when only its dependencies named it
+  prerequisites?: string[] // The test case's own entry in TestPlan.dependencies
+  dependents?: string[] // Test cases of the plan that had it as a prerequisite
+}
+
+export interface TrashEntry {
+  id: string
+  entityType: TrashEntityType
+  entityId: string
+  name: string
+  deletedAt: string
+  deletedBy: string
+  expiresAt: string // Purged permanently after this date
+  planLinks: TrashPlanLink[] // Plans a trashed test case was removed from
+  requirementLinks?: string[] // Requirements a trashed test case was removed from
+  data: TestCase | TestPlan | TestRun
+}
+
+// Changes a bulk edit makes to each selected test case, in order
+export type BulkOperation =
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTags'; tags: string[] }
+  | { type: 'setPriority'; priority: Priority }
+  | { type: 'setIssue'; repository: string; number?: number } // Without a number each test case keeps its issue number
+  | { type: 'clearIssue' }
+  | { type: 'addToPlan'; testPlanId: string }
+  | { type: 'delete' } // Moves the test cases to the trash, can't be combined with other operations
+
+export type BulkOperationType = BulkOperation['type']
+
+// One bulk edit, kept so it can be undone as a whole
+export interface BulkEdit {
+  id: string
+  operations: BulkOperation[]
+  testCases: Array<{ before: TestCase; after?: TestCase }> // Changed test cases, after is missing for deleted ones
+  planAdditions: Array<{ testPlanId: string; testCaseIds: string[] }> // Test cases the edit added to each plan
+  trashEntryIds: string[] // Trash entries of the deleted test cases
+  createdAt: string
+  createdBy: string
+  undoneAt?: string
+  undoneBy?: string
+}
+
+export type ReleaseKind = 'release' | 'milestone'
+export type ReleaseStatus = 'planned' | 'in_progress' | 'released' | 'cancelled'
+export type ExitCriterionType = 'passRate' | 'noOpenFailures' | 'allExecuted'
+
+// A condition a release has to meet to ship, checked against the latest result of each test case
+export interface ExitCriterion {
+  id: string
+  type: ExitCriterionType
+  threshold?: number // passRate: minimum percentage of executed test cases passing
+  priority?: Priority // noOpenFailures and allExecuted: only test cases of this priority
+}
+
+// A release or milestone, grouping the plans and runs that decide whether it is ready
+export interface Release {
+  id: string
+  name: string
+  kind: ReleaseKind
+  description?: string
+  version?: string
+  status: ReleaseStatus
+  startDate?: string // YYYY-MM-DD, runs of the plans started before it don't count
+  targetDate?: string // YYYY-MM-DD
+  testPlans: string[] // Plans whose test cases and runs make up the release
+  testRuns: string[] // Runs counted besides those of the plans
+  exitCriteria: ExitCriterion[]
+  createdAt: string
+  updatedAt: string
+  createdBy: string
+}
+
+export interface UsageReport {
+  testPlans: Array<{ id: string; name: string }>
+  requirements: Array<{ id: string; title: string }>
+  testRuns: Array<{ id: string; name: string; startedAt: string; status: TestRun['status'] }>
 }
 
 export interface DashboardStats {
@@ -59,7 +59,7 @@ export const defaultPreferences: UserPreferences = {
   },
   dashboard: {
     layout: 'default',
-    widgets: ['stats', 'quick-actions', 'recent-activity'],
+    widgets: ['stats', 'quick-actions', 'recent-activity', 'pending-review'],
     theme: 'auto',
     language: 'en',
     showWelcome: true
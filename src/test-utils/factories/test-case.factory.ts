@@ -52,6 +52,23 @@ export class TestCaseFactory {
     };
   }
 
+  // The same minimal test case on every call, for tests comparing what storage saves and loads
+  static fixed(id: string, overrides: Partial<TestCase> = {}): TestCase {
+    return {
+      id,
+      title: `Test ${id}`,
+      description: '',
+      steps: [{ id: 'step-1', stepNumber: 1, action: 'Open the page', expectedResult: 'It loads' }],
+      expectedResult: 'It works',
+      priority: 'medium',
+      tags: [],
+      createdAt: '2025-07-01T00:00:00.000Z',
+      updatedAt: '2025-07-01T00:00:00.000Z',
+      createdBy: 'tester',
+      ...overrides,
+    };
+  }
+
   static testCases(count: number, overrides: Partial<TestCase> = {}): TestCase[] {
     return Array.from({ length: count }, () => this.testCase(overrides));
   }
@@ -0,0 +1,38 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileUtils } from '@/lib/file-utils';
+import { FileStorageAdapter, SqliteStorageAdapter, StorageAdapter } from '@/lib/storage';
+
+export type StorageBackend = [name: string, createStorage: (dir: string) => StorageAdapter];
+
+/**
+ * Every storage backend, each created in the given workspace directory
+ */
+export const storageBackends: StorageBackend[] = [
+  ['file', dir => new FileStorageAdapter(dir)],
+  ['sqlite', dir => new SqliteStorageAdapter(path.join(dir, 'qa.sqlite'))]
+];
+
+/**
+ * Run the tests once per storage backend. Each test gets FileUtils set to
+ * a new backend in an empty temp directory named after the prefix, which
+ * is removed afterwards.
+ */
+export function describeEachStorageBackend(prefix: string, tests: () => void) {
+  describe.each(storageBackends)('with the %s backend', (_name, createStorage) => {
+    let workspaceDir: string;
+
+    beforeEach(async () => {
+      workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+      FileUtils.setStorage(createStorage(workspaceDir));
+    });
+
+    afterEach(async () => {
+      FileUtils.setStorage(null);
+      await fs.rm(workspaceDir, { recursive: true, force: true });
+    });
+
+    tests();
+  });
+}